@@ -0,0 +1,47 @@
+import type { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { POST } from './route';
+
+async function analyze(body: unknown) {
+  const response = await POST({ json: async () => body } as NextRequest);
+  return { status: response.status, data: await response.json() };
+}
+
+// Phenol written twice, aniline, an unparsable entry and two alkanes, the
+// longer unmeasured.
+const library = ['Oc1ccccc1', 'Nc1ccccc1', 'c1ccccc1O', 'C1CC(', 'CCCCCCCC', 'CCCCCCCCC'];
+const activities = [5, 6, 7.5, 4, 6, null];
+
+describe('POST /api/cliffs', () => {
+  it('returns cliffs, a SALI network and a heatmap by library index', async () => {
+    const { status, data } = await analyze({ library, activities, parameters: { minSimilarity: 0.3 } });
+    expect(status).toBe(200);
+    expect(data).toMatchObject({ compounds: 5, measured: 4, pairCount: 6, cliffCount: 3 });
+    expect(data.cliffs).toEqual([
+      { from: 0, to: 2, similarity: 1, activityDifference: 2.5, sali: 250 },
+      { from: 1, to: 2, similarity: 0.375, activityDifference: 1.5, sali: 2.4 },
+      { from: 0, to: 1, similarity: 0.375, activityDifference: 1, sali: 1.6 },
+    ]);
+    expect(data.network.nodes).toEqual([
+      { index: 0, smiles: 'Oc1ccccc1', activity: 5, cliffCount: 2 },
+      { index: 1, smiles: 'Nc1ccccc1', activity: 6, cliffCount: 2 },
+      { index: 2, smiles: 'c1ccccc1O', activity: 7.5, cliffCount: 2 },
+    ]);
+    expect(data.network.edges[0]).toEqual({ source: 0, target: 2, sali: 250 });
+    expect(data.heatmap.order).toEqual([0, 1, 4, 2]);
+    expect(data.heatmap.sali[0]).toEqual([0, 1.6, 1, 250]);
+    expect(data.invalid).toEqual([{ index: 3, smiles: 'C1CC(', error: 'Unclosed branch', position: 4 }]);
+  });
+
+  it('uses the default similarity threshold of 0.65', async () => {
+    const { data } = await analyze({ library, activities });
+    expect(data.parameters).toMatchObject({ fingerprintType: 'ECFP4', minSimilarity: 0.65, minActivityDifference: 1 });
+    expect(data.cliffs.map((cliff: { from: number; to: number }) => [cliff.from, cliff.to])).toEqual([[0, 2]]);
+  });
+
+  it('rejects misaligned activities and invalid thresholds', async () => {
+    expect((await analyze({ library, activities: [1, 2] })).status).toBe(400);
+    expect((await analyze({ library, activities: library.map(() => 'high') })).status).toBe(400);
+    expect((await analyze({ library, activities, parameters: { minSimilarity: 2 } })).status).toBe(400);
+  });
+});
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  CliffOptionsError,
+  MAX_HEATMAP_SIZE,
+  SALI_DISTANCE_FLOOR,
+  findActivityCliffs,
+  resolveCliffParameters,
+  type CliffParameters,
+} from '@/lib/chem/cliffs';
+import {
+  FingerprintOptionsError,
+  computeFingerprint,
+  resolveFingerprintOptions,
+  type Fingerprint,
+  type FingerprintParameters,
+} from '@/lib/chem/fingerprints';
+import { SmilesParseError, parseSmiles } from '@/lib/chem/smiles';
+
+interface CliffRequest {
+  library: string[];
+  // Aligned with library; null for unmeasured compounds.
+  activities: (number | null)[];
+  // Mirrors the `parameters` block returned for activity-cliffs.
+  parameters?: CliffParameters & FingerprintParameters;
+}
+
+const MAX_LIBRARY_SIZE = 2000;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: CliffRequest = await request.json();
+    const { library, activities, parameters = {} } = body;
+
+    if (typeof parameters !== 'object' || parameters === null) {
+      return NextResponse.json(
+        { error: 'Expected parameters to be an object' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(library) || library.some((smiles) => typeof smiles !== 'string')) {
+      return NextResponse.json(
+        { error: 'Expected a library array of SMILES' },
+        { status: 400 }
+      );
+    }
+    if (library.length > MAX_LIBRARY_SIZE) {
+      return NextResponse.json(
+        { error: `Library is limited to ${MAX_LIBRARY_SIZE} compounds per request` },
+        { status: 400 }
+      );
+    }
+    if (
+      !Array.isArray(activities) ||
+      activities.length !== library.length ||
+      activities.some((value) => value !== null && (typeof value !== 'number' || !Number.isFinite(value)))
+    ) {
+      return NextResponse.json(
+        { error: 'Expected activities to be an array of numbers or nulls, one per library compound' },
+        { status: 400 }
+      );
+    }
+
+    const resolved = resolveCliffParameters(parameters);
+    const fingerprint = resolveFingerprintOptions(parameters);
+
+    // Library index of each parsed compound
+    const indices: number[] = [];
+    const fingerprints: Fingerprint[] = [];
+    const invalid: { index: number; smiles: string; error: string; position: number }[] = [];
+    library.forEach((smiles, index) => {
+      try {
+        fingerprints.push(computeFingerprint(parseSmiles(smiles), fingerprint));
+        indices.push(index);
+      } catch (error) {
+        if (!(error instanceof SmilesParseError)) throw error;
+        invalid.push({ index, smiles, error: error.reason, position: error.position });
+      }
+    });
+
+    const analysis = findActivityCliffs(
+      fingerprints,
+      indices.map((index) => activities[index]),
+      resolved
+    );
+    const cliffs = analysis.cliffs.map((cliff) => ({
+      from: indices[cliff.from],
+      to: indices[cliff.to],
+      similarity: round(cliff.similarity),
+      activityDifference: round(cliff.activityDifference),
+      sali: round(cliff.sali),
+    }));
+    // Compounds in the reported cliffs, for a SALI network
+    const nodes = [...new Set(analysis.cliffs.flatMap((cliff) => [cliff.from, cliff.to]))]
+      .sort((a, b) => a - b)
+      .map((i) => ({
+        index: indices[i],
+        smiles: library[indices[i]],
+        activity: activities[indices[i]],
+        cliffCount: analysis.cliffsPerCompound[i],
+      }));
+
+    return NextResponse.json(
+      {
+        parameters: {
+          fingerprintType: parameters.fingerprintType ?? 'ECFP4',
+          ...(fingerprint.family === 'ecfp' || fingerprint.family === 'fcfp' ? { radius: fingerprint.radius } : {}),
+          bitLength: fingerprint.family === 'maccs' ? 167 : fingerprint.bitLength,
+          useCounts: fingerprint.useCounts,
+          ...(fingerprint.family === 'path' ? { maxPathLength: fingerprint.maxPathLength } : {}),
+          ...resolved,
+        },
+        compounds: fingerprints.length,
+        measured: indices.filter((index) => activities[index] !== null).length,
+        pairCount: analysis.pairCount,
+        cliffCount: analysis.cliffCount,
+        cliffs,
+        network: {
+          nodes,
+          edges: cliffs.map((cliff) => ({ source: cliff.from, target: cliff.to, sali: cliff.sali })),
+        },
+        heatmap: analysis.heatmap && {
+          order: analysis.heatmap.order.map((i) => indices[i]),
+          sali: analysis.heatmap.sali.map((row) => row.map(round)),
+        },
+        invalid,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof CliffOptionsError || error instanceof FingerprintOptionsError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error finding activity cliffs:', error);
+    return NextResponse.json(
+      { error: 'Failed to find activity cliffs' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Activity cliffs from pairwise fingerprint similarity and the Structure-Activity Landscape Index, with SALI network and heatmap data',
+    defaults: resolveCliffParameters({}),
+    sali: `|activity(i) - activity(j)| / max(1 - similarity(i, j), ${SALI_DISTANCE_FLOOR})`,
+    maxHeatmapSize: MAX_HEATMAP_SIZE,
+    maxLibrarySize: MAX_LIBRARY_SIZE,
+    usage: 'POST /api/cliffs with { library, activities, parameters?: { minSimilarity, minActivityDifference, minSali, maxCliffs, fingerprintType, radius, bitLength, useCounts } }',
+  });
+}
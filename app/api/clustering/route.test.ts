@@ -0,0 +1,50 @@
+import type { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { POST } from './route';
+
+async function cluster(body: unknown) {
+  const response = await POST({ json: async () => body } as NextRequest);
+  return { status: response.status, data: await response.json() };
+}
+
+// Phenol twice, two alkanes with identical ECFP4 bits, an unparsable entry
+// and pyridine.
+const library = ['c1ccccc1O', 'Oc1ccccc1', 'CCCCCCCC', 'C1CC(', 'CCCCCCCCC', 'c1ccncc1'];
+
+describe('POST /api/clustering', () => {
+  it('returns Butina clusters, assignments by library index, singletons and MaxMin picks', async () => {
+    const { status, data } = await cluster({ library });
+    expect(status).toBe(200);
+    expect(data.compounds).toBe(5);
+    expect(data.clusters).toEqual([
+      { id: 1, size: 2, centroid: { index: 0, smiles: 'c1ccccc1O' }, members: [0, 1] },
+      { id: 2, size: 2, centroid: { index: 2, smiles: 'CCCCCCCC' }, members: [2, 4] },
+      { id: 3, size: 1, centroid: { index: 5, smiles: 'c1ccncc1' }, members: [5] },
+    ]);
+    expect(data.assignments).toEqual([1, 1, 2, null, 2, 3]);
+    expect(data.singletons).toEqual([5]);
+    expect(data.picks.map((pick: { index: number }) => pick.index)).toEqual([5, 2, 0, 1, 4]);
+    expect(data.invalid).toEqual([{ index: 3, smiles: 'C1CC(', error: 'Unclosed branch', position: 4 }]);
+  });
+
+  it('numbers dendrogram nodes after the library for hierarchical clustering', async () => {
+    const { data } = await cluster({
+      library,
+      parameters: { clusteringMethod: 'hierarchical', linkage: 'single', pickingMethod: 'sphere-exclusion', maxPicks: 3 },
+    });
+    expect(data.parameters).toMatchObject({ clusteringMethod: 'hierarchical', linkage: 'single', pickingMethod: 'sphere-exclusion' });
+    expect(data.dendrogram).toEqual([
+      { left: 0, right: 1, distance: 0, size: 2 },
+      { left: 2, right: 4, distance: 0, size: 2 },
+      { left: 5, right: 6, distance: 0.824, size: 3 },
+      { left: 7, right: 8, distance: 1, size: 5 },
+    ]);
+    expect(data.picks.map((pick: { index: number }) => pick.index)).toEqual([0, 2, 5]);
+  });
+
+  it('rejects a missing library and invalid options', async () => {
+    expect((await cluster({ library: 'CCO' })).status).toBe(400);
+    expect((await cluster({ library, parameters: { pickingMethod: 'random' } })).status).toBe(400);
+    expect((await cluster({ library, parameters: { fingerprintType: 'ECFP3' } })).status).toBe(400);
+  });
+});
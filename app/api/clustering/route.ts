@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ClusteringOptionsError,
+  clusterFingerprints,
+  clusteringMethods,
+  linkageMethods,
+  pickingMethods,
+  resolveClusteringParameters,
+  type ClusteringParameters,
+} from '@/lib/chem/clustering';
+import {
+  FingerprintOptionsError,
+  computeFingerprint,
+  resolveFingerprintOptions,
+  type Fingerprint,
+  type FingerprintParameters,
+} from '@/lib/chem/fingerprints';
+import { SmilesParseError, parseSmiles } from '@/lib/chem/smiles';
+
+interface ClusteringRequest {
+  library: string[];
+  // Mirrors the `parameters` block returned for clustering-diversity.
+  parameters?: ClusteringParameters & FingerprintParameters;
+}
+
+const MAX_LIBRARY_SIZE = 5000;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: ClusteringRequest = await request.json();
+    const { library, parameters = {} } = body;
+
+    if (typeof parameters !== 'object' || parameters === null) {
+      return NextResponse.json(
+        { error: 'Expected parameters to be an object' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(library) || library.some((smiles) => typeof smiles !== 'string')) {
+      return NextResponse.json(
+        { error: 'Expected a library array of SMILES' },
+        { status: 400 }
+      );
+    }
+    if (library.length > MAX_LIBRARY_SIZE) {
+      return NextResponse.json(
+        { error: `Library is limited to ${MAX_LIBRARY_SIZE} compounds per request` },
+        { status: 400 }
+      );
+    }
+
+    const resolved = resolveClusteringParameters(parameters);
+    const fingerprint = resolveFingerprintOptions(parameters);
+
+    // Library index of each parsed compound
+    const indices: number[] = [];
+    const fingerprints: Fingerprint[] = [];
+    const invalid: { index: number; smiles: string; error: string; position: number }[] = [];
+    library.forEach((smiles, index) => {
+      try {
+        fingerprints.push(computeFingerprint(parseSmiles(smiles), fingerprint));
+        indices.push(index);
+      } catch (error) {
+        if (!(error instanceof SmilesParseError)) throw error;
+        invalid.push({ index, smiles, error: error.reason, position: error.position });
+      }
+    });
+
+    const { clusters, assignments, singletons, dendrogram, picks } = clusterFingerprints(fingerprints, resolved);
+    const compound = (i: number) => ({ index: indices[i], smiles: library[indices[i]] });
+    // Dendrogram leaves are library indices; merged clusters continue after them
+    const node = (id: number) => (id < indices.length ? indices[id] : library.length + id - indices.length);
+
+    const assignmentByIndex: (number | null)[] = library.map(() => null);
+    assignments.forEach((cluster, i) => (assignmentByIndex[indices[i]] = cluster + 1));
+
+    return NextResponse.json(
+      {
+        parameters: {
+          fingerprintType: parameters.fingerprintType ?? 'ECFP4',
+          ...(fingerprint.family === 'ecfp' || fingerprint.family === 'fcfp' ? { radius: fingerprint.radius } : {}),
+          bitLength: fingerprint.family === 'maccs' ? 167 : fingerprint.bitLength,
+          useCounts: fingerprint.useCounts,
+          ...(fingerprint.family === 'path' ? { maxPathLength: fingerprint.maxPathLength } : {}),
+          clusteringMethod: resolved.clusteringMethod,
+          distanceCutoff: resolved.distanceCutoff,
+          ...(resolved.clusteringMethod === 'hierarchical' ? { linkage: resolved.linkage } : {}),
+          pickingMethod: resolved.pickingMethod,
+          maxPicks: resolved.maxPicks,
+        },
+        compounds: fingerprints.length,
+        clusterCount: clusters.length,
+        clusters: clusters.map((cluster, k) => ({
+          id: k + 1,
+          size: cluster.members.length,
+          centroid: compound(cluster.centroid),
+          members: cluster.members.map((i) => indices[i]),
+        })),
+        assignments: assignmentByIndex,
+        singletons: singletons.map((i) => indices[i]),
+        ...(dendrogram
+          ? {
+              dendrogram: dendrogram.map((merge) => ({
+                left: node(merge.left),
+                right: node(merge.right),
+                distance: round(merge.distance),
+                size: merge.size,
+              })),
+            }
+          : {}),
+        picks: picks.map((pick) => ({
+          ...compound(pick.index),
+          distance: pick.distance === null ? null : round(pick.distance),
+        })),
+        invalid,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ClusteringOptionsError || error instanceof FingerprintOptionsError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error clustering library:', error);
+    return NextResponse.json(
+      { error: 'Failed to cluster library' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Butina or hierarchical clustering and MaxMin or sphere-exclusion diversity picking on fingerprint Tanimoto distance',
+    clusteringMethods,
+    linkageMethods,
+    pickingMethods,
+    defaults: resolveClusteringParameters({}),
+    maxLibrarySize: MAX_LIBRARY_SIZE,
+    usage: 'POST /api/clustering with { library, parameters?: { clusteringMethod, distanceCutoff, linkage, pickingMethod, maxPicks, fingerprintType, radius, bitLength, useCounts } }',
+  });
+}
@@ -0,0 +1,35 @@
+import type { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { POST } from './route';
+
+function post(body: unknown) {
+  return POST({ json: async () => body } as NextRequest);
+}
+
+describe('POST /api/descriptors', () => {
+  it('describes a batch and keeps invalid SMILES in place', async () => {
+    const response = await post({ smiles: ['CCO', 'C1CC', 'c1ccccc1'], descriptors: ['HeavyAtoms', 'AromaticRings'] });
+    expect(response.status).toBe(200);
+    const data = await response.json();
+    expect(data.descriptors).toEqual(['HeavyAtoms', 'AromaticRings']);
+    expect(data.results[0]).toMatchObject({ valid: true, descriptors: { HeavyAtoms: 3, AromaticRings: 0 } });
+    expect(data.results[1]).toMatchObject({ input: 'C1CC', valid: false });
+    expect(data.results[2].descriptors).toEqual({ HeavyAtoms: 6, AromaticRings: 1 });
+    expect(data).toMatchObject({ validCount: 2, invalidCount: 1 });
+  });
+
+  it('returns CSV with one row per input', async () => {
+    const response = await post({ smiles: ['CCO', 'C1CC'], descriptors: ['HBD'], format: 'csv' });
+    expect(response.headers.get('Content-Type')).toMatch(/^text\/csv/);
+    const lines = (await response.text()).trimEnd().split('\n');
+    expect(lines[0]).toBe('smiles,canonicalSmiles,HBD,error');
+    expect(lines[1]).toBe('CCO,CCO,1,');
+    expect(lines[2]).toMatch(/^C1CC,,,.+ at position \d+$/);
+  });
+
+  it('rejects unknown descriptors and formats', async () => {
+    expect((await post({ smiles: 'CCO', descriptors: ['pKa'] })).status).toBe(400);
+    expect((await post({ smiles: 'CCO', descriptors: [] })).status).toBe(400);
+    expect((await post({ smiles: 'CCO', format: 'xml' })).status).toBe(400);
+  });
+});
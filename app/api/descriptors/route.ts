@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  calculateDescriptors,
+  descriptorNames,
+  isDescriptorName,
+  type DescriptorName,
+} from '@/lib/chem/descriptors';
+import { SmilesParseError, parseSmiles, writeSmiles } from '@/lib/chem/smiles';
+
+interface DescriptorRequest {
+  smiles: string | string[];
+  descriptors?: string[];
+  format?: 'json' | 'csv';
+}
+
+type DescriptorResult =
+  | { input: string; valid: true; canonicalSmiles: string; descriptors: Record<DescriptorName, number> }
+  | { input: string; valid: false; error: string; position: number };
+
+const MAX_BATCH_SIZE = 1000;
+
+function describeOne(input: string, names: DescriptorName[]): DescriptorResult {
+  try {
+    const mol = parseSmiles(input);
+    const values = calculateDescriptors(mol, names);
+    for (const name of names) {
+      values[name] = Math.round(values[name] * 1000) / 1000;
+    }
+    return { input, valid: true, canonicalSmiles: writeSmiles(mol), descriptors: values };
+  } catch (error) {
+    if (error instanceof SmilesParseError) {
+      return { input, valid: false, error: error.reason, position: error.position };
+    }
+    throw error;
+  }
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per input; invalid SMILES keep their row with empty values.
+function toCsv(results: DescriptorResult[], names: DescriptorName[]): string {
+  const rows = [['smiles', 'canonicalSmiles', ...names, 'error']];
+  for (const result of results) {
+    rows.push(
+      result.valid
+        ? [result.input, result.canonicalSmiles, ...names.map((name) => String(result.descriptors[name])), '']
+        : [result.input, '', ...names.map(() => ''), `${result.error} at position ${result.position}`],
+    );
+  }
+  return rows.map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: DescriptorRequest = await request.json();
+    const inputs = Array.isArray(body.smiles) ? body.smiles : [body.smiles];
+    const { descriptors = [...descriptorNames], format = 'json' } = body;
+
+    if (inputs.length === 0 || inputs.some((smiles) => typeof smiles !== 'string')) {
+      return NextResponse.json(
+        { error: 'Expected smiles to be a string or an array of strings' },
+        { status: 400 }
+      );
+    }
+
+    if (inputs.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BATCH_SIZE} SMILES can be described per request` },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(descriptors) || descriptors.length === 0 || !descriptors.every(isDescriptorName)) {
+      return NextResponse.json(
+        { error: `Invalid descriptors. Expected a non-empty subset of: ${descriptorNames.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (format !== 'json' && format !== 'csv') {
+      return NextResponse.json(
+        { error: 'Invalid format. Expected json or csv' },
+        { status: 400 }
+      );
+    }
+
+    const names = [...new Set(descriptors)];
+    const results = inputs.map((smiles) => describeOne(smiles, names));
+
+    if (format === 'csv') {
+      return new NextResponse(toCsv(results, names), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="descriptors.csv"',
+        },
+      });
+    }
+
+    const validCount = results.filter((result) => result.valid).length;
+    return NextResponse.json(
+      { descriptors: names, results, validCount, invalidCount: results.length - validCount },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error calculating descriptors:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate descriptors' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Molecular descriptor calculator',
+    descriptors: descriptorNames,
+    formats: ['json', 'csv'],
+    maxBatchSize: MAX_BATCH_SIZE,
+    usage: 'POST /api/descriptors with { smiles: string | string[], descriptors?, format? }',
+  });
+}
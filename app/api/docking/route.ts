@@ -0,0 +1,255 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  DOCKING_ENERGY_SCALE,
+  DockingEngineError,
+  DockingOptionsError,
+  combinedScore,
+  createEmpiricalAdapter,
+  dockingEngines,
+  dockingReceptor,
+  normalizeDockingScore,
+  resolveDockingEngine,
+  resolveDockingParameters,
+  type DockingBox,
+  type DockingLigand,
+  type DockingParameters,
+} from '@/lib/chem/docking';
+import { createCommandLineAdapter, dockingBinary } from '@/lib/chem/docking-cli';
+import {
+  FingerprintOptionsError,
+  computeFingerprint,
+  resolveFingerprintOptions,
+  type Fingerprint,
+  type FingerprintParameters,
+} from '@/lib/chem/fingerprints';
+import type { Vec3 } from '@/lib/chem/geometry';
+import { detectPockets, resolvePocketParameters } from '@/lib/chem/pockets';
+import { ProteinParseError, isStructureFormat, parseStructure, structureFormats } from '@/lib/chem/protein';
+import { SdfParseError, groupConformers, parseMolBlock, splitSdf } from '@/lib/chem/sdf';
+import { fingerprintSimilarity } from '@/lib/chem/similarity';
+import { SmilesParseError, parseSmiles } from '@/lib/chem/smiles';
+
+interface DockingRequest {
+  // PDB or mmCIF text of the target.
+  receptor?: string;
+  receptorFormat?: string;
+  // SD file of 3D ligands; consecutive records with the same title are
+  // conformers of one compound.
+  ligands?: string;
+  // Search box; without one the ligands are docked into a detected pocket,
+  // the best by default.
+  box?: { center?: unknown; size?: unknown };
+  pocket?: number;
+  // SMILES of a reference ligand. When given, each result also carries its
+  // fingerprint similarity and the compound-screening combinedScore.
+  query?: string;
+  engine?: string;
+  parameters?: DockingParameters & FingerprintParameters;
+}
+
+const MAX_ATOMS = 100000;
+const MAX_LIGANDS = 50;
+const MAX_RECORDS = 500;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+const roundPoint = (point: Vec3) => point.map(round) as Vec3;
+
+const isVec3 = (value: unknown): value is Vec3 =>
+  Array.isArray(value) && value.length === 3 && value.every((v) => typeof v === 'number' && Number.isFinite(v));
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: DockingRequest = await request.json();
+    const { receptor, receptorFormat, ligands, box, pocket = 1, query, engine, parameters = {} } = body;
+
+    if (typeof parameters !== 'object' || parameters === null) {
+      return NextResponse.json(
+        { error: 'Expected parameters to be an object' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof receptor !== 'string' || receptor.trim() === '') {
+      return NextResponse.json(
+        { error: 'Expected receptor to be a PDB or mmCIF file string' },
+        { status: 400 }
+      );
+    }
+    if (receptorFormat !== undefined && (typeof receptorFormat !== 'string' || !isStructureFormat(receptorFormat))) {
+      return NextResponse.json(
+        { error: `Expected receptorFormat to be one of ${structureFormats.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (typeof ligands !== 'string') {
+      return NextResponse.json(
+        { error: 'Expected ligands to be an SD file string' },
+        { status: 400 }
+      );
+    }
+    if (query !== undefined && typeof query !== 'string') {
+      return NextResponse.json(
+        { error: 'Expected query to be a SMILES string' },
+        { status: 400 }
+      );
+    }
+
+    const binary = dockingBinary();
+    const resolvedEngine = resolveDockingEngine(engine, binary !== null);
+    const resolved = resolveDockingParameters(parameters);
+    const fingerprint = query !== undefined ? resolveFingerprintOptions(parameters) : null;
+    let queryFingerprint: Fingerprint | null = null;
+    if (fingerprint) {
+      try {
+        queryFingerprint = computeFingerprint(parseSmiles(query as string), fingerprint);
+      } catch (error) {
+        if (error instanceof SmilesParseError) {
+          return NextResponse.json(
+            { error: `Invalid query SMILES: ${error.reason}`, position: error.position },
+            { status: 400 }
+          );
+        }
+        throw error;
+      }
+    }
+
+    const protein = parseStructure(receptor, receptorFormat);
+    if (protein.atoms.length > MAX_ATOMS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_ATOMS} receptor atoms are allowed` },
+        { status: 400 }
+      );
+    }
+
+    let searchBox: DockingBox;
+    let site: { rank: number; center: Vec3; volume: number } | null = null;
+    if (box !== undefined) {
+      const size = box.size ?? [resolved.boxSize, resolved.boxSize, resolved.boxSize];
+      if (!isVec3(box.center) || !isVec3(size) || size.some((v) => v < 1 || v > 40)) {
+        return NextResponse.json(
+          { error: 'Expected box to have a center [x, y, z] and an optional size of three edges from 1 to 40 Å' },
+          { status: 400 }
+        );
+      }
+      searchBox = { center: box.center, size };
+    } else {
+      if (!Number.isInteger(pocket) || pocket < 1) {
+        return NextResponse.json(
+          { error: 'Expected pocket to be a rank from 1' },
+          { status: 400 }
+        );
+      }
+      const found = detectPockets(protein, resolvePocketParameters({ maxPockets: pocket }))[pocket - 1];
+      if (!found) {
+        return NextResponse.json(
+          { error: `The receptor has no pocket of rank ${pocket}; give a box instead` },
+          { status: 400 }
+        );
+      }
+      site = { rank: found.rank, center: roundPoint(found.center), volume: found.volume };
+      searchBox = { center: found.center, size: [resolved.boxSize, resolved.boxSize, resolved.boxSize] };
+    }
+
+    const blocks = splitSdf(ligands);
+    if (blocks.length > MAX_RECORDS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_RECORDS} ligand records can be docked per request` },
+        { status: 400 }
+      );
+    }
+    const records: { index: number; name: string; conformer: DockingLigand['conformers'][number] }[] = [];
+    const invalid: { index: number; error: string; line: number }[] = [];
+    blocks.forEach((block, index) => {
+      try {
+        const { name, molecule, coordinates } = parseMolBlock(block);
+        records.push({ index, name, conformer: { molecule, coordinates, block } });
+      } catch (error) {
+        if (!(error instanceof SdfParseError)) throw error;
+        invalid.push({ index, error: error.reason, line: error.line });
+      }
+    });
+    const compounds = groupConformers(records);
+    if (compounds.length > MAX_LIGANDS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_LIGANDS} ligands can be docked per request` },
+        { status: 400 }
+      );
+    }
+
+    const adapter =
+      resolvedEngine === 'vina' ? createCommandLineAdapter({ binary: binary as string }) : createEmpiricalAdapter();
+    const target = dockingReceptor(protein, resolved.includeHetero);
+    const results = [];
+    for (const group of compounds) {
+      const ligand: DockingLigand = { name: group[0].name, conformers: group.map((record) => record.conformer) };
+      const poses = await adapter.dock(target, ligand, searchBox, resolved);
+      const bindingEnergy = poses[0]?.bindingEnergy ?? 0;
+      const dockingScore = normalizeDockingScore(bindingEnergy);
+      const similarity =
+        queryFingerprint && fingerprint
+          ? fingerprintSimilarity(queryFingerprint, computeFingerprint(ligand.conformers[0].molecule, fingerprint), 'tanimoto')
+          : null;
+      results.push({
+        index: group[0].index,
+        name: ligand.name,
+        bindingEnergy: round(bindingEnergy),
+        dockingScore: round(dockingScore),
+        ...(similarity !== null
+          ? { similarity: round(similarity), combinedScore: round(combinedScore(similarity, dockingScore)) }
+          : {}),
+        poses: poses.map((pose) => ({
+          bindingEnergy: round(pose.bindingEnergy),
+          conformer: pose.conformer,
+          coordinates: pose.coordinates?.map(roundPoint) ?? null,
+        })),
+      });
+    }
+    results.sort((a, b) => (b.combinedScore ?? b.dockingScore) - (a.combinedScore ?? a.dockingScore) || a.index - b.index);
+
+    return NextResponse.json(
+      {
+        engine: resolvedEngine,
+        parameters: resolved,
+        box: { center: roundPoint(searchBox.center), size: searchBox.size },
+        ...(site ? { pocket: site } : {}),
+        results,
+        invalid,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (
+      error instanceof DockingOptionsError ||
+      error instanceof ProteinParseError ||
+      error instanceof FingerprintOptionsError
+    ) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    if (error instanceof DockingEngineError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 502 }
+      );
+    }
+    console.error('Error docking ligands:', error);
+    return NextResponse.json(
+      { error: 'Failed to dock ligands' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Ligand docking with an external Vina/smina-style program or a built-in empirical score',
+    engines: dockingEngines,
+    externalEngine: dockingBinary() !== null,
+    defaults: resolveDockingParameters({}),
+    maxLigands: MAX_LIGANDS,
+    scoring: `dockingScore = clamp(-bindingEnergy / ${DOCKING_ENERGY_SCALE}, 0, 1); combinedScore = 0.4 * similarity + 0.6 * dockingScore`,
+    usage: 'POST /api/docking with { receptor, receptorFormat?, ligands, box?: { center, size? }, pocket?, query?, engine?, parameters?: { boxSize, exhaustiveness, numModes, seed, includeHetero, fingerprintType } }',
+  });
+}
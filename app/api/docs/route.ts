@@ -47,6 +47,12 @@ const apiDocumentation = {
                       'structure-optimization',
                       'pharmacophore',
                       'virtual-screening',
+                      'substructure-search',
+                      'clustering-diversity',
+                      'scaffold-analysis',
+                      'matched-molecular-pairs',
+                      'activity-cliffs',
+                      'r-group-analysis',
                     ],
                     description: 'The type of algorithm to generate',
                   },
@@ -58,13 +64,13 @@ const apiDocumentation = {
                         minimum: 0,
                         maximum: 1,
                         default: 0.7,
-                        description: 'Similarity or confidence threshold',
+                        description: 'Similarity or confidence threshold; a conformal confidence level strictly between 0 and 1 for virtual-screening in stacking mode',
                       },
                       method: {
                         type: 'string',
-                        enum: ['tanimoto', 'dice', 'cosine', 'euclidean'],
+                        enum: ['tanimoto', 'dice', 'cosine', 'euclidean', 'tversky', 'soergel', 'russell-rao', 'usr', 'usrcat'],
                         default: 'tanimoto',
-                        description: 'Similarity calculation method',
+                        description: 'Similarity calculation method; usr and usrcat compare 3D shape',
                       },
                       maxCompounds: {
                         type: 'integer',
@@ -80,8 +86,195 @@ const apiDocumentation = {
                         default: 1000,
                         description: 'Number of iterations for optimization algorithms',
                       },
+                      fingerprintType: {
+                        type: 'string',
+                        default: 'ECFP4',
+                        description: 'Fingerprint for molecular-similarity: ECFP4, ECFP6, FCFP4, FCFP6, MACCS, atom-pair, topological-torsion, path, or ECFP/FCFP with any even diameter',
+                      },
+                      radius: {
+                        type: 'integer',
+                        minimum: 0,
+                        maximum: 6,
+                        description: 'ECFP/FCFP radius; overrides the diameter in fingerprintType',
+                      },
+                      bitLength: {
+                        type: 'integer',
+                        minimum: 64,
+                        maximum: 16384,
+                        default: 2048,
+                        description: 'Folded fingerprint length (MACCS is always 167 bits)',
+                      },
+                      useCounts: {
+                        type: 'boolean',
+                        default: false,
+                        description: 'Count fingerprints instead of bit vectors',
+                      },
+                      maxPathLength: {
+                        type: 'integer',
+                        minimum: 1,
+                        maximum: 10,
+                        default: 7,
+                        description: 'Longest path in bonds for path fingerprints',
+                      },
+                      tverskyAlpha: {
+                        type: 'number',
+                        minimum: 0,
+                        default: 0.9,
+                        description: 'Tversky weight for features only in the query',
+                      },
+                      tverskyBeta: {
+                        type: 'number',
+                        minimum: 0,
+                        default: 0.1,
+                        description: 'Tversky weight for features only in the compared molecule',
+                      },
+                      shapeWeight: {
+                        type: 'number',
+                        minimum: 0,
+                        default: 1,
+                        description: 'Weight of the USR/USRCAT shape score in the combined similarity (method usr or usrcat)',
+                      },
+                      fingerprintWeight: {
+                        type: 'number',
+                        minimum: 0,
+                        default: 0,
+                        description: 'Weight of the 2D fingerprint Tanimoto in the combined similarity (method usr or usrcat)',
+                      },
+                      smartsQuery: {
+                        type: 'string',
+                        default: 'c1ccccc1C(=O)[NX3]',
+                        description: 'SMARTS pattern for substructure-search',
+                      },
+                      applicabilityDomain: {
+                        type: 'string',
+                        enum: ['bounding-box', 'leverage', 'knn-tanimoto', 'density'],
+                        default: 'leverage',
+                        description: 'Applicability-domain method for qsar-model and virtual-screening',
+                      },
+                      modelEnsemble: {
+                        type: 'array',
+                        items: { type: 'string', enum: ['GraphNN', 'CNN', 'QSAR'] },
+                        default: ['CNN', 'GraphNN', 'QSAR'],
+                        description: 'virtual-screening ensemble members. GraphNN is a graph isomorphism network trained on CPU in the TypeScript output, with JSON-serializable weights',
+                      },
+                      batchSize: {
+                        type: 'integer',
+                        minimum: 1,
+                        maximum: 100000,
+                        default: 1000,
+                        description: 'virtual-screening batch size for screening and for GraphNN training mini-batches',
+                      },
+                      ensembleMode: {
+                        type: 'string',
+                        enum: ['fixed', 'stacking'],
+                        default: 'fixed',
+                        description: 'virtual-screening ensemble: fixed weights, or stacking with weights learned by a non-negative meta-model on out-of-fold predictions and inductive conformal confidence. In stacking mode threshold is the conformal confidence level and 1 - threshold the error rate of accepted hits',
+                      },
+                      optimizationMode: {
+                        type: 'string',
+                        enum: ['weighted-sum', 'pareto'],
+                        default: 'weighted-sum',
+                        description: 'structure-optimization: a single weighted fitness, or NSGA-II returning the Pareto front and the hypervolume per generation',
+                      },
+                      objectives: {
+                        type: 'array',
+                        items: { oneOf: [{ type: 'string' }, { $ref: '#/components/schemas/ObjectiveSpec' }] },
+                        default: ['potency', 'selectivity', 'drug-likeness'],
+                        description: 'structure-optimization objectives from potency, selectivity, drug-likeness, qed and synthetic-accessibility',
+                      },
+                      featureTypes: {
+                        type: 'array',
+                        items: { type: 'string', enum: ['HBD', 'HBA', 'Aromatic', 'Hydrophobic', 'Charged'] },
+                        description: 'pharmacophore feature types to perceive; all by default',
+                      },
+                      toleranceRadius: {
+                        type: 'number',
+                        exclusiveMinimum: 0,
+                        maximum: 5,
+                        default: 1.0,
+                        description: 'pharmacophore clustering tolerance and feature sphere radius in Å',
+                      },
+                      minFeatures: { type: 'integer', minimum: 1, maximum: 20, default: 3, description: 'pharmacophore: fewest common features in a model, and fewest a conformer must match' },
+                      maxFeatures: { type: 'integer', minimum: 1, maximum: 20, default: 7, description: 'pharmacophore: most features kept in a model' },
+                      conformerGeneration: {
+                        type: 'boolean',
+                        default: true,
+                        description: 'pharmacophore: use every supplied conformer of a compound, or only its first',
+                      },
+                      clusteringMethod: {
+                        type: 'string',
+                        enum: ['butina', 'hierarchical'],
+                        default: 'butina',
+                        description: 'clustering-diversity: Taylor-Butina clustering, or agglomerative clustering cut at distanceCutoff',
+                      },
+                      distanceCutoff: {
+                        type: 'number',
+                        exclusiveMinimum: 0,
+                        exclusiveMaximum: 1,
+                        default: 0.35,
+                        description: 'clustering-diversity: Tanimoto distance (1 - similarity) for cluster membership and sphere exclusion',
+                      },
+                      linkage: {
+                        type: 'string',
+                        enum: ['single', 'complete', 'average'],
+                        default: 'average',
+                        description: 'clustering-diversity: linkage for hierarchical clustering',
+                      },
+                      pickingMethod: {
+                        type: 'string',
+                        enum: ['maxmin', 'sphere-exclusion'],
+                        default: 'maxmin',
+                        description: 'clustering-diversity: diverse-subset selection of maxCompounds compounds',
+                      },
+                      minScaffoldCount: {
+                        type: 'integer',
+                        minimum: 1,
+                        default: 1,
+                        description: 'scaffold-analysis: compounds a scaffold or scaffold-tree node needs to be reported; maxCompounds caps the scaffold lists',
+                      },
+                      maxVariableAtoms: {
+                        type: 'integer',
+                        minimum: 1,
+                        default: 10,
+                        description: 'matched-molecular-pairs: largest variable part, in heavy atoms, that is indexed',
+                      },
+                      minPairs: {
+                        type: 'integer',
+                        minimum: 1,
+                        default: 1,
+                        description: 'matched-molecular-pairs: compound pairs a transform needs to be reported; maxCompounds caps the transforms and suggestions',
+                      },
+                      minActivityDifference: {
+                        type: 'number',
+                        minimum: 0,
+                        default: 1,
+                        description: 'activity-cliffs: absolute activity difference a pair needs to be a cliff; threshold is the minimum Tanimoto similarity and maxCompounds caps the reported cliffs',
+                      },
+                      minSali: {
+                        type: 'number',
+                        minimum: 0,
+                        default: 0,
+                        description: 'activity-cliffs: Structure-Activity Landscape Index a pair needs to be a cliff',
+                      },
+                      coreSmarts: {
+                        type: 'string',
+                        default: '[*:1]c1ccc(cc1)C(=O)N[*:2]',
+                        description: 'r-group-analysis: core SMARTS with labelled attachment points [*:1], [*:2], ...; maxCompounds caps the predictions for unmade combinations',
+                      },
+                      ridgeAlpha: {
+                        type: 'number',
+                        minimum: 0,
+                        default: 0.1,
+                        description: 'r-group-analysis: ridge penalty on the Free-Wilson substituent contributions',
+                      },
                     },
                   },
+                  targetLanguage: {
+                    type: 'string',
+                    enum: ['pseudocode', 'typescript', 'python-rdkit'],
+                    default: 'pseudocode',
+                    description: 'Language of the returned code: pseudocode, runnable TypeScript (RDKit MinimalLib) or runnable Python (RDKit)',
+                  },
                 },
                 example: {
                   type: 'molecular-similarity',
@@ -123,6 +316,14 @@ const apiDocumentation = {
                       type: 'string',
                       description: 'Algorithm implementation in pseudocode',
                     },
+                    targetLanguage: {
+                      type: 'string',
+                      description: 'Language of the code field',
+                    },
+                    code: {
+                      type: 'string',
+                      description: 'Implementation in the requested target language, including a self-check on sample molecules',
+                    },
                     complexity: {
                       type: 'string',
                       description: 'Time complexity analysis',
@@ -194,255 +395,3304 @@ const apiDocumentation = {
         },
       },
     },
-  },
-  components: {
-    schemas: {
-      AlgorithmType: {
-        type: 'string',
-        enum: [
-          'molecular-similarity',
-          'qsar-model',
-          'compound-screening',
-          'structure-optimization',
-          'pharmacophore',
-          'virtual-screening',
-        ],
+    '/api/molecules/parse': {
+      post: {
+        summary: 'Parse and validate SMILES',
+        description: 'Parse one or more SMILES strings into molecular graphs and return canonical SMILES with basic validation info. Invalid entries report the character position of the error.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['smiles'],
+                properties: {
+                  smiles: {
+                    oneOf: [
+                      { type: 'string' },
+                      { type: 'array', items: { type: 'string' }, maxItems: 1000 },
+                    ],
+                    description: 'A SMILES string or a list of them',
+                  },
+                },
+                example: {
+                  smiles: ['CC(=O)Oc1ccccc1C(=O)O', 'c1cccc1'],
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Per-input parse results',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    results: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          input: { type: 'string' },
+                          valid: { type: 'boolean' },
+                          canonicalSmiles: { type: 'string' },
+                          formula: { type: 'string' },
+                          molecularWeight: { type: 'number' },
+                          atomCount: { type: 'integer', description: 'Heavy atoms plus isotopic or charged hydrogens' },
+                          bondCount: { type: 'integer' },
+                          ringCount: { type: 'integer', description: 'Size of the smallest set of smallest rings' },
+                          aromaticAtomCount: { type: 'integer' },
+                          stereoCenterCount: { type: 'integer' },
+                          fragmentCount: { type: 'integer' },
+                          error: { type: 'string', description: 'Reason the input was rejected' },
+                          position: { type: 'integer', description: 'Zero-based character offset of the error' },
+                        },
+                      },
+                    },
+                    validCount: { type: 'integer' },
+                    invalidCount: { type: 'integer' },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Missing or malformed smiles field',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
       },
     },
-  },
-};
-
-const htmlDocumentation = `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Cheminformatics Algorithm Generator - API Documentation</title>
-    <style>
-        * { margin: 0; padding: 0; box-sizing: border-box; }
-        body {
-            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-            line-height: 1.6;
-            color: #333;
-            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-            padding: 2rem;
-        }
-        .container {
-            max-width: 1200px;
-            margin: 0 auto;
-            background: white;
-            border-radius: 16px;
-            padding: 3rem;
-            box-shadow: 0 20px 60px rgba(0,0,0,0.3);
-        }
-        h1 {
-            color: #667eea;
-            font-size: 2.5rem;
-            margin-bottom: 1rem;
-        }
-        h2 {
-            color: #764ba2;
-            font-size: 1.8rem;
-            margin: 2rem 0 1rem;
-            border-bottom: 2px solid #667eea;
-            padding-bottom: 0.5rem;
-        }
-        h3 {
-            color: #667eea;
-            font-size: 1.3rem;
-            margin: 1.5rem 0 0.5rem;
-        }
-        .badge {
-            display: inline-block;
-            padding: 0.25rem 0.75rem;
-            border-radius: 12px;
-            font-size: 0.85rem;
-            font-weight: bold;
-            margin-right: 0.5rem;
-        }
-        .badge-post { background: #10b981; color: white; }
-        .badge-get { background: #3b82f6; color: white; }
-        .endpoint {
-            background: #f8fafc;
-            border-left: 4px solid #667eea;
-            padding: 1.5rem;
-            margin: 1rem 0;
-            border-radius: 8px;
-        }
-        .code-block {
-            background: #1e293b;
-            color: #10b981;
-            padding: 1.5rem;
-            border-radius: 8px;
-            overflow-x: auto;
-            font-family: 'Courier New', monospace;
-            margin: 1rem 0;
-        }
-        .param-table {
-            width: 100%;
-            border-collapse: collapse;
-            margin: 1rem 0;
-        }
-        .param-table th,
-        .param-table td {
-            text-align: left;
-            padding: 0.75rem;
-            border-bottom: 1px solid #e2e8f0;
-        }
-        .param-table th {
-            background: #f1f5f9;
-            font-weight: 600;
-            color: #475569;
-        }
-        .algorithm-grid {
-            display: grid;
-            grid-template-columns: repeat(auto-fit, minmax(250px, 1fr));
-            gap: 1rem;
-            margin: 1.5rem 0;
-        }
-        .algorithm-card {
-            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-            color: white;
-            padding: 1.5rem;
-            border-radius: 12px;
-            box-shadow: 0 4px 12px rgba(0,0,0,0.15);
-        }
-        .algorithm-card h4 {
-            font-size: 1.1rem;
-            margin-bottom: 0.5rem;
-        }
-        .integration-example {
-            background: #eff6ff;
-            border: 2px solid #3b82f6;
-            padding: 1.5rem;
-            border-radius: 8px;
-            margin: 1rem 0;
-        }
-    </style>
-</head>
-<body>
-    <div class="container">
-        <h1>🧬 Cheminformatics Algorithm Generator API</h1>
-        <p style="font-size: 1.1rem; color: #64748b; margin-bottom: 2rem;">
-            Generate optimized algorithms for compound discovery, molecular analysis, and drug development workflows.
-        </p>
-
-        <h2>📚 Available Algorithms</h2>
-        <div class="algorithm-grid">
-            <div class="algorithm-card">
-                <h4>Molecular Similarity</h4>
-                <p style="font-size: 0.9rem; opacity: 0.9;">Fingerprint-based compound comparison</p>
-            </div>
-            <div class="algorithm-card">
-                <h4>QSAR Modeling</h4>
-                <p style="font-size: 0.9rem; opacity: 0.9;">Activity prediction from structure</p>
+    '/api/similarity': {
+      post: {
+        summary: 'Fingerprint or 3D shape similarity search',
+        description: 'Rank a library of SMILES against a query by fingerprint similarity (ECFP/FCFP, MACCS, atom-pair, topological torsion or path). With method usr or usrcat, query and library are SD files of 3D structures ranked by ultrafast shape recognition, optionally blended with fingerprint Tanimoto. Parameters follow the molecular-similarity generator output.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['query', 'library'],
+                properties: {
+                  query: {
+                    type: 'string',
+                    description: 'Query SMILES, or an SD file whose first compound (all its conformers) is the query for usr and usrcat',
+                  },
+                  library: {
+                    oneOf: [
+                      { type: 'array', items: { type: 'string' }, maxItems: 10000, description: 'Library SMILES to screen' },
+                      { type: 'string', description: 'SD file of 3D structures for usr and usrcat; consecutive records with the same title are conformers' },
+                    ],
+                  },
+                  parameters: {
+                    type: 'object',
+                    properties: {
+                      similarityThreshold: { type: 'number', minimum: 0, maximum: 1, default: 0.7 },
+                      method: { type: 'string', enum: ['tanimoto', 'dice', 'cosine', 'euclidean', 'tversky', 'soergel', 'russell-rao', 'usr', 'usrcat'], default: 'tanimoto' },
+                      maxResults: { type: 'integer', minimum: 1, default: 100 },
+                      fingerprintType: { type: 'string', enum: ['ECFP4', 'ECFP6', 'FCFP4', 'FCFP6', 'MACCS', 'atom-pair', 'topological-torsion', 'path'], default: 'ECFP4' },
+                      radius: { type: 'integer', minimum: 0, maximum: 6, description: 'ECFP/FCFP radius; overrides the diameter in fingerprintType' },
+                      bitLength: { type: 'integer', minimum: 64, maximum: 16384, default: 2048 },
+                      useCounts: { type: 'boolean', default: false },
+                      maxPathLength: { type: 'integer', minimum: 1, maximum: 10, default: 7 },
+                      tverskyAlpha: { type: 'number', minimum: 0, default: 0.9 },
+                      tverskyBeta: { type: 'number', minimum: 0, default: 0.1 },
+                      shapeWeight: { type: 'number', minimum: 0, default: 1, description: 'usr/usrcat: weight of the shape score' },
+                      fingerprintWeight: { type: 'number', minimum: 0, default: 0, description: 'usr/usrcat: weight of the fingerprint Tanimoto' },
+                    },
+                  },
+                },
+                example: {
+                  query: 'CC(=O)Oc1ccccc1C(=O)O',
+                  library: ['OC(=O)c1ccccc1O', 'CC(=O)Nc1ccc(O)cc1', 'c1ccccc1'],
+                  parameters: { similarityThreshold: 0.3, method: 'tanimoto' },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Hits sorted by decreasing similarity',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    query: { type: 'string', description: 'Canonical query SMILES' },
+                    parameters: { type: 'object', description: 'Parameters after defaults were applied' },
+                    screened: { type: 'integer', description: 'Library entries that parsed' },
+                    hitCount: { type: 'integer', description: 'Hits above the threshold before maxResults was applied' },
+                    hits: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          index: { type: 'integer', description: 'Position in the submitted library' },
+                          smiles: { type: 'string' },
+                          name: { type: 'string', description: 'usr/usrcat: SD title' },
+                          conformer: { type: 'integer', description: 'usr/usrcat: best-matching conformer within the compound' },
+                          canonicalSmiles: { type: 'string' },
+                          similarity: { type: 'number' },
+                          shapeSimilarity: { type: 'number', description: 'usr/usrcat: best USR or USRCAT score over conformer pairs' },
+                          fingerprintSimilarity: { type: 'number', description: 'usr/usrcat: fingerprint Tanimoto, when fingerprintWeight is above 0' },
+                        },
+                      },
+                    },
+                    invalid: {
+                      type: 'array',
+                      description: 'Library entries that failed to parse, with the error position',
+                      items: { type: 'object' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid query SMILES or SD record, or invalid parameters',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/api/descriptors': {
+      post: {
+        summary: 'Calculate molecular descriptors',
+        description: 'Compute the qsar-model descriptor set for a batch of SMILES: average molecular weight, Crippen LogP and MR, Ertl TPSA, Lipinski donors/acceptors, rotatable bonds, ring counts, heavy atoms, formal charge and fraction sp3.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['smiles'],
+                properties: {
+                  smiles: {
+                    oneOf: [
+                      { type: 'string' },
+                      { type: 'array', items: { type: 'string' }, maxItems: 1000 },
+                    ],
+                    description: 'A SMILES string or a list of them',
+                  },
+                  descriptors: {
+                    type: 'array',
+                    items: {
+                      type: 'string',
+                      enum: ['MW', 'LogP', 'MR', 'TPSA', 'HBD', 'HBA', 'RotatableBonds', 'Rings', 'AromaticRings', 'HeavyAtoms', 'FormalCharge', 'FractionCSP3'],
+                    },
+                    description: 'Subset to compute; all descriptors by default',
+                  },
+                  format: {
+                    type: 'string',
+                    enum: ['json', 'csv'],
+                    default: 'json',
+                  },
+                },
+                example: {
+                  smiles: ['CC(=O)Oc1ccccc1C(=O)O', 'CC(C)Cc1ccc(cc1)C(C)C(=O)O'],
+                  descriptors: ['MW', 'LogP', 'TPSA', 'HBD', 'HBA', 'RotatableBonds'],
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Descriptor values per input (JSON), or one CSV row per input with an error column for invalid SMILES',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    descriptors: { type: 'array', items: { type: 'string' } },
+                    results: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          input: { type: 'string' },
+                          valid: { type: 'boolean' },
+                          canonicalSmiles: { type: 'string' },
+                          descriptors: { type: 'object', additionalProperties: { type: 'number' } },
+                          error: { type: 'string' },
+                          position: { type: 'integer' },
+                        },
+                      },
+                    },
+                    validCount: { type: 'integer' },
+                    invalidCount: { type: 'integer' },
+                  },
+                },
+              },
+              'text/csv': {
+                schema: { type: 'string' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid input, descriptor name or format',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/api/filters': {
+      post: {
+        summary: 'Run a drug-likeness and structural alert filter cascade',
+        description: 'Pass a compound library through Lipinski, Veber, Ghose, Egan and lead-likeness property rules and the Brenk, PAINS A/B/C and in-house assay-interference alert sets, in the requested order. Each compound leaves at the first stage it fails; the response reports which rules or alerts fired and how many compounds each stage removed. The PAINS stages use the published Baell & Holloway patterns from the RDKit FilterCatalog, built into lib/chem/pains.json with npm run build:pains; without that catalogue they are left out of the default cascade and requesting them returns 503.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['smiles'],
+                properties: {
+                  smiles: {
+                    oneOf: [
+                      { type: 'string' },
+                      { type: 'array', items: { type: 'string' }, maxItems: 1000 },
+                    ],
+                    description: 'A SMILES string or a list of them',
+                  },
+                  stages: {
+                    type: 'array',
+                    items: {
+                      type: 'string',
+                      enum: ['lipinski', 'veber', 'ghose', 'egan', 'lead-likeness', 'brenk', 'pains-a', 'pains-b', 'pains-c', 'interference'],
+                    },
+                    description: 'Stages in the order they run; every available stage by default',
+                  },
+                  parameters: {
+                    type: 'object',
+                    properties: {
+                      lipinskiMaxViolations: {
+                        type: 'integer',
+                        minimum: 0,
+                        maximum: 4,
+                        default: 1,
+                        description: 'Rule-of-five violations tolerated before the Lipinski stage rejects a compound',
+                      },
+                    },
+                  },
+                },
+                example: {
+                  smiles: ['CC(=O)Nc1ccc(O)cc1', 'O=C1NC(=S)SC1=Cc1ccccc1', 'Oc1ccccc1O'],
+                  stages: ['lipinski', 'veber', 'brenk', 'pains-a'],
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Per-compound outcome and stage-by-stage attrition',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    stages: { type: 'array', items: { type: 'string' } },
+                    parameters: { type: 'object' },
+                    attrition: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          stage: { type: 'string' },
+                          input: { type: 'integer' },
+                          passed: { type: 'integer' },
+                          removed: { type: 'integer' },
+                        },
+                      },
+                    },
+                    results: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          index: { type: 'integer' },
+                          input: { type: 'string' },
+                          valid: { type: 'boolean' },
+                          canonicalSmiles: { type: 'string' },
+                          passed: { type: 'boolean' },
+                          failedStage: { type: 'string', nullable: true },
+                          reasons: { type: 'array', items: { type: 'string' } },
+                          error: { type: 'string' },
+                          position: { type: 'integer' },
+                        },
+                      },
+                    },
+                    validCount: { type: 'integer' },
+                    invalidCount: { type: 'integer' },
+                    passedCount: { type: 'integer' },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid input, stage name or parameters',
+          },
+          '503': {
+            description: 'A requested PAINS stage has no catalogue installed',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/api/substructure': {
+      post: {
+        summary: 'Search a library with a SMARTS query',
+        description: 'Find every library compound that contains the SMARTS query, using VF2-style subgraph matching. Supports recursive SMARTS, ring membership, ring size and ring connectivity, aromaticity, charge, hydrogen count, degree, valence and atom map classes. Each hit lists its embeddings as the input-SMILES atom index for every query atom.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['library'],
+                properties: {
+                  query: {
+                    type: 'string',
+                    description: 'SMARTS pattern; falls back to parameters.smartsQuery',
+                  },
+                  library: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    maxItems: 10000,
+                    description: 'SMILES to search',
+                  },
+                  parameters: {
+                    type: 'object',
+                    description: 'The parameter block returned by /api/generate for substructure-search',
+                    properties: {
+                      smartsQuery: { type: 'string' },
+                      maxResults: { type: 'integer', minimum: 1, default: 100 },
+                      maxMatchesPerCompound: { type: 'integer', minimum: 1, maximum: 1000, default: 10 },
+                      uniqueMatches: {
+                        type: 'boolean',
+                        default: true,
+                        description: 'Drop embeddings that cover the same atoms as an earlier one',
+                      },
+                    },
+                  },
+                },
+                example: {
+                  query: '[C:1](=O)[NX3:2]',
+                  library: ['CC(=O)Nc1ccc(O)cc1', 'c1ccc2ccccc2c1'],
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Matching compounds in library order with their atom mappings',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    query: { type: 'string' },
+                    parameters: { type: 'object' },
+                    atomMaps: {
+                      type: 'array',
+                      items: { type: 'integer' },
+                      description: 'Map class of each query atom, 0 when unmapped',
+                    },
+                    screened: { type: 'integer' },
+                    hitCount: { type: 'integer' },
+                    hits: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          index: { type: 'integer' },
+                          smiles: { type: 'string' },
+                          canonicalSmiles: { type: 'string' },
+                          matchCount: { type: 'integer' },
+                          mappings: {
+                            type: 'array',
+                            items: { type: 'array', items: { type: 'integer' } },
+                          },
+                        },
+                      },
+                    },
+                    invalid: { type: 'array', items: { type: 'object' } },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid SMARTS (with position), library or parameters',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/api/qsar/train': {
+      post: {
+        summary: 'Train and cross-validate a QSAR random forest',
+        description: 'Compute descriptors for the training SMILES, z-score normalize them and fit a random forest (100 trees, depth 10, min split 5) for regression or classification. Stratified k-fold cross-validation refits normalization and the applicability domain inside every fold and returns out-of-fold predictions, each with an in-domain flag and distance, alongside the pooled and per-fold metrics.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['smiles', 'activities'],
+                properties: {
+                  smiles: {
+                    type: 'array',
+                    items: { type: 'string' },
+                    maxItems: 5000,
+                  },
+                  activities: {
+                    type: 'array',
+                    items: { oneOf: [{ type: 'number' }, { type: 'string' }] },
+                    description: 'One value per SMILES: numbers for regression, class labels for classification',
+                  },
+                  task: {
+                    type: 'string',
+                    enum: ['regression', 'classification'],
+                    default: 'regression',
+                  },
+                  parameters: {
+                    type: 'object',
+                    description: 'The parameter block returned by /api/generate for qsar-model',
+                    properties: {
+                      descriptors: {
+                        type: 'array',
+                        items: { type: 'string' },
+                        default: ['MW', 'LogP', 'TPSA', 'HBD', 'HBA', 'RotatableBonds'],
+                      },
+                      kFolds: { type: 'integer', minimum: 2, maximum: 20, default: 5 },
+                      maxIterations: {
+                        type: 'integer',
+                        minimum: 1,
+                        default: 1000,
+                        description: 'Caps the number of trees at min(100, maxIterations)',
+                      },
+                      seed: { type: 'integer', default: 42 },
+                      applicabilityDomain: {
+                        type: 'string',
+                        enum: ['bounding-box', 'leverage', 'knn-tanimoto', 'density'],
+                        default: 'leverage',
+                      },
+                    },
+                  },
+                  save: {
+                    type: 'boolean',
+                    default: false,
+                    description: 'Store the final model in the registry and return its modelId',
+                  },
+                  name: { type: 'string', description: 'Registry name for a saved model' },
+                },
+                example: {
+                  smiles: ['CCO', 'CCCCO', 'c1ccccc1', 'Cc1ccccc1', 'Oc1ccccc1', 'Clc1ccc(Cl)cc1'],
+                  activities: [-0.31, 0.88, 2.13, 2.73, 1.46, 3.44],
+                  task: 'regression',
+                  parameters: { kFolds: 3 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Cross-validation metrics, feature importances and out-of-fold predictions',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    modelId: { type: 'string', description: 'Present when save is true' },
+                    task: { type: 'string' },
+                    parameters: { type: 'object' },
+                    trainingSize: { type: 'integer' },
+                    classes: {
+                      type: 'array',
+                      items: { oneOf: [{ type: 'number' }, { type: 'string' }] },
+                      description: 'Classification only',
+                    },
+                    crossValidation: {
+                      type: 'object',
+                      properties: {
+                        kFolds: { type: 'integer' },
+                        metrics: {
+                          type: 'object',
+                          description: 'r2, rmse and mae for regression; accuracy, balancedAccuracy, rocAuc and mcc for classification (the last two binary only)',
+                        },
+                        folds: { type: 'array', items: { type: 'object' } },
+                      },
+                    },
+                    featureImportances: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          descriptor: { type: 'string' },
+                          importance: { type: 'number' },
+                        },
+                      },
+                    },
+                    applicabilityDomain: {
+                      type: 'object',
+                      properties: {
+                        method: { type: 'string' },
+                        threshold: { type: 'number', description: 'Distance cut-off of the final model (not used by bounding-box)' },
+                        inDomainRate: { type: 'number', description: 'Share of out-of-fold predictions inside their fold domain' },
+                      },
+                    },
+                    williamsPlot: {
+                      type: 'object',
+                      description: 'Regression with the leverage method only',
+                      properties: {
+                        leverageThreshold: { type: 'number' },
+                        residualLimit: { type: 'number' },
+                        points: {
+                          type: 'array',
+                          items: {
+                            type: 'object',
+                            properties: {
+                              index: { type: 'integer' },
+                              leverage: { type: 'number' },
+                              standardizedResidual: { type: 'number' },
+                            },
+                          },
+                        },
+                      },
+                    },
+                    predictions: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          index: { type: 'integer' },
+                          smiles: { type: 'string' },
+                          observed: {},
+                          fold: { type: 'integer' },
+                          domain: { $ref: '#/components/schemas/DomainAssessment' },
+                          predicted: {},
+                          spread: { type: 'number', description: 'Regression: standard deviation across trees' },
+                          probabilities: { type: 'object', description: 'Classification: probability per class label' },
+                        },
+                      },
+                    },
+                    invalid: { type: 'array', items: { type: 'object' } },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Mismatched arrays, invalid task, parameters or activities, or too few valid compounds',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/api/models': {
+      get: {
+        summary: 'List stored QSAR models',
+        description: 'Every model saved with /api/qsar/train, newest first, without normalization statistics or trees',
+        responses: {
+          '200': {
+            description: 'Model summaries',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    count: { type: 'integer' },
+                    models: { type: 'array', items: { type: 'object' } },
+                  },
+                },
+              },
+            },
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/api/models/{id}': {
+      get: {
+        summary: 'Get a stored QSAR model',
+        description: 'The full serialized model, including normalization statistics and every tree',
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string', format: 'uuid' },
+          },
+        ],
+        responses: {
+          '200': {
+            description: 'Serialized model',
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/QsarModel' },
+              },
+            },
+          },
+          '404': {
+            description: 'No model with this id',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/api/models/{id}/predict': {
+      post: {
+        summary: 'Predict activities with a stored QSAR model',
+        description: 'Compute the model descriptors for each SMILES, normalize them with the stored training statistics and return the prediction with a 0-1 confidence and an applicability-domain assessment. Classification confidence is the probability of the predicted class; regression confidence is 1 / (1 + tree spread / cross-validated RMSE).',
+        parameters: [
+          {
+            name: 'id',
+            in: 'path',
+            required: true,
+            schema: { type: 'string', format: 'uuid' },
+          },
+        ],
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['smiles'],
+                properties: {
+                  smiles: {
+                    oneOf: [
+                      { type: 'string' },
+                      { type: 'array', items: { type: 'string' }, maxItems: 1000 },
+                    ],
+                  },
+                },
+                example: {
+                  smiles: ['CCCO', 'Clc1ccccc1'],
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'One result per input, in input order',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    modelId: { type: 'string' },
+                    task: { type: 'string' },
+                    applicabilityDomain: {
+                      type: 'string',
+                      nullable: true,
+                      description: 'null for version 1 models, which have no applicability domain',
+                    },
+                    results: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          index: { type: 'integer' },
+                          input: { type: 'string' },
+                          valid: { type: 'boolean' },
+                          canonicalSmiles: { type: 'string' },
+                          prediction: { oneOf: [{ type: 'number' }, { type: 'string' }] },
+                          confidence: { type: 'number', minimum: 0, maximum: 1 },
+                          domain: {
+                            allOf: [{ $ref: '#/components/schemas/DomainAssessment' }],
+                            nullable: true,
+                          },
+                          error: { type: 'string' },
+                          position: { type: 'integer' },
+                        },
+                      },
+                    },
+                    validCount: { type: 'integer' },
+                    invalidCount: { type: 'integer' },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Missing or oversized smiles batch',
+          },
+          '404': {
+            description: 'No model with this id',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/api/optimize': {
+      post: {
+        summary: 'Optimize a seed molecule with a genetic algorithm',
+        description: 'Evolve a population grown from the seed SMILES with graph crossover (swapping fragments cut at acyclic single bonds) and mutation (atom swap, add or remove a fragment, 5/6-ring closure, bioisostere replacement). Offspring are sanitized: extra fragments are dropped and over-valent atoms lose bond orders, and molecules that still fail are discarded. In weighted-sum mode, tournament selection with elitism ranks molecules by the mean of the objective scores, each between 0 and 1, and the run stops once the best score improves by less than 0.001 over 50 generations. In pareto mode, NSGA-II ranks by non-dominated front and crowding distance, returns the feasible Pareto front and stops once its hypervolume improves by less than 0.001 over 50 generations. Objective bounds are constraints: molecules outside them are infeasible and rank below every feasible molecule.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['smiles'],
+                properties: {
+                  smiles: { type: 'string', description: 'Seed molecule' },
+                  parameters: {
+                    type: 'object',
+                    description: 'The parameter block returned by /api/generate for structure-optimization',
+                    properties: {
+                      populationSize: { type: 'integer', minimum: 2, maximum: 500, default: 100 },
+                      generations: {
+                        type: 'integer',
+                        minimum: 1,
+                        maximum: 1000,
+                        default: 100,
+                        description: 'Falls back to iterations when omitted',
+                      },
+                      mutationRate: { type: 'number', minimum: 0, maximum: 1, default: 0.1 },
+                      crossoverRate: { type: 'number', minimum: 0, maximum: 1, default: 0.7 },
+                      optimizationMode: { type: 'string', enum: ['weighted-sum', 'pareto'], default: 'weighted-sum' },
+                      objectives: {
+                        type: 'array',
+                        items: {
+                          oneOf: [
+                            { type: 'string', enum: ['drug-likeness', 'similarity', 'qed', 'synthetic-accessibility'] },
+                            { $ref: '#/components/schemas/ObjectiveSpec' },
+                          ],
+                        },
+                        default: ['drug-likeness', 'similarity'],
+                        description: 'drug-likeness: Lipinski/Veber ranges with exponential decay outside them; similarity: ECFP4 Tanimoto to the seed; qed: Bickerton QED with mean weights; synthetic-accessibility: (10 - SA score) / 9. Names are maximized without bounds',
+                      },
+                      seed: { type: 'integer', default: 42 },
+                    },
+                  },
+                },
+                example: {
+                  smiles: 'CCCCCCc1ccc(cc1)C(=O)OCCCCCC',
+                  parameters: {
+                    populationSize: 50,
+                    generations: 20,
+                    optimizationMode: 'pareto',
+                    objectives: ['drug-likeness', { name: 'similarity', min: 0.5 }],
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Best molecules per generation and offspring counts',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    seed: { $ref: '#/components/schemas/ScoredMolecule' },
+                    parameters: { type: 'object' },
+                    generationsRun: { type: 'integer' },
+                    converged: { type: 'boolean' },
+                    best: {
+                      type: 'array',
+                      items: { $ref: '#/components/schemas/ScoredMolecule' },
+                      description: 'Best distinct molecules seen during the run',
+                    },
+                    paretoFront: {
+                      type: 'array',
+                      items: { $ref: '#/components/schemas/ScoredMolecule' },
+                      description: 'Pareto mode: feasible non-dominated molecules of the final population',
+                    },
+                    generations: {
+                      type: 'array',
+                      description: 'Generation 0 is the initial population',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          generation: { type: 'integer' },
+                          bestScore: { type: 'number' },
+                          meanScore: { type: 'number' },
+                          uniqueMolecules: { type: 'integer' },
+                          frontSize: { type: 'integer', description: 'Pareto mode: feasible molecules on the first front' },
+                          hypervolume: {
+                            type: 'number',
+                            description: 'Pareto mode: volume dominated by the front in oriented objective space, with reference point 0',
+                          },
+                          best: { type: 'array', items: { $ref: '#/components/schemas/ScoredMolecule' } },
+                          offspring: { $ref: '#/components/schemas/OffspringCounts' },
+                        },
+                      },
+                    },
+                    offspring: { $ref: '#/components/schemas/OffspringCounts' },
+                    operators: {
+                      type: 'object',
+                      description: 'Offspring counts per mutation operator and for crossover',
+                      additionalProperties: { $ref: '#/components/schemas/OffspringCounts' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid seed SMILES or parameters',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/api/scores': {
+      post: {
+        summary: 'Score drug-likeness and synthetic accessibility',
+        description: 'Bickerton QED (mean-weighted, max-weighted and unweighted) with its eight properties and desirabilities, and an Ertl-style synthetic accessibility score from 1 (easy to make) to 10 (very difficult) with its fragment score and complexity penalties.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['smiles'],
+                properties: {
+                  smiles: {
+                    oneOf: [
+                      { type: 'string' },
+                      { type: 'array', items: { type: 'string' }, maxItems: 1000 },
+                    ],
+                    description: 'A SMILES string or a list of them',
+                  },
+                },
+                example: {
+                  smiles: ['CC(=O)Oc1ccccc1C(=O)O', 'Cn1cnc2c1c(=O)n(C)c(=O)n2C'],
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Scores per input; invalid SMILES carry the parse error and its position',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    results: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          input: { type: 'string' },
+                          valid: { type: 'boolean' },
+                          canonicalSmiles: { type: 'string' },
+                          qed: {
+                            type: 'object',
+                            properties: {
+                              mean: { type: 'number' },
+                              max: { type: 'number' },
+                              unweighted: { type: 'number' },
+                              properties: {
+                                type: 'object',
+                                description: 'MW, ALOGP, HBA, HBD, PSA, ROTB, AROM and ALERTS',
+                                additionalProperties: { type: 'number' },
+                              },
+                              desirabilities: { type: 'object', additionalProperties: { type: 'number' } },
+                            },
+                          },
+                          syntheticAccessibility: {
+                            type: 'object',
+                            properties: {
+                              score: { type: 'number', minimum: 1, maximum: 10 },
+                              fragmentScore: { type: 'number' },
+                              complexityPenalty: { type: 'number' },
+                              stereocenters: { type: 'integer' },
+                              spiroAtoms: { type: 'integer' },
+                              bridgeheadAtoms: { type: 'integer' },
+                              macrocycles: { type: 'integer' },
+                            },
+                          },
+                          error: { type: 'string' },
+                          position: { type: 'integer' },
+                        },
+                      },
+                    },
+                    validCount: { type: 'integer' },
+                    invalidCount: { type: 'integer' },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid input',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/api/pharmacophore': {
+      post: {
+        summary: 'Build a pharmacophore model and screen conformers against it',
+        description: 'Perceives HBD, HBA, aromatic, hydrophobic and charged features on aligned 3D structures (V2000 SD files), clusters them across actives into a model with excluded volumes from inactives, and screens library conformers, returning a fit score and the matched feature pairs for each hit. Consecutive SD records with the same title are conformers of one compound.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  actives: { type: 'string', description: 'SD file of aligned actives; required unless model is given' },
+                  inactives: { type: 'string', description: 'SD file of aligned inactives, used for excluded volumes and specificity' },
+                  model: {
+                    oneOf: [
+                      { $ref: '#/components/schemas/PharmacophoreModel' },
+                      { type: 'string', description: 'A PML, Pharmer JSON or PDB pseudo-atom file, read according to modelFormat' },
+                    ],
+                  },
+                  modelFormat: { type: 'string', enum: ['pml', 'pharmer', 'pdb'], description: 'Format of a model given as a file string' },
+                  library: { type: 'string', description: 'SD file of conformers to screen' },
+                  exportFormats: {
+                    type: 'array',
+                    items: { type: 'string', enum: ['pml', 'pharmer', 'pdb'] },
+                    description: 'Formats to also return the model in',
+                  },
+                  parameters: {
+                    type: 'object',
+                    description: 'The pharmacophore generator parameter block: featureTypes, toleranceRadius, minFeatures, maxFeatures, conformerGeneration',
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'The model, its validation on the training sets and the screening hits',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    parameters: { type: 'object' },
+                    model: { $ref: '#/components/schemas/PharmacophoreModel' },
+                    sensitivity: { type: 'number', description: 'Share of actives with a fitting conformer' },
+                    specificity: { type: 'number', description: 'Share of inactives without one' },
+                    actives: { type: 'integer' },
+                    inactives: { type: 'integer' },
+                    hits: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          index: { type: 'integer', description: 'Library record of the compound\'s first conformer' },
+                          name: { type: 'string' },
+                          conformer: { type: 'integer', description: 'Best-fitting conformer within the compound' },
+                          fitScore: { type: 'number', minimum: 0, maximum: 1 },
+                          matches: {
+                            type: 'array',
+                            items: {
+                              type: 'object',
+                              properties: {
+                                modelFeature: { type: 'integer' },
+                                type: { type: 'string' },
+                                atoms: { type: 'array', items: { type: 'integer' } },
+                                center: { $ref: '#/components/schemas/Vec3' },
+                                distance: { type: 'number' },
+                              },
+                            },
+                          },
+                        },
+                      },
+                    },
+                    screened: { type: 'integer', description: 'Compounds screened' },
+                    exports: {
+                      type: 'object',
+                      description: 'The model as LigandScout PML, Pharmer JSON query and PDB pseudo-atom files, for the requested exportFormats',
+                      properties: {
+                        pml: { type: 'string' },
+                        pharmer: { type: 'string' },
+                        pdb: { type: 'string' },
+                      },
+                    },
+                    invalid: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          index: { type: 'integer' },
+                          error: { type: 'string' },
+                          line: { type: 'integer' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid SD input, parameters, model or model file, or too few common features',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/api/pockets': {
+      post: {
+        summary: 'Detect binding pockets on a protein structure',
+        description: 'Reads a PDB or mmCIF file (first model, first alternate location) and finds cavities with a LIGSITE-style grid scan: free grid points enclosed by protein on both sides along at least minBuriedness of the three axes and four cube diagonals are clustered into pockets, ranked by summed buriedness. Each pocket lists the residues lining it and any bound HETATM ligands inside it.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['structure'],
+                properties: {
+                  structure: { type: 'string', description: 'PDB or mmCIF file contents, at most 100000 atoms' },
+                  format: { type: 'string', enum: ['pdb', 'mmcif'], description: 'Detected from a data_ header or _atom_site loop when omitted' },
+                  parameters: {
+                    type: 'object',
+                    properties: {
+                      gridSpacing: { type: 'number', minimum: 0.4, maximum: 3, default: 1, description: 'Grid step in Å' },
+                      scanDistance: { type: 'number', minimum: 2, maximum: 30, default: 8, description: 'Reach of each scan line on either side of a grid point, in Å' },
+                      minBuriedness: { type: 'integer', minimum: 1, maximum: 7, default: 5, description: 'Scan directions that must hit protein on both sides' },
+                      minVolume: { type: 'number', minimum: 0, maximum: 100000, default: 30, description: 'Smallest pocket kept, in Å³' },
+                      maxPockets: { type: 'integer', minimum: 1, maximum: 100, default: 10 },
+                      includeHetero: { type: 'boolean', default: false, description: 'Let HETATM groups (ligands, ions, waters) occupy the grid' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'A summary of the structure and its pockets, best first',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    parameters: { type: 'object' },
+                    protein: {
+                      type: 'object',
+                      properties: {
+                        format: { type: 'string', enum: ['pdb', 'mmcif'] },
+                        atoms: { type: 'integer' },
+                        residues: { type: 'integer' },
+                        chains: { type: 'array', items: { type: 'string' } },
+                        ligands: {
+                          type: 'array',
+                          description: 'HETATM groups other than water',
+                          items: {
+                            type: 'object',
+                            properties: {
+                              name: { type: 'string' },
+                              chain: { type: 'string' },
+                              number: { type: 'integer' },
+                              insertionCode: { type: 'string' },
+                              center: { $ref: '#/components/schemas/Vec3' },
+                              atoms: { type: 'integer' },
+                            },
+                          },
+                        },
+                      },
+                    },
+                    pockets: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          rank: { type: 'integer' },
+                          center: { $ref: '#/components/schemas/Vec3' },
+                          volume: { type: 'number', description: 'Å³' },
+                          buriedness: { type: 'number', description: 'Mean number of the 7 scan directions enclosed by protein' },
+                          score: { type: 'number', description: 'Summed buriedness of the pocket\'s grid points' },
+                          points: { type: 'integer', description: 'Grid points in the pocket' },
+                          residues: {
+                            type: 'array',
+                            description: 'Residues with a heavy atom within 4 Å of a pocket point',
+                            items: {
+                              type: 'object',
+                              properties: {
+                                name: { type: 'string' },
+                                chain: { type: 'string' },
+                                number: { type: 'integer' },
+                                insertionCode: { type: 'string' },
+                              },
+                            },
+                          },
+                          ligands: { type: 'array', items: { type: 'string' }, description: 'Bound ligands inside the pocket, as "name chain number"' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Unreadable structure file, too many atoms, or invalid parameters',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/api/docking': {
+      post: {
+        summary: 'Dock ligands into a receptor',
+        description: 'Docks 3D ligands into a box around a detected pocket or an explicit box. With DOCKING_BINARY set on the server, an AutoDock Vina/smina-style program is run; otherwise a built-in Vina-like empirical score is searched by rigid-body Monte Carlo over the supplied conformers. Binding energies are normalized to dockingScore = clamp(-bindingEnergy / 12, 0, 1), and with a query SMILES each result also gets combinedScore = 0.4 * similarity + 0.6 * dockingScore.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['receptor', 'ligands'],
+                properties: {
+                  receptor: { type: 'string', description: 'PDB or mmCIF file contents' },
+                  receptorFormat: { type: 'string', enum: ['pdb', 'mmcif'] },
+                  ligands: { type: 'string', description: 'SD file of 3D ligands, at most 50 compounds; consecutive records with the same title are conformers' },
+                  box: {
+                    type: 'object',
+                    properties: {
+                      center: { $ref: '#/components/schemas/Vec3' },
+                      size: { $ref: '#/components/schemas/Vec3' },
+                    },
+                  },
+                  pocket: { type: 'integer', minimum: 1, default: 1, description: 'Rank of the detected pocket to dock into when no box is given' },
+                  query: { type: 'string', description: 'Reference SMILES for similarity and combinedScore' },
+                  engine: { type: 'string', enum: ['auto', 'empirical', 'vina'], default: 'auto' },
+                  parameters: {
+                    type: 'object',
+                    properties: {
+                      boxSize: { type: 'number', minimum: 8, maximum: 40, default: 20, description: 'Box edge in Å when no size is given' },
+                      exhaustiveness: { type: 'integer', minimum: 1, maximum: 32, default: 8 },
+                      numModes: { type: 'integer', minimum: 1, maximum: 20, default: 9 },
+                      seed: { type: 'integer', minimum: 0, default: 42 },
+                      includeHetero: { type: 'boolean', default: false, description: 'Keep non-water HETATM groups in the receptor' },
+                      fingerprintType: { type: 'string', default: 'ECFP4' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Docking results, best combinedScore (or dockingScore) first',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    engine: { type: 'string', enum: ['empirical', 'vina'] },
+                    parameters: { type: 'object' },
+                    box: {
+                      type: 'object',
+                      properties: {
+                        center: { $ref: '#/components/schemas/Vec3' },
+                        size: { $ref: '#/components/schemas/Vec3' },
+                      },
+                    },
+                    pocket: {
+                      type: 'object',
+                      description: 'The detected pocket docked into, when no box was given',
+                      properties: {
+                        rank: { type: 'integer' },
+                        center: { $ref: '#/components/schemas/Vec3' },
+                        volume: { type: 'number' },
+                      },
+                    },
+                    results: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          index: { type: 'integer', description: 'SD record of the compound\'s first conformer' },
+                          name: { type: 'string' },
+                          bindingEnergy: { type: 'number', description: 'Best pose, kcal/mol' },
+                          dockingScore: { type: 'number', minimum: 0, maximum: 1 },
+                          similarity: { type: 'number' },
+                          combinedScore: { type: 'number' },
+                          poses: {
+                            type: 'array',
+                            items: {
+                              type: 'object',
+                              properties: {
+                                bindingEnergy: { type: 'number' },
+                                conformer: { type: 'integer' },
+                                coordinates: {
+                                  type: 'array',
+                                  items: { $ref: '#/components/schemas/Vec3' },
+                                  nullable: true,
+                                  description: 'Heavy-atom positions in the order the ligand lists its heavy atoms, for either engine; null when the engine wrote no pose that maps onto the ligand',
+                                },
+                              },
+                            },
+                          },
+                        },
+                      },
+                    },
+                    invalid: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          index: { type: 'integer' },
+                          error: { type: 'string' },
+                          line: { type: 'integer' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid receptor, ligands, box, query or parameters, no pocket of the requested rank, or the vina engine without DOCKING_BINARY',
+          },
+          '502': {
+            description: 'The external docking program failed',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/api/clustering': {
+      post: {
+        summary: 'Cluster a library and pick a diverse subset',
+        description: 'Clusters SMILES on fingerprint Tanimoto distance with Taylor-Butina or hierarchical clustering, and picks up to maxPicks diverse compounds by MaxMin or sphere exclusion.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['library'],
+                properties: {
+                  library: { type: 'array', items: { type: 'string' }, maxItems: 5000, description: 'SMILES strings' },
+                  parameters: {
+                    type: 'object',
+                    properties: {
+                      clusteringMethod: { type: 'string', enum: ['butina', 'hierarchical'], default: 'butina' },
+                      distanceCutoff: { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 1, default: 0.35 },
+                      linkage: { type: 'string', enum: ['single', 'complete', 'average'], default: 'average' },
+                      pickingMethod: { type: 'string', enum: ['maxmin', 'sphere-exclusion'], default: 'maxmin' },
+                      maxPicks: { type: 'integer', minimum: 1, default: 100 },
+                      fingerprintType: { type: 'string', default: 'ECFP4' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Clusters, assignments, singletons and diverse picks',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    parameters: { type: 'object' },
+                    compounds: { type: 'integer', description: 'Valid SMILES clustered' },
+                    clusterCount: { type: 'integer' },
+                    clusters: {
+                      type: 'array',
+                      description: 'Largest first',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          id: { type: 'integer' },
+                          size: { type: 'integer' },
+                          centroid: {
+                            type: 'object',
+                            description: 'Butina centre or hierarchical medoid',
+                            properties: { index: { type: 'integer' }, smiles: { type: 'string' } },
+                          },
+                          members: { type: 'array', items: { type: 'integer' }, description: 'Library indices, centroid first' },
+                        },
+                      },
+                    },
+                    assignments: {
+                      type: 'array',
+                      items: { type: 'integer', nullable: true },
+                      description: 'Cluster id for each library entry; null for invalid SMILES',
+                    },
+                    singletons: { type: 'array', items: { type: 'integer' } },
+                    dendrogram: {
+                      type: 'array',
+                      description: 'Hierarchical clustering only, in SciPy linkage order: leaves are library indices and merge k forms node library.length + k',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          left: { type: 'integer' },
+                          right: { type: 'integer' },
+                          distance: { type: 'number' },
+                          size: { type: 'integer' },
+                        },
+                      },
+                    },
+                    picks: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          index: { type: 'integer' },
+                          smiles: { type: 'string' },
+                          distance: { type: 'number', nullable: true, description: 'Distance to the nearest earlier pick' },
+                        },
+                      },
+                    },
+                    invalid: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          index: { type: 'integer' },
+                          smiles: { type: 'string' },
+                          error: { type: 'string' },
+                          position: { type: 'integer' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid library or parameters',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/api/scaffolds': {
+      post: {
+        summary: 'Analyze the scaffolds of a library',
+        description: 'Reduces each SMILES to its Bemis-Murcko and generic (all-carbon, single-bond) scaffold, groups the library by both with counts and activity summaries, and builds a scaffold tree by removing one terminal ring at a time. With a query, each scaffold is labelled with the kind of scaffold hop it is from the query.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['library'],
+                properties: {
+                  library: { type: 'array', items: { type: 'string' }, maxItems: 5000, description: 'SMILES strings' },
+                  activities: {
+                    type: 'array',
+                    items: { type: 'number', nullable: true },
+                    description: 'One per library entry; null for unmeasured compounds',
+                  },
+                  query: { type: 'string', description: 'SMILES of a reference compound for scaffold-hop labels' },
+                  parameters: {
+                    type: 'object',
+                    properties: {
+                      minCount: { type: 'integer', minimum: 1, default: 1 },
+                      maxScaffolds: { type: 'integer', minimum: 1, default: 100 },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Murcko and generic scaffold groups, the scaffold tree and per-compound assignments',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    parameters: { type: 'object' },
+                    compounds: { type: 'integer', description: 'Valid SMILES analyzed' },
+                    scaffoldCount: { type: 'integer', description: 'Distinct Murcko scaffolds' },
+                    query: {
+                      type: 'object',
+                      properties: {
+                        smiles: { type: 'string' },
+                        scaffold: { type: 'string', nullable: true },
+                        generic: { type: 'string', nullable: true },
+                      },
+                    },
+                    scaffolds: {
+                      type: 'array',
+                      description: 'Murcko scaffolds, most populated first',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          smiles: { type: 'string' },
+                          generic: { type: 'string' },
+                          rings: { type: 'integer' },
+                          count: { type: 'integer' },
+                          members: { type: 'array', items: { type: 'integer' }, description: 'Library indices' },
+                          activity: {
+                            type: 'object',
+                            nullable: true,
+                            description: 'Only with activities; null when no member is measured',
+                            properties: {
+                              count: { type: 'integer' },
+                              mean: { type: 'number' },
+                              std: { type: 'number', description: 'Sample standard deviation' },
+                              min: { type: 'number' },
+                              max: { type: 'number' },
+                            },
+                          },
+                          hop: {
+                            type: 'string',
+                            enum: ['none', 'heteroatom', 'topology'],
+                            description: 'Only with a query: same Murcko scaffold, same generic scaffold, or a different one',
+                          },
+                        },
+                      },
+                    },
+                    genericScaffolds: {
+                      type: 'array',
+                      description: 'Generic scaffolds, most populated first',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          smiles: { type: 'string' },
+                          rings: { type: 'integer' },
+                          count: { type: 'integer' },
+                          scaffolds: { type: 'integer', description: 'Distinct Murcko scaffolds reducing to it' },
+                          members: { type: 'array', items: { type: 'integer' } },
+                          activity: {
+                            type: 'object',
+                            nullable: true,
+                            description: 'Only with activities; null when no member is measured',
+                            properties: {
+                              count: { type: 'integer' },
+                              mean: { type: 'number' },
+                              std: { type: 'number', description: 'Sample standard deviation' },
+                              min: { type: 'number' },
+                              max: { type: 'number' },
+                            },
+                          },
+                        },
+                      },
+                    },
+                    tree: {
+                      type: 'array',
+                      description: 'Scaffold tree nodes, fewest rings first',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          smiles: { type: 'string' },
+                          rings: { type: 'integer' },
+                          parent: { type: 'string', nullable: true, description: 'One ring smaller; null at a single ring' },
+                          count: { type: 'integer', description: 'Compounds with this Murcko scaffold' },
+                          total: { type: 'integer', description: 'Compounds at this node or below it' },
+                        },
+                      },
+                    },
+                    acyclic: { type: 'array', items: { type: 'integer' }, description: 'Library indices without rings' },
+                    assignments: {
+                      type: 'array',
+                      description: 'Scaffold and generic scaffold of each library entry; null for invalid SMILES',
+                      items: {
+                        type: 'object',
+                        nullable: true,
+                        properties: {
+                          scaffold: { type: 'string', nullable: true },
+                          generic: { type: 'string', nullable: true },
+                        },
+                      },
+                    },
+                    invalid: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          index: { type: 'integer' },
+                          smiles: { type: 'string' },
+                          error: { type: 'string' },
+                          position: { type: 'integer' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid library, activities, query or parameters',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/api/mmp': {
+      post: {
+        summary: 'Find matched molecular pairs in a library',
+        description: 'Fragments each SMILES at every Hussain-Rea single cut (acyclic single bonds with a plain carbon at one end) and, optionally, at each hydrogen, indexes the pieces by constant part, and pairs compounds that differ only in the variable part. Each transform is summarized by the count, mean, standard deviation and range of the change in every supplied property. With a query, the transforms are applied to it to suggest new compounds. Transforms can be exported as CSV.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['library'],
+                properties: {
+                  library: { type: 'array', items: { type: 'string' }, maxItems: 1000, description: 'SMILES strings' },
+                  properties: {
+                    type: 'object',
+                    additionalProperties: { type: 'array', items: { type: 'number', nullable: true } },
+                    description: 'Named properties or activities, one value per library entry; null for unmeasured compounds',
+                  },
+                  query: { type: 'string', description: 'SMILES of a compound to suggest transforms for' },
+                  format: {
+                    type: 'string',
+                    enum: ['json', 'csv'],
+                    default: 'json',
+                    description: 'csv returns the reported transforms only',
+                  },
+                  parameters: {
+                    type: 'object',
+                    properties: {
+                      maxVariableAtoms: { type: 'integer', minimum: 1, default: 10 },
+                      includeHydrogen: { type: 'boolean', default: true },
+                      minPairs: { type: 'integer', minimum: 1, default: 1 },
+                      maxTransforms: { type: 'integer', minimum: 1, default: 100 },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Transforms with their pairs and property changes, and suggestions for the query',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    parameters: { type: 'object' },
+                    compounds: { type: 'integer', description: 'Valid library compounds' },
+                    properties: { type: 'array', items: { type: 'string' } },
+                    transformCount: { type: 'integer', description: 'Transforms with at least minPairs pairs, before maxTransforms' },
+                    transforms: {
+                      type: 'array',
+                      description: 'Most pairs first',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          transform: { type: 'string', description: 'from>>to' },
+                          from: { type: 'string', description: 'Variable part with a [*:1] attachment point; [*:1][H] for hydrogen' },
+                          to: { type: 'string' },
+                          pairCount: { type: 'integer' },
+                          pairs: {
+                            type: 'array',
+                            items: {
+                              type: 'object',
+                              properties: {
+                                from: { type: 'integer', description: 'Library index' },
+                                to: { type: 'integer', description: 'Library index' },
+                                constant: { type: 'string' },
+                              },
+                            },
+                          },
+                          changes: {
+                            type: 'object',
+                            additionalProperties: {
+                                type: 'object',
+                                nullable: true,
+                                description: 'To-minus-from statistics over pairs with both values measured; null when none are',
+                                properties: {
+                                  count: { type: 'integer' },
+                                  mean: { type: 'number' },
+                                  std: { type: 'number', description: 'Sample standard deviation' },
+                                  min: { type: 'number' },
+                                  max: { type: 'number' },
+                                },
+                              },
+                          },
+                        },
+                      },
+                    },
+                    query: {
+                      type: 'object',
+                      description: 'Only with a query',
+                      properties: {
+                        smiles: { type: 'string' },
+                        suggestions: {
+                          type: 'array',
+                          description: 'One per product, with the transform seen in the most pairs',
+                          items: {
+                            type: 'object',
+                            properties: {
+                              smiles: { type: 'string' },
+                              transform: { type: 'string' },
+                              constant: { type: 'string' },
+                              pairCount: { type: 'integer' },
+                              changes: { type: 'object' },
+                              libraryIndex: { type: 'integer', nullable: true, description: 'Set when the product is already in the library' },
+                            },
+                          },
+                        },
+                      },
+                    },
+                    invalid: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          index: { type: 'integer' },
+                          smiles: { type: 'string' },
+                          error: { type: 'string' },
+                          position: { type: 'integer' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+              'text/csv': {
+                schema: { type: 'string' },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid library, properties, query, format or parameters',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/api/cliffs': {
+      post: {
+        summary: 'Find activity cliffs in a library',
+        description: 'Compares every pair of compounds with a measured activity by fingerprint Tanimoto similarity and scores it with the Structure-Activity Landscape Index, SALI = |activity difference| / max(1 - similarity, 0.01). Pairs meeting the similarity, activity-difference and SALI thresholds are cliffs. The response includes a SALI network of the reported cliffs and, for up to 200 measured compounds, the full SALI matrix for a heatmap.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['library', 'activities'],
+                properties: {
+                  library: { type: 'array', items: { type: 'string' }, maxItems: 2000, description: 'SMILES strings' },
+                  activities: {
+                    type: 'array',
+                    items: { type: 'number', nullable: true },
+                    description: 'One activity per library entry, for example pIC50; null for unmeasured compounds',
+                  },
+                  parameters: {
+                    type: 'object',
+                    properties: {
+                      minSimilarity: { type: 'number', minimum: 0, maximum: 1, default: 0.65 },
+                      minActivityDifference: { type: 'number', minimum: 0, default: 1 },
+                      minSali: { type: 'number', minimum: 0, default: 0 },
+                      maxCliffs: { type: 'integer', minimum: 1, default: 100 },
+                      fingerprintType: { type: 'string', default: 'ECFP4' },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'Cliffs by decreasing SALI, with SALI network and heatmap data',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    parameters: { type: 'object' },
+                    compounds: { type: 'integer', description: 'Valid library compounds' },
+                    measured: { type: 'integer', description: 'Valid compounds with an activity' },
+                    pairCount: { type: 'integer', description: 'Pairs of measured compounds compared' },
+                    cliffCount: { type: 'integer', description: 'Cliffs found, before maxCliffs' },
+                    cliffs: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          from: { type: 'integer', description: 'Library index of the less active compound' },
+                          to: { type: 'integer', description: 'Library index of the more active compound' },
+                          similarity: { type: 'number' },
+                          activityDifference: { type: 'number' },
+                          sali: { type: 'number' },
+                        },
+                      },
+                    },
+                    network: {
+                      type: 'object',
+                      description: 'Compounds in the reported cliffs, with one edge per cliff',
+                      properties: {
+                        nodes: {
+                          type: 'array',
+                          items: {
+                            type: 'object',
+                            properties: {
+                              index: { type: 'integer', description: 'Library index' },
+                              smiles: { type: 'string' },
+                              activity: { type: 'number' },
+                              cliffCount: { type: 'integer', description: 'Cliffs the compound takes part in, reported or not' },
+                            },
+                          },
+                        },
+                        edges: {
+                          type: 'array',
+                          items: {
+                            type: 'object',
+                            properties: {
+                              source: { type: 'integer', description: 'Less active compound' },
+                              target: { type: 'integer', description: 'More active compound' },
+                              sali: { type: 'number' },
+                            },
+                          },
+                        },
+                      },
+                    },
+                    heatmap: {
+                      type: 'object',
+                      nullable: true,
+                      description: 'Null when more than 200 compounds are measured',
+                      properties: {
+                        order: { type: 'array', items: { type: 'integer' }, description: 'Library indices by increasing activity' },
+                        sali: { type: 'array', items: { type: 'array', items: { type: 'number' } }, description: 'SALI matrix in that order' },
+                      },
+                    },
+                    invalid: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          index: { type: 'integer' },
+                          smiles: { type: 'string' },
+                          error: { type: 'string' },
+                          position: { type: 'integer' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid library, activities or parameters',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+    '/api/rgroups': {
+      post: {
+        summary: 'Decompose a congeneric series into R groups and fit a Free-Wilson model',
+        description: 'Matches a core SMARTS with labelled attachment points ([*:1], [*:2], ...) in every compound and splits off one R group per label, with hydrogen as [*:n][H]. Compounds with a substituent on an unlabelled core atom, or one bridging the core, are reported as unmatched. Symmetric cores and cores found more than once give several candidate decompositions; the one whose R groups are most common at their labels across the series is kept. With activities, a Free-Wilson additive model gives each substituent a contribution against the most common one at its position, and the best unmade combinations are predicted and assembled on the core.',
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['library', 'core'],
+                properties: {
+                  library: { type: 'array', items: { type: 'string' }, maxItems: 2000, description: 'SMILES strings' },
+                  core: { type: 'string', description: 'Core SMARTS, for example [*:1]c1ccc(cc1)C(=O)N[*:2]' },
+                  activities: {
+                    type: 'array',
+                    items: { type: 'number', nullable: true },
+                    description: 'One activity per library entry, for example pIC50; null for unmeasured compounds. Needed for the Free-Wilson model',
+                  },
+                  parameters: {
+                    type: 'object',
+                    properties: {
+                      ridgeAlpha: { type: 'number', minimum: 0, default: 0.1 },
+                      maxPredictions: { type: 'integer', minimum: 1, maximum: 1000, default: 100 },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          '200': {
+            description: 'R groups per compound, and the Free-Wilson model when at least two decomposed compounds are measured',
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  properties: {
+                    parameters: { type: 'object' },
+                    compounds: { type: 'integer', description: 'Valid library compounds' },
+                    decomposedCount: { type: 'integer' },
+                    decompositions: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          index: { type: 'integer', description: 'Library index' },
+                          smiles: { type: 'string' },
+                          core: { type: 'string', description: 'Matched core with its attachment points' },
+                          rgroups: { type: 'object', additionalProperties: { type: 'string' }, description: 'R group SMILES by label (R1, R2, ...)' },
+                          activity: { type: 'number', nullable: true },
+                        },
+                      },
+                    },
+                    unmatched: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          index: { type: 'integer' },
+                          smiles: { type: 'string' },
+                          reason: { type: 'string' },
+                        },
+                      },
+                    },
+                    freeWilson: {
+                      type: 'object',
+                      nullable: true,
+                      properties: {
+                        intercept: { type: 'number', description: 'Predicted activity with the reference R group at every label' },
+                        contributions: {
+                          type: 'object',
+                          description: 'Per label, substituents by decreasing contribution',
+                          additionalProperties: {
+                            type: 'array',
+                            items: {
+                              type: 'object',
+                              properties: {
+                                rgroup: { type: 'string' },
+                                count: { type: 'integer', description: 'Measured compounds carrying it' },
+                                contribution: { type: 'number' },
+                                reference: { type: 'boolean' },
+                              },
+                            },
+                          },
+                        },
+                        training: { type: 'object', description: 'r2, rmse and mae of the fit' },
+                        leaveOneOut: { type: 'object', nullable: true, description: 'r2, rmse and mae of exact leave-one-out predictions' },
+                        compounds: { type: 'array', items: { type: 'object' }, description: 'index, observed and fitted activity' },
+                        core: { type: 'string', description: 'Core the predictions are assembled on' },
+                        combinationCount: { type: 'integer' },
+                        unmadeCount: { type: 'integer' },
+                        predictions: {
+                          type: 'array',
+                          items: {
+                            type: 'object',
+                            properties: {
+                              smiles: { type: 'string' },
+                              rgroups: { type: 'object', additionalProperties: { type: 'string' } },
+                              predicted: { type: 'number' },
+                            },
+                          },
+                        },
+                      },
+                    },
+                    invalid: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          index: { type: 'integer' },
+                          smiles: { type: 'string' },
+                          error: { type: 'string' },
+                          position: { type: 'integer' },
+                        },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+          '400': {
+            description: 'Invalid library, core, activities or parameters',
+          },
+          '500': {
+            description: 'Internal server error',
+          },
+        },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      AlgorithmType: {
+        type: 'string',
+        enum: [
+          'molecular-similarity',
+          'qsar-model',
+          'compound-screening',
+          'structure-optimization',
+          'pharmacophore',
+          'virtual-screening',
+          'substructure-search',
+          'clustering-diversity',
+          'scaffold-analysis',
+          'matched-molecular-pairs',
+          'activity-cliffs',
+          'r-group-analysis',
+        ],
+      },
+      DomainAssessment: {
+        type: 'object',
+        properties: {
+          inDomain: { type: 'boolean' },
+          distance: {
+            type: 'number',
+            description: 'Standardized excursion outside the descriptor box, leverage h, mean Tanimoto distance to the 5 nearest training compounds, or negative log kernel density',
+          },
+        },
+      },
+      QsarModel: {
+        type: 'object',
+        description: 'Registry file format (one JSON file per model). Descriptor rows are computed in descriptors order, z-scored with normalization and passed down every tree; classification outputs index into classes.',
+        properties: {
+          format: { type: 'string', enum: ['crowe-qsar-model'] },
+          version: { type: 'integer', enum: [1, 2] },
+          id: { type: 'string', format: 'uuid' },
+          name: { type: 'string' },
+          createdAt: { type: 'string', format: 'date-time' },
+          task: { type: 'string', enum: ['regression', 'classification'] },
+          descriptors: { type: 'array', items: { type: 'string' } },
+          classes: {
+            type: 'array',
+            nullable: true,
+            items: { oneOf: [{ type: 'number' }, { type: 'string' }] },
+          },
+          normalization: {
+            type: 'object',
+            properties: {
+              mean: { type: 'array', items: { type: 'number' } },
+              std: { type: 'array', items: { type: 'number' } },
+            },
+          },
+          metrics: { type: 'object', description: 'Pooled out-of-fold cross-validation metrics' },
+          parameters: { type: 'object' },
+          trainingSet: {
+            type: 'object',
+            properties: {
+              size: { type: 'integer' },
+              hash: { type: 'string', description: 'SHA-256 of the sorted canonical SMILES and activity pairs' },
+            },
+          },
+          domain: {
+            type: 'object',
+            nullable: true,
+            description: 'Fitted applicability domain: method plus min/max (bounding-box), inverse and threshold (leverage), k, fingerprints as ECFP4 on-bit lists and threshold (knn-tanimoto), or bandwidth, points and threshold (density). Absent from version 1 files and returned as null for them',
+          },
+          forest: {
+            type: 'object',
+            properties: {
+              task: { type: 'string' },
+              outputs: { type: 'integer' },
+              importances: { type: 'array', items: { type: 'number' } },
+              trees: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  description: 'Parallel arrays indexed by node; node 0 is the root and feature -1 marks a leaf. Go left when x[feature] <= threshold. value holds [mean] for regression or class probabilities.',
+                  properties: {
+                    feature: { type: 'array', items: { type: 'integer' } },
+                    threshold: { type: 'array', items: { type: 'number' } },
+                    left: { type: 'array', items: { type: 'integer' } },
+                    right: { type: 'array', items: { type: 'integer' } },
+                    value: { type: 'array', items: { type: 'array', items: { type: 'number' } } },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      ScoredMolecule: {
+        type: 'object',
+        properties: {
+          smiles: { type: 'string', description: 'Canonical SMILES' },
+          score: { type: 'number', description: 'Mean of the objective scores, oriented so higher is better' },
+          feasible: { type: 'boolean', description: 'Whether every objective is within its bounds' },
+          objectives: {
+            type: 'object',
+            additionalProperties: { type: 'number', minimum: 0, maximum: 1 },
+          },
+        },
+      },
+      ObjectiveSpec: {
+        type: 'object',
+        required: ['name'],
+        properties: {
+          name: { type: 'string' },
+          direction: { type: 'string', enum: ['maximize', 'minimize'], default: 'maximize' },
+          min: { type: 'number', description: 'Lower bound on the raw score' },
+          max: { type: 'number', description: 'Upper bound on the raw score' },
+        },
+      },
+      OffspringCounts: {
+        type: 'object',
+        properties: {
+          generated: { type: 'integer', description: 'Molecules produced by the operators before validation' },
+          valid: { type: 'integer' },
+          repaired: { type: 'integer', description: 'Made valid by dropping fragments or lowering bond orders' },
+          discarded: { type: 'integer' },
+        },
+      },
+      Vec3: {
+        type: 'array',
+        items: { type: 'number' },
+        minItems: 3,
+        maxItems: 3,
+        description: 'Cartesian coordinates in Å',
+      },
+      PharmacophoreModel: {
+        type: 'object',
+        required: ['features'],
+        properties: {
+          features: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['type', 'center', 'radius'],
+              properties: {
+                type: { type: 'string', enum: ['HBD', 'HBA', 'Aromatic', 'Hydrophobic', 'Charged'] },
+                center: { $ref: '#/components/schemas/Vec3' },
+                radius: { type: 'number' },
+                weight: { type: 'number', minimum: 0, maximum: 1, default: 1, description: 'Share of actives with the feature' },
+                charge: { type: 'integer', enum: [1, -1], description: 'Sign of a Charged feature' },
+              },
+            },
+          },
+          excludedVolumes: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                center: { $ref: '#/components/schemas/Vec3' },
+                radius: { type: 'number' },
+              },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+const htmlDocumentation = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Cheminformatics Algorithm Generator - API Documentation</title>
+    <style>
+        * { margin: 0; padding: 0; box-sizing: border-box; }
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            padding: 2rem;
+        }
+        .container {
+            max-width: 1200px;
+            margin: 0 auto;
+            background: white;
+            border-radius: 16px;
+            padding: 3rem;
+            box-shadow: 0 20px 60px rgba(0,0,0,0.3);
+        }
+        h1 {
+            color: #667eea;
+            font-size: 2.5rem;
+            margin-bottom: 1rem;
+        }
+        h2 {
+            color: #764ba2;
+            font-size: 1.8rem;
+            margin: 2rem 0 1rem;
+            border-bottom: 2px solid #667eea;
+            padding-bottom: 0.5rem;
+        }
+        h3 {
+            color: #667eea;
+            font-size: 1.3rem;
+            margin: 1.5rem 0 0.5rem;
+        }
+        .badge {
+            display: inline-block;
+            padding: 0.25rem 0.75rem;
+            border-radius: 12px;
+            font-size: 0.85rem;
+            font-weight: bold;
+            margin-right: 0.5rem;
+        }
+        .badge-post { background: #10b981; color: white; }
+        .badge-get { background: #3b82f6; color: white; }
+        .endpoint {
+            background: #f8fafc;
+            border-left: 4px solid #667eea;
+            padding: 1.5rem;
+            margin: 1rem 0;
+            border-radius: 8px;
+        }
+        .code-block {
+            background: #1e293b;
+            color: #10b981;
+            padding: 1.5rem;
+            border-radius: 8px;
+            overflow-x: auto;
+            font-family: 'Courier New', monospace;
+            margin: 1rem 0;
+        }
+        .param-table {
+            width: 100%;
+            border-collapse: collapse;
+            margin: 1rem 0;
+        }
+        .param-table th,
+        .param-table td {
+            text-align: left;
+            padding: 0.75rem;
+            border-bottom: 1px solid #e2e8f0;
+        }
+        .param-table th {
+            background: #f1f5f9;
+            font-weight: 600;
+            color: #475569;
+        }
+        .algorithm-grid {
+            display: grid;
+            grid-template-columns: repeat(auto-fit, minmax(250px, 1fr));
+            gap: 1rem;
+            margin: 1.5rem 0;
+        }
+        .algorithm-card {
+            background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+            color: white;
+            padding: 1.5rem;
+            border-radius: 12px;
+            box-shadow: 0 4px 12px rgba(0,0,0,0.15);
+        }
+        .algorithm-card h4 {
+            font-size: 1.1rem;
+            margin-bottom: 0.5rem;
+        }
+        .integration-example {
+            background: #eff6ff;
+            border: 2px solid #3b82f6;
+            padding: 1.5rem;
+            border-radius: 8px;
+            margin: 1rem 0;
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <h1>🧬 Cheminformatics Algorithm Generator API</h1>
+        <p style="font-size: 1.1rem; color: #64748b; margin-bottom: 2rem;">
+            Generate optimized algorithms for compound discovery, molecular analysis, and drug development workflows.
+        </p>
+
+        <h2>📚 Available Algorithms</h2>
+        <div class="algorithm-grid">
+            <div class="algorithm-card">
+                <h4>Molecular Similarity</h4>
+                <p style="font-size: 0.9rem; opacity: 0.9;">Fingerprint-based compound comparison</p>
+            </div>
+            <div class="algorithm-card">
+                <h4>QSAR Modeling</h4>
+                <p style="font-size: 0.9rem; opacity: 0.9;">Activity prediction from structure</p>
+            </div>
+            <div class="algorithm-card">
+                <h4>Compound Screening</h4>
+                <p style="font-size: 0.9rem; opacity: 0.9;">Multi-stage virtual screening</p>
+            </div>
+            <div class="algorithm-card">
+                <h4>Structure Optimization</h4>
+                <p style="font-size: 0.9rem; opacity: 0.9;">Genetic algorithm optimization</p>
+            </div>
+            <div class="algorithm-card">
+                <h4>Pharmacophore Mapping</h4>
+                <p style="font-size: 0.9rem; opacity: 0.9;">3D feature identification</p>
+            </div>
+            <div class="algorithm-card">
+                <h4>Virtual Screening</h4>
+                <p style="font-size: 0.9rem; opacity: 0.9;">AI-powered drug discovery</p>
+            </div>
+        </div>
+
+        <h2>🔌 API Endpoints</h2>
+
+        <div class="endpoint">
+            <h3>
+                <span class="badge badge-post">POST</span>
+                /api/generate
+            </h3>
+            <p>Generate a customized cheminformatics algorithm</p>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Request Body:</h4>
+            <table class="param-table">
+                <thead>
+                    <tr>
+                        <th>Parameter</th>
+                        <th>Type</th>
+                        <th>Required</th>
+                        <th>Description</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    <tr>
+                        <td><code>type</code></td>
+                        <td>string</td>
+                        <td>✓</td>
+                        <td>Algorithm type</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.threshold</code></td>
+                        <td>number</td>
+                        <td></td>
+                        <td>Similarity threshold (0-1)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.method</code></td>
+                        <td>string</td>
+                        <td></td>
+                        <td>Calculation method</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.maxCompounds</code></td>
+                        <td>integer</td>
+                        <td></td>
+                        <td>Max compounds to process</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.iterations</code></td>
+                        <td>integer</td>
+                        <td></td>
+                        <td>Optimization iterations</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.fingerprintType</code></td>
+                        <td>string</td>
+                        <td></td>
+                        <td>ECFP4, ECFP6, FCFP4, FCFP6, MACCS, atom-pair, topological-torsion or path</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.radius</code></td>
+                        <td>integer</td>
+                        <td></td>
+                        <td>ECFP/FCFP radius (overrides the type's diameter)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.bitLength</code></td>
+                        <td>integer</td>
+                        <td></td>
+                        <td>Fingerprint length (default 2048)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.useCounts</code></td>
+                        <td>boolean</td>
+                        <td></td>
+                        <td>Count fingerprints instead of bits</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.tverskyAlpha</code> / <code>tverskyBeta</code></td>
+                        <td>number</td>
+                        <td></td>
+                        <td>Tversky weights (method tversky)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.shapeWeight</code> / <code>fingerprintWeight</code></td>
+                        <td>number</td>
+                        <td></td>
+                        <td>Blend of shape score and fingerprint Tanimoto, default 1 and 0 (method usr or usrcat)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.smartsQuery</code></td>
+                        <td>string</td>
+                        <td></td>
+                        <td>SMARTS pattern (substructure-search)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.applicabilityDomain</code></td>
+                        <td>string</td>
+                        <td></td>
+                        <td>bounding-box, leverage (default), knn-tanimoto or density (qsar-model, virtual-screening)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.modelEnsemble</code></td>
+                        <td>string[]</td>
+                        <td></td>
+                        <td>Any of GraphNN (graph isomorphism network), CNN and QSAR (virtual-screening)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.batchSize</code></td>
+                        <td>integer</td>
+                        <td></td>
+                        <td>Screening batch and GraphNN mini-batch size, default 1000 (virtual-screening)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.ensembleMode</code></td>
+                        <td>string</td>
+                        <td></td>
+                        <td>fixed (default) or stacking: learned weights and conformal confidence, with threshold as the confidence level (virtual-screening)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.optimizationMode</code></td>
+                        <td>string</td>
+                        <td></td>
+                        <td>weighted-sum (default) or pareto: NSGA-II with the Pareto front and hypervolume per generation (structure-optimization)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.objectives</code></td>
+                        <td>array</td>
+                        <td></td>
+                        <td>Names or <code>{ name, direction, min, max }</code> from potency, selectivity, drug-likeness, qed and synthetic-accessibility (structure-optimization)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.featureTypes</code></td>
+                        <td>array</td>
+                        <td></td>
+                        <td>Subset of HBD, HBA, Aromatic, Hydrophobic and Charged (pharmacophore)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.toleranceRadius</code></td>
+                        <td>number</td>
+                        <td></td>
+                        <td>Feature clustering tolerance and sphere radius in Å, default 1.0 (pharmacophore)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.minFeatures</code> / <code>maxFeatures</code></td>
+                        <td>number</td>
+                        <td></td>
+                        <td>Model size limits, default 3 and 7; a conformer must match at least minFeatures (pharmacophore)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.conformerGeneration</code></td>
+                        <td>boolean</td>
+                        <td></td>
+                        <td>Use every supplied conformer (default) or only the first of each compound (pharmacophore)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.clusteringMethod</code> / <code>linkage</code></td>
+                        <td>string</td>
+                        <td></td>
+                        <td>butina (default) or hierarchical, with single, complete or average (default) linkage (clustering-diversity)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.distanceCutoff</code></td>
+                        <td>number</td>
+                        <td></td>
+                        <td>Tanimoto distance cutoff for clusters and sphere exclusion, default 0.35 (clustering-diversity)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.pickingMethod</code></td>
+                        <td>string</td>
+                        <td></td>
+                        <td>maxmin (default) or sphere-exclusion picking of maxCompounds compounds (clustering-diversity)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.minScaffoldCount</code></td>
+                        <td>number</td>
+                        <td></td>
+                        <td>Compounds a scaffold or tree node needs to be reported, default 1 (scaffold-analysis)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.maxVariableAtoms</code></td>
+                        <td>number</td>
+                        <td></td>
+                        <td>Largest variable part in heavy atoms, default 10 (matched-molecular-pairs)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.minPairs</code></td>
+                        <td>number</td>
+                        <td></td>
+                        <td>Compound pairs a transform needs to be reported, default 1 (matched-molecular-pairs)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.minActivityDifference</code></td>
+                        <td>number</td>
+                        <td></td>
+                        <td>Activity difference a similar pair needs to be a cliff, default 1 (activity-cliffs)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.minSali</code></td>
+                        <td>number</td>
+                        <td></td>
+                        <td>SALI a similar pair needs to be a cliff, default 0 (activity-cliffs)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.coreSmarts</code></td>
+                        <td>string</td>
+                        <td></td>
+                        <td>Core SMARTS with labelled attachment points such as [*:1], default [*:1]c1ccc(cc1)C(=O)N[*:2] (r-group-analysis)</td>
+                    </tr>
+                    <tr>
+                        <td><code>parameters.ridgeAlpha</code></td>
+                        <td>number</td>
+                        <td></td>
+                        <td>Ridge penalty of the Free-Wilson fit, default 0.1 (r-group-analysis)</td>
+                    </tr>
+                    <tr>
+                        <td><code>targetLanguage</code></td>
+                        <td>string</td>
+                        <td></td>
+                        <td>pseudocode (default), typescript or python-rdkit</td>
+                    </tr>
+                </tbody>
+            </table>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Request:</h4>
+            <div class="code-block">
+curl -X POST https://your-domain.vercel.app/api/generate \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "type": "molecular-similarity",
+    "parameters": {
+      "threshold": 0.75,
+      "method": "tanimoto",
+      "maxCompounds": 100
+    }
+  }'
+            </div>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Response:</h4>
+            <div class="code-block">
+{
+  "name": "Molecular Similarity Search Algorithm",
+  "type": "molecular-similarity",
+  "description": "Fast molecular similarity search...",
+  "parameters": { ... },
+  "pseudocode": "function molecularSimilaritySearch...",
+  "complexity": "O(n) where n is database size",
+  "useCases": [ ... ],
+  "targetLanguage": "pseudocode",
+  "code": "function molecularSimilaritySearch..."
+}
+            </div>
+        </div>
+
+        <div class="endpoint">
+            <h3>
+                <span class="badge badge-get">GET</span>
+                /api/generate
+            </h3>
+            <p>Get API information and available algorithm types</p>
+        </div>
+
+        <div class="endpoint">
+            <h3>
+                <span class="badge badge-post">POST</span>
+                /api/molecules/parse
+            </h3>
+            <p>Validate SMILES before a screening run and get canonical SMILES back</p>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Request:</h4>
+            <div class="code-block">
+curl -X POST https://your-domain.vercel.app/api/molecules/parse \\
+  -H "Content-Type: application/json" \\
+  -d '{ "smiles": ["OC(=O)c1ccccc1OC(C)=O", "c1cccc1"] }'
+            </div>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Response:</h4>
+            <div class="code-block">
+{
+  "results": [
+    {
+      "input": "OC(=O)c1ccccc1OC(C)=O",
+      "valid": true,
+      "canonicalSmiles": "CC(=O)Oc1ccccc1C(=O)O",
+      "formula": "C9H8O4",
+      "molecularWeight": 180.159,
+      "atomCount": 13,
+      "bondCount": 13,
+      "ringCount": 1,
+      ...
+    },
+    {
+      "input": "c1cccc1",
+      "valid": false,
+      "error": "Cannot kekulize aromatic system",
+      "position": 0
+    }
+  ],
+  "validCount": 1,
+  "invalidCount": 1
+}
+            </div>
+        </div>
+
+        <div class="endpoint">
+            <h3>
+                <span class="badge badge-post">POST</span>
+                /api/similarity
+            </h3>
+            <p>Rank library compounds against a query by fingerprint similarity: ECFP/FCFP, MACCS, atom-pair, topological torsion or path fingerprints (bits or counts), compared by Tanimoto, Dice, Cosine, Euclidean, Tversky, Soergel or Russell-Rao. With <code>method</code> <code>usr</code> or <code>usrcat</code>, the query and library are SD files of 3D structures compared by ultrafast shape recognition, and <code>shapeWeight</code> / <code>fingerprintWeight</code> blend in the fingerprint Tanimoto</p>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Request:</h4>
+            <div class="code-block">
+curl -X POST https://your-domain.vercel.app/api/similarity \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "query": "CC(=O)Oc1ccccc1C(=O)O",
+    "library": ["OC(=O)c1ccccc1O", "CC(=O)Nc1ccc(O)cc1", "c1ccccc1"],
+    "parameters": { "similarityThreshold": 0.3, "method": "tanimoto", "fingerprintType": "ECFP4", "bitLength": 2048 }
+  }'
+            </div>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Response:</h4>
+            <div class="code-block">
+{
+  "query": "CC(=O)Oc1ccccc1C(=O)O",
+  "parameters": { "similarityThreshold": 0.3, "method": "tanimoto", ... },
+  "screened": 3,
+  "hitCount": 1,
+  "hits": [
+    { "index": 0, "smiles": "OC(=O)c1ccccc1O", "canonicalSmiles": "O=C(O)c1ccccc1O", "similarity": 0.467 }
+  ],
+  "invalid": []
+}
+            </div>
+        </div>
+
+        <div class="endpoint">
+            <h3>
+                <span class="badge badge-post">POST</span>
+                /api/descriptors
+            </h3>
+            <p>Compute MW, Crippen LogP/MR, TPSA, Lipinski HBD/HBA, rotatable bonds, ring counts, heavy atoms, formal charge and fraction sp3 for a batch of SMILES, as JSON or CSV</p>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Request:</h4>
+            <div class="code-block">
+curl -X POST https://your-domain.vercel.app/api/descriptors \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "smiles": ["CC(=O)Oc1ccccc1C(=O)O", "not a smiles"],
+    "descriptors": ["MW", "LogP", "TPSA"],
+    "format": "csv"
+  }'
+            </div>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Response:</h4>
+            <div class="code-block">
+smiles,canonicalSmiles,MW,LogP,TPSA,error
+CC(=O)Oc1ccccc1C(=O)O,CC(=O)Oc1ccccc1C(=O)O,180.159,1.31,63.6,
+not a smiles,,,,,Unknown organic-subset atom 't' at position 2
+            </div>
+        </div>
+
+        <div class="endpoint">
+            <h3>
+                <span class="badge badge-post">POST</span>
+                /api/filters
+            </h3>
+            <p>Triage a library through Lipinski, Veber, Ghose, Egan and lead-likeness rules and Brenk, PAINS A/B/C and in-house assay-interference alerts, with the rule or alert that removed each compound and per-stage attrition counts</p>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Request:</h4>
+            <div class="code-block">
+curl -X POST https://your-domain.vercel.app/api/filters \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "smiles": ["CC(=O)Nc1ccc(O)cc1", "O=C1NC(=S)SC1=Cc1ccccc1", "Oc1ccccc1O"],
+    "stages": ["lipinski", "veber", "brenk", "pains-a"]
+  }'
+            </div>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Response:</h4>
+            <div class="code-block">
+{
+  "stages": ["lipinski", "veber", "brenk", "pains-a"],
+  "parameters": { "lipinskiMaxViolations": 1 },
+  "attrition": [
+    { "stage": "lipinski", "input": 3, "passed": 3, "removed": 0 },
+    { "stage": "veber", "input": 3, "passed": 3, "removed": 0 },
+    { "stage": "brenk", "input": 3, "passed": 1, "removed": 2 },
+    { "stage": "pains-a", "input": 1, "passed": 1, "removed": 0 }
+  ],
+  "results": [
+    { "index": 0, "input": "CC(=O)Nc1ccc(O)cc1", "valid": true, "passed": true, "failedStage": null, "reasons": [], ... },
+    { "index": 1, "input": "O=C1NC(=S)SC1=Cc1ccccc1", "valid": true, "passed": false, "failedStage": "brenk", "reasons": ["Michael acceptor", "thiocarbonyl group"], ... },
+    { "index": 2, "input": "Oc1ccccc1O", "valid": true, "passed": false, "failedStage": "brenk", "reasons": ["catechol"], ... }
+  ],
+  "validCount": 3,
+  "invalidCount": 0,
+  "passedCount": 1
+}
+            </div>
+        </div>
+
+        <div class="endpoint">
+            <h3>
+                <span class="badge badge-post">POST</span>
+                /api/substructure
+            </h3>
+            <p>Search a library with a SMARTS query (recursive SMARTS, ring, aromaticity, charge and atom map primitives) and get every embedding as an atom mapping</p>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Request:</h4>
+            <div class="code-block">
+curl -X POST https://your-domain.vercel.app/api/substructure \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "query": "[C:1](=O)[NX3:2]",
+    "library": ["CC(=O)Nc1ccc(O)cc1", "c1ccc2ccccc2c1"]
+  }'
+            </div>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Response:</h4>
+            <div class="code-block">
+{
+  "query": "[C:1](=O)[NX3:2]",
+  "parameters": { "maxResults": 100, "maxMatchesPerCompound": 10, "uniqueMatches": true },
+  "atomMaps": [1, 0, 2],
+  "screened": 2,
+  "hitCount": 1,
+  "hits": [
+    { "index": 0, "smiles": "CC(=O)Nc1ccc(O)cc1", "canonicalSmiles": "CC(=O)Nc1ccc(O)cc1", "matchCount": 1, "mappings": [[1, 2, 3]] }
+  ],
+  "invalid": []
+}
+            </div>
+        </div>
+
+        <div class="endpoint">
+            <h3>
+                <span class="badge badge-post">POST</span>
+                /api/qsar/train
+            </h3>
+            <p>Train a random forest QSAR model (regression or classification) with k-fold cross-validation, feature importances and out-of-fold predictions</p>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Request:</h4>
+            <div class="code-block">
+curl -X POST https://your-domain.vercel.app/api/qsar/train \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "smiles": ["CCO", "CCCCO", "c1ccccc1", "Cc1ccccc1", "Oc1ccccc1", "Clc1ccc(Cl)cc1"],
+    "activities": [-0.31, 0.88, 2.13, 2.73, 1.46, 3.44],
+    "task": "regression",
+    "parameters": { "kFolds": 3 }
+  }'
+            </div>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Response:</h4>
+            <div class="code-block">
+{
+  "task": "regression",
+  "parameters": { "descriptors": ["MW", "LogP", "TPSA", "HBD", "HBA", "RotatableBonds"], "kFolds": 3, "nEstimators": 100, "maxDepth": 10, "minSamplesSplit": 5, "seed": 42 },
+  "trainingSize": 6,
+  "crossValidation": {
+    "kFolds": 3,
+    "metrics": { "r2": 0.41, "rmse": 1.02, "mae": 0.87 },
+    "folds": [ ... ]
+  },
+  "featureImportances": [{ "descriptor": "LogP", "importance": 0.52 }, ...],
+  "applicabilityDomain": { "method": "leverage", "threshold": 3.5, "inDomainRate": 0.83 },
+  "williamsPlot": { "leverageThreshold": 3.5, "residualLimit": 3, "points": [{ "index": 0, "leverage": 0.94, "standardizedResidual": -1.41 }, ...] },
+  "predictions": [
+    { "index": 0, "smiles": "CCO", "observed": -0.31, "fold": 1, "domain": { "inDomain": true, "distance": 1.62 }, "predicted": 1.12, "spread": 0.64 },
+    ...
+  ],
+  "invalid": []
+}
+            </div>
+        </div>
+
+        <div class="endpoint">
+            <h3>
+                <span class="badge badge-get">GET</span>
+                /api/models
+            </h3>
+            <p>List the QSAR models saved with <code>"save": true</code> on /api/qsar/train; <code>GET /api/models/{id}</code> returns one model in full, trees included</p>
+        </div>
+
+        <div class="endpoint">
+            <h3>
+                <span class="badge badge-post">POST</span>
+                /api/models/{id}/predict
+            </h3>
+            <p>Predict activities for a batch of SMILES with a stored model, each with a 0-1 confidence</p>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Request:</h4>
+            <div class="code-block">
+curl -X POST https://your-domain.vercel.app/api/models/dee9cd4b-19c5-4030-89b5-45f0fa9a719f/predict \\
+  -H "Content-Type: application/json" \\
+  -d '{ "smiles": ["CCCO", "Clc1ccccc1"] }'
+            </div>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Response:</h4>
+            <div class="code-block">
+{
+  "modelId": "dee9cd4b-19c5-4030-89b5-45f0fa9a719f",
+  "task": "regression",
+  "applicabilityDomain": "leverage",
+  "results": [
+    { "index": 0, "input": "CCCO", "valid": true, "canonicalSmiles": "CCCO", "prediction": -0.2173, "confidence": 0.4257, "domain": { "inDomain": true, "distance": 0.1534 } },
+    { "index": 1, "input": "Clc1ccccc1", "valid": true, "canonicalSmiles": "Clc1ccccc1", "prediction": 3.3902, "confidence": 0.6171, "domain": { "inDomain": true, "distance": 0.2118 } }
+  ],
+  "validCount": 2,
+  "invalidCount": 0
+}
+            </div>
+        </div>
+
+        <div class="endpoint">
+            <h3>
+                <span class="badge badge-post">POST</span>
+                /api/optimize
+            </h3>
+            <p>Evolve a seed molecule with the structure-optimization genetic algorithm: graph crossover, atom swap, fragment addition and removal, ring closure and bioisostere mutations. Returns the best molecules of every generation and how many offspring were valid, repaired or discarded. With <code>optimizationMode: "pareto"</code> the population is ranked by NSGA-II and the response adds the Pareto front and a hypervolume per generation</p>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Request:</h4>
+            <div class="code-block">
+curl -X POST https://your-domain.vercel.app/api/optimize \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "smiles": "CCCCCCc1ccc(cc1)C(=O)OCCCCCC",
+    "parameters": { "populationSize": 50, "generations": 20, "mutationRate": 0.2 }
+  }'
+            </div>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Response:</h4>
+            <div class="code-block">
+{
+  "seed": { "smiles": "CCCCCCOC(=O)c1ccc(CCCCCC)cc1", "score": 0.9321, "feasible": true, "objectives": { "drug-likeness": 0.8643, "similarity": 1 } },
+  "parameters": { "populationSize": 50, "generations": 20, "mutationRate": 0.2, "crossoverRate": 0.7, "optimizationMode": "weighted-sum", "objectives": [{ "name": "drug-likeness", "direction": "maximize" }, { "name": "similarity", "direction": "maximize" }], "seed": 42 },
+  "generationsRun": 20,
+  "converged": false,
+  "best": [
+    { "smiles": "CCCCCCc1ccc(cc1)C(=O)OCCCCC", "score": 0.9879, "feasible": true, "objectives": { "drug-likeness": 0.9759, "similarity": 1 } },
+    ...
+  ],
+  "generations": [
+    {
+      "generation": 0,
+      "bestScore": 0.9688,
+      "meanScore": 0.7066,
+      "uniqueMolecules": 48,
+      "best": [{ "smiles": "CCCCCCc1ccc(cc1)C(=O)OCCCC", "score": 0.9688, "feasible": true, "objectives": { "drug-likeness": 1, "similarity": 0.9375 } }, ...],
+      "offspring": { "generated": 111, "valid": 101, "repaired": 5, "discarded": 5 }
+    },
+    ...
+  ],
+  "offspring": { "generated": 1000, "valid": 981, "repaired": 9, "discarded": 10 },
+  "operators": {
+    "atom-swap": { "generated": 66, "valid": 47, "repaired": 9, "discarded": 10 },
+    "crossover": { "generated": 700, "valid": 700, "repaired": 0, "discarded": 0 },
+    ...
+  }
+}
             </div>
-            <div class="algorithm-card">
-                <h4>Compound Screening</h4>
-                <p style="font-size: 0.9rem; opacity: 0.9;">Multi-stage virtual screening</p>
+        </div>
+
+        <div class="endpoint">
+            <h3>
+                <span class="badge badge-post">POST</span>
+                /api/scores
+            </h3>
+            <p>Score a batch of SMILES for QED drug-likeness, mean-weighted, max-weighted and unweighted, and for Ertl-style synthetic accessibility from 1 (easy) to 10 (very difficult), with the properties, desirabilities and penalties behind each score</p>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Request:</h4>
+            <div class="code-block">
+curl -X POST https://your-domain.vercel.app/api/scores \\
+  -H "Content-Type: application/json" \\
+  -d '{ "smiles": ["CC(=O)Oc1ccccc1C(=O)O"] }'
             </div>
-            <div class="algorithm-card">
-                <h4>Structure Optimization</h4>
-                <p style="font-size: 0.9rem; opacity: 0.9;">Genetic algorithm optimization</p>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Response:</h4>
+            <div class="code-block">
+{
+  "results": [
+    {
+      "input": "CC(=O)Oc1ccccc1C(=O)O",
+      "valid": true,
+      "canonicalSmiles": "CC(=O)Oc1ccccc1C(=O)O",
+      "qed": {
+        "mean": 0.55,
+        "max": 0.491,
+        "unweighted": 0.673,
+        "properties": { "MW": 180.159, "ALOGP": 1.31, "HBA": 4, "HBD": 1, "PSA": 63.6, "ROTB": 2, "AROM": 1, "ALERTS": 2 },
+        "desirabilities": { "MW": 0.336, "ALOGP": 0.847, "HBA": 0.887, "HBD": 0.987, "PSA": 0.976, "ROTB": 0.87, "AROM": 0.827, "ALERTS": 0.241 }
+      },
+      "syntheticAccessibility": { "score": 1.936, "fragmentScore": 1.714, "complexityPenalty": 0.168, "stereocenters": 0, "spiroAtoms": 0, "bridgeheadAtoms": 0, "macrocycles": 0 }
+    }
+  ],
+  "validCount": 1,
+  "invalidCount": 0
+}
             </div>
-            <div class="algorithm-card">
-                <h4>Pharmacophore Mapping</h4>
-                <p style="font-size: 0.9rem; opacity: 0.9;">3D feature identification</p>
+        </div>
+
+        <div class="endpoint">
+            <h3>
+                <span class="badge badge-post">POST</span>
+                /api/pharmacophore
+            </h3>
+            <p>Build a pharmacophore model from aligned 3D actives in SD format, with excluded volumes from inactives that still fit its features, and screen library conformers against it. Each hit carries its best conformer, a fit score and the model features it matched. Pass a <code>model</code> returned earlier instead of <code>actives</code> to screen only, either as JSON or as a file with <code>modelFormat</code> set to <code>pml</code> (LigandScout), <code>pharmer</code> (Pharmer/Pharmit JSON query) or <code>pdb</code> (pseudo-atoms). <code>exportFormats</code> returns the model in those formats under <code>exports</code></p>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Request:</h4>
+            <div class="code-block">
+curl -X POST https://your-domain.vercel.app/api/pharmacophore \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "actives": "&lt;SD file&gt;",
+    "inactives": "&lt;SD file&gt;",
+    "library": "&lt;SD file&gt;",
+    "parameters": { "toleranceRadius": 1.0, "minFeatures": 3, "maxFeatures": 5 }
+  }'
             </div>
-            <div class="algorithm-card">
-                <h4>Virtual Screening</h4>
-                <p style="font-size: 0.9rem; opacity: 0.9;">AI-powered drug discovery</p>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Response:</h4>
+            <div class="code-block">
+{
+  "parameters": { "featureTypes": ["HBD", "HBA", "Aromatic", "Hydrophobic", "Charged"], "toleranceRadius": 1, "minFeatures": 3, "maxFeatures": 5, "conformerGeneration": true },
+  "model": {
+    "features": [
+      { "type": "HBD", "center": [3, 0, 0], "radius": 1, "weight": 1 },
+      { "type": "Aromatic", "center": [0, 0, 0], "radius": 1, "weight": 1 },
+      ...
+    ],
+    "excludedVolumes": [{ "center": [1.5, -5.196, 0], "radius": 1 }, ...]
+  },
+  "sensitivity": 1,
+  "specificity": 1,
+  "actives": 2,
+  "inactives": 1,
+  "hits": [
+    {
+      "index": 0,
+      "name": "chloro",
+      "conformer": 0,
+      "fitScore": 1,
+      "matches": [{ "modelFeature": 0, "type": "HBD", "atoms": [0], "center": [3, 0, 0], "distance": 0 }, ...]
+    }
+  ],
+  "screened": 2,
+  "invalid": []
+}
             </div>
         </div>
 
-        <h2>🔌 API Endpoints</h2>
+        <div class="endpoint">
+            <h3>
+                <span class="badge badge-post">POST</span>
+                /api/pockets
+            </h3>
+            <p>Find binding pockets on a protein given as PDB or mmCIF text. Grid points outside the protein's van der Waals spheres are scanned along the three axes and four cube diagonals; points enclosed by protein in at least <code>minBuriedness</code> directions are clustered into pockets and ranked by summed buriedness. Each pocket reports its center, volume, mean buriedness, lining residues and any bound ligand inside it</p>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Request:</h4>
+            <div class="code-block">
+curl -X POST https://your-domain.vercel.app/api/pockets \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "structure": "&lt;PDB file&gt;",
+    "parameters": { "gridSpacing": 1.0, "minBuriedness": 5, "maxPockets": 5 }
+  }'
+            </div>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Response:</h4>
+            <div class="code-block">
+{
+  "parameters": { "gridSpacing": 1, "scanDistance": 8, "minBuriedness": 5, "minVolume": 30, "maxPockets": 5, "includeHetero": false },
+  "protein": {
+    "format": "pdb",
+    "atoms": 1656,
+    "residues": 214,
+    "chains": ["A"],
+    "ligands": [{ "name": "STI", "chain": "A", "number": 301, "insertionCode": "", "center": [14.21, 3.87, 20.02], "atoms": 37 }]
+  },
+  "pockets": [
+    {
+      "rank": 1,
+      "center": [14.05, 4.12, 19.63],
+      "volume": 412,
+      "buriedness": 5.61,
+      "score": 2311,
+      "points": 412,
+      "residues": [{ "name": "LEU", "chain": "A", "number": 248, "insertionCode": "" }, ...],
+      "ligands": ["STI A 301"]
+    }
+  ]
+}
+            </div>
+        </div>
 
         <div class="endpoint">
             <h3>
                 <span class="badge badge-post">POST</span>
-                /api/generate
+                /api/docking
             </h3>
-            <p>Generate a customized cheminformatics algorithm</p>
+            <p>Dock 3D ligands (SD file) into a receptor, in a box around the best detected pocket unless a <code>box</code> is given. When the server has <code>DOCKING_BINARY</code> set, a Vina/smina-style program does the docking; otherwise a built-in Vina-like empirical score is searched by rigid-body Monte Carlo over the supplied conformers. Each result has its best <code>bindingEnergy</code>, <code>dockingScore = clamp(-bindingEnergy / 12, 0, 1)</code> and, with a <code>query</code> SMILES, <code>combinedScore = 0.4 * similarity + 0.6 * dockingScore</code></p>
 
-            <h4 style="margin-top: 1rem; color: #475569;">Request Body:</h4>
-            <table class="param-table">
-                <thead>
-                    <tr>
-                        <th>Parameter</th>
-                        <th>Type</th>
-                        <th>Required</th>
-                        <th>Description</th>
-                    </tr>
-                </thead>
-                <tbody>
-                    <tr>
-                        <td><code>type</code></td>
-                        <td>string</td>
-                        <td>✓</td>
-                        <td>Algorithm type</td>
-                    </tr>
-                    <tr>
-                        <td><code>parameters.threshold</code></td>
-                        <td>number</td>
-                        <td></td>
-                        <td>Similarity threshold (0-1)</td>
-                    </tr>
-                    <tr>
-                        <td><code>parameters.method</code></td>
-                        <td>string</td>
-                        <td></td>
-                        <td>Calculation method</td>
-                    </tr>
-                    <tr>
-                        <td><code>parameters.maxCompounds</code></td>
-                        <td>integer</td>
-                        <td></td>
-                        <td>Max compounds to process</td>
-                    </tr>
-                    <tr>
-                        <td><code>parameters.iterations</code></td>
-                        <td>integer</td>
-                        <td></td>
-                        <td>Optimization iterations</td>
-                    </tr>
-                </tbody>
-            </table>
+            <h4 style="margin-top: 1rem; color: #475569;">Example Request:</h4>
+            <div class="code-block">
+curl -X POST https://your-domain.vercel.app/api/docking \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "receptor": "&lt;PDB file&gt;",
+    "ligands": "&lt;SD file&gt;",
+    "query": "CC(=O)Oc1ccccc1C(=O)O",
+    "parameters": { "exhaustiveness": 8, "numModes": 3 }
+  }'
+            </div>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Response:</h4>
+            <div class="code-block">
+{
+  "engine": "empirical",
+  "parameters": { "boxSize": 20, "exhaustiveness": 8, "numModes": 3, "seed": 42, "includeHetero": false },
+  "box": { "center": [14.05, 4.12, 19.63], "size": [20, 20, 20] },
+  "pocket": { "rank": 1, "center": [14.05, 4.12, 19.63], "volume": 412 },
+  "results": [
+    {
+      "index": 1,
+      "name": "aspirin",
+      "bindingEnergy": -6.912,
+      "dockingScore": 0.576,
+      "similarity": 1,
+      "combinedScore": 0.746,
+      "poses": [{ "bindingEnergy": -6.912, "conformer": 0, "coordinates": [[13.2, 5.01, 18.77], ...] }, ...]
+    }
+  ],
+  "invalid": []
+}
+            </div>
+        </div>
+
+        <div class="endpoint">
+            <h3>
+                <span class="badge badge-post">POST</span>
+                /api/clustering
+            </h3>
+            <p>Cluster a SMILES library on fingerprint Tanimoto distance with Taylor-Butina or hierarchical (single, complete or average linkage) clustering at <code>distanceCutoff</code>, and pick up to <code>maxPicks</code> diverse compounds by MaxMin or sphere exclusion. Returns clusters with their centroids, the cluster of every compound, singletons and the picks</p>
 
             <h4 style="margin-top: 1rem; color: #475569;">Example Request:</h4>
             <div class="code-block">
-curl -X POST https://your-domain.vercel.app/api/generate \\
+curl -X POST https://your-domain.vercel.app/api/clustering \\
   -H "Content-Type: application/json" \\
   -d '{
-    "type": "molecular-similarity",
-    "parameters": {
-      "threshold": 0.75,
-      "method": "tanimoto",
-      "maxCompounds": 100
+    "library": ["CC(=O)Oc1ccccc1C(=O)O", "OC(=O)c1ccccc1OC", "CC(=O)Nc1ccc(O)cc1", "CCCCCCCC"],
+    "parameters": { "clusteringMethod": "butina", "distanceCutoff": 0.35, "maxPicks": 2 }
+  }'
+            </div>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Response:</h4>
+            <div class="code-block">
+{
+  "parameters": { "fingerprintType": "ECFP4", "radius": 2, "bitLength": 2048, "useCounts": false, "clusteringMethod": "butina", "distanceCutoff": 0.35, "pickingMethod": "maxmin", "maxPicks": 2 },
+  "compounds": 4,
+  "clusterCount": 3,
+  "clusters": [
+    { "id": 1, "size": 2, "centroid": { "index": 0, "smiles": "CC(=O)Oc1ccccc1C(=O)O" }, "members": [0, 1] },
+    { "id": 2, "size": 1, "centroid": { "index": 2, "smiles": "CC(=O)Nc1ccc(O)cc1" }, "members": [2] },
+    { "id": 3, "size": 1, "centroid": { "index": 3, "smiles": "CCCCCCCC" }, "members": [3] }
+  ],
+  "assignments": [1, 1, 2, 3],
+  "singletons": [2, 3],
+  "picks": [
+    { "index": 3, "smiles": "CCCCCCCC", "distance": null },
+    { "index": 0, "smiles": "CC(=O)Oc1ccccc1C(=O)O", "distance": 0.969 }
+  ],
+  "invalid": []
+}
+            </div>
+        </div>
+
+        <div class="endpoint">
+            <h3>
+                <span class="badge badge-post">POST</span>
+                /api/scaffolds
+            </h3>
+            <p>Reduce a SMILES library to Bemis-Murcko and generic (all-carbon, single-bond) scaffolds, with counts and activity summaries per scaffold and a scaffold tree built by removing one terminal ring at a time. With a <code>query</code>, each scaffold is labelled as no hop, a heteroatom hop (same generic scaffold) or a topology hop</p>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Request:</h4>
+            <div class="code-block">
+curl -X POST https://your-domain.vercel.app/api/scaffolds \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "library": ["CC(=O)Nc1ccc(O)cc1", "CC(C)Cc1ccc(cc1)C(C)C(=O)O", "Oc1ccncc1", "O=C(Nc1ccccc1)c1ccc2[nH]ccc2c1", "CCO"],
+    "activities": [5.2, 5.8, 4.9, 7.1, null],
+    "query": "CC(=O)Nc1ccccc1"
+  }'
+            </div>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Response:</h4>
+            <div class="code-block">
+{
+  "parameters": { "minCount": 1, "maxScaffolds": 100 },
+  "compounds": 5,
+  "scaffoldCount": 3,
+  "query": { "smiles": "CC(=O)Nc1ccccc1", "scaffold": "c1ccccc1", "generic": "C1CCCCC1" },
+  "scaffolds": [
+    { "smiles": "c1ccccc1", "generic": "C1CCCCC1", "rings": 1, "count": 2, "members": [0, 1], "activity": { "count": 2, "mean": 5.5, "std": 0.424, "min": 5.2, "max": 5.8 }, "hop": "none" },
+    { "smiles": "O=C(Nc1ccccc1)c1ccc2[nH]ccc2c1", "generic": "CC(CC1CCCCC1)C1CCC2CCCC2C1", "rings": 3, "count": 1, "members": [3], "activity": { "count": 1, "mean": 7.1, "std": 0, "min": 7.1, "max": 7.1 }, "hop": "topology" },
+    { "smiles": "c1ccncc1", "generic": "C1CCCCC1", "rings": 1, "count": 1, "members": [2], "activity": { "count": 1, "mean": 4.9, "std": 0, "min": 4.9, "max": 4.9 }, "hop": "heteroatom" }
+  ],
+  "genericScaffolds": [
+    { "smiles": "C1CCCCC1", "rings": 1, "count": 3, "scaffolds": 2, "members": [0, 1, 2], "activity": { "count": 3, "mean": 5.3, "std": 0.458, "min": 4.9, "max": 5.8 } },
+    { "smiles": "CC(CC1CCCCC1)C1CCC2CCCC2C1", "rings": 3, "count": 1, "scaffolds": 1, "members": [3], "activity": { "count": 1, "mean": 7.1, "std": 0, "min": 7.1, "max": 7.1 } }
+  ],
+  "tree": [
+    { "smiles": "c1ccccc1", "rings": 1, "parent": null, "count": 2, "total": 2 },
+    { "smiles": "c1cc[nH]c1", "rings": 1, "parent": null, "count": 0, "total": 1 },
+    { "smiles": "c1ccncc1", "rings": 1, "parent": null, "count": 1, "total": 1 },
+    { "smiles": "c1ccc2[nH]ccc2c1", "rings": 2, "parent": "c1cc[nH]c1", "count": 0, "total": 1 },
+    { "smiles": "O=C(Nc1ccccc1)c1ccc2[nH]ccc2c1", "rings": 3, "parent": "c1ccc2[nH]ccc2c1", "count": 1, "total": 1 }
+  ],
+  "acyclic": [4],
+  "assignments": [
+    { "scaffold": "c1ccccc1", "generic": "C1CCCCC1" },
+    { "scaffold": "c1ccccc1", "generic": "C1CCCCC1" },
+    { "scaffold": "c1ccncc1", "generic": "C1CCCCC1" },
+    { "scaffold": "O=C(Nc1ccccc1)c1ccc2[nH]ccc2c1", "generic": "CC(CC1CCCCC1)C1CCC2CCCC2C1" },
+    { "scaffold": null, "generic": null }
+  ],
+  "invalid": []
+}
+            </div>
+        </div>
+
+        <div class="endpoint">
+            <h3>
+                <span class="badge badge-post">POST</span>
+                /api/mmp
+            </h3>
+            <p>Find matched molecular pairs by Hussain-Rea single-cut fragmentation, summarize each transform by the change it causes in every supplied property, and suggest new compounds by applying the transforms to a <code>query</code>. Set <code>format</code> to <code>csv</code> to export the transforms</p>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Request:</h4>
+            <div class="code-block">
+curl -X POST https://your-domain.vercel.app/api/mmp \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "library": ["NC(=O)Cc1ccc(Cl)cc1", "NC(=O)Cc1ccc(cc1)C(F)(F)F", "CNC(=O)Cc1ccc(Cl)cc1", "CNC(=O)Cc1ccc(cc1)C(F)(F)F", "CNC(=O)Cc1ccccc1"],
+    "properties": { "pIC50": [6.0, 7.0, 6.5, 7.7, 5.6] },
+    "query": "NC(=O)Cc1ccccc1",
+    "parameters": { "minPairs": 2, "maxTransforms": 2 }
+  }'
+            </div>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Response:</h4>
+            <div class="code-block">
+{
+  "parameters": { "maxVariableAtoms": 10, "includeHydrogen": true, "minPairs": 2, "maxTransforms": 2 },
+  "compounds": 5,
+  "properties": ["pIC50"],
+  "transformCount": 10,
+  "transforms": [
+    {
+      "transform": "[*:1]C(=O)NC>>[*:1]C(N)=O",
+      "from": "[*:1]C(=O)NC",
+      "to": "[*:1]C(N)=O",
+      "pairCount": 2,
+      "pairs": [
+        { "from": 2, "to": 0, "constant": "[*:1]Cc1ccc(Cl)cc1" },
+        { "from": 3, "to": 1, "constant": "[*:1]Cc1ccc(cc1)C(F)(F)F" }
+      ],
+      "changes": { "pIC50": { "count": 2, "mean": -0.6, "std": 0.141, "min": -0.7, "max": -0.5 } }
+    },
+    {
+      "transform": "[*:1]C(F)(F)F>>[*:1]Cl",
+      "from": "[*:1]C(F)(F)F",
+      "to": "[*:1]Cl",
+      "pairCount": 2,
+      "pairs": [
+        { "from": 1, "to": 0, "constant": "[*:1]c1ccc(CC(N)=O)cc1" },
+        { "from": 3, "to": 2, "constant": "[*:1]c1ccc(CC(=O)NC)cc1" }
+      ],
+      "changes": { "pIC50": { "count": 2, "mean": -1.1, "std": 0.141, "min": -1.2, "max": -1 } }
     }
+  ],
+  "query": {
+    "smiles": "NC(=O)Cc1ccccc1",
+    "suggestions": [
+      { "smiles": "CC(C(N)=O)c1ccccc1", "transform": "[*:1][H]>>[*:1]C", "constant": "[*:1]C(C(N)=O)c1ccccc1", "pairCount": 2, "changes": { "pIC50": { "count": 2, "mean": 0.6, "std": 0.141, "min": 0.5, "max": 0.7 } }, "libraryIndex": null },
+      { "smiles": "CNC(=O)Cc1ccccc1", "transform": "[*:1]C(N)=O>>[*:1]C(=O)NC", "constant": "[*:1]Cc1ccccc1", "pairCount": 2, "changes": { "pIC50": { "count": 2, "mean": 0.6, "std": 0.141, "min": 0.5, "max": 0.7 } }, "libraryIndex": 4 }
+    ]
+  },
+  "invalid": []
+}
+            </div>
+
+            <h4 style="margin-top: 1rem; color: #475569;">CSV Export (<code>"format": "csv"</code>):</h4>
+            <div class="code-block">
+transform,from,to,pairs,pIC50_count,pIC50_mean,pIC50_std,pIC50_min,pIC50_max
+[*:1]C(=O)NC>>[*:1]C(N)=O,[*:1]C(=O)NC,[*:1]C(N)=O,2,2,-0.6,0.141,-0.7,-0.5
+[*:1]C(F)(F)F>>[*:1]Cl,[*:1]C(F)(F)F,[*:1]Cl,2,2,-1.1,0.141,-1.2,-1
+            </div>
+        </div>
+
+        <div class="endpoint">
+            <h3>
+                <span class="badge badge-post">POST</span>
+                /api/cliffs
+            </h3>
+            <p>Find activity cliffs: similar compounds with a large activity difference, scored by the Structure-Activity Landscape Index (SALI). The response carries a SALI network of the reported cliffs and a SALI heatmap of the measured compounds ordered by activity</p>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Request:</h4>
+            <div class="code-block">
+curl -X POST https://your-domain.vercel.app/api/cliffs \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "library": ["CC(=O)Nc1ccc(O)cc1", "CC(=O)Nc1ccc(OC)cc1", "CC(=O)Nc1ccc(Cl)cc1", "CC(=O)Nc1ccc(Br)cc1", "CC(=O)Oc1ccccc1C(=O)O"],
+    "activities": [5.1, 7.3, 6.0, 6.2, null],
+    "parameters": { "minSimilarity": 0.5, "minActivityDifference": 1, "maxCliffs": 2 }
   }'
             </div>
 
             <h4 style="margin-top: 1rem; color: #475569;">Example Response:</h4>
             <div class="code-block">
 {
-  "name": "Molecular Similarity Search Algorithm",
-  "type": "molecular-similarity",
-  "description": "Fast molecular similarity search...",
-  "parameters": { ... },
-  "pseudocode": "function molecularSimilaritySearch...",
-  "complexity": "O(n) where n is database size",
-  "useCases": [ ... ]
+  "parameters": { "fingerprintType": "ECFP4", "radius": 2, "bitLength": 2048, "useCounts": false, "minSimilarity": 0.5, "minActivityDifference": 1, "minSali": 0, "maxCliffs": 2 },
+  "compounds": 5,
+  "measured": 4,
+  "pairCount": 6,
+  "cliffCount": 4,
+  "cliffs": [
+    { "from": 0, "to": 1, "similarity": 0.571, "activityDifference": 2.2, "sali": 5.133 },
+    { "from": 0, "to": 3, "similarity": 0.64, "activityDifference": 1.1, "sali": 3.056 }
+  ],
+  "network": {
+    "nodes": [
+      { "index": 0, "smiles": "CC(=O)Nc1ccc(O)cc1", "activity": 5.1, "cliffCount": 2 },
+      { "index": 1, "smiles": "CC(=O)Nc1ccc(OC)cc1", "activity": 7.3, "cliffCount": 3 },
+      { "index": 3, "smiles": "CC(=O)Nc1ccc(Br)cc1", "activity": 6.2, "cliffCount": 2 }
+    ],
+    "edges": [
+      { "source": 0, "target": 1, "sali": 5.133 },
+      { "source": 0, "target": 3, "sali": 3.056 }
+    ]
+  },
+  "heatmap": {
+    "order": [0, 2, 3, 1],
+    "sali": [
+      [0, 2.34, 3.056, 5.133],
+      [2.34, 0, 0.556, 3.033],
+      [3.056, 0.556, 0, 2.7],
+      [5.133, 3.033, 2.7, 0]
+    ]
+  },
+  "invalid": []
 }
             </div>
         </div>
 
         <div class="endpoint">
             <h3>
-                <span class="badge badge-get">GET</span>
-                /api/generate
+                <span class="badge badge-post">POST</span>
+                /api/rgroups
             </h3>
-            <p>Get API information and available algorithm types</p>
+            <p>R-group decomposition of a congeneric series on a core SMARTS with labelled attachment points, with a Free-Wilson additive model of the substituent contributions and predictions for the best unmade combinations</p>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Request:</h4>
+            <div class="code-block">
+curl -X POST https://your-domain.vercel.app/api/rgroups \\
+  -H "Content-Type: application/json" \\
+  -d '{
+    "library": ["Clc1ccc(cc1)C(=O)NC", "c1ccc(cc1)C(=O)NCC", "Fc1ccc(cc1)C(=O)N", "Clc1ccc(cc1)C(=O)NCC", "c1ccc(cc1)C(=O)N", "Clc1ccc(cc1)C(=O)N(C)C"],
+    "core": "[*:1]c1ccc(cc1)C(=O)N[*:2]",
+    "activities": [6.1, 5.2, 5.5, 6.4, 4.8, null],
+    "parameters": { "maxPredictions": 2 }
+  }'
+            </div>
+
+            <h4 style="margin-top: 1rem; color: #475569;">Example Response:</h4>
+            <div class="code-block">
+{
+  "parameters": { "core": "[*:1]c1ccc(cc1)C(=O)N[*:2]", "labels": ["R1", "R2"], "ridgeAlpha": 0.1, "maxPredictions": 2 },
+  "compounds": 6,
+  "decomposedCount": 5,
+  "decompositions": [
+    { "index": 0, "smiles": "Clc1ccc(cc1)C(=O)NC", "core": "[*:2]NC(=O)c1ccc([*:1])cc1", "rgroups": { "R1": "[*:1]Cl", "R2": "[*:2]C" }, "activity": 6.1 },
+    { "index": 1, "smiles": "c1ccc(cc1)C(=O)NCC", "core": "[*:2]NC(=O)c1ccc([*:1])cc1", "rgroups": { "R1": "[*:1][H]", "R2": "[*:2]CC" }, "activity": 5.2 },
+    ...
+  ],
+  "unmatched": [
+    { "index": 5, "smiles": "Clc1ccc(cc1)C(=O)N(C)C", "reason": "More substituents on a core atom than attachment points" }
+  ],
+  "freeWilson": {
+    "intercept": 6.26,
+    "contributions": {
+      "R1": [
+        { "rgroup": "[*:1]Cl", "count": 2, "contribution": 0, "reference": true },
+        { "rgroup": "[*:1]F", "count": 1, "contribution": -0.272, "reference": false },
+        { "rgroup": "[*:1][H]", "count": 2, "contribution": -0.981, "reference": false }
+      ],
+      "R2": [
+        { "rgroup": "[*:2]CC", "count": 2, "contribution": 0, "reference": true },
+        { "rgroup": "[*:2]C", "count": 1, "contribution": -0.146, "reference": false },
+        { "rgroup": "[*:2][H]", "count": 2, "contribution": -0.46, "reference": false }
+      ]
+    },
+    "training": { "r2": 0.984, "rmse": 0.074, "mae": 0.056 },
+    "leaveOneOut": { "r2": 0.505, "rmse": 0.41, "mae": 0.357 },
+    "compounds": [
+      { "index": 0, "observed": 6.1, "fitted": 6.115 },
+      ...
+    ],
+    "core": "[*:2]NC(=O)c1ccc([*:1])cc1",
+    "combinationCount": 9,
+    "unmadeCount": 4,
+    "predictions": [
+      { "smiles": "CCNC(=O)c1ccc(F)cc1", "rgroups": { "R1": "[*:1]F", "R2": "[*:2]CC" }, "predicted": 5.988 },
+      { "smiles": "CNC(=O)c1ccc(F)cc1", "rgroups": { "R1": "[*:1]F", "R2": "[*:2]C" }, "predicted": 5.842 }
+    ]
+  },
+  "invalid": []
+}
+            </div>
         </div>
 
         <h2>💻 Integration Examples</h2>
@@ -523,6 +3773,16 @@ print(algorithm['pseudocode'])
                     <td>string</td>
                     <td>Implementation pseudocode</td>
                 </tr>
+                <tr>
+                    <td><code>targetLanguage</code></td>
+                    <td>string</td>
+                    <td>Language of <code>code</code></td>
+                </tr>
+                <tr>
+                    <td><code>code</code></td>
+                    <td>string</td>
+                    <td>Runnable implementation with a self-check</td>
+                </tr>
                 <tr>
                     <td><code>complexity</code></td>
                     <td>string</td>
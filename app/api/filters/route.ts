@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  FilterOptionsError,
+  defaultFilterStages,
+  filterNames,
+  isFilterAvailable,
+  isFilterName,
+  resolveFilterOptions,
+  runCascade,
+  type FilterName,
+  type FilterOptions,
+} from '@/lib/chem/filters';
+import { SmilesParseError, parseSmiles, writeSmiles } from '@/lib/chem/smiles';
+
+interface FilterRequest {
+  smiles: string | string[];
+  stages?: string[];
+  parameters?: FilterOptions;
+}
+
+type FilterResult =
+  | {
+      index: number;
+      input: string;
+      valid: true;
+      canonicalSmiles: string;
+      passed: boolean;
+      failedStage: FilterName | null;
+      reasons: string[];
+    }
+  | { index: number; input: string; valid: false; error: string; position: number };
+
+interface StageAttrition {
+  stage: FilterName;
+  input: number;
+  passed: number;
+  removed: number;
+}
+
+const MAX_BATCH_SIZE = 1000;
+
+function filterOne(
+  input: string,
+  index: number,
+  stages: FilterName[],
+  options: FilterOptions,
+): FilterResult {
+  try {
+    const mol = parseSmiles(input);
+    return { index, input, valid: true, canonicalSmiles: writeSmiles(mol), ...runCascade(mol, stages, options) };
+  } catch (error) {
+    if (error instanceof SmilesParseError) {
+      return { index, input, valid: false, error: error.reason, position: error.position };
+    }
+    throw error;
+  }
+}
+
+// Compounds leave the cascade at the first stage they fail, so each stage
+// sees what survived the previous one.
+function attrition(results: FilterResult[], stages: FilterName[]): StageAttrition[] {
+  let remaining = results.filter((result) => result.valid).length;
+  return stages.map((stage) => {
+    const removed = results.filter((result) => result.valid && result.failedStage === stage).length;
+    const counts = { stage, input: remaining, passed: remaining - removed, removed };
+    remaining -= removed;
+    return counts;
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: FilterRequest = await request.json();
+    const inputs = Array.isArray(body.smiles) ? body.smiles : [body.smiles];
+    const { stages = defaultFilterStages(), parameters = {} } = body;
+
+    if (inputs.length === 0 || inputs.some((smiles) => typeof smiles !== 'string')) {
+      return NextResponse.json(
+        { error: 'Expected smiles to be a string or an array of strings' },
+        { status: 400 }
+      );
+    }
+
+    if (inputs.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BATCH_SIZE} SMILES can be filtered per request` },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(stages) || stages.length === 0 || !stages.every(isFilterName)) {
+      return NextResponse.json(
+        { error: `Invalid stages. Expected a non-empty list of: ${filterNames.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const unavailable = stages.filter((stage) => !isFilterAvailable(stage));
+    if (unavailable.length > 0) {
+      return NextResponse.json(
+        { error: `No catalogue installed for ${unavailable.join(', ')}; build lib/chem/pains.json with npm run build:pains` },
+        { status: 503 }
+      );
+    }
+
+    if (typeof parameters !== 'object' || parameters === null) {
+      return NextResponse.json(
+        { error: 'Expected parameters to be an object' },
+        { status: 400 }
+      );
+    }
+
+    const order = [...new Set(stages)];
+    const options = resolveFilterOptions(parameters);
+    const results = inputs.map((smiles, index) => filterOne(smiles, index, order, options));
+    const validCount = results.filter((result) => result.valid).length;
+    const passedCount = results.filter((result) => result.valid && result.passed).length;
+
+    return NextResponse.json(
+      {
+        stages: order,
+        parameters: options,
+        attrition: attrition(results, order),
+        results,
+        validCount,
+        invalidCount: results.length - validCount,
+        passedCount,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof FilterOptionsError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error running filter cascade:', error);
+    return NextResponse.json(
+      { error: 'Failed to run filter cascade' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Drug-likeness and structural alert filter cascade',
+    stages: filterNames,
+    defaultStages: defaultFilterStages(),
+    parameters: { lipinskiMaxViolations: 'integer 0-4, default 1' },
+    maxBatchSize: MAX_BATCH_SIZE,
+    usage: 'POST /api/filters with { smiles: string | string[], stages?, parameters? }',
+  });
+}
@@ -0,0 +1,142 @@
+import type { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { POST } from './route';
+
+async function generate(body: unknown) {
+  const response = await POST({ json: async () => body } as NextRequest);
+  return { status: response.status, data: await response.json() };
+}
+
+describe('POST /api/generate', () => {
+  it('rejects shared parameters outside their documented ranges', async () => {
+    for (const parameters of [{ threshold: 1.5 }, { maxCompounds: 0 }, { iterations: 99 }, { iterations: 100.5 }]) {
+      const { status, data } = await generate({ type: 'molecular-similarity', parameters });
+      expect(status).toBe(400);
+      expect(data.error).toMatch(/^(threshold|maxCompounds|iterations) must be/);
+    }
+  });
+
+  it('keeps a threshold of 0 instead of falling back to the default', async () => {
+    const similarity = await generate({ type: 'molecular-similarity', parameters: { threshold: 0 } });
+    expect(similarity.data.parameters.similarityThreshold).toBe(0);
+    const screening = await generate({ type: 'compound-screening', parameters: { threshold: 0 } });
+    expect(screening.data.parameters.cutoffThreshold).toBe(0);
+    const ensemble = await generate({ type: 'virtual-screening', parameters: { threshold: 0 } });
+    expect(ensemble.status).toBe(200);
+    expect(ensemble.data.parameters.confidenceThreshold).toBe(0);
+  });
+
+  it('treats a null threshold as unset', async () => {
+    const { data } = await generate({ type: 'molecular-similarity', parameters: { threshold: null } });
+    expect(data.parameters.similarityThreshold).toBe(0.7);
+  });
+});
+
+describe('molecular-similarity shape methods', () => {
+  it('returns the shape weights and USRCAT pseudocode', async () => {
+    const { status, data } = await generate({
+      type: 'molecular-similarity',
+      parameters: { method: 'usrcat', shapeWeight: 3, fingerprintWeight: 1 },
+    });
+    expect(status).toBe(200);
+    expect(data.parameters).toMatchObject({ method: 'usrcat', shapeWeight: 3, fingerprintWeight: 1 });
+    expect(data.pseudocode).toContain('similarity = (3 * shape + 1 * fingerprint) / 4');
+    expect(data.pseudocode).toContain('// 60 values');
+  });
+
+  it('rejects negative shape weights', async () => {
+    const { status } = await generate({ type: 'molecular-similarity', parameters: { method: 'usr', fingerprintWeight: -1 } });
+    expect(status).toBe(400);
+  });
+});
+
+describe('clustering-diversity parameters', () => {
+  it('picks maxCompounds diverse compounds and adds linkage for hierarchical clustering', async () => {
+    const { status, data } = await generate({
+      type: 'clustering-diversity',
+      parameters: { clusteringMethod: 'hierarchical', linkage: 'complete', maxCompounds: 25 },
+    });
+    expect(status).toBe(200);
+    expect(data.parameters).toMatchObject({ clusteringMethod: 'hierarchical', distanceCutoff: 0.35, linkage: 'complete', maxPicks: 25 });
+    expect(data.pseudocode).toContain('max(d[k][a], d[k][b])');
+  });
+
+  it('rejects an unknown picking method', async () => {
+    const { status } = await generate({ type: 'clustering-diversity', parameters: { pickingMethod: 'random' } });
+    expect(status).toBe(400);
+  });
+});
+
+describe('scaffold-analysis parameters', () => {
+  it('reports minScaffoldCount errors under the request field name', async () => {
+    const { status, data } = await generate({ type: 'scaffold-analysis', parameters: { minScaffoldCount: 0 } });
+    expect(status).toBe(400);
+    expect(data.error).toBe('minScaffoldCount must be a positive integer');
+  });
+
+  it('treats a null minScaffoldCount as unset', async () => {
+    const { status, data } = await generate({ type: 'scaffold-analysis', parameters: { minScaffoldCount: null } });
+    expect(status).toBe(200);
+    expect(data.parameters.minCount).toBe(1);
+  });
+});
+
+describe('activity-cliffs parameters', () => {
+  it('defaults an unset or null threshold to a minimum similarity of 0.65', async () => {
+    for (const parameters of [{}, { threshold: null }]) {
+      const { status, data } = await generate({ type: 'activity-cliffs', parameters });
+      expect(status).toBe(200);
+      expect(data.parameters.minSimilarity).toBe(0.65);
+    }
+  });
+
+  it('uses the threshold as the minimum similarity', async () => {
+    const { data } = await generate({ type: 'activity-cliffs', parameters: { threshold: 0 } });
+    expect(data.parameters.minSimilarity).toBe(0);
+  });
+
+  it('reports an invalid threshold under its own name', async () => {
+    const { status, data } = await generate({ type: 'activity-cliffs', parameters: { threshold: '0.8' } });
+    expect(status).toBe(400);
+    expect(data.error).toMatch(/^threshold must be/);
+  });
+});
+
+describe('r-group-analysis parameters', () => {
+  it('reports the core labels and Free-Wilson settings', async () => {
+    const { status, data } = await generate({ type: 'r-group-analysis', parameters: { coreSmarts: '[*:1]c1ccc([*:2])cc1', ridgeAlpha: 0, maxCompounds: 20 } });
+    expect(status).toBe(200);
+    expect(data.parameters).toMatchObject({ coreSmarts: '[*:1]c1ccc([*:2])cc1', labels: ['R1', 'R2'], ridgeAlpha: 0, maxPredictions: 20 });
+  });
+
+  it('rejects a core without attachment points and a negative ridge penalty', async () => {
+    expect((await generate({ type: 'r-group-analysis', parameters: { coreSmarts: 'c1ccccc1' } })).status).toBe(400);
+    expect((await generate({ type: 'r-group-analysis', parameters: { ridgeAlpha: -1 } })).status).toBe(400);
+  });
+});
+
+describe('structure-optimization modes', () => {
+  it('describes NSGA-II with objective specs and a reference point in pareto mode', async () => {
+    const objectives = ['potency', { name: 'drug-likeness', min: 0.5 }];
+    const { status, data } = await generate({ type: 'structure-optimization', parameters: { optimizationMode: 'pareto', objectives } });
+    expect(status).toBe(200);
+    expect(data.parameters).toMatchObject({
+      optimizationMode: 'pareto',
+      objectives: [
+        { name: 'potency', direction: 'maximize' },
+        { name: 'drug-likeness', direction: 'maximize', min: 0.5 },
+      ],
+      referencePoint: [0, 0],
+    });
+    expect(data.pseudocode).toContain('crowdedTournament');
+    expect(data.pseudocode).not.toContain('0.4*potency');
+  });
+
+  it('keeps the weighted sum and plain objective names by default', async () => {
+    const { data } = await generate({ type: 'structure-optimization', parameters: {} });
+    expect(data.parameters.optimizationMode).toBe('weighted-sum');
+    expect(data.parameters.objectives).toEqual(['potency', 'selectivity', 'drug-likeness']);
+    expect(data.parameters).not.toHaveProperty('referencePoint');
+    expect((await generate({ type: 'structure-optimization', parameters: { optimizationMode: 'moea' } })).status).toBe(400);
+  });
+});
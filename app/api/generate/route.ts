@@ -1,38 +1,443 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-type AlgorithmType =
-  | 'molecular-similarity'
-  | 'qsar-model'
-  | 'compound-screening'
-  | 'structure-optimization'
-  | 'pharmacophore'
-  | 'virtual-screening';
+import {
+  targetLanguages,
+  type AlgorithmType,
+  type GeneratedAlgorithm,
+  type GeneratorParameters,
+  type TargetLanguage,
+} from '@/lib/algorithms';
+import { CliffOptionsError, SALI_DISTANCE_FLOOR, resolveCliffParameters } from '@/lib/chem/cliffs';
+import { ClusteringOptionsError, resolveClusteringParameters } from '@/lib/chem/clustering';
+import { FingerprintOptionsError, resolveFingerprintOptions } from '@/lib/chem/fingerprints';
+import { HYDROGEN_FRAGMENT, MmpOptionsError, resolveMmpParameters } from '@/lib/chem/mmp';
+import { PharmacophoreOptionsError, resolvePharmacophoreParameters } from '@/lib/chem/pharmacophore';
+import { MAX_CORE_MATCHES, RGroupOptionsError, hydrogenGroup, parseRGroupCore } from '@/lib/chem/rgroups';
+import { ScaffoldOptionsError, resolveScaffoldParameters } from '@/lib/chem/scaffolds';
+import { ShapeOptionsError, isShapeMethod, resolveShapeParameters, type ResolvedShapeParameters } from '@/lib/chem/shape';
+import { SmartsParseError, parseSmarts } from '@/lib/chem/smarts';
+import { codeTemplates } from '@/lib/codegen';
+import { DomainOptionsError, resolveDomainMethod, type DomainMethod } from '@/lib/ml/domain';
+import {
+  CALIBRATION_FRACTION,
+  EnsembleOptionsError,
+  GNN_EPOCHS,
+  GNN_HIDDEN_SIZE,
+  GNN_LAYERS,
+  HIT_CUTOFF,
+  STACKING_FOLDS,
+  ensembleModels,
+  resolveBatchSize,
+  resolveConfidenceLevel,
+  resolveEnsembleMode,
+  resolveModelEnsemble,
+  type EnsembleModel,
+} from '@/lib/ml/ensemble';
+import { FreeWilsonOptionsError, resolveFreeWilsonParameters } from '@/lib/ml/free-wilson';
+import {
+  OptimizationOptionsError,
+  resolveObjectiveSpecs,
+  resolveOptimizationMode,
+  type ObjectiveSpec,
+} from '@/lib/ml/genetic';
 
 interface GenerateRequest {
   type: AlgorithmType;
-  parameters: {
-    threshold?: number;
-    method?: string;
-    maxCompounds?: number;
-    iterations?: number;
+  parameters?: GeneratorParameters;
+  targetLanguage?: TargetLanguage;
+}
+
+// Resolved fingerprint settings for a parameter block. Only the settings the
+// chosen fingerprint family uses are included.
+function fingerprintParameters(params: GeneratorParameters) {
+  const fingerprintType = params.fingerprintType || 'ECFP4';
+  const { family, radius, bitLength, useCounts, maxPathLength } = resolveFingerprintOptions({ ...params, fingerprintType });
+  return {
+    fingerprintType,
+    ...(family === 'ecfp' || family === 'fcfp' ? { radius } : {}),
+    bitLength: family === 'maccs' ? 167 : bitLength,
+    useCounts,
+    ...(family === 'path' ? { maxPathLength } : {}),
   };
 }
 
-const algorithmGenerators: Record<AlgorithmType, (params: any) => any> = {
-  'molecular-similarity': (params) => ({
-    name: 'Molecular Similarity Search Algorithm',
-    type: 'molecular-similarity',
-    description: 'Fast molecular similarity search using fingerprint-based comparison methods to identify structurally similar compounds in large chemical databases.',
-    parameters: {
-      similarityThreshold: params.threshold || 0.7,
-      method: params.method || 'tanimoto',
-      maxResults: params.maxCompounds || 100,
-      fingerprintType: 'ECFP4',
-      bitLength: 2048,
-    },
-    pseudocode: `function molecularSimilaritySearch(queryMolecule, database, threshold):
-    // Generate fingerprint for query molecule
-    queryFingerprint = generateFingerprint(queryMolecule, ECFP4, 2048)
+// USR / USRCAT search over 3D conformers, optionally blended with a 2D
+// fingerprint Tanimoto.
+const shapePseudocode = (method: string, weights: ResolvedShapeParameters, fingerprintType: string) =>
+  `function shapeSimilaritySearch(queryConformers, database, threshold):
+    queryDescriptors = [${method}Descriptor(c) for c in queryConformers]
+${weights.fingerprintWeight > 0 ? `    queryFingerprint = generateFingerprint(queryConformers[0], ${fingerprintType})
+` : ''}
+    results = []
+    for compound in database:
+        // Best pair of query and compound conformers
+        shape = max(shapeScore(q, ${method}Descriptor(c)) for q in queryDescriptors for c in compound.conformers)
+${
+  weights.fingerprintWeight > 0
+    ? `        fingerprint = tanimoto(queryFingerprint, generateFingerprint(compound, ${fingerprintType}))
+        similarity = (${weights.shapeWeight} * shape + ${weights.fingerprintWeight} * fingerprint) / ${weights.shapeWeight + weights.fingerprintWeight}`
+    : `        similarity = shape`
+}
+        if similarity >= threshold:
+            results.append({ compound, similarity, shape })
+
+    results.sort(key=lambda x: x.similarity, reverse=True)
+    return results[0:maxResults]
+
+function ${method}Descriptor(conformer):
+    atoms = heavyAtomCoordinates(conformer)
+    ctd = centroid(atoms)
+    cst = atom closest to ctd
+    fct = atom farthest from ctd
+    ftf = atom farthest from fct
+    subsets = [atoms]${method === 'usrcat' ? ' + [hydrophobic, aromatic, acceptor, donor atoms]   // USRCAT SMARTS types' : ''}
+    descriptor = []
+    for subset in subsets:
+        for ref in [ctd, cst, fct, ftf]:
+            d = [distance(a, ref) for a in subset]
+            descriptor += [mean(d), stddev(d), cbrt(thirdCentralMoment(d))]
+    return descriptor    // ${method === 'usrcat' ? 60 : 12} values
+
+function shapeScore(d1, d2):
+    weights = ${method === 'usrcat' ? '[1, 0.25, 0.25, 0.25, 0.25]    // all atoms, then each typed subset' : '[1]'}
+    return 1 / (1 + sum(weights[k] * mean(|d1[k] - d2[k]|) over 12-value blocks k))`;
+
+// Applicability-domain steps per method. `X` is the normalized training
+// descriptor matrix (n x p) and `x` the normalized descriptors of the
+// compound being checked.
+const domainPseudocode: Record<DomainMethod, { fit: string; check: (compound: string) => string }> = {
+  'bounding-box': {
+    fit: `domain = { min: columnMin(X), max: columnMax(X) }`,
+    check: () => `distance = max(0, max over j of (domain.min[j] - x[j], x[j] - domain.max[j]))
+inDomain = distance == 0`,
+  },
+  leverage: {
+    fit: `D = [1 | X]                             // design matrix with intercept
+domain = { inverse: inv(D' D), threshold: 3 * (p + 1) / n }   // warning leverage h*`,
+    check: () => `distance = [1, x] · domain.inverse · [1, x]'   // leverage h
+inDomain = distance <= domain.threshold
+// Williams plot: h against standardized residual; |residual| > 3 marks response outliers`,
+  },
+  'knn-tanimoto': {
+    fit: `fps = ECFP4(trainingSet)
+knn = [mean of 5 smallest (1 - tanimoto(fp, other)) over other != fp, for fp in fps]
+domain = { fps, threshold: mean(knn) + 0.5 * std(knn) }   // Z = 0.5`,
+    check: (compound) => `distance = mean of 5 smallest (1 - tanimoto(ECFP4(${compound}), fp)) over fp in domain.fps
+inDomain = distance <= domain.threshold`,
+  },
+  density: {
+    fit: `bandwidth = n ^ (-1 / (p + 4))           // Scott's rule
+loo = [-log(mean(gaussian(xi, xj, bandwidth) for j != i)) for xi in X]
+domain = { X, bandwidth, threshold: percentile(loo, 95) }`,
+    check: () => `distance = -log(mean(gaussian(x, xj, bandwidth) for xj in domain.X))
+inDomain = distance <= domain.threshold`,
+  },
+};
+
+const indent = (text: string, spaces: number) =>
+  text
+    .split('\n')
+    .map((line) => (line ? ' '.repeat(spaces) + line : line))
+    .join('\n');
+
+// Virtual-screening ensemble members: training call, prediction input and
+// the fixed-mode voting weight.
+const ensembleMemberPseudocode: Record<
+  EnsembleModel,
+  { title: string; model: string; train: string; pred: string; input: string; key: string; report: string; weight: number }
+> = {
+  GraphNN: {
+    title: 'Graph isomorphism network on molecular graphs',
+    model: 'graphModel',
+    train: 'trainGraphNN',
+    pred: 'graphPred',
+    input: 'compound.graph',
+    key: 'graph',
+    report: 'graphNN',
+    weight: 0.4,
+  },
+  CNN: {
+    title: 'Convolutional NN for 2D molecular images',
+    model: 'cnnModel',
+    train: 'trainMolecularCNN',
+    pred: 'cnnPred',
+    input: 'compound.image',
+    key: 'cnn',
+    report: 'cnn',
+    weight: 0.3,
+  },
+  QSAR: {
+    title: 'Traditional QSAR model',
+    model: 'qsarModel',
+    train: 'trainQSARModel',
+    pred: 'qsarPred',
+    input: 'compound.descriptors',
+    key: 'qsar',
+    report: 'qsar',
+    weight: 0.3,
+  },
+};
+
+// Fixed mode blends the members with hand-set weights; stacking learns the
+// blend from out-of-fold predictions and calibrates confidence with
+// inductive conformal prediction.
+function ensemblePseudocode(models: EnsembleModel[], stacking: boolean) {
+  const selected = ensembleModels.filter((m) => models.includes(m));
+  const members = selected.map((m) => ensembleMemberPseudocode[m]);
+  const preds = `[${members.map((m) => m.pred).join(', ')}]`;
+  const weightTotal = members.reduce((sum, m) => sum + m.weight, 0);
+  const vote = members.map((m) => `${m.weight}*${m.pred}`).join(' + ');
+
+  const training = stacking
+    ? `    // Activities scaled to [0, 1]; hold out a calibration set
+    properSet, calibrationSet = randomSplit(trainingData, calibrationFraction)
+
+    // 1. Out-of-fold predictions of the base models (${selected.join(', ')})
+    oof = matrix(len(properSet), ${members.length})
+    for fold in kFold(properSet, stackingFolds):
+        for j, train in enumerate([${members.map((m) => m.train).join(', ')}]):
+            oof[fold.test, j] = train(fold.train).predict(fold.test)
+
+    // 2. Meta-model learns the blend: non-negative least squares
+    metaModel = fitNNLS(oof, properSet.activity)   // weights >= 0, intercept
+${members.map((m) => `    ${m.model} = ${m.train}(properSet)`).join('\n')}
+
+    // 3. Inductive conformal calibration with normalized nonconformity
+    //    alpha = (predicted - observed) / (std(base predictions) + beta)
+    alphas = []
+    for c in calibrationSet:
+        preds = [${members.map((m) => `${m.model}.predict(c)`).join(', ')}]
+        alphas.append((metaModel.predict(preds) - c.activity) / (std(preds) + beta))
+    significance = 1 - confidenceThreshold   // error rate the user accepts`
+    : `    // Train ensemble of ML models
+    models = []
+
+${members
+  .map(
+    (m, i) => `    // ${i + 1}. ${m.title}
+    ${m.model} = ${m.train}(trainingData)
+    models.append(${m.model})`,
+  )
+  .join('\n\n')}`;
+
+  const prediction = stacking
+    ? `// Stacked ensemble prediction
+ensemblePred = metaModel.predict(${preds})
+sigma = std(${preds}) + beta
+
+// Conformal confidence that the activity reaches hitCutoff: the highest
+// level whose lower prediction bound stays above the cut-off
+confidence = count(alphas <= (ensemblePred - hitCutoff) / sigma) / (len(alphas) + 1)
+
+// Prediction interval at the chosen level (infinite if too few calibration compounds)
+q = kthSmallest(abs(alphas), ceil((len(alphas) + 1) * confidenceThreshold))
+interval = [ensemblePred - q * sigma, ensemblePred + q * sigma]`
+    : `// Ensemble prediction with weighted voting
+ensemblePred = ${Math.abs(weightTotal - 1) < 1e-9 ? vote : `(${vote}) / ${Number(weightTotal.toFixed(2))}`}
+
+// Calculate prediction uncertainty
+uncertainty = std(${preds})
+confidence = 1 - uncertainty`;
+
+  return {
+    training,
+    predictions: members.map((m) => `${m.pred} = ${m.model}.predict(${m.input})`).join('\n'),
+    prediction,
+    individual: members.map((m) => `${m.key}: ${m.pred}`).join(',\n'),
+    performance: members.map((m) => `${m.report}: evaluateModel(${m.model})`).join(',\n'),
+  };
+}
+
+// Mini-batch training of the GraphNN member.
+const graphNetworkPseudocode = `function trainGraphNN(trainingData):
+    // Graph isomorphism network (GIN-0); atom features: element, degree,
+    // implicit H count, formal charge, aromaticity, ring membership
+    for epoch in 1..gnnEpochs:
+        for batch in miniBatches(shuffle(trainingData), batchSize):
+            for mol in batch:
+                h = atomFeatures(mol)
+                for layer in 1..gnnLayers:
+                    // h_v <- MLP(h_v + sum of neighbour h_u), width gnnHiddenSize
+                    h[v] = relu(W2 · relu(W1 · (h[v] + sum(h[u] for u in neighbors(v))) + b1) + b2)
+                prediction = w · sum(h[v] for v in atoms) + b   // sum pooling
+            adamStep(gradient of mean squared error over batch)
+    saveJSON(weights)   // screen later without retraining
+    return model`;
+
+// Objectives the generated structure-optimization code scores, each in [0, 1].
+const structureObjectives = ['potency', 'selectivity', 'drug-likeness', 'qed', 'synthetic-accessibility'] as const;
+
+// Objectives as listed in the parameter block: plain names when maximized
+// without bounds in weighted-sum mode, full specs otherwise.
+function objectiveParameters(specs: ObjectiveSpec[], pareto: boolean) {
+  const plain = specs.every((spec) => spec.direction === 'maximize' && spec.min === undefined && spec.max === undefined);
+  return plain && !pareto ? specs.map((spec) => spec.name) : specs;
+}
+
+// NSGA-II main loop, replacing the weighted-sum loop in pareto mode.
+const paretoPseudocode = `function optimizeMolecularStructure(seedMolecule, objectives):
+    // objectives: [{ name, direction, min?, max? }]
+    population = [seedMolecule]
+    for i in range(populationSize - 1):
+        population.append(generateVariant(seedMolecule))
+    evaluate(population, objectives)
+    assignRanks(population)
+    hypervolumes = []
+
+    for generation in range(maxGenerations):
+        // Offspring from binary tournaments on (front rank, crowding distance)
+        offspring = []
+        while len(offspring) < populationSize:
+            parent1 = crowdedTournament(population)
+            parent2 = crowdedTournament(population)
+            if random() < crossoverRate:
+                children = crossover(parent1, parent2)
+            else:
+                children = [parent1, parent2]
+            for child in children:
+                if random() < mutationRate:
+                    child = mutate(child)
+                offspring.append(child)
+        evaluate(offspring, objectives)
+
+        // Elitist survivor selection over parents and offspring
+        fronts = fastNonDominatedSort(population + offspring)
+        population = []
+        for front in fronts:
+            crowdingDistance(front)
+            if len(population) + len(front) <= populationSize:
+                population.extend(front)
+            else:
+                front.sortByDescending(crowding)
+                population.extend(front[:populationSize - len(population)])
+                break
+        assignRanks(population)
+
+        feasibleFront = [m for m in fronts[0] if m.violation == 0]
+        hypervolumes.append(hypervolume(feasibleFront, referencePoint))
+
+        // Convergence check
+        if generation > 50 and hypervolumes[-1] - hypervolumes[-51] < 0.001:
+            break
+
+    return {
+        paretoFront: feasibleFront,
+        hypervolumes: hypervolumes,
+        generations: generation
+    }
+
+function evaluate(molecules, objectives):
+    for molecule in molecules:
+        molecule.values = []
+        molecule.violation = 0
+        for objective in objectives:
+            score = scoreObjective(molecule, objective.name)   // in [0, 1]
+            // Oriented so every objective is maximized
+            molecule.values.append(score if objective.direction == 'maximize' else 1 - score)
+            molecule.violation += max(0, objective.min - score, score - objective.max)
+
+function dominates(a, b):
+    // Constrained domination: feasible beats infeasible, then smaller violation
+    if a.violation > 0 or b.violation > 0:
+        return a.violation < b.violation
+    return all(a.values >= b.values) and any(a.values > b.values)
+
+function fastNonDominatedSort(molecules):
+    fronts = [[]]
+    for p in molecules:
+        p.dominates = [q for q in molecules if dominates(p, q)]
+        p.dominatedBy = count(q for q in molecules if dominates(q, p))
+        if p.dominatedBy == 0:
+            fronts[0].append(p)
+    while fronts[-1]:
+        next = []
+        for p in fronts[-1]:
+            for q in p.dominates:
+                q.dominatedBy -= 1
+                if q.dominatedBy == 0:
+                    next.append(q)
+        fronts.append(next)
+    return fronts[:-1]
+
+function crowdingDistance(front):
+    for m in front:
+        m.crowding = 0
+    for j in range(len(objectives)):
+        front.sortBy(m.values[j])
+        front[0].crowding = front[-1].crowding = Infinity
+        span = front[-1].values[j] - front[0].values[j]
+        for i in range(1, len(front) - 1):
+            front[i].crowding += (front[i+1].values[j] - front[i-1].values[j]) / span
+
+function hypervolume(front, referencePoint):
+    // Volume dominated by the front above the reference point, sliced
+    // along the last objective (HSO)
+    if dimensions == 1:
+        return max(m.values[0] for m in front) - referencePoint[0]
+    volume = 0
+    front.sortByDescending(values[-1])
+    for i in range(len(front)):
+        height = front[i].values[-1] - (front[i+1].values[-1] if i+1 < len(front) else referencePoint[-1])
+        volume += height * hypervolume(nonDominated(project(front[:i+1])), referencePoint[:-1])
+    return volume`;
+
+// threshold, maxCompounds and iterations are shared by most generators and
+// written straight into the generated code, so they are checked up front
+// against the ranges in the API docs. null counts as unset, as an emptied
+// number field in the UI sends it.
+// Runs a resolve* call whose options are named differently from the request
+// fields they come from, rewording an options error that names an option so
+// that it names the request field instead (minCount -> minScaffoldCount).
+function withRequestFields<T>(fields: Record<string, string>, resolve: () => T): T {
+  try {
+    return resolve();
+  } catch (error) {
+    if (error instanceof Error) {
+      const option = Object.keys(fields).find((name) => error.message.startsWith(`${name} `));
+      if (option) error.message = fields[option] + error.message.slice(option.length);
+    }
+    throw error;
+  }
+}
+
+function sharedParameterError(params: GeneratorParameters): string | null {
+  const { threshold, maxCompounds, iterations } = params;
+  if (threshold != null && (typeof threshold !== 'number' || !(threshold >= 0 && threshold <= 1))) {
+    return 'threshold must be a number between 0 and 1';
+  }
+  const integers = [
+    ['maxCompounds', maxCompounds, 1, 10000],
+    ['iterations', iterations, 100, 100000],
+  ] as const;
+  for (const [name, value, min, max] of integers) {
+    if (value != null && (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max)) {
+      return `${name} must be an integer between ${min} and ${max}`;
+    }
+  }
+  return null;
+}
+
+const algorithmGenerators: Record<AlgorithmType, (params: GeneratorParameters) => GeneratedAlgorithm> = {
+  'molecular-similarity': (params) => {
+    const method = params.method || 'tanimoto';
+    const shape = isShapeMethod(method) ? resolveShapeParameters(params) : null;
+    const fingerprint = fingerprintParameters(params);
+    return {
+      name: 'Molecular Similarity Search Algorithm',
+      type: 'molecular-similarity',
+      description: 'Fast molecular similarity search using fingerprint-based comparison methods to identify structurally similar compounds in large chemical databases.',
+      parameters: {
+        similarityThreshold: params.threshold ?? 0.7,
+        method,
+        maxResults: params.maxCompounds || 100,
+        ...fingerprint,
+        ...(params.method === 'tversky'
+          ? { tverskyAlpha: params.tverskyAlpha ?? 0.9, tverskyBeta: params.tverskyBeta ?? 0.1 }
+          : {}),
+        ...(shape ?? {}),
+      },
+      pseudocode: shape ? shapePseudocode(method, shape, fingerprint.fingerprintType) : `function molecularSimilaritySearch(queryMolecule, database, threshold):
+    // Generate ${params.useCounts ? 'count' : 'bit'} fingerprint for query molecule
+    queryFingerprint = generateFingerprint(queryMolecule, ${params.fingerprintType || 'ECFP4'})
 
     results = []
 
@@ -54,6 +459,20 @@ const algorithmGenerators: Record<AlgorithmType, (params: any) => any> = {
     results.sort(key=lambda x: x.similarity, reverse=True)
     return results[0:maxResults]
 
+function generateFingerprint(molecule, type):
+    if type in [ECFP, FCFP]:
+        // Morgan environments; FCFP hashes donor/acceptor/aromatic/halogen/basic/acidic roles
+        features = circularEnvironments(molecule, radius)
+    elif type == MACCS:
+        return maccsKeys(molecule)    // 166 fixed SMARTS keys
+    elif type == atom-pair:
+        features = [(atomCode(a), atomCode(b), distance(a, b)) for a, b in atomPairs(molecule)]
+    elif type == topological-torsion:
+        features = [atomCodes(path) for path in linearPaths(molecule, 4 atoms)]
+    elif type == path:
+        features = [path for path in linearPaths(molecule, 1..maxPathLength bonds)]
+    return fold(features, bitLength, useCounts)
+
 function calculateSimilarity(fp1, fp2):
     if method == "tanimoto":
         intersection = bitwise_and(fp1, fp2).count()
@@ -63,30 +482,46 @@ function calculateSimilarity(fp1, fp2):
         intersection = bitwise_and(fp1, fp2).count()
         return 2 * intersection / (fp1.count() + fp2.count())
     elif method == "cosine":
-        dotProduct = bitwise_and(fp1, fp2).count()
-        return dotProduct / sqrt(fp1.count() * fp2.count())`,
-    complexity: 'O(n) where n is database size',
-    useCases: [
-      'Lead compound identification in drug discovery',
-      'Virtual screening of chemical libraries',
-      'Finding biosimilar compounds',
-      'Chemical space exploration',
-      'Scaffold hopping for patent avoidance',
-    ],
-  }),
-
-  'qsar-model': (params) => ({
-    name: 'QSAR Model Generation Algorithm',
-    type: 'qsar-model',
-    description: 'Quantitative Structure-Activity Relationship (QSAR) modeling using machine learning to predict biological activity from molecular descriptors.',
-    parameters: {
-      modelType: 'Random Forest',
-      descriptors: ['MW', 'LogP', 'TPSA', 'HBD', 'HBA', 'RotatableBonds'],
-      validationMethod: 'k-fold cross-validation',
-      kFolds: 5,
-      maxIterations: params.iterations || 1000,
-    },
-    pseudocode: `function generateQSARModel(trainingSet, targetProperty):
+        dotProduct = dot(fp1, fp2)
+        return dotProduct / sqrt(dot(fp1, fp1) * dot(fp2, fp2))
+    elif method == "euclidean":
+        // Euclidean distance scaled by its largest value for these vectors
+        distanceSquared = dot(fp1 - fp2, fp1 - fp2)
+        return 1 - sqrt(distanceSquared / (dot(fp1, fp1) + dot(fp2, fp2)))
+    elif method == "tversky":
+        common = bitwise_and(fp1, fp2).count()
+        return common / (alpha * (fp1.count() - common) + beta * (fp2.count() - common) + common)
+    elif method == "soergel":
+        // Tanimoto generalised to feature counts
+        return sum(min(fp1, fp2)) / sum(max(fp1, fp2))
+    elif method == "russell-rao":
+        return bitwise_and(fp1, fp2).count() / length(fp1)`,
+      complexity: 'O(n) where n is database size',
+      useCases: [
+        'Lead compound identification in drug discovery',
+        'Virtual screening of chemical libraries',
+        'Finding biosimilar compounds',
+        'Chemical space exploration',
+        'Scaffold hopping for patent avoidance',
+      ],
+    };
+  },
+
+  'qsar-model': (params) => {
+    const applicabilityDomain = resolveDomainMethod(params.applicabilityDomain);
+    return {
+      name: 'QSAR Model Generation Algorithm',
+      type: 'qsar-model',
+      description: 'Quantitative Structure-Activity Relationship (QSAR) modeling using machine learning to predict biological activity from molecular descriptors.',
+      parameters: {
+        modelType: 'Random Forest',
+        descriptors: ['MW', 'LogP', 'TPSA', 'HBD', 'HBA', 'RotatableBonds'],
+        validationMethod: 'k-fold cross-validation',
+        kFolds: 5,
+        maxIterations: params.iterations || 1000,
+        applicabilityDomain,
+      },
+      pseudocode: `function generateQSARModel(trainingSet, targetProperty):
     // Calculate molecular descriptors
     descriptorMatrix = []
     activityValues = []
@@ -119,11 +554,16 @@ function calculateSimilarity(fp1, fp2):
     // Final model training on full dataset
     model.fit(normalizedData, activityValues)
 
+    // Applicability domain: ${applicabilityDomain}
+    X = normalizedData
+${indent(domainPseudocode[applicabilityDomain].fit, 4)}
+
     return {
         model: model,
         cvScore: mean(cvScores),
         featureImportance: model.feature_importances_,
-        descriptors: selectedFeatures
+        descriptors: selectedFeatures,
+        domain: domain
     }
 
 function predictActivity(model, newCompound):
@@ -131,16 +571,21 @@ function predictActivity(model, newCompound):
     normalizedDesc = normalize(descriptors)
     prediction = model.predict(normalizedDesc)
     confidence = model.estimateConfidence(normalizedDesc)
-    return prediction, confidence`,
-    complexity: 'O(n·m·log(m)) where n=samples, m=features',
-    useCases: [
-      'Predicting drug bioactivity and toxicity',
-      'Optimizing lead compounds for potency',
-      'ADMET property prediction',
-      'Prioritizing compounds for synthesis',
-      'Understanding structure-activity relationships',
-    ],
-  }),
+
+    // Flag compounds outside the training chemical space (${applicabilityDomain})
+    x = normalizedDesc
+${indent(domainPseudocode[applicabilityDomain].check('newCompound'), 4)}
+    return prediction, confidence, inDomain, distance`,
+      complexity: 'O(n·m·log(m)) where n=samples, m=features',
+      useCases: [
+        'Predicting drug bioactivity and toxicity',
+        'Optimizing lead compounds for potency',
+        'ADMET property prediction',
+        'Prioritizing compounds for synthesis',
+        'Understanding structure-activity relationships',
+      ],
+    };
+  },
 
   'compound-screening': (params) => ({
     name: 'High-Throughput Virtual Screening Algorithm',
@@ -149,7 +594,7 @@ function predictActivity(model, newCompound):
     parameters: {
       librarySize: params.maxCompounds || 1000000,
       filterStages: ['rule-of-five', 'similarity', 'docking'],
-      cutoffThreshold: params.threshold || 0.7,
+      cutoffThreshold: params.threshold ?? 0.7,
       maxHits: params.maxCompounds || 100,
     },
     pseudocode: `function virtualScreeningPipeline(compoundLibrary, targetProtein, queryLigand):
@@ -175,11 +620,13 @@ function predictActivity(model, newCompound):
 
     console.log("Stage 2: ", similarCompounds.length, "similar compounds")
 
-    // Stage 3: Structure-based docking
+    // Stage 3: Structure-based docking into the best pocket (POST /api/pockets)
+    site = detectPockets(targetProtein)[0]
     dockingResults = []
     for entry in similarCompounds.sortBy('similarity').top(1000):
-        dockingScore = performDocking(entry.compound, targetProtein)
-        bindingEnergy = calculateBindingEnergy(entry.compound, targetProtein)
+        // POST /api/docking: Vina/smina when configured, else an empirical score
+        bindingEnergy = performDocking(entry.compound, targetProtein, site)
+        dockingScore = clamp(-bindingEnergy / 12, 0, 1)
 
         dockingResults.append({
             compound: entry.compound,
@@ -210,18 +657,14 @@ function passesRuleOfFive(compound):
     ],
   }),
 
-  'structure-optimization': (params) => ({
-    name: 'Molecular Structure Optimization Algorithm',
-    type: 'structure-optimization',
-    description: 'Iterative optimization of molecular structures using genetic algorithms and energy minimization to improve drug-like properties.',
-    parameters: {
-      populationSize: 100,
-      generations: params.iterations || 1000,
-      mutationRate: 0.1,
-      crossoverRate: 0.7,
-      objectives: ['potency', 'selectivity', 'drug-likeness'],
-    },
-    pseudocode: `function optimizeMolecularStructure(seedMolecule, objectives):
+  'structure-optimization': (params) => {
+    const optimizationMode = resolveOptimizationMode(params.optimizationMode);
+    const pareto = optimizationMode === 'pareto';
+    const objectives = resolveObjectiveSpecs(
+      params.objectives ?? ['potency', 'selectivity', 'drug-likeness'],
+      structureObjectives,
+    );
+    const weightedSumPseudocode = `function optimizeMolecularStructure(seedMolecule, objectives):
     // Initialize population with variations of seed
     population = []
     for i in range(populationSize):
@@ -281,76 +724,100 @@ function evaluateFitness(molecule, objectives):
 
     // Multi-objective optimization with weights
     fitness = 0.4*potency + 0.3*selectivity + 0.2*drugLikeness + 0.1*synthAccessibility
-    return fitness`,
-    complexity: 'O(g·p·e) where g=generations, p=population, e=evaluation time',
-    useCases: [
-      'Lead optimization in medicinal chemistry',
-      'Improving ADMET properties',
-      'Designing selective inhibitors',
-      'Scaffold morphing and bioisostere replacement',
-      'De novo drug design',
-    ],
-  }),
+    return fitness`;
+    return {
+      name: 'Molecular Structure Optimization Algorithm',
+      type: 'structure-optimization',
+      description: pareto
+        ? 'Multi-objective optimization of molecular structures with NSGA-II, returning the Pareto front of trade-offs between drug-like properties instead of a single weighted score.'
+        : 'Iterative optimization of molecular structures using genetic algorithms and energy minimization to improve drug-like properties.',
+      parameters: {
+        populationSize: 100,
+        generations: params.iterations || 1000,
+        mutationRate: 0.1,
+        crossoverRate: 0.7,
+        optimizationMode,
+        objectives: objectiveParameters(objectives, pareto),
+        // Hypervolume reference in oriented objective space, where every
+        // objective is maximized within [0, 1]
+        ...(pareto ? { referencePoint: objectives.map(() => 0) } : {}),
+      },
+      pseudocode: pareto ? paretoPseudocode : weightedSumPseudocode,
+      complexity: pareto
+        ? 'O(g·(m·p² + p·e)) per run, where g=generations, m=objectives, p=population, e=evaluation time; hypervolume adds O(p^(m-1))'
+        : 'O(g·p·e) where g=generations, p=population, e=evaluation time',
+      useCases: [
+        'Lead optimization in medicinal chemistry',
+        'Improving ADMET properties',
+        'Designing selective inhibitors',
+        'Scaffold morphing and bioisostere replacement',
+        'De novo drug design',
+        ...(pareto ? ['Exploring potency/selectivity/developability trade-offs'] : []),
+      ],
+    };
+  },
+
+  'pharmacophore': (params) => {
+    const { featureTypes, toleranceRadius, minFeatures, maxFeatures, conformerGeneration } =
+      resolvePharmacophoreParameters(params);
+    const conformers = conformerGeneration ? 'compound.conformers' : 'compound.conformers[0:1]';
+    return {
+      name: 'Pharmacophore Mapping Algorithm',
+      type: 'pharmacophore',
+      description: 'Identification and mapping of essential molecular features required for biological activity using 3D pharmacophore models.',
+      parameters: {
+        featureTypes,
+        toleranceRadius,
+        minFeatures,
+        maxFeatures,
+        conformerGeneration,
+      },
+      pseudocode: `function generatePharmacophoreModel(activeCompounds, inactiveCompounds):
+    // Actives are aligned 3D structures; ${conformerGeneration ? 'every supplied conformer is used' : 'only the first conformer of each compound is used'}
+    featureTypes = [${featureTypes.map((type) => `"${type}"`).join(', ')}]
+
+    // Cluster features of the same type (and charge sign) across actives
+    clusters = []
+    for i, compound in enumerate(activeCompounds):
+        for conformer in ${conformers}:
+            for feature in perceiveFeatures(conformer, featureTypes):
+                cluster = nearest cluster of feature.type within ${toleranceRadius} Å of its centroid
+                if cluster is null:
+                    cluster = newCluster(feature.type)
+                    clusters.append(cluster)
+                cluster.add(feature.center, source=i)
+
+    // Common features occur in at least half of the actives
+    common = [c for c in clusters if c.sources.size / len(activeCompounds) >= 0.5]
+    if len(common) < ${minFeatures}:
+        raise "too few common features"
 
-  'pharmacophore': (params) => ({
-    name: 'Pharmacophore Mapping Algorithm',
-    type: 'pharmacophore',
-    description: 'Identification and mapping of essential molecular features required for biological activity using 3D pharmacophore models.',
-    parameters: {
-      featureTypes: ['HBD', 'HBA', 'Aromatic', 'Hydrophobic', 'Charged'],
-      toleranceRadius: 1.0,
-      minFeatures: 3,
-      maxFeatures: 7,
-      conformerGeneration: true,
-    },
-    pseudocode: `function generatePharmacophoreModel(activeCompounds, inactiveCompounds):
-    // Generate conformers for all active compounds
-    conformerSets = []
-    for compound in activeCompounds:
-        conformers = generateConformers(compound, maxConformers=100)
-        conformerSets.append(conformers)
-
-    // Identify common pharmacophoric features
-    commonFeatures = []
-
-    // For each pair of active compounds
-    for i in range(len(conformerSets)):
-        for j in range(i+1, len(conformerSets)):
-            // Find overlapping features
-            matches = findFeatureMatches(
-                conformerSets[i],
-                conformerSets[j],
-                toleranceRadius
-            )
-            commonFeatures.extend(matches)
-
-    // Cluster features and identify most frequent
-    featureClusters = clusterFeatures(commonFeatures, toleranceRadius)
-    rankedFeatures = rankByFrequency(featureClusters)
-
-    // Build pharmacophore model
     pharmacophore = {
         features: [],
         excludedVolumes: []
     }
 
-    for cluster in rankedFeatures.top(maxFeatures):
+    for cluster in common.sortBy('frequency', desc=True).top(${maxFeatures}):
         feature = {
             type: cluster.featureType,
             center: cluster.centroid,
-            radius: toleranceRadius,
+            radius: ${toleranceRadius},
             weight: cluster.frequency
         }
         pharmacophore.features.append(feature)
 
-    // Add excluded volumes from inactive compounds
+    // Inactives that still fit the features must clash somewhere: their
+    // atoms beyond ${2 * toleranceRadius} Å of every active atom become excluded volumes
     for compound in inactiveCompounds:
-        clashes = detectClashes(compound, pharmacophore.features)
-        pharmacophore.excludedVolumes.extend(clashes)
+        fit = bestFit(compound, pharmacophore)
+        if fit is not null:
+            for atom in fit.conformer.heavyAtoms:
+                if min distance(atom, activeAtoms) > ${2 * toleranceRadius} and not covered(atom):
+                    pharmacophore.excludedVolumes.append({ center: atom, radius: ${toleranceRadius} })
 
     // Validate model
-    sensitivity = testSensitivity(pharmacophore, activeCompounds)
-    specificity = testSpecificity(pharmacophore, inactiveCompounds)
+    sensitivity = fraction of activeCompounds with bestFit(compound, pharmacophore) != null
+    specificity = fraction of inactiveCompounds with bestFit(compound, pharmacophore) == null
 
     return {
         model: pharmacophore,
@@ -359,58 +826,77 @@ function evaluateFitness(molecule, objectives):
         features: pharmacophore.features
     }
 
+function perceiveFeatures(conformer, featureTypes):
+    // HBD / HBA: donor and acceptor heteroatoms by SMARTS
+    // Aromatic: centroid of each aromatic ring
+    // Hydrophobic: centroid of each connected group of C, S and halogen atoms without N/O neighbours
+    // Charged: centroid of charged or ionizable groups (amines, amidines, acids, tetrazoles), with sign
+
+function calculatePharmacophoreFit(conformer, pharmacophore):
+    // Closest same-type pairs inside each feature sphere, each feature used once
+    matches = greedyPairs(perceiveFeatures(conformer), pharmacophore.features)
+    if len(matches) < min(${minFeatures}, len(pharmacophore.features)):
+        return null
+    if any heavy atom of conformer lies inside an excluded volume:
+        return null
+    fitScore = sum(f.weight * (1 - (d / f.radius)^2) for f, d in matches) / sum(f.weight for f in pharmacophore.features)
+    return { fitScore, matches }
+
 function screenWithPharmacophore(pharmacophore, compoundDatabase):
     hits = []
     for compound in compoundDatabase:
-        conformers = generateConformers(compound, maxConformers=50)
-
-        for conformer in conformers:
-            if matchesPharmacophore(conformer, pharmacophore):
-                fitScore = calculatePharmacophorefit(conformer, pharmacophore)
-                hits.append({
-                    compound: compound,
-                    conformer: conformer,
-                    fitScore: fitScore
-                })
-                break  // Found matching conformer
+        best = null
+        for conformer in ${conformers}:
+            fit = calculatePharmacophoreFit(conformer, pharmacophore)
+            if fit is not null and (best is null or fit.fitScore > best.fitScore):
+                best = { compound, conformer, fitScore: fit.fitScore, matches: fit.matches }
+        if best is not null:
+            hits.append(best)
 
     return hits.sortBy('fitScore', desc=True)`,
-    complexity: 'O(n²·c²·f) where n=compounds, c=conformers, f=features',
-    useCases: [
-      'Identifying binding mode requirements',
-      'Virtual screening with limited structural data',
-      'Lead hopping to novel scaffolds',
-      'Understanding SAR in congeneric series',
-      'Multi-target pharmacophore design',
-    ],
-  }),
-
-  'virtual-screening': (params) => ({
-    name: 'AI-Powered Virtual Screening Algorithm',
-    type: 'virtual-screening',
-    description: 'Advanced virtual screening using deep learning and ensemble methods to predict compound activity and prioritize candidates.',
-    parameters: {
-      modelEnsemble: ['CNN', 'GraphNN', 'QSAR'],
-      confidenceThreshold: params.threshold || 0.75,
-      batchSize: 1000,
-      useDocking: true,
-      useMLModels: true,
-    },
-    pseudocode: `function aiVirtualScreening(compoundLibrary, targetProtein, trainingData):
-    // Train ensemble of ML models
-    models = []
-
-    // 1. Graph Neural Network for molecular graphs
-    graphModel = trainGraphNN(trainingData)
-    models.append(graphModel)
-
-    // 2. Convolutional NN for 2D molecular images
-    cnnModel = trainMolecularCNN(trainingData)
-    models.append(cnnModel)
-
-    // 3. Traditional QSAR model
-    qsarModel = trainQSARModel(trainingData)
-    models.append(qsarModel)
+      complexity: 'O(n·c·f·k) where n=compounds, c=conformers, f=model features, k=features per conformer',
+      useCases: [
+        'Identifying binding mode requirements',
+        'Virtual screening with limited structural data',
+        'Lead hopping to novel scaffolds',
+        'Understanding SAR in congeneric series',
+        'Multi-target pharmacophore design',
+      ],
+    };
+  },
+
+  'virtual-screening': (params) => {
+    const applicabilityDomain = resolveDomainMethod(params.applicabilityDomain);
+    const ensembleMode = resolveEnsembleMode(params.ensembleMode);
+    const stacking = ensembleMode === 'stacking';
+    const confidenceThreshold = stacking ? resolveConfidenceLevel(params.threshold ?? 0.75) : params.threshold ?? 0.75;
+    const modelEnsemble = resolveModelEnsemble(params.modelEnsemble);
+    const useGraphNN = modelEnsemble.includes('GraphNN');
+    const ensemble = ensemblePseudocode(modelEnsemble, stacking);
+    return {
+      name: 'AI-Powered Virtual Screening Algorithm',
+      type: 'virtual-screening',
+      description: 'Advanced virtual screening using deep learning and ensemble methods to predict compound activity and prioritize candidates.',
+      parameters: {
+        modelEnsemble,
+        confidenceThreshold,
+        batchSize: resolveBatchSize(params.batchSize),
+        useDocking: true,
+        useMLModels: true,
+        maxHits: params.maxCompounds || 100,
+        applicabilityDomain,
+        ensembleMode,
+        ...(stacking
+          ? { stackingFolds: STACKING_FOLDS, calibrationFraction: CALIBRATION_FRACTION, hitCutoff: HIT_CUTOFF }
+          : {}),
+        ...(useGraphNN ? { gnnLayers: GNN_LAYERS, gnnHiddenSize: GNN_HIDDEN_SIZE, gnnEpochs: GNN_EPOCHS } : {}),
+      },
+      pseudocode: `function aiVirtualScreening(compoundLibrary, targetProtein, trainingData):
+${ensemble.training}
+
+    // Applicability domain of the training data: ${applicabilityDomain}
+    X = normalize(calculateDescriptors(trainingData))
+${indent(domainPseudocode[applicabilityDomain].fit, 4)}
 
     // Screen library in batches
     predictions = []
@@ -420,26 +906,24 @@ function screenWithPharmacophore(pharmacophore, compoundDatabase):
 
         for compound in batch:
             // Get predictions from all models
-            graphPred = graphModel.predict(compound.graph)
-            cnnPred = cnnModel.predict(compound.image)
-            qsarPred = qsarModel.predict(compound.descriptors)
+${indent(ensemble.predictions, 12)}
 
-            // Ensemble prediction with weighted voting
-            ensemblePred = 0.4*graphPred + 0.3*cnnPred + 0.3*qsarPred
+${indent(ensemble.prediction, 12)}
 
-            // Calculate prediction uncertainty
-            uncertainty = std([graphPred, cnnPred, qsarPred])
-            confidence = 1 - uncertainty
+            // Applicability domain check
+            x = normalize(compound.descriptors)
+${indent(domainPseudocode[applicabilityDomain].check('compound'), 12)}
 
             if confidence >= confidenceThreshold:
                 batchPredictions.append({
                     compound: compound,
                     predictedActivity: ensemblePred,
-                    confidence: confidence,
+                    confidence: confidence,${stacking ? `
+                    predictionInterval: interval,` : ''}
+                    inDomain: inDomain,
+                    domainDistance: distance,
                     individualPredictions: {
-                        graph: graphPred,
-                        cnn: cnnPred,
-                        qsar: qsarPred
+${indent(ensemble.individual, 24)}
                     }
                 })
 
@@ -448,9 +932,10 @@ function screenWithPharmacophore(pharmacophore, compoundDatabase):
     // Optional: Docking refinement for top candidates
     if useDocking:
         topCandidates = predictions.sortBy('predictedActivity').top(1000)
+        site = detectPockets(targetProtein)[0]
 
         for candidate in topCandidates:
-            dockingScore = performDocking(candidate.compound, targetProtein)
+            dockingScore = performDocking(candidate.compound, targetProtein, site)
             candidate.dockingScore = dockingScore
             candidate.finalScore = 0.7*predictedActivity + 0.3*dockingScore
 
@@ -460,31 +945,479 @@ function screenWithPharmacophore(pharmacophore, compoundDatabase):
     return {
         hits: finalHits.top(${params.maxCompounds || 100}),
         modelPerformance: {
-            graphNN: evaluateModel(graphModel),
-            cnn: evaluateModel(cnnModel),
-            qsar: evaluateModel(qsarModel)
+${indent(ensemble.performance, 12)}
         },
         statistics: {
             totalScreened: len(compoundLibrary),
             hitsFound: len(finalHits),
-            hitRate: len(finalHits) / len(compoundLibrary)
+            hitRate: len(finalHits) / len(compoundLibrary)${stacking ? `,
+            ensembleWeights: metaModel.weights,
+            expectedErrorRate: significance` : ''}
         }
-    }`,
-    complexity: 'O(n·m + k·d) where n=library, m=models, k=hits, d=docking',
-    useCases: [
-      'Large-scale drug discovery campaigns',
-      'Identifying novel chemical matter',
-      'Predicting off-target effects',
-      'Polypharmacology screening',
-      'COVID-19 drug repurposing initiatives',
-    ],
-  }),
+    }${useGraphNN ? `
+
+${graphNetworkPseudocode}` : ''}`,
+      complexity: stacking
+        ? 'O(f·t + n·m + k·d) where f=stacking folds, t=training, n=library, m=models, k=hits, d=docking'
+        : 'O(n·m + k·d) where n=library, m=models, k=hits, d=docking',
+      useCases: [
+        'Large-scale drug discovery campaigns',
+        'Identifying novel chemical matter',
+        'Predicting off-target effects',
+        'Polypharmacology screening',
+        'COVID-19 drug repurposing initiatives',
+      ],
+    };
+  },
+
+  'substructure-search': (params) => {
+    const smartsQuery = params.smartsQuery || 'c1ccccc1C(=O)[NX3]';
+    // Rejects malformed patterns before any code is generated.
+    parseSmarts(smartsQuery);
+    return {
+      name: 'SMARTS Substructure Search Algorithm',
+      type: 'substructure-search',
+      description: 'Subgraph-isomorphism search that finds every compound containing a SMARTS query, with atom mappings for each embedding. Supports recursive SMARTS, ring membership and size, aromaticity, charge and hydrogen-count primitives.',
+      parameters: {
+        smartsQuery,
+        maxResults: params.maxCompounds || 100,
+        maxMatchesPerCompound: 10,
+        uniqueMatches: true,
+      },
+      pseudocode: `function substructureSearch(smartsQuery, database):
+    query = parseSmarts("${smartsQuery}")
+
+    hits = []
+    for compound in database:
+        mappings = vf2Match(query, compound.graph, limit=maxMatchesPerCompound)
+        if mappings is not empty:
+            hits.append({
+                compound: compound,
+                mappings: mappings  // molecule atom for each query atom
+            })
+
+    return hits[0:${params.maxCompounds || 100}]
+
+function vf2Match(query, molecule, limit):
+    // Order query atoms so each one after the first bonds to an earlier one
+    order = breadthFirstOrder(query)
+    matches = []
+
+    function extend(mapping, depth):
+        if depth == len(order):
+            matches.append(copy(mapping))
+            return len(matches) >= limit
+        q = order[depth]
+        candidates = depth == 0 ? molecule.atoms : neighbours(mapping[parent(q)])
+        for atom in candidates:
+            if feasible(q, atom, mapping):
+                mapping[q] = atom
+                if extend(mapping, depth + 1):
+                    return true
+                unmap(q)
+        return false
+
+    extend({}, 0)
+    return uniqueMatches ? dedupeByAtomSet(matches) : matches
+
+function feasible(q, atom, mapping):
+    // Atom primitives: element, aromaticity, charge, H count, ring
+    // membership/size and recursive $(...) environments
+    if not atomExpressionMatches(query.atoms[q], atom):
+        return false
+
+    // Bonds to already mapped neighbours must exist and match
+    for neighbour in query.neighbours(q) where neighbour in mapping:
+        bond = molecule.bond(atom, mapping[neighbour])
+        if bond is null or not bondExpressionMatches(query.bond(q, neighbour), bond):
+            return false
+
+    // Look-ahead: enough unmapped neighbours left for the query's
+    return count(unmapped query.neighbours(q)) <= count(free molecule.neighbours(atom))`,
+      complexity: 'O(n·a^q) worst case where n=library, a=atoms per compound, q=query atoms; near-linear in practice',
+      useCases: [
+        'Retrieving compounds that contain a scaffold or warhead',
+        'Structural alert and PAINS screening',
+        'Building focused libraries around a chemotype',
+        'Checking building blocks for reactive handles',
+        'Mapping query atoms for R-group and SAR analysis',
+      ],
+    };
+  },
+
+  'clustering-diversity': (params) => {
+    const { clusteringMethod, distanceCutoff, linkage, pickingMethod, maxPicks } = resolveClusteringParameters({
+      clusteringMethod: params.clusteringMethod,
+      distanceCutoff: params.distanceCutoff,
+      linkage: params.linkage,
+      pickingMethod: params.pickingMethod,
+      maxPicks: params.maxCompounds || 100,
+    });
+    const hierarchical = clusteringMethod === 'hierarchical';
+    const linkageUpdate = {
+      single: 'min(d[k][a], d[k][b])',
+      complete: 'max(d[k][a], d[k][b])',
+      average: '(size[a] * d[k][a] + size[b] * d[k][b]) / (size[a] + size[b])',
+    }[linkage];
+    return {
+      name: 'Clustering and Diversity Selection Algorithm',
+      type: 'clustering-diversity',
+      description: 'Groups a compound library by fingerprint Tanimoto distance with Taylor-Butina or agglomerative hierarchical clustering, and picks a maximally diverse subset with MaxMin or sphere exclusion.',
+      parameters: {
+        ...fingerprintParameters(params),
+        clusteringMethod,
+        distanceCutoff,
+        ...(hierarchical ? { linkage } : {}),
+        pickingMethod,
+        maxPicks,
+      },
+      pseudocode: `function clusterAndPick(library):
+    fingerprints = [generateFingerprint(compound, ${params.fingerprintType || 'ECFP4'}) for compound in library]
+    // Tanimoto distance, via an inverted index of on-bits
+    d[i][j] = 1 - tanimoto(fingerprints[i], fingerprints[j]) for all pairs
+
+    clusters = ${hierarchical ? 'hierarchicalClusters' : 'butinaClusters'}(d, cutoff=${distanceCutoff})
+    clusters.sortBy('size', desc=True)
+    picks = ${pickingMethod === 'maxmin' ? 'maxMinPick(d, count' : `sphereExclusionPick(d, cutoff=${distanceCutoff}, count`}=${maxPicks})
+
+    return {
+        clusters: [{ centroid, members } for cluster in clusters],
+        assignments: clusterOf(compound) for compound in library,
+        singletons: [cluster.centroid for cluster in clusters if size(cluster) == 1],
+        picks: picks
+    }
+${hierarchical ? `
+function hierarchicalClusters(d, cutoff):
+    // Nearest-neighbour chain with Lance-Williams updates, O(n²)
+    merges = []
+    chain = []
+    while len(merges) < n - 1:
+        if chain is empty:
+            chain.append(any active cluster)
+        a = chain[-1]
+        b = nearest active cluster to a (ties prefer chain[-2])
+        if len(chain) > 1 and b == chain[-2]:
+            chain.pop(); chain.pop()
+            merges.append((a, b, d[a][b]))
+            for k in active clusters:
+                d[k][a] = ${linkageUpdate}    // ${linkage} linkage
+            deactivate(b); size[a] += size[b]
+        else:
+            chain.append(b)
+
+    // Cut the dendrogram: keep every merge at or below the cutoff
+    clusters = unionFind(merges where distance <= cutoff)
+    for cluster in clusters:
+        cluster.centroid = member with the smallest summed distance to the others
+    return clusters` : `
+function butinaClusters(d, cutoff):
+    // Taylor-Butina: the compound with the most neighbours becomes a centre
+    neighbours[i] = [j for j != i if d[i][j] <= cutoff]
+    order = compounds sorted by len(neighbours) desc
+    assigned = {}
+    clusters = []
+    for centre in order:
+        if centre in assigned:
+            continue
+        members = [centre] + [j for j in neighbours[centre] if j not in assigned]
+        assigned.addAll(members)
+        clusters.append({ centroid: centre, members: members })
+    return clusters`}
+${pickingMethod === 'maxmin' ? `
+function maxMinPick(d, count):
+    // Start from the compound furthest from the rest of the library
+    picks = [argmax_i sum_j d[i][j]]
+    nearest = [infinity] * n
+    while len(picks) < min(count, n):
+        for i not in picks:
+            nearest[i] = min(nearest[i], d[i][picks[-1]])
+        picks.append(argmax_i nearest[i] over unpicked i)
+    return picks` : `
+function sphereExclusionPick(d, cutoff, count):
+    // Leader picking in library order
+    picks = []
+    for i in range(n):
+        if len(picks) == count:
+            break
+        if all(d[i][p] > cutoff for p in picks):
+            picks.append(i)
+    return picks`}`,
+      complexity: hierarchical
+        ? 'O(n²) time and memory for the distance matrix and nearest-neighbour chain, plus O(n·p) for picking, where n=library, p=picks'
+        : 'O(n²) time and memory for the distance matrix, plus O(n·p) for picking, where n=library, p=picks',
+      useCases: [
+        'Selecting diverse compounds for screening plates',
+        'Reducing vendor libraries to representative subsets',
+        'Grouping HTS hits into chemical series',
+        'Picking cluster representatives for follow-up assays',
+        'Assessing chemical-space coverage of a library design',
+      ],
+    };
+  },
+  'scaffold-analysis': (params) => {
+    const { minCount, maxScaffolds } = withRequestFields({ minCount: 'minScaffoldCount' }, () =>
+      resolveScaffoldParameters({
+        minCount: params.minScaffoldCount ?? undefined,
+        maxScaffolds: params.maxCompounds || 100,
+      }),
+    );
+    return {
+      name: 'Scaffold Analysis Algorithm',
+      type: 'scaffold-analysis',
+      description: 'Reduces each compound to its Bemis-Murcko and generic (all-carbon, single-bond) scaffold, builds a Schuffenhauer-style scaffold tree by removing one terminal ring at a time, and reports per-scaffold counts and activity summaries.',
+      parameters: {
+        scaffoldDefinition: 'bemis-murcko',
+        genericScaffolds: true,
+        scaffoldTree: 'schuffenhauer',
+        minCount,
+        maxScaffolds,
+      },
+      pseudocode: `function analyzeScaffolds(library, activities):
+    for compound in library:
+        compound.scaffold = murckoScaffold(compound)
+        compound.generic = genericScaffold(compound.scaffold)
+
+    scaffolds = groupBy(library, 'scaffold')     // acyclic compounds have none
+    generics = groupBy(library, 'generic')
+    for group in scaffolds + generics:
+        group.activity = { count, mean, std, min, max } of measured activities
+    report groups with at least ${minCount} compound${minCount === 1 ? '' : 's'}, largest first, at most ${maxScaffolds} of each
+
+    tree = {}
+    for scaffold in scaffolds:
+        node = scaffold
+        while ringCount(node) > 1 and node not in tree:
+            tree[node] = scaffoldParent(node)
+            node = tree[node]
+        add size(scaffold) to every node on the path to its root
+    return { scaffolds, generics, tree }
+
+function murckoScaffold(mol):
+    // Ring atoms plus the linkers joining them
+    repeat:
+        remove acyclic atoms with at most one heavy neighbour
+    until nothing changes
+    keep terminal atoms double-bonded to what remains (ring and linker C=O)
+    return canonicalSmiles(remaining atoms), or none without rings
+
+function genericScaffold(scaffold):
+    every atom becomes carbon, every bond single, charges cleared
+    return canonicalSmiles(scaffold)
+
+function scaffoldParent(scaffold):
+    // Remove one terminal ring (Schuffenhauer et al. 2007)
+    candidates = []
+    for ring in sssr(scaffold):
+        parent = murckoScaffold(scaffold without atoms unique to ring)
+        if parent is connected and its aromatic rings still kekulize:
+            candidates.append((ring, parent))
+    return parent of the first candidate by, in order:
+        three-membered heterocycles first, rings of 12+ atoms last,
+        fewest linker bonds left, ring size 3, 5 or 6 first,
+        fewest heteroatoms (keeping N over O over S), smaller rings,
+        aromatic rings, then alphabetical parent SMILES`,
+      complexity: 'O(n·a) for the Murcko and generic scaffolds, plus O(s·r²·a) for the scaffold tree, where n=library, a=atoms, s=distinct scaffolds, r=rings',
+      useCases: [
+        'Scaffold hopping for patent avoidance',
+        'Finding chemical series in HTS hit lists',
+        'Comparing scaffold activity profiles across a project',
+        'Spotting over- and under-represented frameworks in a library',
+        'Navigating a library from simple rings to elaborated scaffolds',
+      ],
+    };
+  },
+  'matched-molecular-pairs': (params) => {
+    const { maxVariableAtoms, includeHydrogen, minPairs, maxTransforms } = resolveMmpParameters({
+      maxVariableAtoms: params.maxVariableAtoms,
+      minPairs: params.minPairs,
+      maxTransforms: params.maxCompounds || 100,
+    });
+    return {
+      name: 'Matched Molecular Pair Analysis',
+      type: 'matched-molecular-pairs',
+      description: 'Fragments every compound at each Hussain-Rea single cut, indexes the pieces by constant part to find matched pairs, summarizes each transform by the count, mean and standard deviation of the property change it causes, and applies the transforms to a query compound.',
+      parameters: {
+        fragmentation: 'hussain-rea',
+        maxCuts: 1,
+        maxVariableAtoms,
+        includeHydrogen,
+        minPairs,
+        maxTransforms,
+      },
+      pseudocode: `function matchedPairs(library, properties):
+    index = {}                                  // constant -> variable -> compounds
+    for compound in library:
+        for (constant, variable) in fragment(compound):
+            index[constant][variable].add(compound)
+
+    transforms = {}
+    for constant, variables in index:
+        for from, to in ordered pairs of distinct variables:
+            for a in variables[from], b in variables[to], a != b:
+                transforms[from + '>>' + to].pairs.add((a, b))   // once per compound pair
+
+    for transform in transforms:
+        for property in properties:
+            deltas = [property[b] - property[a] for (a, b) in transform.pairs if both measured]
+            transform.changes[property] = { count, mean, std, min, max } of deltas
+    keep transforms with at least ${minPairs} pair${minPairs === 1 ? '' : 's'}, most pairs first, at most ${maxTransforms}
+    return transforms
+
+function fragment(compound):
+    // Hussain-Rea: acyclic single bonds [#6+0;!$(*=,#[!#6])]!@!=!#[*]
+    for bond in cuttable bonds of compound:
+        left, right = the two sides, each with [*:1] where the bond was
+        for (constant, variable) in [(left, right), (right, left)]:
+            if heavyAtoms(variable) <= ${maxVariableAtoms}:
+                yield (canonicalSmiles(constant), canonicalSmiles(variable))${includeHydrogen ? `
+    for atom in compound with hydrogens:
+        yield (compound with one H of atom replaced by [*:1], '${HYDROGEN_FRAGMENT}')` : ''}
+
+function suggest(query, transforms):
+    products = {}
+    for (constant, variable) in fragment(query):
+        for transform in transforms where transform.from == variable:
+            product = join(constant, transform.to)      // bond the two [*:1] neighbours
+            keep the transform with the most pairs for each product
+    return products, most pairs first, at most ${maxTransforms}`,
+      complexity: 'O(n·b·a) to fragment, where n=library, b=cuttable bonds, a=atoms, plus O(p) for the pairs sharing a constant',
+      useCases: [
+        'Learning which substitutions raise potency across a project',
+        'Finding transforms that fix solubility or metabolic liabilities',
+        'Suggesting next compounds from a series by precedent',
+        'Bioisostere replacement backed by paired data',
+        'Mining historical SAR for medicinal chemistry rules',
+      ],
+    };
+  },
+
+  'activity-cliffs': (params) => {
+    const { minSimilarity, minActivityDifference, minSali, maxCliffs } = withRequestFields({ minSimilarity: 'threshold' }, () =>
+      resolveCliffParameters({
+        minSimilarity: params.threshold ?? 0.65,
+        minActivityDifference: params.minActivityDifference ?? undefined,
+        minSali: params.minSali ?? undefined,
+        maxCliffs: params.maxCompounds || 100,
+      }),
+    );
+    return {
+      name: 'Activity Cliff Detection Algorithm',
+      type: 'activity-cliffs',
+      description: 'Compares every pair of measured compounds by fingerprint Tanimoto similarity, scores each pair with the Structure-Activity Landscape Index (SALI), flags similar pairs with a large activity change as cliffs, and returns SALI network and heatmap data for the SAR landscape.',
+      parameters: {
+        ...fingerprintParameters(params),
+        minSimilarity,
+        minActivityDifference,
+        minSali,
+        maxCliffs,
+      },
+      pseudocode: `function activityCliffs(library, activities):
+    measured = [compound for compound in library if activities[compound] is not null]
+    fingerprints = [generateFingerprint(compound, ${params.fingerprintType || 'ECFP4'}) for compound in measured]
+
+    cliffs = []
+    for i, j in pairs of measured:
+        similarity = tanimoto(fingerprints[i], fingerprints[j])
+        difference = abs(activities[i] - activities[j])
+        // Identical fingerprints would give an infinite SALI
+        sali = difference / max(1 - similarity, ${SALI_DISTANCE_FLOOR})
+        if similarity >= ${minSimilarity} and difference >= ${minActivityDifference} and sali >= ${minSali}:
+            cliffs.append({ from: less active, to: more active, similarity, difference, sali })
+    cliffs.sortBy('sali', desc=True)
+
+    // SAR landscape views
+    network = { nodes: compounds in cliffs, edges: cliffs weighted by sali }
+    heatmap = sali[i][j] for measured compounds ordered by activity
+    return cliffs[:${maxCliffs}], network, heatmap`,
+      complexity: 'O(n²) pairwise similarities and SALI values, where n=measured compounds',
+      useCases: [
+        'Finding the small changes behind large potency jumps',
+        'Spotting SAR discontinuities that QSAR models will miss',
+        'Checking assay data for suspicious outliers',
+        'Picking informative pairs for structure-based follow-up',
+        'Visualizing how smooth or rugged a series SAR landscape is',
+      ],
+    };
+  },
+
+  'r-group-analysis': (params) => {
+    const coreSmarts = params.coreSmarts || '[*:1]c1ccc(cc1)C(=O)N[*:2]';
+    // Rejects malformed cores and unusable attachment points up front.
+    const { labels } = parseRGroupCore(coreSmarts);
+    const { ridgeAlpha, maxPredictions } = resolveFreeWilsonParameters({
+      ridgeAlpha: params.ridgeAlpha,
+      maxPredictions: params.maxCompounds || 100,
+    });
+    return {
+      name: 'R-Group Decomposition and Free-Wilson Analysis',
+      type: 'r-group-analysis',
+      description: 'Splits a congeneric series into a core SMARTS and one R group per labelled attachment point, settling symmetric or repeated core matches by how common each R group is across the series, then fits a Free-Wilson additive model of per-substituent activity contributions and predicts the best unmade combinations.',
+      parameters: {
+        coreSmarts,
+        labels: labels.map((label) => `R${label}`),
+        ridgeAlpha,
+        maxPredictions,
+        maxCoreMatches: MAX_CORE_MATCHES,
+      },
+      pseudocode: `function rgroupAnalysis(library, activities):
+    core = parseSmarts("${coreSmarts}")       // attachment points ${labels.map((label) => `[*:${label}]`).join(', ')}
+
+    candidates = []
+    for compound in library:
+        options = set()
+        for match in vf2Match(core, compound, limit=${MAX_CORE_MATCHES}):   // one per core automorphism
+            // Substituents are the connected non-core parts; each must join
+            // the core at one bond, on an atom that carries an attachment point
+            for assignment of substituents to attachment points on their atom:
+                options.add({ core: matched atoms, R: substituent per label or ${hydrogenGroup(labels[0])} })
+        candidates.append(options)    // empty: core not found or substituent not allowed
+
+    // Symmetry: keep the option whose R groups are most common at their labels
+    tally = counts of (label, R group) over all options, split evenly per compound
+    repeat until no choice changes (at most 10 passes):
+        for compound with several options:
+            choice[compound] = argmax over options of sum(tally[label, R])
+            update tally with the choice
+
+    return freeWilson(choices, activities)
+
+function freeWilson(decompositions, activities):
+    // Fujita-Ban form: the most common R group at each label is the reference
+    X = indicator column per (label, non-reference R group)
+    beta = solve((X'X + ${ridgeAlpha}·I) beta = X'y), intercept unpenalized
+    contribution[label][R] = beta of its column, 0 for the reference
+    looPredicted = y - (y - fitted) / (1 - leverage)  // exact leave-one-out, from the hat matrix
+
+    // Best-first over combinations of fitted R groups, skipping made ones
+    heap = [best R group at every label]
+    while heap and predictions < ${maxPredictions}:
+        combination = heap.popMax()
+        if combination not made: predictions.append(join(core, combination))
+        push combination with one label moved to its next-best R group
+    return contributions, predictions`,
+      complexity: 'O(n·m·s!) to decompose, where n=library, m=core matches per compound, s=substituents per core atom, plus O(n·p² + p³) for the Free-Wilson fit over p substituent columns',
+      useCases: [
+        'Tabulating SAR of a congeneric series by position',
+        'Estimating how much each substituent adds to potency',
+        'Prioritizing unmade combinations of the best substituents',
+        'Checking whether a series SAR is additive',
+        'Designing combinatorial follow-up libraries',
+      ],
+    };
+  },
 };
 
 export async function POST(request: NextRequest) {
   try {
     const body: GenerateRequest = await request.json();
-    const { type, parameters } = body;
+    const { type, parameters = {}, targetLanguage = 'pseudocode' } = body;
+
+    if (typeof parameters !== 'object' || parameters === null) {
+      return NextResponse.json(
+        { error: 'Expected parameters to be an object' },
+        { status: 400 }
+      );
+    }
 
     if (!type || !algorithmGenerators[type]) {
       return NextResponse.json(
@@ -493,9 +1426,58 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const algorithm = algorithmGenerators[type](parameters);
+    if (!targetLanguages.includes(targetLanguage)) {
+      return NextResponse.json(
+        { error: `Invalid target language. Expected one of: ${targetLanguages.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const parameterError = sharedParameterError(parameters);
+    if (parameterError) {
+      return NextResponse.json(
+        { error: parameterError },
+        { status: 400 }
+      );
+    }
+
+    let algorithm: GeneratedAlgorithm;
+    try {
+      algorithm = algorithmGenerators[type](parameters);
+    } catch (error) {
+      if (
+        error instanceof FingerprintOptionsError ||
+        error instanceof CliffOptionsError ||
+        error instanceof ClusteringOptionsError ||
+        error instanceof DomainOptionsError ||
+        error instanceof EnsembleOptionsError ||
+        error instanceof FreeWilsonOptionsError ||
+        error instanceof MmpOptionsError ||
+        error instanceof OptimizationOptionsError ||
+        error instanceof PharmacophoreOptionsError ||
+        error instanceof RGroupOptionsError ||
+        error instanceof ScaffoldOptionsError ||
+        error instanceof ShapeOptionsError
+      ) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      if (error instanceof SmartsParseError) {
+        return NextResponse.json(
+          { error: `Invalid SMARTS query: ${error.reason}`, position: error.position },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+    const code =
+      targetLanguage === 'pseudocode'
+        ? algorithm.pseudocode
+        : codeTemplates[targetLanguage][type](algorithm.parameters);
 
-    return NextResponse.json(algorithm, { status: 200 });
+    return NextResponse.json({ ...algorithm, targetLanguage, code }, { status: 200 });
   } catch (error) {
     console.error('Error generating algorithm:', error);
     return NextResponse.json(
@@ -510,6 +1492,7 @@ export async function GET() {
     message: 'Cheminformatics Algorithm Generator API',
     version: '1.0.0',
     availableAlgorithms: Object.keys(algorithmGenerators),
-    usage: 'POST /api/generate with { type, parameters }',
+    targetLanguages,
+    usage: 'POST /api/generate with { type, parameters, targetLanguage }',
   });
 }
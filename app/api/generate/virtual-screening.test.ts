@@ -0,0 +1,151 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { NextRequest } from 'next/server';
+import ts from 'typescript';
+import { afterAll, describe, expect, it } from 'vitest';
+import { POST } from './route';
+
+async function generate(parameters: Record<string, unknown>, targetLanguage = 'pseudocode') {
+  const response = await POST({ json: async () => ({ type: 'virtual-screening', parameters, targetLanguage }) } as NextRequest);
+  return { status: response.status, data: await response.json() };
+}
+
+const directories: string[] = [];
+afterAll(() => Promise.all(directories.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+// Loads the generated TypeScript without RDKit, which the parts under test
+// never call: the import and the self-check run are dropped, and the
+// module-private helpers named in `extra` are exported.
+async function loadGenerated(parameters: Record<string, unknown>, extra: string[] = []) {
+  const { data } = await generate(parameters, 'typescript');
+  const source = (data.code as string)
+    .replace("import initRDKitModule from '@rdkit/rdkit';", '')
+    .replace(/\nselfCheck\(\)\.then\([^]*$/, `\nexport { ${extra.join(', ')} };\n`);
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.ES2022, target: ts.ScriptTarget.ES2022 },
+  });
+  const dir = await mkdtemp(join(tmpdir(), 'generated-'));
+  directories.push(dir);
+  const file = join(dir, 'virtual-screening.mjs');
+  await writeFile(file, outputText);
+  return import(/* @vite-ignore */ pathToFileURL(file).href);
+}
+
+describe('virtual-screening stacking mode', () => {
+  it('reports the stacking settings and treats the threshold as a confidence level', async () => {
+    const { status, data } = await generate({ ensembleMode: 'stacking', threshold: 0.9 });
+    expect(status).toBe(200);
+    expect(data.parameters).toMatchObject({
+      ensembleMode: 'stacking',
+      confidenceThreshold: 0.9,
+      stackingFolds: 5,
+      calibrationFraction: 0.2,
+      hitCutoff: 0.5,
+    });
+    expect(data.pseudocode).toContain('significance = 1 - confidenceThreshold');
+    for (const threshold of [0, 1]) {
+      const rejected = await generate({ ensembleMode: 'stacking', threshold });
+      expect(rejected.status).toBe(400);
+      expect(rejected.data.error).toMatch(/^threshold must be a confidence level/);
+    }
+  });
+
+  it('keeps fixed weights by default and rejects unknown modes', async () => {
+    const { data } = await generate({});
+    expect(data.parameters.ensembleMode).toBe('fixed');
+    expect(data.parameters).not.toHaveProperty('stackingFolds');
+    expect((await generate({ ensembleMode: 'voting' })).status).toBe(400);
+  });
+
+  it('generates conformal confidences that are calibrated error rates', async () => {
+    const generated = await loadGenerated({ ensembleMode: 'stacking', threshold: 0.8 }, [
+      'conformalConfidence',
+      'predictionInterval',
+      'fitStackingWeights',
+    ]);
+    // Nonconformity scores of 19 calibration compounds, spread evenly.
+    const alphas = Array.from({ length: 19 }, (_, i) => (i - 9) / 10);
+    const prediction = (value: number) => ({ value, spread: 0, individualPredictions: {} });
+    // At the cut-off (0.5) exactly the non-positive scores support a hit.
+    expect(generated.conformalConfidence(alphas, prediction(0.5))).toBeCloseTo(10 / 20);
+    expect(generated.conformalConfidence(alphas, prediction(2))).toBeCloseTo(19 / 20);
+    expect(generated.conformalConfidence(alphas, prediction(-1))).toBe(0);
+    // The 16th smallest |alpha| of 19 bounds 80% coverage, scaled by spread + 0.1.
+    const [low, high] = generated.predictionInterval(alphas, { value: 0.6, spread: 0.1, individualPredictions: {} });
+    expect(high - 0.6).toBeCloseTo(0.8 * 0.2);
+    expect(0.6 - low).toBeCloseTo(0.8 * 0.2);
+    expect(generated.predictionInterval(alphas.slice(0, 3), prediction(0.6))[1]).toBe(Infinity);
+  });
+
+  it('learns non-negative stacking weights from out-of-fold predictions', async () => {
+    const { fitStackingWeights } = await loadGenerated({ ensembleMode: 'stacking' }, ['fitStackingWeights']);
+    // The first member tracks the activity, the second is anti-correlated noise.
+    const y = [0.1, 0.3, 0.5, 0.7, 0.9];
+    const P = y.map((v, i) => [v, 1 - v + (i % 2) * 0.05]);
+    const { intercept, weights } = fitStackingWeights(P, y);
+    expect(weights[0]).toBeGreaterThan(0.9);
+    expect(weights[1]).toBe(0);
+    expect(intercept).toBeCloseTo(0, 1);
+  });
+});
+
+// A chain of carbons (0) and oxygens (2, by GNN_ELEMENTS index) with the
+// generated featurization: element, degree and hydrogen one-hots, then
+// charge, aromaticity and ring membership.
+function chainGraph(elements: number[]) {
+  const neighbors = elements.map((_, i) => [i - 1, i + 1].filter((j) => j >= 0 && j < elements.length));
+  const features = elements.map((element, i) => [
+    ...Array.from({ length: 10 }, (_, k) => (k === element ? 1 : 0)),
+    ...[0, 1, 2, 3, 4].map((d) => (neighbors[i].length === d ? 1 : 0)),
+    ...[0, 1, 2, 3].map((h) => ((element === 2 ? 1 : 4 - neighbors[i].length) === h ? 1 : 0)),
+    0,
+    0,
+    0,
+  ]);
+  return { features, neighbors };
+}
+
+describe('virtual-screening GraphNN', () => {
+  it('reports the network settings only when GraphNN is in the ensemble', async () => {
+    const { data } = await generate({ modelEnsemble: ['GraphNN', 'QSAR'], batchSize: 8 });
+    expect(data.parameters).toMatchObject({ modelEnsemble: ['GraphNN', 'QSAR'], batchSize: 8, gnnLayers: 3, gnnHiddenSize: 32 });
+    const withoutGraph = await generate({ modelEnsemble: ['QSAR'] });
+    expect(withoutGraph.data.parameters).not.toHaveProperty('gnnLayers');
+    expect((await generate({ modelEnsemble: ['GCN'] })).status).toBe(400);
+    expect((await generate({ batchSize: 0 })).status).toBe(400);
+  });
+
+  it('trains a graph network that fits its targets and round-trips its weights through JSON', async () => {
+    const generated = await loadGenerated({ modelEnsemble: ['GraphNN'], batchSize: 4 }, ['createRandom']);
+    const chains = [[0, 0], [0, 0, 0], [0, 2], [0, 0, 2], [2, 0, 2], [0, 0, 0, 0], [0, 2, 0, 2], [0, 0, 0, 2]];
+    const graphs = chains.map(chainGraph);
+    // Activity rises with the oxygen count.
+    const targets = chains.map((chain) => chain.filter((element) => element === 2).length / 2);
+    const model = generated.trainGin(graphs, targets, generated.createRandom(7));
+    const mean = targets.reduce((sum, y) => sum + y, 0) / targets.length;
+    const variance = targets.reduce((sum, y) => sum + (y - mean) ** 2, 0) / targets.length;
+    const mse = graphs.reduce((sum, graph, i) => sum + (generated.predictGin(model, graph) - targets[i]) ** 2, 0) / graphs.length;
+    expect(mse).toBeLessThan(0.1 * variance);
+
+    const restored = generated.loadGin(generated.saveGin(model));
+    expect(graphs.map((graph) => generated.predictGin(restored, graph))).toEqual(
+      graphs.map((graph) => generated.predictGin(model, graph)),
+    );
+    expect(() => generated.loadGin('{"format": "crowe-qsar-model"}')).toThrow('Not a GIN weights file');
+  });
+
+  it('takes its mini-batch size from batchSize', async () => {
+    const graphs = [[0, 0], [0, 2], [2, 0, 2], [0, 0, 0]].map(chainGraph);
+    const targets = [0, 0.5, 1, 0];
+    const predictions = async (batchSize: number) => {
+      const generated = await loadGenerated({ modelEnsemble: ['GraphNN'], batchSize }, ['createRandom']);
+      const model = generated.trainGin(graphs, targets, generated.createRandom(3));
+      return graphs.map((graph) => generated.predictGin(model, graph));
+    };
+    const [single, whole, oversized] = [await predictions(1), await predictions(4), await predictions(100)];
+    expect(single).not.toEqual(whole);
+    expect(oversized).toEqual(whole);
+  }, 30000);
+});
@@ -0,0 +1,65 @@
+import type { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { POST } from './route';
+
+function post(body: unknown) {
+  return POST({ json: async () => body } as NextRequest);
+}
+
+async function analyze(body: unknown) {
+  const response = await post(body);
+  return { status: response.status, data: await response.json() };
+}
+
+const library = ['Clc1ccccc1', 'FC(F)(F)c1ccccc1', 'Clc1ccncc1', 'FC(F)(F)c1ccncc1', 'C1CC('];
+const properties = { pIC50: [5, 6, 4, 5.5, null] };
+const parameters = { includeHydrogen: false, maxTransforms: 2 };
+
+describe('POST /api/mmp', () => {
+  it('returns transforms with pairs by library index, rounded changes and suggestions', async () => {
+    const { status, data } = await analyze({ library, properties, query: 'Clc1ccc(O)cc1', parameters });
+    expect(status).toBe(200);
+    expect(data).toMatchObject({ compounds: 4, properties: ['pIC50'], transformCount: 6 });
+    expect(data.transforms).toHaveLength(2);
+    expect(data.transforms[1]).toEqual({
+      transform: '[*:1]Cl>>[*:1]C(F)(F)F',
+      from: '[*:1]Cl',
+      to: '[*:1]C(F)(F)F',
+      pairCount: 2,
+      pairs: [
+        { from: 0, to: 1, constant: '[*:1]c1ccccc1' },
+        { from: 2, to: 3, constant: '[*:1]c1ccncc1' },
+      ],
+      changes: { pIC50: { count: 2, mean: 1.25, std: 0.354, min: 1, max: 1.5 } },
+    });
+    expect(data.query.suggestions).toEqual([
+      expect.objectContaining({ smiles: 'Oc1ccc(cc1)C(F)(F)F', transform: '[*:1]Cl>>[*:1]C(F)(F)F', libraryIndex: null }),
+    ]);
+    expect(data.invalid).toEqual([{ index: 4, smiles: 'C1CC(', error: 'Unclosed branch', position: 4 }]);
+  });
+
+  it('points suggestions already in the library back to it', async () => {
+    const { data } = await analyze({ library, query: 'Clc1ccccc1', parameters });
+    const suggestion = data.query.suggestions.find((s: { smiles: string }) => s.smiles === 'FC(F)(F)c1ccccc1');
+    expect(suggestion.libraryIndex).toBe(1);
+  });
+
+  it('exports the reported transforms as CSV', async () => {
+    const response = await post({ library, properties, format: 'csv', parameters });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('Content-Type')).toMatch(/^text\/csv/);
+    expect((await response.text()).trimEnd().split('\n')).toEqual([
+      'transform,from,to,pairs,pIC50_count,pIC50_mean,pIC50_std,pIC50_min,pIC50_max',
+      '[*:1]C(F)(F)F>>[*:1]Cl,[*:1]C(F)(F)F,[*:1]Cl,2,2,-1.25,0.354,-1.5,-1',
+      '[*:1]Cl>>[*:1]C(F)(F)F,[*:1]Cl,[*:1]C(F)(F)F,2,2,1.25,0.354,1,1.5',
+    ]);
+  });
+
+  it('rejects misaligned properties, unknown formats and an invalid query', async () => {
+    expect((await analyze({ library, properties: { pIC50: [1, 2] } })).status).toBe(400);
+    expect((await analyze({ library, format: 'xml' })).status).toBe(400);
+    const query = await analyze({ library, query: 'c1cc(' });
+    expect(query.status).toBe(400);
+    expect(query.data.error).toMatch(/^Invalid query SMILES/);
+  });
+});
@@ -0,0 +1,231 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  HYDROGEN_FRAGMENT,
+  MmpOptionsError,
+  indexMatchedPairs,
+  resolveMmpParameters,
+  suggestTransforms,
+  type MmpParameters,
+  type PropertyChange,
+  type Transform,
+} from '@/lib/chem/mmp';
+import type { Molecule } from '@/lib/chem/molecule';
+import { SmilesParseError, parseSmiles, writeSmiles } from '@/lib/chem/smiles';
+
+interface MmpRequest {
+  library: string[];
+  // Named properties or activities, each aligned with library; null for
+  // unmeasured compounds.
+  properties?: Record<string, (number | null)[]>;
+  // SMILES of a compound to suggest transforms for.
+  query?: string;
+  format?: 'json' | 'csv';
+  parameters?: MmpParameters;
+}
+
+const MAX_LIBRARY_SIZE = 1000;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const roundChanges = (changes: Record<string, PropertyChange | null>) =>
+  Object.fromEntries(
+    Object.entries(changes).map(([name, change]) => [
+      name,
+      change && {
+        count: change.count,
+        mean: round(change.mean),
+        std: round(change.std),
+        min: round(change.min),
+        max: round(change.max),
+      },
+    ])
+  );
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per transform; statistics of unmeasured properties are empty.
+function toCsv(transforms: Transform[], names: string[]): string {
+  const stats = ['count', 'mean', 'std', 'min', 'max'] as const;
+  const rows = [['transform', 'from', 'to', 'pairs', ...names.flatMap((name) => stats.map((s) => `${name}_${s}`))]];
+  for (const transform of transforms) {
+    rows.push([
+      transform.transform,
+      transform.from,
+      transform.to,
+      String(transform.pairs.length),
+      ...names.flatMap((name) => {
+        const change = transform.changes[name];
+        return stats.map((s) => (change ? String(s === 'count' ? change.count : round(change[s])) : ''));
+      }),
+    ]);
+  }
+  return rows.map((row) => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: MmpRequest = await request.json();
+    const { library, properties = {}, query, format = 'json', parameters = {} } = body;
+
+    if (typeof parameters !== 'object' || parameters === null) {
+      return NextResponse.json(
+        { error: 'Expected parameters to be an object' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(library) || library.some((smiles) => typeof smiles !== 'string')) {
+      return NextResponse.json(
+        { error: 'Expected a library array of SMILES' },
+        { status: 400 }
+      );
+    }
+    if (library.length > MAX_LIBRARY_SIZE) {
+      return NextResponse.json(
+        { error: `Library is limited to ${MAX_LIBRARY_SIZE} compounds per request` },
+        { status: 400 }
+      );
+    }
+    if (
+      typeof properties !== 'object' ||
+      properties === null ||
+      Array.isArray(properties) ||
+      Object.values(properties).some(
+        (values) =>
+          !Array.isArray(values) ||
+          values.length !== library.length ||
+          values.some((value) => value !== null && (typeof value !== 'number' || !Number.isFinite(value)))
+      )
+    ) {
+      return NextResponse.json(
+        { error: 'Expected properties to map names to arrays of numbers or nulls, one per library compound' },
+        { status: 400 }
+      );
+    }
+    if (query !== undefined && typeof query !== 'string') {
+      return NextResponse.json(
+        { error: 'Expected query to be a SMILES string' },
+        { status: 400 }
+      );
+    }
+    if (format !== 'json' && format !== 'csv') {
+      return NextResponse.json(
+        { error: 'Invalid format. Expected json or csv' },
+        { status: 400 }
+      );
+    }
+
+    const resolved = resolveMmpParameters(parameters);
+    let queryMol: Molecule | null = null;
+    if (query !== undefined) {
+      try {
+        queryMol = parseSmiles(query);
+      } catch (error) {
+        if (error instanceof SmilesParseError) {
+          return NextResponse.json(
+            { error: `Invalid query SMILES: ${error.reason}`, position: error.position },
+            { status: 400 }
+          );
+        }
+        throw error;
+      }
+    }
+
+    // Library index of each parsed compound
+    const indices: number[] = [];
+    const molecules: Molecule[] = [];
+    const invalid: { index: number; smiles: string; error: string; position: number }[] = [];
+    library.forEach((smiles, index) => {
+      try {
+        molecules.push(parseSmiles(smiles));
+        indices.push(index);
+      } catch (error) {
+        if (!(error instanceof SmilesParseError)) throw error;
+        invalid.push({ index, smiles, error: error.reason, position: error.position });
+      }
+    });
+
+    const names = Object.keys(properties);
+    const transforms = indexMatchedPairs(
+      molecules,
+      Object.fromEntries(names.map((name) => [name, indices.map((index) => properties[name][index])])),
+      resolved
+    );
+    const reported = transforms.slice(0, resolved.maxTransforms);
+
+    if (format === 'csv') {
+      return new NextResponse(toCsv(reported, names), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': 'attachment; filename="transforms.csv"',
+        },
+      });
+    }
+
+    let suggestions = null;
+    if (queryMol) {
+      // Suggested products already in the library point back to it
+      const libraryIndex = new Map<string, number>();
+      molecules.forEach((mol, i) => {
+        const smiles = writeSmiles(mol, { isomeric: false });
+        if (!libraryIndex.has(smiles)) libraryIndex.set(smiles, indices[i]);
+      });
+      suggestions = suggestTransforms(queryMol, transforms, resolved).map((suggestion) => ({
+        ...suggestion,
+        changes: roundChanges(suggestion.changes),
+        libraryIndex: libraryIndex.get(suggestion.smiles) ?? null,
+      }));
+    }
+
+    return NextResponse.json(
+      {
+        parameters: resolved,
+        compounds: molecules.length,
+        properties: names,
+        transformCount: transforms.length,
+        transforms: reported.map((transform) => ({
+          transform: transform.transform,
+          from: transform.from,
+          to: transform.to,
+          pairCount: transform.pairs.length,
+          pairs: transform.pairs.map((pair) => ({
+            from: indices[pair.from],
+            to: indices[pair.to],
+            constant: pair.constant,
+          })),
+          changes: roundChanges(transform.changes),
+        })),
+        ...(suggestions ? { query: { smiles: query, suggestions } } : {}),
+        invalid,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof MmpOptionsError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error finding matched molecular pairs:', error);
+    return NextResponse.json(
+      { error: 'Failed to find matched molecular pairs' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Matched molecular pairs from Hussain-Rea single-cut fragmentation, with per-transform property change statistics and transform suggestions for a query',
+    defaults: resolveMmpParameters({}),
+    hydrogenFragment: HYDROGEN_FRAGMENT,
+    formats: ['json', 'csv'],
+    maxLibrarySize: MAX_LIBRARY_SIZE,
+    usage: 'POST /api/mmp with { library, properties?: { name: values }, query?, format?, parameters?: { maxVariableAtoms, includeHydrogen, minPairs, maxTransforms } }',
+  });
+}
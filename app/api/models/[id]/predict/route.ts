@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { domainFingerprint } from '@/lib/ml/domain';
+import { descriptorRow, predictActivity } from '@/lib/ml/qsar';
+import { loadModel } from '@/lib/ml/registry';
+import { SmilesParseError, parseSmiles, writeSmiles } from '@/lib/chem/smiles';
+
+interface PredictRequest {
+  smiles: string | string[];
+}
+
+type PredictionResult =
+  | {
+      index: number;
+      input: string;
+      valid: true;
+      canonicalSmiles: string;
+      prediction: number | string;
+      confidence: number;
+      domain: { inDomain: boolean; distance: number } | null;
+    }
+  | { index: number; input: string; valid: false; error: string; position: number };
+
+const MAX_BATCH_SIZE = 1000;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const body: PredictRequest = await request.json();
+    const inputs = Array.isArray(body.smiles) ? body.smiles : [body.smiles];
+
+    if (inputs.length === 0 || inputs.some((s) => typeof s !== 'string')) {
+      return NextResponse.json(
+        { error: 'Expected smiles as a string or an array of strings' },
+        { status: 400 }
+      );
+    }
+
+    if (inputs.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BATCH_SIZE} SMILES can be predicted per request` },
+        { status: 400 }
+      );
+    }
+
+    const model = await loadModel(id);
+    if (!model) {
+      return NextResponse.json(
+        { error: `Model not found: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    const results = inputs.map((input, index): PredictionResult => {
+      try {
+        const mol = parseSmiles(input);
+        const { prediction, confidence, domain } = predictActivity(
+          model,
+          descriptorRow(mol, model.descriptors),
+          domainFingerprint(mol),
+        );
+        return {
+          index,
+          input,
+          valid: true,
+          canonicalSmiles: writeSmiles(mol),
+          prediction: typeof prediction === 'number' && !model.classes ? round(prediction) : prediction,
+          confidence: round(confidence),
+          domain: domain && { inDomain: domain.inDomain, distance: round(domain.distance) },
+        };
+      } catch (error) {
+        if (error instanceof SmilesParseError) {
+          return { index, input, valid: false, error: error.reason, position: error.position };
+        }
+        throw error;
+      }
+    });
+    const validCount = results.filter((result) => result.valid).length;
+
+    return NextResponse.json(
+      {
+        modelId: model.id,
+        task: model.task,
+        applicabilityDomain: model.domain?.method ?? null,
+        results,
+        validCount,
+        invalidCount: results.length - validCount,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error predicting with model:', error);
+    return NextResponse.json(
+      { error: 'Failed to predict activities' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Batch activity prediction with a stored QSAR model',
+    maxBatchSize: MAX_BATCH_SIZE,
+    usage: 'POST /api/models/{id}/predict with { smiles }',
+  });
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadModel } from '@/lib/ml/registry';
+
+// Returns the full serialized model, trees included, so it can be exported
+// or inspected.
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params;
+    const model = await loadModel(id);
+    if (!model) {
+      return NextResponse.json(
+        { error: `Model not found: ${id}` },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json(model);
+  } catch (error) {
+    console.error('Error loading model:', error);
+    return NextResponse.json(
+      { error: 'Failed to load model' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { listModels } from '@/lib/ml/registry';
+
+export async function GET() {
+  try {
+    const models = await listModels();
+    return NextResponse.json({ count: models.length, models });
+  } catch (error) {
+    console.error('Error listing models:', error);
+    return NextResponse.json(
+      { error: 'Failed to list models' },
+      { status: 500 }
+    );
+  }
+}
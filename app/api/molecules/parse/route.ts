@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { averageMolecularWeight, fragments, molecularFormula } from '@/lib/chem/molecule';
+import { ringInfo } from '@/lib/chem/rings';
+import { SmilesParseError, parseSmiles, writeSmiles } from '@/lib/chem/smiles';
+
+interface ParseRequest {
+  smiles: string | string[];
+}
+
+const MAX_BATCH_SIZE = 1000;
+
+function parseOne(input: string) {
+  try {
+    const mol = parseSmiles(input);
+    return {
+      input,
+      valid: true,
+      canonicalSmiles: writeSmiles(mol),
+      formula: molecularFormula(mol),
+      molecularWeight: Math.round(averageMolecularWeight(mol) * 1000) / 1000,
+      atomCount: mol.atoms.length,
+      bondCount: mol.bonds.length,
+      ringCount: ringInfo(mol).rings.length,
+      aromaticAtomCount: mol.atoms.filter((atom) => atom.aromatic).length,
+      stereoCenterCount: mol.atoms.filter((atom) => atom.chirality).length,
+      fragmentCount: fragments(mol).length,
+    };
+  } catch (error) {
+    if (error instanceof SmilesParseError) {
+      return { input, valid: false, error: error.reason, position: error.position };
+    }
+    throw error;
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: ParseRequest = await request.json();
+    const inputs = Array.isArray(body.smiles) ? body.smiles : [body.smiles];
+
+    if (inputs.length === 0 || inputs.some((smiles) => typeof smiles !== 'string')) {
+      return NextResponse.json(
+        { error: 'Expected smiles to be a string or an array of strings' },
+        { status: 400 }
+      );
+    }
+
+    if (inputs.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BATCH_SIZE} SMILES can be parsed per request` },
+        { status: 400 }
+      );
+    }
+
+    const results = inputs.map(parseOne);
+    const validCount = results.filter((result) => result.valid).length;
+
+    return NextResponse.json(
+      { results, validCount, invalidCount: results.length - validCount },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error parsing molecules:', error);
+    return NextResponse.json(
+      { error: 'Failed to parse molecules' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'SMILES validation and canonicalization',
+    maxBatchSize: MAX_BATCH_SIZE,
+    usage: 'POST /api/molecules/parse with { smiles: string | string[] }',
+  });
+}
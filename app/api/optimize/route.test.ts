@@ -0,0 +1,36 @@
+import type { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { POST } from './route';
+
+async function optimize(body: unknown) {
+  const response = await POST({ json: async () => body } as NextRequest);
+  return { status: response.status, data: await response.json() };
+}
+
+describe('POST /api/optimize', () => {
+  it('runs the requested generations from a seed SMILES', async () => {
+    const { status, data } = await optimize({ smiles: 'CC(=O)Nc1ccc(O)cc1', parameters: { populationSize: 8, iterations: 3 } });
+    expect(status).toBe(200);
+    expect(data.parameters).toMatchObject({ populationSize: 8, generations: 3, optimizationMode: 'weighted-sum' });
+    expect(data.generationsRun).toBe(3);
+    expect(data.generations).toHaveLength(4);
+    expect(data.seed.smiles).toBe('CC(=O)Nc1ccc(O)cc1');
+    expect(data.offspring.generated).toBe(data.offspring.valid + data.offspring.repaired + data.offspring.discarded);
+    expect(Object.keys(data.operators)).toEqual([
+      'atom-swap',
+      'add-fragment',
+      'remove-fragment',
+      'ring-closure',
+      'bioisostere',
+      'crossover',
+    ]);
+  });
+
+  it('rejects an invalid seed and out-of-range settings', async () => {
+    const invalid = await optimize({ smiles: 'C1CC' });
+    expect(invalid.status).toBe(400);
+    expect(invalid.data.error).toMatch(/^Invalid seed SMILES/);
+    expect((await optimize({ smiles: 'CCO', parameters: { crossoverRate: 2 } })).status).toBe(400);
+    expect((await optimize({ smiles: 'CCO', parameters: { objectives: ['potency'] } })).status).toBe(400);
+  });
+});
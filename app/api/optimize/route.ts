@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  MAX_GENERATIONS,
+  MAX_POPULATION_SIZE,
+  OptimizationOptionsError,
+  objectiveDirections,
+  optimizationModes,
+  optimizationObjectives,
+  optimizeStructure,
+  resolveOptimizationParameters,
+  type OptimizationParameters,
+  type ScoredMolecule,
+} from '@/lib/ml/genetic';
+import type { Molecule } from '@/lib/chem/molecule';
+import { mutationOperators } from '@/lib/chem/mutations';
+import { SmilesParseError, parseSmiles } from '@/lib/chem/smiles';
+
+interface OptimizeRequest {
+  smiles: string;
+  parameters?: OptimizationParameters;
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+function roundScores(molecule: ScoredMolecule): ScoredMolecule {
+  return {
+    smiles: molecule.smiles,
+    score: round(molecule.score),
+    feasible: molecule.feasible,
+    objectives: Object.fromEntries(
+      Object.entries(molecule.objectives).map(([name, value]) => [name, round(value)]),
+    ) as ScoredMolecule['objectives'],
+  };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: OptimizeRequest = await request.json();
+    const { smiles, parameters = {} } = body;
+
+    if (typeof parameters !== 'object' || parameters === null) {
+      return NextResponse.json(
+        { error: 'Expected parameters to be an object' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof smiles !== 'string') {
+      return NextResponse.json(
+        { error: 'Expected a seed SMILES string' },
+        { status: 400 }
+      );
+    }
+
+    const resolved = resolveOptimizationParameters(parameters);
+
+    let seed: Molecule;
+    try {
+      seed = parseSmiles(smiles);
+    } catch (error) {
+      if (error instanceof SmilesParseError) {
+        return NextResponse.json(
+          { error: `Invalid seed SMILES: ${error.reason}`, position: error.position },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const result = optimizeStructure(seed, resolved);
+
+    return NextResponse.json(
+      {
+        seed: roundScores(result.seed),
+        parameters: resolved,
+        generationsRun: result.generations.length - 1,
+        converged: result.converged,
+        best: result.best.map(roundScores),
+        ...(result.paretoFront ? { paretoFront: result.paretoFront.map(roundScores) } : {}),
+        generations: result.generations.map((summary) => ({
+          ...summary,
+          bestScore: round(summary.bestScore),
+          meanScore: round(summary.meanScore),
+          best: summary.best.map(roundScores),
+          ...(summary.hypervolume !== undefined ? { hypervolume: round(summary.hypervolume) } : {}),
+        })),
+        offspring: result.offspring,
+        operators: result.operators,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof OptimizationOptionsError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error optimizing structure:', error);
+    return NextResponse.json(
+      { error: 'Failed to optimize structure' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Genetic-algorithm structure optimization from a seed molecule',
+    modes: optimizationModes,
+    objectives: optimizationObjectives,
+    directions: objectiveDirections,
+    operators: [...mutationOperators, 'crossover'],
+    maxPopulationSize: MAX_POPULATION_SIZE,
+    maxGenerations: MAX_GENERATIONS,
+    usage: 'POST /api/optimize with { smiles, parameters?: { populationSize, generations, mutationRate, crossoverRate, optimizationMode, objectives, seed } }',
+  });
+}
@@ -0,0 +1,40 @@
+import type { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { POST as cliffs } from './cliffs/route';
+import { POST as clustering } from './clustering/route';
+import { POST as docking } from './docking/route';
+import { POST as generate } from './generate/route';
+import { POST as mmp } from './mmp/route';
+import { POST as optimize } from './optimize/route';
+import { POST as pharmacophore } from './pharmacophore/route';
+import { POST as pockets } from './pockets/route';
+import { POST as train } from './qsar/train/route';
+import { POST as rgroups } from './rgroups/route';
+import { POST as scaffolds } from './scaffolds/route';
+import { POST as similarity } from './similarity/route';
+import { POST as substructure } from './substructure/route';
+
+// Each request is valid apart from its parameters.
+const routes: [string, (request: NextRequest) => Promise<Response>, Record<string, unknown>][] = [
+  ['cliffs', cliffs, { library: ['CCO', 'CCN'], activities: [1, 2] }],
+  ['clustering', clustering, { library: ['CCO', 'CCN'] }],
+  ['docking', docking, { receptor: 'ATOM', ligands: ['CCO'] }],
+  ['generate', generate, { type: 'molecular-similarity' }],
+  ['mmp', mmp, { library: ['CCO', 'CCN'] }],
+  ['optimize', optimize, { smiles: 'CCO' }],
+  ['pharmacophore', pharmacophore, { actives: ['CCO'] }],
+  ['pockets', pockets, { structure: 'ATOM' }],
+  ['qsar/train', train, { smiles: ['CCO', 'CCN'], activities: [1, 2] }],
+  ['rgroups', rgroups, { library: ['c1ccccc1O'], core: 'c1ccccc1' }],
+  ['scaffolds', scaffolds, { library: ['c1ccccc1CC'] }],
+  ['similarity', similarity, { query: 'CCO', library: ['CCN'] }],
+  ['substructure', substructure, { query: 'CO', library: ['CCO'] }],
+];
+
+describe('POST parameters', () => {
+  it.each(routes)('%s rejects null parameters with a 400', async (_name, post, body) => {
+    const response = await post({ json: async () => ({ ...body, parameters: null }) } as NextRequest);
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'Expected parameters to be an object' });
+  });
+});
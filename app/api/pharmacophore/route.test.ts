@@ -0,0 +1,58 @@
+import type { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { POST } from './route';
+
+async function search(body: unknown) {
+  const response = await POST({ json: async () => body } as NextRequest);
+  return { status: response.status, data: await response.json() };
+}
+
+const column = (value: number) => value.toFixed(4).padStart(10);
+
+// V2000 record for 3-aminopropan-1-ol laid out along the x axis from `x`.
+function aminopropanol(name: string, x: number): string {
+  const atoms = ['N', 'C', 'C', 'C', 'O'].map(
+    (element, i) => `${column(x + 1.5 * i)}${column(0)}${column(0)} ${element.padEnd(3)} 0  0  0  0  0  0  0  0  0  0  0  0`,
+  );
+  const bonds = [1, 2, 3, 4].map((i) => `${String(i).padStart(3)}${String(i + 1).padStart(3)}  1  0`);
+  return [name, '  test', '', '  5  4  0  0  0  0  0  0  0  0999 V2000', ...atoms, ...bonds, 'M  END', '$$$$', ''].join('\n');
+}
+
+describe('POST /api/pharmacophore', () => {
+  it('builds a model from actives, screens a library and exports the model', async () => {
+    const { status, data } = await search({
+      actives: aminopropanol('a1', 0) + aminopropanol('a2', 0.2),
+      inactives: aminopropanol('i1', 5),
+      library: aminopropanol('near', 0.5) + aminopropanol('far', 10) + aminopropanol('far', 0.1) + 'broken\n',
+      exportFormats: ['pml'],
+    });
+    expect(status).toBe(200);
+    expect(data.model.features).toHaveLength(6);
+    expect(data.model.features[0].center).toEqual([0.1, 0, 0]);
+    expect(data).toMatchObject({ sensitivity: 1, specificity: 1, actives: 2, inactives: 1, screened: 2 });
+    expect(data.hits.map((hit: { name: string; conformer: number }) => [hit.name, hit.conformer])).toEqual([
+      ['far', 1],
+      ['near', 0],
+    ]);
+    expect(data.hits[1].fitScore).toBe(0.84);
+    expect(data.invalid).toEqual([{ index: 3, error: 'Missing counts line', line: 2 }]);
+    expect(data.exports.pml).toContain('<pharmacophore');
+  });
+
+  it('screens with a supplied model', async () => {
+    const model = { features: [{ type: 'HBD', center: [0, 0, 0], radius: 1 }] };
+    const { status, data } = await search({ model, library: aminopropanol('m', 0) });
+    expect(status).toBe(200);
+    expect(data.hits).toHaveLength(1);
+    expect(data.model.features[0].weight).toBe(1);
+  });
+
+  it('rejects invalid training records, models and parameters', async () => {
+    const broken = await search({ actives: aminopropanol('a', 0).replace(' N  ', ' Xx ') });
+    expect(broken).toEqual({ status: 400, data: { error: "Invalid actives record 0: Unsupported atom symbol 'Xx' at line 5" } });
+    expect((await search({})).status).toBe(400);
+    expect((await search({ model: { features: [] } })).status).toBe(400);
+    expect((await search({ actives: aminopropanol('a', 0), parameters: { minFeatures: 10 } })).status).toBe(400);
+    expect((await search({ model: 'x', modelFormat: 'mol2' })).status).toBe(400);
+  });
+});
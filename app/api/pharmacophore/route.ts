@@ -0,0 +1,213 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Vec3 } from '@/lib/chem/geometry';
+import {
+  MAX_MODEL_FEATURES,
+  PharmacophoreModelError,
+  PharmacophoreOptionsError,
+  buildPharmacophoreModel,
+  pharmacophoreFeatureTypes,
+  resolvePharmacophoreModel,
+  resolvePharmacophoreParameters,
+  screenPharmacophore,
+  type PharmacophoreModel,
+  type PharmacophoreParameters,
+} from '@/lib/chem/pharmacophore';
+import {
+  PharmacophoreFormatError,
+  exportPharmacophore,
+  importPharmacophore,
+  isPharmacophoreFormat,
+  pharmacophoreFormats,
+  type PharmacophoreFormat,
+} from '@/lib/chem/pharmacophore-formats';
+import { SdfParseError, groupConformers, parseMolBlock, splitSdf, type SdfRecord } from '@/lib/chem/sdf';
+
+interface PharmacophoreRequest {
+  // SD files of aligned 3D structures; consecutive records with the same
+  // title are conformers of one compound.
+  actives?: string;
+  inactives?: string;
+  library?: string;
+  // A model returned earlier, used instead of building one from actives:
+  // the JSON object, or a PML / Pharmer / PDB file with modelFormat set.
+  model?: unknown;
+  modelFormat?: string;
+  // Formats the resulting model is also returned in.
+  exportFormats?: string[];
+  parameters?: PharmacophoreParameters;
+}
+
+const MAX_RECORDS = 1000;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+const roundPoint = (point: Vec3) => point.map(round) as Vec3;
+
+function roundModel(model: PharmacophoreModel): PharmacophoreModel {
+  return {
+    features: model.features.map((feature) => ({
+      ...feature,
+      center: roundPoint(feature.center),
+      weight: round(feature.weight),
+    })),
+    excludedVolumes: model.excludedVolumes.map((volume) => ({ ...volume, center: roundPoint(volume.center) })),
+  };
+}
+
+class SdfInputError extends Error {}
+
+// Training sets must parse completely; the error names the failing record.
+function parseTrainingSet(field: string, text: string | undefined): SdfRecord[][] {
+  if (text === undefined) return [];
+  if (typeof text !== 'string') throw new SdfInputError(`Expected ${field} to be an SD file string`);
+  const blocks = splitSdf(text);
+  if (blocks.length > MAX_RECORDS) throw new SdfInputError(`At most ${MAX_RECORDS} ${field} records are allowed`);
+  return groupConformers(
+    blocks.map((block, index) => {
+      try {
+        return parseMolBlock(block);
+      } catch (error) {
+        if (error instanceof SdfParseError) {
+          throw new SdfInputError(`Invalid ${field} record ${index}: ${error.reason} at line ${error.line}`);
+        }
+        throw error;
+      }
+    }),
+  );
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: PharmacophoreRequest = await request.json();
+    const { actives, inactives, library, model: suppliedModel, modelFormat, exportFormats = [], parameters = {} } = body;
+
+    if (typeof parameters !== 'object' || parameters === null) {
+      return NextResponse.json(
+        { error: 'Expected parameters to be an object' },
+        { status: 400 }
+      );
+    }
+
+    if (actives === undefined && suppliedModel === undefined) {
+      return NextResponse.json(
+        { error: 'Expected actives to build a model from, or a model to screen with' },
+        { status: 400 }
+      );
+    }
+    if (library !== undefined && typeof library !== 'string') {
+      return NextResponse.json(
+        { error: 'Expected library to be an SD file string' },
+        { status: 400 }
+      );
+    }
+
+    if (modelFormat !== undefined && (typeof modelFormat !== 'string' || !isPharmacophoreFormat(modelFormat) || typeof suppliedModel !== 'string')) {
+      return NextResponse.json(
+        { error: `Expected modelFormat to be one of ${pharmacophoreFormats.join(', ')} with model as a file string` },
+        { status: 400 }
+      );
+    }
+    if (!Array.isArray(exportFormats) || !exportFormats.every((format) => typeof format === 'string' && isPharmacophoreFormat(format))) {
+      return NextResponse.json(
+        { error: `Expected exportFormats to be a list of ${pharmacophoreFormats.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const resolved = resolvePharmacophoreParameters(parameters);
+
+    let model: PharmacophoreModel;
+    let validation: { sensitivity: number; specificity: number; actives: number; inactives: number } | null = null;
+    if (actives !== undefined) {
+      const activeCompounds = parseTrainingSet('actives', actives);
+      const inactiveCompounds = parseTrainingSet('inactives', inactives);
+      const result = buildPharmacophoreModel(activeCompounds, inactiveCompounds, resolved);
+      model = result.model;
+      validation = {
+        sensitivity: round(result.sensitivity),
+        specificity: round(result.specificity),
+        actives: activeCompounds.length,
+        inactives: inactiveCompounds.length,
+      };
+    } else {
+      model = modelFormat !== undefined ? importPharmacophore(suppliedModel as string, modelFormat as PharmacophoreFormat) : resolvePharmacophoreModel(suppliedModel);
+    }
+
+    let screening = {};
+    if (library !== undefined) {
+      const blocks = splitSdf(library);
+      if (blocks.length > MAX_RECORDS) {
+        return NextResponse.json(
+          { error: `At most ${MAX_RECORDS} library records can be screened per request` },
+          { status: 400 }
+        );
+      }
+      const records: (SdfRecord & { index: number })[] = [];
+      const invalid: { index: number; error: string; line: number }[] = [];
+      blocks.forEach((block, index) => {
+        try {
+          records.push({ ...parseMolBlock(block), index });
+        } catch (error) {
+          if (!(error instanceof SdfParseError)) throw error;
+          invalid.push({ index, error: error.reason, line: error.line });
+        }
+      });
+      const compounds = groupConformers(records).map((conformers) => ({
+        index: conformers[0].index,
+        name: conformers[0].name,
+        conformers,
+      }));
+      const hits = screenPharmacophore(model, compounds, resolved).map((hit) => ({
+        ...hit,
+        fitScore: round(hit.fitScore),
+        matches: hit.matches.map((match) => ({ ...match, center: roundPoint(match.center), distance: round(match.distance) })),
+      }));
+      screening = { hits, screened: compounds.length, invalid };
+    }
+
+    const rounded = roundModel(model);
+    const exports: Partial<Record<PharmacophoreFormat, string>> = {};
+    for (const format of exportFormats as PharmacophoreFormat[]) {
+      exports[format] = exportPharmacophore(rounded, format);
+    }
+
+    return NextResponse.json(
+      {
+        parameters: resolved,
+        model: rounded,
+        ...(validation ?? {}),
+        ...screening,
+        ...(exportFormats.length > 0 ? { exports } : {}),
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (
+      error instanceof PharmacophoreOptionsError ||
+      error instanceof PharmacophoreModelError ||
+      error instanceof PharmacophoreFormatError ||
+      error instanceof SdfInputError
+    ) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error running pharmacophore search:', error);
+    return NextResponse.json(
+      { error: 'Failed to run pharmacophore search' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Pharmacophore model building and screening of aligned 3D structures',
+    featureTypes: pharmacophoreFeatureTypes,
+    maxFeatures: MAX_MODEL_FEATURES,
+    maxRecords: MAX_RECORDS,
+    modelFormats: pharmacophoreFormats,
+    input: 'V2000 SD files; consecutive records with the same title are conformers of one compound',
+    usage: 'POST /api/pharmacophore with { actives?, inactives?, model?, modelFormat?, library?, exportFormats?, parameters?: { featureTypes, toleranceRadius, minFeatures, maxFeatures, conformerGeneration } }',
+  });
+}
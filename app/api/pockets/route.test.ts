@@ -0,0 +1,60 @@
+import type { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { POST } from './route';
+
+async function detect(body: unknown) {
+  const response = await POST({ json: async () => body } as NextRequest);
+  return { status: response.status, data: await response.json() };
+}
+
+const column = (value: number) => value.toFixed(3).padStart(8);
+
+// A closed 12 Å box of carbon atoms, one ALA residue per face, around a
+// one-atom ligand.
+function boxPdb(): string {
+  const lines: string[] = [];
+  const steps = [0, 1, 2, 3, 4, 5, 6, 7, 8].map((i) => 1.5 * i);
+  let residue = 0;
+  for (let axis = 0; axis < 3; axis++) {
+    for (const side of [0, 12]) {
+      residue++;
+      for (const u of steps) {
+        for (const v of steps) {
+          const position = [0, 0, 0];
+          position[axis] = side;
+          position[(axis + 1) % 3] = u;
+          position[(axis + 2) % 3] = v;
+          lines.push(`ATOM  ${String(lines.length + 1).padStart(5)}  CA  ALA A${String(residue).padStart(4)}    ${position.map(column).join('')}  1.00  0.00           C`);
+        }
+      }
+    }
+  }
+  lines.push(`HETATM${String(lines.length + 1).padStart(5)}  C1  LIG A 100    ${[6, 6, 6].map(column).join('')}  1.00  0.00           C`);
+  return lines.join('\n') + '\nEND\n';
+}
+
+describe('POST /api/pockets', () => {
+  it('summarises the structure and returns ranked pockets with lining residues and ligands', async () => {
+    const { status, data } = await detect({ structure: boxPdb(), parameters: { scanDistance: 12 } });
+    expect(status).toBe(200);
+    expect(data.protein).toEqual({
+      format: 'pdb',
+      atoms: 487,
+      residues: 7,
+      chains: ['A'],
+      ligands: [{ name: 'LIG', chain: 'A', number: 100, insertionCode: '', center: [6, 6, 6], atoms: 1 }],
+    });
+    expect(data.pockets).toHaveLength(1);
+    expect(data.pockets[0]).toMatchObject({ rank: 1, center: [6, 6, 6], volume: 729, points: 729, ligands: ['LIG A 100'] });
+    expect(data.pockets[0].residues).toHaveLength(6);
+    expect(data.pockets[0].residues[0]).toEqual({ name: 'ALA', chain: 'A', number: 1, insertionCode: '' });
+  });
+
+  it('rejects missing structures, unknown formats and unreadable files', async () => {
+    expect((await detect({})).status).toBe(400);
+    expect((await detect({ structure: boxPdb(), format: 'mol2' })).status).toBe(400);
+    const unreadable = await detect({ structure: 'data_X\n', parameters: {} });
+    expect(unreadable).toEqual({ status: 400, data: { error: 'No _atom_site loop at line 2' } });
+    expect((await detect({ structure: boxPdb(), parameters: { gridSpacing: 5 } })).status).toBe(400);
+  });
+});
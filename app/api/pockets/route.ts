@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Vec3 } from '@/lib/chem/geometry';
+import {
+  MAX_GRID_POINTS,
+  PocketOptionsError,
+  detectPockets,
+  resolvePocketParameters,
+  type PocketParameters,
+} from '@/lib/chem/pockets';
+import {
+  ProteinParseError,
+  detectStructureFormat,
+  isStructureFormat,
+  ligandResidues,
+  parseStructure,
+  residueCenter,
+  residueLabel,
+  structureFormats,
+  type Residue,
+} from '@/lib/chem/protein';
+
+interface PocketsRequest {
+  // PDB or mmCIF text; the format is detected when not given.
+  structure?: string;
+  format?: string;
+  parameters?: PocketParameters;
+}
+
+const MAX_ATOMS = 100000;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+const roundPoint = (point: Vec3) => point.map(round) as Vec3;
+
+const residueId = ({ name, chain, number, insertionCode }: Residue) => ({ name, chain, number, insertionCode });
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: PocketsRequest = await request.json();
+    const { structure, format, parameters = {} } = body;
+
+    if (typeof parameters !== 'object' || parameters === null) {
+      return NextResponse.json(
+        { error: 'Expected parameters to be an object' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof structure !== 'string' || structure.trim() === '') {
+      return NextResponse.json(
+        { error: 'Expected structure to be a PDB or mmCIF file string' },
+        { status: 400 }
+      );
+    }
+    if (format !== undefined && (typeof format !== 'string' || !isStructureFormat(format))) {
+      return NextResponse.json(
+        { error: `Expected format to be one of ${structureFormats.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const resolved = resolvePocketParameters(parameters);
+    const structureFormat = format ?? detectStructureFormat(structure);
+    const protein = parseStructure(structure, structureFormat);
+    if (protein.atoms.length > MAX_ATOMS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_ATOMS} atoms can be searched per request` },
+        { status: 400 }
+      );
+    }
+
+    const pockets = detectPockets(protein, resolved).map((pocket) => ({
+      rank: pocket.rank,
+      center: roundPoint(pocket.center),
+      volume: round(pocket.volume),
+      buriedness: round(pocket.buriedness),
+      score: pocket.score,
+      points: pocket.points.length,
+      residues: pocket.residues.map((index) => residueId(protein.residues[index])),
+      ligands: pocket.ligands.map((index) => residueLabel(protein.residues[index])),
+    }));
+
+    return NextResponse.json(
+      {
+        parameters: resolved,
+        protein: {
+          format: structureFormat,
+          atoms: protein.atoms.length,
+          residues: protein.residues.length,
+          chains: protein.chains,
+          ligands: ligandResidues(protein).map((residue) => ({
+            ...residueId(residue),
+            center: roundPoint(residueCenter(protein, residue)),
+            atoms: residue.atoms.length,
+          })),
+        },
+        pockets,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ProteinParseError || error instanceof PocketOptionsError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error detecting pockets:', error);
+    return NextResponse.json(
+      { error: 'Failed to detect pockets' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Binding-pocket detection on protein structures',
+    formats: structureFormats,
+    defaults: resolvePocketParameters({}),
+    maxAtoms: MAX_ATOMS,
+    maxGridPoints: MAX_GRID_POINTS,
+    method: 'LIGSITE-style grid scan: free grid points enclosed by protein along the axes and cube diagonals, clustered into pockets',
+    usage: 'POST /api/pockets with { structure, format?, parameters?: { gridSpacing, scanDistance, minBuriedness, minVolume, maxPockets, includeHetero } }',
+  });
+}
@@ -0,0 +1,56 @@
+import type { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { POST } from './route';
+
+async function train(body: unknown) {
+  const response = await POST({ json: async () => body } as NextRequest);
+  return { status: response.status, data: await response.json() };
+}
+
+// Linear alkanes and alcohols, C2-C16.
+const smiles = Array.from({ length: 15 }, (_, i) => 'C'.repeat(i + 2)).flatMap((chain) => [chain, `${chain}O`]);
+
+describe('POST /api/qsar/train', () => {
+  it('cross-validates a regression model that tracks its descriptor', async () => {
+    const activities = smiles.map((s) => s.replace('O', '').length * 0.5 - (s.endsWith('O') ? 1 : 0));
+    const { status, data } = await train({
+      smiles: [...smiles, 'C1CC'],
+      activities: [...activities, 0],
+      parameters: { descriptors: ['HeavyAtoms', 'HBD'], kFolds: 4, maxIterations: 20 },
+    });
+    expect(status).toBe(200);
+    expect(data.trainingSize).toBe(30);
+    expect(data.invalid).toEqual([expect.objectContaining({ index: 30 })]);
+    expect(data.crossValidation.kFolds).toBe(4);
+    expect(data.crossValidation.folds).toHaveLength(4);
+    expect(data.crossValidation.metrics.r2).toBeGreaterThan(0.8);
+    expect(data.featureImportances.map((entry: { descriptor: string }) => entry.descriptor)).toEqual(['HeavyAtoms', 'HBD']);
+    expect(data.predictions).toHaveLength(30);
+    expect(data.predictions[0]).toMatchObject({ index: 0, smiles: 'CC', observed: 1 });
+    expect(data.predictions[0].fold).toBeGreaterThanOrEqual(0);
+  });
+
+  it('classifies with labelled classes and per-class probabilities', async () => {
+    const activities = smiles.map((s) => (s.endsWith('O') ? 'alcohol' : 'alkane'));
+    const { status, data } = await train({
+      smiles,
+      activities,
+      task: 'classification',
+      parameters: { descriptors: ['HBD', 'TPSA'], kFolds: 5, maxIterations: 20 },
+    });
+    expect(status).toBe(200);
+    expect(data.classes).toEqual(['alcohol', 'alkane']);
+    expect(data.crossValidation.metrics.accuracy).toBe(1);
+    const [first] = data.predictions;
+    expect(first.predicted).toBe('alkane');
+    expect(Object.keys(first.probabilities)).toEqual(['alcohol', 'alkane']);
+  });
+
+  it('rejects mismatched inputs, unknown tasks and too few compounds for the folds', async () => {
+    expect((await train({ smiles: ['CC'], activities: [] })).status).toBe(400);
+    expect((await train({ smiles, activities: smiles.map(() => 1), task: 'ranking' })).status).toBe(400);
+    const tooFew = await train({ smiles: ['CC', 'CCC'], activities: [1, 2], parameters: { kFolds: 5 } });
+    expect(tooFew.status).toBe(400);
+    expect(tooFew.data.error).toMatch(/^At least 5 valid compounds/);
+  });
+});
@@ -0,0 +1,212 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  QsarTrainingError,
+  descriptorRow,
+  domainSample,
+  isQsarTask,
+  qsarTasks,
+  resolveQsarParameters,
+  trainQsar,
+  type QsarParameters,
+} from '@/lib/ml/qsar';
+import { domainFingerprint, williamsPlot } from '@/lib/ml/domain';
+import { saveModel, serializeModel } from '@/lib/ml/registry';
+import { SmilesParseError, parseSmiles, writeSmiles } from '@/lib/chem/smiles';
+
+interface TrainRequest {
+  smiles: string[];
+  activities: (number | string)[];
+  task?: string;
+  parameters?: QsarParameters;
+  // Persist the final model in the registry under this name.
+  save?: boolean;
+  name?: string;
+}
+
+const MAX_TRAINING_SIZE = 5000;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+function roundMetrics<T extends object>(metrics: T): T {
+  return Object.fromEntries(
+    Object.entries(metrics).map(([key, value]) => [key, typeof value === 'number' ? round(value) : value]),
+  ) as T;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: TrainRequest = await request.json();
+    const { smiles, activities, task = 'regression', parameters = {}, save = false, name } = body;
+
+    if (typeof parameters !== 'object' || parameters === null) {
+      return NextResponse.json(
+        { error: 'Expected parameters to be an object' },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Array.isArray(smiles) ||
+      !Array.isArray(activities) ||
+      smiles.length !== activities.length ||
+      smiles.some((s) => typeof s !== 'string')
+    ) {
+      return NextResponse.json(
+        { error: 'Expected smiles and activities arrays of the same length' },
+        { status: 400 }
+      );
+    }
+
+    if (smiles.length > MAX_TRAINING_SIZE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_TRAINING_SIZE} compounds can be used for training` },
+        { status: 400 }
+      );
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || name.trim() === '')) {
+      return NextResponse.json(
+        { error: 'name must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    if (!isQsarTask(task)) {
+      return NextResponse.json(
+        { error: `Invalid task. Expected one of: ${qsarTasks.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const resolved = resolveQsarParameters(parameters);
+    const rows: {
+      index: number;
+      smiles: string;
+      canonicalSmiles: string;
+      activity: number | string;
+      x: number[];
+      fingerprint: number[];
+    }[] = [];
+    const invalid: { index: number; smiles: string; error: string; position: number }[] = [];
+    smiles.forEach((input, index) => {
+      try {
+        const mol = parseSmiles(input);
+        const x = descriptorRow(mol, resolved.descriptors);
+        rows.push({
+          index,
+          smiles: input,
+          canonicalSmiles: writeSmiles(mol),
+          activity: activities[index],
+          x,
+          fingerprint: domainFingerprint(mol),
+        });
+      } catch (error) {
+        if (!(error instanceof SmilesParseError)) throw error;
+        invalid.push({ index, smiles: input, error: error.reason, position: error.position });
+      }
+    });
+
+    const result = trainQsar(
+      task,
+      rows.map((row) => row.x),
+      rows.map((row) => row.fingerprint),
+      rows.map((row) => row.activity),
+      resolved,
+    );
+    const { crossValidation, classes } = result;
+
+    let modelId: string | undefined;
+    if (save) {
+      const model = serializeModel(result, name?.trim() || `QSAR ${task} (${resolved.descriptors.join(', ')})`, rows);
+      await saveModel(model);
+      modelId = model.id;
+    }
+
+    const predictions = rows.map((row, i) => {
+      const prediction = crossValidation.predictions[i];
+      const domain = crossValidation.domain[i];
+      return {
+        index: row.index,
+        smiles: row.smiles,
+        observed: row.activity,
+        fold: crossValidation.folds[i],
+        domain: { inDomain: domain.inDomain, distance: round(domain.distance) },
+        ...(classes
+          ? {
+              predicted: classes[prediction.value],
+              probabilities: Object.fromEntries(classes.map((label, c) => [label, round(prediction.probabilities[c])])),
+            }
+          : { predicted: round(prediction.value), spread: round(prediction.spread) }),
+      };
+    });
+
+    const featureImportances = resolved.descriptors
+      .map((descriptor, j) => ({ descriptor, importance: round(result.forest.importances[j]) }))
+      .sort((a, b) => b.importance - a.importance);
+
+    // Williams plot of the final model's leverages against out-of-fold
+    // residuals, for leverage-based domains on regression tasks.
+    const williams =
+      result.domain.method === 'leverage' && !classes
+        ? {
+            leverageThreshold: round(result.domain.threshold),
+            residualLimit: 3,
+            points: williamsPlot(
+              result.domain,
+              rows.map((row) => domainSample(result.normalization, row.x, row.fingerprint)),
+              rows.map((row, i) => (row.activity as number) - crossValidation.predictions[i].value),
+            ).map((point, i) => ({
+              index: rows[i].index,
+              leverage: round(point.leverage),
+              standardizedResidual: round(point.standardizedResidual),
+            })),
+          }
+        : null;
+
+    return NextResponse.json(
+      {
+        ...(modelId ? { modelId } : {}),
+        task,
+        parameters: resolved,
+        trainingSize: rows.length,
+        ...(classes ? { classes } : {}),
+        crossValidation: {
+          kFolds: crossValidation.kFolds,
+          metrics: roundMetrics(crossValidation.metrics),
+          folds: crossValidation.foldMetrics.map(roundMetrics),
+        },
+        featureImportances,
+        applicabilityDomain: {
+          method: result.domain.method,
+          ...('threshold' in result.domain ? { threshold: round(result.domain.threshold) } : {}),
+          inDomainRate: round(crossValidation.domain.filter((d) => d.inDomain).length / rows.length),
+        },
+        ...(williams ? { williamsPlot: williams } : {}),
+        predictions,
+        invalid,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof QsarTrainingError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error training QSAR model:', error);
+    return NextResponse.json(
+      { error: 'Failed to train QSAR model' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'QSAR random forest training with k-fold cross-validation',
+    tasks: qsarTasks,
+    maxTrainingSize: MAX_TRAINING_SIZE,
+    usage: 'POST /api/qsar/train with { smiles, activities, task?, parameters?, save?, name? }',
+  });
+}
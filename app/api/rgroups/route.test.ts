@@ -0,0 +1,53 @@
+import type { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { POST } from './route';
+
+async function analyze(body: unknown) {
+  const response = await POST({ json: async () => body } as NextRequest);
+  return { status: response.status, data: await response.json() };
+}
+
+const core = '[*:1]c1ccc([*:2])cc1';
+const library = ['Clc1ccc(O)cc1', 'Oc1ccc(F)cc1', 'Clc1ccc(N)cc1', 'Nc1ccc(F)cc1', 'Oc1ccccc1', 'Clc1cc(O)ccc1', 'C1CC('];
+const activities = [5, 4.5, 6, 5.5, 4, 3, null];
+
+describe('POST /api/rgroups', () => {
+  it('decomposes the series and fits a Free-Wilson model with predictions for unmade compounds', async () => {
+    const { status, data } = await analyze({ library, core, activities, parameters: { ridgeAlpha: 0 } });
+    expect(status).toBe(200);
+    expect(data.parameters).toEqual({ core, labels: ['R1', 'R2'], ridgeAlpha: 0, maxPredictions: 100 });
+    expect(data).toMatchObject({ compounds: 6, decomposedCount: 5 });
+    expect(data.decompositions[1]).toEqual({
+      index: 1,
+      smiles: 'Oc1ccc(F)cc1',
+      core,
+      rgroups: { R1: '[*:1]F', R2: '[*:2]O' },
+      activity: 4.5,
+    });
+    expect(data.unmatched).toEqual([{ index: 5, smiles: 'Clc1cc(O)ccc1', reason: 'A substituent sits on an unlabelled core atom' }]);
+    expect(data.invalid).toEqual([{ index: 6, smiles: 'C1CC(', error: 'Unclosed branch', position: 4 }]);
+
+    const { freeWilson } = data;
+    expect(freeWilson.intercept).toBe(5);
+    expect(freeWilson.contributions.R2).toEqual([
+      { rgroup: '[*:2]N', count: 2, contribution: 1, reference: false },
+      { rgroup: '[*:2]O', count: 3, contribution: 0, reference: true },
+    ]);
+    expect(freeWilson.training).toEqual({ r2: 1, rmse: 0, mae: 0 });
+    expect(freeWilson.predictions).toEqual([{ smiles: 'Nc1ccccc1', rgroups: { R1: '[*:1][H]', R2: '[*:2]N' }, predicted: 5 }]);
+  });
+
+  it('skips Free-Wilson analysis without activities', async () => {
+    const { data } = await analyze({ library, core });
+    expect(data.freeWilson).toBeNull();
+    expect(data.decompositions[0].activity).toBeNull();
+  });
+
+  it('rejects a core without attachment points, invalid SMARTS and misaligned activities', async () => {
+    expect((await analyze({ library, core: 'c1ccccc1' })).status).toBe(400);
+    const smarts = await analyze({ library, core: '[*:1]c1ccc(' });
+    expect(smarts.status).toBe(400);
+    expect(smarts.data.error).toMatch(/^Invalid core SMARTS/);
+    expect((await analyze({ library, core, activities: [1] })).status).toBe(400);
+  });
+});
@@ -0,0 +1,211 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Molecule } from '@/lib/chem/molecule';
+import {
+  MAX_CORE_MATCHES,
+  RGroupOptionsError,
+  assembleCompound,
+  decomposeRGroups,
+  hydrogenGroup,
+  parseRGroupCore,
+  type RGroupCore,
+} from '@/lib/chem/rgroups';
+import { SmartsParseError } from '@/lib/chem/smarts';
+import { SmilesParseError, parseSmiles } from '@/lib/chem/smiles';
+import {
+  FreeWilsonOptionsError,
+  MAX_PREDICTIONS,
+  fitFreeWilson,
+  predictCombinations,
+  resolveFreeWilsonParameters,
+  type FreeWilsonParameters,
+} from '@/lib/ml/free-wilson';
+import type { RegressionMetrics } from '@/lib/ml/validation';
+
+interface RGroupRequest {
+  library: string[];
+  // Core SMARTS with labelled attachment points, e.g. [*:1]c1ccc(cc1)C(=O)N[*:2]
+  core: string;
+  // Aligned with library; null for unmeasured compounds. Free-Wilson
+  // analysis needs them.
+  activities?: (number | null)[];
+  parameters?: FreeWilsonParameters;
+}
+
+const MAX_LIBRARY_SIZE = 2000;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: RGroupRequest = await request.json();
+    const { library, core, activities, parameters = {} } = body;
+
+    if (typeof parameters !== 'object' || parameters === null) {
+      return NextResponse.json(
+        { error: 'Expected parameters to be an object' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(library) || library.some((smiles) => typeof smiles !== 'string')) {
+      return NextResponse.json(
+        { error: 'Expected a library array of SMILES' },
+        { status: 400 }
+      );
+    }
+    if (library.length > MAX_LIBRARY_SIZE) {
+      return NextResponse.json(
+        { error: `Library is limited to ${MAX_LIBRARY_SIZE} compounds per request` },
+        { status: 400 }
+      );
+    }
+    if (typeof core !== 'string') {
+      return NextResponse.json(
+        { error: 'Expected a core SMARTS with labelled attachment points such as [*:1]' },
+        { status: 400 }
+      );
+    }
+    if (
+      activities !== undefined &&
+      (!Array.isArray(activities) ||
+        activities.length !== library.length ||
+        activities.some((value) => value !== null && (typeof value !== 'number' || !Number.isFinite(value))))
+    ) {
+      return NextResponse.json(
+        { error: 'Expected activities to be an array of numbers or nulls, one per library compound' },
+        { status: 400 }
+      );
+    }
+
+    const resolved = resolveFreeWilsonParameters(parameters);
+    let rgroupCore: RGroupCore;
+    try {
+      rgroupCore = parseRGroupCore(core);
+    } catch (error) {
+      if (error instanceof SmartsParseError) {
+        return NextResponse.json(
+          { error: `Invalid core SMARTS: ${error.reason}`, position: error.position },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    // Library index of each parsed compound
+    const indices: number[] = [];
+    const molecules: Molecule[] = [];
+    const invalid: { index: number; smiles: string; error: string; position: number }[] = [];
+    library.forEach((smiles, index) => {
+      try {
+        molecules.push(parseSmiles(smiles));
+        indices.push(index);
+      } catch (error) {
+        if (!(error instanceof SmilesParseError)) throw error;
+        invalid.push({ index, smiles, error: error.reason, position: error.position });
+      }
+    });
+
+    const { decompositions, unmatched } = decomposeRGroups(molecules, rgroupCore);
+    const labels = rgroupCore.labels.map((label) => `R${label}`);
+    const byLabel = (rgroups: string[]) => Object.fromEntries(rgroups.map((rgroup, k) => [labels[k], rgroup]));
+    const decomposed = decompositions.flatMap((d, i) => (d ? [{ i, ...d }] : []));
+
+    // Free-Wilson on the decomposed compounds with an activity
+    const measured = decomposed.filter(({ i }) => activities?.[indices[i]] != null);
+    let freeWilson = null;
+    if (measured.length >= 2) {
+      const observed = measured.map(({ i }) => activities![indices[i]] as number);
+      const model = fitFreeWilson(
+        measured.map((d) => d.rgroups),
+        observed,
+        resolved
+      );
+      const search = predictCombinations(
+        model,
+        decomposed.map((d) => d.rgroups),
+        resolved.maxPredictions
+      );
+      // Unmade compounds are built on the most common matched core
+      const tally = new Map<string, number>();
+      measured.forEach((d) => tally.set(d.core, (tally.get(d.core) ?? 0) + 1));
+      const commonCore = [...tally].sort((a, b) => b[1] - a[1])[0][0];
+      const metrics = (m: RegressionMetrics) => ({
+        r2: round(m.r2),
+        rmse: round(m.rmse),
+        mae: round(m.mae),
+      });
+
+      freeWilson = {
+        intercept: round(model.intercept),
+        contributions: Object.fromEntries(
+          model.contributions.map((list, k) => [
+            labels[k],
+            list.map((c) => ({ ...c, contribution: round(c.contribution) })),
+          ])
+        ),
+        training: metrics(model.training),
+        leaveOneOut: model.leaveOneOut && metrics(model.leaveOneOut),
+        compounds: measured.map((d, m) => ({
+          index: indices[d.i],
+          observed: observed[m],
+          fitted: round(model.fitted[m]),
+        })),
+        core: commonCore,
+        combinationCount: search.combinationCount,
+        unmadeCount: search.unmadeCount,
+        predictions: search.predictions.map((prediction) => ({
+          smiles: assembleCompound(commonCore, prediction.rgroups),
+          rgroups: byLabel(prediction.rgroups),
+          predicted: round(prediction.predicted),
+        })),
+      };
+    }
+
+    return NextResponse.json(
+      {
+        parameters: { core, labels, ...resolved },
+        compounds: molecules.length,
+        decomposedCount: decomposed.length,
+        decompositions: decomposed.map((d) => ({
+          index: indices[d.i],
+          smiles: library[indices[d.i]],
+          core: d.core,
+          rgroups: byLabel(d.rgroups),
+          activity: activities?.[indices[d.i]] ?? null,
+        })),
+        unmatched: unmatched.map(({ index, reason }) => ({
+          index: indices[index],
+          smiles: library[indices[index]],
+          reason,
+        })),
+        freeWilson,
+        invalid,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof FreeWilsonOptionsError || error instanceof RGroupOptionsError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error decomposing R-groups:', error);
+    return NextResponse.json(
+      { error: 'Failed to decompose R-groups' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'R-group decomposition on a labelled core SMARTS, with a Free-Wilson additive model of the substituent contributions and predictions for unmade combinations',
+    defaults: resolveFreeWilsonParameters({}),
+    hydrogenGroup: hydrogenGroup(1),
+    maxCoreMatches: MAX_CORE_MATCHES,
+    maxPredictions: MAX_PREDICTIONS,
+    maxLibrarySize: MAX_LIBRARY_SIZE,
+    usage: 'POST /api/rgroups with { library, core, activities?, parameters?: { ridgeAlpha, maxPredictions } }',
+  });
+}
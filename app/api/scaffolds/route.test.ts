@@ -0,0 +1,54 @@
+import type { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { POST } from './route';
+
+async function analyze(body: unknown) {
+  const response = await POST({ json: async () => body } as NextRequest);
+  return { status: response.status, data: await response.json() };
+}
+
+const library = ['Cc1ccccc1', 'Oc1ccccc1', 'c1ccncc1', 'CCCC', 'c1ccc(cc1)Cc1ccccc1', 'C1CC('];
+
+describe('POST /api/scaffolds', () => {
+  it('reports scaffolds by library index with activities and hops from the query', async () => {
+    const { status, data } = await analyze({ library, activities: [5, 7, null, 4, 6, null], query: 'Clc1ccccc1' });
+    expect(status).toBe(200);
+    expect(data.compounds).toBe(5);
+    expect(data.scaffoldCount).toBe(3);
+    expect(data.query).toEqual({ smiles: 'Clc1ccccc1', scaffold: 'c1ccccc1', generic: 'C1CCCCC1' });
+    expect(data.scaffolds).toEqual([
+      {
+        smiles: 'c1ccccc1',
+        generic: 'C1CCCCC1',
+        rings: 1,
+        count: 2,
+        members: [0, 1],
+        activity: { count: 2, mean: 6, std: 1.414, min: 5, max: 7 },
+        hop: 'none',
+      },
+      expect.objectContaining({ smiles: 'C(c1ccccc1)c1ccccc1', members: [4], hop: 'topology' }),
+      expect.objectContaining({ smiles: 'c1ccncc1', members: [2], activity: null, hop: 'heteroatom' }),
+    ]);
+    expect(data.genericScaffolds[0]).toMatchObject({ smiles: 'C1CCCCC1', count: 3, scaffolds: 2, members: [0, 1, 2] });
+    expect(data.tree[2]).toEqual({ smiles: 'C(c1ccccc1)c1ccccc1', rings: 2, parent: 'c1ccccc1', count: 1, total: 1 });
+    expect(data.acyclic).toEqual([3]);
+    expect(data.assignments[3]).toEqual({ scaffold: null, generic: null });
+    expect(data.assignments[5]).toBeNull();
+    expect(data.invalid).toEqual([{ index: 5, smiles: 'C1CC(', error: 'Unclosed branch', position: 4 }]);
+  });
+
+  it('leaves out activities and hops when not asked for', async () => {
+    const { data } = await analyze({ library });
+    expect(data).not.toHaveProperty('query');
+    expect(data.scaffolds[0]).not.toHaveProperty('activity');
+    expect(data.scaffolds[0]).not.toHaveProperty('hop');
+  });
+
+  it('rejects misaligned activities, an invalid query and bad parameters', async () => {
+    expect((await analyze({ library, activities: [1, 2] })).status).toBe(400);
+    const query = await analyze({ library, query: 'c1cc(' });
+    expect(query.status).toBe(400);
+    expect(query.data.error).toMatch(/^Invalid query SMILES/);
+    expect((await analyze({ library, parameters: { minCount: 0 } })).status).toBe(400);
+  });
+});
@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Molecule } from '@/lib/chem/molecule';
+import {
+  ScaffoldOptionsError,
+  analyzeScaffolds,
+  genericScaffold,
+  murckoScaffold,
+  resolveScaffoldParameters,
+  scaffoldHop,
+  scaffoldSmiles,
+  type ActivitySummary,
+  type ScaffoldAssignment,
+  type ScaffoldParameters,
+} from '@/lib/chem/scaffolds';
+import { SmilesParseError, parseSmiles } from '@/lib/chem/smiles';
+
+interface ScaffoldRequest {
+  library: string[];
+  // Aligned with library; null for unmeasured compounds.
+  activities?: (number | null)[];
+  // SMILES of a reference compound. When given, each scaffold is labelled
+  // with the kind of scaffold hop it is from the query's.
+  query?: string;
+  parameters?: ScaffoldParameters;
+}
+
+const MAX_LIBRARY_SIZE = 5000;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const roundSummary = (summary: ActivitySummary | null) =>
+  summary && {
+    count: summary.count,
+    mean: round(summary.mean),
+    std: round(summary.std),
+    min: round(summary.min),
+    max: round(summary.max),
+  };
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: ScaffoldRequest = await request.json();
+    const { library, activities, query, parameters = {} } = body;
+
+    if (typeof parameters !== 'object' || parameters === null) {
+      return NextResponse.json(
+        { error: 'Expected parameters to be an object' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(library) || library.some((smiles) => typeof smiles !== 'string')) {
+      return NextResponse.json(
+        { error: 'Expected a library array of SMILES' },
+        { status: 400 }
+      );
+    }
+    if (library.length > MAX_LIBRARY_SIZE) {
+      return NextResponse.json(
+        { error: `Library is limited to ${MAX_LIBRARY_SIZE} compounds per request` },
+        { status: 400 }
+      );
+    }
+    if (
+      activities !== undefined &&
+      (!Array.isArray(activities) ||
+        activities.length !== library.length ||
+        activities.some((value) => value !== null && (typeof value !== 'number' || !Number.isFinite(value))))
+    ) {
+      return NextResponse.json(
+        { error: 'Expected activities to be an array of numbers or nulls, one per library compound' },
+        { status: 400 }
+      );
+    }
+    if (query !== undefined && typeof query !== 'string') {
+      return NextResponse.json(
+        { error: 'Expected query to be a SMILES string' },
+        { status: 400 }
+      );
+    }
+
+    const resolved = resolveScaffoldParameters(parameters);
+    let queryScaffold: ScaffoldAssignment | null = null;
+    if (query !== undefined) {
+      try {
+        const scaffold = murckoScaffold(parseSmiles(query));
+        queryScaffold = scaffold
+          ? { scaffold: scaffoldSmiles(scaffold), generic: scaffoldSmiles(genericScaffold(scaffold)) }
+          : { scaffold: null, generic: null };
+      } catch (error) {
+        if (error instanceof SmilesParseError) {
+          return NextResponse.json(
+            { error: `Invalid query SMILES: ${error.reason}`, position: error.position },
+            { status: 400 }
+          );
+        }
+        throw error;
+      }
+    }
+
+    // Library index of each parsed compound
+    const indices: number[] = [];
+    const molecules: Molecule[] = [];
+    const invalid: { index: number; smiles: string; error: string; position: number }[] = [];
+    library.forEach((smiles, index) => {
+      try {
+        molecules.push(parseSmiles(smiles));
+        indices.push(index);
+      } catch (error) {
+        if (!(error instanceof SmilesParseError)) throw error;
+        invalid.push({ index, smiles, error: error.reason, position: error.position });
+      }
+    });
+
+    const analysis = analyzeScaffolds(
+      molecules,
+      activities ? indices.map((index) => activities[index]) : null,
+      resolved
+    );
+    const members = (list: number[]) => list.map((i) => indices[i]);
+
+    const assignmentByIndex: (ScaffoldAssignment | null)[] = library.map(() => null);
+    analysis.assignments.forEach((assignment, i) => (assignmentByIndex[indices[i]] = assignment));
+
+    return NextResponse.json(
+      {
+        parameters: resolved,
+        compounds: molecules.length,
+        scaffoldCount: new Set(analysis.assignments.flatMap((a) => (a.scaffold === null ? [] : [a.scaffold]))).size,
+        ...(queryScaffold ? { query: { smiles: query, ...queryScaffold } } : {}),
+        scaffolds: analysis.scaffolds.map((group) => ({
+          smiles: group.smiles,
+          generic: analysis.assignments[group.members[0]].generic,
+          rings: group.rings,
+          count: group.members.length,
+          members: members(group.members),
+          ...(activities ? { activity: roundSummary(group.activity) } : {}),
+          ...(queryScaffold ? { hop: scaffoldHop(queryScaffold, analysis.assignments[group.members[0]]) } : {}),
+        })),
+        genericScaffolds: analysis.genericScaffolds.map((group) => ({
+          smiles: group.smiles,
+          rings: group.rings,
+          count: group.members.length,
+          scaffolds: group.scaffolds,
+          members: members(group.members),
+          ...(activities ? { activity: roundSummary(group.activity) } : {}),
+        })),
+        tree: analysis.tree,
+        acyclic: members(analysis.acyclic),
+        assignments: assignmentByIndex,
+        invalid,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ScaffoldOptionsError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error analyzing scaffolds:', error);
+    return NextResponse.json(
+      { error: 'Failed to analyze scaffolds' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Bemis-Murcko and generic scaffolds, a scaffold tree and per-scaffold activity summaries for a compound library',
+    defaults: resolveScaffoldParameters({}),
+    maxLibrarySize: MAX_LIBRARY_SIZE,
+    hops: {
+      none: 'Same Murcko scaffold as the query',
+      heteroatom: 'Same generic scaffold, different atoms or bond orders',
+      topology: 'Different generic scaffold',
+    },
+    usage: 'POST /api/scaffolds with { library, activities?, query?, parameters?: { minCount, maxScaffolds } }',
+  });
+}
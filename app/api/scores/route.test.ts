@@ -0,0 +1,26 @@
+import type { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { POST } from './route';
+
+async function score(body: unknown) {
+  const response = await POST({ json: async () => body } as NextRequest);
+  return { status: response.status, data: await response.json() };
+}
+
+describe('POST /api/scores', () => {
+  it('returns every QED weighting and the SA breakdown per input', async () => {
+    const { status, data } = await score({ smiles: ['CC(=O)Oc1ccccc1C(=O)O', 'C1CC'] });
+    expect(status).toBe(200);
+    const [aspirin, invalid] = data.results;
+    expect(aspirin.qed.mean).toBeCloseTo(0.55, 3);
+    expect(Object.keys(aspirin.qed)).toEqual(['mean', 'max', 'unweighted', 'properties', 'desirabilities']);
+    expect(Object.keys(aspirin.syntheticAccessibility)).toEqual(
+      expect.arrayContaining(['score', 'fragmentScore', 'complexityPenalty', 'stereocenters']),
+    );
+    expect(invalid).toMatchObject({ input: 'C1CC', valid: false });
+  });
+
+  it('rejects a body without SMILES', async () => {
+    expect((await score({ smiles: 42 })).status).toBe(400);
+  });
+});
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  calculateQed,
+  combineDesirabilities,
+  qedProperties,
+  qedWeightings,
+  type QedProperty,
+  type QedWeighting,
+} from '@/lib/chem/qed';
+import { syntheticAccessibility, type SyntheticAccessibility } from '@/lib/chem/sascore';
+import { SmilesParseError, parseSmiles, writeSmiles } from '@/lib/chem/smiles';
+
+interface ScoresRequest {
+  smiles: string | string[];
+}
+
+interface QedScores extends Record<QedWeighting, number> {
+  properties: Record<QedProperty, number>;
+  desirabilities: Record<QedProperty, number>;
+}
+
+type ScoreResult =
+  | {
+      input: string;
+      valid: true;
+      canonicalSmiles: string;
+      qed: QedScores;
+      syntheticAccessibility: SyntheticAccessibility;
+    }
+  | { input: string; valid: false; error: string; position: number };
+
+const MAX_BATCH_SIZE = 1000;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+function roundValues<K extends string>(values: Record<K, number>): Record<K, number> {
+  return Object.fromEntries(
+    Object.entries<number>(values).map(([key, value]) => [key, round(value)]),
+  ) as Record<K, number>;
+}
+
+function scoreOne(input: string): ScoreResult {
+  try {
+    const mol = parseSmiles(input);
+    const { properties, desirabilities } = calculateQed(mol);
+    const weighted = Object.fromEntries(
+      qedWeightings.map((weighting) => [weighting, round(combineDesirabilities(desirabilities, weighting))]),
+    ) as Record<QedWeighting, number>;
+    return {
+      input,
+      valid: true,
+      canonicalSmiles: writeSmiles(mol),
+      qed: { ...weighted, properties: roundValues(properties), desirabilities: roundValues(desirabilities) },
+      syntheticAccessibility: roundValues(syntheticAccessibility(mol)),
+    };
+  } catch (error) {
+    if (error instanceof SmilesParseError) {
+      return { input, valid: false, error: error.reason, position: error.position };
+    }
+    throw error;
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: ScoresRequest = await request.json();
+    const inputs = Array.isArray(body.smiles) ? body.smiles : [body.smiles];
+
+    if (inputs.length === 0 || inputs.some((smiles) => typeof smiles !== 'string')) {
+      return NextResponse.json(
+        { error: 'Expected smiles to be a string or an array of strings' },
+        { status: 400 }
+      );
+    }
+
+    if (inputs.length > MAX_BATCH_SIZE) {
+      return NextResponse.json(
+        { error: `At most ${MAX_BATCH_SIZE} SMILES can be scored per request` },
+        { status: 400 }
+      );
+    }
+
+    const results = inputs.map(scoreOne);
+    const validCount = results.filter((result) => result.valid).length;
+    return NextResponse.json(
+      { results, validCount, invalidCount: results.length - validCount },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error calculating scores:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate scores' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'QED drug-likeness and synthetic accessibility scores',
+    qedProperties,
+    qedWeightings,
+    syntheticAccessibility: 'Ertl-style score from 1 (easy to make) to 10 (very difficult)',
+    maxBatchSize: MAX_BATCH_SIZE,
+    usage: 'POST /api/scores with { smiles: string | string[] }',
+  });
+}
@@ -0,0 +1,104 @@
+import type { NextRequest } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { POST } from './route';
+
+async function search(body: unknown) {
+  const response = await POST({ json: async () => body } as NextRequest);
+  return { status: response.status, data: await response.json() };
+}
+
+const column = (value: number) => value.toFixed(4).padStart(10);
+
+// V2000 record for a chain of single-bonded atoms at the given positions.
+function chain(name: string, elements: string[], points: number[][]): string {
+  const atoms = elements.map(
+    (element, i) => `${points[i].map(column).join('')} ${element.padEnd(3)} 0  0  0  0  0  0  0  0  0  0  0  0`,
+  );
+  const bonds = elements.slice(1).map((_, i) => `${String(i + 1).padStart(3)}${String(i + 2).padStart(3)}  1  0`);
+  const counts = `${String(atoms.length).padStart(3)}${String(bonds.length).padStart(3)}  0  0  0  0  0  0  0  0999 V2000`;
+  return [name, '  test', '', counts, ...atoms, ...bonds, 'M  END', '$$$$', ''].join('\n');
+}
+
+const pentanolPoints = [[0, 0, 0], [1.2, 0.8, 0.1], [2.6, 0.1, -0.2], [3.7, 0.9, 0.3], [5.1, 0.2, 0], [6, 1.1, 0.4]];
+const pentanol = (name: string, dx = 0) =>
+  chain(name, ['C', 'C', 'C', 'C', 'C', 'O'], pentanolPoints.map(([x, y, z]) => [x + dx, y, z]));
+// Propanol folded back on itself.
+const propanol = chain('propanol', ['C', 'C', 'O'], [[0, 0, 0], [1.5, 0, 0], [2, 1.4, 0]]);
+
+const library = ['CCCCO', 'c1ccccc1', 'CCCO', 'C1CC(', 'CCCCCO'];
+
+describe('POST /api/similarity', () => {
+  it('ranks hits above the threshold and reports unparsable SMILES', async () => {
+    const { status, data } = await search({ query: 'CCCO', library, parameters: { similarityThreshold: 0.3 } });
+    expect(status).toBe(200);
+    expect(data.parameters).toMatchObject({ method: 'tanimoto', fingerprintType: 'ECFP4', radius: 2, bitLength: 2048 });
+    expect(data.hits[0]).toMatchObject({ index: 2, similarity: 1 });
+    expect(data.hits.map((hit: { index: number }) => hit.index)).not.toContain(1);
+    const similarities = data.hits.map((hit: { similarity: number }) => hit.similarity);
+    expect(similarities).toEqual([...similarities].sort((a, b) => b - a));
+    expect(data.screened).toBe(4);
+    expect(data.invalid).toEqual([expect.objectContaining({ index: 3, smiles: 'C1CC(' })]);
+  });
+
+  it('caps the returned hits at maxResults but counts all of them', async () => {
+    const { data } = await search({ query: 'CCCO', library, parameters: { similarityThreshold: 0, maxResults: 2 } });
+    expect(data.hits).toHaveLength(2);
+    expect(data.hitCount).toBe(4);
+  });
+
+  it('supports euclidean similarity on count fingerprints', async () => {
+    const { status, data } = await search({
+      query: 'CCCCO',
+      library: ['CCCCO', 'CCCCCCCCO'],
+      parameters: { method: 'euclidean', useCounts: true, similarityThreshold: 0 },
+    });
+    expect(status).toBe(200);
+    expect(data.hits[0]).toMatchObject({ index: 0, similarity: 1 });
+    expect(data.hits[1].similarity).toBeGreaterThan(0);
+    expect(data.hits[1].similarity).toBeLessThan(1);
+  });
+
+  it('rejects unknown methods, fingerprint types and an invalid query', async () => {
+    expect((await search({ query: 'CCO', library, parameters: { method: 'jaccard' } })).status).toBe(400);
+    expect((await search({ query: 'CCO', library, parameters: { fingerprintType: 'ECFP3' } })).status).toBe(400);
+    const invalid = await search({ query: 'C(', library });
+    expect(invalid.status).toBe(400);
+    expect(invalid.data.error).toMatch(/^Invalid query SMILES/);
+  });
+});
+
+describe('POST /api/similarity shape search', () => {
+  it('ranks SD library compounds by USRCAT shape and reports invalid records', async () => {
+    const { status, data } = await search({
+      query: pentanol('query'),
+      library: propanol + pentanol('shifted', 4) + 'broken\n',
+      parameters: { method: 'usrcat', similarityThreshold: 0 },
+    });
+    expect(status).toBe(200);
+    expect(data.query).toBe('CCCCCO');
+    expect(data.parameters).toEqual({ similarityThreshold: 0, method: 'usrcat', maxResults: 100, shapeWeight: 1, fingerprintWeight: 0 });
+    expect(data.hits[0]).toMatchObject({ index: 1, name: 'shifted', conformer: 0, similarity: 1, shapeSimilarity: 1 });
+    expect(data.hits[1].index).toBe(0);
+    expect(data.screened).toBe(2);
+    expect(data.invalid).toEqual([{ index: 2, error: 'Missing counts line', line: 2 }]);
+  });
+
+  it('blends in the fingerprint Tanimoto with user weights', async () => {
+    const { data } = await search({
+      query: pentanol('query'),
+      library: propanol,
+      parameters: { method: 'usr', similarityThreshold: 0, shapeWeight: 1, fingerprintWeight: 1 },
+    });
+    const [hit] = data.hits;
+    expect(data.parameters).toMatchObject({ fingerprintWeight: 1, fingerprintType: 'ECFP4' });
+    expect(hit.similarity).toBeCloseTo((hit.shapeSimilarity + hit.fingerprintSimilarity) / 2, 2);
+  });
+
+  it('rejects SMILES input, bad weights and an unparsable query', async () => {
+    expect((await search({ query: 'CCO', library: ['CCO'], parameters: { method: 'usr' } })).status).toBe(400);
+    const weights = await search({ query: propanol, library: propanol, parameters: { method: 'usr', shapeWeight: 0 } });
+    expect(weights.status).toBe(400);
+    const query = await search({ query: 'broken\n', library: propanol, parameters: { method: 'usr' } });
+    expect(query).toEqual({ status: 400, data: { error: 'Invalid query SD record: Missing counts line', line: 2 } });
+  });
+});
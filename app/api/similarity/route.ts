@@ -0,0 +1,290 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  FingerprintOptionsError,
+  computeFingerprint,
+  fingerprintTypes,
+  resolveFingerprintOptions,
+  type FingerprintOptions,
+  type FingerprintParameters,
+} from '@/lib/chem/fingerprints';
+import type { Molecule } from '@/lib/chem/molecule';
+import { SdfParseError, groupConformers, parseMolBlock, splitSdf, type SdfRecord } from '@/lib/chem/sdf';
+import {
+  ShapeOptionsError,
+  isShapeMethod,
+  resolveShapeParameters,
+  screenShape,
+  shapeMethods,
+  type ShapeMethod,
+  type ShapeParameters,
+} from '@/lib/chem/shape';
+import { fingerprintSimilarity, isSimilarityMethod, similarityMethods } from '@/lib/chem/similarity';
+import { SmilesParseError, parseSmiles, writeSmiles } from '@/lib/chem/smiles';
+
+// Mirrors the `parameters` block returned for molecular-similarity.
+interface SimilarityParameters extends FingerprintParameters, ShapeParameters {
+  similarityThreshold?: number;
+  method?: string;
+  maxResults?: number;
+  tverskyAlpha?: number;
+  tverskyBeta?: number;
+}
+
+// SMILES for fingerprint methods; SD files of 3D structures for usr and
+// usrcat, where consecutive records with the same title are conformers.
+interface SimilarityRequest {
+  query: string;
+  library: string[] | string;
+  parameters?: SimilarityParameters;
+}
+
+const MAX_LIBRARY_SIZE = 10000;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Shape search over SD input. The query's conformers are all records of its
+// first compound; library records that fail to parse are listed as invalid.
+function shapeSearch(
+  query: unknown,
+  library: unknown,
+  parameters: SimilarityParameters,
+  method: ShapeMethod,
+  similarityThreshold: number,
+  maxResults: number,
+) {
+  if (typeof query !== 'string' || typeof library !== 'string') {
+    return NextResponse.json(
+      { error: `Expected query and library to be SD file strings for ${method}` },
+      { status: 400 }
+    );
+  }
+  const weights = resolveShapeParameters(parameters);
+  const fingerprint = resolveFingerprintOptions(parameters);
+
+  let queryRecords: SdfRecord[];
+  try {
+    queryRecords = groupConformers(splitSdf(query).map(parseMolBlock))[0] ?? [];
+  } catch (error) {
+    if (error instanceof SdfParseError) {
+      return NextResponse.json(
+        { error: `Invalid query SD record: ${error.reason}`, line: error.line },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+  if (queryRecords.length === 0) {
+    return NextResponse.json(
+      { error: 'Query SD file has no records' },
+      { status: 400 }
+    );
+  }
+
+  const blocks = splitSdf(library);
+  if (blocks.length > MAX_LIBRARY_SIZE) {
+    return NextResponse.json(
+      { error: `Library is limited to ${MAX_LIBRARY_SIZE} SD records per request` },
+      { status: 400 }
+    );
+  }
+  const records: (SdfRecord & { index: number })[] = [];
+  const invalid: { index: number; error: string; line: number }[] = [];
+  blocks.forEach((block, index) => {
+    try {
+      records.push({ ...parseMolBlock(block), index });
+    } catch (error) {
+      if (!(error instanceof SdfParseError)) throw error;
+      invalid.push({ index, error: error.reason, line: error.line });
+    }
+  });
+  const compounds = groupConformers(records).map((conformers) => ({
+    index: conformers[0].index,
+    name: conformers[0].name,
+    conformers,
+  }));
+
+  const moleculeAt = new Map(records.map((record) => [record.index, record.molecule]));
+  const hits = screenShape(queryRecords, compounds, method, weights, fingerprint)
+    .filter((hit) => hit.similarity >= similarityThreshold)
+    .map((hit) => ({
+      ...hit,
+      canonicalSmiles: writeSmiles(moleculeAt.get(hit.index) as Molecule),
+      similarity: round(hit.similarity),
+      shapeSimilarity: round(hit.shapeSimilarity),
+      ...(hit.fingerprintSimilarity !== undefined ? { fingerprintSimilarity: round(hit.fingerprintSimilarity) } : {}),
+    }));
+
+  return NextResponse.json(
+    {
+      query: writeSmiles(queryRecords[0].molecule),
+      parameters: {
+        similarityThreshold,
+        method,
+        maxResults,
+        ...weights,
+        ...(weights.fingerprintWeight > 0
+          ? { fingerprintType: parameters.fingerprintType ?? 'ECFP4', bitLength: fingerprint.bitLength }
+          : {}),
+      },
+      queryConformers: queryRecords.length,
+      screened: compounds.length,
+      hitCount: hits.length,
+      hits: hits.slice(0, maxResults),
+      invalid,
+    },
+    { status: 200 }
+  );
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: SimilarityRequest = await request.json();
+    const { query, library, parameters = {} } = body;
+
+    if (typeof parameters !== 'object' || parameters === null) {
+      return NextResponse.json(
+        { error: 'Expected parameters to be an object' },
+        { status: 400 }
+      );
+    }
+
+    const {
+      similarityThreshold = 0.7,
+      method = 'tanimoto',
+      maxResults = 100,
+      tverskyAlpha = 0.9,
+      tverskyBeta = 0.1,
+    } = parameters;
+
+    if (isShapeMethod(method)) {
+      return shapeSearch(query, library, parameters, method, similarityThreshold, maxResults);
+    }
+
+    if (!isSimilarityMethod(method)) {
+      return NextResponse.json(
+        { error: `Invalid method. Expected one of: ${[...similarityMethods, ...shapeMethods].join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof query !== 'string' || !Array.isArray(library) || library.some((smiles) => typeof smiles !== 'string')) {
+      return NextResponse.json(
+        { error: 'Expected a query SMILES and a library array of SMILES' },
+        { status: 400 }
+      );
+    }
+
+    if (library.length > MAX_LIBRARY_SIZE) {
+      return NextResponse.json(
+        { error: `Library is limited to ${MAX_LIBRARY_SIZE} compounds per request` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      method === 'tversky' &&
+      !(tverskyAlpha >= 0 && tverskyBeta >= 0 && tverskyAlpha + tverskyBeta > 0)
+    ) {
+      return NextResponse.json(
+        { error: 'tverskyAlpha and tverskyBeta must be non-negative and not both zero' },
+        { status: 400 }
+      );
+    }
+
+    let fingerprint: FingerprintOptions;
+    try {
+      fingerprint = resolveFingerprintOptions(parameters);
+    } catch (error) {
+      if (error instanceof FingerprintOptionsError) {
+        return NextResponse.json(
+          { error: error.message },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    let queryMolecule: Molecule;
+    try {
+      queryMolecule = parseSmiles(query);
+    } catch (error) {
+      if (error instanceof SmilesParseError) {
+        return NextResponse.json(
+          { error: `Invalid query SMILES: ${error.reason}`, position: error.position },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const similarityOptions = { alpha: tverskyAlpha, beta: tverskyBeta };
+    const queryFingerprint = computeFingerprint(queryMolecule, fingerprint);
+    const hits: { index: number; smiles: string; canonicalSmiles: string; similarity: number }[] = [];
+    const invalid: { index: number; smiles: string; error: string; position: number }[] = [];
+
+    library.forEach((smiles, index) => {
+      try {
+        const mol = parseSmiles(smiles);
+        const similarity = fingerprintSimilarity(
+          queryFingerprint,
+          computeFingerprint(mol, fingerprint),
+          method,
+          similarityOptions
+        );
+        if (similarity >= similarityThreshold) {
+          hits.push({ index, smiles, canonicalSmiles: writeSmiles(mol), similarity });
+        }
+      } catch (error) {
+        if (!(error instanceof SmilesParseError)) throw error;
+        invalid.push({ index, smiles, error: error.reason, position: error.position });
+      }
+    });
+
+    hits.sort((a, b) => b.similarity - a.similarity || a.index - b.index);
+
+    return NextResponse.json(
+      {
+        query: writeSmiles(queryMolecule),
+        parameters: {
+          similarityThreshold,
+          method,
+          maxResults,
+          fingerprintType: parameters.fingerprintType ?? 'ECFP4',
+          ...(fingerprint.family === 'ecfp' || fingerprint.family === 'fcfp' ? { radius: fingerprint.radius } : {}),
+          bitLength: fingerprint.family === 'maccs' ? 167 : fingerprint.bitLength,
+          useCounts: fingerprint.useCounts,
+          ...(fingerprint.family === 'path' ? { maxPathLength: fingerprint.maxPathLength } : {}),
+          ...(method === 'tversky' ? { tverskyAlpha, tverskyBeta } : {}),
+        },
+        screened: library.length - invalid.length,
+        hitCount: hits.length,
+        hits: hits.slice(0, maxResults),
+        invalid,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    if (error instanceof ShapeOptionsError || error instanceof FingerprintOptionsError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Error running similarity search:', error);
+    return NextResponse.json(
+      { error: 'Failed to run similarity search' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'Fingerprint similarity search, and USR / USRCAT shape similarity on 3D structures',
+    methods: similarityMethods,
+    shapeMethods,
+    fingerprintTypes,
+    maxLibrarySize: MAX_LIBRARY_SIZE,
+    usage: 'POST /api/similarity with { query, library, parameters }; for usr and usrcat, query and library are SD files and parameters take shapeWeight and fingerprintWeight',
+  });
+}
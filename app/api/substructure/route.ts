@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SmartsParseError, findMatches, parseSmarts, type SmartsQuery } from '@/lib/chem/smarts';
+import { SmilesParseError, parseSmiles, writeSmiles } from '@/lib/chem/smiles';
+
+// Mirrors the `parameters` block returned for substructure-search.
+interface SubstructureParameters {
+  smartsQuery?: string;
+  maxResults?: number;
+  maxMatchesPerCompound?: number;
+  uniqueMatches?: boolean;
+}
+
+interface SubstructureRequest {
+  query?: string;
+  library: string[];
+  parameters?: SubstructureParameters;
+}
+
+interface SubstructureHit {
+  index: number;
+  smiles: string;
+  canonicalSmiles: string;
+  matchCount: number;
+  // Atom indices in the input SMILES, one per query atom.
+  mappings: number[][];
+}
+
+const MAX_LIBRARY_SIZE = 10000;
+const MAX_MATCHES_PER_COMPOUND = 1000;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: SubstructureRequest = await request.json();
+    const { library, parameters = {} } = body;
+
+    if (typeof parameters !== 'object' || parameters === null) {
+      return NextResponse.json(
+        { error: 'Expected parameters to be an object' },
+        { status: 400 }
+      );
+    }
+
+    const query = body.query ?? parameters.smartsQuery;
+    const { maxResults = 100, maxMatchesPerCompound = 10, uniqueMatches = true } = parameters;
+
+    if (typeof query !== 'string' || !Array.isArray(library) || library.some((smiles) => typeof smiles !== 'string')) {
+      return NextResponse.json(
+        { error: 'Expected a SMARTS query and a library array of SMILES' },
+        { status: 400 }
+      );
+    }
+
+    if (library.length > MAX_LIBRARY_SIZE) {
+      return NextResponse.json(
+        { error: `Library is limited to ${MAX_LIBRARY_SIZE} compounds per request` },
+        { status: 400 }
+      );
+    }
+
+    if (
+      !Number.isInteger(maxMatchesPerCompound) ||
+      maxMatchesPerCompound < 1 ||
+      maxMatchesPerCompound > MAX_MATCHES_PER_COMPOUND
+    ) {
+      return NextResponse.json(
+        { error: `maxMatchesPerCompound must be an integer between 1 and ${MAX_MATCHES_PER_COMPOUND}` },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(maxResults) || maxResults < 1 || typeof uniqueMatches !== 'boolean') {
+      return NextResponse.json(
+        { error: 'maxResults must be a positive integer and uniqueMatches a boolean' },
+        { status: 400 }
+      );
+    }
+
+    let smartsQuery: SmartsQuery;
+    try {
+      smartsQuery = parseSmarts(query);
+    } catch (error) {
+      if (error instanceof SmartsParseError) {
+        return NextResponse.json(
+          { error: `Invalid SMARTS query: ${error.reason}`, position: error.position },
+          { status: 400 }
+        );
+      }
+      throw error;
+    }
+
+    const hits: SubstructureHit[] = [];
+    const invalid: { index: number; smiles: string; error: string; position: number }[] = [];
+
+    library.forEach((smiles, index) => {
+      try {
+        const mol = parseSmiles(smiles);
+        const mappings = findMatches(mol, smartsQuery, { limit: maxMatchesPerCompound, unique: uniqueMatches });
+        if (mappings.length > 0) {
+          hits.push({ index, smiles, canonicalSmiles: writeSmiles(mol), matchCount: mappings.length, mappings });
+        }
+      } catch (error) {
+        if (!(error instanceof SmilesParseError)) throw error;
+        invalid.push({ index, smiles, error: error.reason, position: error.position });
+      }
+    });
+
+    return NextResponse.json(
+      {
+        query,
+        parameters: { maxResults, maxMatchesPerCompound, uniqueMatches },
+        atomMaps: smartsQuery.atomMaps,
+        screened: library.length - invalid.length,
+        hitCount: hits.length,
+        hits: hits.slice(0, maxResults),
+        invalid,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error running substructure search:', error);
+    return NextResponse.json(
+      { error: 'Failed to run substructure search' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  return NextResponse.json({
+    message: 'SMARTS substructure search',
+    primitives: [
+      'elements and aromatic symbols', '#n', 'a/A', '*', 'H<n>', 'D<n>', 'X<n>', 'v<n>', 'R<n>', 'r<n>', 'x<n>',
+      'charge (+/-)', 'isotope', '$(recursive)', 'atom maps (:n)', 'bonds (- = # : ~ @)', 'logic (! & , ;)',
+    ],
+    maxLibrarySize: MAX_LIBRARY_SIZE,
+    usage: 'POST /api/substructure with { query, library, parameters }',
+  });
+}
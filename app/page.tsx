@@ -8,7 +8,15 @@ type AlgorithmType =
   | 'compound-screening'
   | 'structure-optimization'
   | 'pharmacophore'
-  | 'virtual-screening';
+  | 'virtual-screening'
+  | 'substructure-search'
+  | 'clustering-diversity'
+  | 'scaffold-analysis'
+  | 'matched-molecular-pairs'
+  | 'activity-cliffs'
+  | 'r-group-analysis';
+
+type TargetLanguage = 'pseudocode' | 'typescript' | 'python-rdkit';
 
 interface GeneratedAlgorithm {
   name: string;
@@ -18,6 +26,8 @@ interface GeneratedAlgorithm {
   pseudocode: string;
   complexity: string;
   useCases: string[];
+  targetLanguage: TargetLanguage;
+  code: string;
 }
 
 export default function Home() {
@@ -27,9 +37,33 @@ export default function Home() {
     method: 'tanimoto',
     maxCompounds: 100,
     iterations: 1000,
+    fingerprintType: 'ECFP4',
+    useCounts: false,
+    tverskyAlpha: 0.9,
+    tverskyBeta: 0.1,
+    shapeWeight: 1,
+    fingerprintWeight: 0,
+    smartsQuery: 'c1ccccc1C(=O)[NX3]',
+    applicabilityDomain: 'leverage',
+    ensembleMode: 'fixed',
+    modelEnsemble: ['CNN', 'GraphNN', 'QSAR'],
+    batchSize: 1000,
+    clusteringMethod: 'butina',
+    distanceCutoff: 0.35,
+    linkage: 'average',
+    pickingMethod: 'maxmin',
+    minScaffoldCount: 1,
+    maxVariableAtoms: 10,
+    minPairs: 1,
+    minActivityDifference: 1,
+    minSali: 0,
+    coreSmarts: '[*:1]c1ccc(cc1)C(=O)N[*:2]',
+    ridgeAlpha: 0.1,
   });
+  const [targetLanguage, setTargetLanguage] = useState<TargetLanguage>('pseudocode');
   const [generatedAlgorithm, setGeneratedAlgorithm] = useState<GeneratedAlgorithm | null>(null);
   const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   const algorithmTypes = [
     { id: 'molecular-similarity' as const, name: 'Molecular Similarity', icon: '🧬' },
@@ -38,25 +72,52 @@ export default function Home() {
     { id: 'structure-optimization' as const, name: 'Structure Optimization', icon: '⚛️' },
     { id: 'pharmacophore' as const, name: 'Pharmacophore Mapping', icon: '🎯' },
     { id: 'virtual-screening' as const, name: 'Virtual Screening', icon: '🖥️' },
+    { id: 'substructure-search' as const, name: 'Substructure Search', icon: '🧩' },
+    { id: 'clustering-diversity' as const, name: 'Clustering & Diversity', icon: '🗂️' },
+    { id: 'scaffold-analysis' as const, name: 'Scaffold Analysis', icon: '🌳' },
+    { id: 'matched-molecular-pairs' as const, name: 'Matched Molecular Pairs', icon: '🔁' },
+    { id: 'activity-cliffs' as const, name: 'Activity Cliffs', icon: '⛰️' },
+    { id: 'r-group-analysis' as const, name: 'R-Group & Free-Wilson', icon: '🧮' },
+  ];
+
+  const languages = [
+    { id: 'pseudocode' as const, name: 'Pseudocode' },
+    { id: 'typescript' as const, name: 'TypeScript' },
+    { id: 'python-rdkit' as const, name: 'Python (RDKit)' },
   ];
 
-  const handleGenerate = async () => {
+  // A rejected request leaves the previous result on screen and shows the
+  // route's error message instead.
+  const handleGenerate = async (language: TargetLanguage = targetLanguage) => {
     setLoading(true);
+    setError(null);
     try {
       const response = await fetch('/api/generate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ type: selectedType, parameters }),
+        body: JSON.stringify({ type: selectedType, parameters, targetLanguage: language }),
       });
-      const data = await response.json();
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        setError(data?.error ?? `Generation failed with status ${response.status}`);
+        return;
+      }
       setGeneratedAlgorithm(data);
     } catch (error) {
       console.error('Error generating algorithm:', error);
+      setError('Could not reach the algorithm generator');
     } finally {
       setLoading(false);
     }
   };
 
+  const handleLanguageChange = (language: TargetLanguage) => {
+    setTargetLanguage(language);
+    if (generatedAlgorithm) {
+      handleGenerate(language);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50">
       <div className="container mx-auto px-4 py-8 max-w-7xl">
@@ -97,6 +158,228 @@ export default function Home() {
             <div className="bg-white rounded-2xl shadow-lg p-6 border border-slate-200">
               <h2 className="text-xl font-semibold text-slate-800 mb-4">Parameters</h2>
               <div className="space-y-4">
+                {selectedType === 'substructure-search' && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">
+                      SMARTS Query
+                    </label>
+                    <input
+                      type="text"
+                      value={parameters.smartsQuery}
+                      onChange={(e) => setParameters({ ...parameters, smartsQuery: e.target.value })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
+
+                {selectedType === 'clustering-diversity' && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">
+                      Clustering
+                    </label>
+                    <select
+                      value={parameters.clusteringMethod}
+                      onChange={(e) => setParameters({ ...parameters, clusteringMethod: e.target.value })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="butina">Taylor-Butina</option>
+                      <option value="hierarchical">Hierarchical</option>
+                    </select>
+                    {parameters.clusteringMethod === 'hierarchical' && (
+                      <select
+                        value={parameters.linkage}
+                        onChange={(e) => setParameters({ ...parameters, linkage: e.target.value })}
+                        className="w-full mt-3 px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="average">Average linkage</option>
+                        <option value="complete">Complete linkage</option>
+                        <option value="single">Single linkage</option>
+                      </select>
+                    )}
+                    <label className="block text-sm font-medium text-slate-700 mt-3 mb-2">
+                      Distance Cutoff (1 - Tanimoto)
+                    </label>
+                    <input
+                      type="number"
+                      min="0.01"
+                      max="0.99"
+                      step="0.05"
+                      value={parameters.distanceCutoff}
+                      onChange={(e) => setParameters({ ...parameters, distanceCutoff: parseFloat(e.target.value) })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <label className="block text-sm font-medium text-slate-700 mt-3 mb-2">
+                      Diversity Picking
+                    </label>
+                    <select
+                      value={parameters.pickingMethod}
+                      onChange={(e) => setParameters({ ...parameters, pickingMethod: e.target.value })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="maxmin">MaxMin</option>
+                      <option value="sphere-exclusion">Sphere exclusion</option>
+                    </select>
+                  </div>
+                )}
+
+                {selectedType === 'scaffold-analysis' && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">
+                      Minimum Compounds per Scaffold
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={parameters.minScaffoldCount}
+                      onChange={(e) => setParameters({ ...parameters, minScaffoldCount: parseInt(e.target.value) })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
+
+                {selectedType === 'matched-molecular-pairs' && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">
+                      Max Variable Heavy Atoms
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={parameters.maxVariableAtoms}
+                      onChange={(e) => setParameters({ ...parameters, maxVariableAtoms: parseInt(e.target.value) })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <label className="block text-sm font-medium text-slate-700 mt-3 mb-2">
+                      Minimum Pairs per Transform
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      step="1"
+                      value={parameters.minPairs}
+                      onChange={(e) => setParameters({ ...parameters, minPairs: parseInt(e.target.value) })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
+
+                {selectedType === 'activity-cliffs' && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">
+                      Min Activity Difference
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={parameters.minActivityDifference}
+                      onChange={(e) => setParameters({ ...parameters, minActivityDifference: parseFloat(e.target.value) })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <label className="block text-sm font-medium text-slate-700 mt-3 mb-2">
+                      Min SALI
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      value={parameters.minSali}
+                      onChange={(e) => setParameters({ ...parameters, minSali: parseFloat(e.target.value) })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
+
+                {selectedType === 'r-group-analysis' && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">
+                      Core SMARTS
+                    </label>
+                    <input
+                      type="text"
+                      value={parameters.coreSmarts}
+                      onChange={(e) => setParameters({ ...parameters, coreSmarts: e.target.value })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg font-mono text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <label className="block text-sm font-medium text-slate-700 mt-3 mb-2">
+                      Ridge Alpha
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.1"
+                      value={parameters.ridgeAlpha}
+                      onChange={(e) => setParameters({ ...parameters, ridgeAlpha: parseFloat(e.target.value) })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
+
+                {(selectedType === 'qsar-model' || selectedType === 'virtual-screening') && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">
+                      Applicability Domain
+                    </label>
+                    <select
+                      value={parameters.applicabilityDomain}
+                      onChange={(e) => setParameters({ ...parameters, applicabilityDomain: e.target.value })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="leverage">Leverage (Williams plot)</option>
+                      <option value="bounding-box">Descriptor bounding box</option>
+                      <option value="knn-tanimoto">kNN Tanimoto distance</option>
+                      <option value="density">Kernel density</option>
+                    </select>
+                  </div>
+                )}
+
+                {selectedType === 'virtual-screening' && (
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">
+                      Ensemble
+                    </label>
+                    <select
+                      value={parameters.ensembleMode}
+                      onChange={(e) => setParameters({ ...parameters, ensembleMode: e.target.value })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="fixed">Fixed weights</option>
+                      <option value="stacking">Stacking + conformal confidence</option>
+                    </select>
+                    <div className="flex gap-4 mt-3">
+                      {['GraphNN', 'CNN', 'QSAR'].map((model) => (
+                        <label key={model} className="flex items-center gap-2 text-sm text-slate-700">
+                          <input
+                            type="checkbox"
+                            checked={parameters.modelEnsemble.includes(model)}
+                            onChange={(e) =>
+                              setParameters({
+                                ...parameters,
+                                modelEnsemble: e.target.checked
+                                  ? [...parameters.modelEnsemble, model]
+                                  : parameters.modelEnsemble.filter((m) => m !== model),
+                              })
+                            }
+                            className="accent-blue-500"
+                          />
+                          {model}
+                        </label>
+                      ))}
+                    </div>
+                    <label className="block text-sm font-medium text-slate-700 mt-3 mb-2">
+                      Batch Size
+                    </label>
+                    <input
+                      type="number"
+                      value={parameters.batchSize}
+                      onChange={(e) => setParameters({ ...parameters, batchSize: parseInt(e.target.value) })}
+                      className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
+
                 <div>
                   <label className="block text-sm font-medium text-slate-700 mb-2">
                     Similarity Threshold
@@ -110,7 +393,11 @@ export default function Home() {
                     onChange={(e) => setParameters({ ...parameters, threshold: parseFloat(e.target.value) })}
                     className="w-full h-2 bg-slate-200 rounded-lg appearance-none cursor-pointer accent-blue-500"
                   />
-                  <div className="text-right text-sm text-slate-600 mt-1">{parameters.threshold.toFixed(2)}</div>
+                  <div className="text-right text-sm text-slate-600 mt-1">
+                    {parameters.threshold.toFixed(2)}
+                    {selectedType === 'virtual-screening' && parameters.ensembleMode === 'stacking' &&
+                      ` (error rate ≤ ${(1 - parameters.threshold).toFixed(2)})`}
+                  </div>
                 </div>
 
                 <div>
@@ -126,7 +413,103 @@ export default function Home() {
                     <option value="dice">Dice Coefficient</option>
                     <option value="cosine">Cosine Similarity</option>
                     <option value="euclidean">Euclidean Distance</option>
+                    <option value="tversky">Tversky Index</option>
+                    <option value="soergel">Soergel (Tanimoto on counts)</option>
+                    <option value="russell-rao">Russell-Rao</option>
+                    <option value="usr">USR (3D shape)</option>
+                    <option value="usrcat">USRCAT (3D shape + atom types)</option>
+                  </select>
+                </div>
+
+                {parameters.method === 'tversky' && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-2">
+                        Tversky α
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={parameters.tverskyAlpha}
+                        onChange={(e) => setParameters({ ...parameters, tverskyAlpha: parseFloat(e.target.value) })}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-2">
+                        Tversky β
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={parameters.tverskyBeta}
+                        onChange={(e) => setParameters({ ...parameters, tverskyBeta: parseFloat(e.target.value) })}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {(parameters.method === 'usr' || parameters.method === 'usrcat') && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-2">
+                        Shape weight
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={parameters.shapeWeight}
+                        onChange={(e) => setParameters({ ...parameters, shapeWeight: parseFloat(e.target.value) })}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-slate-700 mb-2">
+                        2D fingerprint weight
+                      </label>
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.1"
+                        value={parameters.fingerprintWeight}
+                        onChange={(e) => setParameters({ ...parameters, fingerprintWeight: parseFloat(e.target.value) })}
+                        className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-2">
+                    Fingerprint
+                  </label>
+                  <select
+                    value={parameters.fingerprintType}
+                    onChange={(e) => setParameters({ ...parameters, fingerprintType: e.target.value })}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="ECFP4">ECFP4 (Morgan, radius 2)</option>
+                    <option value="ECFP6">ECFP6 (Morgan, radius 3)</option>
+                    <option value="FCFP4">FCFP4 (feature Morgan)</option>
+                    <option value="FCFP6">FCFP6 (feature Morgan)</option>
+                    <option value="MACCS">MACCS 166 keys</option>
+                    <option value="atom-pair">Atom Pair</option>
+                    <option value="topological-torsion">Topological Torsion</option>
+                    <option value="path">Path (Daylight-like)</option>
                   </select>
+                  <label className="flex items-center gap-2 mt-2 text-sm text-slate-600">
+                    <input
+                      type="checkbox"
+                      checked={parameters.useCounts}
+                      onChange={(e) => setParameters({ ...parameters, useCounts: e.target.checked })}
+                      className="accent-blue-500"
+                    />
+                    Count fingerprint
+                  </label>
                 </div>
 
                 <div>
@@ -135,6 +518,8 @@ export default function Home() {
                   </label>
                   <input
                     type="number"
+                    min="1"
+                    max="10000"
                     value={parameters.maxCompounds}
                     onChange={(e) => setParameters({ ...parameters, maxCompounds: parseInt(e.target.value) })}
                     className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -147,6 +532,8 @@ export default function Home() {
                   </label>
                   <input
                     type="number"
+                    min="100"
+                    max="100000"
                     value={parameters.iterations}
                     onChange={(e) => setParameters({ ...parameters, iterations: parseInt(e.target.value) })}
                     className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
@@ -155,12 +542,18 @@ export default function Home() {
               </div>
 
               <button
-                onClick={handleGenerate}
+                onClick={() => handleGenerate()}
                 disabled={loading}
                 className="w-full mt-6 px-6 py-3 bg-gradient-to-r from-blue-500 to-indigo-500 text-white font-semibold rounded-xl shadow-lg hover:shadow-xl transition-all duration-200 hover:scale-[1.02] disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {loading ? 'Generating...' : 'Generate Algorithm'}
               </button>
+
+              {error && (
+                <p role="alert" className="mt-4 px-4 py-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                  {error}
+                </p>
+              )}
             </div>
           </div>
 
@@ -194,10 +587,30 @@ export default function Home() {
                 </div>
 
                 <div>
-                  <h3 className="font-semibold text-slate-800 mb-3">Pseudocode</h3>
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="font-semibold text-slate-800">
+                      {languages.find((language) => language.id === generatedAlgorithm.targetLanguage)?.name}
+                    </h3>
+                    <div className="flex gap-2">
+                      {languages.map((language) => (
+                        <button
+                          key={language.id}
+                          onClick={() => handleLanguageChange(language.id)}
+                          disabled={loading}
+                          className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${
+                            targetLanguage === language.id
+                              ? 'bg-blue-500 text-white'
+                              : 'bg-slate-100 text-slate-700 hover:bg-slate-200'
+                          }`}
+                        >
+                          {language.name}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                   <div className="bg-slate-900 rounded-xl p-6 overflow-x-auto">
                     <pre className="text-sm text-green-400 font-mono whitespace-pre-wrap">
-                      {generatedAlgorithm.pseudocode}
+                      {generatedAlgorithm.code}
                     </pre>
                   </div>
                 </div>
@@ -216,7 +629,7 @@ export default function Home() {
 
                 <div className="pt-4 border-t border-slate-200">
                   <button
-                    onClick={() => navigator.clipboard.writeText(generatedAlgorithm.pseudocode)}
+                    onClick={() => navigator.clipboard.writeText(generatedAlgorithm.code)}
                     className="px-6 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 transition-colors font-medium"
                   >
                     Copy Code
@@ -0,0 +1,95 @@
+export type AlgorithmType =
+  | 'molecular-similarity'
+  | 'qsar-model'
+  | 'compound-screening'
+  | 'structure-optimization'
+  | 'pharmacophore'
+  | 'virtual-screening'
+  | 'substructure-search'
+  | 'clustering-diversity'
+  | 'scaffold-analysis'
+  | 'matched-molecular-pairs'
+  | 'activity-cliffs'
+  | 'r-group-analysis';
+
+export type TargetLanguage = 'pseudocode' | 'typescript' | 'python-rdkit';
+
+export const targetLanguages: TargetLanguage[] = ['pseudocode', 'typescript', 'python-rdkit'];
+
+export interface GeneratorParameters {
+  threshold?: number;
+  method?: string;
+  maxCompounds?: number;
+  iterations?: number;
+  // Fingerprint settings (molecular-similarity)
+  fingerprintType?: string;
+  radius?: number;
+  bitLength?: number;
+  useCounts?: boolean;
+  maxPathLength?: number;
+  // Tversky weights, used when method is 'tversky'
+  tverskyAlpha?: number;
+  tverskyBeta?: number;
+  // Blend of the shape score and 2D fingerprint Tanimoto, used when method
+  // is 'usr' or 'usrcat'
+  shapeWeight?: number;
+  fingerprintWeight?: number;
+  // SMARTS pattern (substructure-search)
+  smartsQuery?: string;
+  // Applicability-domain method (qsar-model, virtual-screening)
+  applicabilityDomain?: string;
+  // Ensemble blending: 'fixed' weights or 'stacking' with conformal
+  // confidence (virtual-screening)
+  ensembleMode?: string;
+  // Ensemble members and screening / GNN mini-batch size (virtual-screening)
+  modelEnsemble?: string[];
+  batchSize?: number;
+  // 'weighted-sum' or 'pareto' (NSGA-II), and the objectives as names or
+  // { name, direction, min, max } specs (structure-optimization)
+  optimizationMode?: string;
+  objectives?: (string | Record<string, unknown>)[];
+  // Feature perception, clustering tolerance in Å, model size limits and
+  // whether every supplied conformer is used (pharmacophore)
+  featureTypes?: string[];
+  toleranceRadius?: number;
+  minFeatures?: number;
+  maxFeatures?: number;
+  conformerGeneration?: boolean;
+  // 'butina' or 'hierarchical', the Tanimoto distance cutoff, the linkage
+  // for hierarchical clustering and 'maxmin' or 'sphere-exclusion' picking
+  // (clustering-diversity)
+  clusteringMethod?: string;
+  distanceCutoff?: number;
+  linkage?: string;
+  pickingMethod?: string;
+  // Compounds a scaffold or scaffold-tree node needs to be reported
+  // (scaffold-analysis)
+  minScaffoldCount?: number;
+  // Largest variable part in heavy atoms and the pairs a transform needs
+  // to be reported (matched-molecular-pairs)
+  maxVariableAtoms?: number;
+  minPairs?: number;
+  // Activity difference and Structure-Activity Landscape Index a similar
+  // pair needs to count as a cliff (activity-cliffs)
+  minActivityDifference?: number;
+  minSali?: number;
+  // Core SMARTS with labelled attachment points such as [*:1], and the
+  // ridge penalty of the Free-Wilson fit (r-group-analysis)
+  coreSmarts?: string;
+  ridgeAlpha?: number;
+}
+
+export type AlgorithmParameters = Record<string, unknown>;
+
+export interface GeneratedAlgorithm {
+  name: string;
+  type: AlgorithmType;
+  description: string;
+  parameters: AlgorithmParameters;
+  pseudocode: string;
+  complexity: string;
+  useCases: string[];
+}
+
+// Renders a runnable implementation from a generator's resolved parameter block.
+export type CodeTemplate = (parameters: AlgorithmParameters) => string;
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { alertFamilies, isAlertFamilyAvailable, matchAlerts, painsSource } from './alerts';
+import painsCatalog from './pains.json';
+import { mergeQueryHydrogens, parseSmarts } from './smarts';
+import { parseSmiles } from './smiles';
+
+const painsFamilies = ['pains-a', 'pains-b', 'pains-c'] as const;
+
+describe('PAINS families', () => {
+  it('keep the published stage names', () => {
+    expect(alertFamilies).toEqual(expect.arrayContaining([...painsFamilies]));
+  });
+
+  it('are available exactly when the catalogue has entries', () => {
+    for (const family of painsFamilies) {
+      expect(isAlertFamilyAvailable(family)).toBe(painsCatalog[family].length > 0);
+    }
+  });
+
+  it('parse every catalogue pattern', () => {
+    for (const family of painsFamilies) {
+      for (const [name, smarts] of painsCatalog[family] as [string, string][]) {
+        expect(() => mergeQueryHydrogens(parseSmarts(smarts)), name).not.toThrow();
+      }
+    }
+  });
+
+  it.skipIf(painsSource === null)('hold the 480 published patterns and flag an ene-rhodanine', () => {
+    expect(painsFamilies.map((family) => painsCatalog[family].length)).toEqual([16, 55, 409]);
+    expect(matchAlerts(parseSmiles('O=C1NC(=S)SC1=Cc1ccccc1'), 'pains-a')).toContain('ene_rhod_A(235)');
+  });
+});
+
+describe('interference alerts', () => {
+  it('do not fire on marketed drugs', () => {
+    const drugs = [
+      'N[C@@H](Cc1ccc(O)c(O)c1)C(=O)O', // levodopa
+      'NCCc1ccc(O)c(O)c1', // dopamine
+      'CCN(CC)C(=O)/C(C#N)=C/c1cc(O)c(O)c([N+](=O)[O-])c1', // entacapone
+      'OC(=O)c1cc(/N=N/c2ccc(cc2)S(=O)(=O)Nc2ccccn2)ccc1O', // sulfasalazine
+      'COc1cccc2C(=O)c3c(O)c4C[C@](O)(C[C@H](O[C@H]5C[C@H](N)[C@H](O)[C@H](C)O5)c4c(O)c3C(=O)c12)C(=O)CO', // doxorubicin
+      'Nc1ccc(O)c(c1)C(O)=O', // mesalamine
+      'COc1ccc2[nH]c(nc2c1)S(=O)Cc1ncc(C)c(OC)c1C', // omeprazole
+      'CC(=O)Nc1ccc(O)cc1', // paracetamol
+    ];
+    for (const smiles of drugs) expect(matchAlerts(parseSmiles(smiles), 'interference'), smiles).toEqual([]);
+  });
+
+  it('fire on their motifs', () => {
+    expect(matchAlerts(parseSmiles('O=C1NC(=S)SC1=Cc1ccccc1'), 'interference')).toContain('ene rhodanine');
+    expect(matchAlerts(parseSmiles('CN(C)Cc1ccccc1O'), 'interference')).toEqual(['phenolic Mannich base']);
+    expect(matchAlerts(parseSmiles('Nc1ccc(O)cc1'), 'interference')).toEqual(['4-aminophenol or 1,4-phenylenediamine']);
+    expect(matchAlerts(parseSmiles('CSc1ncccn1'), 'interference')).toEqual(['heteroaryl thioether']);
+  });
+
+  it('leave catechols and quinones to the Brenk set', () => {
+    expect(matchAlerts(parseSmiles('NCCc1ccc(O)c(O)c1'), 'brenk')).toContain('catechol');
+    expect(matchAlerts(parseSmiles('O=C1C=CC(=O)C=C1'), 'brenk')).toContain('quinone');
+  });
+});
@@ -0,0 +1,163 @@
+import type { Molecule } from './molecule';
+import painsCatalog from './pains.json';
+import { hasMatch, mergeQueryHydrogens, parseSmarts, type SmartsQuery } from './smarts';
+
+export const alertFamilies = ['brenk', 'pains-a', 'pains-b', 'pains-c', 'interference'] as const;
+
+export type AlertFamily = (typeof alertFamilies)[number];
+
+// Structural alerts as [name, SMARTS]. Brenk entries follow the unwanted
+// groups of Brenk et al. (ChemMedChem 2008, 3, 435). The PAINS families are
+// the published Baell & Holloway classes (J. Med. Chem. 2010, 53, 2719) as
+// shipped in RDKit's FilterCatalog, read from pains.json, which
+// scripts/build-pains.mjs writes from RDKit's sources; a family with no
+// entries there is unavailable. The interference entries are an in-house set
+// of assay-interference motifs (reactive, redox-active, chelating or
+// photoreactive chemotypes) not already in the Brenk set.
+const alertDefinitions: Record<AlertFamily, [string, string][]> = {
+  brenk: [
+    ['>2 ester groups', 'C(=O)O[#6].C(=O)O[#6].C(=O)O[#6]'],
+    ['2-halo pyridine', 'n1c([F,Cl,Br,I])cccc1'],
+    ['acid halide', 'C(=O)[F,Cl,Br,I]'],
+    ['acyclic C=C-O', 'C=[C;!R]O'],
+    ['acyl cyanide', 'N#CC(=O)'],
+    ['acyl hydrazine', 'C(=O)N[NH2]'],
+    ['aldehyde', '[CX3H1](=O)[#6]'],
+    ['aliphatic long chain', '[R0;D2][R0;D2][R0;D2][R0;D2][R0;D2][R0;D2][R0;D2]'],
+    ['alkyl halide', '[CX4][Cl,Br,I]'],
+    ['amidotetrazole', 'c1nnnn1C=O'],
+    ['aniline', 'c1cc([NH2])ccc1'],
+    ['anhydride', 'C(=O)OC(=O)'],
+    ['azepane', '[CH2R2]1N[CH2R2][CH2R2][CH2R2][CH2R2][CH2R2]1'],
+    ['azide', 'N=[N+]=[N-]'],
+    ['azo group', '[#6]N=N[#6]'],
+    ['azocane', '[CH2R2]1N[CH2R2][CH2R2][CH2R2][CH2R2][CH2R2][CH2R2]1'],
+    ['benzidine', 'Nc1ccc(cc1)-c1ccc(N)cc1'],
+    ['beta-keto/anhydride', '[#6](=O)[CX4,O][#6](=O)'],
+    ['beta-lactam', 'N1C(=O)CC1'],
+    ['carbo cation/anion', '[C+,c+,C-,c-]'],
+    ['catechol', 'c([OH])c([OH])'],
+    ['charged oxygen or sulfur', '[O+,o+,S+,s+]'],
+    ['chloramidine', '[Cl]C([C&R0])=N'],
+    ['conjugated nitrile', 'C=!@CC#N'],
+    ['crown ether', '[CH2]1O[CH2][CH2]O[CH2][CH2]O[CH2][CH2]O[CH2][CH2]O[CH2]1'],
+    ['cumarine', 'c1ccc2c(c1)ccc(=O)o2'],
+    ['cyanamide', '[NX3]C#N'],
+    ['cyanate/thiocyanate', '[O,S]C#N'],
+    ['cyanohydrin', 'N#C[CX4][OH]'],
+    ['cycloheptane', '[C;!$(C=O)]1[C;!$(C=O)][C;!$(C=O)][C;!$(C=O)][C;!$(C=O)][C;!$(C=O)][C;!$(C=O)]1'],
+    ['cyclooctane', '[C;!$(C=O)]1[C;!$(C=O)][C;!$(C=O)][C;!$(C=O)][C;!$(C=O)][C;!$(C=O)][C;!$(C=O)][C;!$(C=O)]1'],
+    ['diaminobenzene', '[NH2]c1c([NH2])cccc1'],
+    ['diaminobenzene', '[NH2]c1ccc([NH2])cc1'],
+    ['diazo group', '[N;!R]=[N;!R]'],
+    ['diazonium', '[N+]#N'],
+    ['diketo group', '[#6](=O)[#6](=O)'],
+    ['disulphide', 'SS'],
+    ['enamine', '[CX3;!$(C=O)]=[CX3][NX3;H1,H2;!$(NC=[O,S,N])]'],
+    ['ester of HOBT', 'C(=O)Onnn'],
+    ['four-membered lactone', 'C1(=O)OCC1'],
+    ['halogenated ring', 'c([F,Cl,Br,I])c([F,Cl,Br,I])c[F,Cl,Br,I]'],
+    ['heavy metal', '[Hg,Fe,As,Sb,Zn,Se,se,Te,Na,Ca,Ge,Ag,Mg,K,Ba,Sr,Be,Ti,Mo,Mn,Ru,Pd,Ni,Cu,Au,Cd,Al,Ga,Sn,Rh,Tl,Bi,Nb,Li,Pb,Hf,Ho]'],
+    ['het-C-het not in ring', '[NX3R0,NX4R0,OR0,SX2R0][CX4][NX3R0,NX4R0,OR0,SX2R0]'],
+    ['hydantoin', 'C1NC(=O)NC1=O'],
+    ['hydrazine', '[NX3;!$(NC=O)][NX3;!$(NC=O)]'],
+    ['hydroquinone', '[OH]c1ccc([OH])cc1'],
+    ['hydroxamic acid', 'C(=O)N[OH]'],
+    ['imine', '[CX3;!R]=[NX2;!R;!$(N[#7,#8])]'],
+    ['iodine', 'I'],
+    ['isocyanate', 'N=C=O'],
+    ['isothiocyanate', 'N=C=S'],
+    ['isolated alkene', '[$([CH2]),$([CH][CX4]),$(C([CX4])[CX4])]=[$([CH2]),$([CH][CX4]),$(C([CX4])[CX4])]'],
+    ['ketene', 'C=C=O'],
+    ['methylidene-1,3-dithiole', 'S1C=CSC1=S'],
+    ['Michael acceptor', 'C=!@CC=[O,S]'],
+    ['Michael acceptor', '[$([CH]),$(CC)]#CC(=O)'],
+    ['N-oxide', '[NX2,nX3][OX1]'],
+    ['N-acyl-2-amino-5-mercapto-1,3,4-thiadiazole', 's1c(S)nnc1NC=O'],
+    ['N-C-halo', 'NC[F,Cl,Br,I]'],
+    ['N-halo', '[NX3,NX4][F,Cl,Br,I]'],
+    ['N-hydroxyl pyridine', 'n[OH]'],
+    ['nitro group', '[N+](=O)[O-]'],
+    ['N-nitroso', '[#7]N=O'],
+    ['oxime', '[#6]=N[OH]'],
+    ['oxime ester', '[#6]=NOC=O'],
+    ['oxygen-nitrogen single bond', '[OR0;+0][NR0;+0]'],
+    ['perfluorinated chain', '[CX4](F)(F)[CX4](F)F'],
+    ['peroxide', 'OO'],
+    ['phenol ester', 'c1ccccc1OC(=O)[#6]'],
+    ['phenyl carbonate', 'c1ccccc1OC(=O)O'],
+    ['phosphor', 'P'],
+    ['phthalimide', '[cR,CR]~C(=O)NC(=O)~[cR,CR]'],
+    ['polycyclic aromatic hydrocarbon', 'c1ccc2cc3ccccc3cc2c1'],
+    ['polycyclic aromatic hydrocarbon', 'c1ccc2c(c1)ccc1ccccc21'],
+    ['polyene', '[CR0]=[CR0][CR0]=[CR0]'],
+    ['quaternary nitrogen', '[NX4+]'],
+    ['quinone', '[#6]1(=[O,N])[#6]=,:[#6][#6](=[O,N])[#6]=,:[#6]1'],
+    ['quaternary nitrogen', '[nX3+;!$([n+][O-])]'],
+    ['silicon halogen', '[Si][F,Cl,Br,I]'],
+    ['stilbene', 'c1ccccc1C=Cc1ccccc1'],
+    ['sulfinic acid', '[SX3](=O)[OH]'],
+    ['sulfonic acid', '[SX4](=O)(=O)[OH]'],
+    ['sulfonic ester', '[SX4;!$(S(=O)(=O)N)](=O)(=O)O[#6]'],
+    ['sulfonyl cyanide', 'S(=O)(=O)C#N'],
+    ['sulfonyl halide', 'S(=O)(=O)[F,Cl,Br,I]'],
+    ['sulfur oxygen single bond', '[SX2]O'],
+    ['sulphate', 'OS(=O)(=O)[O-]'],
+    ['sulphur nitrogen single bond', '[SX2H0][N]'],
+    ['thiobenzothiazole', 'c12ccccc1SC(S)=N2'],
+    ['thiocarbonyl group', '[#6]=S'],
+    ['thioester', 'SC=O'],
+    ['thiol', '[SH]'],
+    ['three-membered heterocycle', '*1[O,S,N]*1'],
+    ['triflate', 'OS(=O)(=O)C(F)(F)F'],
+    ['triphenyl methyl-silyl', '[SiR0,CR0](c1ccccc1)(c2ccccc2)(c3ccccc3)'],
+    ['triple bond', 'C#C'],
+  ],
+  'pains-a': painsCatalog['pains-a'] as [string, string][],
+  'pains-b': painsCatalog['pains-b'] as [string, string][],
+  'pains-c': painsCatalog['pains-c'] as [string, string][],
+  interference: [
+    ['ene rhodanine', '[#6]=[#6]1[#16][#6](=[#16,#8,#7])[#7][#6]1=[#8]'],
+    ['ene five-membered heterocycle', '[#6]=[#6]1[#6](=[#8])[#7,#8,#16][#6,#7]=[#6,#7]1'],
+    ['hydrazone phenol', '[OH]c:c[#6]=[#7][#7]'],
+    ['dialkyl aniline ene', '[CX4][NX3]([CX4])c1ccc(cc1)[#6]=[#6,#7]'],
+    ['imine one', '[#6][#6](=[#8])[#6]=[#7][#6,#7]'],
+    ['phenolic Mannich base', '[OH]c:c[CH2][NX3;!$(NC=O)]'],
+    ['anilino ene', 'c[NX3;H1,H0;!$(NC=O)][CX3]=[CX3][#6]'],
+    ['ene dione', '[#8]=[#6;!R][#6]=[#6][#6;!R]=[#8]'],
+    ['3-aminoalkyl indole', 'c1ccc2c(c1)c([CX4][NX3])c[nH]2'],
+    ['2-aminothiophene carbonyl', '[NH2]c1sccc1C=O'],
+    ['thiophene hydrazone', 's1cccc1[#6]=[#7][#7]'],
+    ['cross-conjugated dienone', '[#6]=[#6][#6](=[#8])[#6]=[#6]'],
+    ['4-hydroxy/amino sulfonanilide', '[#16](=O)(=O)[NH]c1ccc([OH,NH2])cc1'],
+    ['4-aminophenol or 1,4-phenylenediamine', '[NH2]c1[cH][cH]c([OH,NH2])[cH][cH]1'],
+    ['aminoacridine', '[NX3]c1c2ccccc2nc2ccccc12'],
+    ['thioketone', '[#6][#6;!$(C(N)N)](=S)[#6]'],
+    ['cyano enamine', 'N#C[#6]=[#6][NX3]'],
+    ['thiourea', '[NX3;H1,H2]C(=S)[NX3]'],
+    ['3-cyano-2-pyridone', 'N#Cc1ccc[nH]c1=O'],
+    ['saturated rhodanine', 'S1C(=S)NC(=O)[CX4]1'],
+    ['N-aryl anthranilic acid', '[OH]C(=O)c1ccccc1[NH]c'],
+    ['3-hydroxythiophene', '[OH]c1sccc1'],
+    ['imine phenol', '[OH]c1ccccc1[#6]=[#7][#6]'],
+    ['heteroaryl thioether', 'c([SX2][CX4])n'],
+  ],
+};
+
+// Where the PAINS catalogue came from, or null when it has not been built.
+export const painsSource: string | null = painsCatalog.source;
+
+export function isAlertFamilyAvailable(family: AlertFamily): boolean {
+  return alertDefinitions[family].length > 0;
+}
+
+let compiled: Record<AlertFamily, { name: string; query: SmartsQuery }[]> | null = null;
+
+// Names of the alerts in a family that match the molecule, without repeats.
+export function matchAlerts(mol: Molecule, family: AlertFamily): string[] {
+  compiled ??= Object.fromEntries(
+    alertFamilies.map((f) => [f, alertDefinitions[f].map(([name, smarts]) => ({ name, query: mergeQueryHydrogens(parseSmarts(smarts)) }))]),
+  ) as Record<AlertFamily, { name: string; query: SmartsQuery }[]>;
+  const names = compiled[family].filter(({ query }) => hasMatch(mol, query)).map(({ name }) => name);
+  return [...new Set(names)];
+}
@@ -0,0 +1,138 @@
+import { allowedValences } from './elements';
+import { AROMATIC, atomBonds, otherAtom, type Molecule } from './molecule';
+import { isRingBond, ringInfo, ringSystems } from './rings';
+
+export class KekulizationError extends Error {
+  constructor(readonly atom: number) {
+    super('Cannot kekulize aromatic system');
+    this.name = 'KekulizationError';
+  }
+}
+
+// An aromatic atom needs a double bond in the Kekulé form unless it donates
+// a lone pair (pyrrole N-H, furan O) or already has an exocyclic double bond.
+function needsDoubleBond(mol: Molecule, atom: number): boolean {
+  const a = mol.atoms[atom];
+  let sigma = a.hydrogens;
+  for (const b of atomBonds(mol)[atom]) {
+    const order = mol.bonds[b].order;
+    if (order === 2 || order === 3) return false;
+    sigma += order === AROMATIC ? 1 : order;
+  }
+  return allowedValences(a.element, a.charge)?.includes(sigma + 1) ?? false;
+}
+
+// Kekulé bond orders for every bond; aromatic bonds become 1 or 2.
+export function kekulize(mol: Molecule): number[] {
+  const orders: number[] = mol.bonds.map((bond) => (bond.order === AROMATIC ? 1 : bond.order));
+  const needs = mol.atoms.map((atom, i) => atom.aromatic && needsDoubleBond(mol, i));
+  const matched = new Array<boolean>(mol.atoms.length).fill(false);
+
+  const options = (atom: number) =>
+    atomBonds(mol)[atom].filter((b) => {
+      const n = otherAtom(mol.bonds[b], atom);
+      return mol.bonds[b].order === AROMATIC && needs[n] && !matched[n];
+    });
+
+  // Backtracking perfect matching, always extending the most constrained atom.
+  const solve = (): boolean => {
+    let best = -1;
+    let bestOptions: number[] = [];
+    for (let atom = 0; atom < mol.atoms.length; atom++) {
+      if (!needs[atom] || matched[atom]) continue;
+      const candidates = options(atom);
+      if (candidates.length === 0) return false;
+      if (best < 0 || candidates.length < bestOptions.length) {
+        best = atom;
+        bestOptions = candidates;
+      }
+    }
+    if (best < 0) return true;
+    for (const b of bestOptions) {
+      const n = otherAtom(mol.bonds[b], best);
+      matched[best] = matched[n] = true;
+      orders[b] = 2;
+      if (solve()) return true;
+      matched[best] = matched[n] = false;
+      orders[b] = 1;
+    }
+    return false;
+  };
+
+  if (!solve()) {
+    const failing = needs.findIndex((need, i) => need && !matched[i]);
+    throw new KekulizationError(failing);
+  }
+  return orders;
+}
+
+const kekuleCache = new WeakMap<Molecule, number[]>();
+
+// Cached Kekulé orders for a parsed (already valid) molecule.
+export function kekuleOrders(mol: Molecule): number[] {
+  let orders = kekuleCache.get(mol);
+  if (!orders) {
+    orders = kekulize(mol);
+    kekuleCache.set(mol, orders);
+  }
+  return orders;
+}
+
+// Pi electrons an atom contributes to a ring, or -1 if it cannot be aromatic.
+function piElectrons(mol: Molecule, atom: number, ring: Set<number>, orders: number[]): number {
+  const a = mol.atoms[atom];
+  let connections = a.hydrogens;
+  for (const b of atomBonds(mol)[atom]) {
+    const order = orders[b];
+    const partner = otherAtom(mol.bonds[b], atom);
+    connections += 1;
+    if (order === 3) return -1;
+    if (order !== 2) continue;
+    if (ring.has(partner) || isRingBond(mol, b)) return 1;
+    // Exocyclic C=O, C=S, C=N as in pyridones keep the ring aromatic
+    return ['O', 'S', 'N'].includes(mol.atoms[partner].element) ? 0 : -1;
+  }
+  if (a.charge === 0 && ['N', 'P'].includes(a.element) && connections === 3) return 2;
+  if (a.charge === 0 && ['O', 'S', 'Se'].includes(a.element) && connections === 2) return 2;
+  if (a.element === 'C' && a.charge === -1 && connections === 3) return 2;
+  if ((a.element === 'C' && a.charge === 1) || (a.element === 'B' && a.charge === 0 && connections === 3)) return 0;
+  return -1;
+}
+
+// Marks Kekulé rings (and fused ring pairs) with 4n+2 pi electrons aromatic.
+// Pass the orders from kekulize() when the molecule already has aromatic bonds.
+export function perceiveAromaticity(mol: Molecule, kekuleBondOrders?: number[]): void {
+  const { rings, ringBonds } = ringInfo(mol);
+  const orders = kekuleBondOrders ?? mol.bonds.map((bond) => bond.order);
+  const candidates = rings.map((atoms, r) => ({ atoms, bonds: ringBonds[r] }));
+  for (const system of ringSystems(mol)) {
+    for (let i = 0; i < system.length; i++) {
+      for (let j = i + 1; j < system.length; j++) {
+        const shared = ringBonds[system[i]].filter((b) => ringBonds[system[j]].includes(b));
+        if (shared.length === 0) continue;
+        const bonds = [...new Set([...ringBonds[system[i]], ...ringBonds[system[j]]])].filter(
+          (b) => !shared.includes(b),
+        );
+        const atoms = [...new Set([...rings[system[i]], ...rings[system[j]]])];
+        candidates.push({ atoms, bonds: [...bonds, ...shared] });
+      }
+    }
+  }
+
+  for (const { atoms, bonds } of candidates) {
+    if (atoms.every((atom) => mol.atoms[atom].aromatic)) continue;
+    const ring = new Set(atoms);
+    let electrons = 0;
+    for (const atom of atoms) {
+      const contribution = piElectrons(mol, atom, ring, orders);
+      if (contribution < 0) {
+        electrons = -1;
+        break;
+      }
+      electrons += contribution;
+    }
+    if (electrons < 2 || (electrons - 2) % 4 !== 0) continue;
+    atoms.forEach((atom) => (mol.atoms[atom].aromatic = true));
+    bonds.forEach((b) => (mol.bonds[b].order = AROMATIC));
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { CliffOptionsError, findActivityCliffs, resolveCliffParameters, sali, SALI_DISTANCE_FLOOR } from './cliffs';
+
+const bits = (...on: number[]) => Uint8Array.from({ length: 8 }, (_, bit) => (on.includes(bit) ? 1 : 0));
+
+// A and C share every bit, A and B (and B and C) three of five, D none; E
+// is unmeasured.
+const fingerprints = [bits(0, 1, 2, 3), bits(0, 1, 2, 4), bits(0, 1, 2, 3), bits(5, 6), bits(0, 1, 2, 3)];
+const activities = [5, 7, 8, 9, null];
+
+const parameters = resolveCliffParameters({ minSimilarity: 0.5 });
+
+describe('sali', () => {
+  it('divides the activity difference by the distance, floored for identical fingerprints', () => {
+    expect(sali(-2, 0.6)).toBeCloseTo(5, 10);
+    expect(sali(3, 1)).toBeCloseTo(3 / SALI_DISTANCE_FLOOR, 10);
+  });
+});
+
+describe('findActivityCliffs', () => {
+  it('flags similar pairs with large activity differences, highest SALI first', () => {
+    const analysis = findActivityCliffs(fingerprints, activities, parameters);
+    expect(analysis.pairCount).toBe(6);
+    expect(analysis.cliffCount).toBe(3);
+    expect(analysis.cliffs.map(({ from, to, activityDifference }) => [from, to, activityDifference])).toEqual([
+      [0, 2, 3],
+      [0, 1, 2],
+      [1, 2, 1],
+    ]);
+    expect(analysis.cliffs[0].sali).toBeCloseTo(300, 6);
+    expect(analysis.cliffs[1]).toMatchObject({ similarity: expect.closeTo(0.6, 6), sali: expect.closeTo(5, 5) });
+    expect(analysis.cliffsPerCompound).toEqual([2, 2, 2, 0, 0]);
+  });
+
+  it('puts the less active compound first', () => {
+    const [cliff] = findActivityCliffs(fingerprints, [8, 7, 5, 9, null], parameters).cliffs;
+    expect([cliff.from, cliff.to]).toEqual([2, 0]);
+  });
+
+  it('applies the activity difference and SALI thresholds and caps the reported cliffs', () => {
+    const bigSteps = findActivityCliffs(fingerprints, activities, { ...parameters, minActivityDifference: 2 });
+    expect(bigSteps.cliffs.map((cliff) => [cliff.from, cliff.to])).toEqual([
+      [0, 2],
+      [0, 1],
+    ]);
+    expect(findActivityCliffs(fingerprints, activities, { ...parameters, minSali: 10 }).cliffCount).toBe(1);
+    const capped = findActivityCliffs(fingerprints, activities, { ...parameters, maxCliffs: 1 });
+    expect(capped.cliffs).toHaveLength(1);
+    expect(capped.cliffCount).toBe(3);
+  });
+
+  it('returns a SALI heatmap of measured compounds ordered by activity', () => {
+    const { heatmap } = findActivityCliffs(fingerprints, [9, 7, 8, 5, null], parameters);
+    expect(heatmap?.order).toEqual([3, 1, 2, 0]);
+    expect(heatmap?.sali[0]).toEqual([0, 2, 3, 4]);
+    expect(heatmap?.sali[2][3]).toBeCloseTo(100, 6);
+  });
+});
+
+describe('resolveCliffParameters', () => {
+  it('fills defaults and rejects values out of range', () => {
+    expect(resolveCliffParameters({})).toEqual({ minSimilarity: 0.65, minActivityDifference: 1, minSali: 0, maxCliffs: 100 });
+    expect(() => resolveCliffParameters({ minSimilarity: 1.5 })).toThrow(CliffOptionsError);
+    expect(() => resolveCliffParameters({ minActivityDifference: -1 })).toThrow(CliffOptionsError);
+    expect(() => resolveCliffParameters({ minSali: Infinity })).toThrow(CliffOptionsError);
+    expect(() => resolveCliffParameters({ maxCliffs: 0 })).toThrow(CliffOptionsError);
+  });
+});
@@ -0,0 +1,145 @@
+import { distanceAt, tanimotoDistanceMatrix, type DistanceMatrix } from './clustering';
+import type { Fingerprint } from './fingerprints';
+
+export class CliffOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliffOptionsError';
+  }
+}
+
+export interface CliffParameters {
+  minSimilarity?: number;
+  minActivityDifference?: number;
+  minSali?: number;
+  maxCliffs?: number;
+}
+
+export interface ResolvedCliffParameters {
+  // A cliff needs at least this fingerprint Tanimoto similarity...
+  minSimilarity: number;
+  // ...at least this absolute activity difference (log units for pIC50-style
+  // data, so 1 is a tenfold change)...
+  minActivityDifference: number;
+  // ...and at least this SALI; 0 leaves the first two thresholds in charge.
+  minSali: number;
+  // Cap on the reported cliffs, highest SALI first.
+  maxCliffs: number;
+}
+
+// Compounds with identical fingerprints would have an infinite SALI, so the
+// distance 1 - similarity is floored at this value.
+export const SALI_DISTANCE_FLOOR = 0.01;
+
+// Compounds at most this many get the full SALI matrix for a heatmap.
+export const MAX_HEATMAP_SIZE = 200;
+
+export interface ActivityCliff {
+  // Compound indices, the less active first.
+  from: number;
+  to: number;
+  similarity: number;
+  // Activity of `to` minus that of `from`, never negative.
+  activityDifference: number;
+  sali: number;
+}
+
+export interface SaliHeatmap {
+  // Compound indices by increasing activity; rows and columns follow it.
+  order: number[];
+  sali: number[][];
+}
+
+export interface CliffAnalysis {
+  // Pairs of measured compounds that were compared.
+  pairCount: number;
+  cliffCount: number;
+  cliffs: ActivityCliff[];
+  // Cliffs each compound takes part in, reported or not; 0 for unmeasured
+  // compounds.
+  cliffsPerCompound: number[];
+  // Null when more than MAX_HEATMAP_SIZE compounds are measured.
+  heatmap: SaliHeatmap | null;
+}
+
+export function resolveCliffParameters(params: CliffParameters): ResolvedCliffParameters {
+  const { minSimilarity = 0.65, minActivityDifference = 1, minSali = 0, maxCliffs = 100 } = params;
+  if (typeof minSimilarity !== 'number' || !(minSimilarity >= 0 && minSimilarity <= 1)) {
+    throw new CliffOptionsError('minSimilarity must be between 0 and 1');
+  }
+  if (typeof minActivityDifference !== 'number' || !(minActivityDifference >= 0) || !Number.isFinite(minActivityDifference)) {
+    throw new CliffOptionsError('minActivityDifference must be a non-negative number');
+  }
+  if (typeof minSali !== 'number' || !(minSali >= 0) || !Number.isFinite(minSali)) {
+    throw new CliffOptionsError('minSali must be a non-negative number');
+  }
+  if (typeof maxCliffs !== 'number' || !Number.isInteger(maxCliffs) || maxCliffs < 1) {
+    throw new CliffOptionsError('maxCliffs must be a positive integer');
+  }
+  return { minSimilarity, minActivityDifference, minSali, maxCliffs };
+}
+
+// Structure-Activity Landscape Index of Guha and Van Drie (J. Chem. Inf.
+// Model. 2008, 48, 646-658): |Ai - Aj| / (1 - sim(i, j)).
+export function sali(activityDifference: number, similarity: number): number {
+  return Math.abs(activityDifference) / Math.max(1 - similarity, SALI_DISTANCE_FLOOR);
+}
+
+function saliHeatmap(matrix: DistanceMatrix, measured: number[], activities: (number | null)[]): SaliHeatmap {
+  const order = measured
+    .map((_, k) => k)
+    .sort((a, b) => (activities[measured[a]] as number) - (activities[measured[b]] as number) || a - b);
+  return {
+    order: order.map((k) => measured[k]),
+    sali: order.map((a) =>
+      order.map((b) =>
+        a === b
+          ? 0
+          : sali((activities[measured[a]] as number) - (activities[measured[b]] as number), 1 - distanceAt(matrix, a, b))
+      )
+    ),
+  };
+}
+
+// Compares every pair of compounds with a measured activity (null marks an
+// unmeasured one) and flags the pairs meeting all three thresholds as
+// cliffs. Fingerprints are compared by Tanimoto on feature presence.
+export function findActivityCliffs(
+  fingerprints: Fingerprint[],
+  activities: (number | null)[],
+  params: ResolvedCliffParameters
+): CliffAnalysis {
+  const measured = activities.flatMap((activity, i) => (activity === null ? [] : [i]));
+  const matrix = tanimotoDistanceMatrix(measured.map((i) => fingerprints[i]));
+  const cliffs: ActivityCliff[] = [];
+  const cliffsPerCompound = activities.map(() => 0);
+
+  for (let a = 0; a < measured.length; a++) {
+    for (let b = a + 1; b < measured.length; b++) {
+      const similarity = 1 - distanceAt(matrix, a, b);
+      if (similarity < params.minSimilarity) continue;
+      const [i, j] = [measured[a], measured[b]];
+      const difference = (activities[j] as number) - (activities[i] as number);
+      const value = sali(difference, similarity);
+      if (Math.abs(difference) < params.minActivityDifference || value < params.minSali) continue;
+      cliffs.push({
+        from: difference >= 0 ? i : j,
+        to: difference >= 0 ? j : i,
+        similarity,
+        activityDifference: Math.abs(difference),
+        sali: value,
+      });
+      cliffsPerCompound[i]++;
+      cliffsPerCompound[j]++;
+    }
+  }
+  cliffs.sort((x, y) => y.sali - x.sali || x.from - y.from || x.to - y.to);
+
+  return {
+    pairCount: (measured.length * (measured.length - 1)) / 2,
+    cliffCount: cliffs.length,
+    cliffs: cliffs.slice(0, params.maxCliffs),
+    cliffsPerCompound,
+    heatmap: measured.length <= MAX_HEATMAP_SIZE ? saliHeatmap(matrix, measured, activities) : null,
+  };
+}
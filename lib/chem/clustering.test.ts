@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest';
+import {
+  butinaClusters,
+  ClusteringOptionsError,
+  clusterFingerprints,
+  cutDendrogram,
+  distanceAt,
+  hierarchicalClustering,
+  maxMinPick,
+  resolveClusteringParameters,
+  sphereExclusionPick,
+  tanimotoDistanceMatrix,
+  type DistanceMatrix,
+} from './clustering';
+
+// Items on a line at these positions, a distance of 1 being 1/40. Cutoffs
+// sit between distances, clear of float32 rounding.
+const positions = [0, 1, 3.5, 10, 12, 30];
+
+function lineMatrix(): DistanceMatrix {
+  const n = positions.length;
+  const values: number[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) values.push(Math.abs(positions[i] - positions[j]) / 40);
+  }
+  return { size: n, values: Float32Array.from(values) };
+}
+
+const bits = (...on: number[]) => Uint8Array.from([0, 1, 2, 3], (bit) => (on.includes(bit) ? 1 : 0));
+
+describe('tanimotoDistanceMatrix', () => {
+  it('stores 1 - Tanimoto for every pair, with 1 between empty fingerprints', () => {
+    const matrix = tanimotoDistanceMatrix([bits(0, 1), bits(0, 2), bits(), bits(0, 1), bits()]);
+    expect(distanceAt(matrix, 0, 1)).toBeCloseTo(2 / 3, 6);
+    expect(distanceAt(matrix, 1, 0)).toBeCloseTo(2 / 3, 6);
+    expect(distanceAt(matrix, 0, 3)).toBe(0);
+    expect(distanceAt(matrix, 0, 2)).toBe(1);
+    expect(distanceAt(matrix, 2, 4)).toBe(1);
+    expect(distanceAt(matrix, 2, 2)).toBe(0);
+  });
+});
+
+describe('butinaClusters', () => {
+  it('makes the item with most neighbours a centre and claims its neighbours', () => {
+    expect(butinaClusters(lineMatrix(), 2.2 / 40)).toEqual([
+      { centroid: 0, members: [0, 1] },
+      { centroid: 3, members: [3, 4] },
+      { centroid: 2, members: [2] },
+      { centroid: 5, members: [5] },
+    ]);
+    expect(butinaClusters(lineMatrix(), 3.2 / 40)[0]).toEqual({ centroid: 1, members: [1, 0, 2] });
+  });
+});
+
+describe('hierarchicalClustering', () => {
+  const merges = (linkage: 'single' | 'complete' | 'average') =>
+    hierarchicalClustering(lineMatrix(), linkage).map(({ left, right, distance, size }) => [left, right, Math.round(distance * 400) / 10, size]);
+
+  it('returns merges in SciPy linkage order', () => {
+    expect(merges('single')).toEqual([
+      [0, 1, 1, 2],
+      [3, 4, 2, 2],
+      [2, 6, 2.5, 3],
+      [7, 8, 6.5, 5],
+      [5, 9, 18, 6],
+    ]);
+  });
+
+  it('updates cluster distances by complete and average linkage', () => {
+    expect(merges('complete').map((merge) => merge[2])).toEqual([1, 2, 3.5, 12, 30]);
+    expect(merges('average').map((merge) => merge[2])).toEqual([1, 2, 3, 9.5, 24.7]);
+  });
+
+  it('cuts the dendrogram into clusters led by their medoids', () => {
+    const matrix = lineMatrix();
+    expect(cutDendrogram(matrix, hierarchicalClustering(matrix, 'average'), 3.2 / 40)).toEqual([
+      { centroid: 5, members: [5] },
+      { centroid: 3, members: [3, 4] },
+      { centroid: 1, members: [1, 0, 2] },
+    ]);
+  });
+});
+
+describe('diversity picking', () => {
+  it('picks MaxMin items furthest from all earlier picks, starting from the most distant item', () => {
+    const picks = maxMinPick(lineMatrix(), 4).map(({ index, distance }) => [index, distance === null ? null : Math.round(distance * 400) / 10]);
+    expect(picks).toEqual([
+      [5, null],
+      [0, 30],
+      [4, 12],
+      [2, 3.5],
+    ]);
+    expect(maxMinPick(lineMatrix(), 100)).toHaveLength(6);
+  });
+
+  it('picks items beyond the cutoff from earlier picks in library order', () => {
+    expect(sphereExclusionPick(lineMatrix(), 4 / 40, 10).map((pick) => pick.index)).toEqual([0, 3, 5]);
+    expect(sphereExclusionPick(lineMatrix(), 4 / 40, 2).map((pick) => pick.index)).toEqual([0, 3]);
+  });
+});
+
+describe('clusterFingerprints', () => {
+  it('sorts clusters by size and reports assignments and singletons', () => {
+    const result = clusterFingerprints(
+      [bits(0, 1), bits(2), bits(0, 1), bits(3)],
+      resolveClusteringParameters({ maxPicks: 2 }),
+    );
+    expect(result.clusters).toEqual([
+      { centroid: 0, members: [0, 2] },
+      { centroid: 1, members: [1] },
+      { centroid: 3, members: [3] },
+    ]);
+    expect(result.assignments).toEqual([0, 1, 0, 2]);
+    expect(result.singletons).toEqual([1, 3]);
+    expect(result.dendrogram).toBeUndefined();
+    expect(result.picks).toHaveLength(2);
+  });
+
+  it('includes the dendrogram for hierarchical clustering', () => {
+    const result = clusterFingerprints([bits(0, 1), bits(0, 1), bits(3)], resolveClusteringParameters({ clusteringMethod: 'hierarchical' }));
+    expect(result.dendrogram).toHaveLength(2);
+    expect(result.singletons).toEqual([2]);
+  });
+});
+
+describe('resolveClusteringParameters', () => {
+  it('fills defaults and rejects unknown methods and out-of-range values', () => {
+    expect(resolveClusteringParameters({})).toEqual({
+      clusteringMethod: 'butina',
+      distanceCutoff: 0.35,
+      linkage: 'average',
+      pickingMethod: 'maxmin',
+      maxPicks: 100,
+    });
+    expect(() => resolveClusteringParameters({ clusteringMethod: 'kmeans' })).toThrow(ClusteringOptionsError);
+    expect(() => resolveClusteringParameters({ distanceCutoff: 1 })).toThrow(ClusteringOptionsError);
+    expect(() => resolveClusteringParameters({ linkage: 'ward' })).toThrow(ClusteringOptionsError);
+    expect(() => resolveClusteringParameters({ maxPicks: 0 })).toThrow(ClusteringOptionsError);
+  });
+});
@@ -0,0 +1,365 @@
+import type { Fingerprint } from './fingerprints';
+
+export const clusteringMethods = ['butina', 'hierarchical'] as const;
+export const linkageMethods = ['single', 'complete', 'average'] as const;
+export const pickingMethods = ['maxmin', 'sphere-exclusion'] as const;
+
+export type ClusteringMethod = (typeof clusteringMethods)[number];
+export type LinkageMethod = (typeof linkageMethods)[number];
+export type PickingMethod = (typeof pickingMethods)[number];
+
+export class ClusteringOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ClusteringOptionsError';
+  }
+}
+
+export interface ClusteringParameters {
+  clusteringMethod?: string;
+  distanceCutoff?: number;
+  linkage?: string;
+  pickingMethod?: string;
+  maxPicks?: number;
+}
+
+export interface ResolvedClusteringParameters {
+  clusteringMethod: ClusteringMethod;
+  // Tanimoto distance (1 - similarity) within which compounds share a
+  // Butina cluster, at which the dendrogram is cut, and that separates
+  // sphere-exclusion picks.
+  distanceCutoff: number;
+  // Cluster-to-cluster distance for hierarchical clustering.
+  linkage: LinkageMethod;
+  pickingMethod: PickingMethod;
+  maxPicks: number;
+}
+
+// Pairwise distances of n items, stored as the upper triangle row by row.
+export interface DistanceMatrix {
+  size: number;
+  values: Float32Array;
+}
+
+export interface Cluster {
+  // The Butina cluster centre, or the medoid of a hierarchical cluster.
+  centroid: number;
+  // Item indices, centroid first.
+  members: number[];
+}
+
+// One agglomeration step in SciPy linkage order: items are 0..n-1 and the
+// cluster formed by step k is n + k.
+export interface Merge {
+  left: number;
+  right: number;
+  distance: number;
+  size: number;
+}
+
+export interface Pick {
+  index: number;
+  // Distance to the nearest earlier pick; null for the first.
+  distance: number | null;
+}
+
+export function isClusteringMethod(method: string): method is ClusteringMethod {
+  return (clusteringMethods as readonly string[]).includes(method);
+}
+
+export function isLinkageMethod(method: string): method is LinkageMethod {
+  return (linkageMethods as readonly string[]).includes(method);
+}
+
+export function isPickingMethod(method: string): method is PickingMethod {
+  return (pickingMethods as readonly string[]).includes(method);
+}
+
+export function resolveClusteringParameters(params: ClusteringParameters): ResolvedClusteringParameters {
+  const {
+    clusteringMethod = 'butina',
+    distanceCutoff = 0.35,
+    linkage = 'average',
+    pickingMethod = 'maxmin',
+    maxPicks = 100,
+  } = params;
+  if (typeof clusteringMethod !== 'string' || !isClusteringMethod(clusteringMethod)) {
+    throw new ClusteringOptionsError(`Invalid clusteringMethod. Expected one of: ${clusteringMethods.join(', ')}`);
+  }
+  if (typeof distanceCutoff !== 'number' || !(distanceCutoff > 0 && distanceCutoff < 1)) {
+    throw new ClusteringOptionsError('distanceCutoff must be between 0 and 1 (exclusive)');
+  }
+  if (typeof linkage !== 'string' || !isLinkageMethod(linkage)) {
+    throw new ClusteringOptionsError(`Invalid linkage. Expected one of: ${linkageMethods.join(', ')}`);
+  }
+  if (typeof pickingMethod !== 'string' || !isPickingMethod(pickingMethod)) {
+    throw new ClusteringOptionsError(`Invalid pickingMethod. Expected one of: ${pickingMethods.join(', ')}`);
+  }
+  if (typeof maxPicks !== 'number' || !Number.isInteger(maxPicks) || maxPicks < 1) {
+    throw new ClusteringOptionsError('maxPicks must be a positive integer');
+  }
+  return { clusteringMethod, distanceCutoff, linkage, pickingMethod, maxPicks };
+}
+
+const pairIndex = (n: number, i: number, j: number) =>
+  i < j ? i * n - (i * (i + 1)) / 2 + j - i - 1 : j * n - (j * (j + 1)) / 2 + i - j - 1;
+
+export function distanceAt(matrix: DistanceMatrix, i: number, j: number): number {
+  return i === j ? 0 : matrix.values[pairIndex(matrix.size, i, j)];
+}
+
+// Tanimoto distances on feature presence. Shared features are counted
+// through an inverted index of on-bits, which is fast for the sparse
+// fingerprints of a library.
+export function tanimotoDistanceMatrix(fingerprints: Fingerprint[]): DistanceMatrix {
+  const n = fingerprints.length;
+  const onBits: number[][] = [];
+  const holders = new Map<number, number[]>();
+  fingerprints.forEach((fp, i) => {
+    const bits: number[] = [];
+    fp.forEach((v, bit) => {
+      if (v === 0) return;
+      bits.push(bit);
+      const list = holders.get(bit);
+      if (list) list.push(i);
+      else holders.set(bit, [i]);
+    });
+    onBits.push(bits);
+  });
+  const values = new Float32Array((n * (n - 1)) / 2);
+  const common = new Int32Array(n);
+  for (let i = 0; i < n; i++) {
+    common.fill(0, i + 1);
+    for (const bit of onBits[i]) {
+      const list = holders.get(bit) as number[];
+      // Holders are in index order, so only the tail after i is counted
+      for (let k = list.length - 1; k >= 0 && list[k] > i; k--) common[list[k]]++;
+    }
+    const offset = pairIndex(n, i, i + 1);
+    for (let j = i + 1; j < n; j++) {
+      const union = onBits[i].length + onBits[j].length - common[j];
+      values[offset + j - i - 1] = union === 0 ? 1 : 1 - common[j] / union;
+    }
+  }
+  return { size: n, values };
+}
+
+// Taylor-Butina clustering (Butina, J. Chem. Inf. Comput. Sci. 1999, 39,
+// 747). Items are taken in order of how many neighbours they have within
+// the cutoff; each one not yet assigned becomes a centre and claims its
+// unassigned neighbours.
+export function butinaClusters(matrix: DistanceMatrix, cutoff: number): Cluster[] {
+  const n = matrix.size;
+  const neighbours: number[][] = Array.from({ length: n }, () => []);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (distanceAt(matrix, i, j) <= cutoff) {
+        neighbours[i].push(j);
+        neighbours[j].push(i);
+      }
+    }
+  }
+  const order = neighbours.map((_, i) => i).sort((a, b) => neighbours[b].length - neighbours[a].length || a - b);
+  const assigned = new Uint8Array(n);
+  const clusters: Cluster[] = [];
+  for (const centre of order) {
+    if (assigned[centre]) continue;
+    assigned[centre] = 1;
+    const members = [centre];
+    for (const j of neighbours[centre]) {
+      if (!assigned[j]) {
+        assigned[j] = 1;
+        members.push(j);
+      }
+    }
+    clusters.push({ centroid: centre, members });
+  }
+  return clusters;
+}
+
+// Agglomerative clustering by the nearest-neighbour chain algorithm with
+// Lance-Williams updates, O(n²) time on a copy of the matrix. Merges are
+// returned sorted by distance.
+export function hierarchicalClustering(matrix: DistanceMatrix, linkage: LinkageMethod): Merge[] {
+  const n = matrix.size;
+  const d = Float32Array.from(matrix.values);
+  const at = (i: number, j: number) => d[pairIndex(n, i, j)];
+  const active = new Uint8Array(n).fill(1);
+  const size = new Array<number>(n).fill(1);
+  // Merges by surviving slot; the slot keeps the merged cluster
+  const raw: { a: number; b: number; distance: number }[] = [];
+  const chain: number[] = [];
+  let first = 0;
+  while (raw.length < n - 1) {
+    if (chain.length === 0) {
+      while (!active[first]) first++;
+      chain.push(first);
+    }
+    for (;;) {
+      const a = chain[chain.length - 1];
+      const previous = chain.length > 1 ? chain[chain.length - 2] : -1;
+      // Ties go to the previous chain element so reciprocal pairs are found
+      let nearest = previous;
+      let best = previous >= 0 ? at(a, previous) : Infinity;
+      for (let k = 0; k < n; k++) {
+        if (k === a || !active[k]) continue;
+        const value = at(a, k);
+        if (value < best) {
+          best = value;
+          nearest = k;
+        }
+      }
+      if (nearest === previous) break;
+      chain.push(nearest);
+    }
+    const b = chain.pop() as number;
+    const a = chain.pop() as number;
+    raw.push({ a, b, distance: at(a, b) });
+    for (let k = 0; k < n; k++) {
+      if (k === a || k === b || !active[k]) continue;
+      const da = at(k, a);
+      const db = at(k, b);
+      d[pairIndex(n, k, a)] =
+        linkage === 'single'
+          ? Math.min(da, db)
+          : linkage === 'complete'
+            ? Math.max(da, db)
+            : (size[a] * da + size[b] * db) / (size[a] + size[b]);
+    }
+    active[b] = 0;
+    size[a] += size[b];
+  }
+
+  // Relabel in distance order: each slot maps to its current cluster id
+  raw.sort((x, y) => x.distance - y.distance);
+  const parent = Array.from({ length: n }, (_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const label = Array.from({ length: n }, (_, i) => i);
+  const count = new Array<number>(n).fill(1);
+  return raw.map(({ a, b, distance }, step) => {
+    const [ra, rb] = [find(a), find(b)];
+    const [left, right] = [label[ra], label[rb]].sort((x, y) => x - y);
+    parent[rb] = ra;
+    count[ra] += count[rb];
+    label[ra] = n + step;
+    return { left, right, distance, size: count[ra] };
+  });
+}
+
+// Flat clusters from the merges at or below the cutoff, each led by its
+// medoid.
+export function cutDendrogram(matrix: DistanceMatrix, merges: Merge[], cutoff: number): Cluster[] {
+  const n = matrix.size;
+  const groups = new Map<number, number[]>();
+  for (let i = 0; i < n; i++) groups.set(i, [i]);
+  merges.forEach((merge, step) => {
+    if (merge.distance > cutoff) return;
+    const members = [...(groups.get(merge.left) as number[]), ...(groups.get(merge.right) as number[])];
+    groups.delete(merge.left);
+    groups.delete(merge.right);
+    groups.set(n + step, members);
+  });
+  return [...groups.values()].map((members) => {
+    members.sort((a, b) => a - b);
+    const centroid = medoid(matrix, members);
+    return { centroid, members: [centroid, ...members.filter((i) => i !== centroid)] };
+  });
+}
+
+// Member with the smallest summed distance to the rest of its cluster.
+export function medoid(matrix: DistanceMatrix, members: number[]): number {
+  let best = members[0];
+  let bestSum = Infinity;
+  for (const i of members) {
+    let sum = 0;
+    for (const j of members) sum += distanceAt(matrix, i, j);
+    if (sum < bestSum) {
+      bestSum = sum;
+      best = i;
+    }
+  }
+  return best;
+}
+
+// MaxMin diversity picking (Ashton et al., Quant. Struct.-Act. Relat. 2002,
+// 21, 598): each pick is the item furthest from all earlier picks. The
+// first is the item with the largest summed distance to the library.
+export function maxMinPick(matrix: DistanceMatrix, count: number): Pick[] {
+  const n = matrix.size;
+  if (n === 0) return [];
+  let start = 0;
+  let startSum = -1;
+  for (let i = 0; i < n; i++) {
+    let sum = 0;
+    for (let j = 0; j < n; j++) sum += distanceAt(matrix, i, j);
+    if (sum > startSum) {
+      startSum = sum;
+      start = i;
+    }
+  }
+  const picks: Pick[] = [{ index: start, distance: null }];
+  const nearest = new Float64Array(n).fill(Infinity);
+  const picked = new Uint8Array(n);
+  picked[start] = 1;
+  let last = start;
+  while (picks.length < Math.min(count, n)) {
+    let next = -1;
+    for (let i = 0; i < n; i++) {
+      if (picked[i]) continue;
+      nearest[i] = Math.min(nearest[i], distanceAt(matrix, i, last));
+      if (next < 0 || nearest[i] > nearest[next]) next = i;
+    }
+    picked[next] = 1;
+    picks.push({ index: next, distance: nearest[next] });
+    last = next;
+  }
+  return picks;
+}
+
+// Sphere exclusion (leader picking) in library order: an item is picked
+// when it lies beyond the cutoff from every earlier pick.
+export function sphereExclusionPick(matrix: DistanceMatrix, cutoff: number, count: number): Pick[] {
+  const picks: Pick[] = [];
+  for (let i = 0; i < matrix.size && picks.length < count; i++) {
+    let nearest = Infinity;
+    for (const pick of picks) nearest = Math.min(nearest, distanceAt(matrix, i, pick.index));
+    if (nearest > cutoff) picks.push({ index: i, distance: picks.length === 0 ? null : nearest });
+  }
+  return picks;
+}
+
+export interface ClusteringResult {
+  // Largest first, ties by centroid index.
+  clusters: Cluster[];
+  // Position in clusters for each item.
+  assignments: number[];
+  // Items alone in their cluster.
+  singletons: number[];
+  // Only for hierarchical clustering.
+  dendrogram?: Merge[];
+  picks: Pick[];
+}
+
+export function clusterFingerprints(fingerprints: Fingerprint[], params: ResolvedClusteringParameters): ClusteringResult {
+  const { clusteringMethod, distanceCutoff, linkage, pickingMethod, maxPicks } = params;
+  const matrix = tanimotoDistanceMatrix(fingerprints);
+  const dendrogram = clusteringMethod === 'hierarchical' ? hierarchicalClustering(matrix, linkage) : undefined;
+  const clusters = (dendrogram ? cutDendrogram(matrix, dendrogram, distanceCutoff) : butinaClusters(matrix, distanceCutoff)).sort(
+    (a, b) => b.members.length - a.members.length || a.centroid - b.centroid,
+  );
+  const assignments = new Array<number>(matrix.size);
+  clusters.forEach((cluster, k) => cluster.members.forEach((i) => (assignments[i] = k)));
+  return {
+    clusters,
+    assignments,
+    singletons: clusters
+      .filter((cluster) => cluster.members.length === 1)
+      .map((cluster) => cluster.centroid)
+      .sort((a, b) => a - b),
+    ...(dendrogram ? { dendrogram } : {}),
+    picks:
+      pickingMethod === 'maxmin'
+        ? maxMinPick(matrix, maxPicks)
+        : sphereExclusionPick(matrix, distanceCutoff, maxPicks),
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDescriptors } from './descriptors';
+import { parseSmiles } from './smiles';
+
+const descriptorsOf = (smiles: string) => calculateDescriptors(parseSmiles(smiles));
+
+describe('calculateDescriptors', () => {
+  // Reference values from RDKit's Descriptors module.
+  it('matches RDKit for aspirin, caffeine and ibuprofen', () => {
+    expect(descriptorsOf('CC(=O)Oc1ccccc1C(=O)O')).toMatchObject({
+      HBD: 1, HBA: 4, Rings: 1, AromaticRings: 1, HeavyAtoms: 13, FormalCharge: 0,
+    });
+    const aspirin = descriptorsOf('CC(=O)Oc1ccccc1C(=O)O');
+    expect(aspirin.MW).toBeCloseTo(180.159, 3);
+    expect(aspirin.LogP).toBeCloseTo(1.3101, 4);
+    expect(aspirin.TPSA).toBeCloseTo(63.6, 2);
+    expect(aspirin.FractionCSP3).toBeCloseTo(1 / 9);
+
+    const caffeine = descriptorsOf('Cn1cnc2c1c(=O)n(C)c(=O)n2C');
+    expect(caffeine.LogP).toBeCloseTo(-1.0293, 4);
+    expect(caffeine.TPSA).toBeCloseTo(61.82, 2);
+    expect(caffeine).toMatchObject({ HBD: 0, HBA: 6, Rings: 2, AromaticRings: 2, RotatableBonds: 0 });
+
+    const ibuprofen = descriptorsOf('CC(C)Cc1ccc(cc1)C(C)C(=O)O');
+    expect(ibuprofen.LogP).toBeCloseTo(3.0732, 4);
+    expect(ibuprofen.TPSA).toBeCloseTo(37.3, 2);
+    expect(ibuprofen.RotatableBonds).toBe(4);
+  });
+
+  it('sums formal charges over all components', () => {
+    expect(descriptorsOf('C[N+](C)(C)C.[Cl-]').FormalCharge).toBe(0);
+    expect(descriptorsOf('C[N+](C)(C)C').FormalCharge).toBe(1);
+    expect(descriptorsOf('CC(=O)[O-]').FormalCharge).toBe(-1);
+  });
+
+  it('computes only the requested subset', () => {
+    expect(Object.keys(calculateDescriptors(parseSmiles('CCO'), ['TPSA', 'HBD']))).toEqual(['TPSA', 'HBD']);
+  });
+});
@@ -0,0 +1,244 @@
+import { crippenLogP, crippenMR } from './crippen';
+import {
+  AROMATIC,
+  atomBonds,
+  atomicNumberOf,
+  averageMolecularWeight,
+  heavyDegree,
+  neighbors,
+  otherAtom,
+  type Molecule,
+} from './molecule';
+import { isRingBond, ringInfo } from './rings';
+
+// Names follow the qsar-model generator's descriptor list.
+export const descriptorNames = [
+  'MW',
+  'LogP',
+  'MR',
+  'TPSA',
+  'HBD',
+  'HBA',
+  'RotatableBonds',
+  'Rings',
+  'AromaticRings',
+  'HeavyAtoms',
+  'FormalCharge',
+  'FractionCSP3',
+] as const;
+
+export type DescriptorName = (typeof descriptorNames)[number];
+
+export function isDescriptorName(name: string): name is DescriptorName {
+  return (descriptorNames as readonly string[]).includes(name);
+}
+
+function bondCounts(mol: Molecule, atom: number) {
+  const counts = { single: 0, double: 0, triple: 0, aromatic: 0 };
+  for (const b of atomBonds(mol)[atom]) {
+    if (mol.atoms[otherAtom(mol.bonds[b], atom)].element === 'H') continue;
+    const order = mol.bonds[b].order;
+    if (order === AROMATIC) counts.aromatic++;
+    else if (order === 1) counts.single++;
+    else if (order === 2) counts.double++;
+    else if (order === 3) counts.triple++;
+  }
+  return counts;
+}
+
+function totalHydrogens(mol: Molecule, atom: number): number {
+  return mol.atoms[atom].hydrogens + neighbors(mol, atom).filter((n) => mol.atoms[n].element === 'H').length;
+}
+
+function inThreeMemberedRing(mol: Molecule, atom: number): boolean {
+  const { rings, atomRings } = ringInfo(mol);
+  return atomRings[atom].some((r) => rings[r].length === 3);
+}
+
+// Ertl fragment contribution of a nitrogen or oxygen atom, in Å^2.
+// Environments outside the published table fall back to a degree estimate.
+function polarContribution(mol: Molecule, atom: number): number {
+  const a = mol.atoms[atom];
+  const h = totalHydrogens(mol, atom);
+  const degree = heavyDegree(mol, atom);
+  const { single, double, triple, aromatic } = bondCounts(mol, atom);
+  const charge = a.charge;
+
+  if (a.element === 'N') {
+    if (degree === 1) {
+      if (h === 0 && charge === 0 && triple === 1) return 23.79;
+      if (h === 1 && charge === 0 && double === 1) return 23.85;
+      if (h === 2 && charge === 0 && single === 1) return 26.02;
+      if (h === 2 && charge === 1 && double === 1) return 25.59;
+      if (h === 3 && charge === 1 && single === 1) return 27.64;
+    } else if (degree === 2) {
+      if (h === 0 && charge === 0 && single === 1 && double === 1) return 12.36;
+      if (h === 0 && charge === 0 && triple === 1 && double === 1) return 13.6;
+      if (h === 1 && charge === 0 && single === 2) return inThreeMemberedRing(mol, atom) ? 21.94 : 12.03;
+      if (h === 0 && charge === 1 && triple === 1 && single === 1) return 4.36;
+      if (h === 1 && charge === 1 && double === 1 && single === 1) return 13.97;
+      if (h === 2 && charge === 1 && single === 2) return 16.61;
+      if (h === 0 && charge === 0 && aromatic === 2) return 12.89;
+      if (h === 1 && charge === 0 && aromatic === 2) return 15.79;
+      if (h === 1 && charge === 1 && aromatic === 2) return 14.14;
+    } else if (degree === 3) {
+      if (h === 0 && charge === 0 && single === 3) return inThreeMemberedRing(mol, atom) ? 3.01 : 3.24;
+      if (h === 0 && charge === 0 && single === 1 && double === 2) return 11.68;
+      if (h === 0 && charge === 1 && single === 2 && double === 1) return 3.01;
+      if (h === 1 && charge === 1 && single === 3) return 4.44;
+      if (h === 0 && charge === 0 && aromatic === 3) return 4.41;
+      if (h === 0 && charge === 0 && single === 1 && aromatic === 2) return 4.93;
+      if (h === 0 && charge === 0 && double === 1 && aromatic === 2) return 8.39;
+      if (h === 0 && charge === 1 && aromatic === 3) return 4.1;
+      if (h === 0 && charge === 1 && single === 1 && aromatic === 2) return 3.88;
+    } else if (degree === 4) {
+      if (h === 0 && charge === 1 && single === 4) return 0;
+    }
+    return Math.max(0, 30.5 - degree * 8.2 + h * 1.5);
+  }
+
+  if (a.element === 'O') {
+    if (degree === 1) {
+      if (h === 0 && charge === 0 && double === 1) return 17.07;
+      if (h === 1 && charge === 0 && single === 1) return 20.23;
+      if (h === 0 && charge === -1 && single === 1) return 23.06;
+    } else if (degree === 2) {
+      if (h === 0 && charge === 0 && single === 2) return inThreeMemberedRing(mol, atom) ? 12.53 : 9.23;
+      if (h === 0 && charge === 0 && aromatic === 2) return 13.14;
+    }
+    return Math.max(0, 28.5 - degree * 8.6 + h * 1.5);
+  }
+  return 0;
+}
+
+// Topological polar surface area from N and O contributions (Ertl 2000).
+export function topologicalPolarSurfaceArea(mol: Molecule): number {
+  return mol.atoms.reduce((sum, _, atom) => sum + polarContribution(mol, atom), 0);
+}
+
+// Lipinski donors: hydrogens on nitrogen and oxygen.
+export function lipinskiDonors(mol: Molecule): number {
+  return mol.atoms.reduce(
+    (sum, atom, i) => (atom.element === 'N' || atom.element === 'O' ? sum + totalHydrogens(mol, i) : sum),
+    0,
+  );
+}
+
+// Lipinski acceptors: nitrogen and oxygen atoms.
+export function lipinskiAcceptors(mol: Molecule): number {
+  return mol.atoms.filter((atom) => atom.element === 'N' || atom.element === 'O').length;
+}
+
+function hasTripleBond(mol: Molecule, atom: number): boolean {
+  return atomBonds(mol)[atom].some((b) => mol.bonds[b].order === 3);
+}
+
+// CF3, CCl3, CBr3 and tert-butyl carbons spin without changing shape.
+function isSymmetricTop(mol: Molecule, atom: number): boolean {
+  if (mol.atoms[atom].element !== 'C') return false;
+  const partners = neighbors(mol, atom).map((n) => mol.atoms[n]);
+  return (
+    ['F', 'Cl', 'Br'].some((halogen) => partners.filter((p) => p.element === halogen).length >= 3) ||
+    partners.filter((p) => p.element === 'C' && !p.aromatic && p.hydrogens === 3).length >= 3
+  );
+}
+
+// Amide, ester, thioester and amidine linkages are treated as rigid: the
+// trigonal carbon and its single-bonded heteroatom partner are excluded.
+function isRigidLinkage(mol: Molecule, atom: number): boolean {
+  const isCarbonylCarbon = (c: number, acceptors: (n: number) => boolean) =>
+    mol.atoms[c].element === 'C' &&
+    !mol.atoms[c].aromatic &&
+    heavyDegree(mol, c) === 3 &&
+    atomBonds(mol)[c].some((b) => mol.bonds[b].order === 2 && acceptors(otherAtom(mol.bonds[b], c)));
+  const isHeteroLink = (n: number, iminium: boolean) => {
+    const element = mol.atoms[n].element;
+    if (iminium) return element === 'N' && heavyDegree(mol, n) > 1;
+    return element === 'N' || element === 'O' || (element === 'S' && heavyDegree(mol, n) > 1);
+  };
+  const carbonyl = (c: number) => isCarbonylCarbon(c, (n) => ['N', 'O', 'S'].includes(mol.atoms[n].element));
+  const iminium = (c: number) =>
+    isCarbonylCarbon(c, (n) => mol.atoms[n].element === 'N' && mol.atoms[n].charge === 1);
+
+  for (const b of atomBonds(mol)[atom]) {
+    if (mol.bonds[b].order !== 1 || isRingBond(mol, b)) continue;
+    const partner = otherAtom(mol.bonds[b], atom);
+    if (carbonyl(atom) && isHeteroLink(partner, false)) return true;
+    if (isHeteroLink(atom, false) && carbonyl(partner)) return true;
+    if (iminium(atom) && isHeteroLink(partner, true)) return true;
+    if (isHeteroLink(atom, true) && iminium(partner)) return true;
+  }
+  return false;
+}
+
+// Strict rotatable bond count: acyclic single bonds between non-terminal
+// atoms, excluding triple-bond neighbours, symmetric tops and amide-like
+// linkages.
+export function rotatableBondCount(mol: Molecule): number {
+  const eligible = (atom: number) =>
+    mol.atoms[atom].element !== 'H' &&
+    heavyDegree(mol, atom) > 1 &&
+    !hasTripleBond(mol, atom) &&
+    !isSymmetricTop(mol, atom);
+  return mol.bonds.filter((bond, b) => {
+    if ((bond.order !== 1 && bond.order !== AROMATIC) || isRingBond(mol, b)) return false;
+    const { begin, end } = bond;
+    if (!eligible(begin) || !eligible(end)) return false;
+    return !isRigidLinkage(mol, begin) || !isRigidLinkage(mol, end);
+  }).length;
+}
+
+export function ringCount(mol: Molecule): number {
+  return ringInfo(mol).rings.length;
+}
+
+export function aromaticRingCount(mol: Molecule): number {
+  return ringInfo(mol).ringBonds.filter((bonds) => bonds.every((b) => mol.bonds[b].order === AROMATIC)).length;
+}
+
+export function heavyAtomCount(mol: Molecule): number {
+  return mol.atoms.filter((atom) => atomicNumberOf(atom) > 1).length;
+}
+
+export function formalCharge(mol: Molecule): number {
+  return mol.atoms.reduce((sum, atom) => sum + atom.charge, 0);
+}
+
+// Share of carbons that are sp3: saturated with four connections.
+export function fractionCSP3(mol: Molecule): number {
+  const carbons = mol.atoms.map((atom, i) => i).filter((i) => mol.atoms[i].element === 'C');
+  if (carbons.length === 0) return 0;
+  const sp3 = carbons.filter(
+    (c) =>
+      !mol.atoms[c].aromatic &&
+      atomBonds(mol)[c].every((b) => mol.bonds[b].order === 1) &&
+      atomBonds(mol)[c].length + mol.atoms[c].hydrogens === 4,
+  );
+  return sp3.length / carbons.length;
+}
+
+const calculators: Record<DescriptorName, (mol: Molecule) => number> = {
+  MW: averageMolecularWeight,
+  LogP: crippenLogP,
+  MR: crippenMR,
+  TPSA: topologicalPolarSurfaceArea,
+  HBD: lipinskiDonors,
+  HBA: lipinskiAcceptors,
+  RotatableBonds: rotatableBondCount,
+  Rings: ringCount,
+  AromaticRings: aromaticRingCount,
+  HeavyAtoms: heavyAtomCount,
+  FormalCharge: formalCharge,
+  FractionCSP3: fractionCSP3,
+};
+
+export function calculateDescriptors(
+  mol: Molecule,
+  names: readonly DescriptorName[] = descriptorNames,
+): Record<DescriptorName, number> {
+  const values = {} as Record<DescriptorName, number>;
+  for (const name of names) {
+    values[name] = calculators[name](mol);
+  }
+  return values;
+}
@@ -0,0 +1,164 @@
+import { chmod, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createCommandLineAdapter, parseVinaTable } from './docking-cli';
+import { DockingEngineError, resolveDockingParameters, type DockingBox, type DockingLigand } from './docking';
+import type { Vec3 } from './geometry';
+import { parsePdb } from './protein';
+import { parseMolBlock } from './sdf';
+
+const table = [
+  'mode |   affinity | dist from best mode',
+  '     | (kcal/mol) | rmsd l.b.| rmsd u.b.',
+  '-----+------------+----------+----------',
+  '   1       -7.3      0.000      0.000',
+  '   2       -6.9      1.873      2.604',
+  '   3       -6.15     2.112      4.871',
+  'Refine time 0.412',
+].join('\n');
+
+type Atom = [element: string, position: Vec3];
+
+function molBlock(name: string, atoms: Atom[], bonds: [number, number][]): string {
+  const coordinate = (v: number) => v.toFixed(4).padStart(10);
+  return [
+    name,
+    '  test',
+    '',
+    `${String(atoms.length).padStart(3)}${String(bonds.length).padStart(3)}  0  0  0  0  0  0  0  0999 V2000`,
+    ...atoms.map(([element, p]) => `${p.map(coordinate).join('')} ${element.padEnd(3)} 0  0  0  0  0  0  0  0  0  0  0  0`),
+    ...bonds.map(([a, b]) => `${String(a).padStart(3)}${String(b).padStart(3)}  1  0`),
+    'M  END',
+  ].join('\n');
+}
+
+// Ethanol with its hydroxyl hydrogen written out.
+const ligandBlock = molBlock(
+  'ethanol',
+  [['C', [0, 0, 0]], ['C', [1.5, 0, 0]], ['O', [2, 1.4, 0]], ['H', [2.9, 1.4, 0]]],
+  [[1, 2], [2, 3], [3, 4]],
+);
+const ligand: DockingLigand = { name: 'ethanol', conformers: [{ ...parseMolBlock(ligandBlock), block: ligandBlock }] };
+const receptor = parsePdb('ATOM      1  CA  ALA A   1      11.104   6.134  -6.504  1.00  0.00           C\n');
+const box: DockingBox = { center: [1.5, -2, 10.25], size: [20, 18, 22] };
+const params = resolveDockingParameters({ exhaustiveness: 4, numModes: 2, seed: 7 });
+
+// A pose with every hydrogen written out, shifted along x.
+const pose = (shift: number) =>
+  molBlock(
+    'ethanol',
+    [
+      ['C', [shift, 0, 0]], ['C', [shift + 1.5, 0, 0]], ['O', [shift + 2, 1.4, 0]],
+      ['H', [shift + 2.9, 1.4, 0]], ['H', [shift - 0.4, 1, 0]], ['H', [shift - 0.4, -0.5, 0.9]],
+    ],
+    [[1, 2], [2, 3], [3, 4], [1, 5], [1, 6]],
+  ) + '\n$$$$\n';
+
+describe('parseVinaTable', () => {
+  it('reads the affinity column of every mode', () => {
+    expect(parseVinaTable(`Using random seed: 7\n${table}\n`)).toEqual([-7.3, -6.9, -6.15]);
+  });
+
+  it('returns nothing without a mode table', () => {
+    expect(parseVinaTable('Error: could not open receptor.pdb')).toEqual([]);
+  });
+});
+
+describe('createCommandLineAdapter', () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'docking-stub-'));
+  });
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  // A stand-in docking program that records its arguments, copies the file
+  // named after --out from `poses` if there is one and then runs `script`.
+  async function stub(script: string, poses?: string): Promise<string> {
+    const binary = join(dir, 'dock.sh');
+    if (poses !== undefined) await writeFile(join(dir, 'poses.sdf'), poses);
+    await writeFile(
+      binary,
+      [
+        '#!/bin/sh',
+        `printf '%s\\n' "$@" > "${dir}/args"`,
+        'while [ $# -gt 0 ]; do [ "$1" = --out ] && out="$2"; shift; done',
+        `[ -f "${dir}/poses.sdf" ] && cp "${dir}/poses.sdf" "$out"`,
+        script,
+      ].join('\n') + '\n',
+    );
+    await chmod(binary, 0o755);
+    return binary;
+  }
+
+  const printTable = `cat <<'EOF'\n${table}\nEOF`;
+
+  it('passes the files, box and search settings, then any extra arguments', async () => {
+    const binary = await stub(printTable, pose(0) + pose(1));
+    await createCommandLineAdapter({ binary, extraArgs: ['--scoring', 'vinardo'] }).dock(receptor, ligand, box, params);
+    const args = (await readFile(join(dir, 'args'), 'utf8')).trim().split('\n');
+    const value = (flag: string) => args[args.indexOf(flag) + 1];
+    expect(value('--receptor')).toMatch(/receptor\.pdb$/);
+    expect(value('--ligand')).toMatch(/ligand\.sdf$/);
+    expect(value('--out')).toMatch(/poses\.sdf$/);
+    expect(['x', 'y', 'z'].map((axis) => value(`--center_${axis}`))).toEqual(['1.5', '-2', '10.25']);
+    expect(['x', 'y', 'z'].map((axis) => value(`--size_${axis}`))).toEqual(['20', '18', '22']);
+    expect([value('--exhaustiveness'), value('--num_modes'), value('--seed'), value('--cpu')]).toEqual(['4', '2', '7', '1']);
+    expect(args.slice(-2)).toEqual(['--scoring', 'vinardo']);
+  });
+
+  it('returns numModes poses with heavy-atom coordinates in ligand order', async () => {
+    const binary = await stub(printTable, pose(0) + pose(1) + pose(2));
+    const poses = await createCommandLineAdapter({ binary }).dock(receptor, ligand, box, params);
+    expect(poses).toEqual([
+      { bindingEnergy: -7.3, conformer: 0, coordinates: [[0, 0, 0], [1.5, 0, 0], [2, 1.4, 0]] },
+      { bindingEnergy: -6.9, conformer: 0, coordinates: [[1, 0, 0], [2.5, 0, 0], [3, 1.4, 0]] },
+    ]);
+  });
+
+  it('leaves coordinates out when the written pose does not line up with the ligand', async () => {
+    const reordered = molBlock('ethanol', [['O', [2, 1.4, 0]], ['C', [1.5, 0, 0]], ['C', [0, 0, 0]]], [[1, 2], [2, 3]]);
+    const binary = await stub(printTable, `${reordered}\n$$$$\n`);
+    const poses = await createCommandLineAdapter({ binary }).dock(receptor, ligand, box, params);
+    expect(poses.map((p) => p.coordinates)).toEqual([null, null]);
+  });
+
+  it('keeps the energies when no --out file is written', async () => {
+    const binary = await stub(printTable);
+    const poses = await createCommandLineAdapter({ binary }).dock(receptor, ligand, box, params);
+    expect(poses).toEqual([
+      { bindingEnergy: -7.3, conformer: 0, coordinates: null },
+      { bindingEnergy: -6.9, conformer: 0, coordinates: null },
+    ]);
+  });
+
+  it('fails when the program reports no poses', async () => {
+    const binary = await stub('echo "Refine time 0.1"');
+    await expect(createCommandLineAdapter({ binary }).dock(receptor, ligand, box, params)).rejects.toStrictEqual(
+      new DockingEngineError('The docking program reported no poses'),
+    );
+  });
+
+  it('reports the exit code with the end of stderr', async () => {
+    const binary = await stub('echo "Parse error on line 3" >&2\nexit 3');
+    await expect(createCommandLineAdapter({ binary }).dock(receptor, ligand, box, params)).rejects.toStrictEqual(
+      new DockingEngineError('Docking program exited with code 3: Parse error on line 3'),
+    );
+  });
+
+  it('stops a program that runs past the timeout', async () => {
+    const binary = await stub('exec sleep 5');
+    await expect(createCommandLineAdapter({ binary, timeout: 200 }).dock(receptor, ligand, box, params)).rejects.toStrictEqual(
+      new DockingEngineError('Docking program timed out after 0.2 s'),
+    );
+  });
+
+  it('fails clearly when the program cannot be run', async () => {
+    const binary = join(dir, 'missing');
+    await expect(createCommandLineAdapter({ binary }).dock(receptor, ligand, box, params)).rejects.toStrictEqual(
+      new DockingEngineError(`Cannot run docking program ${binary}`),
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DockingEngineError, heavyAtomIndices, type DockingAdapter } from './docking';
+import type { Vec3 } from './geometry';
+import type { Molecule } from './molecule';
+import { formatPdb } from './protein';
+import { SdfParseError, parseMolBlock, splitSdf } from './sdf';
+
+export const DOCKING_TIMEOUT_MS = 300_000;
+
+// DOCKING_BINARY points at the docking program, e.g. /usr/local/bin/smina.
+// It is only ever read from the server environment.
+export function dockingBinary(): string | null {
+  return process.env.DOCKING_BINARY || null;
+}
+
+export interface CommandLineAdapterOptions {
+  binary: string;
+  timeout?: number;
+  // Appended after the generated arguments, e.g. ['--scoring', 'vinardo'].
+  extraArgs?: string[];
+}
+
+// Affinities from the mode table Vina and smina print:
+//   mode |   affinity | dist from best mode
+//   -----+------------+----------+----------
+//      1       -7.3      0.000      0.000
+export function parseVinaTable(output: string): number[] {
+  const lines = output.replace(/\r/g, '').split('\n');
+  const start = lines.findIndex((line) => /^-+\+-+/.test(line.trim()));
+  if (start < 0) return [];
+  const energies: number[] = [];
+  for (const line of lines.slice(start + 1)) {
+    const match = /^\s*(\d+)\s+(-?\d+(?:\.\d+)?)\b/.exec(line);
+    if (!match) break;
+    energies.push(Number(match[2]));
+  }
+  return energies;
+}
+
+// Heavy-atom coordinates of each pose in an output SD file, in the order of
+// the ligand's heavy atoms. smina and gnina keep the input atom order but may
+// add or drop hydrogens, so hydrogens are skipped and a pose whose heavy
+// atoms do not line up element by element with the ligand's gets null.
+function poseCoordinates(text: string, ligand: Molecule): (Vec3[] | null)[] {
+  const elements = heavyAtomIndices(ligand).map((i) => ligand.atoms[i].element);
+  return splitSdf(text).map((block) => {
+    const pose = parseMolBlock(block);
+    const heavy = heavyAtomIndices(pose.molecule);
+    const aligned =
+      heavy.length === elements.length && heavy.every((i, k) => pose.molecule.atoms[i].element === elements[k]);
+    return aligned ? heavy.map((i) => pose.coordinates[i]) : null;
+  });
+}
+
+function run(binary: string, args: string[], timeout: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(binary, args, { timeout, maxBuffer: 16 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (!error) return resolve(stdout);
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ENOENT' || code === 'EACCES') {
+        reject(new DockingEngineError(`Cannot run docking program ${binary}`));
+      } else if (error.killed) {
+        reject(new DockingEngineError(`Docking program timed out after ${timeout / 1000} s`));
+      } else {
+        const detail = stderr.trim().split('\n').slice(-3).join(' ');
+        reject(new DockingEngineError(`Docking program exited with code ${code}${detail ? `: ${detail}` : ''}`));
+      }
+    });
+  });
+}
+
+// Runs a smina-style command line: the receptor is written as PDB and the
+// ligand's first conformer as SDF, both read directly by smina and gnina,
+// and the program explores torsions itself. AutoDock Vina proper needs
+// PDBQT input, so point it at a wrapper that converts the two files.
+// Energies come from the mode table and poses from the SDF written to --out.
+export function createCommandLineAdapter(options: CommandLineAdapterOptions): DockingAdapter {
+  const { binary, timeout = DOCKING_TIMEOUT_MS, extraArgs = [] } = options;
+  return {
+    engine: 'vina',
+    async dock(receptor, ligand, box, params) {
+      const directory = await mkdtemp(join(tmpdir(), 'docking-'));
+      try {
+        const files = {
+          receptor: join(directory, 'receptor.pdb'),
+          ligand: join(directory, 'ligand.sdf'),
+          out: join(directory, 'poses.sdf'),
+        };
+        await writeFile(files.receptor, formatPdb(receptor));
+        await writeFile(files.ligand, ligand.conformers[0].block.replace(/\s*$/, '\n') + '$$$$\n');
+        const axes = ['x', 'y', 'z'] as const;
+        const args = [
+          '--receptor', files.receptor,
+          '--ligand', files.ligand,
+          ...axes.flatMap((axis, k) => [`--center_${axis}`, String(box.center[k])]),
+          ...axes.flatMap((axis, k) => [`--size_${axis}`, String(box.size[k])]),
+          '--exhaustiveness', String(params.exhaustiveness),
+          '--num_modes', String(params.numModes),
+          '--seed', String(params.seed),
+          '--cpu', '1',
+          '--out', files.out,
+          ...extraArgs,
+        ];
+        const energies = parseVinaTable(await run(binary, args, timeout));
+        if (energies.length === 0) {
+          throw new DockingEngineError('The docking program reported no poses');
+        }
+        let coordinates: (Vec3[] | null)[] = [];
+        try {
+          coordinates = poseCoordinates(await readFile(files.out, 'utf8'), ligand.conformers[0].molecule);
+        } catch (error) {
+          if (!(error instanceof SdfParseError) && (error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        }
+        return energies.slice(0, params.numModes).map((bindingEnergy, i) => ({
+          bindingEnergy,
+          conformer: 0,
+          coordinates: coordinates[i] ?? null,
+        }));
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    },
+  };
+}
@@ -0,0 +1,439 @@
+import { createRandom } from '@/lib/ml/random';
+import { rotatableBondCount } from './descriptors';
+import { centroid, distance, spatialHash, type Vec3 } from './geometry';
+import { atomBonds, neighbors, type Molecule } from './molecule';
+import { isWater, selectAtoms, type Protein } from './protein';
+
+// `empirical` is the built-in scoring function below; `vina` runs an
+// external AutoDock Vina / smina-style binary.
+export const dockingEngines = ['empirical', 'vina'] as const;
+
+export type DockingEngine = (typeof dockingEngines)[number];
+
+export class DockingOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DockingOptionsError';
+  }
+}
+
+// Thrown when an external docking program fails or its output cannot be read.
+export class DockingEngineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DockingEngineError';
+  }
+}
+
+export function isDockingEngine(engine: string): engine is DockingEngine {
+  return (dockingEngines as readonly string[]).includes(engine);
+}
+
+// `auto` picks the external engine when a binary is configured.
+export function resolveDockingEngine(engine: unknown = 'auto', binaryConfigured: boolean): DockingEngine {
+  if (engine === 'auto') return binaryConfigured ? 'vina' : 'empirical';
+  if (typeof engine !== 'string' || !isDockingEngine(engine)) {
+    throw new DockingOptionsError(`engine must be auto or one of: ${dockingEngines.join(', ')}`);
+  }
+  if (engine === 'vina' && !binaryConfigured) {
+    throw new DockingOptionsError('The vina engine needs DOCKING_BINARY to point at a docking program');
+  }
+  return engine;
+}
+
+export interface DockingParameters {
+  boxSize?: number;
+  exhaustiveness?: number;
+  numModes?: number;
+  seed?: number;
+  includeHetero?: boolean;
+}
+
+export interface ResolvedDockingParameters {
+  // Edge of the cubic search box in Å, when the box size is not given.
+  boxSize: number;
+  // Independent search runs per conformer (passed through to Vina).
+  exhaustiveness: number;
+  // Most poses reported per ligand.
+  numModes: number;
+  seed: number;
+  // Whether ligands, ions and other HETATM groups stay in the receptor.
+  includeHetero: boolean;
+}
+
+export function resolveDockingParameters(params: DockingParameters): ResolvedDockingParameters {
+  const { boxSize = 20, exhaustiveness = 8, numModes = 9, seed = 42, includeHetero = false } = params;
+  const isInteger = (value: unknown, min: number, max: number) =>
+    typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+  if (typeof boxSize !== 'number' || !(boxSize >= 8 && boxSize <= 40)) {
+    throw new DockingOptionsError('boxSize must be between 8 and 40 Å');
+  }
+  if (!isInteger(exhaustiveness, 1, 32)) {
+    throw new DockingOptionsError('exhaustiveness must be an integer from 1 to 32');
+  }
+  if (!isInteger(numModes, 1, 20)) {
+    throw new DockingOptionsError('numModes must be an integer from 1 to 20');
+  }
+  if (!isInteger(seed, 0, 2 ** 31 - 1)) {
+    throw new DockingOptionsError('seed must be a non-negative integer');
+  }
+  if (typeof includeHetero !== 'boolean') {
+    throw new DockingOptionsError('includeHetero must be a boolean');
+  }
+  return { boxSize, exhaustiveness, numModes, seed, includeHetero };
+}
+
+export interface DockingBox {
+  center: Vec3;
+  size: Vec3;
+}
+
+// One 3D structure of a ligand; `block` is its MOL block as supplied, for
+// engines that read files.
+export interface DockingConformer {
+  molecule: Molecule;
+  coordinates: Vec3[];
+  block: string;
+}
+
+export interface DockingLigand {
+  name: string;
+  conformers: DockingConformer[];
+}
+
+export interface DockingPose {
+  // kcal/mol; lower is better.
+  bindingEnergy: number;
+  conformer: number;
+  // Heavy-atom positions, one per `heavyAtomIndices` entry of the docked
+  // conformer and in that order, whatever the engine; null when the engine
+  // returns no pose or one that cannot be mapped onto the ligand.
+  coordinates: Vec3[] | null;
+}
+
+// The atoms a pose places: every atom but hydrogens, in molecule order.
+export function heavyAtomIndices(mol: Molecule): number[] {
+  return mol.atoms.map((_, i) => i).filter((i) => mol.atoms[i].element !== 'H');
+}
+
+// Anything that can place a ligand in a receptor box. Poses come back best
+// first.
+export interface DockingAdapter {
+  readonly engine: DockingEngine;
+  dock(receptor: Protein, ligand: DockingLigand, box: DockingBox, params: ResolvedDockingParameters): Promise<DockingPose[]>;
+}
+
+// Binding energy, in kcal/mol, that maps to a docking score of 1.
+export const DOCKING_ENERGY_SCALE = 12;
+
+// Maps a binding energy onto [0, 1] with larger better, so it can be mixed
+// with similarities.
+export function normalizeDockingScore(bindingEnergy: number): number {
+  return Math.min(1, Math.max(0, -bindingEnergy / DOCKING_ENERGY_SCALE));
+}
+
+// The compound-screening ranking score.
+export function combinedScore(similarity: number, dockingScore: number): number {
+  return 0.4 * similarity + 0.6 * dockingScore;
+}
+
+// The receptor as docked: never waters, and other HETATM groups only when
+// includeHetero is set.
+export function dockingReceptor(protein: Protein, includeHetero: boolean): Protein {
+  return selectAtoms(
+    protein,
+    (atom) => !atom.hetero || (includeHetero && !isWater(protein.residues[atom.residue])),
+  );
+}
+
+// --- Built-in empirical scoring ---
+
+// Atom typing of the Vina scoring function (Trott & Olson 2010): X-Score
+// radii, hydrophobic carbons and halogens, and hydrogen-bond donors and
+// acceptors. Metal ions count as donors.
+interface ScoringAtom {
+  position: Vec3;
+  radius: number;
+  hydrophobic: boolean;
+  donor: boolean;
+  acceptor: boolean;
+}
+
+const xsRadii: Record<string, number> = { C: 1.9, N: 1.8, O: 1.7, S: 2.0, P: 2.1, F: 1.5, Cl: 1.8, Br: 2.0, I: 2.2 };
+const METAL_RADIUS = 1.2;
+const metals = new Set(['Mg', 'Mn', 'Zn', 'Ca', 'Fe', 'Co', 'Ni', 'Cu', 'Na', 'K']);
+const halogens = new Set(['F', 'Cl', 'Br', 'I']);
+
+// Side-chain donors of the standard residues; every backbone N except
+// proline's also donates.
+const sideChainDonors: Record<string, string[]> = {
+  ARG: ['NE', 'NH1', 'NH2'],
+  ASN: ['ND2'],
+  GLN: ['NE2'],
+  HIS: ['ND1', 'NE2'],
+  LYS: ['NZ'],
+  SER: ['OG'],
+  THR: ['OG1'],
+  TYR: ['OH'],
+  TRP: ['NE1'],
+};
+
+// Vina weights for the five terms and the rotatable-bond penalty.
+const weights = { gauss1: -0.0356, gauss2: -0.00516, repulsion: 0.84, hydrophobic: -0.0351, hbond: -0.587, rotation: 0.0585 };
+const CUTOFF = 8;
+
+function scoringAtom(element: string, position: Vec3, polarCarbon: boolean, donor: boolean, acceptor: boolean): ScoringAtom {
+  if (metals.has(element)) return { position, radius: METAL_RADIUS, hydrophobic: false, donor: true, acceptor: false };
+  return {
+    position,
+    radius: xsRadii[element] ?? 1.9,
+    hydrophobic: (element === 'C' && !polarCarbon) || halogens.has(element),
+    donor,
+    acceptor,
+  };
+}
+
+// Bonds are not stored in structure files, so a carbon is polar when a
+// nitrogen or oxygen sits within bonding distance.
+function receptorAtoms(receptor: Protein): ScoringAtom[] {
+  const heavy = receptor.atoms.filter((atom) => atom.element !== 'H');
+  const near = spatialHash(
+    heavy.map((atom) => atom.position),
+    2,
+  );
+  return heavy.map((atom) => {
+    const residue = receptor.residues[atom.residue];
+    const polarCarbon =
+      atom.element === 'C' && near(atom.position, 1.75).some((i) => heavy[i].element === 'N' || heavy[i].element === 'O');
+    const donor =
+      (atom.name === 'N' && !atom.hetero && residue.name !== 'PRO') ||
+      (sideChainDonors[residue.name]?.includes(atom.name) ?? false);
+    const acceptor = atom.element === 'O' || (residue.name === 'HIS' && (atom.name === 'ND1' || atom.name === 'NE2'));
+    return scoringAtom(atom.element, atom.position, polarCarbon, donor, acceptor);
+  });
+}
+
+// Ligand nitrogens accept when neutral, hydrogen-free and not sp3: aromatic
+// ring nitrogens with two neighbours, imines and nitriles.
+function ligandAtomTypes(mol: Molecule): Omit<ScoringAtom, 'position'>[] {
+  return mol.atoms.map((atom, i) => {
+    const neighbours = neighbors(mol, i).map((j) => mol.atoms[j].element);
+    const multiple = atomBonds(mol)[i].some((b) => mol.bonds[b].order === 2 || mol.bonds[b].order === 3);
+    const acceptor =
+      atom.element === 'O' ||
+      (atom.element === 'N' &&
+        atom.hydrogens === 0 &&
+        atom.charge === 0 &&
+        ((atom.aromatic && neighbours.length === 2) || (!atom.aromatic && multiple)));
+    const { radius, hydrophobic, donor } = scoringAtom(
+      atom.element,
+      [0, 0, 0],
+      neighbours.includes('N') || neighbours.includes('O'),
+      (atom.element === 'N' || atom.element === 'O') && atom.hydrogens > 0,
+      acceptor,
+    );
+    return { radius, hydrophobic, donor, acceptor };
+  });
+}
+
+function pairEnergy(r: number, a: Omit<ScoringAtom, 'position'>, b: ScoringAtom): number {
+  const d = r - a.radius - b.radius;
+  let energy = weights.gauss1 * Math.exp(-((d / 0.5) ** 2)) + weights.gauss2 * Math.exp(-(((d - 3) / 2) ** 2));
+  if (d < 0) energy += weights.repulsion * d * d;
+  if (a.hydrophobic && b.hydrophobic) energy += weights.hydrophobic * (d < 0.5 ? 1 : d > 1.5 ? 0 : 1.5 - d);
+  if ((a.donor && b.acceptor) || (a.acceptor && b.donor)) energy += weights.hbond * (d < -0.7 ? 1 : d > 0 ? 0 : -d / 0.7);
+  return energy;
+}
+
+// How far ligand atoms may reach outside the box and still be scored.
+const REGION_MARGIN = 10;
+const CELL_SIZE = 2;
+
+// Receptor atoms within the cutoff of each 2 Å cell around the box, in
+// compressed rows, so an energy evaluation touches only nearby atoms.
+function neighborCells(atoms: ScoringAtom[], box: DockingBox) {
+  const origin = box.center.map((c, k) => c - box.size[k] / 2 - REGION_MARGIN) as Vec3;
+  const [nx, ny, nz] = box.size.map((size) => Math.ceil((size + 2 * REGION_MARGIN) / CELL_SIZE));
+  const reach = CUTOFF + (CELL_SIZE * Math.sqrt(3)) / 2;
+  const cellRange = (atom: ScoringAtom, k: number, n: number) => [
+    Math.max(0, Math.floor((atom.position[k] - reach - origin[k]) / CELL_SIZE)),
+    Math.min(n - 1, Math.floor((atom.position[k] + reach - origin[k]) / CELL_SIZE)),
+  ];
+  const lists: number[][] = Array.from({ length: nx * ny * nz }, () => []);
+  atoms.forEach((atom, i) => {
+    const [x0, x1] = cellRange(atom, 0, nx);
+    const [y0, y1] = cellRange(atom, 1, ny);
+    const [z0, z1] = cellRange(atom, 2, nz);
+    for (let z = z0; z <= z1; z++) {
+      for (let y = y0; y <= y1; y++) {
+        for (let x = x0; x <= x1; x++) {
+          const center: Vec3 = [0, 1, 2].map((k) => origin[k] + ([x, y, z][k] + 0.5) * CELL_SIZE) as Vec3;
+          if (distance(center, atom.position) <= reach) lists[x + nx * (y + ny * z)].push(i);
+        }
+      }
+    }
+  });
+  return (point: Vec3): number[] => {
+    const [x, y, z] = point.map((v, k) => Math.floor((v - origin[k]) / CELL_SIZE));
+    if (x < 0 || y < 0 || z < 0 || x >= nx || y >= ny || z >= nz) return [];
+    return lists[x + nx * (y + ny * z)];
+  };
+}
+
+type Quaternion = [number, number, number, number];
+
+function multiply([a1, b1, c1, d1]: Quaternion, [a2, b2, c2, d2]: Quaternion): Quaternion {
+  return [
+    a1 * a2 - b1 * b2 - c1 * c2 - d1 * d2,
+    a1 * b2 + b1 * a2 + c1 * d2 - d1 * c2,
+    a1 * c2 - b1 * d2 + c1 * a2 + d1 * b2,
+    a1 * d2 + b1 * c2 - c1 * b2 + d1 * a2,
+  ];
+}
+
+function rotate([w, x, y, z]: Quaternion, [px, py, pz]: Vec3): Vec3 {
+  return [
+    (1 - 2 * (y * y + z * z)) * px + 2 * (x * y - w * z) * py + 2 * (x * z + w * y) * pz,
+    2 * (x * y + w * z) * px + (1 - 2 * (x * x + z * z)) * py + 2 * (y * z - w * x) * pz,
+    2 * (x * z - w * y) * px + 2 * (y * z + w * x) * py + (1 - 2 * (x * x + y * y)) * pz,
+  ];
+}
+
+// Uniformly distributed orientation (Shoemake 1992).
+function randomRotation(random: () => number): Quaternion {
+  const [u1, u2, u3] = [random(), random(), random()];
+  const [a, b] = [Math.sqrt(1 - u1), Math.sqrt(u1)];
+  return [a * Math.sin(2 * Math.PI * u2), a * Math.cos(2 * Math.PI * u2), b * Math.sin(2 * Math.PI * u3), b * Math.cos(2 * Math.PI * u3)];
+}
+
+function smallRotation(random: () => number, maxAngle: number): Quaternion {
+  const axis = randomRotation(random).slice(1) as Vec3;
+  const length = Math.hypot(...axis) || 1;
+  const half = ((2 * random() - 1) * maxAngle) / 2;
+  const s = Math.sin(half) / length;
+  return [Math.cos(half), axis[0] * s, axis[1] * s, axis[2] * s];
+}
+
+const MC_STEPS = 400;
+const REFINE_STEPS = 100;
+const TEMPERATURE = 1.2;
+// Poses closer than this RMSD to a better one are not reported separately.
+const POSE_RMSD = 2;
+
+function rmsd(a: Vec3[], b: Vec3[]): number {
+  return Math.sqrt(a.reduce((sum, p, i) => sum + distance(p, b[i]) ** 2, 0) / a.length);
+}
+
+interface Placement {
+  energy: number;
+  rotation: Quaternion;
+  translation: Vec3;
+}
+
+// Rigid-body Monte Carlo of one conformer in the box: `runs` searches from
+// random placements (the first from the supplied pose when its centroid is
+// in the box), each followed by greedy refinement. The ligand centroid must
+// stay in the box.
+function searchConformer(
+  near: (point: Vec3) => number[],
+  receptor: ScoringAtom[],
+  conformer: DockingConformer,
+  box: DockingBox,
+  runs: number,
+  random: () => number,
+): { energy: number; coordinates: Vec3[] }[] {
+  const heavy = heavyAtomIndices(conformer.molecule);
+  const allTypes = ligandAtomTypes(conformer.molecule);
+  const types = heavy.map((i) => allTypes[i]);
+  const center = centroid(heavy.map((i) => conformer.coordinates[i]));
+  const local = heavy.map((i) => conformer.coordinates[i].map((v, k) => v - center[k]) as Vec3);
+  const penalty = 1 + weights.rotation * rotatableBondCount(conformer.molecule);
+
+  const place = ({ rotation, translation }: Omit<Placement, 'energy'>) =>
+    local.map((point) => rotate(rotation, point).map((v, k) => v + translation[k]) as Vec3);
+  const energyOf = (coordinates: Vec3[]) => {
+    let energy = 0;
+    coordinates.forEach((point, a) => {
+      for (const b of near(point)) {
+        const target = receptor[b].position;
+        const r2 = (point[0] - target[0]) ** 2 + (point[1] - target[1]) ** 2 + (point[2] - target[2]) ** 2;
+        if (r2 < CUTOFF * CUTOFF) energy += pairEnergy(Math.sqrt(r2), types[a], receptor[b]);
+      }
+    });
+    return energy / penalty;
+  };
+  const inBox = (point: Vec3) => point.every((v, k) => Math.abs(v - box.center[k]) <= box.size[k] / 2);
+  const evaluate = (rotation: Quaternion, translation: Vec3): Placement => ({
+    energy: energyOf(place({ rotation, translation })),
+    rotation,
+    translation,
+  });
+  const perturb = (current: Placement, step: number, angle: number): Placement | null => {
+    if (random() < 0.5) {
+      const translation = current.translation.map((v) => v + (2 * random() - 1) * step) as Vec3;
+      return inBox(translation) ? evaluate(current.rotation, translation) : null;
+    }
+    return evaluate(multiply(smallRotation(random, angle), current.rotation), current.translation);
+  };
+
+  const results: { energy: number; coordinates: Vec3[] }[] = [];
+  for (let run = 0; run < runs; run++) {
+    let current =
+      run === 0 && inBox(center)
+        ? evaluate([1, 0, 0, 0], center)
+        : evaluate(
+            randomRotation(random),
+            box.center.map((c, k) => c + (random() - 0.5) * box.size[k]) as Vec3,
+          );
+    let best = current;
+    for (let step = 0; step < MC_STEPS; step++) {
+      const next = perturb(current, 1, 0.35);
+      if (!next) continue;
+      if (next.energy < current.energy || random() < Math.exp((current.energy - next.energy) / TEMPERATURE)) {
+        current = next;
+        if (current.energy < best.energy) best = current;
+      }
+    }
+    for (let step = 0; step < REFINE_STEPS; step++) {
+      const next = perturb(best, 0.2, 0.1);
+      if (next && next.energy < best.energy) best = next;
+    }
+    results.push({ energy: best.energy, coordinates: place(best) });
+  }
+  return results;
+}
+
+const receptorCache = new WeakMap<Protein, ScoringAtom[]>();
+
+// Docks every supplied conformer as a rigid body with the Vina-like
+// scoring function above. It needs no external program but explores no
+// torsions, so pass several conformers for flexible ligands.
+export function createEmpiricalAdapter(): DockingAdapter {
+  return {
+    engine: 'empirical',
+    async dock(receptor, ligand, box, params) {
+      let atoms = receptorCache.get(receptor);
+      if (!atoms) {
+        atoms = receptorAtoms(receptor);
+        receptorCache.set(receptor, atoms);
+      }
+      const near = neighborCells(atoms, box);
+      const random = createRandom(params.seed);
+      const candidates = ligand.conformers.flatMap((conformer, c) =>
+        searchConformer(near, atoms, conformer, box, params.exhaustiveness, random).map((pose) => ({ ...pose, conformer: c })),
+      );
+      candidates.sort((a, b) => a.energy - b.energy);
+      const poses: DockingPose[] = [];
+      for (const candidate of candidates) {
+        if (poses.length === params.numModes) break;
+        const distinct = poses.every(
+          (pose) => pose.conformer !== candidate.conformer || rmsd(pose.coordinates as Vec3[], candidate.coordinates) > POSE_RMSD,
+        );
+        if (distinct) {
+          poses.push({ bindingEnergy: candidate.energy, conformer: candidate.conformer, coordinates: candidate.coordinates });
+        }
+      }
+      return poses;
+    },
+  };
+}
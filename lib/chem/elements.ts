@@ -0,0 +1,85 @@
+// Periodic table data needed for parsing, valence checks and mass calculations.
+
+const symbols = [
+  'H', 'He', 'Li', 'Be', 'B', 'C', 'N', 'O', 'F', 'Ne',
+  'Na', 'Mg', 'Al', 'Si', 'P', 'S', 'Cl', 'Ar', 'K', 'Ca',
+  'Sc', 'Ti', 'V', 'Cr', 'Mn', 'Fe', 'Co', 'Ni', 'Cu', 'Zn',
+  'Ga', 'Ge', 'As', 'Se', 'Br', 'Kr', 'Rb', 'Sr', 'Y', 'Zr',
+  'Nb', 'Mo', 'Tc', 'Ru', 'Rh', 'Pd', 'Ag', 'Cd', 'In', 'Sn',
+  'Sb', 'Te', 'I', 'Xe', 'Cs', 'Ba', 'La', 'Ce', 'Pr', 'Nd',
+  'Pm', 'Sm', 'Eu', 'Gd', 'Tb', 'Dy', 'Ho', 'Er', 'Tm', 'Yb',
+  'Lu', 'Hf', 'Ta', 'W', 'Re', 'Os', 'Ir', 'Pt', 'Au', 'Hg',
+  'Tl', 'Pb', 'Bi', 'Po', 'At', 'Rn', 'Fr', 'Ra', 'Ac', 'Th',
+  'Pa', 'U', 'Np', 'Pu', 'Am', 'Cm', 'Bk', 'Cf', 'Es', 'Fm',
+  'Md', 'No', 'Lr', 'Rf', 'Db', 'Sg', 'Bh', 'Hs', 'Mt', 'Ds',
+  'Rg', 'Cn', 'Nh', 'Fl', 'Mc', 'Lv', 'Ts', 'Og',
+];
+
+// IUPAC standard atomic weights (abridged); mass number of the most stable
+// isotope for elements without a standard weight.
+const averageMasses = [
+  1.008, 4.0026, 6.94, 9.0122, 10.81, 12.011, 14.007, 15.999, 18.998, 20.18,
+  22.99, 24.305, 26.982, 28.085, 30.974, 32.06, 35.45, 39.948, 39.098, 40.078,
+  44.956, 47.867, 50.942, 51.996, 54.938, 55.845, 58.933, 58.693, 63.546, 65.38,
+  69.723, 72.63, 74.922, 78.971, 79.904, 83.798, 85.468, 87.62, 88.906, 91.224,
+  92.906, 95.95, 98, 101.07, 102.91, 106.42, 107.87, 112.41, 114.82, 118.71,
+  121.76, 127.6, 126.9, 131.29, 132.91, 137.33, 138.91, 140.12, 140.91, 144.24,
+  145, 150.36, 151.96, 157.25, 158.93, 162.5, 164.93, 167.26, 168.93, 173.05,
+  174.97, 178.49, 180.95, 183.84, 186.21, 190.23, 192.22, 195.08, 196.97, 200.59,
+  204.38, 207.2, 208.98, 209, 210, 222, 223, 226, 227, 232.04,
+  231.04, 238.03, 237, 244, 243, 247, 247, 251, 252, 257,
+  258, 259, 266, 267, 268, 269, 270, 269, 278, 281,
+  282, 285, 286, 289, 290, 293, 294, 294,
+];
+
+const atomicNumbers = new Map(symbols.map((symbol, i) => [symbol, i + 1]));
+
+// Allowed valences of neutral atoms. Charged main-group atoms take the
+// valences of their isoelectronic neutral neighbour (N+ behaves like C).
+const defaultValences: Record<string, number[]> = {
+  H: [1],
+  B: [3],
+  C: [4],
+  N: [3, 5],
+  O: [2],
+  F: [1],
+  Si: [4],
+  P: [3, 5],
+  S: [2, 4, 6],
+  Cl: [1, 3, 5, 7],
+  Se: [2, 4, 6],
+  Br: [1, 3, 5],
+  I: [1, 3, 5, 7],
+};
+
+// Elements written without brackets in SMILES.
+export const organicSubset = new Set(['B', 'C', 'N', 'O', 'P', 'S', 'F', 'Cl', 'Br', 'I']);
+
+// Elements allowed as lowercase aromatic symbols.
+export const aromaticSymbols = new Set(['b', 'c', 'n', 'o', 'p', 's', 'se', 'as', 'te']);
+
+export function atomicNumber(symbol: string): number | undefined {
+  if (symbol === '*') return 0;
+  return atomicNumbers.get(symbol);
+}
+
+export function elementSymbol(atomicNumber: number): string {
+  return atomicNumber === 0 ? '*' : symbols[atomicNumber - 1];
+}
+
+export function averageMass(atomicNumber: number): number {
+  return atomicNumber === 0 ? 0 : averageMasses[atomicNumber - 1];
+}
+
+// Valences an atom may take, or undefined when the element is not checked.
+export function allowedValences(element: string, charge: number): number[] | undefined {
+  if (charge === 0) {
+    return defaultValences[element];
+  }
+  const z = atomicNumber(element);
+  if (z === undefined || z < 5 || z > 17) {
+    return undefined;
+  }
+  const isoelectronic = symbols[z - 1 - charge];
+  return isoelectronic ? defaultValences[isoelectronic] : undefined;
+}
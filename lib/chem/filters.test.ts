@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { isAlertFamilyAvailable } from './alerts';
+import { defaultFilterStages, filterNames, isFilterAvailable, runCascade } from './filters';
+import { parseSmiles } from './smiles';
+
+describe('filter cascade', () => {
+  it('runs every available stage by default, in order', () => {
+    const stages = defaultFilterStages();
+    expect(stages).toEqual(filterNames.filter(isFilterAvailable));
+    expect(stages.slice(0, 6)).toEqual(['lipinski', 'veber', 'ghose', 'egan', 'lead-likeness', 'brenk']);
+    expect(stages.includes('pains-a')).toBe(isAlertFamilyAvailable('pains-a'));
+    expect(stages.at(-1)).toBe('interference');
+  });
+
+  it('stops at the first failed stage with its reasons', () => {
+    // Fluconazole
+    expect(runCascade(parseSmiles('OC(Cn1cncn1)(Cn1cncn1)c1ccc(F)cc1F'))).toEqual({ passed: true, failedStage: null, reasons: [] });
+    expect(runCascade(parseSmiles('Oc1ccccc1O'), ['lipinski', 'brenk'])).toEqual({
+      passed: false,
+      failedStage: 'brenk',
+      reasons: ['catechol'],
+    });
+  });
+
+  it('tolerates lipinskiMaxViolations rule-of-five violations', () => {
+    // Two violations: MW and LogP
+    const greasy = parseSmiles('CCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCC');
+    expect(runCascade(greasy, ['lipinski'], { lipinskiMaxViolations: 1 }).passed).toBe(false);
+    expect(runCascade(greasy, ['lipinski'], { lipinskiMaxViolations: 2 }).passed).toBe(true);
+  });
+});
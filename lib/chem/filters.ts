@@ -0,0 +1,122 @@
+import { alertFamilies, isAlertFamilyAvailable, matchAlerts, type AlertFamily } from './alerts';
+import { calculateDescriptors, type DescriptorName } from './descriptors';
+import type { Molecule } from './molecule';
+
+// Stage order of the default cascade: cheap property rules first, then the
+// structural alert sets.
+export const filterNames = ['lipinski', 'veber', 'ghose', 'egan', 'lead-likeness', ...alertFamilies] as const;
+
+export type FilterName = (typeof filterNames)[number];
+
+export function isFilterName(name: string): name is FilterName {
+  return (filterNames as readonly string[]).includes(name);
+}
+
+export interface FilterOptions {
+  lipinskiMaxViolations?: number;
+}
+
+export class FilterOptionsError extends Error {}
+
+export interface CascadeOutcome {
+  passed: boolean;
+  failedStage: FilterName | null;
+  reasons: string[];
+}
+
+type Properties = Record<DescriptorName, number> & { Atoms: number };
+
+// [property, lower bound, upper bound]; either bound may be absent.
+type Rule = [keyof Properties, number | null, number | null];
+
+const propertyRules: Record<Exclude<FilterName, AlertFamily>, Rule[]> = {
+  lipinski: [
+    ['MW', null, 500],
+    ['LogP', null, 5],
+    ['HBD', null, 5],
+    ['HBA', null, 10],
+  ],
+  veber: [
+    ['RotatableBonds', null, 10],
+    ['TPSA', null, 140],
+  ],
+  ghose: [
+    ['MW', 160, 480],
+    ['LogP', -0.4, 5.6],
+    ['MR', 40, 130],
+    ['Atoms', 20, 70],
+  ],
+  egan: [
+    ['TPSA', null, 131.6],
+    ['LogP', null, 5.88],
+  ],
+  'lead-likeness': [
+    ['MW', 250, 350],
+    ['LogP', null, 3.5],
+    ['RotatableBonds', null, 7],
+  ],
+};
+
+function isAlertFamily(name: FilterName): name is AlertFamily {
+  return (alertFamilies as readonly string[]).includes(name);
+}
+
+// Stages that can run: alert families whose catalogue is empty are left out.
+export function isFilterAvailable(name: FilterName): boolean {
+  return !isAlertFamily(name) || isAlertFamilyAvailable(name);
+}
+
+// The default cascade: every available stage, in filterNames order.
+export function defaultFilterStages(): FilterName[] {
+  return filterNames.filter(isFilterAvailable);
+}
+
+function properties(mol: Molecule): Properties {
+  const values = calculateDescriptors(mol, ['MW', 'LogP', 'MR', 'TPSA', 'HBD', 'HBA', 'RotatableBonds']);
+  const atoms = mol.atoms.reduce((sum, atom) => sum + 1 + atom.hydrogens, 0);
+  return { ...values, Atoms: atoms } as Properties;
+}
+
+function ruleViolations(rules: Rule[], values: Properties): string[] {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  const violations: string[] = [];
+  for (const [property, min, max] of rules) {
+    const value = values[property];
+    if (min !== null && value < min) violations.push(`${property} ${round(value)} < ${min}`);
+    if (max !== null && value > max) violations.push(`${property} ${round(value)} > ${max}`);
+  }
+  return violations;
+}
+
+export function resolveFilterOptions(options: FilterOptions = {}): Required<FilterOptions> {
+  const { lipinskiMaxViolations = 1 } = options;
+  if (!Number.isInteger(lipinskiMaxViolations) || lipinskiMaxViolations < 0 || lipinskiMaxViolations > 4) {
+    throw new FilterOptionsError('lipinskiMaxViolations must be an integer between 0 and 4');
+  }
+  return { lipinskiMaxViolations };
+}
+
+// Runs the stages in order and stops at the first one the molecule fails.
+// Lipinski tolerates up to lipinskiMaxViolations broken rules; every other
+// property filter fails on any violation and alert stages on any match.
+export function runCascade(
+  mol: Molecule,
+  stages: readonly FilterName[] = defaultFilterStages(),
+  options: FilterOptions = {},
+): CascadeOutcome {
+  const { lipinskiMaxViolations } = resolveFilterOptions(options);
+  let values: Properties | null = null;
+
+  for (const stage of stages) {
+    if (isAlertFamily(stage)) {
+      const alerts = matchAlerts(mol, stage);
+      if (alerts.length > 0) return { passed: false, failedStage: stage, reasons: alerts };
+      continue;
+    }
+    values ??= properties(mol);
+    const violations = ruleViolations(propertyRules[stage], values);
+    const allowed = stage === 'lipinski' ? lipinskiMaxViolations : 0;
+    if (violations.length > allowed) return { passed: false, failedStage: stage, reasons: violations };
+  }
+  return { passed: true, failedStage: null, reasons: [] };
+}
@@ -0,0 +1,367 @@
+import { maccsKeys } from './maccs';
+import { AROMATIC, atomBonds, atomicNumberOf, heavyDegree, otherAtom, type Molecule } from './molecule';
+import { isRingAtom } from './rings';
+import { atomMatches, parseSmarts, type SmartsQuery } from './smarts';
+
+// Folded fingerprint: one entry per bit position holding 0/1, or the
+// feature count (capped at 255) for count fingerprints.
+export type Fingerprint = Uint8Array;
+
+export const fingerprintTypes = [
+  'ECFP4',
+  'ECFP6',
+  'FCFP4',
+  'FCFP6',
+  'MACCS',
+  'atom-pair',
+  'topological-torsion',
+  'path',
+] as const;
+
+export type FingerprintFamily = 'ecfp' | 'fcfp' | 'maccs' | 'atom-pair' | 'topological-torsion' | 'path';
+
+export interface FingerprintOptions {
+  family: FingerprintFamily;
+  // Circular fingerprints only.
+  radius: number;
+  // Ignored for MACCS, which always has 167 bits.
+  bitLength: number;
+  useCounts: boolean;
+  // Path fingerprints only: longest path in bonds.
+  maxPathLength: number;
+}
+
+// Request-level fingerprint settings, as accepted by the API routes.
+export interface FingerprintParameters {
+  fingerprintType?: string;
+  radius?: number;
+  bitLength?: number;
+  useCounts?: boolean;
+  maxPathLength?: number;
+}
+
+export class FingerprintOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FingerprintOptionsError';
+  }
+}
+
+export interface MorganOptions {
+  radius?: number;
+  bitLength?: number;
+  useCounts?: boolean;
+  // Pharmacophoric feature invariants (FCFP) instead of connectivity (ECFP).
+  features?: boolean;
+}
+
+export interface TopologicalOptions {
+  bitLength?: number;
+  useCounts?: boolean;
+}
+
+// ECFP4 -> radius 2; the number is the environment diameter. A bare
+// ECFP/FCFP leaves the radius to the `radius` option.
+export function parseFingerprintType(fingerprintType: string): { family: FingerprintFamily; radius?: number } | null {
+  const circular = /^(E|F)CFP(\d*)$/i.exec(fingerprintType);
+  if (circular) {
+    const family = circular[1].toUpperCase() === 'E' ? 'ecfp' : 'fcfp';
+    if (circular[2] === '') return { family };
+    const diameter = parseInt(circular[2], 10);
+    return diameter % 2 === 0 ? { family, radius: diameter / 2 } : null;
+  }
+  switch (fingerprintType.toLowerCase()) {
+    case 'maccs':
+      return { family: 'maccs' };
+    case 'atom-pair':
+    case 'topological-torsion':
+    case 'path':
+      return { family: fingerprintType.toLowerCase() as FingerprintFamily };
+    default:
+      return null;
+  }
+}
+
+// Validates request parameters; an explicit radius overrides the diameter
+// in the type name.
+export function resolveFingerprintOptions(parameters: FingerprintParameters): FingerprintOptions {
+  const { fingerprintType = 'ECFP4', bitLength = 2048, useCounts = false, maxPathLength = 7 } = parameters;
+  const parsed = typeof fingerprintType === 'string' ? parseFingerprintType(fingerprintType) : null;
+  if (!parsed) {
+    throw new FingerprintOptionsError(
+      'Invalid fingerprintType. Expected ECFP/FCFP with an even diameter (e.g. ECFP4) or one of: MACCS, atom-pair, topological-torsion, path',
+    );
+  }
+  const radius = parameters.radius ?? parsed.radius ?? 2;
+  if (!Number.isInteger(radius) || radius < 0 || radius > 6) {
+    throw new FingerprintOptionsError('radius must be an integer between 0 and 6');
+  }
+  if (!Number.isInteger(bitLength) || bitLength < 64 || bitLength > 16384) {
+    throw new FingerprintOptionsError('bitLength must be an integer between 64 and 16384');
+  }
+  if (typeof useCounts !== 'boolean') {
+    throw new FingerprintOptionsError('useCounts must be a boolean');
+  }
+  if (!Number.isInteger(maxPathLength) || maxPathLength < 1 || maxPathLength > 10) {
+    throw new FingerprintOptionsError('maxPathLength must be an integer between 1 and 10');
+  }
+  return { family: parsed.family, radius, bitLength, useCounts, maxPathLength };
+}
+
+function hashCombine(seed: number, value: number): number {
+  return (seed ^ ((value >>> 0) + 0x9e3779b9 + (seed << 6) + (seed >>> 2))) >>> 0;
+}
+
+function hashList(values: number[]): number {
+  return values.reduce((seed, value) => hashCombine(seed, value), 0);
+}
+
+function bondTypeCode(order: number): number {
+  return order === AROMATIC ? 12 : order;
+}
+
+// Daylight-style atom invariants used by ECFP: element, degree including
+// hydrogens, hydrogen count, charge, isotope and ring membership.
+function connectivityInvariants(mol: Molecule): number[] {
+  return mol.atoms.map((atom, i) =>
+    hashList([
+      atomicNumberOf(atom),
+      atomBonds(mol)[i].length + atom.hydrogens,
+      atom.hydrogens,
+      atom.charge,
+      atom.isotope ?? 0,
+      isRingAtom(mol, i) ? 1 : 0,
+    ]),
+  );
+}
+
+// RDKit's feature definitions for FCFP: donor, acceptor, aromatic,
+// halogen, basic and acidic. Each atom's invariant is the bitmask of
+// features it matches.
+const featureDefinitions = [
+  '[$([N;!H0;v3,v4&+1]),$([O,S;H1;+0]),n&H1&+0]',
+  '[$([O,S;H1;v2;!$(*-*=[O,N,P,S])]),$([O,S;H0;v2]),$([O,S;-]),$([N;v3;!$(N-*=[O,N,P,S])]),n&H0&+0,$([o,s;+0;!$([o,s]:n);!$([o,s]:c:n)])]',
+  '[a]',
+  '[F,Cl,Br,I]',
+  '[#7;+,$([N;H2&+0][$([C,a]);!$([C,a](=O))]),$([N;H1&+0]([$([C,a]);!$([C,a](=O))])[$([C,a]);!$([C,a](=O))]),$([N;H0&+0]([C;!$(C(=O))])([C;!$(C(=O))])[C;!$(C(=O))])]',
+  '[$([C,S](=[O,S,P])-[O;H1,-1])]',
+];
+
+let featureQueries: SmartsQuery[] | null = null;
+
+function featureInvariants(mol: Molecule): number[] {
+  featureQueries ??= featureDefinitions.map((smarts) => parseSmarts(smarts));
+  const queries = featureQueries;
+  return mol.atoms.map((_, atom) =>
+    queries.reduce((mask, query, i) => (atomMatches(mol, atom, query.atoms[0]) ? mask | (1 << i) : mask), 0),
+  );
+}
+
+// Circular environment identifiers for radius 0..radius. Environments that
+// cover the same set of bonds as an earlier one are dropped, as in ECFP.
+function morganFeatures(mol: Molecule, radius: number, invariants: number[]): number[] {
+  const adjacency = atomBonds(mol);
+  const features = [...invariants];
+  const seenEnvironments = new Set<string>();
+  let identifiers = invariants;
+  let environments: Set<number>[] = mol.atoms.map(() => new Set<number>());
+
+  for (let layer = 1; layer <= radius; layer++) {
+    const next: number[] = [];
+    const nextEnvironments: Set<number>[] = [];
+    const candidates: { identifier: number; key: string }[] = [];
+
+    mol.atoms.forEach((_, atom) => {
+      const neighbourHashes = adjacency[atom]
+        .map((b) => [bondTypeCode(mol.bonds[b].order), identifiers[otherAtom(mol.bonds[b], atom)]])
+        .sort((p, q) => p[0] - q[0] || p[1] - q[1]);
+      const identifier = hashList([layer, identifiers[atom], ...neighbourHashes.flat()]);
+      const environment = new Set(environments[atom]);
+      for (const b of adjacency[atom]) {
+        environment.add(b);
+        environments[otherAtom(mol.bonds[b], atom)].forEach((e) => environment.add(e));
+      }
+      next.push(identifier);
+      nextEnvironments.push(environment);
+      if (adjacency[atom].length > 0) {
+        candidates.push({ identifier, key: [...environment].sort((p, q) => p - q).join(',') });
+      }
+    });
+
+    // Within a layer the lowest identifier wins for duplicate environments.
+    candidates.sort((a, b) => a.identifier - b.identifier);
+    for (const { identifier, key } of candidates) {
+      if (!seenEnvironments.has(key)) {
+        seenEnvironments.add(key);
+        features.push(identifier);
+      }
+    }
+    identifiers = next;
+    environments = nextEnvironments;
+  }
+  return features;
+}
+
+function fold(features: number[], bitLength: number, useCounts: boolean): Fingerprint {
+  const fingerprint = new Uint8Array(bitLength);
+  for (const feature of features) {
+    const bit = feature % bitLength;
+    fingerprint[bit] = useCounts ? Math.min(fingerprint[bit] + 1, 255) : 1;
+  }
+  return fingerprint;
+}
+
+// Unfolded ECFP identifiers; an environment found at several atoms is
+// repeated once per occurrence.
+export function morganFeatureIds(mol: Molecule, radius = 2): number[] {
+  return morganFeatures(mol, radius, connectivityInvariants(mol));
+}
+
+export function morganFingerprint(mol: Molecule, options: MorganOptions = {}): Fingerprint {
+  const { radius = 2, bitLength = 2048, useCounts = false, features = false } = options;
+  const invariants = features ? featureInvariants(mol) : connectivityInvariants(mol);
+  return fold(morganFeatures(mol, radius, invariants), bitLength, useCounts);
+}
+
+// Bonds' worth of pi electrons on an atom; aromatic atoms count one.
+function piElectronCount(mol: Molecule, atom: number): number {
+  if (mol.atoms[atom].aromatic) return 1;
+  return atomBonds(mol)[atom].reduce((sum, b) => {
+    const order = mol.bonds[b].order;
+    return order === 2 || order === 3 ? sum + order - 1 : sum;
+  }, 0);
+}
+
+// Atom code shared by atom-pair and torsion fingerprints: element, heavy
+// degree (less `branchSubtract` for atoms inside a torsion) and pi electrons.
+function topologicalAtomCode(mol: Molecule, atom: number, branchSubtract = 0): number {
+  return hashList([
+    atomicNumberOf(mol.atoms[atom]),
+    Math.min(Math.max(heavyDegree(mol, atom) - branchSubtract, 0), 7),
+    Math.min(piElectronCount(mol, atom), 3),
+  ]);
+}
+
+function heavyAtoms(mol: Molecule): number[] {
+  return mol.atoms.flatMap((atom, i) => (atom.element === 'H' ? [] : [i]));
+}
+
+// Lexicographic comparison used to pick a direction-independent encoding.
+function compareSequences(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return 0;
+}
+
+function canonicalSequenceHash(sequence: number[]): number {
+  const reversed = [...sequence].reverse();
+  return hashList(compareSequences(sequence, reversed) <= 0 ? sequence : reversed);
+}
+
+const MAX_PAIR_DISTANCE = 30;
+
+// Every pair of heavy atoms with their shortest-path distance in bonds.
+export function atomPairFingerprint(mol: Molecule, options: TopologicalOptions = {}): Fingerprint {
+  const { bitLength = 2048, useCounts = false } = options;
+  const atoms = heavyAtoms(mol);
+  const codes = mol.atoms.map((_, atom) => topologicalAtomCode(mol, atom));
+  const features: number[] = [];
+  for (const start of atoms) {
+    const distance = new Map<number, number>([[start, 0]]);
+    const queue = [start];
+    for (let k = 0; k < queue.length; k++) {
+      for (const b of atomBonds(mol)[queue[k]]) {
+        const n = otherAtom(mol.bonds[b], queue[k]);
+        if (mol.atoms[n].element === 'H' || distance.has(n)) continue;
+        distance.set(n, distance.get(queue[k])! + 1);
+        queue.push(n);
+      }
+    }
+    for (const [end, d] of distance) {
+      if (end <= start || d > MAX_PAIR_DISTANCE) continue;
+      const [low, high] = [codes[start], codes[end]].sort((p, q) => p - q);
+      features.push(hashList([low, high, d]));
+    }
+  }
+  return fold(features, bitLength, useCounts);
+}
+
+// Simple paths of heavy atoms with between 1 and `maxBonds` bonds, each
+// reported once (from the lower-numbered end).
+function linearPaths(mol: Molecule, minBonds: number, maxBonds: number): { atoms: number[]; bonds: number[] }[] {
+  const paths: { atoms: number[]; bonds: number[] }[] = [];
+  const atoms: number[] = [];
+  const bonds: number[] = [];
+  const visited = new Array<boolean>(mol.atoms.length).fill(false);
+
+  const walk = (atom: number) => {
+    if (bonds.length >= minBonds && atoms[0] < atom) {
+      paths.push({ atoms: [...atoms], bonds: [...bonds] });
+    }
+    if (bonds.length === maxBonds) return;
+    for (const b of atomBonds(mol)[atom]) {
+      const n = otherAtom(mol.bonds[b], atom);
+      if (visited[n] || mol.atoms[n].element === 'H') continue;
+      visited[n] = true;
+      atoms.push(n);
+      bonds.push(b);
+      walk(n);
+      visited[n] = false;
+      atoms.pop();
+      bonds.pop();
+    }
+  };
+
+  for (const start of heavyAtoms(mol)) {
+    visited[start] = true;
+    atoms.push(start);
+    walk(start);
+    atoms.pop();
+    visited[start] = false;
+  }
+  return paths;
+}
+
+// Four-atom linear paths; the outer atoms' degree excludes the path bond and
+// the inner atoms' excludes both.
+export function topologicalTorsionFingerprint(mol: Molecule, options: TopologicalOptions = {}): Fingerprint {
+  const { bitLength = 2048, useCounts = false } = options;
+  const features = linearPaths(mol, 3, 3).map(({ atoms }) =>
+    canonicalSequenceHash(atoms.map((atom, i) => topologicalAtomCode(mol, atom, i === 0 || i === 3 ? 1 : 2))),
+  );
+  return fold(features, bitLength, useCounts);
+}
+
+export interface PathOptions extends TopologicalOptions {
+  maxPathLength?: number;
+}
+
+// Daylight-style linear path fingerprint over element, aromaticity and bond type.
+export function pathFingerprint(mol: Molecule, options: PathOptions = {}): Fingerprint {
+  const { bitLength = 2048, useCounts = false, maxPathLength = 7 } = options;
+  const atomCodes = mol.atoms.map((atom) => atomicNumberOf(atom) * 2 + (atom.aromatic ? 1 : 0));
+  const features = linearPaths(mol, 1, maxPathLength).map(({ atoms, bonds }) =>
+    canonicalSequenceHash(
+      atoms.flatMap((atom, i) => (i === 0 ? [atomCodes[atom]] : [bondTypeCode(mol.bonds[bonds[i - 1]].order), atomCodes[atom]])),
+    ),
+  );
+  return fold(features, bitLength, useCounts);
+}
+
+export function computeFingerprint(mol: Molecule, options: FingerprintOptions): Fingerprint {
+  const { family, radius, bitLength, useCounts, maxPathLength } = options;
+  switch (family) {
+    case 'ecfp':
+    case 'fcfp':
+      return morganFingerprint(mol, { radius, bitLength, useCounts, features: family === 'fcfp' });
+    case 'maccs':
+      return maccsKeys(mol);
+    case 'atom-pair':
+      return atomPairFingerprint(mol, { bitLength, useCounts });
+    case 'topological-torsion':
+      return topologicalTorsionFingerprint(mol, { bitLength, useCounts });
+    case 'path':
+      return pathFingerprint(mol, { bitLength, useCounts, maxPathLength });
+  }
+}
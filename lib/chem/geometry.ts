@@ -0,0 +1,42 @@
+export type Vec3 = [number, number, number];
+
+export function distance(a: Vec3, b: Vec3): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+export function centroid(points: Vec3[]): Vec3 {
+  const sum: Vec3 = [0, 0, 0];
+  for (const point of points) {
+    sum[0] += point[0];
+    sum[1] += point[1];
+    sum[2] += point[2];
+  }
+  return [sum[0] / points.length, sum[1] / points.length, sum[2] / points.length];
+}
+
+// Buckets points into cubic cells so neighbours within `cell` are found by
+// checking the 27 surrounding cells.
+export function spatialHash(points: Vec3[], cell: number) {
+  const key = (x: number, y: number, z: number) => `${x},${y},${z}`;
+  const cells = new Map<string, number[]>();
+  points.forEach((point, i) => {
+    const k = key(...(point.map((v) => Math.floor(v / cell)) as Vec3));
+    const bucket = cells.get(k);
+    if (bucket) bucket.push(i);
+    else cells.set(k, [i]);
+  });
+  return (point: Vec3, radius: number): number[] => {
+    const [cx, cy, cz] = point.map((v) => Math.floor(v / cell));
+    const found: number[] = [];
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          for (const i of cells.get(key(cx + dx, cy + dy, cz + dz)) ?? []) {
+            if (distance(points[i], point) <= radius) found.push(i);
+          }
+        }
+      }
+    }
+    return found;
+  };
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import {
+  fragmentMolecule,
+  HYDROGEN_FRAGMENT,
+  indexMatchedPairs,
+  joinFragments,
+  MmpOptionsError,
+  resolveMmpParameters,
+  suggestTransforms,
+} from './mmp';
+import { parseSmiles } from './smiles';
+
+const withHydrogen = resolveMmpParameters({});
+const heavyOnly = resolveMmpParameters({ includeHydrogen: false });
+
+// Chloro and trifluoromethyl on benzene and pyridine.
+const series = ['Clc1ccccc1', 'FC(F)(F)c1ccccc1', 'Clc1ccncc1', 'FC(F)(F)c1ccncc1'].map((smiles) => parseSmiles(smiles));
+
+describe('fragmentMolecule', () => {
+  it('cuts acyclic single bonds in both orientations', () => {
+    expect(fragmentMolecule(parseSmiles('CCO'), heavyOnly)).toEqual([
+      { constant: '[*:1]CO', variable: '[*:1]C' },
+      { constant: '[*:1]C', variable: '[*:1]CO' },
+      { constant: '[*:1]O', variable: '[*:1]CC' },
+      { constant: '[*:1]CC', variable: '[*:1]O' },
+    ]);
+  });
+
+  it('adds one hydrogen replacement per symmetry class', () => {
+    const hydrogens = fragmentMolecule(parseSmiles('Clc1ccccc1'), withHydrogen).filter((f) => f.variable === HYDROGEN_FRAGMENT);
+    expect(hydrogens.map((f) => f.constant)).toEqual(['[*:1]c1ccccc1Cl', '[*:1]c1cccc(Cl)c1', '[*:1]c1ccc(Cl)cc1']);
+  });
+
+  it('leaves out variable parts above maxVariableAtoms and never cuts ring bonds', () => {
+    const fragments = fragmentMolecule(parseSmiles('Clc1ccccc1'), resolveMmpParameters({ includeHydrogen: false, maxVariableAtoms: 1 }));
+    expect(fragments).toEqual([{ constant: '[*:1]c1ccccc1', variable: '[*:1]Cl' }]);
+  });
+
+  it('does not cut an amide C-N bond', () => {
+    // Neither end is a plain carbon: C is double-bonded to O
+    const variables = fragmentMolecule(parseSmiles('CC(=O)N'), heavyOnly).map((f) => f.variable);
+    expect(variables).not.toContain('[*:1]N');
+  });
+});
+
+describe('joinFragments', () => {
+  it('joins a constant and a variable part at the attachment points', () => {
+    expect(joinFragments('[*:1]c1ccccc1', 'FC(F)(F)[*:1]')).toBe('FC(F)(F)c1ccccc1');
+    expect(joinFragments('[*:1]c1ccccc1', HYDROGEN_FRAGMENT)).toBe('c1ccccc1');
+  });
+});
+
+describe('indexMatchedPairs', () => {
+  const transforms = indexMatchedPairs(series, { pIC50: [5, 6, 4, 5.5] }, heavyOnly);
+
+  it('pairs compounds sharing a constant part in both directions', () => {
+    expect(transforms.map((t) => t.transform).slice(0, 4)).toEqual([
+      '[*:1]C(F)(F)F>>[*:1]Cl',
+      '[*:1]Cl>>[*:1]C(F)(F)F',
+      '[*:1]c1ccccc1>>[*:1]c1ccncc1',
+      '[*:1]c1ccncc1>>[*:1]c1ccccc1',
+    ]);
+    expect(transforms[1].pairs).toEqual([
+      { from: 0, to: 1, constant: '[*:1]c1ccccc1' },
+      { from: 2, to: 3, constant: '[*:1]c1ccncc1' },
+    ]);
+  });
+
+  it('summarizes the to-minus-from property change', () => {
+    const change = transforms[1].changes.pIC50;
+    expect(change).toMatchObject({ count: 2, mean: 1.25, min: 1, max: 1.5 });
+    expect(change?.std).toBeCloseTo(Math.sqrt(0.125), 10);
+  });
+
+  it('skips unmeasured values and reports null without any measured pair', () => {
+    const partial = indexMatchedPairs(series, { pIC50: [5, 6, null, 5.5] }, heavyOnly);
+    expect(partial[1].changes.pIC50).toEqual({ count: 1, mean: 1, std: 0, min: 1, max: 1 });
+    const none = indexMatchedPairs(series, { pIC50: [null, null, null, null] }, heavyOnly);
+    expect(none[0].changes.pIC50).toBeNull();
+  });
+
+  it('drops transforms seen in fewer than minPairs compound pairs', () => {
+    const extra = [...series, parseSmiles('Brc1ccccc1')];
+    const all = indexMatchedPairs(extra, {}, heavyOnly);
+    expect(all.some((t) => t.transform === '[*:1]Cl>>[*:1]Br')).toBe(true);
+    const frequent = indexMatchedPairs(extra, {}, resolveMmpParameters({ includeHydrogen: false, minPairs: 2 }));
+    expect(frequent.some((t) => t.transform === '[*:1]Cl>>[*:1]Br')).toBe(false);
+  });
+});
+
+describe('suggestTransforms', () => {
+  it('applies indexed transforms to the query and never suggests the query itself', () => {
+    const transforms = indexMatchedPairs(series, { pIC50: [5, 6, 4, 5.5] }, heavyOnly);
+    const suggestions = suggestTransforms(parseSmiles('Clc1ccc(O)cc1'), transforms, withHydrogen);
+    expect(suggestions).toEqual([
+      {
+        smiles: 'Oc1ccc(cc1)C(F)(F)F',
+        transform: '[*:1]Cl>>[*:1]C(F)(F)F',
+        constant: '[*:1]c1ccc(O)cc1',
+        pairCount: 2,
+        changes: transforms[1].changes,
+      },
+    ]);
+    expect(suggestTransforms(series[0], transforms, heavyOnly).map((s) => s.smiles)).not.toContain('Clc1ccccc1');
+  });
+});
+
+describe('resolveMmpParameters', () => {
+  it('rejects counts that are not positive integers and a non-boolean includeHydrogen', () => {
+    expect(() => resolveMmpParameters({ maxVariableAtoms: 0 })).toThrow(MmpOptionsError);
+    expect(() => resolveMmpParameters({ minPairs: 1.5 })).toThrow(MmpOptionsError);
+    expect(() => resolveMmpParameters({ includeHydrogen: 'yes' as unknown as boolean })).toThrow(MmpOptionsError);
+  });
+});
@@ -0,0 +1,351 @@
+import { atomBonds, createAtom, otherAtom, type Molecule } from './molecule';
+import { isRingBond } from './rings';
+import { parseSmiles, symmetryClasses, writeSmiles } from './smiles';
+
+export class MmpOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MmpOptionsError';
+  }
+}
+
+export interface MmpParameters {
+  maxVariableAtoms?: number;
+  includeHydrogen?: boolean;
+  minPairs?: number;
+  maxTransforms?: number;
+}
+
+export interface ResolvedMmpParameters {
+  // Largest variable part, in heavy atoms, that is indexed.
+  maxVariableAtoms: number;
+  // Also index each hydrogen as a variable part, pairing H with substituents.
+  includeHydrogen: boolean;
+  // Transforms seen in fewer distinct compound pairs are dropped.
+  minPairs: number;
+  // Cap on the reported transforms and on the suggestions for a query.
+  maxTransforms: number;
+}
+
+// Variable part of a hydrogen replacement.
+export const HYDROGEN_FRAGMENT = '[*:1][H]';
+
+// One single cut of a molecule: the constant part and the variable part,
+// each with the broken bond written as the [*:1] attachment point.
+export interface Fragmentation {
+  constant: string;
+  variable: string;
+}
+
+export interface MatchedPair {
+  // Compound indices of the pair, in the transform's direction.
+  from: number;
+  to: number;
+  constant: string;
+}
+
+export interface PropertyChange {
+  // Pairs with both values measured.
+  count: number;
+  // Statistics of the to-minus-from difference; std is the sample
+  // standard deviation and 0 for a single pair.
+  mean: number;
+  std: number;
+  min: number;
+  max: number;
+}
+
+export interface Transform {
+  // from>>to, as reaction SMILES of the two variable parts.
+  transform: string;
+  from: string;
+  to: string;
+  pairs: MatchedPair[];
+  changes: Record<string, PropertyChange | null>;
+}
+
+export interface TransformSuggestion {
+  smiles: string;
+  transform: string;
+  constant: string;
+  pairCount: number;
+  changes: Record<string, PropertyChange | null>;
+}
+
+export function resolveMmpParameters(params: MmpParameters): ResolvedMmpParameters {
+  const { maxVariableAtoms = 10, includeHydrogen = true, minPairs = 1, maxTransforms = 100 } = params;
+  if (typeof maxVariableAtoms !== 'number' || !Number.isInteger(maxVariableAtoms) || maxVariableAtoms < 1) {
+    throw new MmpOptionsError('maxVariableAtoms must be a positive integer');
+  }
+  if (typeof includeHydrogen !== 'boolean') {
+    throw new MmpOptionsError('includeHydrogen must be a boolean');
+  }
+  if (typeof minPairs !== 'number' || !Number.isInteger(minPairs) || minPairs < 1) {
+    throw new MmpOptionsError('minPairs must be a positive integer');
+  }
+  if (typeof maxTransforms !== 'number' || !Number.isInteger(maxTransforms) || maxTransforms < 1) {
+    throw new MmpOptionsError('maxTransforms must be a positive integer');
+  }
+  return { maxVariableAtoms, includeHydrogen, minPairs, maxTransforms };
+}
+
+const isHeavy = (mol: Molecule, atom: number) => mol.atoms[atom].element !== 'H' && mol.atoms[atom].element !== '*';
+
+// Copy of an atom without isotope, stereo or atom class, so fragments of
+// stereoisomers and labelled compounds index together.
+const plainAtom = (atom: Molecule['atoms'][number]) => ({
+  ...atom,
+  isotope: null,
+  chirality: null,
+  stereoNeighbors: null,
+  atomClass: null,
+});
+
+const attachmentPoint = () => createAtom('*', { bracket: true, atomClass: 1 });
+
+// Hussain-Rea cuttable bond, as the SMARTS [#6+0;!$(*=,#[!#6])]!@!=!#[*]:
+// an acyclic single bond between heavy atoms with at least one end a
+// neutral carbon that is not double- or triple-bonded to a heteroatom.
+function isCuttable(mol: Molecule, b: number): boolean {
+  const bond = mol.bonds[b];
+  if (bond.order !== 1 || isRingBond(mol, b) || !isHeavy(mol, bond.begin) || !isHeavy(mol, bond.end)) return false;
+  const plainCarbon = (atom: number) =>
+    mol.atoms[atom].element === 'C' &&
+    mol.atoms[atom].charge === 0 &&
+    !atomBonds(mol)[atom].some((other) => {
+      const { order } = mol.bonds[other];
+      return (order === 2 || order === 3) && mol.atoms[otherAtom(mol.bonds[other], atom)].element !== 'C';
+    });
+  return plainCarbon(bond.begin) || plainCarbon(bond.end);
+}
+
+// Atoms reachable from start without crossing the given bond.
+function side(mol: Molecule, start: number, cut: number): number[] {
+  const seen = new Set([start]);
+  const stack = [start];
+  while (stack.length > 0) {
+    const atom = stack.pop()!;
+    for (const b of atomBonds(mol)[atom]) {
+      const n = otherAtom(mol.bonds[b], atom);
+      if (b !== cut && !seen.has(n)) {
+        seen.add(n);
+        stack.push(n);
+      }
+    }
+  }
+  return [...seen];
+}
+
+// Canonical SMILES of the atoms on one side of a cut, with an attachment
+// point on the anchor in place of the broken bond.
+function cutPart(mol: Molecule, atoms: number[], anchor: number): string {
+  const index = new Map(atoms.map((atom, k) => [atom, k]));
+  const part: Molecule = { atoms: atoms.map((atom) => plainAtom(mol.atoms[atom])), bonds: [] };
+  for (const bond of mol.bonds) {
+    const [begin, end] = [index.get(bond.begin), index.get(bond.end)];
+    if (begin !== undefined && end !== undefined) part.bonds.push({ begin, end, order: bond.order, stereo: null });
+  }
+  part.atoms.push(attachmentPoint());
+  part.bonds.push({ begin: index.get(anchor)!, end: part.atoms.length - 1, order: 1, stereo: null });
+  return writeSmiles(part, { isomeric: false });
+}
+
+// Every single cut of a molecule whose variable part is small enough. Both
+// orientations of a cut are kept when each side qualifies as variable, and
+// cuts equivalent by symmetry are written once.
+export function fragmentMolecule(mol: Molecule, params: ResolvedMmpParameters): Fragmentation[] {
+  const classes = symmetryClasses(mol);
+  const seen = new Set<string>();
+  const result: Fragmentation[] = [];
+  const heavyCount = (atoms: number[]) => atoms.filter((atom) => isHeavy(mol, atom)).length;
+
+  mol.bonds.forEach((bond, b) => {
+    if (!isCuttable(mol, b)) return;
+    const key = [classes[bond.begin], classes[bond.end]].sort((p, q) => p - q).join(',');
+    if (seen.has(key)) return;
+    seen.add(key);
+    const sides = [side(mol, bond.begin, b), side(mol, bond.end, b)];
+    const anchors = [bond.begin, bond.end];
+    for (const [k, variable] of sides.entries()) {
+      if (heavyCount(variable) > params.maxVariableAtoms) continue;
+      result.push({
+        constant: cutPart(mol, sides[1 - k], anchors[1 - k]),
+        variable: cutPart(mol, variable, anchors[k]),
+      });
+    }
+  });
+
+  if (params.includeHydrogen) {
+    const anchored = new Set<number>();
+    mol.atoms.forEach((atom, i) => {
+      if (!isHeavy(mol, i) || atom.hydrogens === 0 || anchored.has(classes[i])) return;
+      anchored.add(classes[i]);
+      const constant: Molecule = {
+        atoms: mol.atoms.map((a, k) => ({ ...plainAtom(a), hydrogens: a.hydrogens - (k === i ? 1 : 0) })),
+        bonds: mol.bonds.map((bond) => ({ ...bond, stereo: null })),
+      };
+      constant.atoms.push(attachmentPoint());
+      constant.bonds.push({ begin: i, end: constant.atoms.length - 1, order: 1, stereo: null });
+      result.push({ constant: writeSmiles(constant, { isomeric: false }), variable: HYDROGEN_FRAGMENT });
+    });
+  }
+  return result;
+}
+
+// Joins a constant part to a variable part at their [*:1] attachment
+// points, giving the canonical SMILES of the product.
+export function joinFragments(constant: string, variable: string): string {
+  const core = parseSmiles(constant);
+  const dummy = core.atoms.findIndex((atom) => atom.element === '*');
+  const anchor = otherAtom(core.bonds[atomBonds(core)[dummy][0]], dummy);
+  const atoms = core.atoms.map((atom) => ({ ...atom }));
+  const bonds = core.bonds.map((bond) => ({ ...bond }));
+
+  if (variable === HYDROGEN_FRAGMENT) {
+    atoms[anchor].hydrogens++;
+  } else {
+    const part = parseSmiles(variable);
+    const offset = atoms.length;
+    const partDummy = part.atoms.findIndex((atom) => atom.element === '*');
+    const partAnchor = otherAtom(part.bonds[atomBonds(part)[partDummy][0]], partDummy);
+    atoms.push(...part.atoms.map((atom) => ({ ...atom })));
+    bonds.push(...part.bonds.map((bond) => ({ ...bond, begin: bond.begin + offset, end: bond.end + offset })));
+    bonds.push({ begin: anchor, end: partAnchor + offset, order: 1, stereo: null });
+  }
+
+  // Drop the attachment points and renumber
+  const index: number[] = [];
+  const product: Molecule = { atoms: [], bonds: [] };
+  atoms.forEach((atom) => {
+    index.push(atom.element === '*' ? -1 : product.atoms.length);
+    if (atom.element !== '*') product.atoms.push(atom);
+  });
+  for (const bond of bonds) {
+    if (index[bond.begin] >= 0 && index[bond.end] >= 0) {
+      product.bonds.push({ ...bond, begin: index[bond.begin], end: index[bond.end] });
+    }
+  }
+  return writeSmiles(product, { isomeric: false });
+}
+
+function summarizeChanges(differences: number[]): PropertyChange | null {
+  if (differences.length === 0) return null;
+  const mean = differences.reduce((sum, d) => sum + d, 0) / differences.length;
+  const variance =
+    differences.length > 1
+      ? differences.reduce((sum, d) => sum + (d - mean) ** 2, 0) / (differences.length - 1)
+      : 0;
+  return {
+    count: differences.length,
+    mean,
+    std: Math.sqrt(variance),
+    min: Math.min(...differences),
+    max: Math.max(...differences),
+  };
+}
+
+// Indexes single-cut fragmentations by constant part and turns every two
+// compounds sharing a constant with different variable parts into a matched
+// pair, in both directions. A pair of compounds counts once per transform
+// however many constants link them. Properties are aligned with the
+// molecules; null marks an unmeasured value. Transforms come back with the
+// most pairs first, unlimited by maxTransforms.
+export function indexMatchedPairs(
+  molecules: Molecule[],
+  properties: Record<string, (number | null)[]>,
+  params: ResolvedMmpParameters
+): Transform[] {
+  const index = new Map<string, Map<string, number[]>>();
+  molecules.forEach((mol, i) => {
+    for (const { constant, variable } of fragmentMolecule(mol, params)) {
+      let variables = index.get(constant);
+      if (!variables) {
+        variables = new Map();
+        index.set(constant, variables);
+      }
+      const members = variables.get(variable);
+      if (!members) variables.set(variable, [i]);
+      else if (members[members.length - 1] !== i) members.push(i);
+    }
+  });
+
+  const transforms = new Map<string, { from: string; to: string; pairs: MatchedPair[]; seen: Set<number> }>();
+  for (const [constant, variables] of index) {
+    if (variables.size < 2) continue;
+    for (const [from, fromMembers] of variables) {
+      for (const [to, toMembers] of variables) {
+        if (from === to) continue;
+        const key = from + '>>' + to;
+        let transform = transforms.get(key);
+        if (!transform) {
+          transform = { from, to, pairs: [], seen: new Set() };
+          transforms.set(key, transform);
+        }
+        for (const i of fromMembers) {
+          for (const j of toMembers) {
+            if (i === j || transform.seen.has(i * molecules.length + j)) continue;
+            transform.seen.add(i * molecules.length + j);
+            transform.pairs.push({ from: i, to: j, constant });
+          }
+        }
+      }
+    }
+  }
+
+  return [...transforms]
+    .filter(([, t]) => t.pairs.length >= params.minPairs)
+    .map(([key, t]) => ({
+      transform: key,
+      from: t.from,
+      to: t.to,
+      pairs: t.pairs,
+      changes: Object.fromEntries(
+        Object.entries(properties).map(([name, values]) => [
+          name,
+          summarizeChanges(
+            t.pairs.flatMap(({ from, to }) =>
+              values[from] === null || values[to] === null ? [] : [(values[to] as number) - (values[from] as number)]
+            )
+          ),
+        ])
+      ),
+    }))
+    .sort((a, b) => b.pairs.length - a.pairs.length || (a.transform < b.transform ? -1 : 1));
+}
+
+// Applies indexed transforms to a query: each of its fragmentations whose
+// variable part starts a transform yields the product with that part
+// replaced. Products reachable by several transforms keep the one with the
+// most pairs; the query itself is never suggested.
+export function suggestTransforms(
+  query: Molecule,
+  transforms: Transform[],
+  params: ResolvedMmpParameters
+): TransformSuggestion[] {
+  const byFrom = new Map<string, Transform[]>();
+  for (const transform of transforms) {
+    const list = byFrom.get(transform.from);
+    if (list) list.push(transform);
+    else byFrom.set(transform.from, [transform]);
+  }
+
+  const querySmiles = writeSmiles(query, { isomeric: false });
+  const best = new Map<string, TransformSuggestion>();
+  for (const { constant, variable } of fragmentMolecule(query, params)) {
+    for (const transform of byFrom.get(variable) ?? []) {
+      const smiles = joinFragments(constant, transform.to);
+      const current = best.get(smiles);
+      if (smiles === querySmiles || (current && current.pairCount >= transform.pairs.length)) continue;
+      best.set(smiles, {
+        smiles,
+        transform: transform.transform,
+        constant,
+        pairCount: transform.pairs.length,
+        changes: transform.changes,
+      });
+    }
+  }
+  return [...best.values()]
+    .sort((a, b) => b.pairCount - a.pairCount || (a.smiles < b.smiles ? -1 : 1))
+    .slice(0, params.maxTransforms);
+}
@@ -0,0 +1,205 @@
+import { allowedValences, atomicNumber, averageMass, organicSubset } from './elements';
+
+export type Chirality = '@' | '@@';
+
+// Bond orders as written; aromatic bonds carry order 1.5.
+export type BondOrder = 1 | 1.5 | 2 | 3 | 4;
+
+export const AROMATIC: BondOrder = 1.5;
+
+export interface Atom {
+  element: string;
+  charge: number;
+  isotope: number | null;
+  aromatic: boolean;
+  // Total attached hydrogens, implicit or written in brackets.
+  hydrogens: number;
+  // True when the hydrogen count was written explicitly (bracket atom).
+  bracket: boolean;
+  chirality: Chirality | null;
+  // Reference neighbour order for the chirality tag; -1 is the implicit H.
+  stereoNeighbors: number[] | null;
+  atomClass: number | null;
+}
+
+export interface Bond {
+  begin: number;
+  end: number;
+  order: BondOrder;
+  // Directional single bond marker relative to begin -> end.
+  stereo: '/' | '\\' | null;
+}
+
+// Molecules are treated as immutable once built: derived data such as
+// adjacency and ring information is cached per object.
+export interface Molecule {
+  atoms: Atom[];
+  bonds: Bond[];
+}
+
+export function createAtom(element: string, overrides: Partial<Atom> = {}): Atom {
+  return {
+    element,
+    charge: 0,
+    isotope: null,
+    aromatic: false,
+    hydrogens: 0,
+    bracket: false,
+    chirality: null,
+    stereoNeighbors: null,
+    atomClass: null,
+    ...overrides,
+  };
+}
+
+const adjacencyCache = new WeakMap<Molecule, number[][]>();
+
+// Bond indices incident on each atom, in bond creation order.
+export function atomBonds(mol: Molecule): number[][] {
+  let adjacency = adjacencyCache.get(mol);
+  if (!adjacency) {
+    adjacency = mol.atoms.map(() => []);
+    mol.bonds.forEach((bond, i) => {
+      adjacency![bond.begin].push(i);
+      adjacency![bond.end].push(i);
+    });
+    adjacencyCache.set(mol, adjacency);
+  }
+  return adjacency;
+}
+
+export function otherAtom(bond: Bond, atom: number): number {
+  return bond.begin === atom ? bond.end : bond.begin;
+}
+
+export function neighbors(mol: Molecule, atom: number): number[] {
+  return atomBonds(mol)[atom].map((b) => otherAtom(mol.bonds[b], atom));
+}
+
+export function findBond(mol: Molecule, a: number, b: number): number {
+  return atomBonds(mol)[a].find((i) => otherAtom(mol.bonds[i], a) === b) ?? -1;
+}
+
+export function heavyDegree(mol: Molecule, atom: number): number {
+  return neighbors(mol, atom).filter((n) => mol.atoms[n].element !== 'H').length;
+}
+
+export function atomicNumberOf(atom: Atom): number {
+  return atomicNumber(atom.element) ?? 0;
+}
+
+// Sum of bond orders around an atom with aromatic bonds counted as single.
+function sigmaValence(mol: Molecule, atom: number): number {
+  return atomBonds(mol)[atom].reduce((sum, b) => {
+    const order = mol.bonds[b].order;
+    return sum + (order === AROMATIC ? 1 : order);
+  }, 0);
+}
+
+// Implicit hydrogen count for an organic-subset atom (OpenSMILES rules).
+// Aromatic atoms reserve one bond for the pi system and only fill up to
+// their lowest valence, so thiophene sulfur stays unprotonated.
+export function implicitHydrogens(mol: Molecule, atom: number): number {
+  const a = mol.atoms[atom];
+  if (!organicSubset.has(a.element)) {
+    return 0;
+  }
+  const used = sigmaValence(mol, atom) + (a.aromatic ? 1 : 0);
+  const allowed = allowedValences(a.element, 0)!;
+  const target = (a.aromatic ? allowed.slice(0, 1) : allowed).find((v) => v >= used);
+  return target === undefined ? 0 : Math.max(0, target - used);
+}
+
+// Recomputes hydrogens for every atom whose count is not written explicitly,
+// e.g. after editing a molecule.
+export function assignImplicitHydrogens(mol: Molecule): void {
+  mol.atoms.forEach((atom, i) => {
+    if (!atom.bracket) {
+      atom.hydrogens = implicitHydrogens(mol, i);
+    }
+  });
+}
+
+// Bond-order sum plus hydrogens, using Kekulé orders when supplied.
+export function valence(mol: Molecule, atom: number, kekuleOrders?: number[]): number {
+  return atomBonds(mol)[atom].reduce(
+    (sum, b) => sum + (kekuleOrders ? kekuleOrders[b] : mol.bonds[b].order),
+    mol.atoms[atom].hydrogens,
+  );
+}
+
+export function hasValidValence(mol: Molecule, atom: number, kekuleOrders?: number[]): boolean {
+  const a = mol.atoms[atom];
+  const allowed = allowedValences(a.element, a.charge);
+  if (!allowed) {
+    return true;
+  }
+  const v = valence(mol, atom, kekuleOrders);
+  return v <= Math.max(...allowed);
+}
+
+export function molecularFormula(mol: Molecule): string {
+  const counts = new Map<string, number>();
+  const add = (element: string, n: number) => counts.set(element, (counts.get(element) ?? 0) + n);
+  let charge = 0;
+  for (const atom of mol.atoms) {
+    if (atom.element !== '*') add(atom.element, 1);
+    if (atom.hydrogens > 0) add('H', atom.hydrogens);
+    charge += atom.charge;
+  }
+  // Hill order: C, H, then alphabetical; purely alphabetical without carbon.
+  const elements = [...counts.keys()].sort();
+  const ordered = counts.has('C')
+    ? ['C', ...(counts.has('H') ? ['H'] : []), ...elements.filter((e) => e !== 'C' && e !== 'H')]
+    : elements;
+  const formula = ordered.map((e) => e + (counts.get(e)! > 1 ? counts.get(e) : '')).join('');
+  if (charge === 0) return formula;
+  const magnitude = Math.abs(charge) > 1 ? Math.abs(charge) : '';
+  return formula + (charge > 0 ? '+' : '-') + magnitude;
+}
+
+export function averageMolecularWeight(mol: Molecule): number {
+  const hydrogen = averageMass(1);
+  return mol.atoms.reduce(
+    (sum, atom) => sum + (atom.isotope ?? averageMass(atomicNumberOf(atom))) + atom.hydrogens * hydrogen,
+    0,
+  );
+}
+
+// Copy with every hydrogen as an explicit atom. Hydrogens are appended after
+// the existing atoms, so heavy atom indices carry over unchanged.
+export function withExplicitHydrogens(mol: Molecule): Molecule {
+  const atoms = mol.atoms.map((atom) => ({ ...atom, hydrogens: 0, bracket: true }));
+  const bonds = mol.bonds.map((bond) => ({ ...bond }));
+  mol.atoms.forEach((atom, i) => {
+    for (let h = 0; h < atom.hydrogens; h++) {
+      atoms.push(createAtom('H', { bracket: true }));
+      bonds.push({ begin: i, end: atoms.length - 1, order: 1, stereo: null });
+    }
+  });
+  return { atoms, bonds };
+}
+
+// Connected components as lists of atom indices.
+export function fragments(mol: Molecule): number[][] {
+  const seen = new Array<boolean>(mol.atoms.length).fill(false);
+  const components: number[][] = [];
+  for (let start = 0; start < mol.atoms.length; start++) {
+    if (seen[start]) continue;
+    const component: number[] = [];
+    const stack = [start];
+    seen[start] = true;
+    while (stack.length > 0) {
+      const atom = stack.pop()!;
+      component.push(atom);
+      for (const n of neighbors(mol, atom)) {
+        if (!seen[n]) {
+          seen[n] = true;
+          stack.push(n);
+        }
+      }
+    }
+    components.push(component.sort((a, b) => a - b));
+  }
+  return components;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { crossover, mutate, mutationOperators, sanitizeGraph } from './mutations';
+import { parseSmiles } from './smiles';
+
+// Always picks the first site, fragment or cut.
+const first = () => 0;
+
+describe('mutate', () => {
+  it('gives a valid molecule for every operator', () => {
+    const seed = parseSmiles('OC(=O)c1ccccc1OC');
+    const results = Object.fromEntries(
+      mutationOperators.map((operator) => {
+        const graph = mutate(seed, operator, first);
+        return [operator, graph && sanitizeGraph(graph)?.smiles];
+      }),
+    );
+    expect(results).toEqual({
+      'atom-swap': 'COc1ccccc1C(C)=O',
+      'add-fragment': 'COC(=O)c1ccccc1OC',
+      'remove-fragment': 'COc1ccccc1C=O',
+      'ring-closure': 'COc1ccc2cc1C(=O)O2',
+      bioisostere: 'COc1ccccc1-c1nn[nH]n1',
+    });
+  });
+
+  it('returns null when a molecule offers no site', () => {
+    expect(mutate(parseSmiles('C'), 'ring-closure', first)).toBeNull();
+    expect(mutate(parseSmiles('C'), 'bioisostere', first)).toBeNull();
+  });
+});
+
+describe('crossover', () => {
+  it('swaps the pieces of two parents cut at acyclic single bonds', () => {
+    const children = crossover(parseSmiles('CCCCO'), parseSmiles('c1ccccc1CN'), first);
+    expect(children.map((child) => sanitizeGraph(child)?.smiles)).toEqual(['CCN', 'OCCCc1ccccc1']);
+    expect(crossover(parseSmiles('c1ccccc1'), parseSmiles('CCO'), first)).toEqual([]);
+  });
+});
+
+describe('sanitizeGraph', () => {
+  it('keeps the largest fragment and marks the molecule repaired', () => {
+    expect(sanitizeGraph(parseSmiles('CCO.C'))).toMatchObject({ smiles: 'CCO', repaired: true });
+    expect(sanitizeGraph(parseSmiles('CCO'))).toMatchObject({ smiles: 'CCO', repaired: false });
+  });
+
+  it('lowers bond orders on over-valent atoms', () => {
+    const graph = parseSmiles('CC(C)C');
+    // Three double bonds give the central carbon a valence of 6.
+    const bonds = graph.bonds.map((bond) => ({ ...bond, order: 2 as const }));
+    const atoms = graph.atoms.map((atom) => ({ ...atom, hydrogens: 0 }));
+    const sanitized = sanitizeGraph({ atoms, bonds });
+    expect(sanitized).toMatchObject({ smiles: 'C=C(C)C', repaired: true });
+  });
+});
@@ -0,0 +1,327 @@
+import { kekuleOrders } from './aromaticity';
+import { allowedValences } from './elements';
+import { atomBonds, fragments, otherAtom, type BondOrder, type Molecule } from './molecule';
+import { isRingBond } from './rings';
+import { findMatches, parseSmarts, type SmartsQuery } from './smarts';
+import { SmilesParseError, parseSmiles, writeSmiles } from './smiles';
+
+export const mutationOperators = ['atom-swap', 'add-fragment', 'remove-fragment', 'ring-closure', 'bioisostere'] as const;
+
+export type MutationOperator = (typeof mutationOperators)[number];
+
+// Elements an atom swap can turn a neutral heavy atom into.
+const SWAP_ELEMENTS = ['C', 'N', 'O', 'S', 'F', 'Cl'];
+
+// Substituents for add-fragment, attached through their first atom.
+const SUBSTITUENTS = ['C', 'O', 'N', 'F', 'Cl', 'OC', 'C(=O)N', 'C#N', 'C(F)(F)F', 'c1ccccc1'];
+
+// New rings close between atoms this many bonds apart (5- and 6-rings).
+const RING_CLOSURE_DISTANCES = [4, 5];
+
+// The first pattern atom anchors the replacement. Either the other matched
+// atoms are swapped for `group` (attached to the anchor through its first
+// atom), or the listed pattern atoms change element in place.
+interface Bioisostere {
+  name: string;
+  smarts: string;
+  group?: string;
+  elements?: Record<number, string>;
+}
+
+const bioisosteres: Bioisostere[] = [
+  { name: 'carboxylic acid to tetrazole', smarts: '[#6][CX3](=O)[OX2H1]', group: 'c1nn[nH]n1' },
+  { name: 'tetrazole to carboxylic acid', smarts: '[#6]c1nnnn1', group: 'C(=O)O' },
+  { name: 'ester to amide', smarts: '[#6][CX3](=O)[OX2][#6]', elements: { 3: 'N' } },
+  { name: 'amide to ester', smarts: '[#6][CX3](=O)[NX3H1][#6]', elements: { 3: 'O' } },
+  { name: 'phenyl to pyridyl', smarts: '[cH]1ccccc1', elements: { 0: 'N' } },
+  { name: 'ether to thioether', smarts: '[#6][OX2][#6]', elements: { 1: 'S' } },
+  { name: 'thioether to ether', smarts: '[#6][SX2][#6]', elements: { 1: 'O' } },
+  { name: 'hydroxyl to amine', smarts: '[#6][OX2H1]', elements: { 1: 'N' } },
+  { name: 'chloro to trifluoromethyl', smarts: '[#6]Cl', group: 'C(F)(F)F' },
+  { name: 'trifluoromethyl to chloro', smarts: '[#6]C(F)(F)F', group: 'Cl' },
+  { name: 'methyl to chloro', smarts: '[#6][CH3]', group: 'Cl' },
+];
+
+let compiledBioisosteres: (Bioisostere & { query: SmartsQuery })[] | null = null;
+
+const substituentGraphs = new Map<string, Molecule>();
+
+export interface SanitizedMolecule {
+  mol: Molecule;
+  smiles: string;
+  // True when bonds had to be lowered or fragments dropped.
+  repaired: boolean;
+}
+
+// Highest valence offspring atoms may take. Neutral atoms keep their lowest
+// valence except sulfur and phosphorus (sulfones, phosphates): the parser
+// accepts e.g. pentavalent nitrogen or C=Cl, which offspring should not have.
+const HYPERVALENT_ELEMENTS = new Set(['S', 'P']);
+
+function valenceLimit(element: string, charge: number): number | undefined {
+  const allowed = allowedValences(element, charge);
+  if (!allowed) return undefined;
+  return charge === 0 && !HYPERVALENT_ELEMENTS.has(element) ? Math.min(...allowed) : Math.max(...allowed);
+}
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+const isHeavy = (mol: Molecule, atom: number) => !['H', '*'].includes(mol.atoms[atom].element);
+
+// Editable copy with Kekulé bond orders and no aromatic flags or stereo.
+// Atom and bond indices match the source molecule.
+function kekuleGraph(mol: Molecule): Molecule {
+  const orders = kekuleOrders(mol);
+  return {
+    atoms: mol.atoms.map((atom) => ({ ...atom, aromatic: false, chirality: null, stereoNeighbors: null })),
+    bonds: mol.bonds.map((bond, b) => ({ ...bond, order: orders[b] as BondOrder, stereo: null })),
+  };
+}
+
+function substituentGraph(smiles: string): Molecule {
+  let graph = substituentGraphs.get(smiles);
+  if (!graph) {
+    graph = kekuleGraph(parseSmiles(smiles));
+    substituentGraphs.set(smiles, graph);
+  }
+  return graph;
+}
+
+// Induced subgraph on the kept atoms, with the old-to-new atom index map.
+function keepAtoms(graph: Molecule, keep: (atom: number) => boolean): { graph: Molecule; index: number[] } {
+  const index: number[] = [];
+  let next = 0;
+  graph.atoms.forEach((_, i) => index.push(keep(i) ? next++ : -1));
+  return {
+    graph: {
+      atoms: graph.atoms.filter((_, i) => index[i] >= 0).map((atom) => ({ ...atom })),
+      bonds: graph.bonds
+        .filter((bond) => index[bond.begin] >= 0 && index[bond.end] >= 0)
+        .map((bond) => ({ ...bond, begin: index[bond.begin], end: index[bond.end] })),
+    },
+    index,
+  };
+}
+
+// Appends `part` and bonds its atom `partAtom` to `anchor` with a single bond.
+function join(graph: Molecule, anchor: number, part: Molecule, partAtom = 0): Molecule {
+  const offset = graph.atoms.length;
+  return {
+    atoms: [...graph.atoms, ...part.atoms.map((atom) => ({ ...atom }))],
+    bonds: [
+      ...graph.bonds,
+      ...part.bonds.map((bond) => ({ ...bond, begin: bond.begin + offset, end: bond.end + offset })),
+      { begin: anchor, end: partAtom + offset, order: 1, stereo: null },
+    ],
+  };
+}
+
+// Atoms reachable from `start` without crossing `bond`.
+function sideOf(mol: Molecule, start: number, bond: number): number[] {
+  const seen = new Set([start]);
+  const stack = [start];
+  while (stack.length > 0) {
+    const atom = stack.pop()!;
+    for (const b of atomBonds(mol)[atom]) {
+      const n = otherAtom(mol.bonds[b], atom);
+      if (b !== bond && !seen.has(n)) {
+        seen.add(n);
+        stack.push(n);
+      }
+    }
+  }
+  return [...seen];
+}
+
+function distancesFrom(mol: Molecule, start: number): number[] {
+  const distance = new Array<number>(mol.atoms.length).fill(-1);
+  distance[start] = 0;
+  const queue = [start];
+  for (let k = 0; k < queue.length; k++) {
+    for (const b of atomBonds(mol)[queue[k]]) {
+      const n = otherAtom(mol.bonds[b], queue[k]);
+      if (distance[n] < 0) {
+        distance[n] = distance[queue[k]] + 1;
+        queue.push(n);
+      }
+    }
+  }
+  return distance;
+}
+
+// Acyclic single bonds between heavy atoms: the places a molecule can be
+// cut without breaking a ring.
+function cuttableBonds(mol: Molecule): number[] {
+  return mol.bonds
+    .map((bond, b) => ({ bond, b }))
+    .filter(({ bond, b }) => bond.order === 1 && !isRingBond(mol, b) && isHeavy(mol, bond.begin) && isHeavy(mol, bond.end))
+    .map(({ b }) => b);
+}
+
+function atomSwap(mol: Molecule, random: () => number): Molecule | null {
+  const sites = mol.atoms.map((_, i) => i).filter((i) => isHeavy(mol, i) && mol.atoms[i].charge === 0);
+  if (sites.length === 0) return null;
+  const atom = pick(sites, random);
+  // Only elements that can keep every neighbour, possibly via lower bond orders.
+  const degree = atomBonds(mol)[atom].length;
+  const elements = SWAP_ELEMENTS.filter(
+    (element) => element !== mol.atoms[atom].element && valenceLimit(element, 0)! >= degree,
+  );
+  if (elements.length === 0) return null;
+  const graph = kekuleGraph(mol);
+  graph.atoms[atom].element = pick(elements, random);
+  return graph;
+}
+
+function addFragment(mol: Molecule, random: () => number): Molecule | null {
+  const sites = mol.atoms.map((_, i) => i).filter((i) => isHeavy(mol, i) && mol.atoms[i].hydrogens > 0);
+  if (sites.length === 0) return null;
+  return join(kekuleGraph(mol), pick(sites, random), substituentGraph(pick(SUBSTITUENTS, random)));
+}
+
+function removeFragment(mol: Molecule, random: () => number): Molecule | null {
+  const bonds = cuttableBonds(mol);
+  if (bonds.length === 0) return null;
+  const b = pick(bonds, random);
+  const begin = sideOf(mol, mol.bonds[b].begin, b);
+  const end = sideOf(mol, mol.bonds[b].end, b);
+  const removed = new Set(begin.length <= end.length ? begin : end);
+  return keepAtoms(kekuleGraph(mol), (atom) => !removed.has(atom)).graph;
+}
+
+function ringClosure(mol: Molecule, random: () => number): Molecule | null {
+  const sites = mol.atoms.map((_, i) => i).filter((i) => isHeavy(mol, i) && mol.atoms[i].hydrogens > 0);
+  const pairs: [number, number][] = [];
+  for (const a of sites) {
+    const distance = distancesFrom(mol, a);
+    for (const b of sites) {
+      if (b > a && RING_CLOSURE_DISTANCES.includes(distance[b])) pairs.push([a, b]);
+    }
+  }
+  if (pairs.length === 0) return null;
+  const [a, b] = pick(pairs, random);
+  const graph = kekuleGraph(mol);
+  graph.bonds.push({ begin: a, end: b, order: 1, stereo: null });
+  return graph;
+}
+
+function bioisostere(mol: Molecule, random: () => number): Molecule | null {
+  compiledBioisosteres ??= bioisosteres.map((entry) => ({ ...entry, query: parseSmarts(entry.smarts) }));
+  const candidates: { entry: Bioisostere; match: number[] }[] = [];
+  for (const entry of compiledBioisosteres) {
+    for (const match of findMatches(mol, entry.query, { unique: true })) {
+      // A replaced group may only be bonded to the rest of the molecule
+      // through its anchor.
+      const group = new Set(match);
+      const isolated =
+        !entry.group ||
+        match.slice(1).every((atom) => atomBonds(mol)[atom].every((b) => group.has(otherAtom(mol.bonds[b], atom))));
+      if (isolated) candidates.push({ entry, match });
+    }
+  }
+  if (candidates.length === 0) return null;
+  const { entry, match } = pick(candidates, random);
+  const graph = kekuleGraph(mol);
+  if (entry.elements) {
+    for (const [position, element] of Object.entries(entry.elements)) {
+      graph.atoms[match[Number(position)]].element = element;
+    }
+    return graph;
+  }
+  const removed = new Set(match.slice(1));
+  const { graph: core, index } = keepAtoms(graph, (atom) => !removed.has(atom));
+  return join(core, index[match[0]], substituentGraph(entry.group!));
+}
+
+const operators: Record<MutationOperator, (mol: Molecule, random: () => number) => Molecule | null> = {
+  'atom-swap': atomSwap,
+  'add-fragment': addFragment,
+  'remove-fragment': removeFragment,
+  'ring-closure': ringClosure,
+  bioisostere,
+};
+
+// Applies one mutation and returns the edited Kekulé graph, which still
+// needs sanitizeGraph(), or null when the molecule offers no site for it.
+export function mutate(mol: Molecule, operator: MutationOperator, random: () => number): Molecule | null {
+  return operators[operator](mol, random);
+}
+
+// Graph crossover: cuts each parent at a random acyclic single bond and
+// joins the first piece of each parent to the second piece of the other.
+// Returns no children when either parent has nothing to cut.
+export function crossover(a: Molecule, b: Molecule, random: () => number): Molecule[] {
+  const cut = (mol: Molecule) => {
+    const bonds = cuttableBonds(mol);
+    if (bonds.length === 0) return null;
+    const bond = pick(bonds, random);
+    const [head, tail] = random() < 0.5 ? [mol.bonds[bond].begin, mol.bonds[bond].end] : [mol.bonds[bond].end, mol.bonds[bond].begin];
+    const headSide = new Set(sideOf(mol, head, bond));
+    const graph = kekuleGraph(mol);
+    const first = keepAtoms(graph, (atom) => headSide.has(atom));
+    const second = keepAtoms(graph, (atom) => !headSide.has(atom));
+    return {
+      head: first.graph,
+      headAtom: first.index[head],
+      tail: second.graph,
+      tailAtom: second.index[tail],
+    };
+  };
+  const x = cut(a);
+  const y = cut(b);
+  if (!x || !y) return [];
+  return [join(x.head, x.headAtom, y.tail, y.tailAtom), join(y.head, y.headAtom, x.tail, x.tailAtom)];
+}
+
+// Turns an edited Kekulé graph into a valid molecule: keeps the largest
+// fragment, lowers bond orders on over-valent atoms, recomputes hydrogens
+// and re-perceives aromaticity by parsing the written SMILES. Returns null
+// when the graph cannot be repaired.
+export function sanitizeGraph(graph: Molecule): SanitizedMolecule | null {
+  let repaired = false;
+  const parts = fragments(graph);
+  if (parts.length > 1) {
+    const largest = new Set(parts.reduce((best, part) => (part.length > best.length ? part : best)));
+    graph = keepAtoms(graph, (atom) => largest.has(atom)).graph;
+    repaired = true;
+  }
+
+  const bonds = graph.bonds.map((bond) => ({ ...bond }));
+  const atoms = graph.atoms.map((atom) => ({ ...atom, hydrogens: 0, bracket: true }));
+  const mol: Molecule = { atoms, bonds };
+  for (let i = 0; i < atoms.length; i++) {
+    const limit = valenceLimit(atoms[i].element, atoms[i].charge);
+    if (limit === undefined) continue;
+    const incident = atomBonds(mol)[i];
+    let used = incident.reduce((sum, b) => sum + bonds[b].order, 0);
+    while (used > limit) {
+      const b = incident.filter((b) => bonds[b].order > 1).sort((p, q) => bonds[q].order - bonds[p].order)[0];
+      if (b === undefined) return null;
+      bonds[b].order = (bonds[b].order - 1) as BondOrder;
+      used--;
+      repaired = true;
+    }
+  }
+
+  // Hydrogens fill atoms up to their lowest valence. Above it only the
+  // exact higher valences count (sulfoxide, sulfone), so trivalent sulfur
+  // is rejected instead of becoming an SH sulfurane.
+  for (let i = 0; i < atoms.length; i++) {
+    const allowed = allowedValences(atoms[i].element, atoms[i].charge);
+    if (!allowed) {
+      atoms[i].hydrogens = graph.atoms[i].hydrogens;
+      continue;
+    }
+    const used = atomBonds(mol)[i].reduce((sum, b) => sum + bonds[b].order, 0);
+    if (used > allowed[0] && !allowed.includes(used)) return null;
+    atoms[i].hydrogens = Math.max(0, allowed[0] - used);
+  }
+
+  try {
+    const parsed = parseSmiles(writeSmiles(mol, { canonical: false, isomeric: false }));
+    return { mol: parsed, smiles: writeSmiles(parsed), repaired };
+  } catch (error) {
+    if (error instanceof SmilesParseError) return null;
+    throw error;
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import type { PharmacophoreModel } from './pharmacophore';
+import { exportPharmacophore, importPharmacophore, PharmacophoreFormatError } from './pharmacophore-formats';
+
+// Coordinates, radii and weights fit the PDB column precision (3, 2 and 2
+// decimals) so every format can carry them exactly.
+const model: PharmacophoreModel = {
+  features: [
+    { type: 'HBD', center: [1.25, -0.5, 2], radius: 1.5, weight: 1 },
+    { type: 'HBA', center: [-3.125, 4.75, 0.5], radius: 1.2, weight: 0.75 },
+    { type: 'Aromatic', center: [0, 0, -1.5], radius: 1.8, weight: 0.5 },
+    { type: 'Hydrophobic', center: [6.5, 2.25, -4], radius: 2, weight: 0.25 },
+    { type: 'Charged', center: [-7.5, -2.5, 3.375], radius: 1.4, weight: 1, charge: 1 },
+    { type: 'Charged', center: [10.5, 11.25, -12], radius: 1.6, weight: 0.5, charge: -1 },
+  ],
+  excludedVolumes: [
+    { center: [2.5, 3.5, 4.5], radius: 1.7 },
+    { center: [-1.5, -8.25, 0.125], radius: 1 },
+  ],
+};
+
+const roundTrip = (format: 'pml' | 'pharmer' | 'pdb') => importPharmacophore(exportPharmacophore(model, format), format);
+
+describe('pharmacophore file formats', () => {
+  it('round-trip PML with types, centers, radii, weights and charge signs', () => {
+    expect(roundTrip('pml')).toEqual(model);
+  });
+
+  it('round-trip PDB pseudo-atoms with weights as occupancy and radii as B-factors', () => {
+    expect(roundTrip('pdb')).toEqual(model);
+  });
+
+  it('round-trip Pharmer queries with every weight reset to 1', () => {
+    expect(roundTrip('pharmer')).toEqual({
+      features: model.features.map((feature) => ({ ...feature, weight: 1 })),
+      excludedVolumes: model.excludedVolumes,
+    });
+  });
+
+  it('write charged features under their signed names', () => {
+    expect(exportPharmacophore(model, 'pml')).toMatch(/<point name="PI"[^]*<point name="NI"/);
+    const points = JSON.parse(exportPharmacophore(model, 'pharmer')).points.map((p: { name: string }) => p.name);
+    expect(points.slice(4)).toEqual(['PositiveIon', 'NegativeIon', 'ExclusionSphere', 'ExclusionSphere']);
+    expect(exportPharmacophore(model, 'pdb')).toMatch(/HETATM {4}5 .*POS[^]*HETATM {4}6 .*NEG/);
+  });
+
+  it('refuse to export a charged feature without a sign', () => {
+    const unsigned: PharmacophoreModel = {
+      features: [{ type: 'Charged', center: [0, 0, 0], radius: 1, weight: 1 }],
+      excludedVolumes: [],
+    };
+    expect(() => exportPharmacophore(unsigned, 'pharmer')).toThrow(PharmacophoreFormatError);
+  });
+});
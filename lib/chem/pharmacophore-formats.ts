@@ -0,0 +1,289 @@
+import type { Vec3 } from './geometry';
+import {
+  resolvePharmacophoreModel,
+  type ModelFeature,
+  type PharmacophoreFeatureType,
+  type PharmacophoreModel,
+} from './pharmacophore';
+
+// LigandScout PML (XML), Pharmer/Pharmit JSON queries and a PDB file with
+// one pseudo-atom per feature for viewers.
+export const pharmacophoreFormats = ['pml', 'pharmer', 'pdb'] as const;
+
+export type PharmacophoreFormat = (typeof pharmacophoreFormats)[number];
+
+// Thrown for files that cannot be read as the given format.
+export class PharmacophoreFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PharmacophoreFormatError';
+  }
+}
+
+export function isPharmacophoreFormat(format: string): format is PharmacophoreFormat {
+  return (pharmacophoreFormats as readonly string[]).includes(format);
+}
+
+// Names per feature kind; charged features are split by sign.
+type FeatureKind = Exclude<PharmacophoreFeatureType, 'Charged'> | 'Positive' | 'Negative';
+
+const pmlNames: Record<FeatureKind, string> = {
+  HBD: 'HBD',
+  HBA: 'HBA',
+  Aromatic: 'AR',
+  Hydrophobic: 'H',
+  Positive: 'PI',
+  Negative: 'NI',
+};
+
+const pharmerNames: Record<FeatureKind, string> = {
+  HBD: 'HydrogenDonor',
+  HBA: 'HydrogenAcceptor',
+  Aromatic: 'Aromatic',
+  Hydrophobic: 'Hydrophobic',
+  Positive: 'PositiveIon',
+  Negative: 'NegativeIon',
+};
+
+const pdbNames: Record<FeatureKind | 'Excluded', string> = {
+  HBD: 'DON',
+  HBA: 'ACC',
+  Aromatic: 'ARO',
+  Hydrophobic: 'HYD',
+  Positive: 'POS',
+  Negative: 'NEG',
+  Excluded: 'EXC',
+};
+
+function featureKind(feature: ModelFeature, index: number): FeatureKind {
+  if (feature.type !== 'Charged') return feature.type;
+  if (feature.charge === undefined) {
+    throw new PharmacophoreFormatError(`Charged feature ${index} has no charge sign to export`);
+  }
+  return feature.charge > 0 ? 'Positive' : 'Negative';
+}
+
+function featureFromKind(kind: FeatureKind, center: Vec3, radius: number, weight?: number) {
+  const charged = kind === 'Positive' || kind === 'Negative';
+  return {
+    type: charged ? 'Charged' : kind,
+    center,
+    radius,
+    ...(weight !== undefined ? { weight } : {}),
+    ...(charged ? { charge: kind === 'Positive' ? 1 : -1 } : {}),
+  };
+}
+
+const kindByName = <K extends string>(names: Record<K, string>, name: string) =>
+  (Object.keys(names) as K[]).find((kind) => names[kind] === name);
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Model features carry no direction, so every feature is written as a
+// <point>; the tolerance is the sphere radius.
+function toPml(model: PharmacophoreModel, name: string): string {
+  const position = (tag: string, [x, y, z]: Vec3, radius: number) =>
+    `<${tag} x3="${x}" y3="${y}" z3="${z}" tolerance="${radius}"/>`;
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    `<pharmacophore name="${escapeXml(name)}" pharmacophoreType="LIGAND_SCOUT">`,
+  ];
+  model.features.forEach((feature, i) => {
+    const kind = pmlNames[featureKind(feature, i)];
+    lines.push(
+      `  <point name="${kind}" featureId="${kind}${i + 1}" optional="false" disabled="false" weight="${feature.weight}" id="feature${i}">`,
+      `    ${position('position', feature.center, feature.radius)}`,
+      '  </point>',
+    );
+  });
+  model.excludedVolumes.forEach((volume, i) => {
+    const id = model.features.length + i;
+    lines.push(
+      `  <volume type="exclusion" featureId="ev${i + 1}" optional="false" disabled="false" weight="1.0" id="feature${id}">`,
+      `    ${position('position', volume.center, volume.radius)}`,
+      '  </volume>',
+    );
+  });
+  lines.push('</pharmacophore>');
+  return lines.join('\n') + '\n';
+}
+
+function xmlAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, key, value] of text.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[key] = value.replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+  }
+  return attributes;
+}
+
+function pmlPosition(body: string, tag: string, element: string): { center: Vec3; radius: number } {
+  const match = new RegExp(`<${tag}\\b([^>]*)/?>`).exec(body);
+  if (!match) throw new PharmacophoreFormatError(`PML ${element} without a <${tag}> element`);
+  const { x3, y3, z3, tolerance } = xmlAttributes(match[1]);
+  const center = [x3, y3, z3].map(Number) as Vec3;
+  const radius = Number(tolerance);
+  if (center.some((v) => !Number.isFinite(v)) || !Number.isFinite(radius)) {
+    throw new PharmacophoreFormatError(`PML ${element} has an invalid <${tag}> position or tolerance`);
+  }
+  return { center, radius };
+}
+
+// Reads points, planes (at their position), vectors (at the ligand end) and
+// exclusion volumes. Disabled features are skipped.
+function fromPml(text: string): unknown {
+  if (!/<pharmacophore\b/.test(text)) {
+    throw new PharmacophoreFormatError('Expected a <pharmacophore> root element');
+  }
+  const features: unknown[] = [];
+  const excludedVolumes: unknown[] = [];
+  for (const [, tag, attributeText, body] of text.matchAll(/<(point|plane|vector|volume)\b([^>]*)>([\s\S]*?)<\/\1>/g)) {
+    const attributes = xmlAttributes(attributeText);
+    if (attributes.disabled === 'true') continue;
+    if (tag === 'volume') {
+      if (attributes.type !== 'exclusion') {
+        throw new PharmacophoreFormatError(`Unsupported PML volume type '${attributes.type}'`);
+      }
+      excludedVolumes.push(pmlPosition(body, 'position', 'volume'));
+      continue;
+    }
+    const kind = kindByName(pmlNames, attributes.name);
+    if (!kind) throw new PharmacophoreFormatError(`Unsupported PML feature '${attributes.name}'`);
+    const ligandEnd = tag !== 'vector' ? 'position' : attributes.pointsToLigand === 'true' ? 'target' : 'origin';
+    const { center, radius } = pmlPosition(body, ligandEnd, tag);
+    const weight = attributes.weight === undefined ? undefined : Number(attributes.weight);
+    features.push(featureFromKind(kind, center, radius, weight));
+  }
+  return { features, excludedVolumes };
+}
+
+interface PharmerPoint {
+  name: string;
+  x: number;
+  y: number;
+  z: number;
+  radius: number;
+  enabled?: boolean;
+}
+
+function toPharmer(model: PharmacophoreModel): string {
+  const point = (name: string, [x, y, z]: Vec3, radius: number) => ({
+    name,
+    x,
+    y,
+    z,
+    radius,
+    enabled: true,
+    vector_on: 0,
+    svector: null,
+    minsize: '',
+    maxsize: '',
+    selected: false,
+  });
+  const points = [
+    ...model.features.map((feature, i) => point(pharmerNames[featureKind(feature, i)], feature.center, feature.radius)),
+    ...model.excludedVolumes.map((volume) => point('ExclusionSphere', volume.center, volume.radius)),
+  ];
+  return JSON.stringify({ points }, null, 2) + '\n';
+}
+
+// Pharmer queries have no feature weights, so imported features weigh 1 and
+// a model written to Pharmer and read back has every weight reset to 1.
+function fromPharmer(text: string): unknown {
+  let query: { points?: unknown };
+  try {
+    query = JSON.parse(text);
+  } catch {
+    throw new PharmacophoreFormatError('Pharmer query is not valid JSON');
+  }
+  if (!query || !Array.isArray(query.points)) {
+    throw new PharmacophoreFormatError('Expected a Pharmer query with a points list');
+  }
+  const features: unknown[] = [];
+  const excludedVolumes: unknown[] = [];
+  (query.points as PharmerPoint[]).forEach((point, i) => {
+    if (!point || point.enabled === false) return;
+    const center = [point.x, point.y, point.z] as Vec3;
+    if (point.name === 'ExclusionSphere') {
+      excludedVolumes.push({ center, radius: point.radius });
+      return;
+    }
+    const kind = kindByName(pharmerNames, point.name);
+    if (!kind) throw new PharmacophoreFormatError(`Unsupported Pharmer point ${i} '${point.name}'`);
+    features.push(featureFromKind(kind, center, point.radius));
+  });
+  return { features, excludedVolumes };
+}
+
+const fixed = (value: number, width: number, digits: number) => value.toFixed(digits).padStart(width);
+
+// One HETATM per feature with the residue name giving its kind, the weight
+// as occupancy and the radius as B-factor (e.g. `alter all, vdw=b` in PyMOL).
+function toPdb(model: PharmacophoreModel, name: string): string {
+  const lines = [`REMARK   1 PHARMACOPHORE ${name}`, 'REMARK   2 OCCUPANCY IS FEATURE WEIGHT, B-FACTOR IS RADIUS IN ANGSTROM'];
+  const atom = (serial: number, residue: string, [x, y, z]: Vec3, occupancy: number, radius: number) =>
+    'HETATM' +
+    String(serial).padStart(5) +
+    ' ' +
+    ` ${residue}`.padEnd(4) +
+    ' ' +
+    residue +
+    ' P' +
+    String(serial).padStart(4) +
+    '    ' +
+    fixed(x, 8, 3) +
+    fixed(y, 8, 3) +
+    fixed(z, 8, 3) +
+    fixed(occupancy, 6, 2) +
+    fixed(radius, 6, 2);
+  model.features.forEach((feature, i) => {
+    lines.push(atom(i + 1, pdbNames[featureKind(feature, i)], feature.center, feature.weight, feature.radius));
+  });
+  model.excludedVolumes.forEach((volume, i) => {
+    lines.push(atom(model.features.length + i + 1, pdbNames.Excluded, volume.center, 1, volume.radius));
+  });
+  lines.push('END');
+  return lines.join('\n') + '\n';
+}
+
+function fromPdb(text: string): unknown {
+  const features: unknown[] = [];
+  const excludedVolumes: unknown[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (!line.startsWith('HETATM') && !line.startsWith('ATOM  ')) return;
+    const residue = line.slice(17, 20).trim();
+    const center = [line.slice(30, 38), line.slice(38, 46), line.slice(46, 54)].map(Number) as Vec3;
+    const occupancy = Number(line.slice(54, 60));
+    const radius = Number(line.slice(60, 66));
+    if (center.some((v) => !Number.isFinite(v)) || !Number.isFinite(radius)) {
+      throw new PharmacophoreFormatError(`Invalid coordinates or B-factor on PDB line ${i + 1}`);
+    }
+    if (residue === pdbNames.Excluded) {
+      excludedVolumes.push({ center, radius });
+      return;
+    }
+    const kind = kindByName(pdbNames, residue);
+    if (!kind || kind === 'Excluded') {
+      throw new PharmacophoreFormatError(`Unknown pseudo-atom residue '${residue}' on PDB line ${i + 1}`);
+    }
+    features.push(featureFromKind(kind, center, radius, Number.isFinite(occupancy) ? occupancy : undefined));
+  });
+  return { features, excludedVolumes };
+}
+
+export function exportPharmacophore(model: PharmacophoreModel, format: PharmacophoreFormat, name = 'pharmacophore'): string {
+  switch (format) {
+    case 'pml':
+      return toPml(model, name);
+    case 'pharmer':
+      return toPharmer(model);
+    case 'pdb':
+      return toPdb(model, name);
+  }
+}
+
+// Parses a model file and validates the result like a JSON model.
+export function importPharmacophore(text: string, format: PharmacophoreFormat): PharmacophoreModel {
+  const readers: Record<PharmacophoreFormat, (text: string) => unknown> = { pml: fromPml, pharmer: fromPharmer, pdb: fromPdb };
+  return resolvePharmacophoreModel(readers[format](text));
+}
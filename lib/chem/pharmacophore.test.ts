@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import type { Vec3 } from './geometry';
+import {
+  buildPharmacophoreModel,
+  perceiveFeatures,
+  pharmacophoreFit,
+  PharmacophoreModelError,
+  PharmacophoreOptionsError,
+  resolvePharmacophoreModel,
+  resolvePharmacophoreParameters,
+  screenPharmacophore,
+  type Conformer,
+} from './pharmacophore';
+import { parseSmiles } from './smiles';
+
+// 3-Aminopropan-1-ol laid out along the x axis from `x`: N, C, C, C, O.
+const aminopropanol = (x = 0, y = 0): Conformer => ({
+  molecule: parseSmiles('NCCCO'),
+  coordinates: [0, 1.5, 3, 4.5, 6].map((dx): Vec3 => [x + dx, y, 0]),
+});
+
+const defaults = resolvePharmacophoreParameters();
+
+describe('resolvePharmacophoreParameters', () => {
+  it('fills defaults and keeps feature types in canonical order', () => {
+    expect(defaults).toEqual({
+      featureTypes: ['HBD', 'HBA', 'Aromatic', 'Hydrophobic', 'Charged'],
+      toleranceRadius: 1,
+      minFeatures: 3,
+      maxFeatures: 7,
+      conformerGeneration: true,
+    });
+    expect(resolvePharmacophoreParameters({ featureTypes: ['Charged', 'HBD'] }).featureTypes).toEqual(['HBD', 'Charged']);
+  });
+
+  it('rejects unknown feature types, radii out of range and minFeatures above maxFeatures', () => {
+    expect(() => resolvePharmacophoreParameters({ featureTypes: ['Halogen'] })).toThrow(PharmacophoreOptionsError);
+    expect(() => resolvePharmacophoreParameters({ toleranceRadius: 0 })).toThrow(PharmacophoreOptionsError);
+    expect(() => resolvePharmacophoreParameters({ toleranceRadius: 6 })).toThrow(PharmacophoreOptionsError);
+    expect(() => resolvePharmacophoreParameters({ minFeatures: 5, maxFeatures: 4 })).toThrow(PharmacophoreOptionsError);
+  });
+});
+
+describe('perceiveFeatures', () => {
+  it('finds donors, acceptors, the cationic amine and the hydrophobic carbon', () => {
+    const features = perceiveFeatures(aminopropanol(), defaults.featureTypes);
+    expect(features.map(({ type, atoms, charge }) => [type, atoms, charge])).toEqual([
+      ['HBD', [0], undefined],
+      ['HBD', [4], undefined],
+      ['HBA', [4], undefined],
+      ['HBA', [0], undefined],
+      ['Hydrophobic', [2], undefined],
+      ['Charged', [0], 1],
+    ]);
+    expect(features.find((feature) => feature.type === 'Hydrophobic')?.center).toEqual([3, 0, 0]);
+  });
+
+  it('perceives only the requested types', () => {
+    expect(perceiveFeatures(aminopropanol(), ['HBD']).map((feature) => feature.type)).toEqual(['HBD', 'HBD']);
+  });
+});
+
+describe('buildPharmacophoreModel', () => {
+  it('places features at the centroid of the actives and validates them', () => {
+    const { model, sensitivity, specificity } = buildPharmacophoreModel(
+      [[aminopropanol()], [aminopropanol(0.2)]],
+      [[aminopropanol(5)]],
+      defaults,
+    );
+    expect(model.features).toHaveLength(6);
+    expect(model.features.map((feature) => feature.type)).toEqual(['HBD', 'HBD', 'HBA', 'HBA', 'Hydrophobic', 'Charged']);
+    expect(model.features[0].center[0]).toBeCloseTo(0.1);
+    expect(model.features.every((feature) => feature.weight === 1 && feature.radius === 1)).toBe(true);
+    expect(model.excludedVolumes).toEqual([]);
+    expect(sensitivity).toBe(1);
+    expect(specificity).toBe(1);
+  });
+
+  it('adds excluded volumes where a fitting inactive reaches beyond the actives', () => {
+    const inactive: Conformer = {
+      molecule: parseSmiles('NCC(C)CO'),
+      coordinates: [[0, 0, 0], [1.5, 0, 0], [3, 0, 0], [3, 3, 0], [4.5, 0, 0], [6, 0, 0]],
+    };
+    const { model, specificity } = buildPharmacophoreModel([[aminopropanol()]], [[inactive]], defaults);
+    expect(model.excludedVolumes).toEqual([{ center: [3, 3, 0], radius: 1 }]);
+    expect(specificity).toBe(1);
+  });
+
+  it('requires minFeatures features shared by half of the actives', () => {
+    const parameters = resolvePharmacophoreParameters({ featureTypes: ['Hydrophobic'] });
+    expect(() => buildPharmacophoreModel([[aminopropanol()]], [], parameters)).toThrow(PharmacophoreModelError);
+    expect(() => buildPharmacophoreModel([], [], defaults)).toThrow(PharmacophoreModelError);
+  });
+});
+
+describe('pharmacophoreFit', () => {
+  const { model } = buildPharmacophoreModel([[aminopropanol()]], [], defaults);
+
+  it('scores the weighted overlap 1 - (d / r)^2 of matched features', () => {
+    expect(pharmacophoreFit(aminopropanol(), model, 3)?.fitScore).toBe(1);
+    const shifted = pharmacophoreFit(aminopropanol(0.5), model, 3);
+    expect(shifted?.fitScore).toBeCloseTo(0.75);
+    expect(shifted?.matches.map((match) => match.modelFeature)).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it('does not fit outside the tolerance spheres', () => {
+    expect(pharmacophoreFit(aminopropanol(0, 1.5), model, 3)).toBeNull();
+  });
+
+  it('does not fit when a heavy atom enters an excluded volume', () => {
+    const blocked = { ...model, excludedVolumes: [{ center: [3, 0.5, 0] as Vec3, radius: 1 }] };
+    expect(pharmacophoreFit(aminopropanol(), blocked, 3)).toBeNull();
+  });
+});
+
+describe('screenPharmacophore', () => {
+  it('returns fitting compounds best first with their best conformer', () => {
+    const { model } = buildPharmacophoreModel([[aminopropanol()]], [], defaults);
+    const hits = screenPharmacophore(
+      model,
+      [
+        { index: 0, name: 'far', conformers: [aminopropanol(10)] },
+        { index: 1, name: 'shifted', conformers: [aminopropanol(0.5)] },
+        { index: 2, name: 'second', conformers: [aminopropanol(10), aminopropanol()] },
+      ],
+      defaults,
+    );
+    expect(hits.map((hit) => [hit.name, hit.conformer])).toEqual([
+      ['second', 1],
+      ['shifted', 0],
+    ]);
+    const firstOnly = resolvePharmacophoreParameters({ conformerGeneration: false });
+    expect(screenPharmacophore(model, [{ index: 2, name: 'second', conformers: [aminopropanol(10), aminopropanol()] }], firstOnly)).toEqual([]);
+  });
+});
+
+describe('resolvePharmacophoreModel', () => {
+  it('defaults weights to 1 and validates features and excluded volumes', () => {
+    expect(resolvePharmacophoreModel({ features: [{ type: 'HBD', center: [0, 0, 0], radius: 1 }] })).toEqual({
+      features: [{ type: 'HBD', center: [0, 0, 0], radius: 1, weight: 1 }],
+      excludedVolumes: [],
+    });
+    expect(() => resolvePharmacophoreModel({ features: [] })).toThrow(PharmacophoreOptionsError);
+    expect(() => resolvePharmacophoreModel({ features: [{ type: 'HBD', center: [0, 0], radius: 1 }] })).toThrow(
+      PharmacophoreOptionsError,
+    );
+    expect(() =>
+      resolvePharmacophoreModel({ features: [{ type: 'HBD', center: [0, 0, 0], radius: 1, charge: 1 }] }),
+    ).toThrow(PharmacophoreOptionsError);
+    expect(() =>
+      resolvePharmacophoreModel({
+        features: [{ type: 'HBD', center: [0, 0, 0], radius: 1 }],
+        excludedVolumes: [{ center: [0, 0, 0], radius: 10 }],
+      }),
+    ).toThrow(PharmacophoreOptionsError);
+  });
+});
@@ -0,0 +1,469 @@
+import { centroid, distance, type Vec3 } from './geometry';
+import { neighbors, type Molecule } from './molecule';
+import { ringInfo } from './rings';
+import { findMatches, parseSmarts, type SmartsQuery } from './smarts';
+
+export const pharmacophoreFeatureTypes = ['HBD', 'HBA', 'Aromatic', 'Hydrophobic', 'Charged'] as const;
+
+export type PharmacophoreFeatureType = (typeof pharmacophoreFeatureTypes)[number];
+
+export class PharmacophoreOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PharmacophoreOptionsError';
+  }
+}
+
+// Thrown when the actives do not share enough features for a model.
+export class PharmacophoreModelError extends Error {}
+
+// Mirrors the `parameters` block returned for pharmacophore.
+export interface PharmacophoreParameters {
+  featureTypes?: string[];
+  toleranceRadius?: number;
+  minFeatures?: number;
+  maxFeatures?: number;
+  conformerGeneration?: boolean;
+}
+
+export interface ResolvedPharmacophoreParameters {
+  featureTypes: PharmacophoreFeatureType[];
+  toleranceRadius: number;
+  minFeatures: number;
+  maxFeatures: number;
+  // Conformers are not generated here: when true every supplied conformer
+  // of a compound is used, otherwise only its first.
+  conformerGeneration: boolean;
+}
+
+export const MAX_MODEL_FEATURES = 20;
+export const MAX_TOLERANCE_RADIUS = 5;
+
+// A 3D structure: the molecule and a position for each of its atoms.
+export interface Conformer {
+  molecule: Molecule;
+  coordinates: Vec3[];
+}
+
+// Charged features carry their sign and only match features of that sign.
+export interface PharmacophoreFeature {
+  type: PharmacophoreFeatureType;
+  center: Vec3;
+  atoms: number[];
+  charge?: 1 | -1;
+}
+
+export interface ModelFeature {
+  type: PharmacophoreFeatureType;
+  center: Vec3;
+  radius: number;
+  // Share of actives with a feature in this sphere.
+  weight: number;
+  charge?: 1 | -1;
+}
+
+export interface ExcludedVolume {
+  center: Vec3;
+  radius: number;
+}
+
+export interface PharmacophoreModel {
+  features: ModelFeature[];
+  excludedVolumes: ExcludedVolume[];
+}
+
+// A model feature paired with the conformer feature that satisfies it.
+export interface FeatureMatch {
+  modelFeature: number;
+  type: PharmacophoreFeatureType;
+  atoms: number[];
+  center: Vec3;
+  distance: number;
+}
+
+export interface PharmacophoreFit {
+  fitScore: number;
+  matches: FeatureMatch[];
+}
+
+export interface PharmacophoreModelResult {
+  model: PharmacophoreModel;
+  // Share of actives with a conformer that fits the final model, and of
+  // inactives without one.
+  sensitivity: number;
+  specificity: number;
+}
+
+export interface PharmacophoreHit {
+  index: number;
+  name: string;
+  conformer: number;
+  fitScore: number;
+  matches: FeatureMatch[];
+}
+
+// Features present in at least this share of the actives are common.
+const COMMON_FEATURE_FREQUENCY = 0.5;
+
+// SMARTS per feature type. Charged groups are split by sign; neutral amines,
+// amidines and acids count as ionizable at physiological pH.
+const featureSmarts: Record<'HBD' | 'HBA', string[]> = {
+  HBD: ['[N,n;!H0;+0,+1]', '[O;H1;+0]', '[S;H1;+0]'],
+  HBA: [
+    '[#8;!$([#8]~[#7+]~[#8])]',
+    '[n;+0;H0;X2]',
+    '[N;+0;X1]',
+    '[N;+0;X2]=[#6]',
+    '[N;+0;X3;!$(N-a);!$(N-[#6,#15,#16]=[#7,#8,#16]);!$(N-[#7,#8])]',
+  ],
+};
+
+const chargedSmarts: Record<1 | -1, string[]> = {
+  1: [
+    '[+;!$(*~[-])]',
+    '[N;+0;X3;!$(N-a);!$(N-[#6,#15,#16]=[#7,#8,#16]);!$(N-[#7,#8]);!$(N-C=C)]',
+    '[N;+0;!$(N-C=O)]-[C;!a](=[N;+0;!$(N-C=O)])',
+  ],
+  [-1]: ['[-;!$(*~[+])]', 'C(=O)[OH]', '[S,P](=O)[OH]', 'c1nn[nH]n1', 'c1nnn[nH]1'],
+};
+
+let compiled: { smarts: Record<'HBD' | 'HBA', SmartsQuery[]>; charged: Record<1 | -1, SmartsQuery[]> } | null = null;
+
+function queries() {
+  if (!compiled) {
+    compiled = {
+      smarts: { HBD: featureSmarts.HBD.map(parseSmarts), HBA: featureSmarts.HBA.map(parseSmarts) },
+      charged: { 1: chargedSmarts[1].map(parseSmarts), [-1]: chargedSmarts[-1].map(parseSmarts) },
+    };
+  }
+  return compiled;
+}
+
+const inRange = (value: unknown, min: number, max: number) => typeof value === 'number' && value >= min && value <= max;
+
+const isPositiveInteger = (value: unknown, max: number) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= max;
+
+const isRadius = (value: unknown): value is number => inRange(value, 0, MAX_TOLERANCE_RADIUS) && value !== 0;
+
+export function isPharmacophoreFeatureType(type: string): type is PharmacophoreFeatureType {
+  return (pharmacophoreFeatureTypes as readonly string[]).includes(type);
+}
+
+export function resolvePharmacophoreParameters(
+  parameters: PharmacophoreParameters = {},
+): ResolvedPharmacophoreParameters {
+  const {
+    featureTypes = [...pharmacophoreFeatureTypes],
+    toleranceRadius = 1.0,
+    minFeatures = 3,
+    maxFeatures = 7,
+    conformerGeneration = true,
+  } = parameters;
+  if (!Array.isArray(featureTypes) || featureTypes.length === 0 || !featureTypes.every(isPharmacophoreFeatureType)) {
+    throw new PharmacophoreOptionsError(
+      `Invalid featureTypes. Expected a non-empty subset of: ${pharmacophoreFeatureTypes.join(', ')}`,
+    );
+  }
+  if (!isRadius(toleranceRadius)) {
+    throw new PharmacophoreOptionsError(`toleranceRadius must be greater than 0 and at most ${MAX_TOLERANCE_RADIUS} Å`);
+  }
+  if (!isPositiveInteger(minFeatures, MAX_MODEL_FEATURES) || !isPositiveInteger(maxFeatures, MAX_MODEL_FEATURES)) {
+    throw new PharmacophoreOptionsError(`minFeatures and maxFeatures must be integers between 1 and ${MAX_MODEL_FEATURES}`);
+  }
+  if (minFeatures > maxFeatures) {
+    throw new PharmacophoreOptionsError('minFeatures must not exceed maxFeatures');
+  }
+  if (typeof conformerGeneration !== 'boolean') {
+    throw new PharmacophoreOptionsError('conformerGeneration must be a boolean');
+  }
+  return {
+    featureTypes: pharmacophoreFeatureTypes.filter((type) => featureTypes.includes(type)),
+    toleranceRadius,
+    minFeatures,
+    maxFeatures,
+    conformerGeneration,
+  };
+}
+
+function isVec3(value: unknown): value is Vec3 {
+  return Array.isArray(value) && value.length === 3 && value.every((v) => typeof v === 'number' && Number.isFinite(v));
+}
+
+// Validates a model supplied by a client, e.g. one returned earlier.
+export function resolvePharmacophoreModel(model: unknown): PharmacophoreModel {
+  const { features, excludedVolumes = [] } = (model ?? {}) as Partial<Record<keyof PharmacophoreModel, unknown>>;
+  if (!Array.isArray(features) || features.length === 0 || !Array.isArray(excludedVolumes)) {
+    throw new PharmacophoreOptionsError('Expected model to have a non-empty features list and an excludedVolumes list');
+  }
+  return {
+    features: features.map((feature: Partial<ModelFeature>, i) => {
+      const { type, center, radius, weight = 1, charge } = feature ?? {};
+      if (typeof type !== 'string' || !isPharmacophoreFeatureType(type) || !isVec3(center)) {
+        throw new PharmacophoreOptionsError(`Model feature ${i} needs a type from ${pharmacophoreFeatureTypes.join(', ')} and a center [x, y, z]`);
+      }
+      if (!isRadius(radius) || !inRange(weight, 0, 1)) {
+        throw new PharmacophoreOptionsError(`Model feature ${i} needs a radius up to ${MAX_TOLERANCE_RADIUS} Å and a weight between 0 and 1`);
+      }
+      if (charge !== undefined && (type !== 'Charged' || (charge !== 1 && charge !== -1))) {
+        throw new PharmacophoreOptionsError(`Model feature ${i} may only carry a charge of 1 or -1 on a Charged feature`);
+      }
+      return { type, center, radius, weight, ...(charge !== undefined ? { charge } : {}) };
+    }),
+    excludedVolumes: excludedVolumes.map((volume: Partial<ExcludedVolume>, i) => {
+      const { center, radius } = volume ?? {};
+      if (!isVec3(center) || !isRadius(radius)) {
+        throw new PharmacophoreOptionsError(`Excluded volume ${i} needs a center [x, y, z] and a radius up to ${MAX_TOLERANCE_RADIUS} Å`);
+      }
+      return { center, radius };
+    }),
+  };
+}
+
+const heavyAtoms = (conformer: Conformer) =>
+  conformer.coordinates.filter((_, i) => conformer.molecule.atoms[i].element !== 'H');
+
+// Carbon, sulfur and halogens with no nitrogen or oxygen neighbour, outside
+// aromatic rings (those are Aromatic features) and uncharged.
+function isHydrophobicAtom(mol: Molecule, atom: number): boolean {
+  const a = mol.atoms[atom];
+  if (a.aromatic || a.charge !== 0) return false;
+  if (['Cl', 'Br', 'I'].includes(a.element)) return true;
+  if (a.element !== 'C' && a.element !== 'S') return false;
+  return neighbors(mol, atom).every((n) => !['N', 'O'].includes(mol.atoms[n].element));
+}
+
+// Connected groups of hydrophobic atoms, each one feature at its centroid.
+function hydrophobicGroups(mol: Molecule): number[][] {
+  const hydrophobic = mol.atoms.map((_, i) => isHydrophobicAtom(mol, i));
+  const seen = new Set<number>();
+  const groups: number[][] = [];
+  hydrophobic.forEach((isHydrophobic, start) => {
+    if (!isHydrophobic || seen.has(start)) return;
+    const group: number[] = [];
+    const stack = [start];
+    seen.add(start);
+    while (stack.length > 0) {
+      const atom = stack.pop()!;
+      group.push(atom);
+      for (const n of neighbors(mol, atom)) {
+        if (hydrophobic[n] && !seen.has(n)) {
+          seen.add(n);
+          stack.push(n);
+        }
+      }
+    }
+    groups.push(group.sort((a, b) => a - b));
+  });
+  return groups;
+}
+
+// Pharmacophore features of a 3D structure. Donors and acceptors sit on
+// their heteroatom, aromatic rings and hydrophobic groups at their centroid,
+// and charged groups at the centroid of the matched atoms. Overlapping
+// matches of one feature type are reported once.
+export function perceiveFeatures(
+  conformer: Conformer,
+  featureTypes: readonly PharmacophoreFeatureType[] = pharmacophoreFeatureTypes,
+): PharmacophoreFeature[] {
+  const { molecule: mol, coordinates } = conformer;
+  const { smarts, charged } = queries();
+  const features: PharmacophoreFeature[] = [];
+  const add = (type: PharmacophoreFeatureType, atoms: number[], charge?: 1 | -1) => {
+    const overlaps = features.some(
+      (f) => f.type === type && f.charge === charge && f.atoms.some((atom) => atoms.includes(atom)),
+    );
+    if (overlaps) return;
+    const center = centroid(atoms.map((atom) => coordinates[atom]));
+    features.push({ type, center, atoms, ...(charge !== undefined ? { charge } : {}) });
+  };
+
+  for (const type of featureTypes) {
+    if (type === 'HBD' || type === 'HBA') {
+      for (const query of smarts[type]) {
+        for (const match of findMatches(mol, query, { unique: true })) add(type, [match[0]]);
+      }
+    } else if (type === 'Aromatic') {
+      for (const ring of ringInfo(mol).rings) {
+        if (ring.every((atom) => mol.atoms[atom].aromatic)) add(type, [...ring].sort((a, b) => a - b));
+      }
+    } else if (type === 'Hydrophobic') {
+      for (const group of hydrophobicGroups(mol)) add(type, group);
+    } else {
+      for (const charge of [1, -1] as const) {
+        for (const query of charged[charge]) {
+          for (const match of findMatches(mol, query, { unique: true })) {
+            add(type, [...match].sort((a, b) => a - b), charge);
+          }
+        }
+      }
+    }
+  }
+  return features;
+}
+
+const sameKind = (a: { type: string; charge?: number }, b: { type: string; charge?: number }) =>
+  a.type === b.type && a.charge === b.charge;
+
+// Pairs model features with conformer features of the same kind inside the
+// tolerance sphere, closest pairs first and each feature used once. The
+// conformer fits when at least minFeatures model features (all of them for
+// smaller models) are matched and no heavy atom enters an excluded volume.
+// The fit score is the weighted overlap 1 - (d / r)^2 summed over matched
+// features, over the total weight, so unmatched features lower it.
+export function pharmacophoreFit(
+  conformer: Conformer,
+  model: PharmacophoreModel,
+  minFeatures: number,
+): PharmacophoreFit | null {
+  const types = pharmacophoreFeatureTypes.filter((type) => model.features.some((f) => f.type === type));
+  const features = perceiveFeatures(conformer, types);
+  const pairs: { modelFeature: number; feature: number; distance: number }[] = [];
+  model.features.forEach((target, modelFeature) => {
+    features.forEach((feature, i) => {
+      const d = distance(target.center, feature.center);
+      if (sameKind(target, feature) && d <= target.radius) pairs.push({ modelFeature, feature: i, distance: d });
+    });
+  });
+  pairs.sort((a, b) => a.distance - b.distance);
+
+  const usedModel = new Set<number>();
+  const usedFeature = new Set<number>();
+  const matches: FeatureMatch[] = [];
+  for (const pair of pairs) {
+    if (usedModel.has(pair.modelFeature) || usedFeature.has(pair.feature)) continue;
+    usedModel.add(pair.modelFeature);
+    usedFeature.add(pair.feature);
+    const { type, atoms, center } = features[pair.feature];
+    matches.push({ modelFeature: pair.modelFeature, type, atoms, center, distance: pair.distance });
+  }
+  if (matches.length < Math.min(minFeatures, model.features.length)) return null;
+
+  const atoms = heavyAtoms(conformer);
+  if (model.excludedVolumes.some((v) => atoms.some((atom) => distance(atom, v.center) < v.radius))) return null;
+
+  const totalWeight = model.features.reduce((sum, f) => sum + f.weight, 0);
+  const overlap = matches.reduce((sum, m) => {
+    const { radius, weight } = model.features[m.modelFeature];
+    return sum + weight * (1 - (m.distance / radius) ** 2);
+  }, 0);
+  matches.sort((a, b) => a.modelFeature - b.modelFeature);
+  return { fitScore: totalWeight > 0 ? overlap / totalWeight : 0, matches };
+}
+
+const usedConformers = (conformers: Conformer[], parameters: ResolvedPharmacophoreParameters) =>
+  parameters.conformerGeneration ? conformers : conformers.slice(0, 1);
+
+// Best-fitting conformer of a compound, or null when none fits.
+function bestFit(
+  conformers: Conformer[],
+  model: PharmacophoreModel,
+  parameters: ResolvedPharmacophoreParameters,
+): { conformer: number; fit: PharmacophoreFit } | null {
+  let best: { conformer: number; fit: PharmacophoreFit } | null = null;
+  usedConformers(conformers, parameters).forEach((conformer, i) => {
+    const fit = pharmacophoreFit(conformer, model, parameters.minFeatures);
+    if (fit && (!best || fit.fitScore > best.fit.fitScore)) best = { conformer: i, fit };
+  });
+  return best;
+}
+
+// Builds a model from aligned actives, each a list of conformers. Features
+// of the same kind within toleranceRadius of a cluster centroid are
+// clustered; clusters found in at least half of the actives are common and
+// the most frequent maxFeatures of them form the model. Inactives that still
+// fit those features add excluded volumes where their heavy atoms reach
+// beyond 2 * toleranceRadius of every active atom.
+export function buildPharmacophoreModel(
+  actives: Conformer[][],
+  inactives: Conformer[][],
+  parameters: ResolvedPharmacophoreParameters,
+): PharmacophoreModelResult {
+  const { featureTypes, toleranceRadius, minFeatures, maxFeatures } = parameters;
+  if (actives.length === 0) {
+    throw new PharmacophoreModelError('At least one active compound is required');
+  }
+
+  const clusters: { type: PharmacophoreFeatureType; charge?: 1 | -1; points: Vec3[]; center: Vec3; sources: Set<number> }[] = [];
+  actives.forEach((conformers, source) => {
+    for (const conformer of usedConformers(conformers, parameters)) {
+      for (const feature of perceiveFeatures(conformer, featureTypes)) {
+        let nearest: (typeof clusters)[number] | null = null;
+        let nearestDistance = Infinity;
+        for (const cluster of clusters) {
+          const d = distance(cluster.center, feature.center);
+          if (sameKind(cluster, feature) && d <= toleranceRadius && d < nearestDistance) {
+            nearest = cluster;
+            nearestDistance = d;
+          }
+        }
+        if (nearest) {
+          nearest.points.push(feature.center);
+          nearest.center = centroid(nearest.points);
+          nearest.sources.add(source);
+        } else {
+          clusters.push({
+            type: feature.type,
+            ...(feature.charge !== undefined ? { charge: feature.charge } : {}),
+            points: [feature.center],
+            center: feature.center,
+            sources: new Set([source]),
+          });
+        }
+      }
+    }
+  });
+
+  const common = clusters
+    .map((cluster) => ({ ...cluster, frequency: cluster.sources.size / actives.length }))
+    .filter((cluster) => cluster.frequency >= COMMON_FEATURE_FREQUENCY)
+    .sort((a, b) => b.frequency - a.frequency || b.points.length - a.points.length);
+  if (common.length < minFeatures) {
+    throw new PharmacophoreModelError(
+      `Only ${common.length} features are shared by at least half of the actives; minFeatures is ${minFeatures}`,
+    );
+  }
+  const model: PharmacophoreModel = {
+    features: common.slice(0, maxFeatures).map(({ type, charge, center, frequency }) => ({
+      type,
+      center,
+      radius: toleranceRadius,
+      weight: frequency,
+      ...(charge !== undefined ? { charge } : {}),
+    })),
+    excludedVolumes: [],
+  };
+
+  const activeAtoms = actives.flatMap((conformers) => usedConformers(conformers, parameters).flatMap(heavyAtoms));
+  for (const conformers of inactives) {
+    const fit = bestFit(conformers, model, parameters);
+    if (!fit) continue;
+    for (const atom of heavyAtoms(usedConformers(conformers, parameters)[fit.conformer])) {
+      const outside = activeAtoms.every((a) => distance(a, atom) > 2 * toleranceRadius);
+      const covered = model.excludedVolumes.some((v) => distance(v.center, atom) < v.radius);
+      if (outside && !covered) model.excludedVolumes.push({ center: atom, radius: toleranceRadius });
+    }
+  }
+
+  const sensitivity = actives.filter((conformers) => bestFit(conformers, model, parameters)).length / actives.length;
+  const specificity =
+    inactives.length > 0
+      ? inactives.filter((conformers) => !bestFit(conformers, model, parameters)).length / inactives.length
+      : 1;
+  return { model, sensitivity, specificity };
+}
+
+// Screens compounds (conformer lists) against a model and returns those with
+// a fitting conformer, best fit first.
+export function screenPharmacophore(
+  model: PharmacophoreModel,
+  compounds: { index: number; name: string; conformers: Conformer[] }[],
+  parameters: ResolvedPharmacophoreParameters,
+): PharmacophoreHit[] {
+  const hits: PharmacophoreHit[] = [];
+  for (const { index, name, conformers } of compounds) {
+    const best = bestFit(conformers, model, parameters);
+    if (best) hits.push({ index, name, conformer: best.conformer, fitScore: best.fit.fitScore, matches: best.fit.matches });
+  }
+  return hits.sort((a, b) => b.fitScore - a.fitScore || a.index - b.index);
+}
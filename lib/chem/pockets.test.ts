@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { Vec3 } from './geometry';
+import { detectPockets, PocketOptionsError, resolvePocketParameters } from './pockets';
+import type { Protein, ProteinAtom, Residue } from './protein';
+
+// A closed 12 Å box of carbon atoms 1.5 Å apart, one residue per face, with
+// a one-atom ligand at its center.
+function box(): Protein {
+  const atoms: ProteinAtom[] = [];
+  const residues: Residue[] = [];
+  const add = (position: Vec3, hetero: boolean) => {
+    residues[residues.length - 1].atoms.push(atoms.length);
+    atoms.push({ serial: atoms.length + 1, name: 'C', element: 'C', position, occupancy: 1, bFactor: 0, hetero, residue: residues.length - 1 });
+  };
+  const steps = [0, 1, 2, 3, 4, 5, 6, 7, 8].map((i) => 1.5 * i);
+  for (let axis = 0; axis < 3; axis++) {
+    for (const side of [0, 12]) {
+      residues.push({ name: 'ALA', chain: 'A', number: residues.length + 1, insertionCode: '', hetero: false, atoms: [] });
+      for (const u of steps) {
+        for (const v of steps) {
+          const position: Vec3 = [0, 0, 0];
+          position[axis] = side;
+          position[(axis + 1) % 3] = u;
+          position[(axis + 2) % 3] = v;
+          add(position, false);
+        }
+      }
+    }
+  }
+  residues.push({ name: 'LIG', chain: 'A', number: 100, insertionCode: '', hetero: true, atoms: [] });
+  add([6, 6, 6], true);
+  return { atoms, residues, chains: ['A'] };
+}
+
+// Long enough for the diagonal scans from the center to reach the corners.
+const parameters = resolvePocketParameters({ scanDistance: 12 });
+
+describe('detectPockets', () => {
+  it('finds the enclosed cavity with its lining residues and ligand', () => {
+    const pockets = detectPockets(box(), parameters);
+    expect(pockets).toHaveLength(1);
+    const [pocket] = pockets;
+    expect(pocket).toMatchObject({ rank: 1, center: [6, 6, 6], volume: 729, residues: [0, 1, 2, 3, 4, 5], ligands: [6] });
+    expect(pocket.points).toHaveLength(729);
+    expect(pocket.score).toBe(pocket.buriedness * pocket.points.length);
+    expect(pocket.buriedness).toBeGreaterThan(6);
+    expect(pocket.buriedness).toBeLessThanOrEqual(7);
+  });
+
+  it('lets HETATM groups take up grid space when includeHetero is set', () => {
+    const [pocket] = detectPockets(box(), { ...parameters, includeHetero: true });
+    expect(pocket.volume).toBeLessThan(729);
+    expect(pocket.ligands).toEqual([]);
+  });
+
+  it('drops pockets below minVolume and open space below minBuriedness', () => {
+    expect(detectPockets(box(), { ...parameters, minVolume: 1000 })).toEqual([]);
+    // Without the far face the cavity is open along x and less buried
+    const open = box();
+    open.atoms = open.atoms.map((atom) => (atom.residue === 1 ? { ...atom, position: [60, 0, 0] as Vec3 } : atom));
+    expect(detectPockets(open, { ...parameters, minBuriedness: 7 })).toEqual([]);
+  });
+
+  it('refuses grids above MAX_GRID_POINTS', () => {
+    const wide = box();
+    wide.atoms[0] = { ...wide.atoms[0], position: [-1000, -1000, -1000] };
+    expect(() => detectPockets(wide, resolvePocketParameters({ gridSpacing: 0.4 }))).toThrow(PocketOptionsError);
+  });
+});
+
+describe('resolvePocketParameters', () => {
+  it('fills defaults and rejects values out of range', () => {
+    expect(resolvePocketParameters({})).toEqual({
+      gridSpacing: 1,
+      scanDistance: 8,
+      minBuriedness: 5,
+      minVolume: 30,
+      maxPockets: 10,
+      includeHetero: false,
+    });
+    expect(() => resolvePocketParameters({ gridSpacing: 0.1 })).toThrow(PocketOptionsError);
+    expect(() => resolvePocketParameters({ minBuriedness: 8 })).toThrow(PocketOptionsError);
+    expect(() => resolvePocketParameters({ maxPockets: 2.5 })).toThrow(PocketOptionsError);
+  });
+});
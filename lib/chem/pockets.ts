@@ -0,0 +1,229 @@
+import { centroid, distance, spatialHash, type Vec3 } from './geometry';
+import { ligandResidues, type Protein } from './protein';
+
+export class PocketOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PocketOptionsError';
+  }
+}
+
+export interface PocketParameters {
+  gridSpacing?: number;
+  scanDistance?: number;
+  minBuriedness?: number;
+  minVolume?: number;
+  maxPockets?: number;
+  includeHetero?: boolean;
+}
+
+export interface ResolvedPocketParameters {
+  // Grid step in Å.
+  gridSpacing: number;
+  // How far each scan line reaches on either side of a grid point, in Å.
+  scanDistance: number;
+  // Scan directions (of 7) that must hit protein on both sides.
+  minBuriedness: number;
+  // Smallest pocket kept, in Å³.
+  minVolume: number;
+  maxPockets: number;
+  // Whether HETATM groups (ligands, ions, waters) take up grid space.
+  includeHetero: boolean;
+}
+
+export interface Pocket {
+  rank: number;
+  center: Vec3;
+  volume: number;
+  // Mean number of the 7 scan directions enclosed by protein.
+  buriedness: number;
+  // Sum of the buriedness of the pocket's grid points, used for ranking.
+  score: number;
+  points: Vec3[];
+  // Indices into protein.residues.
+  residues: number[];
+  ligands: number[];
+}
+
+export const MAX_GRID_POINTS = 8_000_000;
+
+// Heavy-atom van der Waals radii in Å; other elements use 1.8.
+const vdwRadii: Record<string, number> = { C: 1.7, N: 1.55, O: 1.52, S: 1.8, P: 1.8, F: 1.47, Cl: 1.75, Se: 1.9 };
+
+// Residues with an atom this close to a pocket point line the pocket.
+const LINING_DISTANCE = 4;
+
+// The three axes and four cube diagonals scanned by LIGSITE.
+const directions: Vec3[] = [
+  [1, 0, 0],
+  [0, 1, 0],
+  [0, 0, 1],
+  [1, 1, 1],
+  [1, 1, -1],
+  [1, -1, 1],
+  [-1, 1, 1],
+];
+
+export function resolvePocketParameters(params: PocketParameters): ResolvedPocketParameters {
+  const {
+    gridSpacing = 1,
+    scanDistance = 8,
+    minBuriedness = 5,
+    minVolume = 30,
+    maxPockets = 10,
+    includeHetero = false,
+  } = params;
+  const inRange = (value: unknown, min: number, max: number) => typeof value === 'number' && value >= min && value <= max;
+  const isInteger = (value: unknown, min: number, max: number) => inRange(value, min, max) && Number.isInteger(value);
+  if (!inRange(gridSpacing, 0.4, 3)) {
+    throw new PocketOptionsError('gridSpacing must be between 0.4 and 3 Å');
+  }
+  if (!inRange(scanDistance, 2, 30)) {
+    throw new PocketOptionsError('scanDistance must be between 2 and 30 Å');
+  }
+  if (!isInteger(minBuriedness, 1, 7)) {
+    throw new PocketOptionsError('minBuriedness must be an integer from 1 to 7');
+  }
+  if (!inRange(minVolume, 0, 100000)) {
+    throw new PocketOptionsError('minVolume must be between 0 and 100000 Å³');
+  }
+  if (!isInteger(maxPockets, 1, 100)) {
+    throw new PocketOptionsError('maxPockets must be an integer from 1 to 100');
+  }
+  if (typeof includeHetero !== 'boolean') {
+    throw new PocketOptionsError('includeHetero must be a boolean');
+  }
+  return { gridSpacing, scanDistance, minBuriedness, minVolume, maxPockets, includeHetero };
+}
+
+// LIGSITE-style cavity detection (Hendlich et al. 1997). Grid points inside
+// an atom's van der Waals sphere are protein; every other point is scanned
+// along the axes and cube diagonals, and counts as buried in a direction
+// when protein lies on both sides within scanDistance. Points buried in at
+// least minBuriedness directions are clustered by 26-connectivity into
+// pockets, ranked by summed buriedness.
+export function detectPockets(protein: Protein, params: ResolvedPocketParameters): Pocket[] {
+  const { gridSpacing: h, scanDistance, minBuriedness, minVolume, maxPockets, includeHetero } = params;
+  const atoms = protein.atoms.filter((atom) => atom.element !== 'H' && (includeHetero || !atom.hetero));
+  if (atoms.length === 0) return [];
+
+  const margin = 2 * h;
+  const min = [0, 1, 2].map((k) => atoms.reduce((m, atom) => Math.min(m, atom.position[k]), Infinity) - margin) as Vec3;
+  const max = [0, 1, 2].map((k) => atoms.reduce((m, atom) => Math.max(m, atom.position[k]), -Infinity) + margin) as Vec3;
+  const [nx, ny, nz] = [0, 1, 2].map((k) => Math.floor((max[k] - min[k]) / h) + 1);
+  if (nx * ny * nz > MAX_GRID_POINTS) {
+    throw new PocketOptionsError(
+      `The grid would have ${nx * ny * nz} points (at most ${MAX_GRID_POINTS}); increase gridSpacing`,
+    );
+  }
+  const index = (x: number, y: number, z: number) => x + nx * (y + ny * z);
+  const position = (x: number, y: number, z: number): Vec3 => [min[0] + x * h, min[1] + y * h, min[2] + z * h];
+
+  const occupied = new Uint8Array(nx * ny * nz);
+  for (const atom of atoms) {
+    const radius = vdwRadii[atom.element] ?? 1.8;
+    const [lo, hi] = [-1, 1].map((sign) =>
+      [0, 1, 2].map((k) => Math.round((atom.position[k] + sign * radius - min[k]) / h)),
+    );
+    for (let z = Math.max(lo[2], 0); z <= Math.min(hi[2], nz - 1); z++) {
+      for (let y = Math.max(lo[1], 0); y <= Math.min(hi[1], ny - 1); y++) {
+        for (let x = Math.max(lo[0], 0); x <= Math.min(hi[0], nx - 1); x++) {
+          if (distance(position(x, y, z), atom.position) <= radius) occupied[index(x, y, z)] = 1;
+        }
+      }
+    }
+  }
+
+  // Buriedness of each free grid point; 0 for protein points.
+  const buriedness = new Uint8Array(nx * ny * nz);
+  const steps = directions.map((d) => Math.max(1, Math.floor(scanDistance / (h * Math.hypot(...d)))));
+  const hits = (x: number, y: number, z: number, d: Vec3, sign: number, maxSteps: number) => {
+    let [px, py, pz] = [x, y, z];
+    for (let s = 1; s <= maxSteps; s++) {
+      px += sign * d[0];
+      py += sign * d[1];
+      pz += sign * d[2];
+      if (px < 0 || py < 0 || pz < 0 || px >= nx || py >= ny || pz >= nz) return false;
+      if (occupied[index(px, py, pz)]) return true;
+    }
+    return false;
+  };
+  for (let z = 0; z < nz; z++) {
+    for (let y = 0; y < ny; y++) {
+      for (let x = 0; x < nx; x++) {
+        const i = index(x, y, z);
+        if (occupied[i]) continue;
+        let count = 0;
+        directions.forEach((d, k) => {
+          if (hits(x, y, z, d, 1, steps[k]) && hits(x, y, z, d, -1, steps[k])) count++;
+        });
+        buriedness[i] = count;
+      }
+    }
+  }
+
+  // Connected clusters of buried points
+  const visited = new Uint8Array(nx * ny * nz);
+  const clusters: number[][] = [];
+  for (let start = 0; start < buriedness.length; start++) {
+    if (visited[start] || buriedness[start] < minBuriedness) continue;
+    const cluster: number[] = [];
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const i = stack.pop() as number;
+      cluster.push(i);
+      const x = i % nx;
+      const y = Math.floor(i / nx) % ny;
+      const z = Math.floor(i / (nx * ny));
+      for (let dz = -1; dz <= 1; dz++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const [px, py, pz] = [x + dx, y + dy, z + dz];
+            if (px < 0 || py < 0 || pz < 0 || px >= nx || py >= ny || pz >= nz) continue;
+            const j = index(px, py, pz);
+            if (!visited[j] && buriedness[j] >= minBuriedness) {
+              visited[j] = 1;
+              stack.push(j);
+            }
+          }
+        }
+      }
+    }
+    if (cluster.length * h ** 3 >= minVolume) clusters.push(cluster);
+  }
+
+  const pointOf = (i: number) => position(i % nx, Math.floor(i / nx) % ny, Math.floor(i / (nx * ny)));
+  const near = spatialHash(protein.atoms.map((atom) => atom.position), LINING_DISTANCE);
+  const ligandSet = new Set(ligandResidues(protein).map((residue) => protein.residues.indexOf(residue)));
+
+  return clusters
+    .map((cluster) => ({ cluster, score: cluster.reduce((sum, i) => sum + buriedness[i], 0) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, maxPockets)
+    .map(({ cluster, score }, rank) => {
+      const points = cluster.map(pointOf);
+      const residues = new Set<number>();
+      const ligands = new Set<number>();
+      for (const point of points) {
+        for (const atom of near(point, LINING_DISTANCE)) {
+          const residue = protein.atoms[atom].residue;
+          if (ligandSet.has(residue)) {
+            if (distance(protein.atoms[atom].position, point) <= h) ligands.add(residue);
+          } else if (!protein.atoms[atom].hetero && protein.atoms[atom].element !== 'H') {
+            residues.add(residue);
+          }
+        }
+      }
+      return {
+        rank: rank + 1,
+        center: centroid(points),
+        volume: cluster.length * h ** 3,
+        buriedness: score / cluster.length,
+        score,
+        points,
+        residues: [...residues].sort((a, b) => a - b),
+        ligands: [...ligands].sort((a, b) => a - b),
+      };
+    });
+}
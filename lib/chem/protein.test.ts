@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectStructureFormat,
+  formatPdb,
+  ligandResidues,
+  parseMmcif,
+  parsePdb,
+  parseStructure,
+  ProteinParseError,
+  residueCenter,
+  residueLabel,
+  selectAtoms,
+} from './protein';
+
+// Two residues of chain A with an alternate location, a zinc ion without an
+// element column, a water, and a second model that must be ignored.
+const pdb = `HEADER    TEST
+MODEL        1
+ATOM      1  N   GLY A   1       0.000   0.000   0.000  1.00 10.00           N
+ATOM      2  CA  GLY A   1       1.458   0.000   0.000  1.00 11.00           C
+ATOM      3  CA AALA A   2       3.000   1.000   0.000  0.60 12.00           C
+ATOM      4  CA BALA A   2       3.200   1.100   0.000  0.40 12.00           C
+ATOM      5  CB AALA A   2       4.000   2.000   0.000  0.60 13.00           C
+ATOM      6  CB BALA A   2       4.200   2.100   0.000  0.40 13.00           C
+HETATM    7 ZN    ZN B 101      10.000  10.000  10.000  1.00 20.00
+HETATM    8  O   HOH B 201      12.000  10.000  10.000  1.00 30.00           O
+ENDMDL
+MODEL        2
+ATOM      9  N   GLY A   1       9.000   9.000   9.000  1.00 10.00           N
+ENDMDL
+END
+`;
+
+const mmcif = `data_TEST
+#
+loop_
+_atom_site.group_PDB
+_atom_site.id
+_atom_site.type_symbol
+_atom_site.label_atom_id
+_atom_site.label_alt_id
+_atom_site.label_comp_id
+_atom_site.label_asym_id
+_atom_site.auth_asym_id
+_atom_site.auth_seq_id
+_atom_site.pdbx_PDB_ins_code
+_atom_site.Cartn_x
+_atom_site.Cartn_y
+_atom_site.Cartn_z
+_atom_site.occupancy
+_atom_site.B_iso_or_equiv
+_atom_site.pdbx_PDB_model_num
+ATOM   1 N  N   . GLY C A 1   ? 0.000 0.000 0.000 1.00 10.00 1
+ATOM   2 C  CA  . GLY C A 1   ? 1.458 0.000 0.000 1.00 11.00 1
+HETATM 3 C  "C1'" . LIG D B 301 A 5.000 5.000 5.000 1.00 15.00 1
+ATOM   4 N  N   . GLY C A 1   ? 9.000 9.000 9.000 1.00 10.00 2
+#
+`;
+
+describe('parsePdb', () => {
+  it('groups the first model into residues and chains and keeps the first alternate location', () => {
+    const protein = parsePdb(pdb);
+    expect(protein.chains).toEqual(['A', 'B']);
+    expect(protein.residues.map(residueLabel)).toEqual(['GLY A 1', 'ALA A 2', 'ZN B 101', 'HOH B 201']);
+    expect(protein.atoms.map((atom) => atom.serial)).toEqual([1, 2, 3, 5, 7, 8]);
+    expect(protein.atoms[2]).toEqual({
+      serial: 3,
+      name: 'CA',
+      element: 'C',
+      position: [3, 1, 0],
+      occupancy: 0.6,
+      bFactor: 12,
+      hetero: false,
+      residue: 1,
+    });
+  });
+
+  it('reads elements from the atom name when the element column is blank', () => {
+    const protein = parsePdb(pdb);
+    expect(protein.atoms[4]).toMatchObject({ name: 'ZN', element: 'Zn', hetero: true, residue: 2 });
+  });
+
+  it('lists HETATM groups other than water as ligands', () => {
+    const protein = parsePdb(pdb);
+    expect(ligandResidues(protein).map(residueLabel)).toEqual(['ZN B 101']);
+    expect(residueCenter(protein, protein.residues[0])).toEqual([0.729, 0, 0]);
+  });
+
+  it('reports bad coordinates, unknown elements and empty files by line', () => {
+    expect(() => parsePdb(pdb.replace('1.458', '1.4x8'))).toThrow(new ProteinParseError('Invalid atom coordinates', 4));
+    expect(() => parsePdb(pdb.replace('11.00           C', '11.00          QQ'))).toThrow(
+      new ProteinParseError("Unknown element 'QQ'", 4),
+    );
+    expect(() => parsePdb('HEADER    EMPTY\n')).toThrow(/No ATOM or HETATM records/);
+  });
+});
+
+describe('parseMmcif', () => {
+  it('prefers author chains and numbering, reads quoted names and stops after the first model', () => {
+    const protein = parseMmcif(mmcif);
+    expect(protein.chains).toEqual(['A', 'B']);
+    expect(protein.residues.map(residueLabel)).toEqual(['GLY A 1', 'LIG B 301A']);
+    expect(protein.atoms.map((atom) => [atom.name, atom.element, atom.hetero])).toEqual([
+      ['N', 'N', false],
+      ['CA', 'C', false],
+      ["C1'", 'C', true],
+    ]);
+  });
+
+  it('rejects rows with the wrong number of values', () => {
+    expect(() => parseMmcif(mmcif.replace(' 1.00 15.00 1', ' 15.00 1'))).toThrow(ProteinParseError);
+    expect(() => parseMmcif('data_EMPTY\n')).toThrow(/No _atom_site loop/);
+  });
+});
+
+describe('formats', () => {
+  it('detects mmCIF by its data block and defaults to PDB', () => {
+    expect(detectStructureFormat(mmcif)).toBe('mmcif');
+    expect(detectStructureFormat(pdb)).toBe('pdb');
+    expect(parseStructure(mmcif).residues).toHaveLength(2);
+  });
+
+  it('writes PDB records that read back to the same structure', () => {
+    const protein = parsePdb(pdb);
+    const written = formatPdb(protein);
+    expect(written.split('\n')[0]).toBe('ATOM      1  N   GLY A   1       0.000   0.000   0.000  1.00 10.00           N');
+    expect(parsePdb(written)).toEqual({ ...protein, atoms: protein.atoms.map((atom, i) => ({ ...atom, serial: i + 1 })) });
+  });
+});
+
+describe('selectAtoms', () => {
+  it('drops residues and chains left without atoms', () => {
+    const protein = selectAtoms(parsePdb(pdb), (atom) => !atom.hetero);
+    expect(protein.chains).toEqual(['A']);
+    expect(protein.residues.map((residue) => residue.atoms)).toEqual([
+      [0, 1],
+      [2, 3],
+    ]);
+    expect(protein.atoms.map((atom) => atom.residue)).toEqual([0, 0, 1, 1]);
+  });
+});
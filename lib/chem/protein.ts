@@ -0,0 +1,326 @@
+import { atomicNumber } from './elements';
+import { centroid, type Vec3 } from './geometry';
+
+// Thrown for structure files that cannot be read; `line` is one-based.
+export class ProteinParseError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly line: number,
+  ) {
+    super(`${reason} at line ${line}`);
+    this.name = 'ProteinParseError';
+  }
+}
+
+export const structureFormats = ['pdb', 'mmcif'] as const;
+
+export type StructureFormat = (typeof structureFormats)[number];
+
+export function isStructureFormat(format: string): format is StructureFormat {
+  return (structureFormats as readonly string[]).includes(format);
+}
+
+export interface ProteinAtom {
+  serial: number;
+  name: string;
+  element: string;
+  position: Vec3;
+  occupancy: number;
+  bFactor: number;
+  // HETATM record: ligands, waters, ions and modified residues.
+  hetero: boolean;
+  residue: number;
+}
+
+export interface Residue {
+  name: string;
+  chain: string;
+  number: number;
+  insertionCode: string;
+  hetero: boolean;
+  atoms: number[];
+}
+
+export interface Protein {
+  atoms: ProteinAtom[];
+  residues: Residue[];
+  chains: string[];
+}
+
+const waterNames = new Set(['HOH', 'WAT', 'H2O', 'DOD', 'D2O']);
+
+export const isWater = (residue: Residue) => waterNames.has(residue.name);
+
+// HETATM groups other than water, such as bound ligands, cofactors and ions.
+export function ligandResidues(protein: Protein): Residue[] {
+  return protein.residues.filter((residue) => residue.hetero && !isWater(residue));
+}
+
+export function residueCenter(protein: Protein, residue: Residue): Vec3 {
+  return centroid(residue.atoms.map((atom) => protein.atoms[atom].position));
+}
+
+export const residueLabel = (residue: Residue) =>
+  `${residue.name} ${residue.chain || '-'} ${residue.number}${residue.insertionCode}`;
+
+// Two-letter symbols arrive upper-case (FE, ZN); deuterium counts as H.
+function normalizeElement(symbol: string, line: number): string {
+  const element = symbol.length === 2 ? symbol[0] + symbol[1].toLowerCase() : symbol;
+  if (element === 'D') return 'H';
+  if (!atomicNumber(element)) {
+    throw new ProteinParseError(`Unknown element '${symbol}'`, line);
+  }
+  return element;
+}
+
+interface AtomRecord {
+  hetero: boolean;
+  serial: number;
+  name: string;
+  element: string;
+  altLoc: string;
+  residueName: string;
+  chain: string;
+  residueNumber: number;
+  insertionCode: string;
+  position: Vec3;
+  occupancy: number;
+  bFactor: number;
+}
+
+// Groups atom records into residues in file order. Only the first
+// alternate location of each atom is kept.
+function assemble(records: AtomRecord[]): Protein {
+  const atoms: ProteinAtom[] = [];
+  const residues: Residue[] = [];
+  const chains: string[] = [];
+  let current: Residue | null = null;
+  let altLocs = new Map<string, string>();
+  for (const record of records) {
+    const sameResidue =
+      current !== null &&
+      current.chain === record.chain &&
+      current.number === record.residueNumber &&
+      current.insertionCode === record.insertionCode &&
+      current.name === record.residueName;
+    if (!sameResidue) {
+      current = {
+        name: record.residueName,
+        chain: record.chain,
+        number: record.residueNumber,
+        insertionCode: record.insertionCode,
+        hetero: record.hetero,
+        atoms: [],
+      };
+      residues.push(current);
+      altLocs = new Map();
+      if (!chains.includes(record.chain)) chains.push(record.chain);
+    }
+    if (record.altLoc !== '') {
+      const first = altLocs.get(record.name);
+      if (first !== undefined && first !== record.altLoc) continue;
+      altLocs.set(record.name, record.altLoc);
+    }
+    const residue = current as Residue;
+    residue.atoms.push(atoms.length);
+    atoms.push({
+      serial: record.serial,
+      name: record.name,
+      element: record.element,
+      position: record.position,
+      occupancy: record.occupancy,
+      bFactor: record.bFactor,
+      hetero: record.hetero,
+      residue: residues.length - 1,
+    });
+  }
+  return { atoms, residues, chains };
+}
+
+const numberOr = (text: string, fallback: number) => (text.trim() === '' ? fallback : Number(text));
+
+// Fixed-column ATOM / HETATM records of the first model. Elements come from
+// columns 77-78, or from the atom name when those are blank.
+export function parsePdb(text: string): Protein {
+  const records: AtomRecord[] = [];
+  const lines = text.replace(/\r/g, '').split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const record = line.slice(0, 6);
+    if (record === 'ENDMDL') break;
+    if (record !== 'ATOM  ' && record !== 'HETATM') continue;
+    const position = [line.slice(30, 38), line.slice(38, 46), line.slice(46, 54)].map(Number) as Vec3;
+    if (line.length < 54 || position.some((value) => !Number.isFinite(value))) {
+      throw new ProteinParseError('Invalid atom coordinates', i + 1);
+    }
+    const residueNumber = Number(line.slice(22, 26));
+    if (!Number.isInteger(residueNumber)) {
+      throw new ProteinParseError('Invalid residue number', i + 1);
+    }
+    const rawName = line.slice(12, 16);
+    const symbol = line.slice(76, 78).trim() || rawName.slice(0, 2).trim().replace(/[^A-Za-z]/g, '') || rawName.trim()[0];
+    records.push({
+      hetero: record === 'HETATM',
+      serial: numberOr(line.slice(6, 11), records.length + 1),
+      name: rawName.trim(),
+      element: normalizeElement(symbol.toUpperCase(), i + 1),
+      altLoc: line[16]?.trim() ?? '',
+      residueName: line.slice(17, 20).trim(),
+      chain: line[21]?.trim() ?? '',
+      residueNumber,
+      insertionCode: line[26]?.trim() ?? '',
+      position,
+      occupancy: numberOr(line.slice(54, 60), 1),
+      bFactor: numberOr(line.slice(60, 66), 0),
+    });
+  }
+  if (records.length === 0) throw new ProteinParseError('No ATOM or HETATM records', lines.length);
+  return assemble(records);
+}
+
+// Whitespace-separated CIF values; quoted values may contain spaces.
+function cifTokens(line: string): string[] {
+  const tokens: string[] = [];
+  const pattern = /'([^']*)'(?=\s|$)|"([^"]*)"(?=\s|$)|(\S+)/g;
+  for (const match of line.matchAll(pattern)) tokens.push(match[1] ?? match[2] ?? match[3]);
+  return tokens;
+}
+
+// The _atom_site loop of an mmCIF file, first model only. Author chain and
+// residue numbering are preferred, as in the PDB format.
+export function parseMmcif(text: string): Protein {
+  const lines = text.replace(/\r/g, '').split('\n');
+  let i = lines.findIndex((line, k) => line.trim() === 'loop_' && lines[k + 1]?.trim().startsWith('_atom_site.'));
+  if (i < 0) throw new ProteinParseError('No _atom_site loop', lines.length);
+  const fields: string[] = [];
+  for (i++; i < lines.length && lines[i].trim().startsWith('_atom_site.'); i++) {
+    fields.push(lines[i].trim().slice('_atom_site.'.length));
+  }
+  const column = (...names: string[]) => {
+    for (const name of names) {
+      const index = fields.indexOf(name);
+      if (index >= 0) return index;
+    }
+    return -1;
+  };
+  const columns = {
+    group: column('group_PDB'),
+    serial: column('id'),
+    element: column('type_symbol'),
+    name: column('auth_atom_id', 'label_atom_id'),
+    altLoc: column('label_alt_id'),
+    residueName: column('auth_comp_id', 'label_comp_id'),
+    chain: column('auth_asym_id', 'label_asym_id'),
+    residueNumber: column('auth_seq_id', 'label_seq_id'),
+    insertionCode: column('pdbx_PDB_ins_code'),
+    x: column('Cartn_x'),
+    y: column('Cartn_y'),
+    z: column('Cartn_z'),
+    occupancy: column('occupancy'),
+    bFactor: column('B_iso_or_equiv'),
+    model: column('pdbx_PDB_model_num'),
+  };
+  if ([columns.element, columns.name, columns.residueName, columns.x, columns.y, columns.z].some((c) => c < 0)) {
+    throw new ProteinParseError('The _atom_site loop lacks element, atom, residue or coordinate columns', i);
+  }
+
+  const records: AtomRecord[] = [];
+  const value = (tokens: string[], index: number) => {
+    const token = index < 0 ? undefined : tokens[index];
+    return token === undefined || token === '.' || token === '?' ? '' : token;
+  };
+  let firstModel: string | null = null;
+  for (; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '') continue;
+    if (line.startsWith('#') || line === 'loop_' || line.startsWith('_') || line.startsWith('data_')) break;
+    const tokens = cifTokens(line);
+    if (tokens.length !== fields.length) {
+      throw new ProteinParseError(`Expected ${fields.length} _atom_site values, found ${tokens.length}`, i + 1);
+    }
+    const model = value(tokens, columns.model);
+    if (firstModel === null) firstModel = model;
+    if (model !== firstModel) break;
+    const position = [columns.x, columns.y, columns.z].map((c) => Number(tokens[c])) as Vec3;
+    if (position.some((v) => !Number.isFinite(v))) {
+      throw new ProteinParseError('Invalid atom coordinates', i + 1);
+    }
+    const residueNumber = Number(value(tokens, columns.residueNumber) || 0);
+    if (!Number.isInteger(residueNumber)) {
+      throw new ProteinParseError('Invalid residue number', i + 1);
+    }
+    records.push({
+      hetero: value(tokens, columns.group) === 'HETATM',
+      serial: numberOr(value(tokens, columns.serial), records.length + 1),
+      name: value(tokens, columns.name),
+      element: normalizeElement(value(tokens, columns.element).toUpperCase(), i + 1),
+      altLoc: value(tokens, columns.altLoc),
+      residueName: value(tokens, columns.residueName),
+      chain: value(tokens, columns.chain),
+      residueNumber,
+      insertionCode: value(tokens, columns.insertionCode),
+      position,
+      occupancy: numberOr(value(tokens, columns.occupancy), 1),
+      bFactor: numberOr(value(tokens, columns.bFactor), 0),
+    });
+  }
+  if (records.length === 0) throw new ProteinParseError('The _atom_site loop has no rows', i);
+  return assemble(records);
+}
+
+// A copy of the structure with only the atoms that pass `keep`; residues
+// left without atoms are dropped.
+export function selectAtoms(protein: Protein, keep: (atom: ProteinAtom) => boolean): Protein {
+  const atoms: ProteinAtom[] = [];
+  const residues: Residue[] = [];
+  for (const residue of protein.residues) {
+    const kept = residue.atoms.filter((atom) => keep(protein.atoms[atom]));
+    if (kept.length === 0) continue;
+    residues.push({ ...residue, atoms: kept.map((_, k) => atoms.length + k) });
+    for (const atom of kept) atoms.push({ ...protein.atoms[atom], residue: residues.length - 1 });
+  }
+  const chains = protein.chains.filter((chain) => residues.some((residue) => residue.chain === chain));
+  return { atoms, residues, chains };
+}
+
+const fixed = (value: number, width: number, digits: number) => value.toFixed(digits).padStart(width);
+
+// Fixed-column ATOM / HETATM records, renumbered from 1, as read by docking
+// programs and viewers.
+export function formatPdb(protein: Protein): string {
+  const lines = protein.atoms.map((atom, i) => {
+    const residue = protein.residues[atom.residue];
+    // Names of one-letter elements start in column 14
+    const name = atom.name.length < 4 && atom.element.length === 1 ? ` ${atom.name}` : atom.name;
+    return (
+      (atom.hetero ? 'HETATM' : 'ATOM  ') +
+      String((i + 1) % 100000).padStart(5) +
+      ' ' +
+      name.padEnd(4) +
+      ' ' +
+      residue.name.padStart(3) +
+      ' ' +
+      (residue.chain[0] ?? ' ') +
+      String(residue.number).padStart(4) +
+      (residue.insertionCode[0] ?? ' ') +
+      '   ' +
+      fixed(atom.position[0], 8, 3) +
+      fixed(atom.position[1], 8, 3) +
+      fixed(atom.position[2], 8, 3) +
+      fixed(atom.occupancy, 6, 2) +
+      fixed(atom.bFactor, 6, 2) +
+      '          ' +
+      atom.element.toUpperCase().padStart(2)
+    );
+  });
+  return [...lines, 'END'].join('\n') + '\n';
+}
+
+// mmCIF files are recognised by their data_ block header or _atom_site loop.
+export function detectStructureFormat(text: string): StructureFormat {
+  return /^data_/m.test(text) || /^_atom_site\./m.test(text) ? 'mmcif' : 'pdb';
+}
+
+export function parseStructure(text: string, format: StructureFormat = detectStructureFormat(text)): Protein {
+  return format === 'mmcif' ? parseMmcif(text) : parsePdb(text);
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { calculateQed, combineDesirabilities, desirability, qed } from './qed';
+import { parseSmiles } from './smiles';
+
+describe('qed', () => {
+  // Reference values from RDKit's QED module (mean weighting).
+  it('matches RDKit for common drugs', () => {
+    expect(qed(parseSmiles('CC(=O)Oc1ccccc1C(=O)O'))).toBeCloseTo(0.5501, 3);
+    expect(qed(parseSmiles('Cn1cnc2c1c(=O)n(C)c(=O)n2C'))).toBeCloseTo(0.5385, 3);
+    expect(qed(parseSmiles('CC(=O)Nc1ccc(O)cc1'))).toBeCloseTo(0.5951, 3);
+    expect(qed(parseSmiles('CC(C)Cc1ccc(cc1)C(C)C(=O)O'))).toBeCloseTo(0.8216, 3);
+  });
+
+  it('counts the reference acceptors and structural alerts', () => {
+    const { properties } = calculateQed(parseSmiles('CC(=O)Oc1ccccc1C(=O)O'));
+    expect(properties).toMatchObject({ HBA: 4, HBD: 1, ROTB: 2, AROM: 1, ALERTS: 2 });
+    expect(calculateQed(parseSmiles('Cn1cnc2c1c(=O)n(C)c(=O)n2C')).properties.HBA).toBe(3);
+  });
+
+  it('peaks the desirability functions near drug-like values', () => {
+    expect(desirability('MW', 300)).toBeGreaterThan(desirability('MW', 600));
+    expect(desirability('ALERTS', 0)).toBeGreaterThan(desirability('ALERTS', 1));
+  });
+
+  it('ignores properties with zero weight in the max weighting', () => {
+    const { desirabilities } = calculateQed(parseSmiles('CCO'));
+    const changed = { ...desirabilities, HBA: 0.01, PSA: 0.01 };
+    expect(combineDesirabilities(changed, 'max')).toBeCloseTo(combineDesirabilities(desirabilities, 'max'));
+    expect(combineDesirabilities(changed, 'unweighted')).toBeLessThan(combineDesirabilities(desirabilities, 'unweighted'));
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { assembleCompound, decomposeRGroups, hydrogenGroup, parseRGroupCore, RGroupOptionsError } from './rgroups';
+import { SmartsParseError } from './smarts';
+import { parseSmiles } from './smiles';
+
+const paraCore = parseRGroupCore('[*:1]c1ccc([*:2])cc1');
+
+const decompose = (library: string[]) => decomposeRGroups(library.map((smiles) => parseSmiles(smiles)), paraCore);
+
+describe('parseRGroupCore', () => {
+  it('finds the labels and the core atoms they hang from', () => {
+    expect(paraCore.labels).toEqual([1, 2]);
+    expect(paraCore.anchors).toEqual([0, 3]);
+  });
+
+  it('needs at least one labelled attachment point and valid SMARTS', () => {
+    expect(() => parseRGroupCore('c1ccccc1')).toThrow(RGroupOptionsError);
+    expect(() => parseRGroupCore('[*:1]c1ccc(')).toThrow(SmartsParseError);
+  });
+});
+
+describe('decomposeRGroups', () => {
+  it('keeps each substituent at the label it takes across the series', () => {
+    // Written with the hydroxy group first or last; it always lands on R2
+    const { decompositions } = decompose(['Clc1ccc(O)cc1', 'Oc1ccc(F)cc1', 'Clc1ccc(N)cc1', 'Nc1ccc(F)cc1']);
+    expect(decompositions.map((d) => d?.rgroups)).toEqual([
+      ['[*:1]Cl', '[*:2]O'],
+      ['[*:1]F', '[*:2]O'],
+      ['[*:1]Cl', '[*:2]N'],
+      ['[*:1]F', '[*:2]N'],
+    ]);
+    expect(decompositions[0]?.core).toBe('[*:1]c1ccc([*:2])cc1');
+  });
+
+  it('fills empty labels with hydrogen', () => {
+    const { decompositions } = decompose(['Clc1ccc(O)cc1', 'Oc1ccccc1', 'c1ccccc1']);
+    expect(decompositions[1]?.rgroups).toEqual([hydrogenGroup(1), '[*:2]O']);
+    expect(decompositions[2]?.rgroups).toEqual(['[*:1][H]', '[*:2][H]']);
+  });
+
+  it('reports compounds without the core or with substituents off the labelled atoms', () => {
+    const { decompositions, unmatched } = decompose(['Clc1cc(O)ccc1', 'CCCC']);
+    expect(decompositions).toEqual([null, null]);
+    expect(unmatched).toEqual([
+      { index: 0, reason: 'A substituent sits on an unlabelled core atom' },
+      { index: 1, reason: 'Core not found' },
+    ]);
+  });
+});
+
+describe('assembleCompound', () => {
+  it('joins R groups onto the core and turns hydrogen groups into hydrogens', () => {
+    expect(assembleCompound('[*:1]c1ccc([*:2])cc1', ['[*:1]Br', '[*:2][H]'])).toBe('Brc1ccccc1');
+    expect(assembleCompound('[*:1]c1ccc([*:2])cc1', ['[*:1]Cl', '[*:2]O'])).toBe(
+      assembleCompound('[*:1]c1ccc([*:2])cc1', ['[*:2]O', '[*:1]Cl']),
+    );
+  });
+
+  it('rejects R groups for labels the core does not have', () => {
+    expect(() => assembleCompound('[*:1]c1ccccc1', ['[*:3]Cl'])).toThrow(RGroupOptionsError);
+  });
+});
@@ -0,0 +1,337 @@
+import { atomBonds, createAtom, otherAtom, type Molecule } from './molecule';
+import {
+  bondMatches,
+  findMatches,
+  parseSmarts,
+  type AtomPrimitive,
+  type BondPrimitive,
+  type Expression,
+  type SmartsQuery,
+} from './smarts';
+import { parseSmiles, writeSmiles } from './smiles';
+
+export class RGroupOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RGroupOptionsError';
+  }
+}
+
+// A core SMARTS split into the core proper and its labelled attachment
+// points ([*:1], [*:2], ...).
+export interface RGroupCore {
+  query: SmartsQuery;
+  // Attachment point labels, ascending.
+  labels: number[];
+  // Core query atom and bond expression for each label, aligned with labels.
+  anchors: number[];
+  bonds: Expression<BondPrimitive>[];
+}
+
+export interface RGroupDecomposition {
+  // Matched core atoms as SMILES, with an attachment point per label.
+  core: string;
+  // R group SMILES per label, aligned with RGroupCore.labels.
+  rgroups: string[];
+}
+
+export interface RGroupAnalysis {
+  // Null for compounds that could not be decomposed.
+  decompositions: (RGroupDecomposition | null)[];
+  unmatched: { index: number; reason: string }[];
+}
+
+// Core embeddings tried per compound; symmetric cores give one per
+// automorphism.
+export const MAX_CORE_MATCHES = 1000;
+
+const isAttachmentPoint = (expression: Expression<AtomPrimitive>) =>
+  expression.op === 'primitive' && expression.primitive.kind === 'any';
+
+// Hydrogen at an attachment point, written like any other R group.
+export const hydrogenGroup = (label: number) => `[*:${label}][H]`;
+
+// Throws SmartsParseError for malformed SMARTS.
+export function parseRGroupCore(smarts: string): RGroupCore {
+  const parsed = parseSmarts(smarts);
+  const labelled = parsed.atomMaps.flatMap((label, atom) => (label > 0 ? [atom] : []));
+  if (labelled.length === 0) {
+    throw new RGroupOptionsError('The core needs at least one labelled attachment point such as [*:1]');
+  }
+
+  const attachments = new Map<number, { anchor: number; bond: Expression<BondPrimitive> }>();
+  for (const atom of labelled) {
+    const label = parsed.atomMaps[atom];
+    const bonds = parsed.bonds.filter((bond) => bond.begin === atom || bond.end === atom);
+    const anchor = bonds.length === 1 ? (bonds[0].begin === atom ? bonds[0].end : bonds[0].begin) : -1;
+    if (!isAttachmentPoint(parsed.atoms[atom]) || anchor < 0 || parsed.atomMaps[anchor] > 0) {
+      throw new RGroupOptionsError(`Attachment point ${label} must be a [*:${label}] atom bonded to one core atom`);
+    }
+    if (attachments.has(label)) throw new RGroupOptionsError(`Attachment point ${label} is used twice`);
+    attachments.set(label, { anchor, bond: bonds[0].expression });
+  }
+
+  // Renumber the remaining query atoms
+  const index: number[] = [];
+  const query: SmartsQuery = { atoms: [], bonds: [], atomMaps: [] };
+  parsed.atoms.forEach((expression, atom) => {
+    index.push(parsed.atomMaps[atom] > 0 ? -1 : query.atoms.length);
+    if (parsed.atomMaps[atom] > 0) return;
+    query.atoms.push(expression);
+    query.atomMaps.push(0);
+  });
+  if (query.atoms.length === 0) throw new RGroupOptionsError('The core has no atoms besides its attachment points');
+  for (const bond of parsed.bonds) {
+    if (index[bond.begin] >= 0 && index[bond.end] >= 0) {
+      query.bonds.push({ begin: index[bond.begin], end: index[bond.end], expression: bond.expression });
+    }
+  }
+
+  const labels = [...attachments.keys()].sort((a, b) => a - b);
+  return {
+    query,
+    labels,
+    anchors: labels.map((label) => index[attachments.get(label)!.anchor]),
+    bonds: labels.map((label) => attachments.get(label)!.bond),
+  };
+}
+
+// Copy of an atom without isotope, stereo or atom class, so R groups of
+// stereoisomers and labelled compounds compare equal.
+const plainAtom = (atom: Molecule['atoms'][number]) => ({
+  ...atom,
+  isotope: null,
+  chirality: null,
+  stereoNeighbors: null,
+  atomClass: null,
+});
+
+const attachmentPoint = (label: number) => createAtom('*', { bracket: true, atomClass: label });
+
+// Canonical SMILES of the given atoms plus attachment points bonded to
+// them, each { atom, label, order }.
+function partSmiles(
+  mol: Molecule,
+  atoms: number[],
+  points: { atom: number; label: number; order: Molecule['bonds'][number]['order'] }[],
+  hydrogens: Map<number, number> = new Map()
+): string {
+  const index = new Map(atoms.map((atom, k) => [atom, k]));
+  const part: Molecule = {
+    atoms: atoms.map((atom) => ({ ...plainAtom(mol.atoms[atom]), hydrogens: hydrogens.get(atom) ?? mol.atoms[atom].hydrogens })),
+    bonds: [],
+  };
+  for (const bond of mol.bonds) {
+    const [begin, end] = [index.get(bond.begin), index.get(bond.end)];
+    if (begin !== undefined && end !== undefined) part.bonds.push({ begin, end, order: bond.order, stereo: null });
+  }
+  for (const { atom, label, order } of points) {
+    part.atoms.push(attachmentPoint(label));
+    part.bonds.push({ begin: index.get(atom)!, end: part.atoms.length - 1, order, stereo: null });
+  }
+  return writeSmiles(part, { isomeric: false });
+}
+
+// Non-core atoms grouped into connected substituents, each with the bonds
+// that tie it to the core.
+function substituents(mol: Molecule, inCore: boolean[]): { atoms: number[]; links: number[] }[] {
+  const seen = new Array<boolean>(mol.atoms.length).fill(false);
+  const result: { atoms: number[]; links: number[] }[] = [];
+  mol.atoms.forEach((_, start) => {
+    if (inCore[start] || seen[start]) return;
+    seen[start] = true;
+    const atoms = [start];
+    const links: number[] = [];
+    for (let k = 0; k < atoms.length; k++) {
+      for (const b of atomBonds(mol)[atoms[k]]) {
+        const n = otherAtom(mol.bonds[b], atoms[k]);
+        if (inCore[n]) links.push(b);
+        else if (!seen[n]) {
+          seen[n] = true;
+          atoms.push(n);
+        }
+      }
+    }
+    result.push({ atoms, links });
+  });
+  return result;
+}
+
+// Every injective assignment of items to slots, as slot index per item.
+function assignments(items: number, slots: number): number[][] {
+  if (items === 0) return [[]];
+  const result: number[][] = [];
+  for (const rest of assignments(items - 1, slots)) {
+    for (let s = 0; s < slots; s++) {
+      if (!rest.includes(s)) result.push([...rest, s]);
+    }
+  }
+  return result;
+}
+
+// Decompositions for one embedding of the core, or the reason it fails.
+function decomposeMatch(mol: Molecule, core: RGroupCore, match: number[]): RGroupDecomposition[] | string {
+  const inCore = mol.atoms.map(() => false);
+  match.forEach((atom) => (inCore[atom] = true));
+  const parts = substituents(mol, inCore).filter((part) => part.links.length > 0);
+  if (parts.some((part) => part.links.length > 1)) return 'A substituent joins the core at more than one bond';
+
+  // Labels and substituents on each anchoring core atom
+  const slots = new Map<number, number[]>();
+  core.anchors.forEach((anchor, k) => slots.set(match[anchor], [...(slots.get(match[anchor]) ?? []), k]));
+  const attached = new Map<number, number[]>();
+  parts.forEach((part, p) => {
+    const bond = mol.bonds[part.links[0]];
+    const atom = inCore[bond.begin] ? bond.begin : bond.end;
+    attached.set(atom, [...(attached.get(atom) ?? []), p]);
+  });
+  for (const atom of attached.keys()) {
+    if (!slots.has(atom)) return 'A substituent sits on an unlabelled core atom';
+  }
+
+  // Substituents at each anchor can go to any of its labels whose bond
+  // they match; the rest of the labels there get hydrogen
+  let options: (number | null)[][] = [core.labels.map(() => null)];
+  for (const [atom, labels] of slots) {
+    const here = attached.get(atom) ?? [];
+    const fits = assignments(here.length, labels.length).filter((assignment) =>
+      assignment.every((s, i) => bondMatches(mol, parts[here[i]].links[0], core.bonds[labels[s]]))
+    );
+    if (fits.length === 0) {
+      return here.length > labels.length
+        ? 'More substituents on a core atom than attachment points'
+        : 'A substituent bond does not match its attachment point';
+    }
+    options = options.flatMap((option) =>
+      fits.map((assignment) => {
+        const next = [...option];
+        assignment.forEach((s, i) => (next[labels[s]] = here[i]));
+        return next;
+      })
+    );
+  }
+
+  return options.map((option) => {
+    const points: { atom: number; label: number; order: Molecule['bonds'][number]['order'] }[] = [];
+    const hydrogens = new Map<number, number>();
+    const rgroups = option.map((p, k) => {
+      const label = core.labels[k];
+      const anchor = match[core.anchors[k]];
+      if (p === null) {
+        // The attachment point takes the place of a hydrogen
+        hydrogens.set(anchor, Math.max(0, (hydrogens.get(anchor) ?? mol.atoms[anchor].hydrogens) - 1));
+        points.push({ atom: anchor, label, order: 1 });
+        return hydrogenGroup(label);
+      }
+      const link = mol.bonds[parts[p].links[0]];
+      const start = inCore[link.begin] ? link.end : link.begin;
+      points.push({ atom: anchor, label, order: link.order });
+      return partSmiles(mol, parts[p].atoms, [{ atom: start, label, order: link.order }]);
+    });
+    const coreAtoms = mol.atoms.flatMap((_, atom) => (inCore[atom] ? [atom] : []));
+    return { core: partSmiles(mol, coreAtoms, points, hydrogens), rgroups };
+  });
+}
+
+// Splits each compound into the core and one R group per attachment
+// point. Hydrogen fills labels with no substituent; a compound with a
+// substituent on an unlabelled core atom, or one that bridges the core,
+// is not decomposed. Symmetric cores and cores found more than once give
+// several candidate decompositions. The candidate whose R groups are most
+// common at their labels across the series is kept, refined until the
+// choices settle.
+export function decomposeRGroups(molecules: Molecule[], core: RGroupCore): RGroupAnalysis {
+  const unmatched: { index: number; reason: string }[] = [];
+  const candidates: RGroupDecomposition[][] = molecules.map((mol, index) => {
+    const matches = findMatches(mol, core.query, { limit: MAX_CORE_MATCHES });
+    if (matches.length === 0) {
+      unmatched.push({ index, reason: 'Core not found' });
+      return [];
+    }
+    const found = new Map<string, RGroupDecomposition>();
+    let reason = '';
+    for (const match of matches) {
+      const result = decomposeMatch(mol, core, match);
+      if (typeof result === 'string') {
+        reason ||= result;
+        continue;
+      }
+      for (const decomposition of result) {
+        const key = decomposition.rgroups.join('.');
+        if (!found.has(key)) found.set(key, decomposition);
+      }
+    }
+    if (found.size === 0) unmatched.push({ index, reason });
+    // Substituents on lower labels first, so ties fall to R1 before R2
+    const isHydrogen = (d: RGroupDecomposition) => d.rgroups.map((g, k) => (g === hydrogenGroup(core.labels[k]) ? 1 : 0)).join('');
+    return [...found.values()].sort((a, b) => isHydrogen(a).localeCompare(isHydrogen(b)));
+  });
+
+  const tally = new Map<string, number>();
+  const add = (d: RGroupDecomposition, weight: number) =>
+    d.rgroups.forEach((g) => tally.set(g, (tally.get(g) ?? 0) + weight));
+  const score = (d: RGroupDecomposition) => d.rgroups.reduce((sum, g) => sum + (tally.get(g) ?? 0), 0);
+  candidates.forEach((list) => list.forEach((d) => add(d, 1 / list.length)));
+
+  // -1 while a compound still spreads its weight over every candidate
+  const chosen = candidates.map((list): number => (list.length === 1 ? 0 : -1));
+  for (let pass = 0; pass < 10; pass++) {
+    let changed = false;
+    candidates.forEach((list, i) => {
+      if (list.length < 2) return;
+      if (chosen[i] < 0) list.forEach((d) => add(d, -1 / list.length));
+      else add(list[chosen[i]], -1);
+      const best = list.reduce((top, d, k) => (score(d) > score(list[top]) ? k : top), 0);
+      add(list[best], 1);
+      if (best !== chosen[i]) changed = true;
+      chosen[i] = best;
+    });
+    if (!changed) break;
+  }
+
+  return {
+    decompositions: candidates.map((list, i) => (list.length > 0 ? list[chosen[i]] : null)),
+    unmatched: unmatched.sort((a, b) => a.index - b.index),
+  };
+}
+
+// Joins R groups onto a decomposed core at their matching attachment
+// points, giving the canonical SMILES of the compound.
+export function assembleCompound(core: string, rgroups: string[]): string {
+  const mol = parseSmiles(core);
+  const atoms = mol.atoms.map((atom) => ({ ...atom }));
+  const bonds = mol.bonds.map((bond) => ({ ...bond }));
+  const anchorOf = (part: Molecule, dummy: number) => otherAtom(part.bonds[atomBonds(part)[dummy][0]], dummy);
+
+  for (const group of rgroups) {
+    const part = parseSmiles(group);
+    const dummy = part.atoms.findIndex((atom) => atom.element === '*');
+    const label = part.atoms[dummy].atomClass;
+    const site = mol.atoms.findIndex((atom) => atom.element === '*' && atom.atomClass === label);
+    if (site < 0) throw new RGroupOptionsError(`The core has no attachment point ${label}`);
+    const anchor = anchorOf(mol, site);
+    if (group === hydrogenGroup(label!)) {
+      atoms[anchor].hydrogens++;
+      continue;
+    }
+    const offset = atoms.length;
+    const order = part.bonds[atomBonds(part)[dummy][0]].order;
+    atoms.push(...part.atoms.map((atom) => ({ ...atom })));
+    bonds.push(...part.bonds.map((bond) => ({ ...bond, begin: bond.begin + offset, end: bond.end + offset })));
+    bonds.push({ begin: anchor, end: anchorOf(part, dummy) + offset, order, stereo: null });
+  }
+
+  // Drop the attachment points and renumber
+  const index: number[] = [];
+  const product: Molecule = { atoms: [], bonds: [] };
+  atoms.forEach((atom) => {
+    index.push(atom.element === '*' ? -1 : product.atoms.length);
+    if (atom.element !== '*') product.atoms.push(atom);
+  });
+  for (const bond of bonds) {
+    if (index[bond.begin] >= 0 && index[bond.end] >= 0) {
+      product.bonds.push({ ...bond, begin: index[bond.begin], end: index[bond.end] });
+    }
+  }
+  return writeSmiles(product, { isomeric: false });
+}
@@ -0,0 +1,196 @@
+import { atomBonds, fragments, otherAtom, type Molecule } from './molecule';
+
+export interface RingInfo {
+  // Smallest set of smallest rings, atoms listed in ring order.
+  rings: number[][];
+  ringBonds: number[][];
+  // Indices into `rings` for each atom and bond.
+  atomRings: number[][];
+  bondRings: number[][];
+}
+
+const ringCache = new WeakMap<Molecule, RingInfo>();
+
+export function ringInfo(mol: Molecule): RingInfo {
+  let info = ringCache.get(mol);
+  if (!info) {
+    info = perceiveRings(mol);
+    ringCache.set(mol, info);
+  }
+  return info;
+}
+
+export function isRingAtom(mol: Molecule, atom: number): boolean {
+  return ringInfo(mol).atomRings[atom].length > 0;
+}
+
+export function isRingBond(mol: Molecule, bond: number): boolean {
+  return ringInfo(mol).bondRings[bond].length > 0;
+}
+
+// Size of the smallest SSSR ring containing the atom, or 0.
+export function smallestRingSize(mol: Molecule, atom: number): number {
+  const { rings, atomRings } = ringInfo(mol);
+  return atomRings[atom].reduce((min, r) => (min === 0 ? rings[r].length : Math.min(min, rings[r].length)), 0);
+}
+
+// Fused ring systems: groups of SSSR ring indices sharing at least one bond.
+export function ringSystems(mol: Molecule): number[][] {
+  const { ringBonds } = ringInfo(mol);
+  const systems: number[][] = [];
+  const assigned = new Array<number>(ringBonds.length).fill(-1);
+  ringBonds.forEach((bonds, r) => {
+    if (assigned[r] >= 0) return;
+    const system = [r];
+    assigned[r] = systems.length;
+    for (let i = 0; i < system.length; i++) {
+      const shared = new Set(ringBonds[system[i]]);
+      ringBonds.forEach((other, s) => {
+        if (assigned[s] < 0 && other.some((b) => shared.has(b))) {
+          assigned[s] = systems.length;
+          system.push(s);
+        }
+      });
+    }
+    systems.push(system);
+  });
+  return systems;
+}
+
+function perceiveRings(mol: Molecule): RingInfo {
+  const adjacency = atomBonds(mol);
+  const cyclomatic = mol.bonds.length - mol.atoms.length + fragments(mol).length;
+  const rings: number[][] = [];
+  const ringBonds: number[][] = [];
+
+  if (cyclomatic > 0) {
+    // Peel acyclic branches so cycle search only touches ring systems.
+    const degree = adjacency.map((bonds) => bonds.length);
+    const inCore = new Array<boolean>(mol.atoms.length).fill(true);
+    const queue = degree.flatMap((d, i) => (d <= 1 ? [i] : []));
+    while (queue.length > 0) {
+      const atom = queue.pop()!;
+      if (!inCore[atom]) continue;
+      inCore[atom] = false;
+      for (const b of adjacency[atom]) {
+        const n = otherAtom(mol.bonds[b], atom);
+        if (inCore[n] && --degree[n] <= 1) queue.push(n);
+      }
+    }
+
+    const candidates = hortonCandidates(mol, inCore);
+    const words = Math.ceil(mol.bonds.length / 32);
+    const basis: { pivot: number; vector: Uint32Array }[] = [];
+    for (const cycle of candidates) {
+      if (ringBonds.length === cyclomatic) break;
+      const vector = new Uint32Array(words);
+      for (const b of cycle) vector[b >> 5] |= 1 << (b & 31);
+      // Gaussian elimination over GF(2) keeps only independent cycles.
+      for (const row of basis) {
+        if (vector[row.pivot >> 5] & (1 << (row.pivot & 31))) {
+          for (let w = 0; w < words; w++) vector[w] ^= row.vector[w];
+        }
+      }
+      const pivot = firstSetBit(vector);
+      if (pivot < 0) continue;
+      for (const row of basis) {
+        if (row.vector[pivot >> 5] & (1 << (pivot & 31))) {
+          for (let w = 0; w < words; w++) row.vector[w] ^= vector[w];
+        }
+      }
+      basis.push({ pivot, vector });
+      ringBonds.push([...cycle].sort((a, b) => a - b));
+      rings.push(orderRing(mol, cycle));
+    }
+  }
+
+  const atomRings: number[][] = mol.atoms.map(() => []);
+  const bondRings: number[][] = mol.bonds.map(() => []);
+  rings.forEach((ring, r) => {
+    ring.forEach((atom) => atomRings[atom].push(r));
+    ringBonds[r].forEach((bond) => bondRings[bond].push(r));
+  });
+  return { rings, ringBonds, atomRings, bondRings };
+}
+
+function firstSetBit(vector: Uint32Array): number {
+  for (let w = 0; w < vector.length; w++) {
+    if (vector[w] !== 0) return w * 32 + (31 - Math.clz32(vector[w] & -vector[w]));
+  }
+  return -1;
+}
+
+// Horton's candidate cycles: for each root v and edge (x, y), the cycle
+// P(v, x) + (x, y) + P(y, v) when both shortest paths meet only at v.
+// Sorted by size, these contain a minimum cycle basis.
+function hortonCandidates(mol: Molecule, inCore: boolean[]): number[][] {
+  const adjacency = atomBonds(mol);
+  const seen = new Set<string>();
+  const candidates: number[][] = [];
+
+  for (let root = 0; root < mol.atoms.length; root++) {
+    if (!inCore[root]) continue;
+    const parentBond = new Array<number>(mol.atoms.length).fill(-1);
+    const depth = new Array<number>(mol.atoms.length).fill(-1);
+    depth[root] = 0;
+    const order = [root];
+    for (let i = 0; i < order.length; i++) {
+      const atom = order[i];
+      for (const b of adjacency[atom]) {
+        const n = otherAtom(mol.bonds[b], atom);
+        if (inCore[n] && depth[n] < 0) {
+          depth[n] = depth[atom] + 1;
+          parentBond[n] = b;
+          order.push(n);
+        }
+      }
+    }
+
+    const pathToRoot = (atom: number) => {
+      const bonds: number[] = [];
+      const atoms: number[] = [atom];
+      while (atom !== root) {
+        const b = parentBond[atom];
+        bonds.push(b);
+        atom = otherAtom(mol.bonds[b], atom);
+        atoms.push(atom);
+      }
+      return { bonds, atoms };
+    };
+
+    mol.bonds.forEach((bond, b) => {
+      const { begin: x, end: y } = bond;
+      if (!inCore[x] || !inCore[y] || depth[x] < 0 || depth[y] < 0) return;
+      if (parentBond[x] === b || parentBond[y] === b) return;
+      const px = pathToRoot(x);
+      const py = pathToRoot(y);
+      const shared = px.atoms.filter((a) => py.atoms.includes(a));
+      if (shared.length !== 1) return;
+      const cycle = [...px.bonds, b, ...py.bonds];
+      const key = [...cycle].sort((p, q) => p - q).join(',');
+      if (!seen.has(key)) {
+        seen.add(key);
+        candidates.push(cycle);
+      }
+    });
+  }
+
+  return candidates.sort((a, b) => a.length - b.length);
+}
+
+function orderRing(mol: Molecule, cycle: number[]): number[] {
+  const bonds = new Set(cycle);
+  const start = mol.bonds[cycle[0]].begin;
+  const ring = [start];
+  let previous = -1;
+  let current = start;
+  for (;;) {
+    const next = atomBonds(mol)[current].find((b) => bonds.has(b) && b !== previous)!;
+    const atom = otherAtom(mol.bonds[next], current);
+    if (atom === start) break;
+    ring.push(atom);
+    previous = next;
+    current = atom;
+  }
+  return ring;
+}
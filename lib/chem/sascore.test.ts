@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { syntheticAccessibility } from './sascore';
+import { parseSmiles } from './smiles';
+
+const score = (smiles: string) => syntheticAccessibility(parseSmiles(smiles));
+
+describe('syntheticAccessibility', () => {
+  it('counts the complexity features behind the penalty', () => {
+    expect(score('CN1CC[C@]23c4c5ccc(O)c4O[C@H]2[C@@H](O)C=C[C@H]3[C@H]1C5')).toMatchObject({
+      stereocenters: 5,
+      spiroAtoms: 1,
+      bridgeheadAtoms: 2,
+      macrocycles: 0,
+    });
+    expect(score('O=C1CCCCCCCCCCCCCCN1').macrocycles).toBe(1);
+    expect(score('OC12CC3CC(CC(C3)C1)C2').bridgeheadAtoms).toBe(4);
+    expect(score('C1CCC2(CC1)CCNCC2').spiroAtoms).toBe(1);
+  });
+
+  it('stays between 1 and 10 and ranks complex molecules as harder', () => {
+    const easy = score('CC(=O)Nc1ccc(O)cc1').score;
+    const hard = score('O=C1C[C@H]2OCC=C3CN4CC[C@@]56[C@@H]4C[C@H]3[C@H]2[C@H]6N1c1ccccc15').score;
+    expect(easy).toBeGreaterThanOrEqual(1);
+    expect(hard).toBeLessThanOrEqual(10);
+    expect(hard - easy).toBeGreaterThan(3);
+    expect(score('c1ccccc1').score).toBe(1);
+  });
+
+  it('penalizes fragments absent from the table', () => {
+    // Every environment of this strained cage is unknown, so the fragment
+    // score sits at the table's unknown contribution.
+    expect(score('N#CC1(C#N)C2(O)C3(N)C1(F)C23Cl').fragmentScore).toBeLessThan(0);
+  });
+});
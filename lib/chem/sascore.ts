@@ -0,0 +1,130 @@
+import { morganFeatureIds } from './fingerprints';
+import { atomBonds, heavyDegree, neighbors, type Molecule } from './molecule';
+import { ringInfo } from './rings';
+import { symmetryClasses } from './smiles';
+import fragmentTable from './sa-fragments.json';
+
+// Synthetic accessibility score after Ertl & Schuffenhauer (J. Cheminf.
+// 2009, 1, 8): a fragment score from how common each ECFP4 environment is,
+// minus penalties for size, stereocentres, spiro and bridged rings and
+// macrocycles, scaled from 1 (easy to make) to 10 (very difficult).
+//
+// The contributions in sa-fragments.json are log10 occurrence counts of
+// ECFP4 identifiers over the 248 molecules in sa-reference.smi, relative to
+// the count at which the most common fragments reach 80% of all
+// occurrences. scripts/build-sa-fragments.ts rebuilds the table and explains
+// the +0.6 shift and the -2 score for unseen environments that adapt the
+// method to a set this much smaller than the original PubChem sample. Run
+// it again if morganFeatureIds hashing changes.
+
+interface FragmentTable {
+  radius: number;
+  // Contribution of environments absent from the table.
+  unknown: number;
+  contributions: Record<string, number>;
+}
+
+const table = fragmentTable as FragmentTable;
+
+// Raw score range mapped onto 1..10, as in the reference implementation.
+const RAW_MIN = -4;
+const RAW_MAX = 2.5;
+
+export interface SyntheticAccessibility {
+  score: number;
+  fragmentScore: number;
+  complexityPenalty: number;
+  stereocenters: number;
+  spiroAtoms: number;
+  bridgeheadAtoms: number;
+  macrocycles: number;
+}
+
+// Tetrahedral centres that are tagged, or that could be: four connections,
+// at most one hydrogen and no two symmetry-equivalent neighbours.
+function stereocenterCount(mol: Molecule): number {
+  const classes = symmetryClasses(mol);
+  return mol.atoms.filter((atom, i) => {
+    if (atom.chirality) return true;
+    if (!['C', 'Si', 'P', 'S'].includes(atom.element) && !(atom.element === 'N' && atom.charge === 1)) return false;
+    if (atom.aromatic || atom.hydrogens > 1 || heavyDegree(mol, i) + atom.hydrogens !== 4) return false;
+    if (atomBonds(mol)[i].some((b) => mol.bonds[b].order !== 1)) return false;
+    const neighbourClasses = neighbors(mol, i).map((n) => classes[n]);
+    return new Set(neighbourClasses).size === neighbourClasses.length;
+  }).length;
+}
+
+function sharedAtoms(a: number[], b: number[]): number[] {
+  return a.filter((atom) => b.includes(atom));
+}
+
+// Atoms joining two rings that share only that atom.
+function spiroAtomCount(mol: Molecule): number {
+  const { rings } = ringInfo(mol);
+  const spiro = new Set<number>();
+  for (let i = 0; i < rings.length; i++) {
+    for (let j = i + 1; j < rings.length; j++) {
+      const shared = sharedAtoms(rings[i], rings[j]);
+      if (shared.length === 1) spiro.add(shared[0]);
+    }
+  }
+  return spiro.size;
+}
+
+// Ends of the shared path between two rings that share more than one bond.
+function bridgeheadAtomCount(mol: Molecule): number {
+  const { rings } = ringInfo(mol);
+  const bridgeheads = new Set<number>();
+  for (let i = 0; i < rings.length; i++) {
+    for (let j = i + 1; j < rings.length; j++) {
+      const shared = sharedAtoms(rings[i], rings[j]);
+      if (shared.length < 3) continue;
+      const union = new Set([...rings[i], ...rings[j]]);
+      for (const atom of shared) {
+        if (neighbors(mol, atom).some((n) => union.has(n) && !shared.includes(n))) bridgeheads.add(atom);
+      }
+    }
+  }
+  return bridgeheads.size;
+}
+
+export function syntheticAccessibility(mol: Molecule): SyntheticAccessibility {
+  const counts = new Map<number, number>();
+  for (const id of morganFeatureIds(mol, table.radius)) {
+    counts.set(id, (counts.get(id) ?? 0) + 1);
+  }
+  let occurrences = 0;
+  let fragmentScore = 0;
+  counts.forEach((count, id) => {
+    fragmentScore += (table.contributions[id] ?? table.unknown) * count;
+    occurrences += count;
+  });
+  fragmentScore = occurrences > 0 ? fragmentScore / occurrences : 0;
+
+  const atoms = mol.atoms.filter((atom) => atom.element !== 'H').length;
+  const stereocenters = stereocenterCount(mol);
+  const spiroAtoms = spiroAtomCount(mol);
+  const bridgeheadAtoms = bridgeheadAtomCount(mol);
+  const macrocycles = ringInfo(mol).rings.filter((ring) => ring.length > 8).length;
+  const complexityPenalty =
+    atoms ** 1.005 -
+    atoms +
+    Math.log10(stereocenters + 1) +
+    Math.log10(spiroAtoms + 1) +
+    Math.log10(bridgeheadAtoms + 1) +
+    (macrocycles > 0 ? Math.log10(2) : 0);
+  // Symmetric molecules have fewer distinct environments than atoms and
+  // would otherwise look harder than they are.
+  const symmetryCorrection = atoms > counts.size ? Math.log(atoms / counts.size) * 0.5 : 0;
+
+  const raw = fragmentScore - complexityPenalty + symmetryCorrection;
+  let score = 11 - ((raw - RAW_MIN + 1) / (RAW_MAX - RAW_MIN)) * 9;
+  // Smooth the top of the range
+  if (score > 8) score = 8 + Math.log(score + 1 - 9);
+  score = Math.min(10, Math.max(1, score));
+  return { score, fragmentScore, complexityPenalty, stereocenters, spiroAtoms, bridgeheadAtoms, macrocycles };
+}
+
+export function saScore(mol: Molecule): number {
+  return syntheticAccessibility(mol).score;
+}
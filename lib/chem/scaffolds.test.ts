@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeScaffolds,
+  genericScaffold,
+  murckoScaffold,
+  resolveScaffoldParameters,
+  scaffoldHop,
+  ScaffoldOptionsError,
+  scaffoldParent,
+  scaffoldSmiles,
+} from './scaffolds';
+import { parseSmiles } from './smiles';
+
+const murcko = (smiles: string) => {
+  const scaffold = murckoScaffold(parseSmiles(smiles));
+  return scaffold && scaffoldSmiles(scaffold);
+};
+
+const generic = (smiles: string) => scaffoldSmiles(genericScaffold(parseSmiles(smiles)));
+
+const parent = (smiles: string) => {
+  const result = scaffoldParent(parseSmiles(smiles));
+  return result && scaffoldSmiles(result);
+};
+
+describe('murckoScaffold', () => {
+  it('strips side chains and keeps rings and linkers', () => {
+    expect(murcko('CC(=O)Oc1ccccc1C(=O)O')).toBe('c1ccccc1');
+    expect(murcko('c1ccc(cc1)Cc1ccc(cc1)C1CC1')).toBe('C(c1ccccc1)c1ccc(cc1)C1CC1');
+  });
+
+  it('keeps carbonyls on rings and linkers', () => {
+    expect(murcko('O=C(Nc1ccccc1)c1ccncc1')).toBe('O=C(Nc1ccccc1)c1ccncc1');
+    expect(murcko('CC1CCC(=O)N1c1ccccc1')).toBe('O=C1CCCN1c1ccccc1');
+  });
+
+  it('gives a substituted pyrrole nitrogen its hydrogen back', () => {
+    expect(murcko('Cn1ccc2ccccc21')).toBe('c1ccc2[nH]ccc2c1');
+  });
+
+  it('is null for acyclic molecules', () => {
+    expect(murcko('CCCC')).toBeNull();
+  });
+});
+
+describe('genericScaffold', () => {
+  it('makes every atom carbon and every bond single', () => {
+    expect(generic('c1ccncc1')).toBe('C1CCCCC1');
+    expect(generic('O=C(Nc1ccccc1)c1ccncc1')).toBe('CC(CC1CCCCC1)C1CCCCC1');
+  });
+});
+
+describe('scaffoldParent', () => {
+  it('removes the terminal ring that leaves the fewest linker bonds', () => {
+    expect(parent('C(c1ccccc1)c1ccc(cc1)C1CC1')).toBe('C1CC1c1ccccc1');
+  });
+
+  it('removes a heterocycle after a carbocycle', () => {
+    expect(parent('O=C(Nc1ccccc1)c1ccncc1')).toBe('c1ccncc1');
+    expect(parent('c1ccc2[nH]ccc2c1')).toBe('c1cc[nH]c1');
+  });
+
+  it('is null for a single ring', () => {
+    expect(parent('c1ccccc1')).toBeNull();
+  });
+});
+
+describe('scaffoldHop', () => {
+  const benzene = { scaffold: 'c1ccccc1', generic: 'C1CCCCC1' };
+  it('tells apart identical scaffolds, heteroatom swaps and new topologies', () => {
+    expect(scaffoldHop(benzene, benzene)).toBe('none');
+    expect(scaffoldHop(benzene, { scaffold: 'c1ccncc1', generic: 'C1CCCCC1' })).toBe('heteroatom');
+    expect(scaffoldHop(benzene, { scaffold: 'C1CCCC1', generic: 'C1CCCC1' })).toBe('topology');
+  });
+});
+
+describe('analyzeScaffolds', () => {
+  const molecules = ['Cc1ccccc1', 'Oc1ccccc1', 'c1ccncc1', 'CCCC', 'c1ccc(cc1)Cc1ccccc1'].map((smiles) => parseSmiles(smiles));
+
+  it('groups compounds by Murcko and generic scaffold with activity summaries', () => {
+    const analysis = analyzeScaffolds(molecules, [5, 7, null, 4, 6], resolveScaffoldParameters({}));
+    expect(analysis.scaffolds.map(({ smiles, members }) => [smiles, members])).toEqual([
+      ['c1ccccc1', [0, 1]],
+      ['C(c1ccccc1)c1ccccc1', [4]],
+      ['c1ccncc1', [2]],
+    ]);
+    expect(analysis.scaffolds[0].activity).toEqual({ count: 2, mean: 6, std: Math.SQRT2, min: 5, max: 7 });
+    expect(analysis.scaffolds[2].activity).toBeNull();
+    expect(analysis.genericScaffolds[0]).toMatchObject({ smiles: 'C1CCCCC1', members: [0, 1, 2], scaffolds: 2 });
+    expect(analysis.acyclic).toEqual([3]);
+  });
+
+  it('counts compounds at each tree node and everything below it', () => {
+    const { tree } = analyzeScaffolds(molecules, null, resolveScaffoldParameters({}));
+    expect(tree).toEqual([
+      { smiles: 'c1ccccc1', rings: 1, parent: null, count: 2, total: 3 },
+      { smiles: 'c1ccncc1', rings: 1, parent: null, count: 1, total: 1 },
+      { smiles: 'C(c1ccccc1)c1ccccc1', rings: 2, parent: 'c1ccccc1', count: 1, total: 1 },
+    ]);
+  });
+
+  it('drops scaffolds and nodes below minCount and caps the lists at maxScaffolds', () => {
+    const analysis = analyzeScaffolds(molecules, null, resolveScaffoldParameters({ minCount: 2 }));
+    expect(analysis.scaffolds.map((group) => group.smiles)).toEqual(['c1ccccc1']);
+    expect(analysis.tree.map((node) => node.smiles)).toEqual(['c1ccccc1']);
+    expect(analyzeScaffolds(molecules, null, resolveScaffoldParameters({ maxScaffolds: 1 })).genericScaffolds).toHaveLength(1);
+  });
+});
+
+describe('resolveScaffoldParameters', () => {
+  it('rejects counts that are not positive integers', () => {
+    expect(() => resolveScaffoldParameters({ minCount: 0 })).toThrow(ScaffoldOptionsError);
+    expect(() => resolveScaffoldParameters({ maxScaffolds: 1.5 })).toThrow(ScaffoldOptionsError);
+  });
+});
@@ -0,0 +1,336 @@
+import { atomBonds, fragments, heavyDegree, otherAtom, type Molecule } from './molecule';
+import { isRingAtom, isRingBond, ringInfo } from './rings';
+import { SmilesParseError, parseSmiles, writeSmiles } from './smiles';
+
+export class ScaffoldOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScaffoldOptionsError';
+  }
+}
+
+export interface ScaffoldParameters {
+  minCount?: number;
+  maxScaffolds?: number;
+}
+
+export interface ResolvedScaffoldParameters {
+  // Scaffolds and tree nodes shared by fewer compounds are not reported.
+  minCount: number;
+  // Cap on the Murcko and generic scaffold lists, most populated first.
+  maxScaffolds: number;
+}
+
+export interface ActivitySummary {
+  // Members with a measured activity.
+  count: number;
+  mean: number;
+  // Sample standard deviation; 0 for a single measurement.
+  std: number;
+  min: number;
+  max: number;
+}
+
+export interface ScaffoldGroup {
+  smiles: string;
+  rings: number;
+  // Compound indices, in input order.
+  members: number[];
+  activity: ActivitySummary | null;
+}
+
+export interface GenericScaffoldGroup extends ScaffoldGroup {
+  // Distinct Murcko scaffolds that reduce to this generic scaffold.
+  scaffolds: number;
+}
+
+export interface ScaffoldTreeNode {
+  smiles: string;
+  rings: number;
+  // Next scaffold down the tree, one ring smaller; null at a single ring.
+  parent: string | null;
+  // Compounds whose Murcko scaffold is this node, and those anywhere below it.
+  count: number;
+  total: number;
+}
+
+export interface ScaffoldAssignment {
+  // Null for acyclic compounds.
+  scaffold: string | null;
+  generic: string | null;
+}
+
+// How a compound's scaffold relates to a query's: identical Murcko
+// scaffolds, the same generic framework with different atoms or bond
+// orders (a heterocycle replacement), or a different ring topology.
+export type ScaffoldHop = 'none' | 'heteroatom' | 'topology';
+
+export interface ScaffoldAnalysis {
+  assignments: ScaffoldAssignment[];
+  scaffolds: ScaffoldGroup[];
+  genericScaffolds: GenericScaffoldGroup[];
+  tree: ScaffoldTreeNode[];
+  acyclic: number[];
+}
+
+export function resolveScaffoldParameters(params: ScaffoldParameters): ResolvedScaffoldParameters {
+  const { minCount = 1, maxScaffolds = 100 } = params;
+  if (typeof minCount !== 'number' || !Number.isInteger(minCount) || minCount < 1) {
+    throw new ScaffoldOptionsError('minCount must be a positive integer');
+  }
+  if (typeof maxScaffolds !== 'number' || !Number.isInteger(maxScaffolds) || maxScaffolds < 1) {
+    throw new ScaffoldOptionsError('maxScaffolds must be a positive integer');
+  }
+  return { minCount, maxScaffolds };
+}
+
+export function scaffoldSmiles(scaffold: Molecule): string {
+  return writeSmiles(scaffold, { isomeric: false });
+}
+
+export function ringCount(mol: Molecule): number {
+  return ringInfo(mol).rings.length;
+}
+
+// Induced subgraph on the kept atoms. Each kept atom takes a hydrogen per
+// unit of bond order it loses, so a substituted pyrrole nitrogen comes back
+// as [nH], and the result is re-read from SMILES to normalize it. Throws
+// SmilesParseError when the remaining aromatic atoms cannot be kekulized.
+function extract(mol: Molecule, keep: boolean[]): Molecule {
+  const index: number[] = [];
+  const atoms: Molecule['atoms'] = [];
+  mol.atoms.forEach((atom, i) => {
+    index.push(keep[i] ? atoms.length : -1);
+    if (keep[i]) {
+      atoms.push({ ...atom, bracket: true, isotope: null, chirality: null, stereoNeighbors: null, atomClass: null });
+    }
+  });
+  const bonds: Molecule['bonds'] = [];
+  for (const bond of mol.bonds) {
+    const [begin, end] = [index[bond.begin], index[bond.end]];
+    if (begin >= 0 && end >= 0) {
+      bonds.push({ begin, end, order: bond.order, stereo: null });
+    } else if (begin >= 0 || end >= 0) {
+      atoms[Math.max(begin, end)].hydrogens += bond.order === 1.5 ? 1 : bond.order;
+    }
+  }
+  return parseSmiles(writeSmiles({ atoms, bonds }, { canonical: false, isomeric: false }));
+}
+
+// Bemis-Murcko framework: ring atoms and the linkers joining them, found by
+// peeling acyclic atoms with at most one remaining neighbour. Terminal atoms
+// double-bonded to the framework are kept, as RDKit does, so ring and
+// linker carbonyls stay. Null for acyclic molecules.
+export function murckoScaffold(mol: Molecule): Molecule | null {
+  const adjacency = atomBonds(mol);
+  const keep = mol.atoms.map((atom) => atom.element !== 'H');
+  const degree = adjacency.map((bonds, i) => bonds.filter((b) => keep[otherAtom(mol.bonds[b], i)]).length);
+  const queue = keep.flatMap((kept, i) => (kept && degree[i] <= 1 && !isRingAtom(mol, i) ? [i] : []));
+  while (queue.length > 0) {
+    const atom = queue.pop()!;
+    if (!keep[atom]) continue;
+    keep[atom] = false;
+    for (const b of adjacency[atom]) {
+      const n = otherAtom(mol.bonds[b], atom);
+      if (keep[n] && --degree[n] <= 1 && !isRingAtom(mol, n)) queue.push(n);
+    }
+  }
+  if (!keep.some((kept, i) => kept && isRingAtom(mol, i))) return null;
+
+  const framework = keep.slice();
+  for (const bond of mol.bonds) {
+    if (bond.order !== 2) continue;
+    for (const [inside, outside] of [[bond.begin, bond.end], [bond.end, bond.begin]]) {
+      if (framework[inside] && !framework[outside] && heavyDegree(mol, outside) === 1) keep[outside] = true;
+    }
+  }
+  return extract(mol, keep);
+}
+
+// The scaffold with every atom carbon and every bond single, comparing
+// frameworks by shape alone.
+export function genericScaffold(scaffold: Molecule): Molecule {
+  const atoms = scaffold.atoms.map((atom, i) => ({
+    ...atom,
+    element: 'C',
+    charge: 0,
+    aromatic: false,
+    bracket: false,
+    hydrogens: 4 - heavyDegree(scaffold, i),
+  }));
+  const bonds = scaffold.bonds.map((bond) => ({ ...bond, order: 1 as const }));
+  return { atoms, bonds };
+}
+
+const compareKeys = (a: (number | string)[], b: (number | string)[]) => {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] < b[i] ? -1 : 1;
+  }
+  return 0;
+};
+
+// Removes one SSSR ring: atoms only that ring holds go, and the rest is
+// re-framed so dangling linkers go with them. Null when nothing is unique
+// to the ring, the remainder splits apart, or what is left of a fused
+// aromatic system is no longer aromatic.
+function removeRing(scaffold: Molecule, ring: number): Molecule | null {
+  const { rings, atomRings } = ringInfo(scaffold);
+  const removed = new Set(rings[ring].filter((atom) => atomRings[atom].length === 1));
+  if (removed.size === 0) return null;
+  let rest: Molecule;
+  try {
+    rest = extract(scaffold, scaffold.atoms.map((_, i) => !removed.has(i)));
+  } catch (error) {
+    if (error instanceof SmilesParseError) return null;
+    throw error;
+  }
+  const parent = murckoScaffold(rest);
+  if (!parent || fragments(parent).length > fragments(scaffold).length) return null;
+  return parent;
+}
+
+// Acyclic bonds between two non-terminal atoms.
+const linkerBonds = (mol: Molecule) =>
+  mol.bonds.filter((bond, b) => !isRingBond(mol, b) && heavyDegree(mol, bond.begin) > 1 && heavyDegree(mol, bond.end) > 1)
+    .length;
+
+// One step down the scaffold tree of Schuffenhauer et al. (J. Chem. Inf.
+// Model. 2007, 47, 47-58): a terminal ring is removed, chosen by the
+// subset of their prioritization rules that needs no stereo or bridge
+// perception, in order: three-membered heterocycles first, macrocycles
+// last, fewest remaining linker bonds, rings of 3, 5 or 6 atoms, fewest
+// heteroatoms, keeping N over O over S, smaller rings, aromatic rings, and
+// finally the alphabetically first parent SMILES. Null at a single ring.
+export function scaffoldParent(scaffold: Molecule): Molecule | null {
+  const { rings } = ringInfo(scaffold);
+  if (rings.length <= 1) return null;
+  const smallest = Math.min(...rings.map((ring) => ring.length));
+  let best: { parent: Molecule; key: (number | string)[] } | null = null;
+  for (const [r, ring] of rings.entries()) {
+    const parent = removeRing(scaffold, r);
+    if (!parent) continue;
+    const elements = ring.map((atom) => scaffold.atoms[atom].element);
+    const count = (element: string) => elements.filter((e) => e === element).length;
+    const heteroatoms = elements.filter((e) => e !== 'C').length;
+    const key = [
+      ring.length === 3 && heteroatoms > 0 ? 0 : 1,
+      ring.length >= 12 && smallest < 12 ? 1 : 0,
+      linkerBonds(parent),
+      [3, 5, 6].includes(ring.length) ? 0 : 1,
+      heteroatoms,
+      count('N'),
+      count('O'),
+      count('S'),
+      ring.length,
+      ring.every((atom) => scaffold.atoms[atom].aromatic) ? 0 : 1,
+      scaffoldSmiles(parent),
+    ];
+    if (!best || compareKeys(key, best.key) < 0) best = { parent, key };
+  }
+  return best?.parent ?? null;
+}
+
+function summarize(members: number[], activities: (number | null)[] | null): ActivitySummary | null {
+  const values = activities ? members.flatMap((i) => (activities[i] === null ? [] : [activities[i] as number])) : [];
+  if (values.length === 0) return null;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance =
+    values.length > 1 ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1) : 0;
+  return { count: values.length, mean, std: Math.sqrt(variance), min: Math.min(...values), max: Math.max(...values) };
+}
+
+export function scaffoldHop(query: ScaffoldAssignment, other: ScaffoldAssignment): ScaffoldHop {
+  if (query.scaffold === other.scaffold) return 'none';
+  return query.generic === other.generic ? 'heteroatom' : 'topology';
+}
+
+// Groups molecules by Murcko and generic scaffold and builds the scaffold
+// tree over every Murcko scaffold in the set. Activities, when given, are
+// aligned with the molecules; null marks an unmeasured compound.
+export function analyzeScaffolds(
+  molecules: Molecule[],
+  activities: (number | null)[] | null,
+  params: ResolvedScaffoldParameters
+): ScaffoldAnalysis {
+  const scaffoldMols = new Map<string, Molecule>();
+  const generics = new Map<string, string>();
+  const assignments: ScaffoldAssignment[] = molecules.map((mol) => {
+    const scaffold = murckoScaffold(mol);
+    if (!scaffold) return { scaffold: null, generic: null };
+    const smiles = scaffoldSmiles(scaffold);
+    if (!scaffoldMols.has(smiles)) {
+      scaffoldMols.set(smiles, scaffold);
+      generics.set(smiles, scaffoldSmiles(genericScaffold(scaffold)));
+    }
+    return { scaffold: smiles, generic: generics.get(smiles)! };
+  });
+
+  const group = (key: (assignment: ScaffoldAssignment) => string | null) => {
+    const groups = new Map<string, number[]>();
+    assignments.forEach((assignment, i) => {
+      const smiles = key(assignment);
+      if (smiles === null) return;
+      const members = groups.get(smiles);
+      if (members) members.push(i);
+      else groups.set(smiles, [i]);
+    });
+    return groups;
+  };
+  const report = <T extends ScaffoldGroup>(groups: T[]) =>
+    groups
+      .filter((g) => g.members.length >= params.minCount)
+      .sort((a, b) => b.members.length - a.members.length || (a.smiles < b.smiles ? -1 : 1))
+      .slice(0, params.maxScaffolds);
+
+  const murckoGroups = group((assignment) => assignment.scaffold);
+  const scaffolds = report(
+    [...murckoGroups].map(([smiles, members]) => ({
+      smiles,
+      rings: ringCount(scaffoldMols.get(smiles)!),
+      members,
+      activity: summarize(members, activities),
+    }))
+  );
+  const genericScaffolds = report(
+    [...group((assignment) => assignment.generic)].map(([smiles, members]) => ({
+      smiles,
+      rings: ringCount(parseSmiles(smiles)),
+      members,
+      activity: summarize(members, activities),
+      scaffolds: new Set(members.map((i) => assignments[i].scaffold)).size,
+    }))
+  );
+
+  // Each Murcko scaffold is walked down to a single ring; scaffolds
+  // sharing a parent share its node.
+  const nodes = new Map<string, ScaffoldTreeNode>();
+  const visit = (smiles: string, mol: Molecule): ScaffoldTreeNode => {
+    let node = nodes.get(smiles);
+    if (!node) {
+      node = { smiles, rings: ringCount(mol), parent: null, count: 0, total: 0 };
+      nodes.set(smiles, node);
+      const parent = scaffoldParent(mol);
+      if (parent) {
+        node.parent = scaffoldSmiles(parent);
+        visit(node.parent, parent);
+      }
+    }
+    return node;
+  };
+  for (const [smiles, members] of murckoGroups) {
+    let node: ScaffoldTreeNode | undefined = visit(smiles, scaffoldMols.get(smiles)!);
+    node.count += members.length;
+    for (; node; node = node.parent === null ? undefined : nodes.get(node.parent)) node.total += members.length;
+  }
+  const tree = [...nodes.values()]
+    .filter((node) => node.total >= params.minCount)
+    .sort((a, b) => a.rings - b.rings || b.total - a.total || (a.smiles < b.smiles ? -1 : 1));
+
+  return {
+    assignments,
+    scaffolds,
+    genericScaffolds,
+    tree,
+    acyclic: assignments.flatMap((assignment, i) => (assignment.scaffold === null ? [i] : [])),
+  };
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { groupConformers, parseMolBlock, parseSdf, SdfParseError, splitSdf } from './sdf';
+
+// Acetate with its methyl hydrogens written out, the charge given both on
+// the atom line (code 5) and in M  CHG, and two data items.
+const acetate = `acetate
+  test
+
+  7  6  0  0  0  0  0  0  0  0999 V2000
+    0.0000    0.0000    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+    1.5000    0.0000    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+    2.1000    1.1000    0.0000 O   0  0  0  0  0  0  0  0  0  0  0  0
+    2.1000   -1.1000    0.0000 O   0  5  0  0  0  0  0  0  0  0  0  0
+   -0.4000    1.0000    0.0000 H   0  0  0  0  0  0  0  0  0  0  0  0
+   -0.4000   -0.5000    0.9000 H   0  0  0  0  0  0  0  0  0  0  0  0
+   -0.4000   -0.5000   -0.9000 H   0  0  0  0  0  0  0  0  0  0  0  0
+  1  2  1  0
+  2  3  2  0
+  2  4  1  0
+  1  5  1  0
+  1  6  1  0
+  1  7  1  0
+M  CHG  1   4  -1
+M  END
+> <ID>
+ac-1
+
+> <note>
+first line
+second line
+
+`;
+
+const benzene = `benzene
+  test
+
+  6  6  0  0  0  0  0  0  0  0999 V2000
+    1.4000    0.0000    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+    0.7000    1.2124    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+   -0.7000    1.2124    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+   -1.4000    0.0000    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+   -0.7000   -1.2124    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+    0.7000   -1.2124    0.0000 C   0  0  0  0  0  0  0  0  0  0  0  0
+  1  2  4  0
+  2  3  4  0
+  3  4  4  0
+  4  5  4  0
+  5  6  4  0
+  6  1  4  0
+M  END
+`;
+
+describe('parseMolBlock', () => {
+  it('folds explicit hydrogens into counts and keeps heavy-atom coordinates', () => {
+    const { name, molecule, coordinates } = parseMolBlock(acetate);
+    expect(name).toBe('acetate');
+    expect(molecule.atoms.map((atom) => [atom.element, atom.hydrogens, atom.charge])).toEqual([
+      ['C', 3, 0],
+      ['C', 0, 0],
+      ['O', 0, 0],
+      ['O', 0, -1],
+    ]);
+    expect(molecule.bonds.map((bond) => bond.order)).toEqual([1, 2, 1]);
+    expect(coordinates).toEqual([
+      [0, 0, 0],
+      [1.5, 0, 0],
+      [2.1, 1.1, 0],
+      [2.1, -1.1, 0],
+    ]);
+  });
+
+  it('reads multi-line data items', () => {
+    expect(parseMolBlock(acetate).properties).toEqual({ ID: 'ac-1', note: 'first line\nsecond line' });
+  });
+
+  it('perceives aromaticity from bond type 4 and fills implicit hydrogens', () => {
+    const { molecule } = parseMolBlock(benzene);
+    expect(molecule.atoms.every((atom) => atom.aromatic && atom.hydrogens === 1)).toBe(true);
+  });
+
+  it('lets M  CHG override atom-line charges', () => {
+    const block = acetate.replace('M  CHG  1   4  -1', 'M  CHG  1   3  -1');
+    const { molecule } = parseMolBlock(block.replace('  2  3  2  0', '  2  3  1  0').replace('  2  4  1  0', '  2  4  2  0'));
+    expect(molecule.atoms.map((atom) => atom.charge)).toEqual([0, 0, -1, 0]);
+  });
+
+  it('reports the line of the problem', () => {
+    const badSymbol = acetate.replace(' O   0  5', ' Xx  0  5');
+    expect(() => parseMolBlock(badSymbol)).toThrow(new SdfParseError("Unsupported atom symbol 'Xx'", 8));
+    expect(() => parseMolBlock(acetate.replace('  2  3  2  0', '  2  9  2  0'))).toThrow(
+      new SdfParseError('Bond refers to a missing atom', 13),
+    );
+    expect(() => parseMolBlock(acetate.replace('M  END', 'M  XXX'))).toThrow(/Missing M {2}END/);
+    expect(() => parseMolBlock(acetate.replace('V2000', 'V3000'))).toThrow(/V3000/);
+  });
+
+  it('rejects atoms over their allowed valence', () => {
+    expect(() => parseMolBlock(acetate.replace('  2  4  1  0', '  2  4  3  0'))).toThrow(SdfParseError);
+  });
+});
+
+describe('splitSdf and parseSdf', () => {
+  it('split records at $$$$ and skip a blank trailing record', () => {
+    const text = `${acetate}$$$$\n${benzene}$$$$\n\n`;
+    expect(splitSdf(text)).toHaveLength(2);
+    expect(parseSdf(text.replace(/\n/g, '\r\n')).map((record) => record.name)).toEqual(['acetate', 'benzene']);
+  });
+});
+
+describe('groupConformers', () => {
+  it('groups consecutive records with the same non-empty title', () => {
+    const names = ['a', 'a', 'b', 'a', '', ''];
+    expect(groupConformers(names.map((name) => ({ name }))).map((group) => group.map((r) => r.name))).toEqual([
+      ['a', 'a'],
+      ['b'],
+      ['a'],
+      [''],
+      [''],
+    ]);
+  });
+});
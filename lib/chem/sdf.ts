@@ -0,0 +1,241 @@
+import { KekulizationError, kekulize, perceiveAromaticity } from './aromaticity';
+import { allowedValences, atomicNumber, averageMass } from './elements';
+import type { Vec3 } from './geometry';
+import {
+  AROMATIC,
+  atomBonds,
+  createAtom,
+  hasValidValence,
+  otherAtom,
+  type Atom,
+  type Bond,
+  type BondOrder,
+  type Molecule,
+} from './molecule';
+import { isRingAtom, isRingBond } from './rings';
+
+// Thrown for malformed or chemically invalid MOL blocks; `line` is the
+// one-based line within the record the problem was found on.
+export class SdfParseError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly line: number,
+  ) {
+    super(`${reason} at line ${line}`);
+    this.name = 'SdfParseError';
+  }
+}
+
+// One SD record: the molecule with explicit hydrogens folded into counts,
+// coordinates for each of its atoms, the title line and the data items.
+export interface SdfRecord {
+  name: string;
+  molecule: Molecule;
+  coordinates: Vec3[];
+  properties: Record<string, string>;
+}
+
+// V2000 atom-line charge codes; 4 (doublet radical) carries no charge.
+const chargeCodes: Record<number, number> = { 0: 0, 1: 3, 2: 2, 3: 1, 4: 0, 5: -1, 6: -2, 7: -3 };
+
+const bondOrders: Record<number, BondOrder> = { 1: 1, 2: 2, 3: 3, 4: AROMATIC };
+
+function integerField(line: string, start: number, end: number, lineNumber: number, what: string): number {
+  const text = line.slice(start, end).trim();
+  const value = text === '' ? 0 : Number(text);
+  if (!Number.isInteger(value)) {
+    throw new SdfParseError(`Invalid ${what}`, lineNumber);
+  }
+  return value;
+}
+
+// Hydrogens up to the lowest allowed valence that fits, counting explicit
+// hydrogen atoms as bonds; aromatic atoms reserve one bond for the pi system.
+function fillHydrogens(mol: Molecule): void {
+  mol.atoms.forEach((atom, i) => {
+    if (atom.element === 'H') return;
+    const used =
+      atomBonds(mol)[i].reduce((sum, b) => {
+        const order = mol.bonds[b].order;
+        return sum + (order === AROMATIC ? 1 : order);
+      }, 0) + (atom.aromatic ? 1 : 0);
+    const allowed = allowedValences(atom.element, atom.charge) ?? [];
+    const target = (atom.aromatic ? allowed.slice(0, 1) : allowed).find((v) => v >= used);
+    atom.hydrogens = target === undefined ? 0 : target - used;
+    atom.bracket = true;
+  });
+}
+
+// Drops plain hydrogen atoms bonded to one heavy atom, adding them to its
+// hydrogen count, and keeps the coordinates of the remaining atoms.
+function foldHydrogens(mol: Molecule, coordinates: Vec3[]): { molecule: Molecule; coordinates: Vec3[] } {
+  const removable = mol.atoms.map((atom, i) => {
+    if (atom.element !== 'H' || atom.isotope !== null || atom.charge !== 0) return false;
+    const bonds = atomBonds(mol)[i];
+    return bonds.length === 1 && mol.bonds[bonds[0]].order === 1 && mol.atoms[otherAtom(mol.bonds[bonds[0]], i)].element !== 'H';
+  });
+  const index: number[] = [];
+  const atoms: Atom[] = [];
+  const kept: Vec3[] = [];
+  mol.atoms.forEach((atom, i) => {
+    index.push(removable[i] ? -1 : atoms.length);
+    if (!removable[i]) {
+      atoms.push(atom);
+      kept.push(coordinates[i]);
+    }
+  });
+  const bonds: Bond[] = [];
+  for (const bond of mol.bonds) {
+    if (removable[bond.begin]) mol.atoms[bond.end].hydrogens += 1;
+    else if (removable[bond.end]) mol.atoms[bond.begin].hydrogens += 1;
+    else bonds.push({ ...bond, begin: index[bond.begin], end: index[bond.end] });
+  }
+  return { molecule: { atoms, bonds }, coordinates: kept };
+}
+
+// Parses a V2000 MOL block, optionally followed by SD data items. Charges
+// and isotopes come from the atom lines unless M  CHG / M  ISO are present;
+// stereo flags are ignored since the coordinates carry the geometry.
+export function parseMolBlock(block: string): SdfRecord {
+  const lines = block.replace(/\r/g, '').split('\n');
+  const counts = lines[3];
+  if (counts === undefined) {
+    throw new SdfParseError('Missing counts line', lines.length);
+  }
+  if (counts.includes('V3000')) {
+    throw new SdfParseError('V3000 MOL blocks are not supported', 4);
+  }
+  const atomCount = integerField(counts, 0, 3, 4, 'atom count');
+  const bondCount = integerField(counts, 3, 6, 4, 'bond count');
+  if (lines.length < 4 + atomCount + bondCount) {
+    throw new SdfParseError('MOL block ends before its atom and bond blocks', lines.length);
+  }
+
+  const atoms: Atom[] = [];
+  const coordinates: Vec3[] = [];
+  for (let i = 0; i < atomCount; i++) {
+    const line = lines[4 + i];
+    const lineNumber = 5 + i;
+    const position = [line.slice(0, 10), line.slice(10, 20), line.slice(20, 30)].map(Number);
+    if (position.some((value) => !Number.isFinite(value))) {
+      throw new SdfParseError('Invalid atom coordinates', lineNumber);
+    }
+    const element = line.slice(31, 34).trim();
+    const z = atomicNumber(element);
+    if (z === undefined || z === 0) {
+      throw new SdfParseError(`Unsupported atom symbol '${element}'`, lineNumber);
+    }
+    const massDifference = integerField(line, 34, 36, lineNumber, 'mass difference');
+    const chargeCode = integerField(line, 36, 39, lineNumber, 'charge');
+    if (!(chargeCode in chargeCodes)) {
+      throw new SdfParseError('Invalid charge', lineNumber);
+    }
+    // Atom-line mass differences are relative to the rounded average mass
+    const isotope = massDifference === 0 ? null : Math.round(averageMass(z)) + massDifference;
+    atoms.push(createAtom(element, { charge: chargeCodes[chargeCode], isotope }));
+    coordinates.push(position as Vec3);
+  }
+
+  const bonds: Bond[] = [];
+  for (let i = 0; i < bondCount; i++) {
+    const line = lines[4 + atomCount + i];
+    const lineNumber = 5 + atomCount + i;
+    const begin = integerField(line, 0, 3, lineNumber, 'bond atom') - 1;
+    const end = integerField(line, 3, 6, lineNumber, 'bond atom') - 1;
+    const order = bondOrders[integerField(line, 6, 9, lineNumber, 'bond type')];
+    if (begin < 0 || end < 0 || begin >= atomCount || end >= atomCount || begin === end) {
+      throw new SdfParseError('Bond refers to a missing atom', lineNumber);
+    }
+    if (order === undefined) {
+      throw new SdfParseError('Unsupported bond type', lineNumber);
+    }
+    if (order === AROMATIC) {
+      atoms[begin].aromatic = true;
+      atoms[end].aromatic = true;
+    }
+    bonds.push({ begin, end, order, stereo: null });
+  }
+
+  let end = 4 + atomCount + bondCount;
+  let chargesReset = false;
+  for (; end < lines.length && !lines[end].startsWith('M  END'); end++) {
+    const line = lines[end];
+    const kind = line.slice(0, 6);
+    if (kind !== 'M  CHG' && kind !== 'M  ISO') continue;
+    if (kind === 'M  CHG' && !chargesReset) {
+      atoms.forEach((atom) => (atom.charge = 0));
+      chargesReset = true;
+    }
+    const fields = line.slice(6).trim().split(/\s+/).map(Number);
+    for (let k = 1; k + 1 < fields.length && k < 1 + 2 * fields[0]; k += 2) {
+      const atom = atoms[fields[k] - 1];
+      if (!atom || !Number.isInteger(fields[k + 1])) {
+        throw new SdfParseError(`Invalid ${kind} entry`, end + 1);
+      }
+      if (kind === 'M  CHG') atom.charge = fields[k + 1];
+      else atom.isotope = fields[k + 1];
+    }
+  }
+  if (end === lines.length) {
+    throw new SdfParseError('Missing M  END', lines.length);
+  }
+
+  const properties: Record<string, string> = {};
+  for (let i = end + 1; i < lines.length; i++) {
+    const header = /^>.*<([^>]+)>/.exec(lines[i]);
+    if (!header) continue;
+    const value: string[] = [];
+    for (i++; i < lines.length && lines[i].trim() !== ''; i++) value.push(lines[i]);
+    properties[header[1]] = value.join('\n');
+  }
+
+  const mol: Molecule = { atoms, bonds };
+  mol.bonds.forEach((bond, b) => {
+    if (bond.order === AROMATIC && !isRingBond(mol, b)) bond.order = 1;
+  });
+  mol.atoms.forEach((atom, i) => {
+    if (atom.aromatic && !isRingAtom(mol, i)) atom.aromatic = false;
+  });
+  fillHydrogens(mol);
+  let orders: number[];
+  try {
+    orders = kekulize(mol);
+  } catch (error) {
+    if (error instanceof KekulizationError) {
+      throw new SdfParseError('Cannot kekulize aromatic system', 5 + error.atom);
+    }
+    throw error;
+  }
+  mol.atoms.forEach((atom, i) => {
+    if (!hasValidValence(mol, i, orders)) {
+      throw new SdfParseError(`Invalid valence for ${atom.element}`, 5 + i);
+    }
+  });
+  perceiveAromaticity(mol, orders);
+
+  return { name: lines[0].trim(), ...foldHydrogens(mol, coordinates), properties };
+}
+
+// Splits an SD file into MOL blocks at the $$$$ delimiters, skipping blank
+// trailing records.
+export function splitSdf(text: string): string[] {
+  return text
+    .replace(/\r/g, '')
+    .split(/^\$\$\$\$[^\n]*$\n?/m)
+    .filter((block) => block.trim() !== '');
+}
+
+export function parseSdf(text: string): SdfRecord[] {
+  return splitSdf(text).map(parseMolBlock);
+}
+
+// Consecutive records with the same non-empty title are conformers of one
+// compound, as conformer generators write them.
+export function groupConformers<T extends { name: string }>(records: T[]): T[][] {
+  const groups: T[][] = [];
+  records.forEach((record, i) => {
+    if (i > 0 && record.name !== '' && record.name === records[i - 1].name) groups[groups.length - 1].push(record);
+    else groups.push([record]);
+  });
+  return groups;
+}
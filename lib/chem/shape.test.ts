@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { resolveFingerprintOptions } from './fingerprints';
+import type { Vec3 } from './geometry';
+import {
+  resolveShapeParameters,
+  screenShape,
+  shapeDescriptor,
+  ShapeOptionsError,
+  shapeSimilarity,
+  type ShapeConformer,
+} from './shape';
+import { parseSmiles } from './smiles';
+
+const fingerprint = resolveFingerprintOptions({});
+
+// Pentan-1-ol as an irregular zig-zag chain, so that no two atoms tie as
+// the USR reference points.
+const chain: Vec3[] = [[0, 0, 0], [1.2, 0.8, 0.1], [2.6, 0.1, -0.2], [3.7, 0.9, 0.3], [5.1, 0.2, 0], [6, 1.1, 0.4]];
+const pentanol = (transform: (point: Vec3) => Vec3 = (point) => point): ShapeConformer => ({
+  molecule: parseSmiles('CCCCCO'),
+  coordinates: chain.map(transform),
+});
+
+// Neopentane with its methyl groups on the corners of a tetrahedron.
+const neopentane: ShapeConformer = {
+  molecule: parseSmiles('CC(C)(C)C'),
+  coordinates: [[0.89, 0.89, 0.89], [0, 0, 0], [-0.89, -0.89, 0.89], [-0.89, 0.89, -0.89], [0.89, -0.89, -0.89]],
+};
+
+// A 90 degree turn about z followed by a shift.
+const moved = ([x, y, z]: Vec3): Vec3 => [-y + 3, x - 2, z + 7];
+
+describe('shapeDescriptor', () => {
+  it('has twelve USR moments and sixty USRCAT moments', () => {
+    expect(shapeDescriptor(pentanol(), 'usr')).toHaveLength(12);
+    expect(shapeDescriptor(pentanol(), 'usrcat')).toHaveLength(60);
+  });
+
+  it('does not change when the conformer is rotated and translated', () => {
+    for (const method of ['usr', 'usrcat'] as const) {
+      const a = shapeDescriptor(pentanol(), method);
+      const b = shapeDescriptor(pentanol(moved), method);
+      b.forEach((value, i) => expect(value).toBeCloseTo(a[i], 10));
+    }
+  });
+
+  it('starts with the mean distance of the heavy atoms from their centroid', () => {
+    expect(shapeDescriptor(neopentane, 'usr')[0]).toBeCloseTo((4 * Math.sqrt(3 * 0.89 ** 2)) / 5, 10);
+  });
+
+  it('leaves typed subsets without atoms at zero', () => {
+    // Neopentane has no aromatic atoms, acceptors or donors
+    expect(shapeDescriptor(neopentane, 'usrcat').slice(24)).toEqual(new Array(36).fill(0));
+  });
+});
+
+describe('shapeSimilarity', () => {
+  it('is 1 for identical descriptors and lower for different shapes', () => {
+    const chain = shapeDescriptor(pentanol(), 'usr');
+    expect(shapeSimilarity(chain, chain)).toBe(1);
+    const score = shapeSimilarity(chain, shapeDescriptor(neopentane, 'usr'));
+    expect(score).toBeGreaterThan(0);
+    expect(score).toBeLessThan(0.8);
+  });
+
+  it('weights the typed USRCAT subsets by a quarter', () => {
+    const a = new Array(60).fill(0);
+    const b = [...new Array(12).fill(0), ...new Array(48).fill(1)];
+    // Each subset differs by 1 per moment, so the score is 1 / (1 + 4 * 0.25)
+    expect(shapeSimilarity(a, b)).toBeCloseTo(0.5, 10);
+  });
+});
+
+describe('resolveShapeParameters', () => {
+  it('defaults to shape only and rejects negative or all-zero weights', () => {
+    expect(resolveShapeParameters({})).toEqual({ shapeWeight: 1, fingerprintWeight: 0 });
+    expect(() => resolveShapeParameters({ shapeWeight: -1 })).toThrow(ShapeOptionsError);
+    expect(() => resolveShapeParameters({ shapeWeight: 0, fingerprintWeight: 0 })).toThrow(ShapeOptionsError);
+  });
+});
+
+describe('screenShape', () => {
+  const library = [
+    { index: 0, name: 'neopentane', conformers: [neopentane] },
+    { index: 1, name: 'pentanol', conformers: [neopentane, pentanol(moved)] },
+  ];
+
+  it('ranks compounds by their best-matching conformer', () => {
+    const hits = screenShape([pentanol()], library, 'usrcat', resolveShapeParameters({}), fingerprint);
+    expect(hits.map((hit) => [hit.name, hit.conformer])).toEqual([
+      ['pentanol', 1],
+      ['neopentane', 0],
+    ]);
+    expect(hits[0].similarity).toBeCloseTo(1, 10);
+    expect(hits[0]).not.toHaveProperty('fingerprintSimilarity');
+  });
+
+  it('blends in the fingerprint Tanimoto by the given weights', () => {
+    const [, hit] = screenShape([pentanol()], library, 'usr', { shapeWeight: 1, fingerprintWeight: 3 }, fingerprint);
+    expect(hit.fingerprintSimilarity).toBeGreaterThanOrEqual(0);
+    expect(hit.similarity).toBeCloseTo((hit.shapeSimilarity + 3 * (hit.fingerprintSimilarity as number)) / 4, 10);
+  });
+});
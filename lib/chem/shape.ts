@@ -0,0 +1,167 @@
+import { computeFingerprint, type FingerprintOptions } from './fingerprints';
+import { centroid, distance, type Vec3 } from './geometry';
+import type { Molecule } from './molecule';
+import { fingerprintSimilarity } from './similarity';
+import { findMatches, parseSmarts, type SmartsQuery } from './smarts';
+
+// Ultrafast shape recognition (Ballester & Richards 2007) and its
+// pharmacophore-typed extension USRCAT (Schreyer & Blundell 2012).
+export const shapeMethods = ['usr', 'usrcat'] as const;
+
+export type ShapeMethod = (typeof shapeMethods)[number];
+
+export class ShapeOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShapeOptionsError';
+  }
+}
+
+export function isShapeMethod(method: string): method is ShapeMethod {
+  return (shapeMethods as readonly string[]).includes(method);
+}
+
+// Weights of the shape score and of the 2D fingerprint Tanimoto in the
+// combined similarity; only their ratio matters.
+export interface ShapeParameters {
+  shapeWeight?: number;
+  fingerprintWeight?: number;
+}
+
+export interface ResolvedShapeParameters {
+  shapeWeight: number;
+  fingerprintWeight: number;
+}
+
+export function resolveShapeParameters(params: ShapeParameters): ResolvedShapeParameters {
+  const { shapeWeight = 1, fingerprintWeight = 0 } = params;
+  const isWeight = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+  if (!isWeight(shapeWeight) || !isWeight(fingerprintWeight) || shapeWeight + fingerprintWeight === 0) {
+    throw new ShapeOptionsError('shapeWeight and fingerprintWeight must be non-negative and not both zero');
+  }
+  return { shapeWeight, fingerprintWeight };
+}
+
+export interface ShapeConformer {
+  molecule: Molecule;
+  coordinates: Vec3[];
+}
+
+export interface ShapeHit {
+  index: number;
+  name: string;
+  // Library conformer that best matches any query conformer.
+  conformer: number;
+  similarity: number;
+  shapeSimilarity: number;
+  // Only reported when fingerprintWeight is above zero.
+  fingerprintSimilarity?: number;
+}
+
+// USRCAT atom subsets, as SMARTS from the reference implementation; its
+// sp3-sulfur hydrophobe term is covered here by divalent sulfur.
+const usrcatSmarts = {
+  hydrophobic: '[#6+0!$(*~[#7,#8,F]),SH0+0v2,s+0,Cl+0,Br+0,I+0]',
+  aromatic: '[a]',
+  acceptor:
+    '[$([O,S;H1;v2]-[!$(*=[O,N,P,S])]),$([O,S;H0;v2]),$([O,S;-]),$([N;v3;!$(N-*=!@[O,N,P,S])]),$([nH0,o,s;+0]),$([F;!$(F-*~[!#6])])]',
+  donor: '[$([N;!H0;v3]),$([N;!H0;+1;v4]),$([O,S;H1;+0]),$([n;H1;+0])]',
+};
+
+// Weight of the all-atom moments and of each typed subset in USRCAT scores.
+const USRCAT_WEIGHTS = [1, 0.25, 0.25, 0.25, 0.25];
+
+let compiled: SmartsQuery[] | null = null;
+
+function subsetQueries(): SmartsQuery[] {
+  if (!compiled) compiled = Object.values(usrcatSmarts).map(parseSmarts);
+  return compiled;
+}
+
+// Mean, standard deviation and cube root of the third central moment of the
+// distances from a reference point.
+function moments(points: Vec3[], reference: Vec3): number[] {
+  if (points.length === 0) return [0, 0, 0];
+  const distances = points.map((point) => distance(point, reference));
+  const mean = distances.reduce((sum, d) => sum + d, 0) / distances.length;
+  const variance = distances.reduce((sum, d) => sum + (d - mean) ** 2, 0) / distances.length;
+  const skew = distances.reduce((sum, d) => sum + (d - mean) ** 3, 0) / distances.length;
+  return [mean, Math.sqrt(variance), Math.cbrt(skew)];
+}
+
+// Twelve USR moments per atom set (sixty for USRCAT: all heavy atoms, then
+// hydrophobic, aromatic, acceptor and donor atoms). The four reference
+// points come from all heavy atoms: the centroid, the atom closest to it,
+// the atom farthest from it and the atom farthest from that one.
+export function shapeDescriptor(conformer: ShapeConformer, method: ShapeMethod): number[] {
+  const { molecule: mol, coordinates } = conformer;
+  const heavy = mol.atoms.map((_, i) => i).filter((i) => mol.atoms[i].element !== 'H');
+  if (heavy.length === 0) return new Array(method === 'usr' ? 12 : 60).fill(0);
+  const points = heavy.map((i) => coordinates[i]);
+  const ctd = centroid(points);
+  const closest = (from: Vec3) => points.reduce((best, p) => (distance(p, from) < distance(best, from) ? p : best));
+  const farthest = (from: Vec3) => points.reduce((best, p) => (distance(p, from) > distance(best, from) ? p : best));
+  const cst = closest(ctd);
+  const fct = farthest(ctd);
+  const ftf = farthest(fct);
+  const references = [ctd, cst, fct, ftf];
+
+  const sets = [points];
+  if (method === 'usrcat') {
+    for (const query of subsetQueries()) {
+      const atoms = new Set(findMatches(mol, query, { unique: true }).map((match) => match[0]));
+      sets.push([...atoms].map((atom) => coordinates[atom]));
+    }
+  }
+  return sets.flatMap((set) => references.flatMap((reference) => moments(set, reference)));
+}
+
+// Inverse of one plus the mean absolute moment difference, summed over the
+// weighted USRCAT subsets; 1 for identical descriptors.
+export function shapeSimilarity(a: number[], b: number[]): number {
+  const weights = a.length === 12 ? [1] : USRCAT_WEIGHTS;
+  let score = 0;
+  weights.forEach((weight, k) => {
+    let manhattan = 0;
+    for (let i = 12 * k; i < 12 * (k + 1); i++) manhattan += Math.abs(a[i] - b[i]);
+    score += (weight * manhattan) / 12;
+  });
+  return 1 / (1 + score);
+}
+
+// Scores every compound by its best conformer pair with the query, blended
+// with the fingerprint Tanimoto of the two structures, best first.
+export function screenShape(
+  query: ShapeConformer[],
+  compounds: { index: number; name: string; conformers: ShapeConformer[] }[],
+  method: ShapeMethod,
+  params: ResolvedShapeParameters,
+  fingerprint: FingerprintOptions,
+): ShapeHit[] {
+  const { shapeWeight, fingerprintWeight } = params;
+  const queryDescriptors = query.map((conformer) => shapeDescriptor(conformer, method));
+  const queryFingerprint = fingerprintWeight > 0 ? computeFingerprint(query[0].molecule, fingerprint) : null;
+
+  const hits = compounds.map(({ index, name, conformers }) => {
+    let best = { conformer: 0, shapeSimilarity: -1 };
+    conformers.forEach((conformer, c) => {
+      const descriptor = shapeDescriptor(conformer, method);
+      for (const queryDescriptor of queryDescriptors) {
+        const score = shapeSimilarity(queryDescriptor, descriptor);
+        if (score > best.shapeSimilarity) best = { conformer: c, shapeSimilarity: score };
+      }
+    });
+    const fingerprintScore = queryFingerprint
+      ? fingerprintSimilarity(queryFingerprint, computeFingerprint(conformers[0].molecule, fingerprint), 'tanimoto')
+      : 0;
+    return {
+      index,
+      name,
+      conformer: best.conformer,
+      similarity: (shapeWeight * best.shapeSimilarity + fingerprintWeight * fingerprintScore) / (shapeWeight + fingerprintWeight),
+      shapeSimilarity: best.shapeSimilarity,
+      ...(queryFingerprint ? { fingerprintSimilarity: fingerprintScore } : {}),
+    };
+  });
+  return hits.sort((a, b) => b.similarity - a.similarity || a.index - b.index);
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { fingerprintSimilarity } from './similarity';
+
+// Bits 0-2 in the first, 1-3 in the second: two shared, one unique to each.
+const first = Uint8Array.from([1, 1, 1, 0, 0, 0]);
+const second = Uint8Array.from([0, 1, 1, 1, 0, 0]);
+const empty = new Uint8Array(6);
+
+describe('fingerprintSimilarity', () => {
+  it('scores presence metrics from the shared and unique bits', () => {
+    expect(fingerprintSimilarity(first, second, 'tanimoto')).toBeCloseTo(2 / 4);
+    expect(fingerprintSimilarity(first, second, 'dice')).toBeCloseTo(4 / 6);
+    expect(fingerprintSimilarity(first, second, 'russell-rao')).toBeCloseTo(2 / 6);
+    expect(fingerprintSimilarity(first, second, 'tversky', { alpha: 0.9, beta: 0.1 })).toBeCloseTo(2 / 3);
+    expect(fingerprintSimilarity(first, second, 'tversky', { alpha: 0.5, beta: 0.5 })).toBeCloseTo(
+      fingerprintSimilarity(first, second, 'dice'),
+    );
+  });
+
+  it('uses counts for cosine, euclidean and soergel', () => {
+    const counts = Uint8Array.from([2, 0, 1]);
+    const other = Uint8Array.from([1, 1, 1]);
+    expect(fingerprintSimilarity(counts, other, 'cosine')).toBeCloseTo(3 / Math.sqrt(5 * 3));
+    expect(fingerprintSimilarity(counts, other, 'euclidean')).toBeCloseTo(1 - Math.sqrt(2 / 8));
+    expect(fingerprintSimilarity(counts, other, 'soergel')).toBeCloseTo(2 / 4);
+    expect(fingerprintSimilarity(counts, other, 'tanimoto')).toBeCloseTo(2 / 3);
+  });
+
+  it('gives identical fingerprints a similarity of 1 and empty ones 0', () => {
+    for (const method of ['tanimoto', 'dice', 'cosine', 'euclidean', 'tversky', 'soergel'] as const) {
+      expect(fingerprintSimilarity(first, first, method)).toBeCloseTo(1);
+      expect(fingerprintSimilarity(empty, empty, method)).toBe(0);
+    }
+    expect(fingerprintSimilarity(first, Uint8Array.from([0, 0, 0, 1, 1, 1]), 'euclidean')).toBe(0);
+  });
+});
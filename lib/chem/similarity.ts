@@ -0,0 +1,76 @@
+import type { Fingerprint } from './fingerprints';
+
+export const similarityMethods = [
+  'tanimoto',
+  'dice',
+  'cosine',
+  'euclidean',
+  'tversky',
+  'soergel',
+  'russell-rao',
+] as const;
+
+export type SimilarityMethod = (typeof similarityMethods)[number];
+
+export function isSimilarityMethod(method: string): method is SimilarityMethod {
+  return (similarityMethods as readonly string[]).includes(method);
+}
+
+export interface SimilarityOptions {
+  // Tversky weights for features unique to the first and second fingerprint.
+  alpha?: number;
+  beta?: number;
+}
+
+// Similarity of two fingerprints of equal length, in [0, 1]. Tanimoto, Dice,
+// Tversky and Russell-Rao compare feature presence; cosine, Euclidean and
+// Soergel use the counts of count fingerprints.
+export function fingerprintSimilarity(
+  fp1: Fingerprint,
+  fp2: Fingerprint,
+  method: SimilarityMethod,
+  options: SimilarityOptions = {},
+): number {
+  const { alpha = 0.9, beta = 0.1 } = options;
+  // Presence: bits set in fp1, in fp2, in both
+  let a = 0;
+  let b = 0;
+  let c = 0;
+  // Counts: squared norms, dot product, sums of minima and maxima
+  let xx = 0;
+  let yy = 0;
+  let xy = 0;
+  let minSum = 0;
+  let maxSum = 0;
+  for (let i = 0; i < fp1.length; i++) {
+    const x = fp1[i];
+    const y = fp2[i];
+    if (x > 0) a++;
+    if (y > 0) b++;
+    if (x > 0 && y > 0) c++;
+    xx += x * x;
+    yy += y * y;
+    xy += x * y;
+    minSum += Math.min(x, y);
+    maxSum += Math.max(x, y);
+  }
+  switch (method) {
+    case 'dice':
+      return a + b === 0 ? 0 : (2 * c) / (a + b);
+    case 'cosine':
+      return xx === 0 || yy === 0 ? 0 : xy / Math.sqrt(xx * yy);
+    case 'euclidean':
+      // Euclidean distance scaled by its largest value for these vectors
+      return xx + yy === 0 ? 0 : 1 - Math.sqrt((xx + yy - 2 * xy) / (xx + yy));
+    case 'tversky': {
+      const denominator = alpha * (a - c) + beta * (b - c) + c;
+      return denominator === 0 ? 0 : c / denominator;
+    }
+    case 'soergel':
+      return maxSum === 0 ? 0 : minSum / maxSum;
+    case 'russell-rao':
+      return fp1.length === 0 ? 0 : c / fp1.length;
+    case 'tanimoto':
+      return a + b - c === 0 ? 0 : c / (a + b - c);
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { findMatches, hasMatch, mergeQueryHydrogens, parseSmarts } from './smarts';
+import { parseSmiles } from './smiles';
+
+// Molecule atoms matched by a one-atom SMARTS, in atom order.
+function matchedAtoms(smiles: string, smarts: string): number[] {
+  return findMatches(parseSmiles(smiles), parseSmarts(smarts)).map(([atom]) => atom);
+}
+
+describe('ring size (r<n>)', () => {
+  it('uses the smallest SSSR ring of the atom', () => {
+    // Indole: the fusion atoms 3 and 8 are in the five-membered ring
+    expect(matchedAtoms('c1ccc2[nH]ccc2c1', '[a;r6]')).toEqual([0, 1, 2, 8]);
+    expect(matchedAtoms('c1ccc2[nH]ccc2c1', '[a;r5]')).toEqual([3, 4, 5, 6, 7]);
+  });
+
+  it('leaves fused atoms of caffeine out of r6', () => {
+    const caffeine = 'Cn1cnc2c1c(=O)n(C)c(=O)n2C';
+    expect(matchedAtoms(caffeine, '[r6]')).toEqual([6, 8, 10, 12]);
+    expect(matchedAtoms(caffeine, '[r5]')).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('matches every atom of a ring system with one ring size', () => {
+    expect(matchedAtoms('c1ccc2ccccc2c1', '[r6]')).toHaveLength(10);
+    // Norbornane: two five-membered SSSR rings
+    expect(matchedAtoms('C1CC2CCC1C2', '[r5]')).toHaveLength(7);
+  });
+
+  it('treats bare r as ring membership', () => {
+    expect(matchedAtoms('CC1CCC1', '[r]')).toEqual([1, 2, 3, 4]);
+    expect(matchedAtoms('CC1CCC1', '[!r]')).toEqual([0]);
+  });
+
+  it('keeps R<n> as the number of SSSR rings', () => {
+    expect(matchedAtoms('c1ccc2ccccc2c1', '[R2]')).toEqual([3, 8]);
+  });
+});
+
+describe('hydrogen', () => {
+  it('reads [2H] as deuterium', () => {
+    expect(matchedAtoms('[2H]C([2H])([2H])O', '[2H]')).toEqual([0, 2, 3]);
+    expect(matchedAtoms('[2H]OC', '[2H]O')).toEqual([0]);
+    expect(matchedAtoms('CO', '[2H]')).toEqual([]);
+  });
+
+  it('reads [H] and [H+] as hydrogen atoms', () => {
+    expect(matchedAtoms('[2H]C([2H])([2H])O', '[H]')).toEqual([0, 2, 3]);
+    expect(matchedAtoms('[H+]', '[H+]')).toEqual([0]);
+  });
+
+  it('reads H after an element as a hydrogen count', () => {
+    expect(matchedAtoms('CC#C', '[CH]')).toEqual([2]);
+    expect(matchedAtoms('CC#C', '[CH3]')).toEqual([0]);
+  });
+});
+
+describe('merged query hydrogens', () => {
+  const matches = (smiles: string, smarts: string) => hasMatch(parseSmiles(smiles), mergeQueryHydrogens(parseSmarts(smarts)));
+
+  it('turn [#1] neighbours into minimum hydrogen counts', () => {
+    const query = mergeQueryHydrogens(parseSmarts('[#6](-[#1])(-[#1])=[#8]'));
+    expect(query.atoms).toHaveLength(2);
+    expect(query.bonds).toEqual([expect.objectContaining({ begin: 0, end: 1 })]);
+    expect(matches('C=O', '[#6](-[#1])(-[#1])=[#8]')).toBe(true);
+    expect(matches('CC=O', '[#6](-[#1])(-[#1])=[#8]')).toBe(false);
+    expect(matches('CC=O', '[#6](-[#1])=[#8]')).toBe(true);
+  });
+
+  it('merge inside recursive SMARTS', () => {
+    expect(matches('CCN', '[$([#7]-[#1])]')).toBe(true);
+    expect(matches('CN(C)C', '[$([#7]-[#1])]')).toBe(false);
+  });
+
+  it('keep mapped and lone hydrogens', () => {
+    expect(mergeQueryHydrogens(parseSmarts('[#6]-[#1:1]')).atoms).toHaveLength(2);
+    expect(mergeQueryHydrogens(parseSmarts('[#1]')).atoms).toHaveLength(1);
+  });
+});
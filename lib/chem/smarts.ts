@@ -0,0 +1,657 @@
+import { kekuleOrders } from './aromaticity';
+import { atomicNumber } from './elements';
+import { AROMATIC, atomBonds, atomicNumberOf, findBond, otherAtom, type Molecule } from './molecule';
+import { isRingBond, ringInfo } from './rings';
+
+export class SmartsParseError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly position: number,
+  ) {
+    super(`${reason} at position ${position}`);
+    this.name = 'SmartsParseError';
+  }
+}
+
+export type AtomPrimitive =
+  | { kind: 'any' }
+  | { kind: 'aromatic' }
+  | { kind: 'aliphatic' }
+  | { kind: 'element'; atomicNumber: number; aromatic: boolean | null }
+  | { kind: 'isotope'; isotope: number }
+  | { kind: 'hydrogens'; count: number }
+  | { kind: 'charge'; charge: number }
+  | { kind: 'valence'; valence: number }
+  // Total connections, implicit hydrogens included.
+  | { kind: 'connectivity'; count: number }
+  // Explicit connections (D).
+  | { kind: 'degree'; count: number }
+  // Ring bonds on the atom (x); bare x means at least one.
+  | { kind: 'ringConnectivity'; count: number | null }
+  // Smallest SSSR ring containing the atom has this size (r<n>, as in
+  // Daylight and RDKit); bare r means any ring.
+  | { kind: 'ringSize'; size: number | null }
+  // Bare R: any ring membership; R<n>: member of exactly n SSSR rings.
+  | { kind: 'ring'; count: number | null }
+  | { kind: 'recursive'; query: SmartsQuery };
+
+export type BondPrimitive =
+  | { kind: 'any' }
+  | { kind: 'order'; order: number }
+  | { kind: 'ring' }
+  // Unspecified bonds match single or aromatic.
+  | { kind: 'default' };
+
+export type Expression<P> =
+  | { op: 'primitive'; primitive: P }
+  | { op: 'not'; operand: Expression<P> }
+  | { op: 'and' | 'or'; operands: Expression<P>[] };
+
+export interface SmartsQuery {
+  atoms: Expression<AtomPrimitive>[];
+  bonds: { begin: number; end: number; expression: Expression<BondPrimitive> }[];
+  // Atom map class per query atom ([C:1]); 0 when unmapped.
+  atomMaps: number[];
+}
+
+const bareAtoms: Record<string, AtomPrimitive> = {
+  '*': { kind: 'any' },
+  a: { kind: 'aromatic' },
+  A: { kind: 'aliphatic' },
+};
+
+const organicSymbols = ['Cl', 'Br', 'B', 'C', 'N', 'O', 'P', 'S', 'F', 'I'];
+const aromaticSmartsSymbols = ['se', 'as', 'te', 'b', 'c', 'n', 'o', 'p', 's'];
+
+function primitive<P>(p: P): Expression<P> {
+  return { op: 'primitive', primitive: p };
+}
+
+function combine<P>(op: 'and' | 'or', operands: Expression<P>[]): Expression<P> {
+  return operands.length === 1 ? operands[0] : { op, operands };
+}
+
+class SmartsParser {
+  private i = 0;
+  private query: SmartsQuery = { atoms: [], bonds: [], atomMaps: [] };
+
+  constructor(private readonly smarts: string) {}
+
+  parse(): SmartsQuery {
+    const s = this.smarts;
+    if (s.length === 0) throw new SmartsParseError('Empty SMARTS', 0);
+
+    let previous = -1;
+    let pending: Expression<BondPrimitive> | null = null;
+    const branches: number[] = [];
+    const rings = new Map<number, { atom: number; bond: Expression<BondPrimitive> | null; position: number }>();
+
+    while (this.i < s.length) {
+      const ch = s[this.i];
+      const start = this.i;
+      if (ch === '(') {
+        if (previous < 0) throw new SmartsParseError('Branch without a preceding atom', start);
+        branches.push(previous);
+        this.i++;
+      } else if (ch === ')') {
+        if (branches.length === 0) throw new SmartsParseError('Unmatched closing parenthesis', start);
+        if (pending) throw new SmartsParseError('Dangling bond', start);
+        previous = branches.pop()!;
+        this.i++;
+      } else if (ch === '.') {
+        if (pending) throw new SmartsParseError('Dangling bond', start);
+        previous = -1;
+        this.i++;
+      } else if (/[0-9%]/.test(ch)) {
+        if (previous < 0) throw new SmartsParseError('Ring bond without a preceding atom', start);
+        const label = ch === '%' ? parseInt(s.slice(this.i + 1, this.i + 3), 10) : parseInt(ch, 10);
+        if (Number.isNaN(label)) throw new SmartsParseError('Expected two digits after %', start);
+        this.i += ch === '%' ? 3 : 1;
+        const opening = rings.get(label);
+        if (opening) {
+          rings.delete(label);
+          const expression = pending ?? opening.bond ?? primitive<BondPrimitive>({ kind: 'default' });
+          this.query.bonds.push({ begin: opening.atom, end: previous, expression });
+        } else {
+          rings.set(label, { atom: previous, bond: pending, position: start });
+        }
+        pending = null;
+      } else if ('-=#:~@!/\\'.includes(ch)) {
+        if (pending) throw new SmartsParseError('Consecutive bond expressions', start);
+        pending = this.bondExpression();
+      } else {
+        const atom = this.atom();
+        if (previous >= 0) {
+          this.query.bonds.push({
+            begin: previous,
+            end: atom,
+            expression: pending ?? primitive<BondPrimitive>({ kind: 'default' }),
+          });
+        } else if (pending) {
+          throw new SmartsParseError('Bond without a preceding atom', start);
+        }
+        pending = null;
+        previous = atom;
+      }
+    }
+
+    if (pending) throw new SmartsParseError('Dangling bond', s.length);
+    if (branches.length > 0) throw new SmartsParseError('Unclosed branch', s.length);
+    if (rings.size > 0) throw new SmartsParseError('Unclosed ring bond', [...rings.values()][0].position);
+    if (this.query.atoms.length === 0) throw new SmartsParseError('No atoms', 0);
+    return this.query;
+  }
+
+  private atom(): number {
+    const s = this.smarts;
+    const start = this.i;
+    let expression: Expression<AtomPrimitive>;
+    let atomMap = 0;
+    if (s[this.i] === '[') {
+      this.i++;
+      expression = this.atomExpression();
+      if (s[this.i] === ':') {
+        this.i++;
+        const n = this.number();
+        if (n === null) throw new SmartsParseError('Expected atom map number after :', this.i);
+        atomMap = n;
+      }
+      if (s[this.i] !== ']') throw new SmartsParseError('Unclosed bracket atom', this.i);
+      this.i++;
+    } else if (s[this.i] in bareAtoms) {
+      expression = primitive(bareAtoms[s[this.i]]);
+      this.i++;
+    } else {
+      const element = this.elementPrimitive(organicSymbols, ['b', 'c', 'n', 'o', 'p', 's']);
+      if (!element) throw new SmartsParseError(`Unexpected character '${s[start]}'`, start);
+      expression = primitive(element);
+    }
+    this.query.atoms.push(expression);
+    this.query.atomMaps.push(atomMap);
+    return this.query.atoms.length - 1;
+  }
+
+  private elementPrimitive(aliphatic: string[], aromatic: string[]): AtomPrimitive | null {
+    const s = this.smarts;
+    for (const symbol of aromatic) {
+      if (s.startsWith(symbol, this.i)) {
+        this.i += symbol.length;
+        const element = symbol[0].toUpperCase() + symbol.slice(1);
+        return { kind: 'element', atomicNumber: atomicNumber(element)!, aromatic: true };
+      }
+    }
+    for (const symbol of aliphatic) {
+      if (s.startsWith(symbol, this.i)) {
+        this.i += symbol.length;
+        return { kind: 'element', atomicNumber: atomicNumber(symbol)!, aromatic: false };
+      }
+    }
+    return null;
+  }
+
+  // Precedence from loosest to tightest: ';' then ',' then '&' (or
+  // juxtaposition) then '!'.
+  private atomExpression(): Expression<AtomPrimitive> {
+    const terms = [this.atomOr()];
+    while (this.smarts[this.i] === ';') {
+      this.i++;
+      terms.push(this.atomOr());
+    }
+    return combine('and', terms);
+  }
+
+  private atomOr(): Expression<AtomPrimitive> {
+    const terms = [this.atomAnd()];
+    while (this.smarts[this.i] === ',') {
+      this.i++;
+      terms.push(this.atomAnd());
+    }
+    return combine('or', terms);
+  }
+
+  private atomAnd(): Expression<AtomPrimitive> {
+    const terms = [this.atomNot()];
+    for (;;) {
+      const ch = this.smarts[this.i];
+      if (ch === '&') {
+        this.i++;
+        terms.push(this.atomNot());
+      } else if (ch !== undefined && ch !== ']' && ch !== ';' && ch !== ',' && ch !== ')' && ch !== ':') {
+        terms.push(this.atomNot());
+      } else {
+        return combine('and', terms);
+      }
+    }
+  }
+
+  private atomNot(): Expression<AtomPrimitive> {
+    if (this.smarts[this.i] === '!') {
+      this.i++;
+      return { op: 'not', operand: this.atomNot() };
+    }
+    return primitive(this.atomPrimitive());
+  }
+
+  private number(): number | null {
+    const match = /^[0-9]+/.exec(this.smarts.slice(this.i));
+    if (!match) return null;
+    this.i += match[0].length;
+    return parseInt(match[0], 10);
+  }
+
+  private atomPrimitive(): AtomPrimitive {
+    const s = this.smarts;
+    const start = this.i;
+    const ch = s[this.i];
+
+    if (ch === '*') {
+      this.i++;
+      return bareAtoms[ch];
+    }
+    // Chirality is parsed but not checked, as in most substructure searches.
+    if (ch === '@') {
+      while (s[this.i] === '@') this.i++;
+      if (s[this.i] === '?') this.i++;
+      return bareAtoms['*'];
+    }
+    if (ch === '#') {
+      this.i++;
+      const z = this.number();
+      if (z === null) throw new SmartsParseError('Expected atomic number after #', this.i);
+      return { kind: 'element', atomicNumber: z, aromatic: null };
+    }
+    if (/[0-9]/.test(ch)) {
+      return { kind: 'isotope', isotope: this.number()! };
+    }
+    if (ch === '$') {
+      if (s[this.i + 1] !== '(') throw new SmartsParseError('Expected ( after $', this.i + 1);
+      let depth = 0;
+      let end = this.i + 1;
+      for (; end < s.length; end++) {
+        if (s[end] === '(') depth++;
+        if (s[end] === ')' && --depth === 0) break;
+      }
+      if (end >= s.length) throw new SmartsParseError('Unclosed recursive SMARTS', start);
+      const inner = s.slice(this.i + 2, end);
+      let query: SmartsQuery;
+      try {
+        query = new SmartsParser(inner).parse();
+      } catch (error) {
+        if (error instanceof SmartsParseError) {
+          throw new SmartsParseError(error.reason, this.i + 2 + error.position);
+        }
+        throw error;
+      }
+      this.i = end + 1;
+      return { kind: 'recursive', query };
+    }
+    if (ch === '+' || ch === '-') {
+      this.i++;
+      const sign = ch === '+' ? 1 : -1;
+      const magnitude = this.number();
+      if (magnitude !== null) return { kind: 'charge', charge: sign * magnitude };
+      let charge = sign;
+      while (s[this.i] === ch) {
+        charge += sign;
+        this.i++;
+      }
+      return { kind: 'charge', charge };
+    }
+    if (ch === 'H') {
+      // [H], [2H] and [H+] name the element; otherwise H<n> counts
+      // hydrogens.
+      const next = s[this.i + 1];
+      const isotope = /^[0-9]*$/.test(s.slice(this.bracketStart(), start));
+      if (isotope && (next === ']' || next === '+' || next === '-')) {
+        this.i++;
+        return { kind: 'element', atomicNumber: 1, aromatic: false };
+      }
+    }
+
+    const twoLetter = s.slice(this.i, this.i + 2);
+    if (/^[A-Z][a-z]$/.test(twoLetter) && atomicNumber(twoLetter) !== undefined) {
+      this.i += 2;
+      return { kind: 'element', atomicNumber: atomicNumber(twoLetter)!, aromatic: false };
+    }
+    if ('HRvXDxr'.includes(ch)) {
+      this.i++;
+      const n = this.number();
+      if (ch === 'H') return { kind: 'hydrogens', count: n ?? 1 };
+      if (ch === 'R') return { kind: 'ring', count: n };
+      if (ch === 'X') return { kind: 'connectivity', count: n ?? 1 };
+      if (ch === 'D') return { kind: 'degree', count: n ?? 1 };
+      if (ch === 'x') return { kind: 'ringConnectivity', count: n };
+      if (ch === 'r') return { kind: 'ringSize', size: n };
+      return { kind: 'valence', valence: n ?? 1 };
+    }
+    // After two-letter symbols so that [Al] and [as] are elements.
+    const element = this.elementPrimitive([], aromaticSmartsSymbols);
+    if (element) return element;
+    if (ch === 'a' || ch === 'A') {
+      this.i++;
+      return bareAtoms[ch];
+    }
+    if (/[A-Z]/.test(ch) && atomicNumber(ch) !== undefined) {
+      this.i++;
+      return { kind: 'element', atomicNumber: atomicNumber(ch)!, aromatic: false };
+    }
+    throw new SmartsParseError(`Unsupported atom primitive '${ch ?? ''}'`, start);
+  }
+
+  private bracketStart(): number {
+    return this.smarts.lastIndexOf('[', this.i) + 1;
+  }
+
+  private bondExpression(): Expression<BondPrimitive> {
+    const terms = [this.bondOr()];
+    while (this.smarts[this.i] === ';') {
+      this.i++;
+      terms.push(this.bondOr());
+    }
+    return combine('and', terms);
+  }
+
+  private bondOr(): Expression<BondPrimitive> {
+    const terms = [this.bondAnd()];
+    while (this.smarts[this.i] === ',') {
+      this.i++;
+      terms.push(this.bondAnd());
+    }
+    return combine('or', terms);
+  }
+
+  private bondAnd(): Expression<BondPrimitive> {
+    const terms = [this.bondNot()];
+    while ('-=#:~@!/\\&'.includes(this.smarts[this.i] ?? '.')) {
+      if (this.smarts[this.i] === '&') this.i++;
+      terms.push(this.bondNot());
+    }
+    return combine('and', terms);
+  }
+
+  private bondNot(): Expression<BondPrimitive> {
+    const ch = this.smarts[this.i];
+    this.i++;
+    switch (ch) {
+      case '!':
+        return { op: 'not', operand: this.bondNot() };
+      case '-':
+      case '/':
+      case '\\':
+        return primitive({ kind: 'order', order: 1 });
+      case '=':
+        return primitive({ kind: 'order', order: 2 });
+      case '#':
+        return primitive({ kind: 'order', order: 3 });
+      case ':':
+        return primitive({ kind: 'order', order: AROMATIC });
+      case '~':
+        return primitive({ kind: 'any' });
+      case '@':
+        return primitive({ kind: 'ring' });
+      default:
+        throw new SmartsParseError(`Unexpected bond symbol '${ch ?? ''}'`, this.i - 1);
+    }
+  }
+}
+
+export function parseSmarts(smarts: string): SmartsQuery {
+  return new SmartsParser(smarts).parse();
+}
+
+function isHydrogenAtom(expression: Expression<AtomPrimitive>): boolean {
+  return expression.op === 'primitive' && expression.primitive.kind === 'element' && expression.primitive.atomicNumber === 1;
+}
+
+// RDKit's MergeQueryHs: a [#1] query atom singly bonded to a heavy query atom
+// becomes a hydrogen requirement on that atom, so [#6](-[#1])-[#1] reads as
+// [#6;!H0;!H1] and matches molecules whose hydrogens are implicit. Applies
+// inside recursive SMARTS too.
+export function mergeQueryHydrogens(query: SmartsQuery): SmartsQuery {
+  const mergeRecursive = (expression: Expression<AtomPrimitive>): Expression<AtomPrimitive> => {
+    switch (expression.op) {
+      case 'primitive':
+        return expression.primitive.kind === 'recursive'
+          ? primitive({ kind: 'recursive', query: mergeQueryHydrogens(expression.primitive.query) })
+          : expression;
+      case 'not':
+        return { op: 'not', operand: mergeRecursive(expression.operand) };
+      default:
+        return { op: expression.op, operands: expression.operands.map(mergeRecursive) };
+    }
+  };
+  const hydrogenCount = query.atoms.map(() => 0);
+  const merged = query.atoms.map((expression, atom) => {
+    const bonds = query.bonds.filter((bond) => bond.begin === atom || bond.end === atom);
+    if (!isHydrogenAtom(expression) || bonds.length !== 1 || query.atomMaps[atom] !== 0) return false;
+    const { begin, end, expression: bond } = bonds[0];
+    const heavy = begin === atom ? end : begin;
+    const single = bond.op === 'primitive' && (bond.primitive.kind === 'default' || (bond.primitive.kind === 'order' && bond.primitive.order === 1));
+    if (!single || isHydrogenAtom(query.atoms[heavy])) return false;
+    hydrogenCount[heavy]++;
+    return true;
+  });
+  const index: number[] = [];
+  let kept = 0;
+  merged.forEach((isMerged) => index.push(isMerged ? -1 : kept++));
+  const atoms: Expression<AtomPrimitive>[] = [];
+  const atomMaps: number[] = [];
+  query.atoms.forEach((expression, atom) => {
+    if (merged[atom]) return;
+    const atLeast = Array.from({ length: hydrogenCount[atom] }, (_, n): Expression<AtomPrimitive> => ({
+      op: 'not',
+      operand: primitive({ kind: 'hydrogens', count: n }),
+    }));
+    atoms.push(combine('and', [mergeRecursive(expression), ...atLeast]));
+    atomMaps.push(query.atomMaps[atom]);
+  });
+  const bonds = query.bonds
+    .filter((bond) => !merged[bond.begin] && !merged[bond.end])
+    .map((bond) => ({ ...bond, begin: index[bond.begin], end: index[bond.end] }));
+  return { atoms, bonds, atomMaps };
+}
+
+function evaluate<P>(expression: Expression<P>, test: (p: P) => boolean): boolean {
+  switch (expression.op) {
+    case 'primitive':
+      return test(expression.primitive);
+    case 'not':
+      return !evaluate(expression.operand, test);
+    case 'and':
+      return expression.operands.every((operand) => evaluate(operand, test));
+    case 'or':
+      return expression.operands.some((operand) => evaluate(operand, test));
+  }
+}
+
+// Recursive SMARTS results per molecule, keyed by the parsed sub-query.
+const recursiveCache = new WeakMap<Molecule, WeakMap<SmartsQuery, boolean[]>>();
+
+function recursiveMatches(mol: Molecule, query: SmartsQuery): boolean[] {
+  let byQuery = recursiveCache.get(mol);
+  if (!byQuery) {
+    byQuery = new WeakMap();
+    recursiveCache.set(mol, byQuery);
+  }
+  let result = byQuery.get(query);
+  if (!result) {
+    result = mol.atoms.map((_, atom) => findMatches(mol, query, { anchor: atom, limit: 1 }).length > 0);
+    byQuery.set(query, result);
+  }
+  return result;
+}
+
+function totalHydrogens(mol: Molecule, atom: number): number {
+  return (
+    mol.atoms[atom].hydrogens +
+    atomBonds(mol)[atom].filter((b) => mol.atoms[otherAtom(mol.bonds[b], atom)].element === 'H').length
+  );
+}
+
+export function atomMatches(mol: Molecule, atom: number, expression: Expression<AtomPrimitive>): boolean {
+  const a = mol.atoms[atom];
+  return evaluate(expression, (p) => {
+    switch (p.kind) {
+      case 'any':
+        return true;
+      case 'aromatic':
+        return a.aromatic;
+      case 'aliphatic':
+        return !a.aromatic;
+      case 'element':
+        return atomicNumberOf(a) === p.atomicNumber && (p.aromatic === null || p.aromatic === a.aromatic);
+      case 'isotope':
+        return a.isotope === p.isotope;
+      case 'hydrogens':
+        return totalHydrogens(mol, atom) === p.count;
+      case 'charge':
+        return a.charge === p.charge;
+      case 'valence': {
+        const orders = kekuleOrders(mol);
+        return atomBonds(mol)[atom].reduce((sum, b) => sum + orders[b], a.hydrogens) === p.valence;
+      }
+      case 'connectivity':
+        return atomBonds(mol)[atom].length + a.hydrogens === p.count;
+      case 'degree':
+        return atomBonds(mol)[atom].length === p.count;
+      case 'ringConnectivity': {
+        const ringBonds = atomBonds(mol)[atom].filter((b) => isRingBond(mol, b)).length;
+        return p.count === null ? ringBonds > 0 : ringBonds === p.count;
+      }
+      case 'ringSize': {
+        const { rings, atomRings } = ringInfo(mol);
+        if (atomRings[atom].length === 0) return false;
+        return p.size === null || Math.min(...atomRings[atom].map((r) => rings[r].length)) === p.size;
+      }
+      case 'ring': {
+        const rings = ringInfo(mol).atomRings[atom].length;
+        return p.count === null ? rings > 0 : rings === p.count;
+      }
+      case 'recursive':
+        return recursiveMatches(mol, p.query)[atom];
+    }
+  });
+}
+
+export function bondMatches(mol: Molecule, bond: number, expression: Expression<BondPrimitive>): boolean {
+  const order = mol.bonds[bond].order;
+  return evaluate(expression, (p) => {
+    switch (p.kind) {
+      case 'any':
+        return true;
+      case 'order':
+        return order === p.order;
+      case 'ring':
+        return isRingBond(mol, bond);
+      case 'default':
+        return order === 1 || order === AROMATIC;
+    }
+  });
+}
+
+export interface MatchOptions {
+  // Map the first query atom onto this molecule atom only.
+  anchor?: number;
+  // Stop after this many matches.
+  limit?: number;
+  // Drop matches covering the same set of atoms.
+  unique?: boolean;
+}
+
+// Every embedding of the query; each match lists the molecule atom for
+// each query atom, in query atom order.
+export function findMatches(mol: Molecule, query: SmartsQuery, options: MatchOptions = {}): number[][] {
+  const { anchor, limit = Infinity, unique = false } = options;
+  const queryAdjacency: { bond: number; partner: number }[][] = query.atoms.map(() => []);
+  query.bonds.forEach((bond, b) => {
+    queryAdjacency[bond.begin].push({ bond: b, partner: bond.end });
+    queryAdjacency[bond.end].push({ bond: b, partner: bond.begin });
+  });
+
+  // Visit query atoms so that each one (after a component's first) has an
+  // already mapped neighbour to grow from.
+  const order: number[] = [];
+  const parent: number[] = new Array(query.atoms.length).fill(-1);
+  const placed = new Array<boolean>(query.atoms.length).fill(false);
+  for (let root = 0; root < query.atoms.length; root++) {
+    if (placed[root]) continue;
+    placed[root] = true;
+    order.push(root);
+    for (let k = order.length - 1; k < order.length; k++) {
+      for (const { partner } of queryAdjacency[order[k]]) {
+        if (!placed[partner]) {
+          placed[partner] = true;
+          parent[partner] = order[k];
+          order.push(partner);
+        }
+      }
+    }
+  }
+
+  const mapping = new Array<number>(query.atoms.length).fill(-1);
+  const used = new Array<boolean>(mol.atoms.length).fill(false);
+  const matches: number[][] = [];
+  const seen = new Set<string>();
+
+  // VF2 feasibility: the candidate must satisfy the atom expression, bond to
+  // the images of already mapped neighbours with matching bonds, and keep
+  // enough free neighbours for the query neighbours still to be mapped.
+  const feasible = (q: number, atom: number): boolean => {
+    if (used[atom]) return false;
+    let pendingNeighbours = 0;
+    for (const { partner } of queryAdjacency[q]) {
+      if (mapping[partner] < 0) pendingNeighbours++;
+    }
+    if (pendingNeighbours > 0) {
+      const free = atomBonds(mol)[atom].filter((b) => !used[otherAtom(mol.bonds[b], atom)]).length;
+      if (free < pendingNeighbours) return false;
+    }
+    if (!atomMatches(mol, atom, query.atoms[q])) return false;
+    for (const { bond, partner } of queryAdjacency[q]) {
+      if (mapping[partner] < 0) continue;
+      const b = findBond(mol, atom, mapping[partner]);
+      if (b < 0 || !bondMatches(mol, b, query.bonds[bond].expression)) return false;
+    }
+    return true;
+  };
+
+  const extend = (depth: number): boolean => {
+    if (depth === order.length) {
+      const match = [...mapping];
+      const key = unique ? [...match].sort((a, b) => a - b).join(',') : '';
+      if (!unique || !seen.has(key)) {
+        seen.add(key);
+        matches.push(match);
+      }
+      return matches.length >= limit;
+    }
+    const q = order[depth];
+    const candidates =
+      parent[q] >= 0
+        ? atomBonds(mol)[mapping[parent[q]]].map((b) => otherAtom(mol.bonds[b], mapping[parent[q]]))
+        : depth === 0 && anchor !== undefined
+          ? [anchor]
+          : mol.atoms.map((_, i) => i);
+    for (const atom of candidates) {
+      if (!feasible(q, atom)) continue;
+      mapping[q] = atom;
+      used[atom] = true;
+      const done = extend(depth + 1);
+      mapping[q] = -1;
+      used[atom] = false;
+      if (done) return true;
+    }
+    return false;
+  };
+
+  extend(0);
+  return matches;
+}
+
+export function hasMatch(mol: Molecule, query: SmartsQuery): boolean {
+  return findMatches(mol, query, { limit: 1 }).length > 0;
+}
+
+export function countMatches(mol: Molecule, query: SmartsQuery): number {
+  return findMatches(mol, query, { unique: true }).length;
+}
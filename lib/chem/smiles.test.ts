@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalSmiles, parseSmiles, writeSmiles } from './smiles';
+
+describe('canonical double-bond marks', () => {
+  it('does not depend on the sense of the input marks', () => {
+    const trans = ['F/C=C/F', 'F\\C=C\\F', 'C(\\F)=C/F', 'C(/F)=C\\F'];
+    expect(new Set(trans.map(canonicalSmiles))).toEqual(new Set(['F/C=C/F']));
+    const cis = ['F/C=C\\F', 'F\\C=C/F', 'C(/F)=C/F'];
+    expect(new Set(cis.map(canonicalSmiles))).toEqual(new Set(['F/C=C\\F']));
+  });
+
+  it('does not depend on which neighbours carry the marks', () => {
+    const smiles = ['Cl/C(F)=C/F', 'ClC(/F)=C/F', 'F/C=C(/Cl)F', 'Cl/C(/F)=C/F', '[H]/C(F)=C(/F)Cl'];
+    expect(new Set(smiles.map(canonicalSmiles)).size).toBe(1);
+  });
+
+  it('keeps geometric isomers apart', () => {
+    expect(canonicalSmiles('F/C=C/F')).not.toBe(canonicalSmiles('F/C=C\\F'));
+    expect(canonicalSmiles('Cl/C(F)=C/F')).not.toBe(canonicalSmiles('Cl/C(F)=C\\F'));
+  });
+
+  it('orients conjugated marks together', () => {
+    expect(canonicalSmiles('C\\C=C\\C=C\\C')).toBe(canonicalSmiles('C/C=C/C=C/C'));
+    expect(canonicalSmiles('C\\C=C/C=C\\C')).toBe(canonicalSmiles('C/C=C\\C=C/C'));
+    expect(canonicalSmiles('C/C=C/C=C/C')).not.toBe(canonicalSmiles('C/C=C\\C=C/C'));
+  });
+
+  it('handles marks on ring-closure bonds', () => {
+    const rings = ['C1CCCCC/C=C/1', 'C1CCCCC\\C=C\\1', 'C/1=C\\CCCCCC1'];
+    expect(new Set(rings.map(canonicalSmiles)).size).toBe(1);
+  });
+
+  it('is stable when its output is read back', () => {
+    for (const smiles of ['Cl/C(F)=C/F', 'OC(=O)/C=C/c1ccccc1', 'C/C=C\\C=C/C', 'C1CCCCC/C=C/1']) {
+      const canonical = canonicalSmiles(smiles);
+      expect(canonicalSmiles(canonical)).toBe(canonical);
+    }
+  });
+
+  it('drops marks that fix no double bond', () => {
+    expect(canonicalSmiles('C/C=C')).toBe(canonicalSmiles('CC=C'));
+  });
+
+  it('keeps the input marks outside canonical mode', () => {
+    expect(writeSmiles(parseSmiles('C(\\F)=C/F'), { canonical: false })).toBe('C(\\F)=C/F');
+    expect(writeSmiles(parseSmiles('F/C=C/F'), { isomeric: false })).toBe('FC=CF');
+  });
+});
@@ -0,0 +1,722 @@
+import { KekulizationError, kekulize, perceiveAromaticity } from './aromaticity';
+import { aromaticSymbols, atomicNumber, organicSubset } from './elements';
+import {
+  AROMATIC,
+  atomBonds,
+  createAtom,
+  hasValidValence,
+  implicitHydrogens,
+  otherAtom,
+  type Atom,
+  type Bond,
+  type BondOrder,
+  type Chirality,
+  type Molecule,
+} from './molecule';
+import { isRingAtom, isRingBond, ringInfo } from './rings';
+
+// Thrown for malformed or chemically invalid SMILES; `position` is the
+// zero-based character offset the problem was detected at.
+export class SmilesParseError extends Error {
+  constructor(
+    readonly reason: string,
+    readonly position: number,
+  ) {
+    super(`${reason} at position ${position}`);
+    this.name = 'SmilesParseError';
+  }
+}
+
+type BondStereo = Bond['stereo'];
+
+interface PendingBond {
+  order: BondOrder;
+  stereo: BondStereo;
+  position: number;
+}
+
+interface RingOpening {
+  atom: number;
+  bond: PendingBond | null;
+  slot: number;
+  position: number;
+}
+
+const bondSymbols: Record<string, BondOrder> = { '-': 1, '=': 2, '#': 3, $: 4, ':': AROMATIC };
+
+// Placeholder neighbour slots while parsing: bond index, implicit H, or an
+// unresolved ring opening.
+const HYDROGEN_SLOT = -1;
+const OPEN_RING_SLOT = -2;
+
+class SmilesParser {
+  private i = 0;
+  private atoms: Atom[] = [];
+  private bonds: Bond[] = [];
+  private positions: number[] = [];
+  private slots: number[][] = [];
+  private bonded = new Set<string>();
+
+  constructor(private readonly smiles: string) {}
+
+  parse(): Molecule {
+    const s = this.smiles;
+    if (s.trim().length === 0) {
+      throw new SmilesParseError('Empty SMILES', 0);
+    }
+
+    let previous = -1;
+    let pending: PendingBond | null = null;
+    const branches: { atom: number; position: number; atomCount: number }[] = [];
+    const rings = new Map<number, RingOpening>();
+
+    while (this.i < s.length) {
+      const ch = s[this.i];
+      const start = this.i;
+
+      if (ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r') {
+        // Anything after whitespace is a title, as in SMILES files.
+        break;
+      } else if (ch === '[' || ch === '*' || /[A-Za-z]/.test(ch)) {
+        const atom = ch === '[' ? this.bracketAtom() : this.organicAtom();
+        if (previous >= 0) {
+          const bond = this.addBond(previous, atom, pending, start);
+          this.slots[previous].push(bond);
+          this.slots[atom].push(bond);
+        } else if (pending) {
+          throw new SmilesParseError('Bond without a preceding atom', pending.position);
+        }
+        // A bracket hydrogen follows the preceding atom in chirality order.
+        if (this.atoms[atom].hydrogens > 0) this.slots[atom].push(HYDROGEN_SLOT);
+        pending = null;
+        previous = atom;
+      } else if (ch in bondSymbols || ch === '/' || ch === '\\') {
+        if (previous < 0) throw new SmilesParseError('Bond without a preceding atom', start);
+        if (pending) throw new SmilesParseError('Consecutive bond symbols', start);
+        pending =
+          ch === '/' || ch === '\\'
+            ? { order: 1, stereo: ch, position: start }
+            : { order: bondSymbols[ch], stereo: null, position: start };
+        this.i++;
+      } else if (ch === '(') {
+        if (previous < 0) throw new SmilesParseError('Branch without a preceding atom', start);
+        if (pending) throw new SmilesParseError('Bond symbol before branch', pending.position);
+        branches.push({ atom: previous, position: start, atomCount: this.atoms.length });
+        this.i++;
+      } else if (ch === ')') {
+        const branch = branches.pop();
+        if (!branch) throw new SmilesParseError('Unmatched closing parenthesis', start);
+        if (pending) throw new SmilesParseError('Dangling bond', pending.position);
+        if (branch.atomCount === this.atoms.length) throw new SmilesParseError('Empty branch', branch.position);
+        previous = branch.atom;
+        this.i++;
+      } else if (/[0-9%]/.test(ch)) {
+        if (previous < 0) throw new SmilesParseError('Ring bond without a preceding atom', start);
+        const label = this.ringLabel();
+        const opening = rings.get(label);
+        if (opening) {
+          rings.delete(label);
+          if (opening.bond && pending && opening.bond.order !== pending.order) {
+            throw new SmilesParseError('Conflicting ring bond symbols', start);
+          }
+          // Direction markers read from the side they were written on.
+          const bond =
+            pending && !opening.bond
+              ? this.addBond(previous, opening.atom, pending, start)
+              : this.addBond(opening.atom, previous, opening.bond, start);
+          this.slots[opening.atom][opening.slot] = bond;
+          this.slots[previous].push(bond);
+        } else {
+          rings.set(label, { atom: previous, bond: pending, slot: this.slots[previous].length, position: start });
+          this.slots[previous].push(OPEN_RING_SLOT);
+        }
+        pending = null;
+      } else if (ch === '.') {
+        if (pending) throw new SmilesParseError('Dangling bond', pending.position);
+        if (previous < 0) throw new SmilesParseError('Unexpected dot', start);
+        previous = -1;
+        this.i++;
+      } else {
+        throw new SmilesParseError(`Unexpected character '${ch}'`, start);
+      }
+    }
+
+    if (pending) throw new SmilesParseError('Dangling bond', pending.position);
+    if (branches.length > 0) throw new SmilesParseError('Unclosed branch', branches[branches.length - 1].position);
+    if (rings.size > 0) {
+      const first = Math.min(...[...rings.values()].map((ring) => ring.position));
+      throw new SmilesParseError('Unclosed ring bond', first);
+    }
+    if (this.atoms.length === 0) throw new SmilesParseError('No atoms', 0);
+
+    return this.finish();
+  }
+
+  private finish(): Molecule {
+    const mol: Molecule = { atoms: this.atoms, bonds: this.bonds };
+
+    // Aromatic bonds only make sense inside rings (biphenyl's linker is single).
+    mol.bonds.forEach((bond, b) => {
+      if (bond.order === AROMATIC && !isRingBond(mol, b)) bond.order = 1;
+    });
+    mol.atoms.forEach((atom, i) => {
+      if (atom.aromatic && !isRingAtom(mol, i)) {
+        throw new SmilesParseError('Aromatic atom outside a ring', this.positions[i]);
+      }
+      if (!atom.bracket) atom.hydrogens = implicitHydrogens(mol, i);
+    });
+
+    let orders: number[];
+    try {
+      orders = kekulize(mol);
+    } catch (error) {
+      if (error instanceof KekulizationError) {
+        throw new SmilesParseError('Cannot kekulize aromatic system', this.positions[error.atom]);
+      }
+      throw error;
+    }
+    mol.atoms.forEach((atom, i) => {
+      if (!hasValidValence(mol, i, orders)) {
+        throw new SmilesParseError(`Invalid valence for ${atom.element}`, this.positions[i]);
+      }
+    });
+    perceiveAromaticity(mol, orders);
+
+    mol.atoms.forEach((atom, i) => {
+      if (atom.chirality) {
+        atom.stereoNeighbors = this.slots[i].map((slot) =>
+          slot === HYDROGEN_SLOT ? -1 : otherAtom(mol.bonds[slot], i),
+        );
+      }
+    });
+
+    return foldHydrogens(mol);
+  }
+
+  private organicAtom(): number {
+    const s = this.smiles;
+    const start = this.i;
+    const two = s.slice(start, start + 2);
+    let element: string;
+    let aromatic = false;
+    if (two === 'Cl' || two === 'Br') {
+      element = two;
+    } else if (s[start] === '*' || organicSubset.has(s[start])) {
+      element = s[start];
+    } else if (aromaticSymbols.has(s[start])) {
+      element = s[start].toUpperCase();
+      aromatic = true;
+    } else {
+      throw new SmilesParseError(`Unknown organic-subset atom '${s[start]}'`, start);
+    }
+    this.i += element.length;
+    return this.pushAtom(createAtom(element, { aromatic }), start);
+  }
+
+  private bracketAtom(): number {
+    const s = this.smiles;
+    const start = this.i;
+    this.i++;
+
+    const isotope = this.number();
+    let element: string;
+    let aromatic = false;
+    const symbolStart = this.i;
+    const two = s.slice(this.i, this.i + 2);
+    if (s[this.i] === '*') {
+      element = '*';
+    } else if (aromaticSymbols.has(two)) {
+      element = two[0].toUpperCase() + two[1];
+      aromatic = true;
+    } else if (s[this.i] && aromaticSymbols.has(s[this.i])) {
+      element = s[this.i].toUpperCase();
+      aromatic = true;
+    } else if (/^[A-Z][a-z]$/.test(two) && atomicNumber(two) !== undefined) {
+      element = two;
+    } else if (s[this.i] && atomicNumber(s[this.i]) !== undefined) {
+      element = s[this.i];
+    } else {
+      throw new SmilesParseError('Unknown element in bracket atom', symbolStart);
+    }
+    this.i += element.length;
+
+    let chirality: Chirality | null = null;
+    if (s[this.i] === '@') {
+      this.i++;
+      if (s[this.i] === '@') {
+        chirality = '@@';
+        this.i++;
+      } else if (s.startsWith('TH1', this.i) || s.startsWith('TH2', this.i)) {
+        chirality = s[this.i + 2] === '1' ? '@' : '@@';
+        this.i += 3;
+      } else if (/^(AL|SP|TB|OH)/.test(s.slice(this.i))) {
+        throw new SmilesParseError('Unsupported chirality class', this.i - 1);
+      } else {
+        chirality = '@';
+      }
+    }
+
+    let hydrogens = 0;
+    if (s[this.i] === 'H') {
+      this.i++;
+      hydrogens = this.number() ?? 1;
+    }
+
+    let charge = 0;
+    if (s[this.i] === '+' || s[this.i] === '-') {
+      const sign = s[this.i] === '+' ? 1 : -1;
+      this.i++;
+      const magnitude = this.number();
+      if (magnitude !== null) {
+        charge = sign * magnitude;
+      } else {
+        charge = sign;
+        while (s[this.i] === (sign > 0 ? '+' : '-')) {
+          charge += sign;
+          this.i++;
+        }
+      }
+    }
+
+    let atomClass: number | null = null;
+    if (s[this.i] === ':') {
+      this.i++;
+      atomClass = this.number();
+      if (atomClass === null) throw new SmilesParseError('Missing atom class number', this.i);
+    }
+
+    if (s[this.i] !== ']') {
+      throw new SmilesParseError(this.i < s.length ? 'Unexpected character in bracket atom' : 'Unclosed bracket atom', this.i);
+    }
+    this.i++;
+
+    return this.pushAtom(
+      createAtom(element, { aromatic, isotope, chirality, hydrogens, charge, atomClass, bracket: true }),
+      start,
+    );
+  }
+
+  private number(): number | null {
+    const match = /^[0-9]+/.exec(this.smiles.slice(this.i));
+    if (!match) return null;
+    this.i += match[0].length;
+    return parseInt(match[0], 10);
+  }
+
+  private ringLabel(): number {
+    const s = this.smiles;
+    if (s[this.i] !== '%') {
+      return parseInt(s[this.i++], 10);
+    }
+    const digits = s.slice(this.i + 1, this.i + 3);
+    if (!/^[0-9]{2}$/.test(digits)) {
+      throw new SmilesParseError('Expected two digits after %', this.i);
+    }
+    this.i += 3;
+    return parseInt(digits, 10);
+  }
+
+  private pushAtom(atom: Atom, position: number): number {
+    this.atoms.push(atom);
+    this.positions.push(position);
+    this.slots.push([]);
+    return this.atoms.length - 1;
+  }
+
+  private addBond(begin: number, end: number, pending: PendingBond | null, position: number): number {
+    if (begin === end) throw new SmilesParseError('Atom bonded to itself', position);
+    const key = begin < end ? `${begin}-${end}` : `${end}-${begin}`;
+    if (this.bonded.has(key)) throw new SmilesParseError('Duplicate bond', position);
+    this.bonded.add(key);
+
+    const aromatic = this.atoms[begin].aromatic && this.atoms[end].aromatic;
+    const order = pending?.order ?? (aromatic ? AROMATIC : 1);
+    this.bonds.push({ begin, end, order, stereo: pending?.stereo ?? null });
+    return this.bonds.length - 1;
+  }
+}
+
+// Explicit [H] atoms on heavy atoms become hydrogen counts, so `C([H])` and
+// `C` describe the same graph.
+function foldHydrogens(mol: Molecule): Molecule {
+  const removable = mol.atoms.map((atom, i) => {
+    if (atom.element !== 'H' || atom.isotope !== null || atom.charge !== 0 || atom.atomClass !== null) return false;
+    const bonds = atomBonds(mol)[i];
+    if (bonds.length !== 1 || mol.bonds[bonds[0]].order !== 1) return false;
+    return mol.atoms[otherAtom(mol.bonds[bonds[0]], i)].element !== 'H';
+  });
+  if (!removable.includes(true)) return mol;
+
+  const index: number[] = [];
+  const atoms: Atom[] = [];
+  mol.atoms.forEach((atom, i) => {
+    index.push(removable[i] ? -1 : atoms.length);
+    if (!removable[i]) atoms.push(atom);
+  });
+  mol.bonds.forEach((bond) => {
+    for (const [h, heavy] of [
+      [bond.begin, bond.end],
+      [bond.end, bond.begin],
+    ]) {
+      if (removable[h]) {
+        mol.atoms[heavy].hydrogens += 1;
+        mol.atoms[heavy].bracket = true;
+      }
+    }
+  });
+  // A direction mark on a folded hydrogen moves, reversed, to the other
+  // single bond of its atom: [H]/C(F)=C/F is F\C=C/F.
+  mol.bonds.forEach((bond) => {
+    const h = removable[bond.begin] ? bond.begin : removable[bond.end] ? bond.end : -1;
+    if (h < 0 || !bond.stereo) return;
+    const heavy = otherAtom(bond, h);
+    const other = atomBonds(mol)[heavy]
+      .map((b) => mol.bonds[b])
+      .find((b) => b !== bond && b.order === 1 && !removable[otherAtom(b, heavy)]);
+    if (!other || other.stereo) return;
+    const outward = flip(directionFrom(bond, heavy)!);
+    other.stereo = other.begin === heavy ? outward : flip(outward);
+  });
+  for (const atom of atoms) {
+    if (atom.stereoNeighbors) {
+      atom.stereoNeighbors = atom.stereoNeighbors.map((n) => (n < 0 ? -1 : index[n]));
+    }
+  }
+  const bonds = mol.bonds
+    .filter((bond) => !removable[bond.begin] && !removable[bond.end])
+    .map((bond) => ({ ...bond, begin: index[bond.begin], end: index[bond.end] }));
+  return { atoms, bonds };
+}
+
+export function parseSmiles(smiles: string): Molecule {
+  return new SmilesParser(smiles).parse();
+}
+
+export interface WriteSmilesOptions {
+  // Canonical atom ordering so equal molecules give equal strings.
+  canonical?: boolean;
+  // Include isotopes, chirality and double-bond geometry.
+  isomeric?: boolean;
+}
+
+function bondCode(order: BondOrder): number {
+  return order === AROMATIC ? 5 : order;
+}
+
+function compareKeys(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+function denseRanks(keys: number[][]): number[] {
+  const order = keys.map((_, i) => i).sort((a, b) => compareKeys(keys[a], keys[b]) || a - b);
+  const ranks = new Array<number>(keys.length);
+  let rank = 0;
+  order.forEach((atom, k) => {
+    if (k > 0 && compareKeys(keys[order[k - 1]], keys[atom]) !== 0) rank++;
+    ranks[atom] = rank;
+  });
+  return ranks;
+}
+
+function classCount(ranks: number[]): number {
+  return new Set(ranks).size;
+}
+
+// Iteratively splits atom classes by their sorted neighbour ranks.
+function refineRanks(mol: Molecule, ranks: number[]): number[] {
+  const adjacency = atomBonds(mol);
+  for (;;) {
+    const keys = ranks.map((rank, i) => [
+      rank,
+      ...adjacency[i]
+        .map((b) => ranks[otherAtom(mol.bonds[b], i)] * 8 + bondCode(mol.bonds[b].order))
+        .sort((p, q) => p - q),
+    ]);
+    const next = denseRanks(keys);
+    if (classCount(next) === classCount(ranks)) return next;
+    ranks = next;
+  }
+}
+
+// Graph-symmetry classes: atoms share a rank when refinement cannot tell
+// them apart.
+export function symmetryClasses(mol: Molecule): number[] {
+  // Degree first so output starts at a terminal atom and short branches
+  // are written before long ones.
+  const invariants = mol.atoms.map((atom, i) => [
+    atomBonds(mol)[i].length,
+    atomicNumber(atom.element) ?? 0,
+    atom.isotope ?? 0,
+    atom.charge,
+    atom.aromatic ? 1 : 0,
+    atom.hydrogens,
+    ringInfo(mol).atomRings[i].length > 0 ? 1 : 0,
+  ]);
+  return refineRanks(mol, denseRanks(invariants));
+}
+
+// Canonical atom ranks from graph invariants, refined Morgan-style and with
+// remaining ties (symmetry-equivalent atoms) broken one at a time.
+export function canonicalRanks(mol: Molecule): number[] {
+  let ranks = symmetryClasses(mol);
+  while (classCount(ranks) < mol.atoms.length) {
+    const counts = new Map<number, number>();
+    ranks.forEach((rank) => counts.set(rank, (counts.get(rank) ?? 0) + 1));
+    const tied = Math.min(...[...counts].filter(([, count]) => count > 1).map(([rank]) => rank));
+    const chosen = ranks.indexOf(tied);
+    ranks = refineRanks(
+      mol,
+      denseRanks(ranks.map((rank, i) => [rank * 2 + (rank === tied && i !== chosen ? 1 : 0)])),
+    );
+  }
+  return ranks;
+}
+
+interface RingClosure {
+  bond: number;
+  partner: number;
+  opening: boolean;
+}
+
+type Direction = NonNullable<BondStereo>;
+
+const flip = (direction: Direction): Direction => (direction === '/' ? '\\' : '/');
+
+// Direction mark of a single bond as written from `atom` to its partner.
+function directionFrom(bond: Bond, atom: number): Direction | null {
+  if (!bond.stereo) return null;
+  return atom === bond.begin ? bond.stereo : flip(bond.stereo);
+}
+
+// Double-bond geometry moved onto canonically chosen bonds, so the output
+// does not depend on which single bonds the input marked or in which sense.
+// A double bond with marks at both ends keeps its cis / trans arrangement
+// on the lowest-ranked single-bonded neighbour of each end; other marks are
+// dropped. Each connected set of marks is then oriented so the first one
+// written is '/'. Marks are returned as written from `writtenFrom`, for the
+// bonds in `emitted` (writing order).
+function canonicalDirections(
+  mol: Molecule,
+  ranks: number[],
+  writtenFrom: number[],
+  emitted: number[],
+): Map<number, Direction> {
+  const adjacency = atomBonds(mol);
+  // Per marked bond, the bonds whose written mark must differ from or
+  // match its own
+  const links = new Map<number, { bond: number; differ: boolean }[]>();
+  const link = (x: number, y: number, differ: boolean) => {
+    for (const [from, to] of [
+      [x, y],
+      [y, x],
+    ]) {
+      if (!links.has(from)) links.set(from, []);
+      links.get(from)!.push({ bond: to, differ });
+    }
+  };
+
+  mol.bonds.forEach((bond, d) => {
+    if (bond.order !== 2) return;
+    const ends = [bond.begin, bond.end].map((atom) => {
+      const singles = adjacency[atom]
+        .filter((b) => b !== d && mol.bonds[b].order === 1)
+        .sort((p, q) => ranks[otherAtom(mol.bonds[p], atom)] - ranks[otherAtom(mol.bonds[q], atom)]);
+      return { atom, marked: singles.find((b) => mol.bonds[b].stereo), chosen: singles[0] };
+    });
+    if (ends.some((end) => end.marked === undefined)) return;
+    // Marks written outward from the double bond differ for trans
+    // neighbours (F/C=C/F) and match for cis ones (F/C=C\F)
+    const outward = ends.map((end) => directionFrom(mol.bonds[end.marked!], end.atom));
+    let trans = outward[0] !== outward[1];
+    // The other neighbour at an end is on the opposite side
+    ends.forEach((end) => {
+      if (end.chosen !== end.marked) trans = !trans;
+    });
+    // A bond written towards the double bond shows the outward mark flipped
+    const inward = ends.filter((end) => writtenFrom[end.chosen] !== end.atom).length;
+    link(ends[0].chosen, ends[1].chosen, trans !== (inward === 1));
+  });
+
+  const directions = new Map<number, Direction>();
+  for (const start of emitted) {
+    if (!links.has(start) || directions.has(start)) continue;
+    directions.set(start, '/');
+    const queue = [start];
+    while (queue.length > 0) {
+      const bond = queue.shift()!;
+      for (const { bond: other, differ } of links.get(bond)!) {
+        if (directions.has(other)) continue;
+        directions.set(other, differ ? flip(directions.get(bond)!) : directions.get(bond)!);
+        queue.push(other);
+      }
+    }
+  }
+  return directions;
+}
+
+export function writeSmiles(mol: Molecule, options: WriteSmilesOptions = {}): string {
+  const { canonical = true, isomeric = true } = options;
+  const adjacency = atomBonds(mol);
+  const ranks = canonical ? canonicalRanks(mol) : mol.atoms.map((_, i) => i);
+  const byRank = (a: number, b: number) => ranks[a] - ranks[b];
+
+  // First pass: spanning forest and ring-closure bonds.
+  const visited = new Array<boolean>(mol.atoms.length).fill(false);
+  const usedBond = new Array<boolean>(mol.bonds.length).fill(false);
+  const parentBond = new Array<number>(mol.atoms.length).fill(-1);
+  // Atom each bond is written from: the parent, or where a ring opens
+  const writtenFrom = new Array<number>(mol.bonds.length).fill(-1);
+  const children: number[][] = mol.atoms.map(() => []);
+  const closures: RingClosure[][] = mol.atoms.map(() => []);
+  const roots: number[] = [];
+
+  const visit = (atom: number) => {
+    visited[atom] = true;
+    const next = adjacency[atom]
+      .map((bond) => ({ bond, partner: otherAtom(mol.bonds[bond], atom) }))
+      .sort((a, b) => byRank(a.partner, b.partner));
+    for (const { bond, partner } of next) {
+      if (usedBond[bond]) continue;
+      usedBond[bond] = true;
+      writtenFrom[bond] = visited[partner] ? partner : atom;
+      if (visited[partner]) {
+        closures[partner].push({ bond, partner: atom, opening: true });
+        closures[atom].push({ bond, partner, opening: false });
+      } else {
+        parentBond[partner] = bond;
+        children[atom].push(partner);
+        visit(partner);
+      }
+    }
+  };
+  for (const start of mol.atoms.map((_, i) => i).sort(byRank)) {
+    if (!visited[start]) {
+      roots.push(start);
+      visit(start);
+    }
+  }
+
+  const closureEntries = (atom: number) =>
+    [...closures[atom]].sort((a, b) => Number(a.opening) - Number(b.opening) || byRank(a.partner, b.partner));
+
+  // Bonds in the order their symbols are written
+  const emitted: number[] = [];
+  const walk = (atom: number) => {
+    closureEntries(atom).forEach((entry) => entry.opening && emitted.push(entry.bond));
+    children[atom].forEach((child) => {
+      emitted.push(parentBond[child]);
+      walk(child);
+    });
+  };
+  roots.forEach(walk);
+  const directions = canonical && isomeric ? canonicalDirections(mol, ranks, writtenFrom, emitted) : null;
+
+  // Every bond symbol is written from writtenFrom[b].
+  const bondSymbol = (b: number, from: number): string => {
+    const bond = mol.bonds[b];
+    const to = otherAtom(bond, from);
+    const aromatic = mol.atoms[from].aromatic && mol.atoms[to].aromatic;
+    switch (bond.order) {
+      case 1: {
+        const direction = isomeric ? (directions ? directions.get(b) : directionFrom(bond, from)) : null;
+        if (direction) return direction;
+        return aromatic ? '-' : '';
+      }
+      case AROMATIC:
+        return aromatic ? '' : ':';
+      case 2:
+        return '=';
+      case 3:
+        return '#';
+      default:
+        return '$';
+    }
+  };
+
+  const atomSymbol = (atom: number, order: number[]): string => {
+    const a = mol.atoms[atom];
+    const lower = a.element.toLowerCase();
+    const symbol = a.aromatic && aromaticSymbols.has(lower) ? lower : a.element;
+    const chirality = isomeric ? writtenChirality(a, order) : null;
+    const isotope = isomeric ? a.isotope : null;
+    const organic = organicSubset.has(a.element) || a.element === '*';
+    const expectedHydrogens = a.element === '*' ? 0 : implicitHydrogens(mol, atom);
+    if (
+      organic &&
+      a.charge === 0 &&
+      isotope === null &&
+      chirality === null &&
+      a.atomClass === null &&
+      a.hydrogens === expectedHydrogens
+    ) {
+      return symbol;
+    }
+    let text = '[' + (isotope ?? '') + symbol + (chirality ?? '');
+    if (a.hydrogens > 0) text += 'H' + (a.hydrogens > 1 ? a.hydrogens : '');
+    if (a.charge !== 0) text += (a.charge > 0 ? '+' : '-') + (Math.abs(a.charge) > 1 ? Math.abs(a.charge) : '');
+    if (a.atomClass !== null) text += ':' + a.atomClass;
+    return text + ']';
+  };
+
+  // Second pass: emit atoms, reusing the lowest free ring-closure digit.
+  const digits = new Map<number, number>();
+  const inUse = new Set<number>();
+  const label = (digit: number) => (digit < 10 ? String(digit) : '%' + digit);
+
+  const write = (atom: number, parent: number): string => {
+    const entries = closureEntries(atom);
+    const order = [
+      ...(parent >= 0 ? [parent] : []),
+      ...(mol.atoms[atom].hydrogens > 0 ? [-1] : []),
+      ...entries.map((entry) => entry.partner),
+      ...children[atom],
+    ];
+    let text = atomSymbol(atom, order);
+    const released: number[] = [];
+    for (const entry of entries) {
+      if (entry.opening) {
+        let digit = 1;
+        while (inUse.has(digit)) digit++;
+        inUse.add(digit);
+        digits.set(entry.bond, digit);
+        text += bondSymbol(entry.bond, atom) + label(digit);
+      } else {
+        const digit = digits.get(entry.bond)!;
+        released.push(digit);
+        text += label(digit);
+      }
+    }
+    released.forEach((digit) => inUse.delete(digit));
+    children[atom].forEach((child, i) => {
+      const branch = bondSymbol(parentBond[child], atom) + write(child, atom);
+      text += i < children[atom].length - 1 ? '(' + branch + ')' : branch;
+    });
+    return text;
+  };
+
+  return roots.map((root) => write(root, -1)).join('.');
+}
+
+// Chirality tag for the neighbour order the writer emits, or null when the
+// stored reference order no longer matches the atom's neighbours.
+function writtenChirality(atom: Atom, order: number[]): Chirality | null {
+  const stored = atom.stereoNeighbors;
+  if (!atom.chirality || !stored || stored.length !== order.length) return null;
+  const permutation = order.map((n) => stored.indexOf(n));
+  if (permutation.includes(-1) || new Set(permutation).size !== permutation.length) return null;
+  let inversions = 0;
+  for (let i = 0; i < permutation.length; i++) {
+    for (let j = i + 1; j < permutation.length; j++) {
+      if (permutation[i] > permutation[j]) inversions++;
+    }
+  }
+  if (inversions % 2 === 0) return atom.chirality;
+  return atom.chirality === '@' ? '@@' : '@';
+}
+
+export function canonicalSmiles(smiles: string): string {
+  return writeSmiles(parseSmiles(smiles));
+}
@@ -0,0 +1,8 @@
+import type { AlgorithmType, CodeTemplate, TargetLanguage } from '@/lib/algorithms';
+import { pythonTemplates } from './python';
+import { typescriptTemplates } from './typescript';
+
+export const codeTemplates: Record<Exclude<TargetLanguage, 'pseudocode'>, Record<AlgorithmType, CodeTemplate>> = {
+  typescript: typescriptTemplates,
+  'python-rdkit': pythonTemplates,
+};
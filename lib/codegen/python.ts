@@ -0,0 +1,2298 @@
+import type { AlgorithmParameters, AlgorithmType, CodeTemplate } from '@/lib/algorithms';
+import { isShapeMethod } from '@/lib/chem/shape';
+
+// Generated Python targets RDKit with NumPy and scikit-learn:
+// `pip install rdkit numpy scikit-learn` and `python <file>.py`.
+
+// Renders a JSON-compatible value as a Python literal.
+export function pythonLiteral(value: unknown): string {
+  if (value === null || value === undefined) return 'None';
+  if (typeof value === 'boolean') return value ? 'True' : 'False';
+  if (typeof value === 'number' || typeof value === 'string') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(pythonLiteral).join(', ')}]`;
+  return `{${Object.entries(value as Record<string, unknown>)
+    .map(([key, v]) => `${JSON.stringify(key)}: ${pythonLiteral(v)}`)
+    .join(', ')}}`;
+}
+
+const literal = pythonLiteral;
+
+const header = (title: string, parameters: AlgorithmParameters, requirements = 'rdkit numpy') => `"""${title} (Python/RDKit)
+
+Generated by the Cheminformatics Algorithm Generator.
+
+Requires: pip install ${requirements}
+Run:      python <this file>.py   (executes the self-check at the bottom)
+
+Configured parameters:
+${JSON.stringify(parameters, null, 2)
+  .split('\n')
+  .map((line) => `    ${line}`)
+  .join('\n')}
+"""
+`;
+
+const selfCheckFooter = `
+
+if __name__ == "__main__":
+    self_check()
+    print("Self-check passed")
+`;
+
+const fingerprintHelpers = `
+def generate_fingerprint(smiles, radius, n_bits):
+    mol = Chem.MolFromSmiles(smiles)
+    if mol is None:
+        return None
+    return AllChem.GetMorganFingerprintAsBitVect(mol, radius, nBits=n_bits)
+
+
+def calculate_similarity(fp1, fp2, method):
+    if method == "dice":
+        return DataStructs.DiceSimilarity(fp1, fp2)
+    if method == "cosine":
+        return DataStructs.CosineSimilarity(fp1, fp2)
+    if method == "euclidean":
+        # Euclidean distance scaled by its largest value for these bit counts
+        a, b = fp1.GetNumOnBits(), fp2.GetNumOnBits()
+        c = (fp1 & fp2).GetNumOnBits()
+        return 0.0 if a + b == 0 else 1 - math.sqrt((a + b - 2 * c) / (a + b))
+    return DataStructs.TanimotoSimilarity(fp1, fp2)
+`;
+
+const descriptorHelpers = `
+DESCRIPTOR_FUNCTIONS = {
+    "MW": Descriptors.MolWt,
+    "LogP": Crippen.MolLogP,
+    "TPSA": rdMolDescriptors.CalcTPSA,
+    "HBD": Lipinski.NumHDonors,
+    "HBA": Lipinski.NumHAcceptors,
+    "RotatableBonds": rdMolDescriptors.CalcNumRotatableBonds,
+    "MR": Crippen.MolMR,
+    "HeavyAtoms": lambda mol: mol.GetNumHeavyAtoms(),
+    "Rings": rdMolDescriptors.CalcNumRings,
+    "AromaticRings": rdMolDescriptors.CalcNumAromaticRings,
+    "FractionCSP3": rdMolDescriptors.CalcFractionCSP3,
+}
+
+
+def calculate_descriptors(smiles, names):
+    mol = Chem.MolFromSmiles(smiles)
+    if mol is None:
+        return None
+    return [DESCRIPTOR_FUNCTIONS[name](mol) for name in names]
+`;
+
+// Applicability domain over normalized descriptors (ECFP4 for knn-tanimoto).
+// Templates using it import numpy, DataStructs and rdFingerprintGenerator and
+// define APPLICABILITY_DOMAIN.
+const domainHelpers = `
+ECFP4 = rdFingerprintGenerator.GetMorganGenerator(radius=2, fpSize=2048)
+
+
+def domain_fingerprint(smiles):
+    mol = Chem.MolFromSmiles(smiles)
+    return None if mol is None else ECFP4.GetFingerprint(mol)
+
+
+def nearest_distance(fp, others, k):
+    distances = 1 - np.array(DataStructs.BulkTanimotoSimilarity(fp, others))
+    return float(np.sort(distances)[:k].mean())
+
+
+def negative_log_density(x, points, bandwidth):
+    exponents = -((points - x) ** 2).sum(axis=1) / (2 * bandwidth ** 2)
+    top = exponents.max()
+    return float(-(top + np.log(np.exp(exponents - top).mean())))
+
+
+def fit_domain(X, fps):
+    n, p = X.shape
+    if APPLICABILITY_DOMAIN == "bounding-box":
+        return {"min": X.min(axis=0), "max": X.max(axis=0)}
+    if APPLICABILITY_DOMAIN == "leverage":
+        design = np.hstack([np.ones((n, 1)), X])
+        # Warning leverage h* = 3(p + 1) / n
+        return {"inverse": np.linalg.pinv(design.T @ design), "threshold": 3 * (p + 1) / n}
+    if APPLICABILITY_DOMAIN == "knn-tanimoto":
+        k = max(1, min(5, n - 1))
+        knn = np.array([nearest_distance(fp, fps[:i] + fps[i + 1:], k) for i, fp in enumerate(fps)])
+        return {"fps": fps, "k": k, "threshold": float(knn.mean() + 0.5 * knn.std())}
+    # density: Gaussian kernel, Scott's rule bandwidth, 95% of training compounds in domain
+    bandwidth = n ** (-1 / (p + 4))
+    loo = np.sort([negative_log_density(X[i], np.delete(X, i, axis=0), bandwidth) for i in range(n)])
+    return {"X": X, "bandwidth": bandwidth, "threshold": float(loo[min(n - 1, int(np.ceil(0.95 * n)) - 1)])}
+
+
+# (in_domain, distance); larger distances are further from the training set
+def assess_domain(domain, x, fp):
+    if APPLICABILITY_DOMAIN == "bounding-box":
+        distance = float(max(0.0, np.max(np.maximum(domain["min"] - x, x - domain["max"]))))
+        return distance == 0, distance
+    if APPLICABILITY_DOMAIN == "leverage":
+        z = np.concatenate([[1.0], x])
+        distance = float(z @ domain["inverse"] @ z)
+    elif APPLICABILITY_DOMAIN == "knn-tanimoto":
+        distance = nearest_distance(fp, domain["fps"], domain["k"])
+    else:
+        distance = negative_log_density(x, domain["X"], domain["bandwidth"])
+    return distance <= domain["threshold"], distance
+`;
+
+// RDKit fingerprint generator for the configured type, None for MACCS.
+// Templates using it import rdFingerprintGenerator and define
+// FINGERPRINT_TYPE, RADIUS, BIT_LENGTH and MAX_PATH_LENGTH.
+const fingerprintGeneratorHelpers = `
+def make_generator():
+    kind = FINGERPRINT_TYPE.upper()
+    if kind.startswith("ECFP"):
+        return rdFingerprintGenerator.GetMorganGenerator(radius=RADIUS, fpSize=BIT_LENGTH)
+    if kind.startswith("FCFP"):
+        return rdFingerprintGenerator.GetMorganGenerator(
+            radius=RADIUS,
+            fpSize=BIT_LENGTH,
+            atomInvariantsGenerator=rdFingerprintGenerator.GetMorganFeatureAtomInvGen(),
+        )
+    if kind == "ATOM-PAIR":
+        return rdFingerprintGenerator.GetAtomPairGenerator(fpSize=BIT_LENGTH)
+    if kind == "TOPOLOGICAL-TORSION":
+        return rdFingerprintGenerator.GetTopologicalTorsionGenerator(fpSize=BIT_LENGTH)
+    if kind == "PATH":
+        return rdFingerprintGenerator.GetRDKitFPGenerator(maxPath=MAX_PATH_LENGTH, fpSize=BIT_LENGTH)
+    # MACCS keys have a fixed definition and no generator
+    return None
+
+
+GENERATOR = make_generator()
+`;
+
+const molecularSimilarity: CodeTemplate = (p) => `${header('Molecular Similarity Search Algorithm', p)}
+import numpy as np
+from rdkit import Chem
+from rdkit.Chem import MACCSkeys, rdFingerprintGenerator
+
+SIMILARITY_THRESHOLD = ${literal(p.similarityThreshold)}
+METHOD = ${literal(p.method)}
+MAX_RESULTS = ${literal(p.maxResults)}
+FINGERPRINT_TYPE = ${literal(p.fingerprintType)}
+RADIUS = ${literal(p.radius ?? 2)}
+BIT_LENGTH = ${literal(p.bitLength)}
+USE_COUNTS = ${literal(p.useCounts ?? false)}
+MAX_PATH_LENGTH = ${literal(p.maxPathLength ?? 7)}
+TVERSKY_ALPHA = ${literal(p.tverskyAlpha ?? 0.9)}
+TVERSKY_BETA = ${literal(p.tverskyBeta ?? 0.1)}
+
+${fingerprintGeneratorHelpers}
+
+def generate_fingerprint(smiles):
+    mol = Chem.MolFromSmiles(smiles)
+    if mol is None:
+        return None
+    if GENERATOR is None:
+        return np.array(list(MACCSkeys.GenMACCSKeys(mol)), dtype=float)
+    if USE_COUNTS:
+        return GENERATOR.GetCountFingerprintAsNumPy(mol).astype(float)
+    return GENERATOR.GetFingerprintAsNumPy(mol).astype(float)
+
+
+def calculate_similarity(fp1, fp2, method):
+    # Tanimoto, Dice, Tversky and Russell-Rao compare feature presence;
+    # cosine, Euclidean and Soergel use the counts of count fingerprints.
+    a, b = np.count_nonzero(fp1), np.count_nonzero(fp2)
+    c = np.count_nonzero((fp1 > 0) & (fp2 > 0))
+    if method == "dice":
+        return 0.0 if a + b == 0 else 2 * c / (a + b)
+    if method == "cosine":
+        norm = np.linalg.norm(fp1) * np.linalg.norm(fp2)
+        return 0.0 if norm == 0 else float(fp1 @ fp2 / norm)
+    if method == "euclidean":
+        # Euclidean distance scaled by its largest value for these vectors
+        total = fp1 @ fp1 + fp2 @ fp2
+        return 0.0 if total == 0 else float(1 - np.sqrt(np.sum((fp1 - fp2) ** 2) / total))
+    if method == "tversky":
+        denominator = TVERSKY_ALPHA * (a - c) + TVERSKY_BETA * (b - c) + c
+        return 0.0 if denominator == 0 else c / denominator
+    if method == "soergel":
+        high = np.maximum(fp1, fp2).sum()
+        return 0.0 if high == 0 else float(np.minimum(fp1, fp2).sum() / high)
+    if method == "russell-rao":
+        return c / len(fp1)
+    return 0.0 if a + b - c == 0 else c / (a + b - c)
+
+
+def calculate_confidence(similarity):
+    # Distance above the threshold, rescaled to [0, 1].
+    if SIMILARITY_THRESHOLD >= 1:
+        return 1.0
+    return (similarity - SIMILARITY_THRESHOLD) / (1 - SIMILARITY_THRESHOLD)
+
+
+def molecular_similarity_search(query_smiles, database, threshold=SIMILARITY_THRESHOLD):
+    query_fingerprint = generate_fingerprint(query_smiles)
+    if query_fingerprint is None:
+        raise ValueError("Invalid query SMILES: %s" % query_smiles)
+
+    results = []
+    for smiles in database:
+        compound_fingerprint = generate_fingerprint(smiles)
+        if compound_fingerprint is None:
+            print("Skipping invalid SMILES: %s" % smiles)
+            continue
+        similarity = calculate_similarity(query_fingerprint, compound_fingerprint, METHOD)
+        if similarity >= threshold:
+            results.append({
+                "compound": smiles,
+                "similarity": similarity,
+                "confidence": calculate_confidence(similarity),
+            })
+
+    results.sort(key=lambda x: x["similarity"], reverse=True)
+    return results[:MAX_RESULTS]
+
+
+def self_check():
+    aspirin = "CC(=O)Oc1ccccc1C(=O)O"
+    library = [
+        aspirin,
+        "OC(=O)c1ccccc1O",  # salicylic acid
+        "CC(=O)Nc1ccc(O)cc1",  # paracetamol
+        "CC(C)Cc1ccc(cc1)C(C)C(=O)O",  # ibuprofen
+        "Cn1cnc2c1c(=O)n(C)c(=O)n2C",  # caffeine
+        "not a smiles",
+    ]
+
+    hits = molecular_similarity_search(aspirin, library, threshold=0.0)
+    assert len(hits) == len(library) - 1, "invalid SMILES should be skipped"
+    assert hits[0]["compound"] == aspirin, "query should rank first against itself"
+    # Russell-Rao divides by the fingerprint length, so only it stays below 1
+    assert METHOD == "russell-rao" or abs(hits[0]["similarity"] - 1) < 1e-9, "query should match itself"
+    assert all(a["similarity"] >= b["similarity"] for a, b in zip(hits, hits[1:])), "hits should be sorted"
+    assert all(h["similarity"] >= SIMILARITY_THRESHOLD for h in molecular_similarity_search(aspirin, library)), \\
+        "threshold should be applied"
+
+    for hit in hits:
+        print("%.3f  %s" % (hit["similarity"], hit["compound"]))
+${selfCheckFooter}`;
+
+const qsarModel: CodeTemplate = (p) => `${header('QSAR Model Generation Algorithm', p, 'rdkit numpy scikit-learn')}
+import numpy as np
+from rdkit import Chem, DataStructs
+from rdkit.Chem import Crippen, Descriptors, Lipinski, rdFingerprintGenerator, rdMolDescriptors
+from sklearn.ensemble import RandomForestRegressor
+from sklearn.metrics import r2_score
+from sklearn.model_selection import KFold
+from sklearn.preprocessing import StandardScaler
+
+DESCRIPTORS = ${literal(p.descriptors)}
+K_FOLDS = ${literal(p.kFolds)}
+MAX_ITERATIONS = ${literal(p.maxIterations)}
+APPLICABILITY_DOMAIN = ${literal(p.applicabilityDomain)}
+# One tree per iteration, capped at the forest size used in the pseudocode.
+N_ESTIMATORS = max(1, min(100, MAX_ITERATIONS))
+${descriptorHelpers}${domainHelpers}
+
+def new_model(seed):
+    return RandomForestRegressor(
+        n_estimators=N_ESTIMATORS,
+        max_depth=10,
+        min_samples_split=5,
+        random_state=seed,
+    )
+
+
+def generate_qsar_model(training_set):
+    descriptor_matrix = []
+    activity_values = []
+    fingerprints = []
+    for smiles, activity in training_set:
+        descriptors = calculate_descriptors(smiles, DESCRIPTORS)
+        if descriptors is None:
+            print("Skipping invalid SMILES: %s" % smiles)
+            continue
+        descriptor_matrix.append(descriptors)
+        activity_values.append(activity)
+        fingerprints.append(domain_fingerprint(smiles))
+
+    X = np.array(descriptor_matrix, dtype=float)
+    y = np.array(activity_values, dtype=float)
+    if len(y) < K_FOLDS:
+        raise ValueError("Need at least %d valid compounds for %d-fold cross-validation" % (K_FOLDS, K_FOLDS))
+
+    # Feature selection (drop constant descriptors) and normalization
+    selected = [j for j in range(X.shape[1]) if X[:, j].std() > 0]
+    scaler = StandardScaler().fit(X[:, selected])
+    normalized = scaler.transform(X[:, selected])
+
+    cv_scores = []
+    for fold, (train, test) in enumerate(KFold(n_splits=K_FOLDS, shuffle=True, random_state=0).split(normalized)):
+        model = new_model(fold + 1)
+        model.fit(normalized[train], y[train])
+        cv_scores.append(r2_score(y[test], model.predict(normalized[test])))
+
+    # Final model training on the full dataset
+    model = new_model(0)
+    model.fit(normalized, y)
+    names = [DESCRIPTORS[j] for j in selected]
+    return {
+        "model": model,
+        "scaler": scaler,
+        "selected": selected,
+        "activity_spread": float(y.std()),
+        "cv_score": float(np.mean(cv_scores)),
+        "feature_importance": dict(zip(names, model.feature_importances_.tolist())),
+        "descriptors": names,
+        "domain": fit_domain(normalized, fingerprints),
+    }
+
+
+def predict_activity(qsar, smiles):
+    descriptors = calculate_descriptors(smiles, DESCRIPTORS)
+    if descriptors is None:
+        raise ValueError("Invalid SMILES: %s" % smiles)
+    x = qsar["scaler"].transform(np.array([descriptors], dtype=float)[:, qsar["selected"]])
+    votes = np.array([tree.predict(x)[0] for tree in qsar["model"].estimators_])
+    prediction = float(votes.mean())
+    # Agreement between trees relative to the spread of the training activities
+    spread = qsar["activity_spread"]
+    confidence = 1.0 if spread == 0 else max(0.0, 1 - float(votes.std()) / spread)
+    in_domain, distance = assess_domain(qsar["domain"], x[0], domain_fingerprint(smiles))
+    return prediction, confidence, in_domain, distance
+
+
+def self_check():
+    # Experimental octanol/water logP values as a small, well-behaved endpoint
+    training_set = [
+        ("CO", -0.77), ("CCO", -0.31), ("CCCO", 0.25), ("CCCCO", 0.88),
+        ("CCCCCO", 1.51), ("CCCCCCO", 2.03), ("c1ccccc1", 2.13), ("Cc1ccccc1", 2.73),
+        ("Oc1ccccc1", 1.46), ("Nc1ccccc1", 0.90), ("Clc1ccccc1", 2.84),
+        ("O=[N+]([O-])c1ccccc1", 1.85), ("OC(=O)c1ccccc1", 1.87), ("CC(C)=O", -0.24),
+        ("CC(=O)O", -0.17), ("c1ccncc1", 0.65),
+    ]
+    qsar = generate_qsar_model(training_set)
+    assert np.isfinite(qsar["cv_score"]), "cross-validated R2 should be finite"
+    assert abs(sum(qsar["feature_importance"].values()) - 1) < 1e-6, "importances should sum to 1"
+
+    prediction, confidence, in_domain, distance = predict_activity(qsar, "CCc1ccccc1")
+    assert np.isfinite(prediction), "prediction should be a number"
+    assert 0 <= confidence <= 1, "confidence should be in [0, 1]"
+    assert np.isfinite(distance), "domain distance should be a number"
+    # A large drug-like amide sits far outside this set of small solvents
+    outside = predict_activity(qsar, "CC(C)(C)c1ccc(cc1)C(=O)NC1CCN(CC1)C(=O)c1ccc2ccccc2c1")
+    assert not outside[2], "large amide should be outside the applicability domain"
+
+    print("CV R2: %.3f" % qsar["cv_score"])
+    print("Feature importance: %s" % qsar["feature_importance"])
+    print("Ethylbenzene: %.2f (confidence %.2f, %s domain, %s distance %.3f)"
+          % (prediction, confidence, "in" if in_domain else "outside", APPLICABILITY_DOMAIN, distance))
+${selfCheckFooter}`;
+
+const compoundScreening: CodeTemplate = (p) => `${header('High-Throughput Virtual Screening Algorithm', p)}
+import math
+
+from rdkit import Chem, DataStructs
+from rdkit.Chem import AllChem, Crippen, Descriptors, Lipinski, rdMolDescriptors
+from rdkit.Chem.FilterCatalog import FilterCatalog, FilterCatalogParams
+
+LIBRARY_SIZE = ${literal(p.librarySize)}
+FILTER_STAGES = ${literal(p.filterStages)}
+CUTOFF_THRESHOLD = ${literal(p.cutoffThreshold)}
+MAX_HITS = ${literal(p.maxHits)}
+MAX_DOCKED = 1000
+
+_params = FilterCatalogParams()
+_params.AddCatalog(FilterCatalogParams.FilterCatalogs.PAINS)
+PAINS_CATALOG = FilterCatalog(_params)
+${fingerprintHelpers}${descriptorHelpers}
+
+def passes_rule_of_five(smiles):
+    values = calculate_descriptors(smiles, ["MW", "LogP", "HBD", "HBA"])
+    if values is None:
+        return False
+    mw, log_p, hbd, hba = values
+    return mw <= 500 and log_p <= 5 and hbd <= 5 and hba <= 10
+
+
+def passes_pains_filter(smiles):
+    mol = Chem.MolFromSmiles(smiles)
+    return mol is not None and not PAINS_CATALOG.HasMatch(mol)
+
+
+def virtual_screening_pipeline(compound_library, query_ligand, dock=None):
+    """Runs the three-stage cascade.
+
+    \`dock\` scores a ligand against the target and returns
+    (docking_score, binding_energy) with docking_score normalised to [0, 1];
+    stage 3 is skipped when it is None.
+    """
+    # Stage 1: Rule-based filtering
+    library = compound_library[:LIBRARY_SIZE]
+    if "rule-of-five" in FILTER_STAGES:
+        filtered = [s for s in library if passes_rule_of_five(s) and passes_pains_filter(s)]
+    else:
+        filtered = list(library)
+    print("Stage 1: ", len(filtered), "compounds passed filters")
+
+    # Stage 2: Ligand-based screening
+    query_fp = generate_fingerprint(query_ligand, 2, 2048)
+    if query_fp is None:
+        raise ValueError("Invalid query SMILES: %s" % query_ligand)
+    similar_compounds = []
+    for smiles in filtered:
+        fp = generate_fingerprint(smiles, 2, 2048)
+        if fp is None:
+            continue
+        similarity = calculate_similarity(query_fp, fp, "tanimoto")
+        if "similarity" not in FILTER_STAGES or similarity >= CUTOFF_THRESHOLD:
+            similar_compounds.append({"compound": smiles, "similarity": similarity})
+    print("Stage 2: ", len(similar_compounds), "similar compounds")
+
+    # Stage 3: Structure-based docking
+    similar_compounds.sort(key=lambda x: x["similarity"], reverse=True)
+    use_docking = dock is not None and "docking" in FILTER_STAGES
+    docking_results = []
+    for entry in similar_compounds[:MAX_DOCKED]:
+        if use_docking:
+            docking_score, binding_energy = dock(entry["compound"])
+            combined = 0.4 * entry["similarity"] + 0.6 * docking_score
+        else:
+            docking_score, binding_energy, combined = None, None, entry["similarity"]
+        docking_results.append(dict(entry, dockingScore=docking_score, bindingEnergy=binding_energy,
+                                    combinedScore=combined))
+    print("Stage 3: ", "%d compounds docked" % len(docking_results) if use_docking else "docking skipped")
+
+    # Final ranking and selection
+    docking_results.sort(key=lambda x: x["combinedScore"], reverse=True)
+    return docking_results[:MAX_HITS]
+
+
+def self_check():
+    query = "CC(=O)Nc1ccc(O)cc1"  # paracetamol
+    library = [
+        "CC(=O)Nc1ccc(O)cc1",
+        "CC(=O)Nc1ccc(OC)cc1",
+        "CCOc1ccc(NC(C)=O)cc1",  # phenacetin
+        "O=C1C=CC(=O)C=C1",  # benzoquinone, PAINS quinone
+        "CCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCC",  # fails rule of five (logP)
+    ]
+
+    def stub_docking(smiles):
+        # Deterministic stand-in for a docking engine: favours smaller ligands.
+        binding_energy = -0.3 * Chem.MolFromSmiles(smiles).GetNumHeavyAtoms()
+        return min(1.0, -binding_energy / 12), binding_energy
+
+    assert not passes_pains_filter("O=C1C=CC(=O)C=C1"), "quinone should trigger a PAINS alert"
+    assert passes_pains_filter(query), "paracetamol should pass PAINS"
+    assert not passes_rule_of_five(library[4]), "long alkane should fail the rule of five"
+
+    hits = virtual_screening_pipeline(library, query, dock=stub_docking)
+    assert hits and hits[0]["similarity"] >= CUTOFF_THRESHOLD, "query analogue should be a hit"
+    for hit in hits:
+        expected = 0.4 * hit["similarity"] + 0.6 * hit["dockingScore"]
+        assert abs(hit["combinedScore"] - expected) < 1e-9, "combined score formula"
+        print("%.3f  %s" % (hit["combinedScore"], hit["compound"]))
+${selfCheckFooter}`;
+
+const structureOptimization: CodeTemplate = (p) => `${header('Molecular Structure Optimization Algorithm', p)}
+import math
+import os
+import random
+import sys
+
+from rdkit import Chem, DataStructs, RDConfig
+from rdkit.Chem import AllChem, QED
+
+sys.path.append(os.path.join(RDConfig.RDContribDir, "SA_Score"))
+import sascorer  # noqa: E402  (ships with RDKit Contrib)
+
+POPULATION_SIZE = ${literal(p.populationSize)}
+GENERATIONS = ${literal(p.generations)}
+MUTATION_RATE = ${literal(p.mutationRate)}
+CROSSOVER_RATE = ${literal(p.crossoverRate)}
+# "weighted-sum" folds the objectives into one fitness; "pareto" runs NSGA-II
+OPTIMIZATION_MODE = ${literal(p.optimizationMode ?? 'weighted-sum')}
+OBJECTIVES = [o if isinstance(o, dict) else {"name": o, "direction": "maximize"}
+              for o in ${literal(p.objectives)}]
+# Hypervolume reference in oriented objective space (every objective maximized)
+REFERENCE_POINT = ${p.referencePoint ? literal(p.referencePoint) : '[0.0] * len(OBJECTIVES)'}
+TOURNAMENT_SIZE = 3
+
+WEIGHTS = {"potency": 0.4, "selectivity": 0.3, "drug-likeness": 0.2, "qed": 0.2, "synthetic-accessibility": 0.1}
+SUBSTITUENTS = ["C", "F", "Cl", "O", "N", "C(=O)O", "C#N", "OC", "C(F)(F)F"]
+ATOM_SWAPS = {6: [7, 8], 7: [6, 8], 8: [7, 16], 16: [8]}
+
+
+def canonical(mol):
+    try:
+        Chem.SanitizeMol(mol)
+        return Chem.MolToSmiles(mol)
+    except Exception:
+        return None
+
+
+def mutate(smiles, rng):
+    mol = Chem.MolFromSmiles(smiles)
+    if mol is None:
+        return None
+    rw = Chem.RWMol(mol)
+    atom = rw.GetAtomWithIdx(rng.randrange(rw.GetNumAtoms()))
+    operator = rng.randrange(3)
+    if operator == 0:
+        # Add a substituent on an atom with a free hydrogen
+        if atom.GetTotalNumHs() == 0:
+            return None
+        fragment = Chem.MolFromSmiles(rng.choice(SUBSTITUENTS))
+        combined = Chem.RWMol(Chem.CombineMols(rw, fragment))
+        combined.AddBond(atom.GetIdx(), rw.GetNumAtoms(), Chem.BondType.SINGLE)
+        return canonical(combined)
+    if operator == 1:
+        # Swap an atom for an isosteric element
+        options = ATOM_SWAPS.get(atom.GetAtomicNum())
+        if not options:
+            return None
+        atom.SetAtomicNum(rng.choice(options))
+        atom.SetNoImplicit(False)
+        atom.SetNumExplicitHs(0)
+        return canonical(rw)
+    # Remove a terminal atom
+    if atom.GetDegree() != 1 or rw.GetNumAtoms() < 3:
+        return None
+    rw.RemoveAtom(atom.GetIdx())
+    return canonical(rw)
+
+
+def crossover(a, b, rng):
+    """Joins a fragment of each parent across a random acyclic single bond."""
+    pieces = []
+    for smiles in (a, b):
+        mol = Chem.MolFromSmiles(smiles)
+        cuttable = [bond.GetIdx() for bond in mol.GetBonds()
+                    if bond.GetBondType() == Chem.BondType.SINGLE and not bond.IsInRing()]
+        if not cuttable:
+            return None
+        fragmented = Chem.FragmentOnBonds(mol, [rng.choice(cuttable)], dummyLabels=[(1, 1)])
+        pieces.append(rng.choice(Chem.GetMolFrags(fragmented, asMols=True)))
+    try:
+        joined = Chem.molzip(pieces[0], pieces[1])
+    except Exception:
+        return None
+    return canonical(Chem.RWMol(joined))
+
+
+def objective_scores(smiles, predict_potency, calculate_selectivity):
+    mol = Chem.MolFromSmiles(smiles)
+    if mol is None:
+        return None
+    return {
+        "potency": predict_potency(smiles),
+        "selectivity": calculate_selectivity(smiles),
+        "drug-likeness": QED.qed(mol),
+        "qed": QED.qed(mol),
+        # SA score runs from 1 (easy) to 10 (hard)
+        "synthetic-accessibility": (10 - sascorer.calculateScore(mol)) / 9,
+    }
+
+
+def oriented_values(scores):
+    """Scores flipped so every objective is maximized."""
+    values = []
+    for objective in OBJECTIVES:
+        score = scores.get(objective["name"], 0)
+        values.append(1 - score if objective["direction"] == "minimize" else score)
+    return values
+
+
+def constraint_violation(scores):
+    """Summed excess outside the objective bounds; 0 for feasible molecules."""
+    violation = 0.0
+    for objective in OBJECTIVES:
+        score = scores.get(objective["name"], 0)
+        if objective.get("min") is not None and score < objective["min"]:
+            violation += objective["min"] - score
+        if objective.get("max") is not None and score > objective["max"]:
+            violation += score - objective["max"]
+    return violation
+
+
+def evaluate_fitness(smiles, predict_potency, calculate_selectivity):
+    scores = objective_scores(smiles, predict_potency, calculate_selectivity)
+    if scores is None:
+        return 0.0
+    # Weighted sum over the configured objectives (SA is always included),
+    # with bound violations as a penalty
+    names = [objective["name"] for objective in OBJECTIVES]
+    fitness = 0.0 if "synthetic-accessibility" in names else \
+        WEIGHTS["synthetic-accessibility"] * scores["synthetic-accessibility"]
+    for name, value in zip(names, oriented_values(scores)):
+        fitness += WEIGHTS.get(name, 0) * value
+    return fitness - constraint_violation(scores)
+
+
+def default_scorers(seed_mol, predict_potency, calculate_selectivity):
+    seed_fp = AllChem.GetMorganFingerprintAsBitVect(seed_mol, 2, nBits=2048)
+    if predict_potency is None:
+        # Default potency proxy keeps the search anchored on the seed
+        def predict_potency(smiles):
+            fp = AllChem.GetMorganFingerprintAsBitVect(Chem.MolFromSmiles(smiles), 2, nBits=2048)
+            return DataStructs.TanimotoSimilarity(seed_fp, fp)
+    if calculate_selectivity is None:
+        def calculate_selectivity(smiles):
+            return 1.0
+    return predict_potency, calculate_selectivity
+
+
+def optimize_molecular_structure(seed_molecule, predict_potency=None, calculate_selectivity=None,
+                                 population_size=POPULATION_SIZE, generations=GENERATIONS, seed=42):
+    rng = random.Random(seed)
+    seed_mol = Chem.MolFromSmiles(seed_molecule)
+    if seed_mol is None:
+        raise ValueError("Invalid seed SMILES: %s" % seed_molecule)
+    seed_smiles = Chem.MolToSmiles(seed_mol)
+    predict_potency, calculate_selectivity = default_scorers(seed_mol, predict_potency, calculate_selectivity)
+
+    cache = {}
+
+    def fitness_of(smiles):
+        if smiles not in cache:
+            cache[smiles] = evaluate_fitness(smiles, predict_potency, calculate_selectivity)
+        return cache[smiles]
+
+    # Initialize population with variations of the seed
+    population = [seed_smiles]
+    attempts = 0
+    while len(population) < population_size and attempts < population_size * 20:
+        attempts += 1
+        variant = mutate(seed_smiles, rng)
+        if variant:
+            population.append(variant)
+    population += [seed_smiles] * (population_size - len(population))
+
+    best_molecule, best_score = seed_smiles, -math.inf
+    last_improvement = 0
+    generation = 0
+    for generation in range(generations):
+        fitness_scores = [fitness_of(m) for m in population]
+        for molecule, score in zip(population, fitness_scores):
+            if score > best_score + 1e-3:
+                last_improvement = generation
+            if score > best_score:
+                best_molecule, best_score = molecule, score
+
+        # Selection: tournament selection
+        def tournament():
+            contenders = rng.sample(range(len(population)), min(TOURNAMENT_SIZE, len(population)))
+            return population[max(contenders, key=lambda i: fitness_scores[i])]
+
+        parents = [tournament() for _ in population]
+
+        # Crossover: exchange molecular fragments
+        offspring = []
+        for i in range(0, len(parents) - 1, 2):
+            if rng.random() < CROSSOVER_RATE:
+                offspring.append(crossover(parents[i], parents[i + 1], rng) or parents[i])
+                offspring.append(crossover(parents[i + 1], parents[i], rng) or parents[i + 1])
+            else:
+                offspring.extend([parents[i], parents[i + 1]])
+        if len(offspring) < len(parents):
+            offspring.append(parents[-1])
+
+        # Mutation: modify functional groups; invalid products keep the parent
+        population = [(mutate(m, rng) or m) if rng.random() < MUTATION_RATE else m for m in offspring]
+        population[0] = best_molecule  # elitism
+
+        # Convergence check
+        if generation > 50 and generation - last_improvement > 50:
+            break
+
+    best = Chem.MolFromSmiles(best_molecule)
+    return {
+        "optimizedMolecule": best_molecule,
+        "finalScore": best_score,
+        "properties": {"QED": QED.qed(best), "SAscore": sascorer.calculateScore(best)},
+        "generations": generation,
+    }
+
+
+def dominates(a, b):
+    return all(x >= y for x, y in zip(a, b)) and any(x > y for x, y in zip(a, b))
+
+
+def fast_non_dominated_sort(points, violations):
+    """Constrained sort (Deb et al. 2002): feasible beats infeasible, smaller
+    violation beats larger, feasible points compare by domination."""
+    def beats(i, k):
+        if violations[i] == 0 and violations[k] == 0:
+            return dominates(points[i], points[k])
+        return violations[i] < violations[k]
+
+    dominated = [[] for _ in points]
+    domination_count = [0] * len(points)
+    for i in range(len(points)):
+        for k in range(i + 1, len(points)):
+            if beats(i, k):
+                dominated[i].append(k)
+                domination_count[k] += 1
+            elif beats(k, i):
+                dominated[k].append(i)
+                domination_count[i] += 1
+    fronts = []
+    front = [i for i in range(len(points)) if domination_count[i] == 0]
+    while front:
+        fronts.append(front)
+        following = []
+        for i in front:
+            for k in dominated[i]:
+                domination_count[k] -= 1
+                if domination_count[k] == 0:
+                    following.append(k)
+        front = following
+    return fronts
+
+
+def crowding_distance(points, front):
+    """Crowding distance per front member; boundary points get infinity."""
+    distance = [0.0] * len(front)
+    for j in range(len(points[front[0]]) if front else 0):
+        order = sorted(range(len(front)), key=lambda k: points[front[k]][j])
+        low, high = points[front[order[0]]][j], points[front[order[-1]]][j]
+        distance[order[0]] = distance[order[-1]] = math.inf
+        if high == low:
+            continue
+        for k in range(1, len(order) - 1):
+            distance[order[k]] += (points[front[order[k + 1]]][j] - points[front[order[k - 1]]][j]) / (high - low)
+    return distance
+
+
+def _non_dominated(points):
+    unique = list(dict.fromkeys(tuple(p) for p in points))
+    return [p for p in unique if not any(dominates(q, p) for q in unique)]
+
+
+def _sliced_volume(points):
+    """Volume dominated by points above the origin, sliced along the last
+    objective (HSO)."""
+    if not points:
+        return 0.0
+    if len(points[0]) == 1:
+        return max(p[0] for p in points)
+    ordered = sorted(points, key=lambda p: -p[-1])
+    volume = 0.0
+    for i, point in enumerate(ordered):
+        height = point[-1] - (ordered[i + 1][-1] if i + 1 < len(ordered) else 0)
+        if height > 0:
+            volume += height * _sliced_volume(_non_dominated([p[:-1] for p in ordered[:i + 1]]))
+    return volume
+
+
+def hypervolume(points, reference):
+    shifted = [tuple(v - r for v, r in zip(p, reference)) for p in points
+               if all(v > r for v, r in zip(p, reference))]
+    return _sliced_volume(_non_dominated(shifted))
+
+
+def optimize_pareto_front(seed_molecule, predict_potency=None, calculate_selectivity=None,
+                          population_size=POPULATION_SIZE, generations=GENERATIONS, seed=42):
+    rng = random.Random(seed)
+    seed_mol = Chem.MolFromSmiles(seed_molecule)
+    if seed_mol is None:
+        raise ValueError("Invalid seed SMILES: %s" % seed_molecule)
+    seed_smiles = Chem.MolToSmiles(seed_mol)
+    predict_potency, calculate_selectivity = default_scorers(seed_mol, predict_potency, calculate_selectivity)
+
+    cache = {}
+
+    def evaluate(smiles):
+        if smiles not in cache:
+            scores = objective_scores(smiles, predict_potency, calculate_selectivity)
+            cache[smiles] = (scores, oriented_values(scores), constraint_violation(scores))
+        return cache[smiles]
+
+    def rank_and_select(molecules, size):
+        """Ranks by front, then crowding; distinct molecules fill the
+        population before duplicates."""
+        distinct = list(dict.fromkeys(molecules))
+        points = [evaluate(m)[1] for m in distinct]
+        fronts = fast_non_dominated_sort(points, [evaluate(m)[2] for m in distinct])
+        selected = []
+        for rank, front in enumerate(fronts):
+            crowding = crowding_distance(points, front)
+            for k in sorted(range(len(front)), key=lambda k: -crowding[k]):
+                if len(selected) < size:
+                    selected.append((distinct[front[k]], rank, crowding[k]))
+        while len(selected) < size:
+            selected.append(selected[len(selected) % len(distinct)])
+        first = [distinct[i] for i in fronts[0] if evaluate(distinct[i])[2] == 0]
+        return selected, first
+
+    # Initialize population with variations of the seed
+    initial = [seed_smiles]
+    attempts = 0
+    while len(initial) < population_size and attempts < population_size * 20:
+        attempts += 1
+        variant = mutate(seed_smiles, rng)
+        if variant:
+            initial.append(variant)
+    population, pareto_front = rank_and_select(initial, population_size)
+    hypervolumes = []
+
+    generation = 0
+    for generation in range(generations):
+        # Binary tournament on (front rank, crowding distance)
+        def tournament():
+            a, b = rng.choice(population), rng.choice(population)
+            if a[1] != b[1]:
+                return a[0] if a[1] < b[1] else b[0]
+            return a[0] if a[2] >= b[2] else b[0]
+
+        offspring = []
+        while len(offspring) < population_size:
+            parent1, parent2 = tournament(), tournament()
+            if rng.random() < CROSSOVER_RATE:
+                children = [crossover(parent1, parent2, rng) or parent1, crossover(parent2, parent1, rng) or parent2]
+            else:
+                children = [parent1, parent2]
+            offspring += [(mutate(c, rng) or c) if rng.random() < MUTATION_RATE else c for c in children]
+
+        # Elitist survivor selection over parents and offspring
+        population, pareto_front = rank_and_select([m[0] for m in population] + offspring, population_size)
+        hypervolumes.append(hypervolume([evaluate(m)[1] for m in pareto_front], REFERENCE_POINT))
+
+        # Convergence check on the hypervolume
+        if generation > 50 and hypervolumes[-1] - hypervolumes[-51] < 0.001:
+            break
+
+    return {
+        "paretoFront": [{"smiles": m, "objectives": evaluate(m)[0]} for m in pareto_front],
+        "hypervolumes": hypervolumes,
+        "generations": generation,
+    }
+
+
+def self_check():
+    rng = random.Random(7)
+    seed = "CC(=O)Nc1ccc(O)cc1"
+    for _ in range(20):
+        mutant = mutate(seed, rng)
+        assert mutant is None or Chem.MolFromSmiles(mutant) is not None, "mutations should yield valid molecules"
+
+    assert dominates([1, 0.5], [0.5, 0.5]) and not dominates([1, 0], [0, 1]), "domination should be strict and partial"
+    assert abs(hypervolume([[1, 0.5], [0.5, 1]], [0, 0]) - 0.75) < 1e-9, "hypervolume of two points should be 0.75"
+
+    # A short run keeps the self-check fast; the defaults use the configured sizes.
+    if OPTIMIZATION_MODE == "pareto":
+        pareto = optimize_pareto_front(seed, population_size=16, generations=8)
+        points = [oriented_values(m["objectives"]) for m in pareto["paretoFront"]]
+        assert not any(dominates(q, p) for p in points for q in points), \
+            "Pareto front members should not dominate each other"
+        assert all(0 <= v <= 1 for v in pareto["hypervolumes"]), "hypervolume should be in [0, 1]"
+        print("Pareto front: %s" % " ".join(m["smiles"] for m in pareto["paretoFront"]))
+        print("Hypervolume by generation: %s" % " ".join("%.3f" % v for v in pareto["hypervolumes"]))
+        return
+    result = optimize_molecular_structure(seed, population_size=16, generations=8)
+    assert Chem.MolFromSmiles(result["optimizedMolecule"]) is not None, "optimized molecule should be valid"
+    assert result["finalScore"] <= 1, "fitness should be at most 1"
+    print("Best: %s score %.3f" % (result["optimizedMolecule"], result["finalScore"]))
+    print("Properties: %s" % result["properties"])
+${selfCheckFooter}`;
+
+const pharmacophore: CodeTemplate = (p) => `${header('Pharmacophore Mapping Algorithm', p)}
+import os
+
+import numpy as np
+from rdkit import Chem, RDConfig
+from rdkit.Chem import AllChem, ChemicalFeatures
+
+FEATURE_TYPES = ${literal(p.featureTypes)}
+TOLERANCE_RADIUS = ${literal(p.toleranceRadius)}
+MIN_FEATURES = ${literal(p.minFeatures)}
+MAX_FEATURES = ${literal(p.maxFeatures)}
+CONFORMER_GENERATION = ${literal(p.conformerGeneration)}
+
+# RDKit feature families behind each generator feature type
+FAMILIES = {
+    "HBD": ["Donor"],
+    "HBA": ["Acceptor"],
+    "Aromatic": ["Aromatic"],
+    "Hydrophobic": ["Hydrophobe", "LumpedHydrophobe"],
+    "Charged": ["PosIonizable", "NegIonizable"],
+}
+FACTORY = ChemicalFeatures.BuildFeatureFactory(os.path.join(RDConfig.RDDataDir, "BaseFeatures.fdef"))
+
+
+def generate_conformers(smiles, max_conformers):
+    mol = Chem.AddHs(Chem.MolFromSmiles(smiles))
+    count = max_conformers if CONFORMER_GENERATION else 1
+    AllChem.EmbedMultipleConfs(mol, numConfs=count, randomSeed=42)
+    AllChem.MMFFOptimizeMoleculeConfs(mol)
+    return mol
+
+
+def perceive_features(mol, conf_id=-1):
+    features = []
+    for feature_type in FEATURE_TYPES:
+        for family in FAMILIES.get(feature_type, []):
+            for feature in FACTORY.GetFeaturesForMol(mol, includeOnly=family, confId=conf_id):
+                features.append((feature_type, np.array(feature.GetPos())))
+    return features
+
+
+def align_to_reference(mol, reference):
+    """Aligns every conformer of mol onto the first conformer of the reference (Open3DAlign)."""
+    for conf in mol.GetConformers():
+        AllChem.GetO3A(mol, reference, prbCid=conf.GetId(), refCid=0).Align()
+    return mol
+
+
+def generate_pharmacophore_model(active_smiles, inactive_smiles):
+    actives = [generate_conformers(s, 100) for s in active_smiles]
+    inactives = [generate_conformers(s, 10) for s in inactive_smiles]
+    reference = actives[0]
+    for mol in actives[1:] + inactives:
+        align_to_reference(mol, reference)
+
+    # Cluster features of the same type across actives
+    clusters = []
+    for source, mol in enumerate(actives):
+        for feature_type, position in perceive_features(mol, conf_id=0):
+            for cluster in clusters:
+                if cluster["type"] == feature_type and \\
+                        np.linalg.norm(np.mean(cluster["points"], axis=0) - position) <= TOLERANCE_RADIUS:
+                    cluster["points"].append(position)
+                    cluster["sources"].add(source)
+                    break
+            else:
+                clusters.append({"type": feature_type, "points": [position], "sources": {source}})
+
+    ranked = sorted(clusters, key=lambda c: len(c["sources"]), reverse=True)
+    pharmacophore = {"features": [], "excludedVolumes": []}
+    for cluster in ranked[:MAX_FEATURES]:
+        pharmacophore["features"].append({
+            "type": cluster["type"],
+            "center": np.mean(cluster["points"], axis=0),
+            "radius": TOLERANCE_RADIUS,
+            "weight": len(cluster["sources"]) / len(actives),
+        })
+    if len(pharmacophore["features"]) < MIN_FEATURES:
+        raise ValueError("Only %d common features found; need %d" % (len(pharmacophore["features"]), MIN_FEATURES))
+
+    # Excluded volumes: inactive heavy atoms that occupy space no active uses
+    active_atoms = np.vstack([m.GetConformer(0).GetPositions() for m in actives])
+    for mol in inactives:
+        for atom in mol.GetAtoms():
+            if atom.GetAtomicNum() == 1:
+                continue
+            position = mol.GetConformer(0).GetAtomPosition(atom.GetIdx())
+            position = np.array([position.x, position.y, position.z])
+            clash = np.min(np.linalg.norm(active_atoms - position, axis=1)) > 2 * TOLERANCE_RADIUS
+            covered = any(np.linalg.norm(v["center"] - position) < v["radius"]
+                          for v in pharmacophore["excludedVolumes"])
+            if clash and not covered:
+                pharmacophore["excludedVolumes"].append({"center": position, "radius": TOLERANCE_RADIUS})
+
+    sensitivity = np.mean([calculate_fit(m, pharmacophore) is not None for m in actives])
+    specificity = np.mean([calculate_fit(m, pharmacophore) is None for m in inactives]) if inactives else 1.0
+    return {"model": pharmacophore, "sensitivity": sensitivity, "specificity": specificity,
+            "features": pharmacophore["features"], "reference": reference}
+
+
+def calculate_fit(mol, pharmacophore, conf_id=0):
+    """Mean per-feature overlap, or None if a feature is unmatched or an excluded volume is hit."""
+    features = perceive_features(mol, conf_id)
+    fit = 0.0
+    for target in pharmacophore["features"]:
+        distances = [np.linalg.norm(p - target["center"]) for t, p in features if t == target["type"]]
+        if not distances or min(distances) > target["radius"]:
+            return None
+        fit += 1 - (min(distances) / target["radius"]) ** 2
+    positions = mol.GetConformer(conf_id).GetPositions()
+    for volume in pharmacophore["excludedVolumes"]:
+        if np.min(np.linalg.norm(positions - volume["center"], axis=1)) < volume["radius"]:
+            return None
+    return fit / len(pharmacophore["features"])
+
+
+def screen_with_pharmacophore(result, compound_database):
+    hits = []
+    for smiles in compound_database:
+        mol = align_to_reference(generate_conformers(smiles, 50), result["reference"])
+        scores = [(calculate_fit(mol, result["model"], c.GetId()), c.GetId()) for c in mol.GetConformers()]
+        scores = [s for s in scores if s[0] is not None]
+        if scores:
+            fit_score, conformer = max(scores)
+            hits.append({"compound": smiles, "conformer": conformer, "fitScore": fit_score})
+    return sorted(hits, key=lambda h: h["fitScore"], reverse=True)
+
+
+def self_check():
+    actives = ["Oc1ccc(CCN)cc1", "Oc1ccc(CCN)cc1C", "Oc1ccc(CCN)cc1F"]
+    inactives = ["CCCCCCCC"]
+    features = perceive_features(generate_conformers(actives[0], 1))
+    assert "Aromatic" not in FEATURE_TYPES or any(t == "Aromatic" for t, _ in features), \\
+        "phenol ring should be an aromatic feature"
+    assert "HBD" not in FEATURE_TYPES or any(t == "HBD" for t, _ in features), "hydroxyl should be a donor"
+    if len(features) < MIN_FEATURES:
+        print("Tyramine has %d features of the selected types; MIN_FEATURES is %d, skipping the model check"
+              % (len(features), MIN_FEATURES))
+        return
+
+    result = generate_pharmacophore_model(actives, inactives)
+    assert MIN_FEATURES <= len(result["features"]) <= MAX_FEATURES, "feature count within limits"
+    hits = screen_with_pharmacophore(result, ["Oc1ccc(CCN)cc1Cl", "CCCCCC"])
+    print("Model features: %s" % [f["type"] for f in result["features"]])
+    print("Sensitivity %.2f, hits %s" % (result["sensitivity"], hits))
+${selfCheckFooter}`;
+
+const virtualScreening: CodeTemplate = (p) => `${header('AI-Powered Virtual Screening Algorithm', p, 'rdkit numpy scikit-learn')}
+import numpy as np
+from rdkit import Chem, DataStructs
+from rdkit.Chem import AllChem, Crippen, Descriptors, Lipinski, rdFingerprintGenerator, rdMolDescriptors
+from sklearn.linear_model import LinearRegression, Ridge
+from sklearn.model_selection import KFold, train_test_split
+from sklearn.neural_network import MLPRegressor
+from sklearn.preprocessing import StandardScaler
+
+MODEL_ENSEMBLE = ${literal(p.modelEnsemble)}
+CONFIDENCE_THRESHOLD = ${literal(p.confidenceThreshold)}
+BATCH_SIZE = ${literal(p.batchSize)}
+USE_DOCKING = ${literal(p.useDocking)}
+USE_ML_MODELS = ${literal(p.useMLModels)}
+MAX_HITS = ${literal(p.maxHits)}
+APPLICABILITY_DOMAIN = ${literal(p.applicabilityDomain)}
+ENSEMBLE_MODE = ${literal(p.ensembleMode ?? 'fixed')}
+STACKING_FOLDS = ${literal(p.stackingFolds ?? 5)}
+CALIBRATION_FRACTION = ${literal(p.calibrationFraction ?? 0.2)}
+HIT_CUTOFF = ${literal(p.hitCutoff ?? 0.5)}
+# Fixed-mode weights; stacking learns its own from out-of-fold predictions
+ENSEMBLE_WEIGHTS = {"GraphNN": 0.4, "CNN": 0.3, "QSAR": 0.3}
+# Added to the model spread in normalized nonconformity scores so compounds
+# the members agree on do not get zero-width intervals
+CONFORMAL_BETA = 0.1
+DOMAIN_DESCRIPTORS = ["MW", "LogP", "TPSA", "HBD", "HBA", "RotatableBonds"]
+${descriptorHelpers}${domainHelpers}
+
+# CPU stand-ins for the ensemble members, each predicting activity scaled to [0, 1]:
+#   GraphNN - stand-in: neural network over circular (graph-derived) fingerprints;
+#             the TypeScript output trains a graph isomorphism network instead
+#   CNN     - neural network over wider-radius substructure fingerprints
+#   QSAR    - ridge regression on physicochemical descriptors
+def featurize(name, smiles):
+    mol = Chem.MolFromSmiles(smiles)
+    if mol is None:
+        return None
+    if name == "QSAR":
+        return calculate_descriptors(smiles, DOMAIN_DESCRIPTORS)
+    radius = 2 if name == "GraphNN" else 3
+    return list(AllChem.GetMorganFingerprintAsBitVect(mol, radius, nBits=1024))
+
+
+def train_model(name, X, y):
+    if name == "QSAR":
+        scaler = StandardScaler().fit(X)
+        model = Ridge(alpha=1.0).fit(scaler.transform(X), y)
+        return lambda rows: model.predict(scaler.transform(rows))
+    model = MLPRegressor(hidden_layer_sizes=(64,), batch_size=min(BATCH_SIZE, len(X)), max_iter=2000,
+                         random_state=0).fit(X, y)
+    return model.predict
+
+
+def train_models(data):
+    models = {}
+    if USE_ML_MODELS:
+        for name in MODEL_ENSEMBLE:
+            if name not in ENSEMBLE_WEIGHTS:
+                continue
+            rows = [(featurize(name, s), y) for s, y in data]
+            rows = [(x, y) for x, y in rows if x is not None]
+            models[name] = train_model(name, np.array([x for x, _ in rows]), np.array([y for _, y in rows]))
+    if not models:
+        raise ValueError("No models enabled for screening")
+    return models
+
+
+def predict_members(models, smiles_list):
+    # One column per model, in the order of the models dict
+    return np.column_stack([np.clip(m(np.array([featurize(n, s) for s in smiles_list])), 0, 1)
+                            for n, m in models.items()])
+
+
+def train_stacked_ensemble(data):
+    # The meta-model is fitted on out-of-fold member predictions, so it
+    # rewards members that generalize rather than ones that memorize
+    oof = None
+    for train, test in KFold(STACKING_FOLDS, shuffle=True, random_state=42).split(data):
+        preds = predict_members(train_models([data[i] for i in train]), [data[i][0] for i in test])
+        if oof is None:
+            oof = np.zeros((len(data), preds.shape[1]))
+        oof[test] = preds
+    # Non-negative least squares with a free intercept
+    meta = LinearRegression(positive=True).fit(oof, [y for _, y in data])
+    return train_models(data), meta.coef_, float(meta.intercept_)
+
+
+def nonconformity(prediction, spread, activity):
+    # Signed error in units of model disagreement
+    return (prediction - activity) / (spread + CONFORMAL_BETA)
+
+
+def conformal_confidence(alphas, prediction, spread):
+    # Largest level whose lower prediction bound stays at or above
+    # HIT_CUTOFF; accepting hits at level c keeps the error rate <= 1 - c
+    return float(np.sum(alphas <= nonconformity(prediction, spread, HIT_CUTOFF))) / (len(alphas) + 1)
+
+
+def prediction_interval(alphas, prediction, spread):
+    # Two-sided interval at the CONFIDENCE_THRESHOLD level; unbounded when
+    # the calibration set is too small for that level
+    scores = np.sort(np.abs(alphas))
+    k = int(np.ceil((len(scores) + 1) * CONFIDENCE_THRESHOLD))
+    width = (scores[k - 1] if k <= len(scores) else np.inf) * (spread + CONFORMAL_BETA)
+    return [prediction - width, prediction + width]
+
+
+def ai_virtual_screening(compound_library, training_data, perform_docking=None):
+    activities = np.array([a for _, a in training_data], dtype=float)
+    lo, hi = activities.min(), activities.max()
+    scaled = (activities - lo) / (hi - lo) if hi > lo else np.full(len(activities), 0.5)
+
+    data = [(s, y) for (s, _), y in zip(training_data, scaled) if Chem.MolFromSmiles(s) is not None]
+
+    # Train ensemble of ML models
+    stacking = ENSEMBLE_MODE == "stacking"
+    alphas = np.array([])
+    if stacking:
+        # Hold out a calibration set, stack on the rest
+        proper, calibration = train_test_split(data, test_size=CALIBRATION_FRACTION, random_state=42)
+        if len(proper) < STACKING_FOLDS:
+            raise ValueError("Stacking needs at least %d proper training compounds" % STACKING_FOLDS)
+        models, weights, intercept = train_stacked_ensemble(proper)
+        preds = predict_members(models, [s for s, _ in calibration])
+        alphas = nonconformity(intercept + preds @ weights, preds.std(axis=1), np.array([y for _, y in calibration]))
+    else:
+        models = train_models(data)
+        weights = np.array([ENSEMBLE_WEIGHTS[n] for n in models])
+        weights, intercept = weights / weights.sum(), 0.0
+
+    # Applicability domain of the training compounds
+    valid = [s for s, _ in training_data if Chem.MolFromSmiles(s) is not None]
+    scaler = StandardScaler().fit([calculate_descriptors(s, DOMAIN_DESCRIPTORS) for s in valid])
+    domain = fit_domain(scaler.transform([calculate_descriptors(s, DOMAIN_DESCRIPTORS) for s in valid]),
+                        [domain_fingerprint(s) for s in valid])
+
+    # Screen library in batches
+    predictions = []
+    for start in range(0, len(compound_library), BATCH_SIZE):
+        batch = [s for s in compound_library[start:start + BATCH_SIZE] if Chem.MolFromSmiles(s) is not None]
+        if not batch:
+            continue
+        individual = predict_members(models, batch)
+        for i, smiles in enumerate(batch):
+            preds = dict(zip(models, individual[i].tolist()))
+            ensemble_pred = float(intercept + individual[i] @ weights)
+            spread = float(individual[i].std())
+            # Conformal confidence when stacking, otherwise one minus model disagreement
+            confidence = conformal_confidence(alphas, ensemble_pred, spread) if stacking else 1 - spread
+            x = scaler.transform([calculate_descriptors(smiles, DOMAIN_DESCRIPTORS)])[0]
+            in_domain, distance = assess_domain(domain, x, domain_fingerprint(smiles))
+            if confidence >= CONFIDENCE_THRESHOLD:
+                predictions.append({"compound": smiles, "predictedActivity": ensemble_pred,
+                                    "confidence": confidence, "individualPredictions": preds,
+                                    "inDomain": in_domain, "domainDistance": distance,
+                                    "finalScore": ensemble_pred})
+                if stacking:
+                    predictions[-1]["predictionInterval"] = prediction_interval(alphas, ensemble_pred, spread)
+
+    # Optional docking refinement for top candidates
+    if USE_DOCKING and perform_docking is not None:
+        for candidate in sorted(predictions, key=lambda c: c["predictedActivity"], reverse=True)[:1000]:
+            candidate["dockingScore"] = perform_docking(candidate["compound"])
+            candidate["finalScore"] = 0.7 * candidate["predictedActivity"] + 0.3 * candidate["dockingScore"]
+
+    final_hits = sorted(predictions, key=lambda c: c["finalScore"], reverse=True)
+    return {
+        "hits": final_hits[:MAX_HITS],
+        "statistics": {
+            "totalScreened": len(compound_library),
+            "hitsFound": len(final_hits),
+            "hitRate": len(final_hits) / len(compound_library) if compound_library else 0,
+            "ensembleWeights": dict(zip(models, weights.tolist())),
+            **({"expectedErrorRate": 1 - CONFIDENCE_THRESHOLD, "calibrationSize": len(alphas)} if stacking else {}),
+        },
+    }
+
+
+def self_check():
+    # Toy endpoint: aryl amides active, aliphatic alcohols inactive
+    training_data = [
+        ("CC(=O)Nc1ccc(O)cc1", 7.2), ("CC(=O)Nc1ccc(Cl)cc1", 6.9), ("CC(=O)Nc1ccccc1", 6.5),
+        ("CCC(=O)Nc1ccc(O)cc1", 7.0), ("CCO", 4.0), ("CCCO", 4.1), ("CCCCO", 4.3), ("CC(C)O", 4.0),
+        ("CC(=O)Nc1ccc(C)cc1", 6.8), ("CC(=O)Nc1ccc(Br)cc1", 6.9), ("CCC(=O)Nc1ccccc1", 6.6),
+        ("CC(=O)Nc1cccc(O)c1", 6.7), ("CCC(=O)Nc1ccc(Cl)cc1", 7.1), ("CC(C)CO", 4.2), ("CCC(C)O", 4.1),
+        ("CCCCCCO", 4.4), ("CC(C)(C)O", 4.0), ("OCCCO", 3.9),
+    ]
+    library = ["CC(=O)Nc1ccc(F)cc1", "CCCCCO", "CC(=O)Nc1ccc(OC)cc1", "OCCO"]
+    result = ai_virtual_screening(library, training_data, perform_docking=lambda s: 0.8 if "c" in s else 0.2)
+    assert result["statistics"]["totalScreened"] == len(library), "all compounds should be screened"
+    assert all(h["confidence"] >= CONFIDENCE_THRESHOLD for h in result["hits"]), "confidence threshold"
+    scores = [h["finalScore"] for h in result["hits"]]
+    assert scores == sorted(scores, reverse=True), "hits should be ranked"
+    assert all(np.isfinite(h["domainDistance"]) for h in result["hits"]), "every hit carries a domain distance"
+    assert all(w >= 0 for w in result["statistics"]["ensembleWeights"].values()), "ensemble weights are non-negative"
+    if ENSEMBLE_MODE == "stacking":
+        assert all(lo <= h["predictedActivity"] <= hi for h in result["hits"] for lo, hi in [h["predictionInterval"]]), \\
+            "prediction intervals contain the prediction"
+        assert all(h["compound"] != "OCCO" for h in result["hits"]), "inactive compounds should not reach the hit cut-off"
+    print("Ensemble weights: %s" % result["statistics"]["ensembleWeights"])
+    for hit in result["hits"]:
+        print("%.3f (confidence %.2f, %s domain)  %s" % (hit["finalScore"], hit["confidence"],
+                                                        "in" if hit["inDomain"] else "outside", hit["compound"]))
+${selfCheckFooter}`;
+
+const substructureSearch: CodeTemplate = (p) => `${header('SMARTS Substructure Search Algorithm', p, 'rdkit')}
+from rdkit import Chem
+
+SMARTS_QUERY = ${literal(p.smartsQuery)}
+MAX_RESULTS = ${literal(p.maxResults)}
+MAX_MATCHES_PER_COMPOUND = ${literal(p.maxMatchesPerCompound)}
+UNIQUE_MATCHES = ${literal(p.uniqueMatches)}
+
+
+def substructure_search(smarts_query, database):
+    """Returns compounds containing the query with their atom mappings.
+
+    Each mapping lists the molecule atom index for every query atom.
+    """
+    query = Chem.MolFromSmarts(smarts_query)
+    if query is None:
+        raise ValueError("Invalid SMARTS query: %s" % smarts_query)
+
+    hits = []
+    for index, smiles in enumerate(database):
+        if len(hits) >= MAX_RESULTS:
+            break
+        mol = Chem.MolFromSmiles(smiles)
+        if mol is None:
+            print("Skipping invalid SMILES: %s" % smiles)
+            continue
+        mappings = mol.GetSubstructMatches(query, uniquify=UNIQUE_MATCHES, maxMatches=MAX_MATCHES_PER_COMPOUND)
+        if mappings:
+            hits.append({"index": index, "compound": smiles, "mappings": [list(m) for m in mappings]})
+    return hits
+
+
+def self_check():
+    library = [
+        "CC(=O)Nc1ccc(O)cc1",  # paracetamol
+        "NC(=O)c1ccccc1",  # benzamide
+        "c1ccc2ccccc2c1",  # naphthalene
+        "CCO",
+        "not a smiles",
+    ]
+
+    amides = substructure_search("C(=O)[NX3]", library)
+    assert [hit["index"] for hit in amides] == [0, 1], "amides should be found in paracetamol and benzamide"
+    assert all(len(hit["mappings"][0]) == 3 for hit in amides), "each mapping should cover every query atom"
+    rings = substructure_search("c1ccccc1", [library[2]])
+    assert not UNIQUE_MATCHES or len(rings[0]["mappings"]) == min(2, MAX_MATCHES_PER_COMPOUND), \\
+        "naphthalene should hold two distinct benzene rings"
+    recursive = substructure_search("[c;$(c[OH])]", library)
+    assert len(recursive) == 1 and recursive[0]["index"] == 0, "recursive SMARTS should find the phenol carbon"
+
+    for hit in substructure_search(SMARTS_QUERY, library):
+        print("%s  %s" % (hit["compound"], hit["mappings"]))
+${selfCheckFooter}`;
+
+const clusteringDiversity: CodeTemplate = (p) => `${header('Clustering and Diversity Selection Algorithm', p, 'rdkit numpy scipy')}
+import numpy as np
+from rdkit import Chem, DataStructs
+from rdkit.Chem import MACCSkeys, rdFingerprintGenerator
+from rdkit.ML.Cluster import Butina
+from scipy.cluster.hierarchy import fcluster, linkage
+from scipy.spatial.distance import squareform
+
+FINGERPRINT_TYPE = ${literal(p.fingerprintType)}
+RADIUS = ${literal(p.radius ?? 2)}
+BIT_LENGTH = ${literal(p.bitLength)}
+MAX_PATH_LENGTH = ${literal(p.maxPathLength ?? 7)}
+CLUSTERING_METHOD = ${literal(p.clusteringMethod)}
+DISTANCE_CUTOFF = ${literal(p.distanceCutoff)}
+LINKAGE = ${literal(p.linkage ?? 'average')}
+PICKING_METHOD = ${literal(p.pickingMethod)}
+MAX_PICKS = ${literal(p.maxPicks)}
+
+${fingerprintGeneratorHelpers}
+
+def generate_fingerprint(smiles):
+    # Bit vectors: Tanimoto distance compares feature presence
+    mol = Chem.MolFromSmiles(smiles)
+    if mol is None:
+        return None
+    return MACCSkeys.GenMACCSKeys(mol) if GENERATOR is None else GENERATOR.GetFingerprint(mol)
+
+
+def distance_matrix(fps):
+    d = np.zeros((len(fps), len(fps)))
+    for i in range(1, len(fps)):
+        d[i, :i] = d[:i, i] = 1 - np.array(DataStructs.BulkTanimotoSimilarity(fps[i], fps[:i]))
+    return d
+
+
+def butina_clusters(d, cutoff):
+    """Taylor-Butina clusters as (centroid, members) with the centroid first."""
+    n = len(d)
+    lower = [d[i, j] for i in range(n) for j in range(i)]
+    return [(c[0], list(c)) for c in Butina.ClusterData(lower, n, cutoff, isDistData=True)]
+
+
+def hierarchical_clusters(d, cutoff):
+    """Agglomerative clusters cut at the cutoff, each led by its medoid."""
+    if len(d) < 2:
+        return [(i, [i]) for i in range(len(d))]
+    labels = fcluster(linkage(squareform(d, checks=False), method=LINKAGE), t=cutoff, criterion="distance")
+    clusters = []
+    for label in np.unique(labels):
+        members = [int(i) for i in np.flatnonzero(labels == label)]
+        centroid = members[int(np.argmin(d[np.ix_(members, members)].sum(axis=1)))]
+        clusters.append((centroid, [centroid] + [i for i in members if i != centroid]))
+    return clusters
+
+
+def max_min_pick(d, count):
+    """Each pick is furthest from all earlier picks, starting from the
+    compound furthest from the whole library."""
+    if len(d) == 0:
+        return []
+    picks = [int(np.argmax(d.sum(axis=1)))]
+    nearest = d[picks[0]].copy()
+    nearest[picks[0]] = -1
+    while len(picks) < min(count, len(d)):
+        pick = int(np.argmax(nearest))
+        picks.append(pick)
+        nearest = np.minimum(nearest, d[pick])
+        nearest[picks] = -1
+    return picks
+
+
+def sphere_exclusion_pick(d, cutoff, count):
+    """Leader picking in library order: a compound is picked when it lies
+    beyond the cutoff from every earlier pick."""
+    picks = []
+    for i in range(len(d)):
+        if len(picks) >= count:
+            break
+        if all(d[i, j] > cutoff for j in picks):
+            picks.append(i)
+    return picks
+
+
+def cluster_and_pick(library):
+    valid, fps = [], []
+    for index, smiles in enumerate(library):
+        fp = generate_fingerprint(smiles)
+        if fp is None:
+            print("Skipping invalid SMILES: %s" % smiles)
+            continue
+        valid.append(index)
+        fps.append(fp)
+
+    d = distance_matrix(fps)
+    found = hierarchical_clusters(d, DISTANCE_CUTOFF) if CLUSTERING_METHOD == "hierarchical" \\
+        else butina_clusters(d, DISTANCE_CUTOFF)
+    clusters = sorted(
+        ({"centroid": valid[c], "members": [valid[i] for i in members]} for c, members in found),
+        key=lambda c: (-len(c["members"]), c["centroid"]),
+    )
+    picks = max_min_pick(d, MAX_PICKS) if PICKING_METHOD == "maxmin" \\
+        else sphere_exclusion_pick(d, DISTANCE_CUTOFF, MAX_PICKS)
+
+    assignments = [-1] * len(library)
+    for k, cluster in enumerate(clusters):
+        for i in cluster["members"]:
+            assignments[i] = k
+    return {
+        "clusters": clusters,
+        "assignments": assignments,
+        "singletons": sorted(c["centroid"] for c in clusters if len(c["members"]) == 1),
+        "picks": [valid[i] for i in picks],
+    }
+
+
+def self_check():
+    library = [
+        "CC(=O)Oc1ccccc1C(=O)O",  # aspirin
+        "CC(=O)Oc1ccccc1C(=O)O",  # duplicate
+        "OC(=O)c1ccccc1O",  # salicylic acid
+        "CC(=O)Nc1ccc(O)cc1",  # paracetamol
+        "CC(=O)Nc1ccc(OC)cc1",  # methacetin
+        "Cn1cnc2c1c(=O)n(C)c(=O)n2C",  # caffeine
+        "Cn1cnc2c1c(=O)[nH]c(=O)n2C",  # theobromine
+        "CCCCCCCC",
+        "not a smiles",
+    ]
+
+    result = cluster_and_pick(library)
+    members = sorted(i for c in result["clusters"] for i in c["members"])
+    assert members == list(range(8)), "every valid compound should be in exactly one cluster"
+    assert result["assignments"][8] == -1, "invalid SMILES should be skipped"
+    assert result["assignments"][0] == result["assignments"][1], "duplicates should share a cluster"
+    assert all(c["members"][0] == c["centroid"] for c in result["clusters"]), "centroids should lead their clusters"
+    assert result["singletons"] == sorted(c["centroid"] for c in result["clusters"] if len(c["members"]) == 1)
+
+    d = distance_matrix([generate_fingerprint(smiles) for smiles in library[:8]])
+    if CLUSTERING_METHOD == "butina":
+        assert all(d[c, i] <= DISTANCE_CUTOFF for c, members in butina_clusters(d, DISTANCE_CUTOFF) for i in members), \\
+            "Butina members should lie within the cutoff of their centre"
+    picks = result["picks"]
+    assert len(set(picks)) == len(picks), "picks should be distinct"
+    if PICKING_METHOD == "maxmin":
+        assert len(picks) == min(MAX_PICKS, 8), "MaxMin should pick up to MAX_PICKS compounds"
+        assert picks[:2] != [0, 1], "MaxMin should not pick both duplicates first"
+    else:
+        assert all(d[i, j] > DISTANCE_CUTOFF for k, i in enumerate(picks) for j in picks[:k]), \\
+            "sphere-exclusion picks should lie beyond the cutoff from each other"
+
+    for k, cluster in enumerate(result["clusters"]):
+        print("cluster %d: %s" % (k + 1, ", ".join(library[i] for i in cluster["members"])))
+    print("picks: %s" % ", ".join(library[i] for i in picks))
+${selfCheckFooter}`;
+
+const scaffoldAnalysis: CodeTemplate = (p) => `${header('Scaffold Analysis Algorithm', p, 'rdkit')}
+import statistics
+
+from rdkit import Chem
+from rdkit.Chem.Scaffolds import MurckoScaffold
+
+MIN_COUNT = ${literal(p.minCount)}
+MAX_SCAFFOLDS = ${literal(p.maxScaffolds)}
+
+
+def murcko_scaffold(mol):
+    """Bemis-Murcko framework as canonical SMILES, or None for acyclic molecules.
+
+    RDKit keeps terminal atoms double-bonded to the framework, so ring and
+    linker carbonyls stay.
+    """
+    if mol.GetRingInfo().NumRings() == 0:
+        return None
+    return Chem.MolToSmiles(MurckoScaffold.GetScaffoldForMol(mol), isomericSmiles=False)
+
+
+def generic_scaffold(scaffold):
+    """Every atom carbon and every bond single."""
+    generic = MurckoScaffold.MakeScaffoldGeneric(Chem.MolFromSmiles(scaffold))
+    return Chem.MolToSmiles(generic, isomericSmiles=False)
+
+
+def linker_bonds(mol):
+    """Acyclic bonds between two non-terminal atoms."""
+    return sum(
+        1 for bond in mol.GetBonds()
+        if not bond.IsInRing() and bond.GetBeginAtom().GetDegree() > 1 and bond.GetEndAtom().GetDegree() > 1
+    )
+
+
+def remove_ring(mol, ring):
+    """Scaffold left after deleting the atoms only this ring holds.
+
+    Each kept atom takes a hydrogen per unit of bond order it loses. None when
+    nothing is unique to the ring or what is left of an aromatic system no
+    longer kekulizes.
+    """
+    info = mol.GetRingInfo()
+    removed = {atom for atom in ring if info.NumAtomRings(atom) == 1}
+    if not removed:
+        return None
+    editable = Chem.RWMol(mol)
+    for bond in mol.GetBonds():
+        begin, end = bond.GetBeginAtomIdx(), bond.GetEndAtomIdx()
+        if (begin in removed) != (end in removed):
+            kept = editable.GetAtomWithIdx(end if begin in removed else begin)
+            lost = 1 if bond.GetIsAromatic() else int(bond.GetBondTypeAsDouble())
+            kept.SetNumExplicitHs(kept.GetNumExplicitHs() + lost)
+    for atom in sorted(removed, reverse=True):
+        editable.RemoveAtom(atom)
+    rest = editable.GetMol()
+    try:
+        Chem.SanitizeMol(rest)
+    except Chem.MolSanitizeException:
+        return None
+    return murcko_scaffold(rest)
+
+
+def scaffold_parent(scaffold):
+    """One step down the scaffold tree (Schuffenhauer et al. 2007), or None at one ring.
+
+    The terminal ring removed is ranked by three-membered heterocycles first,
+    macrocycles last, fewest linker bonds left, ring size 3, 5 or 6, fewest
+    heteroatoms (keeping N over O over S), smaller rings, aromatic rings and
+    finally the parent SMILES.
+    """
+    mol = Chem.MolFromSmiles(scaffold)
+    rings = mol.GetRingInfo().AtomRings()
+    if len(rings) <= 1:
+        return None
+    smallest = min(len(ring) for ring in rings)
+    candidates = []
+    for ring in rings:
+        parent = remove_ring(mol, ring)
+        # Removing an inner ring would split the scaffold
+        if parent is None or parent.count(".") > scaffold.count("."):
+            continue
+        elements = [mol.GetAtomWithIdx(atom).GetSymbol() for atom in ring]
+        heteroatoms = sum(1 for element in elements if element != "C")
+        candidates.append((
+            0 if len(ring) == 3 and heteroatoms > 0 else 1,
+            1 if len(ring) >= 12 and smallest < 12 else 0,
+            linker_bonds(Chem.MolFromSmiles(parent)),
+            0 if len(ring) in (3, 5, 6) else 1,
+            heteroatoms,
+            elements.count("N"),
+            elements.count("O"),
+            elements.count("S"),
+            len(ring),
+            0 if all(mol.GetAtomWithIdx(atom).GetIsAromatic() for atom in ring) else 1,
+            parent,
+        ))
+    return min(candidates)[-1] if candidates else None
+
+
+def summarize(members, activities):
+    values = [activities[i] for i in members if activities is not None and activities[i] is not None]
+    if not values:
+        return None
+    return {
+        "count": len(values),
+        "mean": statistics.mean(values),
+        "std": statistics.stdev(values) if len(values) > 1 else 0.0,
+        "min": min(values),
+        "max": max(values),
+    }
+
+
+def analyze_scaffolds(library, activities=None):
+    """Groups the library by Murcko and generic scaffold and builds the scaffold tree.
+
+    Activities are aligned with the library; None marks an unmeasured compound.
+    """
+    assignments = []
+    for smiles in library:
+        mol = Chem.MolFromSmiles(smiles)
+        if mol is None:
+            print("Skipping invalid SMILES: %s" % smiles)
+            assignments.append(None)
+            continue
+        scaffold = murcko_scaffold(mol)
+        assignments.append({
+            "scaffold": scaffold,
+            "generic": None if scaffold is None else generic_scaffold(scaffold),
+        })
+
+    def group(key):
+        groups = {}
+        for i, assignment in enumerate(assignments):
+            if assignment and assignment[key]:
+                groups.setdefault(assignment[key], []).append(i)
+        found = [
+            {"smiles": smiles, "members": members, "activity": summarize(members, activities)}
+            for smiles, members in groups.items()
+            if len(members) >= MIN_COUNT
+        ]
+        return sorted(found, key=lambda g: (-len(g["members"]), g["smiles"]))[:MAX_SCAFFOLDS]
+
+    # Each Murcko scaffold is walked down to a single ring; scaffolds sharing
+    # a parent share its node.
+    nodes = {}
+
+    def visit(smiles):
+        if smiles not in nodes:
+            rings = Chem.MolFromSmiles(smiles).GetRingInfo().NumRings()
+            nodes[smiles] = {"smiles": smiles, "rings": rings, "parent": scaffold_parent(smiles), "count": 0, "total": 0}
+            if nodes[smiles]["parent"] is not None:
+                visit(nodes[smiles]["parent"])
+        return nodes[smiles]
+
+    for assignment in assignments:
+        if not assignment or not assignment["scaffold"]:
+            continue
+        node = visit(assignment["scaffold"])
+        node["count"] += 1
+        while node is not None:
+            node["total"] += 1
+            node = nodes.get(node["parent"])
+
+    tree = sorted(
+        (node for node in nodes.values() if node["total"] >= MIN_COUNT),
+        key=lambda node: (node["rings"], -node["total"], node["smiles"]),
+    )
+    return {
+        "assignments": assignments,
+        "scaffolds": group("scaffold"),
+        "generic_scaffolds": group("generic"),
+        "tree": tree,
+    }
+
+
+def self_check():
+    library = [
+        "CC(=O)Nc1ccc(O)cc1",  # paracetamol
+        "CC(C)Cc1ccc(cc1)C(C)C(=O)O",  # ibuprofen
+        "Oc1ccncc1",
+        "CC1CCCCC1=O",
+        "O=C(Nc1ccccc1)c1ccc2[nH]ccc2c1",
+        "Cn1ccc2ccccc21",
+        "CCO",
+        "not a smiles",
+    ]
+    activities = [5.0, 6.0, 4.5, None, 7.0, 6.5, 3.0, None]
+
+    result = analyze_scaffolds(library, activities)
+    scaffolds = [a and a["scaffold"] for a in result["assignments"]]
+    assert scaffolds[0] == scaffolds[1] == "c1ccccc1", "side chains should be stripped to the ring"
+    assert scaffolds[3] == "O=C1CCCCC1", "ring carbonyls should stay in the scaffold"
+    assert scaffolds[5] == "c1ccc2[nH]ccc2c1", "a stripped ring nitrogen should keep its hydrogen"
+    assert result["assignments"][2]["generic"] == result["assignments"][0]["generic"], \\
+        "pyridine and benzene should share a generic scaffold"
+    assert result["assignments"][6]["scaffold"] is None, "acyclic compounds should have no scaffold"
+    assert result["assignments"][7] is None, "invalid SMILES should be skipped"
+
+    benzene = next(g for g in result["scaffolds"] if g["smiles"] == "c1ccccc1")
+    assert benzene["members"] == [0, 1] and benzene["activity"]["mean"] == 5.5, "benzene compounds should be summarized"
+    indole = next(node for node in result["tree"] if node["smiles"] == "c1ccc2[nH]ccc2c1")
+    assert indole["parent"] == "c1cc[nH]c1", "the benzene ring of indole should be removed first"
+    assert indole["count"] == 1 and indole["total"] == 2, "tree totals should include descendant scaffolds"
+    assert all((node["parent"] is None) == (node["rings"] == 1) for node in result["tree"]), \\
+        "every branch should end at a single ring"
+
+    for g in result["scaffolds"]:
+        activity = g["activity"]
+        print("%s: %d compound(s), mean activity %s" % (g["smiles"], len(g["members"]), activity and activity["mean"]))
+    for node in result["tree"]:
+        print("%s -> %s (%d in subtree)" % (node["smiles"], node["parent"] or "root", node["total"]))
+${selfCheckFooter}`;
+
+const matchedMolecularPairs: CodeTemplate = (p) => `${header('Matched Molecular Pair Analysis', p, 'rdkit')}
+import statistics
+
+from rdkit import Chem
+from rdkit.Chem import rdMMPA
+
+MAX_VARIABLE_ATOMS = ${literal(p.maxVariableAtoms)}
+INCLUDE_HYDROGEN = ${literal(p.includeHydrogen)}
+MIN_PAIRS = ${literal(p.minPairs)}
+MAX_TRANSFORMS = ${literal(p.maxTransforms)}
+# Molecules with more cuttable bonds than this are left unfragmented by RDKit.
+MAX_CUT_BONDS = 100
+HYDROGEN_FRAGMENT = "[*:1][H]"
+
+
+def canonical(smiles):
+    """Canonical SMILES without stereo, so stereoisomers index together."""
+    return Chem.MolToSmiles(Chem.MolFromSmiles(smiles), isomericSmiles=False)
+
+
+def hydrogen_constants(mol):
+    """The molecule with one hydrogen of each hydrogen-bearing atom replaced by [*:1]."""
+    constants = set()
+    for atom in mol.GetAtoms():
+        if atom.GetTotalNumHs() == 0:
+            continue
+        editable = Chem.RWMol(mol)
+        anchor = editable.GetAtomWithIdx(atom.GetIdx())
+        if anchor.GetNumExplicitHs() > 0:
+            anchor.SetNumExplicitHs(anchor.GetNumExplicitHs() - 1)
+        dummy = Chem.Atom(0)
+        dummy.SetAtomMapNum(1)
+        editable.AddBond(atom.GetIdx(), editable.AddAtom(dummy), Chem.BondType.SINGLE)
+        Chem.SanitizeMol(editable)
+        constants.add(Chem.MolToSmiles(editable, isomericSmiles=False))
+    return constants
+
+
+def fragment(mol):
+    """Hussain-Rea single cuts as (constant, variable) pairs.
+
+    RDKit's MMPA fragmenter cuts acyclic single bonds with a non-carbonyl
+    carbon at one end; both orientations are kept when both sides are small
+    enough, and hydrogen replacements are added when configured.
+    """
+    cuts = set()
+    for _, chains in rdMMPA.FragmentMol(mol, maxCuts=1, maxCutBonds=MAX_CUT_BONDS, resultsAsMols=False):
+        left, right = chains.split(".")
+        for constant, variable in ((left, right), (right, left)):
+            if Chem.MolFromSmiles(variable).GetNumHeavyAtoms() <= MAX_VARIABLE_ATOMS:
+                cuts.add((canonical(constant), canonical(variable)))
+    if INCLUDE_HYDROGEN:
+        cuts.update((constant, HYDROGEN_FRAGMENT) for constant in hydrogen_constants(mol))
+    return cuts
+
+
+def join(constant, variable):
+    """Bonds the atoms on either side of the two [*:1] attachment points."""
+    if variable == HYDROGEN_FRAGMENT:
+        return canonical(constant.replace("[*:1]", "[H]"))
+    product = Chem.molzip(Chem.MolFromSmiles(constant), Chem.MolFromSmiles(variable))
+    return Chem.MolToSmiles(product, isomericSmiles=False)
+
+
+def summarize_changes(differences):
+    if not differences:
+        return None
+    return {
+        "count": len(differences),
+        "mean": statistics.mean(differences),
+        "std": statistics.stdev(differences) if len(differences) > 1 else 0.0,
+        "min": min(differences),
+        "max": max(differences),
+    }
+
+
+def matched_pairs(library, properties=None):
+    """Matched pairs indexed by constant part, summarized per transform.
+
+    Compounds sharing a constant with different variable parts pair up in
+    each direction, counted once per transform. Properties map names to
+    values aligned with the library; None marks an unmeasured value.
+    Returns transforms with at least MIN_PAIRS pairs, most pairs first.
+    """
+    properties = properties or {}
+    index = {}
+    for i, smiles in enumerate(library):
+        mol = Chem.MolFromSmiles(smiles)
+        if mol is None:
+            print("Skipping invalid SMILES: %s" % smiles)
+            continue
+        for constant, variable in fragment(mol):
+            index.setdefault(constant, {}).setdefault(variable, []).append(i)
+
+    transforms = {}
+    for constant, variables in index.items():
+        for start, start_members in variables.items():
+            for end, end_members in variables.items():
+                if start == end:
+                    continue
+                key = start + ">>" + end
+                transform = transforms.setdefault(key, {"transform": key, "from": start, "to": end, "pairs": {}})
+                for a in start_members:
+                    for b in end_members:
+                        if a != b:
+                            transform["pairs"].setdefault((a, b), constant)
+
+    result = []
+    for transform in transforms.values():
+        if len(transform["pairs"]) < MIN_PAIRS:
+            continue
+        transform["pairs"] = [{"from": a, "to": b, "constant": c} for (a, b), c in transform["pairs"].items()]
+        transform["changes"] = {
+            name: summarize_changes([
+                values[pair["to"]] - values[pair["from"]]
+                for pair in transform["pairs"]
+                if values[pair["from"]] is not None and values[pair["to"]] is not None
+            ])
+            for name, values in properties.items()
+        }
+        result.append(transform)
+    return sorted(result, key=lambda t: (-len(t["pairs"]), t["transform"]))
+
+
+def suggest(query, transforms):
+    """Products of applying each transform to the query.
+
+    Each product keeps the transform with the most pairs; the query itself
+    is not suggested.
+    """
+    mol = Chem.MolFromSmiles(query)
+    own = Chem.MolToSmiles(mol, isomericSmiles=False)
+    best = {}
+    for constant, variable in fragment(mol):
+        for transform in transforms:
+            if transform["from"] != variable:
+                continue
+            smiles = join(constant, transform["to"])
+            pairs = len(transform["pairs"])
+            if smiles == own or (smiles in best and best[smiles]["pair_count"] >= pairs):
+                continue
+            best[smiles] = {
+                "smiles": smiles,
+                "transform": transform["transform"],
+                "pair_count": pairs,
+                "changes": transform["changes"],
+            }
+    return sorted(best.values(), key=lambda s: (-s["pair_count"], s["smiles"]))[:MAX_TRANSFORMS]
+
+
+def self_check():
+    library = [
+        "NC(=O)Cc1ccc(Cl)cc1",
+        "NC(=O)Cc1ccc(cc1)C(F)(F)F",
+        "NC(=O)Cc1ccccc1",
+        "CNC(=O)Cc1ccc(Cl)cc1",
+        "CNC(=O)Cc1ccc(cc1)C(F)(F)F",
+        "CNC(=O)Cc1ccccc1",
+        "not a smiles",
+    ]
+    pic50 = [6.0, 7.0, 5.0, 6.5, 7.7, None, None]
+
+    cuts = fragment(Chem.MolFromSmiles(library[0]))
+    assert ("NC(=O)Cc1ccc([*:1])cc1", "Cl[*:1]") in cuts, "the aryl chloride bond should be cut"
+
+    transforms = matched_pairs(library, {"pIC50": pic50})
+    by_key = {t["transform"]: t for t in transforms}
+    if MIN_PAIRS <= 2:
+        chlorine = by_key["Cl[*:1]>>FC(F)(F)[*:1]"]
+        change = chlorine["changes"]["pIC50"]
+        assert len(chlorine["pairs"]) == 2, "Cl -> CF3 should be seen in both amide series"
+        assert abs(change["mean"] - 1.1) < 1e-9 and change["count"] == 2, "the mean pIC50 change should be 1.1"
+        reverse = by_key["FC(F)(F)[*:1]>>Cl[*:1]"]["changes"]["pIC50"]
+        assert reverse["mean"] == -change["mean"], "reverse transforms should negate"
+        if INCLUDE_HYDROGEN:
+            methylation = by_key["[*:1][H]>>C[*:1]"]
+            assert len(methylation["pairs"]) == 3, "N-methylation should pair all three amides"
+            assert methylation["changes"]["pIC50"]["count"] == 2, "unmeasured compounds should be left out of the statistics"
+
+        suggestions = suggest("CCOC(=O)Cc1ccc(Cl)cc1", transforms)
+        assert any(s["smiles"] == "CCOC(=O)Cc1ccc(C(F)(F)F)cc1" for s in suggestions), \\
+            "the query should be offered the CF3 analogue"
+
+    for transform in transforms[:MAX_TRANSFORMS]:
+        change = transform["changes"]["pIC50"]
+        print("%s: %d pair(s)%s" % (
+            transform["transform"],
+            len(transform["pairs"]),
+            ", mean change %.2f +/- %.2f" % (change["mean"], change["std"]) if change else "",
+        ))
+${selfCheckFooter}`;
+
+const activityCliffs: CodeTemplate = (p) => `${header('Activity Cliff Detection Algorithm', p, 'rdkit numpy')}
+import numpy as np
+from rdkit import Chem, DataStructs
+from rdkit.Chem import MACCSkeys, rdFingerprintGenerator
+
+FINGERPRINT_TYPE = ${literal(p.fingerprintType)}
+RADIUS = ${literal(p.radius ?? 2)}
+BIT_LENGTH = ${literal(p.bitLength)}
+MAX_PATH_LENGTH = ${literal(p.maxPathLength ?? 7)}
+MIN_SIMILARITY = ${literal(p.minSimilarity)}
+MIN_ACTIVITY_DIFFERENCE = ${literal(p.minActivityDifference)}
+MIN_SALI = ${literal(p.minSali)}
+MAX_CLIFFS = ${literal(p.maxCliffs)}
+# Identical fingerprints would give an infinite SALI, so 1 - similarity is
+# floored at this value.
+SALI_DISTANCE_FLOOR = 0.01
+
+${fingerprintGeneratorHelpers}
+
+def generate_fingerprint(smiles):
+    mol = Chem.MolFromSmiles(smiles)
+    if mol is None:
+        return None
+    return MACCSkeys.GenMACCSKeys(mol) if GENERATOR is None else GENERATOR.GetFingerprint(mol)
+
+
+def sali(activity_difference, similarity):
+    """Structure-Activity Landscape Index (Guha and Van Drie, 2008)."""
+    return abs(activity_difference) / max(1 - similarity, SALI_DISTANCE_FLOOR)
+
+
+def find_activity_cliffs(library, activities):
+    """Cliffs among the measured compounds (activity not None), highest SALI
+    first, with SALI network and heatmap data. Indices are library positions."""
+    measured, fps = [], []
+    for index, smiles in enumerate(library):
+        if activities[index] is None:
+            continue
+        fp = generate_fingerprint(smiles)
+        if fp is None:
+            print("Skipping invalid SMILES: %s" % smiles)
+            continue
+        measured.append(index)
+        fps.append(fp)
+
+    n = len(measured)
+    similarity = np.ones((n, n))
+    for a in range(1, n):
+        similarity[a, :a] = similarity[:a, a] = DataStructs.BulkTanimotoSimilarity(fps[a], fps[:a])
+    values = np.array([activities[i] for i in measured], dtype=float)
+
+    cliffs = []
+    for a in range(n):
+        for b in range(a + 1, n):
+            difference = values[b] - values[a]
+            s = float(similarity[a, b])
+            value = sali(difference, s)
+            if s < MIN_SIMILARITY or abs(difference) < MIN_ACTIVITY_DIFFERENCE or value < MIN_SALI:
+                continue
+            low, high = (a, b) if difference >= 0 else (b, a)
+            cliffs.append({
+                "from": measured[low],
+                "to": measured[high],
+                "similarity": s,
+                "activity_difference": float(abs(difference)),
+                "sali": value,
+            })
+    cliffs.sort(key=lambda c: (-c["sali"], c["from"], c["to"]))
+    reported = cliffs[:MAX_CLIFFS]
+
+    # Measured compounds by increasing activity; rows and columns follow
+    order = sorted(range(n), key=lambda a: (values[a], a))
+    heatmap = np.abs(values[:, None] - values[None, :]) / np.maximum(1 - similarity, SALI_DISTANCE_FLOOR)
+    np.fill_diagonal(heatmap, 0)
+    return {
+        "cliff_count": len(cliffs),
+        "cliffs": reported,
+        "network": {
+            "nodes": sorted({i for c in reported for i in (c["from"], c["to"])}),
+            "edges": [{"source": c["from"], "target": c["to"], "sali": c["sali"]} for c in reported],
+        },
+        "heatmap": {
+            "order": [measured[a] for a in order],
+            "sali": heatmap[np.ix_(order, order)].tolist(),
+        },
+    }
+
+
+def self_check():
+    library = [
+        "CC(=O)Nc1ccc(O)cc1",  # paracetamol
+        "CC(=O)Nc1ccc(O)cc1",  # duplicate, measured again
+        "CC(=O)Nc1ccc(OC)cc1",  # methacetin
+        "CC(=O)Nc1ccc(OCC)cc1",  # phenacetin
+        "CC(=O)Oc1ccccc1C(=O)O",  # aspirin
+        "Cn1cnc2c1c(=O)n(C)c(=O)n2C",  # caffeine
+        "CCCCCCCC",  # unmeasured
+        "not a smiles",
+    ]
+    # The duplicate pair differs by more than MIN_ACTIVITY_DIFFERENCE
+    activities = [5, 6.5 + MIN_ACTIVITY_DIFFERENCE, 5.5, 6, 4, 3, None, 7]
+
+    result = find_activity_cliffs(library, activities)
+    heatmap = np.array(result["heatmap"]["sali"])
+    assert result["heatmap"]["order"] == [5, 4, 0, 2, 3, 1], "the heatmap should cover measured compounds by activity"
+    assert np.allclose(heatmap, heatmap.T) and not heatmap.diagonal().any(), \\
+        "the SALI heatmap should be symmetric with a zero diagonal"
+    for c in result["cliffs"]:
+        assert c["similarity"] >= MIN_SIMILARITY and c["activity_difference"] >= MIN_ACTIVITY_DIFFERENCE \\
+            and c["sali"] >= MIN_SALI, "cliffs should meet every threshold"
+        assert activities[c["to"]] - activities[c["from"]] > 0, "cliffs should point to the more active compound"
+        assert c["from"] not in (6, 7) and c["to"] not in (6, 7), "unmeasured and invalid compounds should be skipped"
+    assert [c["sali"] for c in result["cliffs"]] == sorted((c["sali"] for c in result["cliffs"]), reverse=True), \\
+        "cliffs should be sorted by SALI"
+    assert len(result["cliffs"]) == min(result["cliff_count"], MAX_CLIFFS), "at most MAX_CLIFFS cliffs should be reported"
+    if sali(1.5 + MIN_ACTIVITY_DIFFERENCE, 1) >= MIN_SALI:
+        steepest = result["cliffs"][0]
+        assert (steepest["from"], steepest["to"]) == (0, 1) \\
+            and abs(steepest["sali"] - (1.5 + MIN_ACTIVITY_DIFFERENCE) / SALI_DISTANCE_FLOOR) < 1e-6, \\
+            "identical structures with different activities should be the steepest cliff"
+
+    for c in result["cliffs"]:
+        print("%s -> %s: similarity %.2f, SALI %.1f" % (
+            library[c["from"]], library[c["to"]], c["similarity"], c["sali"]))
+${selfCheckFooter}`;
+
+const rGroupAnalysis: CodeTemplate = (p) => `${header('R-Group Decomposition and Free-Wilson Analysis', p, 'rdkit numpy')}
+import numpy as np
+from rdkit import Chem
+from rdkit.Chem import rdRGroupDecomposition
+
+CORE_SMARTS = ${literal(p.coreSmarts)}
+# Decomposition columns, one per labelled attachment point ([*:1] is R1).
+LABELS = ${literal(p.labels)}
+RIDGE_ALPHA = ${literal(p.ridgeAlpha)}
+MAX_PREDICTIONS = ${literal(p.maxPredictions)}
+
+
+def hydrogen_group(label):
+    return "[H][*:%s]" % label[1:]
+
+
+def decompose_rgroups(core_smarts, labels, library):
+    """RDKit's R-group decomposition with substituents allowed only at the
+    labelled attachment points; symmetric cores are settled by the most
+    consistent labelling across the series. Returns the decompositions as
+    { index, core, rgroups } (hydrogen written [H][*:n]) and the library
+    indices of compounds without a decomposition."""
+    core = Chem.MolFromSmarts(core_smarts)
+    if core is None:
+        raise ValueError("Invalid core SMARTS: %s" % core_smarts)
+    indices, mols = [], []
+    for index, smiles in enumerate(library):
+        mol = Chem.MolFromSmiles(smiles)
+        if mol is None:
+            print("Skipping invalid SMILES: %s" % smiles)
+            continue
+        indices.append(index)
+        mols.append(mol)
+
+    params = rdRGroupDecomposition.RGroupDecompositionParameters()
+    params.onlyMatchAtRGroups = True
+    rows, unmatched = rdRGroupDecomposition.RGroupDecompose([core], mols, asSmiles=True, asRows=True, options=params)
+    unmatched = set(unmatched)
+    decomposed = [index for k, index in enumerate(indices) if k not in unmatched]
+    decompositions = [{
+        "index": index,
+        "core": row["Core"],
+        # RDKit drops a label that is hydrogen in every compound
+        "rgroups": [row.get(label, hydrogen_group(label)) for label in labels],
+    } for index, row in zip(decomposed, rows)]
+    return decompositions, [indices[k] for k in sorted(unmatched)]
+
+
+def fit_free_wilson(rgroups, activities):
+    """activity = intercept + one contribution per attachment point, fitted by
+    ridge regression on R-group indicator columns. The most common R group at
+    each position (ties by SMILES) is the reference, with no column and a
+    contribution of 0."""
+    positions = range(len(rgroups[0]))
+    references = []
+    for k in positions:
+        counts = {}
+        for row in rgroups:
+            counts[row[k]] = counts.get(row[k], 0) + 1
+        references.append(min(counts, key=lambda rgroup: (-counts[rgroup], rgroup)))
+    columns = sorted({(k, row[k]) for row in rgroups for k in positions if row[k] != references[k]})
+    X = np.array([[1.0] + [float(row[k] == rgroup) for k, rgroup in columns] for row in rgroups])
+    y = np.asarray(activities, dtype=float)
+
+    # (X'X + alpha D) beta = X'y, with the intercept unpenalized; the tiny
+    # ridge keeps collinear columns solvable.
+    penalty = np.full(len(columns) + 1, RIDGE_ALPHA)
+    penalty[0] = 0
+    beta = np.linalg.solve(X.T @ X + np.diag(penalty + 1e-8), X.T @ y)
+
+    fitted = X @ beta
+    ss_total = float(((y - y.mean()) ** 2).sum())
+    contributions = [{references[k]: 0.0} for k in positions]
+    for (k, rgroup), value in zip(columns, beta[1:]):
+        contributions[k][rgroup] = float(value)
+    return {
+        "intercept": float(beta[0]),
+        "contributions": contributions,
+        "fitted": fitted.tolist(),
+        "r2": 0.0 if ss_total == 0 else 1 - float(((y - fitted) ** 2).sum()) / ss_total,
+    }
+
+
+def _mol_with_hydrogens(smiles):
+    params = Chem.SmilesParserParams()
+    params.removeHs = False
+    return Chem.MolFromSmiles(smiles, params)
+
+
+def assemble_compound(core, rgroups):
+    """Joins R groups onto a decomposed core at their matching attachment
+    points, giving canonical SMILES."""
+    zipped = Chem.molzip(_mol_with_hydrogens(core), _mol_with_hydrogens(".".join(rgroups)))
+    return Chem.MolToSmiles(Chem.RemoveHs(zipped))
+
+
+def predict_unmade(model, core, made):
+    """Best unmade combinations of the fitted R groups, highest prediction
+    first, found best-first: each popped combination queues its neighbours
+    with one position moved to the next-best R group there."""
+    options = [sorted(c.items(), key=lambda item: -item[1]) for c in model["contributions"]]
+    made = {tuple(rgroups) for rgroups in made}
+
+    def score(picks):
+        return model["intercept"] + sum(options[k][r][1] for k, r in enumerate(picks))
+
+    start = tuple(0 for _ in options)
+    frontier = {start: score(start)}
+    queued = {start}
+    predictions = []
+    while frontier and len(predictions) < MAX_PREDICTIONS:
+        picks = max(frontier, key=frontier.get)
+        predicted = frontier.pop(picks)
+        rgroups = [options[k][r][0] for k, r in enumerate(picks)]
+        if tuple(rgroups) not in made:
+            predictions.append({
+                "smiles": assemble_compound(core, rgroups),
+                "rgroups": rgroups,
+                "predicted": predicted,
+            })
+        for k in range(len(picks)):
+            following = picks[:k] + (picks[k] + 1,) + picks[k + 1:]
+            if following[k] < len(options[k]) and following not in queued:
+                queued.add(following)
+                frontier[following] = score(following)
+    return predictions
+
+
+def self_check():
+    # Additive toy series on a benzamide core: R1 = H, F or Cl; R2 = H, methyl
+    # or ethyl. The Cl / ethyl combination, the best one, is left unmade.
+    library = [
+        "NC(=O)c1ccccc1",
+        "CNC(=O)c1ccccc1",
+        "CCNC(=O)c1ccccc1",
+        "NC(=O)c1ccc(F)cc1",
+        "CNC(=O)c1ccc(F)cc1",
+        "CCNC(=O)c1ccc(F)cc1",
+        "NC(=O)c1ccc(Cl)cc1",
+        "CNC(=O)c1ccc(Cl)cc1",
+        "CN(C)C(=O)c1ccc(Cl)cc1",  # two substituents on one attachment point
+        "CCO",  # no core
+        "not a smiles",
+    ]
+    activities = [5, 5.3, 5.6, 5.5, 5.8, 6.1, 6, 6.3, 7, 4, 4]
+
+    decompositions, unmatched = decompose_rgroups("[*:1]c1ccc(cc1)C(=O)N[*:2]", ["R1", "R2"], library)
+    assert len(decompositions) == 8, "the eight amides with one substituent per label should decompose"
+    assert unmatched == [8, 9], "the dimethylamide and the compound without the core should be unmatched"
+    assert decompositions[7]["rgroups"] == ["Cl[*:1]", "C[*:2]"] \\
+        and decompositions[0]["rgroups"] == ["[H][*:1]", "[H][*:2]"], \\
+        "R groups should be written with their attachment points, hydrogen included"
+
+    model = fit_free_wilson([d["rgroups"] for d in decompositions], [activities[d["index"]] for d in decompositions])
+    assert model["r2"] > 0.9, "an additive series should fit well"
+    r1 = model["contributions"][0]
+    assert r1["Cl[*:1]"] > r1["F[*:1]"] > r1["[H][*:1]"], "contributions should rank Cl > F > H"
+
+    predictions = predict_unmade(model, decompositions[0]["core"], [d["rgroups"] for d in decompositions])
+    assert len(predictions) == 1, "only one combination should be unmade"
+    assert predictions[0]["smiles"] == "CCNC(=O)c1ccc(Cl)cc1", "the unmade combination should be assembled on the core"
+    assert predictions[0]["predicted"] > max(model["fitted"]), \\
+        "the best combination should be predicted above every made one"
+
+    configured, _ = decompose_rgroups(CORE_SMARTS, LABELS, library)
+    print("%s: %d of %d compounds decomposed" % (CORE_SMARTS, len(configured), len(library)))
+    for d in configured:
+        print("%s: %s" % (library[d["index"]], ", ".join("%s %s" % pair for pair in zip(LABELS, d["rgroups"]))))
+${selfCheckFooter}`;
+
+// USR / USRCAT variant of molecular-similarity, selected by its method.
+const shapeSimilarity: CodeTemplate = (p) => `${header('Shape Similarity Search Algorithm', p)}
+from rdkit import Chem, DataStructs
+from rdkit.Chem import AllChem, MACCSkeys, rdFingerprintGenerator, rdMolDescriptors
+
+SIMILARITY_THRESHOLD = ${literal(p.similarityThreshold)}
+METHOD = ${literal(p.method)}
+MAX_RESULTS = ${literal(p.maxResults)}
+SHAPE_WEIGHT = ${literal(p.shapeWeight)}
+FINGERPRINT_WEIGHT = ${literal(p.fingerprintWeight)}
+FINGERPRINT_TYPE = ${literal(p.fingerprintType)}
+RADIUS = ${literal(p.radius ?? 2)}
+BIT_LENGTH = ${literal(p.bitLength)}
+MAX_PATH_LENGTH = ${literal(p.maxPathLength ?? 7)}
+# USRCAT weights for the all-atom moments, then the hydrophobic, aromatic,
+# acceptor and donor subsets
+USRCAT_WEIGHTS = [1.0, 0.25, 0.25, 0.25, 0.25]
+
+
+def fingerprint(mol):
+    kind = FINGERPRINT_TYPE.upper()
+    if kind == "MACCS":
+        return MACCSkeys.GenMACCSKeys(mol)
+    if kind.startswith("FCFP"):
+        generator = rdFingerprintGenerator.GetMorganGenerator(
+            radius=RADIUS,
+            fpSize=BIT_LENGTH,
+            atomInvariantsGenerator=rdFingerprintGenerator.GetMorganFeatureAtomInvGen(),
+        )
+    elif kind == "ATOM-PAIR":
+        generator = rdFingerprintGenerator.GetAtomPairGenerator(fpSize=BIT_LENGTH)
+    elif kind == "TOPOLOGICAL-TORSION":
+        generator = rdFingerprintGenerator.GetTopologicalTorsionGenerator(fpSize=BIT_LENGTH)
+    elif kind == "PATH":
+        generator = rdFingerprintGenerator.GetRDKitFPGenerator(maxPath=MAX_PATH_LENGTH, fpSize=BIT_LENGTH)
+    else:
+        generator = rdFingerprintGenerator.GetMorganGenerator(radius=RADIUS, fpSize=BIT_LENGTH)
+    return generator.GetFingerprint(mol)
+
+
+def generate_conformers(smiles, count=10):
+    """Embeds ETKDG conformers and returns the molecule without hydrogens."""
+    mol = Chem.AddHs(Chem.MolFromSmiles(smiles))
+    AllChem.EmbedMultipleConfs(mol, numConfs=count, randomSeed=42)
+    AllChem.MMFFOptimizeMoleculeConfs(mol)
+    return Chem.RemoveHs(mol)
+
+
+def load_sdf(path):
+    """Reads an SD file, merging consecutive records with the same title into one multi-conformer molecule."""
+    compounds = []
+    for mol in Chem.SDMolSupplier(path):
+        if mol is None:
+            continue
+        name = mol.GetProp("_Name") if mol.HasProp("_Name") else ""
+        if compounds and name and compounds[-1][0] == name:
+            compounds[-1][1].AddConformer(mol.GetConformer(), assignId=True)
+        else:
+            compounds.append((name, Chem.Mol(mol)))
+    return compounds
+
+
+def shape_descriptor(mol, conf_id):
+    if METHOD == "usrcat":
+        return rdMolDescriptors.GetUSRCAT(mol, confId=conf_id)
+    return rdMolDescriptors.GetUSR(mol, confId=conf_id)
+
+
+def shape_score(d1, d2):
+    weights = USRCAT_WEIGHTS if METHOD == "usrcat" else [1.0]
+    return rdMolDescriptors.GetUSRScore(d1, d2, weights=weights)
+
+
+def shape_similarity_search(query, database, threshold=SIMILARITY_THRESHOLD):
+    """query is a molecule with conformers; database is a list of (name, molecule with conformers)."""
+    query_descriptors = [shape_descriptor(query, conf.GetId()) for conf in query.GetConformers()]
+    query_fingerprint = fingerprint(query) if FINGERPRINT_WEIGHT > 0 else None
+
+    results = []
+    for name, mol in database:
+        best_conformer, best_shape = 0, -1.0
+        for conf in mol.GetConformers():
+            descriptor = shape_descriptor(mol, conf.GetId())
+            for query_descriptor in query_descriptors:
+                score = shape_score(query_descriptor, descriptor)
+                if score > best_shape:
+                    best_conformer, best_shape = conf.GetId(), score
+        fingerprint_similarity = None
+        if query_fingerprint is not None:
+            fingerprint_similarity = DataStructs.TanimotoSimilarity(query_fingerprint, fingerprint(mol))
+        similarity = (SHAPE_WEIGHT * best_shape + FINGERPRINT_WEIGHT * (fingerprint_similarity or 0.0)) / \\
+            (SHAPE_WEIGHT + FINGERPRINT_WEIGHT)
+        if similarity >= threshold:
+            results.append({
+                "compound": name,
+                "conformer": best_conformer,
+                "similarity": similarity,
+                "shapeSimilarity": best_shape,
+                "fingerprintSimilarity": fingerprint_similarity,
+            })
+
+    results.sort(key=lambda x: x["similarity"], reverse=True)
+    return results[:MAX_RESULTS]
+
+
+def self_check():
+    library = {
+        "aspirin": "CC(=O)Oc1ccccc1C(=O)O",
+        "salicylic acid": "OC(=O)c1ccccc1O",
+        "caffeine": "Cn1cnc2c1c(=O)n(C)c(=O)n2C",
+        "hexadecane": "CCCCCCCCCCCCCCCC",
+    }
+    database = [(name, generate_conformers(smiles)) for name, smiles in library.items()]
+    query = database[0][1]
+
+    assert len(shape_descriptor(query, 0)) == (60 if METHOD == "usrcat" else 12), "descriptor length"
+    hits = shape_similarity_search(query, database, threshold=0.0)
+    assert len(hits) == len(database), "every compound should be scored"
+    assert hits[0]["compound"] == "aspirin" and abs(hits[0]["similarity"] - 1) < 1e-9, "query should match itself"
+    assert all(0 < hit["similarity"] <= 1 for hit in hits), "similarities should be in (0, 1]"
+    assert all(a["similarity"] >= b["similarity"] for a, b in zip(hits, hits[1:])), "hits should be sorted"
+
+    for hit in hits:
+        print("%.3f  %s (conformer %d)" % (hit["similarity"], hit["compound"], hit["conformer"]))
+${selfCheckFooter}`;
+
+export const pythonTemplates: Record<AlgorithmType, CodeTemplate> = {
+  'molecular-similarity': (p) => (isShapeMethod(String(p.method)) ? shapeSimilarity(p) : molecularSimilarity(p)),
+  'qsar-model': qsarModel,
+  'compound-screening': compoundScreening,
+  'structure-optimization': structureOptimization,
+  'pharmacophore': pharmacophore,
+  'virtual-screening': virtualScreening,
+  'substructure-search': substructureSearch,
+  'clustering-diversity': clusteringDiversity,
+  'scaffold-analysis': scaffoldAnalysis,
+  'matched-molecular-pairs': matchedMolecularPairs,
+  'activity-cliffs': activityCliffs,
+  'r-group-analysis': rGroupAnalysis,
+};
@@ -0,0 +1,3767 @@
+import type { AlgorithmParameters, AlgorithmType, CodeTemplate } from '@/lib/algorithms';
+import { qedAcceptorSmarts, qedAdsParameters, qedAlertSmarts, qedDonorSmarts, qedWeights } from '@/lib/chem/qed';
+import { isShapeMethod } from '@/lib/chem/shape';
+
+// Generated TypeScript runs on RDKit MinimalLib (WebAssembly) so it needs no
+// native toolchain: `npm install @rdkit/rdkit` and `npx tsx <file>.ts`.
+
+const literal = (value: unknown) => JSON.stringify(value);
+
+const header = (title: string, parameters: AlgorithmParameters) => `// ${title} (TypeScript)
+// Generated by the Cheminformatics Algorithm Generator.
+//
+// Requires: npm install @rdkit/rdkit
+// Run:      npx tsx <this file>.ts   (executes the self-check at the bottom)
+//
+// Configured parameters:
+${JSON.stringify(parameters, null, 2)
+  .split('\n')
+  .map((line) => `//   ${line}`)
+  .join('\n')}
+
+import initRDKitModule from '@rdkit/rdkit';
+
+type RDKitModule = Awaited<ReturnType<typeof initRDKitModule>>;
+
+function check(condition: boolean, message: string): void {
+  if (!condition) {
+    throw new Error('Self-check failed: ' + message);
+  }
+}
+`;
+
+const fingerprintHelpers = `
+type Fingerprint = Uint8Array;
+
+function morganFingerprint(rdkit: RDKitModule, smiles: string, radius: number, nBits: number): Fingerprint | null {
+  const mol = rdkit.get_mol(smiles);
+  if (!mol || !mol.is_valid()) {
+    mol?.delete();
+    return null;
+  }
+  try {
+    const bits = mol.get_morgan_fp(JSON.stringify({ radius, nBits }));
+    return Uint8Array.from(bits, (bit) => (bit === '1' ? 1 : 0));
+  } finally {
+    mol.delete();
+  }
+}
+
+function calculateSimilarity(fp1: Fingerprint, fp2: Fingerprint, method: string, alpha = 0.9, beta = 0.1): number {
+  let a = 0;
+  let b = 0;
+  let c = 0;
+  for (let i = 0; i < fp1.length; i++) {
+    a += fp1[i];
+    b += fp2[i];
+    c += fp1[i] & fp2[i];
+  }
+  switch (method) {
+    case 'dice':
+      return a + b === 0 ? 0 : (2 * c) / (a + b);
+    case 'cosine':
+      return a === 0 || b === 0 ? 0 : c / Math.sqrt(a * b);
+    case 'euclidean':
+      // Euclidean distance scaled by its largest value for these bit counts
+      return a + b === 0 ? 0 : 1 - Math.sqrt((a + b - 2 * c) / (a + b));
+    case 'tversky': {
+      const denominator = alpha * (a - c) + beta * (b - c) + c;
+      return denominator === 0 ? 0 : c / denominator;
+    }
+    case 'russell-rao':
+      return fp1.length === 0 ? 0 : c / fp1.length;
+    // Soergel is Tanimoto on counts, so the two agree on bit vectors.
+    case 'soergel':
+    default:
+      return a + b - c === 0 ? 0 : c / (a + b - c);
+  }
+}
+`;
+
+const descriptorHelpers = `
+// Maps generator descriptor names onto RDKit MinimalLib descriptor keys.
+const DESCRIPTOR_KEYS: Record<string, string> = {
+  MW: 'amw',
+  LogP: 'CrippenClogP',
+  TPSA: 'tpsa',
+  HBD: 'lipinskiHBD',
+  HBA: 'lipinskiHBA',
+  RotatableBonds: 'NumRotatableBonds',
+  MR: 'CrippenMR',
+  HeavyAtoms: 'NumHeavyAtoms',
+  Rings: 'NumRings',
+  AromaticRings: 'NumAromaticRings',
+  FractionCSP3: 'FractionCSP3',
+};
+
+function calculateDescriptors(rdkit: RDKitModule, smiles: string, names: string[]): number[] | null {
+  const mol = rdkit.get_mol(smiles);
+  if (!mol || !mol.is_valid()) {
+    mol?.delete();
+    return null;
+  }
+  try {
+    const all = JSON.parse(mol.get_descriptors()) as Record<string, number>;
+    return names.map((name) => {
+      const value = all[DESCRIPTOR_KEYS[name] ?? name];
+      if (value === undefined) {
+        throw new Error('Unknown descriptor: ' + name);
+      }
+      return value;
+    });
+  } finally {
+    mol.delete();
+  }
+}
+`;
+
+// Applicability domain over normalized descriptors (ECFP4 for knn-tanimoto).
+// Needs fingerprintHelpers and an APPLICABILITY_DOMAIN constant.
+const domainHelpers = `
+interface Domain {
+  threshold: number;
+  min?: number[];
+  max?: number[];
+  inverse?: number[][];
+  fingerprints?: Fingerprint[];
+  k?: number;
+  points?: number[][];
+  bandwidth?: number;
+}
+
+function invert(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const p = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = a[r][col];
+      for (let j = 0; j < 2 * n; j++) a[r][j] -= f * a[col][j];
+    }
+  }
+  return a.map((row) => row.slice(n));
+}
+
+function nearestDistance(fp: Fingerprint, others: Fingerprint[], k: number): number {
+  const distances = others
+    .map((other) => 1 - calculateSimilarity(fp, other, 'tanimoto'))
+    .sort((a, b) => a - b)
+    .slice(0, k);
+  return distances.reduce((sum, d) => sum + d, 0) / Math.max(distances.length, 1);
+}
+
+function negativeLogDensity(x: number[], points: number[][], bandwidth: number): number {
+  const exponents = points.map((point) => -point.reduce((sum, v, j) => sum + (v - x[j]) ** 2, 0) / (2 * bandwidth ** 2));
+  const top = Math.max(...exponents);
+  return -(top + Math.log(exponents.reduce((sum, e) => sum + Math.exp(e - top), 0) / exponents.length));
+}
+
+function fitDomain(X: number[][], fingerprints: Fingerprint[]): Domain {
+  const n = X.length;
+  const p = X[0].length;
+  switch (APPLICABILITY_DOMAIN) {
+    case 'bounding-box':
+      return {
+        min: X[0].map((_, j) => Math.min(...X.map((row) => row[j]))),
+        max: X[0].map((_, j) => Math.max(...X.map((row) => row[j]))),
+        threshold: 0,
+      };
+    case 'leverage': {
+      const design = X.map((row) => [1, ...row]);
+      const xtx = design[0].map((_, i) =>
+        design[0].map((_, j) => design.reduce((sum, row) => sum + row[i] * row[j], i === j ? 1e-8 : 0)),
+      );
+      // Warning leverage h* = 3(p + 1) / n
+      return { inverse: invert(xtx), threshold: (3 * (p + 1)) / n };
+    }
+    case 'knn-tanimoto': {
+      const k = Math.max(1, Math.min(5, n - 1));
+      const knn = fingerprints.map((fp, i) => nearestDistance(fp, fingerprints.filter((_, j) => j !== i), k));
+      const m = knn.reduce((sum, d) => sum + d, 0) / n;
+      const sd = Math.sqrt(knn.reduce((sum, d) => sum + (d - m) ** 2, 0) / n);
+      return { fingerprints, k, threshold: m + 0.5 * sd };
+    }
+    default: {
+      // density: Gaussian kernel, Scott's rule bandwidth, 95% of training compounds in domain
+      const bandwidth = n ** (-1 / (p + 4));
+      const loo = X.map((x, i) => negativeLogDensity(x, X.filter((_, j) => j !== i), bandwidth)).sort((a, b) => a - b);
+      return { points: X, bandwidth, threshold: loo[Math.min(n - 1, Math.ceil(0.95 * n) - 1)] };
+    }
+  }
+}
+
+// Larger distances are further from the training set.
+function assessDomain(domain: Domain, x: number[], fp: Fingerprint): { inDomain: boolean; distance: number } {
+  let distance: number;
+  switch (APPLICABILITY_DOMAIN) {
+    case 'bounding-box':
+      distance = Math.max(0, ...x.map((v, j) => Math.max(domain.min![j] - v, v - domain.max![j])));
+      break;
+    case 'leverage': {
+      const z = [1, ...x];
+      distance = z.reduce((sum, zi, i) => sum + zi * z.reduce((inner, zj, j) => inner + domain.inverse![i][j] * zj, 0), 0);
+      break;
+    }
+    case 'knn-tanimoto':
+      distance = nearestDistance(fp, domain.fingerprints!, domain.k!);
+      break;
+    default:
+      distance = negativeLogDensity(x, domain.points!, domain.bandwidth!);
+  }
+  return { inDomain: distance <= domain.threshold, distance };
+}
+`;
+
+const graphNetworkHelpers = `
+// Graph isomorphism network (GIN-0) on RDKit molecular graphs. Each layer
+// passes an atom's features plus the sum over its bonded neighbours through
+// a two-layer perceptron; atoms are then sum-pooled into a linear readout.
+// Trained with Adam on mean squared error in mini-batches of BATCH_SIZE.
+const GNN_ELEMENTS = [6, 7, 8, 9, 15, 16, 17, 35, 53];
+// Element (plus "other"), degree 0-4, implicit H 0-3, charge, aromatic, in ring
+const GNN_FEATURE_SIZE = GNN_ELEMENTS.length + 1 + 5 + 4 + 3;
+const GNN_LEARNING_RATE = 0.005;
+
+export interface MolecularGraph {
+  features: number[][];
+  neighbors: number[][];
+}
+
+interface GinLayer {
+  w1: number[][];
+  b1: number[];
+  w2: number[][];
+  b2: number[];
+}
+
+// JSON-serializable weights.
+export interface GinModel {
+  format: 'crowe-gin';
+  version: 1;
+  layers: GinLayer[];
+  readout: number[];
+  // Kept as a one-element array so every parameter is a vector
+  readoutBias: number[];
+}
+
+interface GinPass {
+  prediction: number;
+  pooled: number[];
+  layers: { aggregated: number[][]; hidden: number[][]; output: number[][] }[];
+}
+
+interface RDKitJsonAtom {
+  z?: number;
+  impHs?: number;
+  chg?: number;
+}
+
+export function molecularGraph(rdkit: RDKitModule, smiles: string): MolecularGraph | null {
+  const mol = rdkit.get_mol(smiles);
+  if (!mol || !mol.is_valid()) {
+    mol?.delete();
+    return null;
+  }
+  try {
+    const json = JSON.parse(mol.get_json());
+    const { atoms, bonds = [], extensions = [] } = json.molecules[0];
+    const aromatic = new Set<number>(extensions[0]?.aromaticAtoms ?? []);
+    const inRing = new Set<number>((extensions[0]?.atomRings ?? []).flat());
+    const neighbors: number[][] = atoms.map(() => []);
+    for (const bond of bonds as { atoms: [number, number] }[]) {
+      neighbors[bond.atoms[0]].push(bond.atoms[1]);
+      neighbors[bond.atoms[1]].push(bond.atoms[0]);
+    }
+    const features = (atoms as RDKitJsonAtom[]).map((atom, i) => {
+      const { z, impHs, chg } = { ...json.defaults.atom, ...atom };
+      const element = GNN_ELEMENTS.indexOf(z);
+      return [
+        ...GNN_ELEMENTS.map((_, k) => (k === element ? 1 : 0)),
+        element < 0 ? 1 : 0,
+        ...[0, 1, 2, 3, 4].map((d) => (Math.min(neighbors[i].length, 4) === d ? 1 : 0)),
+        ...[0, 1, 2, 3].map((h) => (Math.min(impHs, 3) === h ? 1 : 0)),
+        chg,
+        aromatic.has(i) ? 1 : 0,
+        inRing.has(i) ? 1 : 0,
+      ];
+    });
+    return { features, neighbors };
+  } finally {
+    mol.delete();
+  }
+}
+
+const affine = (w: number[][], b: number[], x: number[]) => w.map((row, i) => row.reduce((s, v, j) => s + v * x[j], b[i]));
+const relu = (x: number[]) => x.map((v) => Math.max(0, v));
+// Each node's own vector plus the sum of its neighbours' vectors
+const aggregate = (h: number[][], neighbors: number[][]) =>
+  h.map((hv, v) => neighbors[v].reduce((sum, u) => sum.map((s, j) => s + h[u][j]), hv));
+
+function ginForward(model: GinModel, graph: MolecularGraph): GinPass {
+  let h = graph.features;
+  const layers: GinPass['layers'] = [];
+  for (const layer of model.layers) {
+    const aggregated = aggregate(h, graph.neighbors);
+    const hidden = aggregated.map((a) => relu(affine(layer.w1, layer.b1, a)));
+    const output = hidden.map((r) => relu(affine(layer.w2, layer.b2, r)));
+    layers.push({ aggregated, hidden, output });
+    h = output;
+  }
+  const pooled = model.readout.map((_, j) => h.reduce((s, hv) => s + hv[j], 0));
+  return { prediction: pooled.reduce((s, v, j) => s + v * model.readout[j], model.readoutBias[0]), pooled, layers };
+}
+
+// Adds d(prediction)/d(weights) * dy to grad.
+function ginBackward(model: GinModel, graph: MolecularGraph, pass: GinPass, dy: number, grad: GinModel): void {
+  pass.pooled.forEach((v, j) => (grad.readout[j] += dy * v));
+  grad.readoutBias[0] += dy;
+  let dh = graph.features.map(() => model.readout.map((w) => dy * w));
+  for (let l = model.layers.length - 1; l >= 0; l--) {
+    const layer = model.layers[l];
+    const g = grad.layers[l];
+    const { aggregated, hidden, output } = pass.layers[l];
+    const dAggregated = aggregated.map((a, v) => {
+      const dz2 = dh[v].map((d, i) => (output[v][i] > 0 ? d : 0));
+      const dz1 = hidden[v].map((r, k) => (r > 0 ? dz2.reduce((s, d, i) => s + d * layer.w2[i][k], 0) : 0));
+      dz2.forEach((d, i) => {
+        g.b2[i] += d;
+        hidden[v].forEach((r, k) => (g.w2[i][k] += d * r));
+      });
+      dz1.forEach((d, k) => {
+        g.b1[k] += d;
+        a.forEach((x, j) => (g.w1[k][j] += d * x));
+      });
+      return a.map((_, j) => dz1.reduce((s, d, k) => s + d * layer.w1[k][j], 0));
+    });
+    // Sum aggregation is symmetric, so the gradient flows back the same way
+    dh = aggregate(dAggregated, graph.neighbors);
+  }
+}
+
+const parameterVectors = (model: GinModel) => [
+  ...model.layers.flatMap((layer) => [...layer.w1, layer.b1, ...layer.w2, layer.b2]),
+  model.readout,
+  model.readoutBias,
+];
+
+function zerosLike(model: GinModel): GinModel {
+  const zeros = structuredClone(model);
+  parameterVectors(zeros).forEach((vector) => vector.fill(0));
+  return zeros;
+}
+
+export function trainGin(graphs: MolecularGraph[], targets: number[], random: () => number): GinModel {
+  // He-uniform initialization
+  const init = (rows: number, cols: number) =>
+    Array.from({ length: rows }, () => Array.from({ length: cols }, () => (random() * 2 - 1) * Math.sqrt(6 / cols)));
+  const model: GinModel = {
+    format: 'crowe-gin',
+    version: 1,
+    layers: Array.from({ length: GNN_LAYERS }, (_, l) => ({
+      w1: init(GNN_HIDDEN_SIZE, l === 0 ? GNN_FEATURE_SIZE : GNN_HIDDEN_SIZE),
+      b1: new Array(GNN_HIDDEN_SIZE).fill(0),
+      w2: init(GNN_HIDDEN_SIZE, GNN_HIDDEN_SIZE),
+      b2: new Array(GNN_HIDDEN_SIZE).fill(0),
+    })),
+    readout: new Array(GNN_HIDDEN_SIZE).fill(0),
+    readoutBias: [targets.reduce((s, y) => s + y, 0) / Math.max(targets.length, 1)],
+  };
+
+  // Adam with default moment decay rates
+  const params = parameterVectors(model);
+  const m = parameterVectors(zerosLike(model));
+  const v = parameterVectors(zerosLike(model));
+  let t = 0;
+  const order = graphs.map((_, i) => i);
+  for (let epoch = 0; epoch < GNN_EPOCHS; epoch++) {
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    for (let start = 0; start < order.length; start += BATCH_SIZE) {
+      const batch = order.slice(start, start + BATCH_SIZE);
+      const grad = zerosLike(model);
+      for (const i of batch) {
+        const pass = ginForward(model, graphs[i]);
+        ginBackward(model, graphs[i], pass, (2 * (pass.prediction - targets[i])) / batch.length, grad);
+      }
+      t++;
+      parameterVectors(grad).forEach((gradient, p) => {
+        gradient.forEach((g, j) => {
+          m[p][j] = 0.9 * m[p][j] + 0.1 * g;
+          v[p][j] = 0.999 * v[p][j] + 0.001 * g * g;
+          const mHat = m[p][j] / (1 - 0.9 ** t);
+          const vHat = v[p][j] / (1 - 0.999 ** t);
+          params[p][j] -= (GNN_LEARNING_RATE * mHat) / (Math.sqrt(vHat) + 1e-8);
+        });
+      });
+    }
+  }
+  return model;
+}
+
+export function predictGin(model: GinModel, graph: MolecularGraph): number {
+  return ginForward(model, graph).prediction;
+}
+
+export function saveGin(model: GinModel): string {
+  return JSON.stringify(model);
+}
+
+export function loadGin(json: string): GinModel {
+  const model = JSON.parse(json);
+  if (model?.format !== 'crowe-gin' || model.version !== 1) {
+    throw new Error('Not a GIN weights file');
+  }
+  return model;
+}
+`;
+
+const randomHelpers = `
+// Small seeded PRNG so runs are reproducible.
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+`;
+
+// generateFingerprint for the configured fingerprint type. Templates using
+// it define FINGERPRINT_TYPE, RADIUS, BIT_LENGTH, USE_COUNTS and
+// MAX_PATH_LENGTH.
+const fingerprintTypeHelpers = `
+// RDKit MinimalLib only exposes bit vectors and no feature (FCFP)
+// invariants; use the Python/RDKit target for those.
+if (USE_COUNTS || /^FCFP/i.test(FINGERPRINT_TYPE)) {
+  console.warn('RDKit MinimalLib has no FCFP or count fingerprints; using ECFP bit vectors instead');
+}
+
+function generateFingerprint(rdkit: RDKitModule, smiles: string): Fingerprint | null {
+  const mol = rdkit.get_mol(smiles);
+  if (!mol || !mol.is_valid()) {
+    mol?.delete();
+    return null;
+  }
+  try {
+    let bits: string;
+    switch (FINGERPRINT_TYPE.toLowerCase()) {
+      case 'maccs':
+        bits = mol.get_maccs_fp();
+        break;
+      case 'atom-pair':
+        bits = mol.get_atom_pair_fp(JSON.stringify({ nBits: BIT_LENGTH }));
+        break;
+      case 'topological-torsion':
+        bits = mol.get_topological_torsion_fp(JSON.stringify({ nBits: BIT_LENGTH }));
+        break;
+      case 'path':
+        bits = mol.get_rdkit_fp(JSON.stringify({ nBits: BIT_LENGTH, maxPath: MAX_PATH_LENGTH }));
+        break;
+      default:
+        bits = mol.get_morgan_fp(JSON.stringify({ radius: RADIUS, nBits: BIT_LENGTH }));
+    }
+    return Uint8Array.from(bits, (bit) => (bit === '1' ? 1 : 0));
+  } finally {
+    mol.delete();
+  }
+}
+`;
+
+const molecularSimilarity: CodeTemplate = (p) => `${header('Molecular Similarity Search Algorithm', p)}${fingerprintHelpers}
+const SIMILARITY_THRESHOLD = ${literal(p.similarityThreshold)};
+const METHOD: string = ${literal(p.method)};
+const MAX_RESULTS = ${literal(p.maxResults)};
+const FINGERPRINT_TYPE: string = ${literal(p.fingerprintType)};
+const RADIUS = ${literal(p.radius ?? 2)};
+const BIT_LENGTH = ${literal(p.bitLength)};
+const USE_COUNTS: boolean = ${literal(p.useCounts ?? false)};
+const MAX_PATH_LENGTH = ${literal(p.maxPathLength ?? 7)};
+const TVERSKY_ALPHA = ${literal(p.tverskyAlpha ?? 0.9)};
+const TVERSKY_BETA = ${literal(p.tverskyBeta ?? 0.1)};
+${fingerprintTypeHelpers}
+export interface SimilarityHit {
+  smiles: string;
+  similarity: number;
+  confidence: number;
+}
+
+function calculateConfidence(similarity: number): number {
+  // Distance above the threshold, rescaled to [0, 1].
+  return SIMILARITY_THRESHOLD >= 1 ? 1 : (similarity - SIMILARITY_THRESHOLD) / (1 - SIMILARITY_THRESHOLD);
+}
+
+export function molecularSimilaritySearch(
+  rdkit: RDKitModule,
+  querySmiles: string,
+  database: string[],
+  threshold = SIMILARITY_THRESHOLD,
+): SimilarityHit[] {
+  const queryFingerprint = generateFingerprint(rdkit, querySmiles);
+  if (!queryFingerprint) {
+    throw new Error('Invalid query SMILES: ' + querySmiles);
+  }
+
+  const results: SimilarityHit[] = [];
+  for (const smiles of database) {
+    const compoundFingerprint = generateFingerprint(rdkit, smiles);
+    if (!compoundFingerprint) {
+      console.warn('Skipping invalid SMILES: ' + smiles);
+      continue;
+    }
+    const similarity = calculateSimilarity(queryFingerprint, compoundFingerprint, METHOD, TVERSKY_ALPHA, TVERSKY_BETA);
+    if (similarity >= threshold) {
+      results.push({ smiles, similarity, confidence: calculateConfidence(similarity) });
+    }
+  }
+
+  results.sort((a, b) => b.similarity - a.similarity);
+  return results.slice(0, MAX_RESULTS);
+}
+
+async function selfCheck(): Promise<void> {
+  const rdkit = await initRDKitModule();
+  const aspirin = 'CC(=O)Oc1ccccc1C(=O)O';
+  const library = [
+    aspirin,
+    'OC(=O)c1ccccc1O', // salicylic acid
+    'CC(=O)Nc1ccc(O)cc1', // paracetamol
+    'CC(C)Cc1ccc(cc1)C(C)C(=O)O', // ibuprofen
+    'Cn1cnc2c1c(=O)n(C)c(=O)n2C', // caffeine
+    'not a smiles',
+  ];
+
+  const hits = molecularSimilaritySearch(rdkit, aspirin, library, 0);
+  check(hits.length === library.length - 1, 'invalid SMILES should be skipped');
+  check(hits[0].smiles === aspirin, 'query should rank first against itself');
+  // Russell-Rao divides by the fingerprint length, so only it stays below 1
+  check(METHOD === 'russell-rao' || Math.abs(hits[0].similarity - 1) < 1e-9, 'query should match itself with similarity 1');
+  check(hits.every((hit, i) => i === 0 || hits[i - 1].similarity >= hit.similarity), 'hits should be sorted');
+  check(
+    molecularSimilaritySearch(rdkit, aspirin, library).every((hit) => hit.similarity >= SIMILARITY_THRESHOLD),
+    'threshold should be applied',
+  );
+
+  for (const hit of hits) {
+    console.log(hit.similarity.toFixed(3) + '  ' + hit.smiles);
+  }
+}
+
+selfCheck().then(
+  () => console.log('Self-check passed'),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
+`;
+
+const qsarModel: CodeTemplate = (p) => `${header('QSAR Model Generation Algorithm', p)}${fingerprintHelpers}${descriptorHelpers}${domainHelpers}${randomHelpers}
+const DESCRIPTORS: string[] = ${literal(p.descriptors)};
+const K_FOLDS = ${literal(p.kFolds)};
+const MAX_ITERATIONS = ${literal(p.maxIterations)};
+const APPLICABILITY_DOMAIN: string = ${literal(p.applicabilityDomain)};
+// One tree per iteration, capped at the forest size used in the pseudocode.
+const N_ESTIMATORS = Math.max(1, Math.min(100, MAX_ITERATIONS));
+const MAX_DEPTH = 10;
+const MIN_SAMPLES_SPLIT = 5;
+
+interface TreeNode {
+  value: number;
+  feature?: number;
+  threshold?: number;
+  left?: TreeNode;
+  right?: TreeNode;
+}
+
+interface RandomForest {
+  trees: TreeNode[];
+  importances: number[];
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / Math.max(values.length, 1);
+const variance = (values: number[]) => {
+  const m = mean(values);
+  return mean(values.map((v) => (v - m) ** 2));
+};
+
+function buildTree(X: number[][], y: number[], rows: number[], depth: number, importances: number[]): TreeNode {
+  const targets = rows.map((r) => y[r]);
+  const node: TreeNode = { value: mean(targets) };
+  if (depth >= MAX_DEPTH || rows.length < MIN_SAMPLES_SPLIT) {
+    return node;
+  }
+
+  const parentImpurity = variance(targets) * rows.length;
+  let best = { gain: 0, feature: -1, threshold: 0, left: [] as number[], right: [] as number[] };
+  for (let feature = 0; feature < X[0].length; feature++) {
+    const sorted = [...rows].sort((a, b) => X[a][feature] - X[b][feature]);
+    for (let i = 1; i < sorted.length; i++) {
+      const lo = X[sorted[i - 1]][feature];
+      const hi = X[sorted[i]][feature];
+      if (lo === hi) continue;
+      const left = sorted.slice(0, i);
+      const right = sorted.slice(i);
+      const impurity =
+        variance(left.map((r) => y[r])) * left.length + variance(right.map((r) => y[r])) * right.length;
+      const gain = parentImpurity - impurity;
+      if (gain > best.gain) {
+        best = { gain, feature, threshold: (lo + hi) / 2, left, right };
+      }
+    }
+  }
+  if (best.feature < 0) {
+    return node;
+  }
+
+  importances[best.feature] += best.gain;
+  node.feature = best.feature;
+  node.threshold = best.threshold;
+  node.left = buildTree(X, y, best.left, depth + 1, importances);
+  node.right = buildTree(X, y, best.right, depth + 1, importances);
+  return node;
+}
+
+function predictTree(node: TreeNode, x: number[]): number {
+  while (node.left && node.right) {
+    node = x[node.feature!] <= node.threshold! ? node.left : node.right;
+  }
+  return node.value;
+}
+
+function fitForest(X: number[][], y: number[], seed: number): RandomForest {
+  const random = createRandom(seed);
+  const importances = new Array(X[0].length).fill(0);
+  const trees: TreeNode[] = [];
+  for (let t = 0; t < N_ESTIMATORS; t++) {
+    const bootstrap = X.map(() => Math.floor(random() * X.length));
+    trees.push(buildTree(X, y, bootstrap, 0, importances));
+  }
+  const total = importances.reduce((sum, v) => sum + v, 0) || 1;
+  return { trees, importances: importances.map((v) => v / total) };
+}
+
+function predictForest(forest: RandomForest, x: number[]): { prediction: number; spread: number } {
+  const votes = forest.trees.map((tree) => predictTree(tree, x));
+  return { prediction: mean(votes), spread: Math.sqrt(variance(votes)) };
+}
+
+function calculateR2(predicted: number[], observed: number[]): number {
+  const m = mean(observed);
+  const ssRes = observed.reduce((sum, v, i) => sum + (v - predicted[i]) ** 2, 0);
+  const ssTot = observed.reduce((sum, v) => sum + (v - m) ** 2, 0);
+  return ssTot === 0 ? 0 : 1 - ssRes / ssTot;
+}
+
+interface Normalization {
+  means: number[];
+  stds: number[];
+  kept: number[];
+}
+
+function fitNormalization(X: number[][]): Normalization {
+  const columns = X[0].map((_, j) => X.map((row) => row[j]));
+  const means = columns.map(mean);
+  const stds = columns.map((column) => Math.sqrt(variance(column)));
+  // Feature selection: constant descriptors carry no information.
+  const kept = stds.map((s, j) => (s > 0 ? j : -1)).filter((j) => j >= 0);
+  return { means, stds, kept };
+}
+
+function normalize(norm: Normalization, row: number[]): number[] {
+  return norm.kept.map((j) => (row[j] - norm.means[j]) / norm.stds[j]);
+}
+
+export interface TrainingCompound {
+  smiles: string;
+  activity: number;
+}
+
+export interface QSARModel {
+  forest: RandomForest;
+  normalization: Normalization;
+  activitySpread: number;
+  cvScore: number;
+  featureImportance: Record<string, number>;
+  descriptors: string[];
+  domain: Domain;
+}
+
+export function generateQSARModel(rdkit: RDKitModule, trainingSet: TrainingCompound[]): QSARModel {
+  const descriptorMatrix: number[][] = [];
+  const activityValues: number[] = [];
+  const fingerprints: Fingerprint[] = [];
+  for (const compound of trainingSet) {
+    const descriptors = calculateDescriptors(rdkit, compound.smiles, DESCRIPTORS);
+    if (!descriptors) {
+      console.warn('Skipping invalid SMILES: ' + compound.smiles);
+      continue;
+    }
+    descriptorMatrix.push(descriptors);
+    activityValues.push(compound.activity);
+    fingerprints.push(morganFingerprint(rdkit, compound.smiles, 2, 2048)!);
+  }
+  if (descriptorMatrix.length < K_FOLDS) {
+    throw new Error('Need at least ' + K_FOLDS + ' valid compounds for ' + K_FOLDS + '-fold cross-validation');
+  }
+
+  const normalization = fitNormalization(descriptorMatrix);
+  const normalizedData = descriptorMatrix.map((row) => normalize(normalization, row));
+
+  // Cross-validation on interleaved folds
+  const cvScores: number[] = [];
+  for (let fold = 0; fold < K_FOLDS; fold++) {
+    const train = normalizedData.map((_, i) => i).filter((i) => i % K_FOLDS !== fold);
+    const test = normalizedData.map((_, i) => i).filter((i) => i % K_FOLDS === fold);
+    const forest = fitForest(
+      train.map((i) => normalizedData[i]),
+      train.map((i) => activityValues[i]),
+      fold + 1,
+    );
+    const predictions = test.map((i) => predictForest(forest, normalizedData[i]).prediction);
+    cvScores.push(calculateR2(predictions, test.map((i) => activityValues[i])));
+  }
+
+  // Final model training on the full dataset
+  const forest = fitForest(normalizedData, activityValues, 0);
+  const selected = normalization.kept.map((j) => DESCRIPTORS[j]);
+  return {
+    forest,
+    normalization,
+    activitySpread: Math.sqrt(variance(activityValues)),
+    cvScore: mean(cvScores),
+    featureImportance: Object.fromEntries(selected.map((name, i) => [name, forest.importances[i]])),
+    descriptors: selected,
+    domain: fitDomain(normalizedData, fingerprints),
+  };
+}
+
+export function predictActivity(
+  rdkit: RDKitModule,
+  model: QSARModel,
+  smiles: string,
+): { prediction: number; confidence: number; inDomain: boolean; distance: number } {
+  const descriptors = calculateDescriptors(rdkit, smiles, DESCRIPTORS);
+  if (!descriptors) {
+    throw new Error('Invalid SMILES: ' + smiles);
+  }
+  const x = normalize(model.normalization, descriptors);
+  const { prediction, spread } = predictForest(model.forest, x);
+  // Agreement between trees relative to the spread of the training activities
+  const confidence = model.activitySpread === 0 ? 1 : Math.max(0, 1 - spread / model.activitySpread);
+  const { inDomain, distance } = assessDomain(model.domain, x, morganFingerprint(rdkit, smiles, 2, 2048)!);
+  return { prediction, confidence, inDomain, distance };
+}
+
+async function selfCheck(): Promise<void> {
+  const rdkit = await initRDKitModule();
+  // Experimental octanol/water logP values as a small, well-behaved endpoint
+  const trainingSet: TrainingCompound[] = [
+    { smiles: 'CO', activity: -0.77 },
+    { smiles: 'CCO', activity: -0.31 },
+    { smiles: 'CCCO', activity: 0.25 },
+    { smiles: 'CCCCO', activity: 0.88 },
+    { smiles: 'CCCCCO', activity: 1.51 },
+    { smiles: 'CCCCCCO', activity: 2.03 },
+    { smiles: 'c1ccccc1', activity: 2.13 },
+    { smiles: 'Cc1ccccc1', activity: 2.73 },
+    { smiles: 'Oc1ccccc1', activity: 1.46 },
+    { smiles: 'Nc1ccccc1', activity: 0.9 },
+    { smiles: 'Clc1ccccc1', activity: 2.84 },
+    { smiles: 'O=[N+]([O-])c1ccccc1', activity: 1.85 },
+    { smiles: 'OC(=O)c1ccccc1', activity: 1.87 },
+    { smiles: 'CC(C)=O', activity: -0.24 },
+    { smiles: 'CC(=O)O', activity: -0.17 },
+    { smiles: 'c1ccncc1', activity: 0.65 },
+  ];
+
+  const model = generateQSARModel(rdkit, trainingSet);
+  check(Number.isFinite(model.cvScore), 'cross-validated R2 should be finite');
+  const importanceSum = Object.values(model.featureImportance).reduce((sum, v) => sum + v, 0);
+  check(Math.abs(importanceSum - 1) < 1e-6, 'feature importances should sum to 1');
+
+  const { prediction, confidence, inDomain, distance } = predictActivity(rdkit, model, 'CCc1ccccc1');
+  check(Number.isFinite(prediction), 'prediction should be a number');
+  check(confidence >= 0 && confidence <= 1, 'confidence should be in [0, 1]');
+  check(Number.isFinite(distance), 'domain distance should be a number');
+  // A large drug-like amide sits far outside this set of small solvents
+  const outside = predictActivity(rdkit, model, 'CC(C)(C)c1ccc(cc1)C(=O)NC1CCN(CC1)C(=O)c1ccc2ccccc2c1');
+  check(!outside.inDomain, 'large amide should be outside the applicability domain');
+
+  console.log('CV R2: ' + model.cvScore.toFixed(3));
+  console.log('Feature importance: ' + JSON.stringify(model.featureImportance));
+  console.log(
+    'Ethylbenzene: ' + prediction.toFixed(2) + ' (confidence ' + confidence.toFixed(2) + ', ' +
+      (inDomain ? 'in' : 'outside') + ' domain, ' + APPLICABILITY_DOMAIN + ' distance ' + distance.toFixed(3) + ')',
+  );
+}
+
+selfCheck().then(
+  () => console.log('Self-check passed'),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
+`;
+
+const compoundScreening: CodeTemplate = (p) => `${header('High-Throughput Virtual Screening Algorithm', p)}${fingerprintHelpers}${descriptorHelpers}
+const LIBRARY_SIZE = ${literal(p.librarySize)};
+const FILTER_STAGES: string[] = ${literal(p.filterStages)};
+const CUTOFF_THRESHOLD = ${literal(p.cutoffThreshold)};
+const MAX_HITS = ${literal(p.maxHits)};
+const MAX_DOCKED = 1000;
+
+// Representative PAINS alerts (Baell & Holloway). Extend with the full
+// family definitions for production triage.
+const PAINS_ALERTS: Record<string, string> = {
+  quinone_A: 'O=C1C=CC(=O)C=C1',
+  catechol_A: 'c([OH])c[OH]',
+  azo_A: 'c[N;!R]=[N;!R]c',
+  ene_rhod_A: 'S1C(=S)NC(=O)C1=C',
+  hzone_phenol_A: '[OH]c1ccccc1[CH]=NN',
+  mannich_A: '[OH]c1ccccc1[CH2]N([#6])[#6]',
+};
+
+// Scores a docked pose, normalised so that larger is better and 1 is ideal.
+export type DockingScorer = (smiles: string) => Promise<{ dockingScore: number; bindingEnergy: number }>;
+
+export interface ScreeningHit {
+  smiles: string;
+  similarity: number;
+  dockingScore: number | null;
+  bindingEnergy: number | null;
+  combinedScore: number;
+}
+
+function passesRuleOfFive(rdkit: RDKitModule, smiles: string): boolean {
+  const values = calculateDescriptors(rdkit, smiles, ['MW', 'LogP', 'HBD', 'HBA']);
+  if (!values) return false;
+  const [mw, logP, hbd, hba] = values;
+  return mw <= 500 && logP <= 5 && hbd <= 5 && hba <= 10;
+}
+
+function passesPAINSFilter(rdkit: RDKitModule, smiles: string): boolean {
+  const mol = rdkit.get_mol(smiles);
+  if (!mol || !mol.is_valid()) {
+    mol?.delete();
+    return false;
+  }
+  try {
+    return Object.values(PAINS_ALERTS).every((smarts) => {
+      const query = rdkit.get_qmol(smarts);
+      if (!query) throw new Error('Invalid PAINS SMARTS: ' + smarts);
+      try {
+        return mol.get_substruct_match(query) === '{}';
+      } finally {
+        query.delete();
+      }
+    });
+  } finally {
+    mol.delete();
+  }
+}
+
+export async function virtualScreeningPipeline(
+  rdkit: RDKitModule,
+  compoundLibrary: string[],
+  queryLigand: string,
+  dock?: DockingScorer,
+): Promise<ScreeningHit[]> {
+  // Stage 1: Rule-based filtering
+  const library = compoundLibrary.slice(0, LIBRARY_SIZE);
+  const filtered = FILTER_STAGES.includes('rule-of-five')
+    ? library.filter((smiles) => passesRuleOfFive(rdkit, smiles) && passesPAINSFilter(rdkit, smiles))
+    : library;
+  console.log('Stage 1: ', filtered.length, 'compounds passed filters');
+
+  // Stage 2: Ligand-based screening
+  const queryFP = morganFingerprint(rdkit, queryLigand, 2, 2048);
+  if (!queryFP) {
+    throw new Error('Invalid query SMILES: ' + queryLigand);
+  }
+  const similarCompounds: { smiles: string; similarity: number }[] = [];
+  for (const smiles of filtered) {
+    const fp = morganFingerprint(rdkit, smiles, 2, 2048);
+    if (!fp) continue;
+    const similarity = calculateSimilarity(queryFP, fp, 'tanimoto');
+    if (!FILTER_STAGES.includes('similarity') || similarity >= CUTOFF_THRESHOLD) {
+      similarCompounds.push({ smiles, similarity });
+    }
+  }
+  console.log('Stage 2: ', similarCompounds.length, 'similar compounds');
+
+  // Stage 3: Structure-based docking (skipped when no docking engine is supplied)
+  similarCompounds.sort((a, b) => b.similarity - a.similarity);
+  const results: ScreeningHit[] = [];
+  const useDocking = dock !== undefined && FILTER_STAGES.includes('docking');
+  for (const entry of similarCompounds.slice(0, MAX_DOCKED)) {
+    if (useDocking) {
+      const { dockingScore, bindingEnergy } = await dock(entry.smiles);
+      results.push({
+        ...entry,
+        dockingScore,
+        bindingEnergy,
+        combinedScore: 0.4 * entry.similarity + 0.6 * dockingScore,
+      });
+    } else {
+      results.push({ ...entry, dockingScore: null, bindingEnergy: null, combinedScore: entry.similarity });
+    }
+  }
+  console.log('Stage 3: ', useDocking ? results.length + ' compounds docked' : 'docking skipped');
+
+  // Final ranking and selection
+  results.sort((a, b) => b.combinedScore - a.combinedScore);
+  return results.slice(0, MAX_HITS);
+}
+
+async function selfCheck(): Promise<void> {
+  const rdkit = await initRDKitModule();
+  const query = 'CC(=O)Nc1ccc(O)cc1'; // paracetamol
+  const library = [
+    'CC(=O)Nc1ccc(O)cc1',
+    'CC(=O)Nc1ccc(OC)cc1',
+    'CCOc1ccc(NC(C)=O)cc1', // phenacetin
+    'O=C1C=CC(=O)C=C1', // benzoquinone, PAINS quinone
+    'Oc1ccccc1O', // catechol, PAINS catechol
+    'CCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCCC', // fails rule of five (logP)
+  ];
+
+  // Deterministic stand-in for a docking engine: favours smaller ligands.
+  const stubDocking: DockingScorer = async (smiles) => {
+    const [heavyAtoms] = calculateDescriptors(rdkit, smiles, ['HeavyAtoms']) ?? [0];
+    const bindingEnergy = -0.3 * heavyAtoms;
+    return { dockingScore: Math.min(1, -bindingEnergy / 12), bindingEnergy };
+  };
+
+  check(!passesPAINSFilter(rdkit, 'O=C1C=CC(=O)C=C1'), 'quinone should trigger a PAINS alert');
+  check(passesPAINSFilter(rdkit, query), 'paracetamol should pass PAINS');
+  check(!passesRuleOfFive(rdkit, library[5]), 'long alkane should fail the rule of five');
+
+  const hits = await virtualScreeningPipeline(rdkit, library, query, stubDocking);
+  check(hits.length > 0 && hits[0].similarity >= CUTOFF_THRESHOLD, 'query analogue should be a hit');
+  check(
+    hits.every((hit) => Math.abs(hit.combinedScore - (0.4 * hit.similarity + 0.6 * (hit.dockingScore ?? 0))) < 1e-9),
+    'combined score should follow 0.4*similarity + 0.6*dockingScore',
+  );
+  for (const hit of hits) {
+    console.log(hit.combinedScore.toFixed(3) + '  ' + hit.smiles);
+  }
+}
+
+selfCheck().then(
+  () => console.log('Self-check passed'),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
+`;
+
+const structureOptimization: CodeTemplate = (p) => `${header('Molecular Structure Optimization Algorithm', p)}${fingerprintHelpers}${descriptorHelpers}${randomHelpers}
+const POPULATION_SIZE = ${literal(p.populationSize)};
+const GENERATIONS = ${literal(p.generations)};
+const MUTATION_RATE = ${literal(p.mutationRate)};
+const CROSSOVER_RATE = ${literal(p.crossoverRate)};
+// 'weighted-sum' folds the objectives into one fitness; 'pareto' runs NSGA-II
+const OPTIMIZATION_MODE: string = ${literal(p.optimizationMode ?? 'weighted-sum')};
+const TOURNAMENT_SIZE = 3;
+
+export interface ObjectiveSpec {
+  name: string;
+  direction: 'maximize' | 'minimize';
+  min?: number;
+  max?: number;
+}
+
+const OBJECTIVE_LIST: (string | ObjectiveSpec)[] = ${literal(p.objectives)};
+const OBJECTIVES: ObjectiveSpec[] = OBJECTIVE_LIST.map((objective) =>
+  typeof objective === 'string' ? { name: objective, direction: 'maximize' } : objective,
+);
+// Hypervolume reference in oriented objective space (every objective maximized)
+const REFERENCE_POINT: number[] = ${p.referencePoint ? literal(p.referencePoint) : 'OBJECTIVES.map(() => 0)'};
+
+// Objective scorers return values in [0, 1]; plug in real potency and
+// selectivity models here. The defaults keep the search anchored on the seed.
+export type ObjectiveScorer = (smiles: string) => number;
+
+const SUBSTITUENTS = ['C', 'F', 'Cl', 'O', 'N', 'C(=O)O', 'C#N', 'OC', 'C(F)(F)F'];
+const ATOM_SWAPS: Record<string, string[]> = {
+  C: ['N', 'O'],
+  N: ['C', 'O'],
+  O: ['N', 'S'],
+  S: ['O'],
+  c: ['n'],
+  n: ['c'],
+};
+
+function canonical(rdkit: RDKitModule, smiles: string): string | null {
+  const mol = rdkit.get_mol(smiles);
+  if (!mol || !mol.is_valid()) {
+    mol?.delete();
+    return null;
+  }
+  try {
+    return mol.get_smiles();
+  } finally {
+    mol.delete();
+  }
+}
+
+// Positions of atom symbols in a SMILES string (organic subset only).
+function atomPositions(smiles: string): number[] {
+  const positions: number[] = [];
+  let bracket = false;
+  for (let i = 0; i < smiles.length; i++) {
+    const ch = smiles[i];
+    if (ch === '[') bracket = true;
+    if (ch === ']') bracket = false;
+    if (!bracket && 'BCNOSPFIcnosp'.includes(ch) && smiles[i + 1] !== 'l' && smiles[i + 1] !== 'r') {
+      positions.push(i);
+    }
+  }
+  return positions;
+}
+
+function mutate(rdkit: RDKitModule, smiles: string, random: () => number): string | null {
+  const positions = atomPositions(smiles);
+  if (positions.length === 0) return null;
+  const at = positions[Math.floor(random() * positions.length)];
+  const operator = Math.floor(random() * 3);
+  let candidate: string;
+  if (operator === 0) {
+    // Add a substituent as a branch on a random atom
+    const substituent = SUBSTITUENTS[Math.floor(random() * SUBSTITUENTS.length)];
+    candidate = smiles.slice(0, at + 1) + '(' + substituent + ')' + smiles.slice(at + 1);
+  } else if (operator === 1) {
+    // Swap an atom for an isosteric heteroatom
+    const options = ATOM_SWAPS[smiles[at]] ?? [];
+    if (options.length === 0) return null;
+    candidate = smiles.slice(0, at) + options[Math.floor(random() * options.length)] + smiles.slice(at + 1);
+  } else {
+    // Remove a terminal branch
+    const open = smiles.indexOf('(', at);
+    const close = open >= 0 ? smiles.indexOf(')', open) : -1;
+    if (open < 0 || close < 0 || smiles.slice(open + 1, close).includes('(')) return null;
+    candidate = smiles.slice(0, open) + smiles.slice(close + 1);
+  }
+  return canonical(rdkit, candidate);
+}
+
+function crossover(rdkit: RDKitModule, a: string, b: string, random: () => number): string | null {
+  // Join a prefix of one parent to a suffix of the other at atom boundaries.
+  const cutA = atomPositions(a);
+  const cutB = atomPositions(b);
+  if (cutA.length < 2 || cutB.length < 2) return null;
+  const i = cutA[1 + Math.floor(random() * (cutA.length - 1))];
+  const j = cutB[1 + Math.floor(random() * (cutB.length - 1))];
+  return canonical(rdkit, a.slice(0, i) + b.slice(j));
+}
+
+function desirability(value: number, low: number, high: number, soft: number): number {
+  if (value < low) return Math.exp(-(((low - value) / soft) ** 2));
+  if (value > high) return Math.exp(-(((value - high) / soft) ** 2));
+  return 1;
+}
+
+function drugLikeness(rdkit: RDKitModule, smiles: string): number {
+  const values = calculateDescriptors(rdkit, smiles, ['MW', 'LogP', 'TPSA', 'HBD', 'HBA', 'RotatableBonds']);
+  if (!values) return 0;
+  const [mw, logP, tpsa, hbd, hba, rotb] = values;
+  return (
+    desirability(mw, 200, 500, 100) *
+    desirability(logP, 0, 5, 1.5) *
+    desirability(tpsa, 20, 140, 30) *
+    desirability(hbd, 0, 5, 2) *
+    desirability(hba, 0, 10, 3) *
+    desirability(rotb, 0, 10, 3)
+  );
+}
+
+// Bickerton QED: weighted geometric mean of asymmetric double-sigmoid
+// desirabilities, with the reference acceptor, donor and alert patterns.
+const QED_PROPERTIES = ['MW', 'ALOGP', 'HBA', 'HBD', 'PSA', 'ROTB', 'AROM', 'ALERTS'];
+const QED_ADS_PARAMETERS: Record<string, number[]> = ${literal(qedAdsParameters)};
+const QED_WEIGHTS: number[] = ${literal(qedWeights.mean)};
+const QED_ACCEPTORS: string[] = ${literal(qedAcceptorSmarts)};
+const QED_DONOR = ${literal(qedDonorSmarts)};
+const QED_ALERTS: string[] = ${literal(qedAlertSmarts)};
+
+type RDKitMol = NonNullable<ReturnType<RDKitModule['get_mol']>>;
+
+function matchCount(rdkit: RDKitModule, mol: RDKitMol, smarts: string): number {
+  const query = rdkit.get_qmol(smarts);
+  if (!query) throw new Error('Invalid QED SMARTS: ' + smarts);
+  try {
+    // MinimalLib returns "{}" rather than an empty list when nothing matches
+    const matches = JSON.parse(mol.get_substruct_matches(query)) as unknown[] | object;
+    return Array.isArray(matches) ? matches.length : 0;
+  } finally {
+    query.delete();
+  }
+}
+
+export function qed(rdkit: RDKitModule, smiles: string): number {
+  const mol = rdkit.get_mol(smiles);
+  if (!mol || !mol.is_valid()) {
+    mol?.delete();
+    return 0;
+  }
+  try {
+    const descriptors = JSON.parse(mol.get_descriptors()) as Record<string, number>;
+    const values: Record<string, number> = {
+      MW: descriptors.amw,
+      ALOGP: descriptors.CrippenClogP,
+      HBA: QED_ACCEPTORS.reduce((sum, smarts) => sum + matchCount(rdkit, mol, smarts), 0),
+      HBD: matchCount(rdkit, mol, QED_DONOR),
+      PSA: descriptors.tpsa,
+      ROTB: descriptors.NumRotatableBonds,
+      AROM: descriptors.NumAromaticRings,
+      ALERTS: QED_ALERTS.filter((smarts) => matchCount(rdkit, mol, smarts) > 0).length,
+    };
+    let weighted = 0;
+    QED_PROPERTIES.forEach((property, i) => {
+      const [a, b, c, d, e, f, dmax] = QED_ADS_PARAMETERS[property];
+      const x = values[property];
+      const desirability = (a + (b / (1 + Math.exp(-(x - c + d / 2) / e))) * (1 - 1 / (1 + Math.exp(-(x - c - d / 2) / f)))) / dmax;
+      weighted += QED_WEIGHTS[i] * Math.log(desirability);
+    });
+    return Math.exp(weighted / QED_WEIGHTS.reduce((sum, w) => sum + w, 0));
+  } finally {
+    mol.delete();
+  }
+}
+
+function synthAccessibility(rdkit: RDKitModule, smiles: string): number {
+  // Size and ring-count penalty as a fast SA proxy
+  const values = calculateDescriptors(rdkit, smiles, ['HeavyAtoms', 'Rings']);
+  if (!values) return 0;
+  const [heavyAtoms, rings] = values;
+  return desirability(heavyAtoms, 0, 35, 10) * desirability(rings, 0, 4, 1);
+}
+
+export function objectiveScores(
+  rdkit: RDKitModule,
+  smiles: string,
+  predictPotency: ObjectiveScorer,
+  calculateSelectivity: ObjectiveScorer,
+): Record<string, number> {
+  return {
+    potency: predictPotency(smiles),
+    selectivity: calculateSelectivity(smiles),
+    'drug-likeness': drugLikeness(rdkit, smiles),
+    qed: qed(rdkit, smiles),
+    'synthetic-accessibility': synthAccessibility(rdkit, smiles),
+  };
+}
+
+// Scores flipped so every objective is maximized.
+function orientedValues(scores: Record<string, number>): number[] {
+  return OBJECTIVES.map(({ name, direction }) => {
+    const score = scores[name] ?? 0;
+    return direction === 'minimize' ? 1 - score : score;
+  });
+}
+
+// Summed excess outside the objective bounds; 0 for feasible molecules.
+function constraintViolation(scores: Record<string, number>): number {
+  let violation = 0;
+  for (const { name, min, max } of OBJECTIVES) {
+    const score = scores[name] ?? 0;
+    if (min !== undefined && score < min) violation += min - score;
+    if (max !== undefined && score > max) violation += score - max;
+  }
+  return violation;
+}
+
+export function evaluateFitness(
+  rdkit: RDKitModule,
+  smiles: string,
+  predictPotency: ObjectiveScorer,
+  calculateSelectivity: ObjectiveScorer,
+): number {
+  const scores = objectiveScores(rdkit, smiles, predictPotency, calculateSelectivity);
+  const weights: Record<string, number> = {
+    potency: 0.4,
+    selectivity: 0.3,
+    'drug-likeness': 0.2,
+    qed: 0.2,
+    'synthetic-accessibility': 0.1,
+  };
+  // Weighted sum over the configured objectives (SA is always included),
+  // with bound violations as a penalty
+  const values = orientedValues(scores);
+  let fitness = OBJECTIVES.some(({ name }) => name === 'synthetic-accessibility')
+    ? 0
+    : weights['synthetic-accessibility'] * scores['synthetic-accessibility'];
+  OBJECTIVES.forEach(({ name }, j) => {
+    fitness += (weights[name] ?? 0) * values[j];
+  });
+  return fitness - constraintViolation(scores);
+}
+
+export interface OptimizationResult {
+  optimizedMolecule: string;
+  finalScore: number;
+  properties: Record<string, number>;
+  generations: number;
+}
+
+export function optimizeMolecularStructure(
+  rdkit: RDKitModule,
+  seedMolecule: string,
+  options: {
+    predictPotency?: ObjectiveScorer;
+    calculateSelectivity?: ObjectiveScorer;
+    populationSize?: number;
+    generations?: number;
+    seed?: number;
+  } = {},
+): OptimizationResult {
+  const random = createRandom(options.seed ?? 42);
+  const populationSize = options.populationSize ?? POPULATION_SIZE;
+  const maxGenerations = options.generations ?? GENERATIONS;
+  const seed = canonical(rdkit, seedMolecule);
+  if (!seed) {
+    throw new Error('Invalid seed SMILES: ' + seedMolecule);
+  }
+  const seedFP = morganFingerprint(rdkit, seed, 2, 2048)!;
+  const predictPotency =
+    options.predictPotency ??
+    ((smiles: string) => {
+      const fp = morganFingerprint(rdkit, smiles, 2, 2048);
+      return fp ? calculateSimilarity(seedFP, fp, 'tanimoto') : 0;
+    });
+  const calculateSelectivity = options.calculateSelectivity ?? (() => 1);
+  const fitnessCache = new Map<string, number>();
+  const fitnessOf = (smiles: string) => {
+    if (!fitnessCache.has(smiles)) {
+      fitnessCache.set(smiles, evaluateFitness(rdkit, smiles, predictPotency, calculateSelectivity));
+    }
+    return fitnessCache.get(smiles)!;
+  };
+
+  // Initialize population with variations of the seed
+  let population: string[] = [seed];
+  for (let attempts = 0; population.length < populationSize && attempts < populationSize * 20; attempts++) {
+    const variant = mutate(rdkit, seed, random);
+    if (variant) population.push(variant);
+  }
+  while (population.length < populationSize) population.push(seed);
+
+  let bestMolecule = seed;
+  let bestScore = -Infinity;
+  let lastImprovement = 0;
+  let generation = 0;
+  for (; generation < maxGenerations; generation++) {
+    const fitnessScores = population.map(fitnessOf);
+    population.forEach((molecule, i) => {
+      if (fitnessScores[i] > bestScore + 1e-3) lastImprovement = generation;
+      if (fitnessScores[i] > bestScore) {
+        bestScore = fitnessScores[i];
+        bestMolecule = molecule;
+      }
+    });
+
+    // Selection: tournament selection
+    const tournament = () => {
+      let winner = Math.floor(random() * population.length);
+      for (let k = 1; k < TOURNAMENT_SIZE; k++) {
+        const challenger = Math.floor(random() * population.length);
+        if (fitnessScores[challenger] > fitnessScores[winner]) winner = challenger;
+      }
+      return population[winner];
+    };
+    const parents = population.map(tournament);
+
+    // Crossover: exchange molecular fragments
+    const offspring: string[] = [];
+    for (let i = 0; i + 1 < parents.length; i += 2) {
+      if (random() < CROSSOVER_RATE) {
+        offspring.push(
+          crossover(rdkit, parents[i], parents[i + 1], random) ?? parents[i],
+          crossover(rdkit, parents[i + 1], parents[i], random) ?? parents[i + 1],
+        );
+      } else {
+        offspring.push(parents[i], parents[i + 1]);
+      }
+    }
+    if (offspring.length < parents.length) offspring.push(parents[parents.length - 1]);
+
+    // Mutation: modify functional groups; invalid products keep the parent
+    population = offspring.map((molecule) =>
+      random() < MUTATION_RATE ? mutate(rdkit, molecule, random) ?? molecule : molecule,
+    );
+    // Elitism keeps the best molecule in the population
+    population[0] = bestMolecule;
+
+    // Convergence check
+    if (generation > 50 && generation - lastImprovement > 50) {
+      break;
+    }
+  }
+
+  const [mw, logP, tpsa] = calculateDescriptors(rdkit, bestMolecule, ['MW', 'LogP', 'TPSA'])!;
+  return {
+    optimizedMolecule: bestMolecule,
+    finalScore: bestScore,
+    properties: { MW: mw, LogP: logP, TPSA: tpsa, drugLikeness: drugLikeness(rdkit, bestMolecule) },
+    generations: generation,
+  };
+}
+
+export function dominates(a: number[], b: number[]): boolean {
+  let better = false;
+  for (let j = 0; j < a.length; j++) {
+    if (a[j] < b[j]) return false;
+    if (a[j] > b[j]) better = true;
+  }
+  return better;
+}
+
+// Constrained fast non-dominated sort (Deb et al. 2002): feasible beats
+// infeasible, smaller violation beats larger, feasible points by domination.
+export function fastNonDominatedSort(points: number[][], violations: number[]): number[][] {
+  const beats = (i: number, k: number) =>
+    violations[i] === 0 && violations[k] === 0 ? dominates(points[i], points[k]) : violations[i] < violations[k];
+  const dominated: number[][] = points.map(() => []);
+  const dominationCount = points.map(() => 0);
+  for (let i = 0; i < points.length; i++) {
+    for (let k = i + 1; k < points.length; k++) {
+      if (beats(i, k)) {
+        dominated[i].push(k);
+        dominationCount[k]++;
+      } else if (beats(k, i)) {
+        dominated[k].push(i);
+        dominationCount[i]++;
+      }
+    }
+  }
+  const fronts: number[][] = [];
+  let front = points.map((_, i) => i).filter((i) => dominationCount[i] === 0);
+  while (front.length > 0) {
+    fronts.push(front);
+    const next: number[] = [];
+    for (const i of front) {
+      for (const k of dominated[i]) {
+        if (--dominationCount[k] === 0) next.push(k);
+      }
+    }
+    front = next;
+  }
+  return fronts;
+}
+
+// Crowding distance per front member; boundary points are kept with Infinity.
+export function crowdingDistance(points: number[][], front: number[]): number[] {
+  const distance = front.map(() => 0);
+  const objectives = front.length > 0 ? points[front[0]].length : 0;
+  for (let j = 0; j < objectives; j++) {
+    const order = front.map((_, k) => k).sort((a, b) => points[front[a]][j] - points[front[b]][j]);
+    const low = points[front[order[0]]][j];
+    const high = points[front[order[order.length - 1]]][j];
+    distance[order[0]] = distance[order[order.length - 1]] = Infinity;
+    if (high === low) continue;
+    for (let k = 1; k < order.length - 1; k++) {
+      distance[order[k]] += (points[front[order[k + 1]]][j] - points[front[order[k - 1]]][j]) / (high - low);
+    }
+  }
+  return distance;
+}
+
+function nonDominated(points: number[][]): number[][] {
+  return points.filter(
+    (p, i) => !points.some((q, k) => k !== i && (dominates(q, p) || (k < i && q.every((v, j) => v === p[j])))),
+  );
+}
+
+// Volume dominated by points shifted so the reference is the origin, sliced
+// along the last objective (HSO).
+function slicedVolume(points: number[][]): number {
+  if (points.length === 0) return 0;
+  const last = points[0].length - 1;
+  if (last === 0) return Math.max(...points.map((p) => p[0]));
+  const sorted = [...points].sort((a, b) => b[last] - a[last]);
+  let volume = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    const height = sorted[i][last] - (i + 1 < sorted.length ? sorted[i + 1][last] : 0);
+    if (height > 0) volume += height * slicedVolume(nonDominated(sorted.slice(0, i + 1).map((p) => p.slice(0, last))));
+  }
+  return volume;
+}
+
+export function hypervolume(points: number[][], reference: number[]): number {
+  const shifted = points
+    .filter((p) => p.every((v, j) => v > reference[j]))
+    .map((p) => p.map((v, j) => v - reference[j]));
+  return slicedVolume(nonDominated(shifted));
+}
+
+export interface ParetoMolecule {
+  smiles: string;
+  objectives: Record<string, number>;
+}
+
+export interface ParetoResult {
+  paretoFront: ParetoMolecule[];
+  hypervolumes: number[];
+  generations: number;
+}
+
+export function optimizeParetoFront(
+  rdkit: RDKitModule,
+  seedMolecule: string,
+  options: {
+    predictPotency?: ObjectiveScorer;
+    calculateSelectivity?: ObjectiveScorer;
+    populationSize?: number;
+    generations?: number;
+    seed?: number;
+  } = {},
+): ParetoResult {
+  const random = createRandom(options.seed ?? 42);
+  const populationSize = options.populationSize ?? POPULATION_SIZE;
+  const maxGenerations = options.generations ?? GENERATIONS;
+  const seed = canonical(rdkit, seedMolecule);
+  if (!seed) {
+    throw new Error('Invalid seed SMILES: ' + seedMolecule);
+  }
+  const seedFP = morganFingerprint(rdkit, seed, 2, 2048)!;
+  const predictPotency =
+    options.predictPotency ??
+    ((smiles: string) => {
+      const fp = morganFingerprint(rdkit, smiles, 2, 2048);
+      return fp ? calculateSimilarity(seedFP, fp, 'tanimoto') : 0;
+    });
+  const calculateSelectivity = options.calculateSelectivity ?? (() => 1);
+  const cache = new Map<string, { scores: Record<string, number>; values: number[]; violation: number }>();
+  const evaluate = (smiles: string) => {
+    if (!cache.has(smiles)) {
+      const scores = objectiveScores(rdkit, smiles, predictPotency, calculateSelectivity);
+      cache.set(smiles, { scores, values: orientedValues(scores), violation: constraintViolation(scores) });
+    }
+    return cache.get(smiles)!;
+  };
+
+  // Ranks each molecule by front, then by crowding; fills the population
+  // with distinct molecules before falling back to duplicates.
+  const rankAndSelect = (molecules: string[], size: number) => {
+    const distinct = [...new Set(molecules)];
+    const points = distinct.map((smiles) => evaluate(smiles).values);
+    const fronts = fastNonDominatedSort(points, distinct.map((smiles) => evaluate(smiles).violation));
+    const selected: { smiles: string; rank: number; crowding: number }[] = [];
+    fronts.forEach((front, rank) => {
+      const crowding = crowdingDistance(points, front);
+      const order = front.map((_, k) => k).sort((a, b) => crowding[b] - crowding[a]);
+      for (const k of order) {
+        if (selected.length < size) selected.push({ smiles: distinct[front[k]], rank, crowding: crowding[k] });
+      }
+    });
+    for (let i = 0; selected.length < size; i++) selected.push({ ...selected[i % distinct.length] });
+    const first = fronts[0].filter((i) => evaluate(distinct[i]).violation === 0).map((i) => distinct[i]);
+    return { selected, first };
+  };
+
+  // Initialize population with variations of the seed
+  const initial: string[] = [seed];
+  for (let attempts = 0; initial.length < populationSize && attempts < populationSize * 20; attempts++) {
+    const variant = mutate(rdkit, seed, random);
+    if (variant) initial.push(variant);
+  }
+  let { selected: population, first: paretoFront } = rankAndSelect(initial, populationSize);
+  const hypervolumes: number[] = [];
+
+  let generation = 0;
+  for (; generation < maxGenerations; generation++) {
+    // Binary tournament on (front rank, crowding distance)
+    const tournament = () => {
+      const a = population[Math.floor(random() * population.length)];
+      const b = population[Math.floor(random() * population.length)];
+      if (a.rank !== b.rank) return a.rank < b.rank ? a.smiles : b.smiles;
+      return a.crowding >= b.crowding ? a.smiles : b.smiles;
+    };
+    const offspring: string[] = [];
+    while (offspring.length < populationSize) {
+      const parent1 = tournament();
+      const parent2 = tournament();
+      const children =
+        random() < CROSSOVER_RATE
+          ? [crossover(rdkit, parent1, parent2, random) ?? parent1, crossover(rdkit, parent2, parent1, random) ?? parent2]
+          : [parent1, parent2];
+      for (const child of children) {
+        offspring.push(random() < MUTATION_RATE ? mutate(rdkit, child, random) ?? child : child);
+      }
+    }
+
+    // Elitist survivor selection over parents and offspring
+    ({ selected: population, first: paretoFront } = rankAndSelect(
+      [...population.map((member) => member.smiles), ...offspring],
+      populationSize,
+    ));
+    hypervolumes.push(hypervolume(paretoFront.map((smiles) => evaluate(smiles).values), REFERENCE_POINT));
+
+    // Convergence check on the hypervolume
+    if (generation > 50 && hypervolumes[generation] - hypervolumes[generation - 50] < 0.001) {
+      break;
+    }
+  }
+
+  return {
+    paretoFront: paretoFront.map((smiles) => ({ smiles, objectives: evaluate(smiles).scores })),
+    hypervolumes,
+    generations: generation,
+  };
+}
+
+async function selfCheck(): Promise<void> {
+  const rdkit = await initRDKitModule();
+  const seed = 'CC(=O)Nc1ccc(O)cc1';
+  const random = createRandom(7);
+  for (let i = 0; i < 20; i++) {
+    const mutant = mutate(rdkit, seed, random);
+    check(mutant === null || canonical(rdkit, mutant) !== null, 'mutations should yield valid molecules');
+  }
+
+  check(Math.abs(qed(rdkit, 'CC(=O)Oc1ccccc1C(=O)O') - 0.55) < 0.02, 'QED of aspirin should be about 0.55');
+  check(dominates([1, 0.5], [0.5, 0.5]) && !dominates([1, 0], [0, 1]), 'domination should be strict and partial');
+  check(Math.abs(hypervolume([[1, 0.5], [0.5, 1]], [0, 0]) - 0.75) < 1e-9, 'hypervolume of two points should be 0.75');
+
+  // A short run keeps the self-check fast; the exported function uses the configured sizes.
+  if (OPTIMIZATION_MODE === 'pareto') {
+    const pareto = optimizeParetoFront(rdkit, seed, { populationSize: 16, generations: 8 });
+    const points = pareto.paretoFront.map((molecule) => orientedValues(molecule.objectives));
+    check(
+      points.every((p) => !points.some((q) => dominates(q, p))),
+      'Pareto front members should not dominate each other',
+    );
+    check(pareto.hypervolumes.every((volume) => volume >= 0 && volume <= 1), 'hypervolume should be in [0, 1]');
+    console.log('Pareto front: ' + pareto.paretoFront.map((molecule) => molecule.smiles).join(' '));
+    console.log('Hypervolume by generation: ' + pareto.hypervolumes.map((volume) => volume.toFixed(3)).join(' '));
+    return;
+  }
+  const result = optimizeMolecularStructure(rdkit, seed, { populationSize: 16, generations: 8 });
+  const seedScore = evaluateFitness(
+    rdkit,
+    canonical(rdkit, seed)!,
+    () => 1,
+    () => 1,
+  );
+  check(canonical(rdkit, result.optimizedMolecule) !== null, 'optimized molecule should be valid');
+  check(result.finalScore <= 1, 'fitness should be at most 1');
+  check(Number.isFinite(seedScore), 'seed fitness should be finite');
+  console.log('Best: ' + result.optimizedMolecule + ' score ' + result.finalScore.toFixed(3));
+  console.log('Properties: ' + JSON.stringify(result.properties));
+}
+
+selfCheck().then(
+  () => console.log('Self-check passed'),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
+`;
+
+const pharmacophore: CodeTemplate = (p) => `${header('Pharmacophore Mapping Algorithm', p)}
+const FEATURE_TYPES: string[] = ${literal(p.featureTypes)};
+const TOLERANCE_RADIUS = ${literal(p.toleranceRadius)};
+const MIN_FEATURES = ${literal(p.minFeatures)};
+const MAX_FEATURES = ${literal(p.maxFeatures)};
+// RDKit MinimalLib has no 3D embedder, so inputs are MOL blocks that already
+// carry aligned 3D conformers (for example exported from a conformer generator).
+const CONFORMER_GENERATION = ${literal(p.conformerGeneration)};
+
+type Vec3 = [number, number, number];
+
+const FEATURE_SMARTS: Record<string, string[]> = {
+  HBD: ['[#7,#8;!H0]'],
+  HBA: ['[#8;!$([O]~[#7+](~O)~O)]', '[#7;X1,X2;!$([#7]~[#7]~[#7]);!$(n[H])]'],
+  Aromatic: ['a1aaaaa1', 'a1aaaa1'],
+  Hydrophobic: ['[C;X4;!$(C~[#7,#8])]', '[Cl,Br,I]', '[c;!$(c~[#7,#8])]'],
+  Charged: ['[+,$([NX3;H2,H1;!$(NC=O)]),$(C(=O)[OH1,O-])]'],
+};
+
+export interface Feature {
+  type: string;
+  center: Vec3;
+}
+
+export interface PharmacophoreModel {
+  features: { type: string; center: Vec3; radius: number; weight: number }[];
+  excludedVolumes: { center: Vec3; radius: number }[];
+}
+
+function coordinatesOf(molblock: string): Vec3[] {
+  const lines = molblock.split('\\n');
+  const atomCount = Number(lines[3].slice(0, 3));
+  return lines.slice(4, 4 + atomCount).map((line) => [
+    Number(line.slice(0, 10)),
+    Number(line.slice(10, 20)),
+    Number(line.slice(20, 30)),
+  ]);
+}
+
+const distance = (a: Vec3, b: Vec3) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+const centroid = (points: Vec3[]): Vec3 =>
+  [0, 1, 2].map((k) => points.reduce((sum, point) => sum + point[k], 0) / points.length) as Vec3;
+
+export function perceiveFeatures(rdkit: RDKitModule, molblock: string): { features: Feature[]; atoms: Vec3[] } {
+  const mol = rdkit.get_mol(molblock, JSON.stringify({ removeHs: false }));
+  if (!mol || !mol.is_valid()) {
+    mol?.delete();
+    throw new Error('Invalid MOL block');
+  }
+  try {
+    const atoms = coordinatesOf(molblock);
+    const features: Feature[] = [];
+    for (const type of FEATURE_TYPES) {
+      const seen = new Set<string>();
+      for (const smarts of FEATURE_SMARTS[type] ?? []) {
+        const query = rdkit.get_qmol(smarts);
+        if (!query) throw new Error('Invalid feature SMARTS: ' + smarts);
+        // MinimalLib returns "{}" rather than an empty list when nothing matches
+        const parsed = JSON.parse(mol.get_substruct_matches(query)) as { atoms: number[] }[] | object;
+        const matches: { atoms: number[] }[] = Array.isArray(parsed) ? parsed : [];
+        query.delete();
+        for (const match of matches) {
+          // Aromatic rings are one feature at the ring centroid
+          const atomIndices = type === 'Aromatic' ? match.atoms : [match.atoms[0]];
+          const key = [...atomIndices].sort((a, b) => a - b).join(',');
+          if (seen.has(key)) continue;
+          seen.add(key);
+          features.push({ type, center: centroid(atomIndices.map((i) => atoms[i])) });
+        }
+      }
+    }
+    return { features, atoms };
+  } finally {
+    mol.delete();
+  }
+}
+
+export function generatePharmacophoreModel(
+  rdkit: RDKitModule,
+  activeCompounds: string[],
+  inactiveCompounds: string[],
+): { model: PharmacophoreModel; sensitivity: number; specificity: number } {
+  const actives = activeCompounds.map((molblock) => perceiveFeatures(rdkit, molblock));
+
+  // Cluster features of the same type across aligned actives
+  const clusters: { type: string; members: Feature[]; sources: Set<number> }[] = [];
+  actives.forEach(({ features }, source) => {
+    for (const feature of features) {
+      const cluster = clusters.find(
+        (c) => c.type === feature.type && distance(centroid(c.members.map((m) => m.center)), feature.center) <= TOLERANCE_RADIUS,
+      );
+      if (cluster) {
+        cluster.members.push(feature);
+        cluster.sources.add(source);
+      } else {
+        clusters.push({ type: feature.type, members: [feature], sources: new Set([source]) });
+      }
+    }
+  });
+
+  const ranked = clusters
+    .map((c) => ({ ...c, frequency: c.sources.size / actives.length }))
+    .sort((a, b) => b.frequency - a.frequency);
+  const model: PharmacophoreModel = {
+    features: ranked.slice(0, MAX_FEATURES).map((c) => ({
+      type: c.type,
+      center: centroid(c.members.map((m) => m.center)),
+      radius: TOLERANCE_RADIUS,
+      weight: c.frequency,
+    })),
+    excludedVolumes: [],
+  };
+  if (model.features.length < MIN_FEATURES) {
+    throw new Error('Only ' + model.features.length + ' common features found; need ' + MIN_FEATURES);
+  }
+
+  // Excluded volumes: inactive atoms that occupy space no active uses
+  const activeAtoms = actives.flatMap((a) => a.atoms);
+  for (const molblock of inactiveCompounds) {
+    for (const atom of perceiveFeatures(rdkit, molblock).atoms) {
+      const clash = activeAtoms.every((a) => distance(a, atom) > 2 * TOLERANCE_RADIUS);
+      const covered = model.excludedVolumes.some((v) => distance(v.center, atom) < v.radius);
+      if (clash && !covered) model.excludedVolumes.push({ center: atom, radius: TOLERANCE_RADIUS });
+    }
+  }
+
+  const matches = (molblock: string) => calculatePharmacophoreFit(rdkit, molblock, model) !== null;
+  const sensitivity = activeCompounds.filter(matches).length / Math.max(activeCompounds.length, 1);
+  const specificity = inactiveCompounds.filter((m) => !matches(m)).length / Math.max(inactiveCompounds.length, 1);
+  return { model, sensitivity, specificity };
+}
+
+// Fit of an aligned conformer: mean per-feature overlap, or null if any
+// feature is unmatched or an excluded volume is violated.
+export function calculatePharmacophoreFit(rdkit: RDKitModule, molblock: string, model: PharmacophoreModel): number | null {
+  const { features, atoms } = perceiveFeatures(rdkit, molblock);
+  let fit = 0;
+  for (const target of model.features) {
+    const nearest = Math.min(
+      ...features.filter((f) => f.type === target.type).map((f) => distance(f.center, target.center)),
+    );
+    if (!(nearest <= target.radius)) return null;
+    fit += 1 - (nearest / target.radius) ** 2;
+  }
+  if (model.excludedVolumes.some((v) => atoms.some((a) => distance(a, v.center) < v.radius))) return null;
+  return fit / model.features.length;
+}
+
+export function screenWithPharmacophore(
+  rdkit: RDKitModule,
+  model: PharmacophoreModel,
+  compoundDatabase: { name: string; conformers: string[] }[],
+): { name: string; conformer: number; fitScore: number }[] {
+  const hits: { name: string; conformer: number; fitScore: number }[] = [];
+  for (const compound of compoundDatabase) {
+    let best: { name: string; conformer: number; fitScore: number } | null = null;
+    // Without conformer generation only the supplied input geometry is screened
+    const conformers = CONFORMER_GENERATION ? compound.conformers : compound.conformers.slice(0, 1);
+    conformers.forEach((molblock, conformer) => {
+      const fitScore = calculatePharmacophoreFit(rdkit, molblock, model);
+      if (fitScore !== null && (!best || fitScore > best.fitScore)) {
+        best = { name: compound.name, conformer, fitScore };
+      }
+    });
+    if (best) hits.push(best);
+  }
+  return hits.sort((a, b) => b.fitScore - a.fitScore);
+}
+
+async function selfCheck(): Promise<void> {
+  const rdkit = await initRDKitModule();
+  // 2D depictions stand in for aligned conformers in this check.
+  const depict = (smiles: string) => {
+    const mol = rdkit.get_mol(smiles)!;
+    try {
+      mol.set_new_coords();
+      return mol.get_molblock();
+    } finally {
+      mol.delete();
+    }
+  };
+  const actives = ['Oc1ccc(CCN)cc1', 'Oc1ccc(CCN)cc1C', 'Oc1ccc(CCN)cc1F'].map(depict);
+  const inactives = ['CCCCCCCC'].map(depict);
+
+  const { features } = perceiveFeatures(rdkit, actives[0]);
+  check(!FEATURE_TYPES.includes('Aromatic') || features.some((f) => f.type === 'Aromatic'), 'phenol ring should be an aromatic feature');
+  check(!FEATURE_TYPES.includes('HBD') || features.some((f) => f.type === 'HBD'), 'hydroxyl should be a donor');
+  if (features.length < MIN_FEATURES) {
+    console.log('Tyramine has ' + features.length + ' features of the selected types; MIN_FEATURES is ' + MIN_FEATURES + ', skipping the model check');
+    return;
+  }
+
+  const { model, sensitivity } = generatePharmacophoreModel(rdkit, actives, inactives);
+  check(model.features.length >= MIN_FEATURES && model.features.length <= MAX_FEATURES, 'feature count within limits');
+  check(sensitivity > 0, 'model should recover at least one active');
+
+  const hits = screenWithPharmacophore(rdkit, model, [{ name: 'tyramine', conformers: [actives[0]] }]);
+  console.log('Model features: ' + model.features.map((f) => f.type).join(', '));
+  console.log('Sensitivity ' + sensitivity.toFixed(2) + ', hits ' + JSON.stringify(hits));
+}
+
+selfCheck().then(
+  () => console.log('Self-check passed'),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
+`;
+
+const virtualScreening: CodeTemplate = (p) => `${header('AI-Powered Virtual Screening Algorithm', p)}${fingerprintHelpers}${descriptorHelpers}${randomHelpers}
+const MODEL_ENSEMBLE: string[] = ${literal(p.modelEnsemble)};
+const CONFIDENCE_THRESHOLD = ${literal(p.confidenceThreshold)};
+const BATCH_SIZE = ${literal(p.batchSize)};
+const USE_DOCKING = ${literal(p.useDocking)};
+const USE_ML_MODELS = ${literal(p.useMLModels)};
+const MAX_HITS = ${literal(p.maxHits)};
+const APPLICABILITY_DOMAIN: string = ${literal(p.applicabilityDomain)};
+const ENSEMBLE_MODE: string = ${literal(p.ensembleMode ?? 'fixed')};
+const STACKING_FOLDS = ${literal(p.stackingFolds ?? 5)};
+const CALIBRATION_FRACTION = ${literal(p.calibrationFraction ?? 0.2)};
+const HIT_CUTOFF = ${literal(p.hitCutoff ?? 0.5)};
+const GNN_LAYERS = ${literal(p.gnnLayers ?? 3)};
+const GNN_HIDDEN_SIZE = ${literal(p.gnnHiddenSize ?? 32)};
+const GNN_EPOCHS = ${literal(p.gnnEpochs ?? 200)};
+// Fixed-mode weights; stacking learns its own from out-of-fold predictions.
+const ENSEMBLE_WEIGHTS: Record<string, number> = { GraphNN: 0.4, CNN: 0.3, QSAR: 0.3 };
+// Added to the model spread in normalized nonconformity scores so compounds
+// the members agree on do not get zero-width intervals.
+const CONFORMAL_BETA = 0.1;
+const DOMAIN_DESCRIPTORS = ['MW', 'LogP', 'TPSA', 'HBD', 'HBA', 'RotatableBonds'];
+${domainHelpers}${graphNetworkHelpers}
+// CPU ensemble members:
+//   GraphNN - graph isomorphism network trained on the molecular graphs
+//   CNN     - stand-in: kernel regression over wider-radius substructure fingerprints
+//   QSAR    - ridge regression on physicochemical descriptors
+// Each model predicts activity scaled to [0, 1] from its training range.
+interface ActivityModel {
+  predict(smiles: string): number;
+}
+
+export type DockingScorer = (smiles: string) => Promise<number>;
+
+function trainFingerprintModel(rdkit: RDKitModule, data: TrainingCompound[], radius: number): ActivityModel {
+  const train = data
+    .map((d) => ({ fp: morganFingerprint(rdkit, d.smiles, radius, 2048), y: d.activity }))
+    .filter((d): d is { fp: Fingerprint; y: number } => d.fp !== null);
+  return {
+    predict(smiles) {
+      const fp = morganFingerprint(rdkit, smiles, radius, 2048);
+      if (!fp) return 0;
+      let weighted = 0;
+      let total = 0;
+      for (const d of train) {
+        const w = calculateSimilarity(fp, d.fp, 'tanimoto') ** 3;
+        weighted += w * d.y;
+        total += w;
+      }
+      return total === 0 ? 0 : weighted / total;
+    },
+  };
+}
+
+function trainGraphModel(rdkit: RDKitModule, data: TrainingCompound[]): ActivityModel {
+  const train = data
+    .map((d) => ({ graph: molecularGraph(rdkit, d.smiles), y: d.activity }))
+    .filter((d): d is { graph: MolecularGraph; y: number } => d.graph !== null);
+  const model = trainGin(
+    train.map((d) => d.graph),
+    train.map((d) => d.y),
+    createRandom(42),
+  );
+  return {
+    predict(smiles) {
+      const graph = molecularGraph(rdkit, smiles);
+      return graph ? Math.min(1, Math.max(0, predictGin(model, graph))) : 0;
+    },
+  };
+}
+
+function trainQSARModel(rdkit: RDKitModule, data: TrainingCompound[]): ActivityModel {
+  const names = DOMAIN_DESCRIPTORS;
+  const rows = data
+    .map((d) => ({ x: calculateDescriptors(rdkit, d.smiles, names), y: d.activity }))
+    .filter((d): d is { x: number[]; y: number } => d.x !== null);
+  const means = names.map((_, j) => rows.reduce((s, r) => s + r.x[j], 0) / rows.length);
+  const stds = names.map((_, j) => Math.sqrt(rows.reduce((s, r) => s + (r.x[j] - means[j]) ** 2, 0) / rows.length) || 1);
+  const z = (x: number[]) => [1, ...x.map((v, j) => (v - means[j]) / stds[j])];
+
+  // Ridge regression via gradient descent on standardized descriptors
+  const X = rows.map((r) => z(r.x));
+  const weights = new Array(X[0].length).fill(0);
+  const lambda = 0.1;
+  for (let step = 0; step < 2000; step++) {
+    const gradient = weights.map((w, j) => (j === 0 ? 0 : lambda * w));
+    X.forEach((x, i) => {
+      const error = x.reduce((s, v, j) => s + v * weights[j], 0) - rows[i].y;
+      x.forEach((v, j) => (gradient[j] += (error * v) / X.length));
+    });
+    weights.forEach((_, j) => (weights[j] -= 0.05 * gradient[j]));
+  }
+  return {
+    predict(smiles) {
+      const x = calculateDescriptors(rdkit, smiles, names);
+      return x ? Math.min(1, Math.max(0, z(x).reduce((s, v, j) => s + v * weights[j], 0))) : 0;
+    },
+  };
+}
+
+export interface TrainingCompound {
+  smiles: string;
+  activity: number;
+}
+
+function trainModels(rdkit: RDKitModule, data: TrainingCompound[]): Record<string, ActivityModel> {
+  const models: Record<string, ActivityModel> = {};
+  if (USE_ML_MODELS) {
+    for (const name of MODEL_ENSEMBLE) {
+      if (name === 'GraphNN') models[name] = trainGraphModel(rdkit, data);
+      else if (name === 'CNN') models[name] = trainFingerprintModel(rdkit, data, 3);
+      else if (name === 'QSAR') models[name] = trainQSARModel(rdkit, data);
+    }
+  }
+  if (Object.keys(models).length === 0) {
+    throw new Error('No models enabled for screening');
+  }
+  return models;
+}
+
+interface EnsemblePrediction {
+  value: number;
+  // Standard deviation of the member predictions
+  spread: number;
+  individualPredictions: Record<string, number>;
+}
+
+interface Ensemble {
+  intercept: number;
+  weights: Record<string, number>;
+  predict(smiles: string): EnsemblePrediction;
+}
+
+function blend(models: Record<string, ActivityModel>, weights: Record<string, number>, intercept: number): Ensemble {
+  const names = Object.keys(models);
+  return {
+    intercept,
+    weights,
+    predict(smiles) {
+      const individualPredictions = Object.fromEntries(names.map((n) => [n, models[n].predict(smiles)]));
+      const values = Object.values(individualPredictions);
+      const m = values.reduce((s, v) => s + v, 0) / values.length;
+      return {
+        value: names.reduce((s, n) => s + weights[n] * individualPredictions[n], intercept),
+        spread: Math.sqrt(values.reduce((s, v) => s + (v - m) ** 2, 0) / values.length),
+        individualPredictions,
+      };
+    },
+  };
+}
+
+// Meta-model: non-negative least squares with a free intercept, by
+// projected gradient descent. The step size comes from a bound on the
+// largest eigenvalue of the Gram matrix.
+function fitStackingWeights(P: number[][], y: number[]): { intercept: number; weights: number[] } {
+  const weights = new Array(P[0].length).fill(1 / P[0].length);
+  let intercept = 0;
+  const lipschitz = 1 + P.reduce((s, row) => s + row.reduce((t, v) => t + v * v, 0), 0) / P.length;
+  for (let step = 0; step < 5000; step++) {
+    let interceptGradient = 0;
+    const gradient = new Array(weights.length).fill(0);
+    P.forEach((row, i) => {
+      const error = row.reduce((s, v, j) => s + v * weights[j], intercept) - y[i];
+      interceptGradient += error / P.length;
+      row.forEach((v, j) => (gradient[j] += (error * v) / P.length));
+    });
+    intercept -= interceptGradient / lipschitz;
+    weights.forEach((w, j) => (weights[j] = Math.max(0, w - gradient[j] / lipschitz)));
+  }
+  return { intercept, weights };
+}
+
+// The meta-model is fitted on out-of-fold member predictions, so it
+// rewards members that generalize rather than ones that memorize.
+function trainStackedEnsemble(rdkit: RDKitModule, data: TrainingCompound[]): Ensemble {
+  const oof: number[][] = data.map(() => []);
+  let names: string[] = [];
+  for (let fold = 0; fold < STACKING_FOLDS; fold++) {
+    const models = trainModels(rdkit, data.filter((_, i) => i % STACKING_FOLDS !== fold));
+    names = Object.keys(models);
+    data.forEach((d, i) => {
+      if (i % STACKING_FOLDS === fold) oof[i] = names.map((n) => models[n].predict(d.smiles));
+    });
+  }
+  const { intercept, weights } = fitStackingWeights(oof, data.map((d) => d.activity));
+  return blend(trainModels(rdkit, data), Object.fromEntries(names.map((n, j) => [n, weights[j]])), intercept);
+}
+
+// Normalized nonconformity: signed error in units of model disagreement.
+const nonconformity = (prediction: EnsemblePrediction, activity: number) =>
+  (prediction.value - activity) / (prediction.spread + CONFORMAL_BETA);
+
+// Inductive conformal confidence that the true activity reaches HIT_CUTOFF:
+// the largest level whose lower prediction bound stays at or above it.
+// Accepting hits at level c keeps the error rate at or below 1 - c.
+function conformalConfidence(alphas: number[], prediction: EnsemblePrediction): number {
+  const limit = nonconformity(prediction, HIT_CUTOFF);
+  return alphas.filter((a) => a <= limit).length / (alphas.length + 1);
+}
+
+// Two-sided interval at the CONFIDENCE_THRESHOLD level; unbounded when the
+// calibration set is too small for that level.
+function predictionInterval(alphas: number[], prediction: EnsemblePrediction): [number, number] {
+  const scores = alphas.map(Math.abs).sort((a, b) => a - b);
+  const k = Math.ceil((scores.length + 1) * CONFIDENCE_THRESHOLD);
+  const q = k <= scores.length ? scores[k - 1] : Infinity;
+  const width = q * (prediction.spread + CONFORMAL_BETA);
+  return [prediction.value - width, prediction.value + width];
+}
+
+export interface ScreeningHit {
+  smiles: string;
+  predictedActivity: number;
+  confidence: number;
+  // Stacking mode only
+  predictionInterval?: [number, number];
+  inDomain: boolean;
+  domainDistance: number;
+  individualPredictions: Record<string, number>;
+  dockingScore?: number;
+  finalScore: number;
+}
+
+export async function aiVirtualScreening(
+  rdkit: RDKitModule,
+  compoundLibrary: string[],
+  trainingData: TrainingCompound[],
+  performDocking?: DockingScorer,
+) {
+  // Scale activities to [0, 1] so model outputs are comparable
+  const lo = Math.min(...trainingData.map((d) => d.activity));
+  const hi = Math.max(...trainingData.map((d) => d.activity));
+  const scaled = trainingData.map((d) => ({ ...d, activity: hi === lo ? 0.5 : (d.activity - lo) / (hi - lo) }));
+
+  // Train ensemble of ML models
+  const stacking = ENSEMBLE_MODE === 'stacking';
+  let ensemble: Ensemble;
+  let alphas: number[] = [];
+  if (stacking) {
+    // Hold out a calibration set, stack on the rest
+    const random = createRandom(42);
+    const shuffled = [...scaled];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    const calibrationSize = Math.max(1, Math.round(CALIBRATION_FRACTION * shuffled.length));
+    const properSet = shuffled.slice(calibrationSize);
+    if (properSet.length < STACKING_FOLDS) {
+      throw new Error('Stacking needs at least ' + (STACKING_FOLDS + calibrationSize) + ' training compounds');
+    }
+    ensemble = trainStackedEnsemble(rdkit, properSet);
+    alphas = shuffled.slice(0, calibrationSize).map((d) => nonconformity(ensemble.predict(d.smiles), d.activity));
+  } else {
+    const models = trainModels(rdkit, scaled);
+    const weightTotal = Object.keys(models).reduce((s, n) => s + ENSEMBLE_WEIGHTS[n], 0);
+    ensemble = blend(
+      models,
+      Object.fromEntries(Object.keys(models).map((n) => [n, ENSEMBLE_WEIGHTS[n] / weightTotal])),
+      0,
+    );
+  }
+
+  // Applicability domain of the training compounds
+  const domainRows = trainingData
+    .map((d) => ({ x: calculateDescriptors(rdkit, d.smiles, DOMAIN_DESCRIPTORS), fp: morganFingerprint(rdkit, d.smiles, 2, 2048) }))
+    .filter((d): d is { x: number[]; fp: Fingerprint } => d.x !== null && d.fp !== null);
+  const means = DOMAIN_DESCRIPTORS.map((_, j) => domainRows.reduce((s, r) => s + r.x[j], 0) / domainRows.length);
+  const stds = DOMAIN_DESCRIPTORS.map(
+    (_, j) => Math.sqrt(domainRows.reduce((s, r) => s + (r.x[j] - means[j]) ** 2, 0) / domainRows.length) || 1,
+  );
+  const standardize = (x: number[]) => x.map((v, j) => (v - means[j]) / stds[j]);
+  const domain = fitDomain(
+    domainRows.map((r) => standardize(r.x)),
+    domainRows.map((r) => r.fp),
+  );
+
+  // Screen library in batches
+  const predictions: ScreeningHit[] = [];
+  for (let start = 0; start < compoundLibrary.length; start += BATCH_SIZE) {
+    for (const smiles of compoundLibrary.slice(start, start + BATCH_SIZE)) {
+      const prediction = ensemble.predict(smiles);
+      const { value: ensemblePred, individualPredictions } = prediction;
+
+      // Conformal confidence when stacking, otherwise one minus model disagreement
+      const confidence = stacking ? conformalConfidence(alphas, prediction) : 1 - prediction.spread;
+
+      // Applicability domain check; unparsable SMILES are never in domain
+      const x = calculateDescriptors(rdkit, smiles, DOMAIN_DESCRIPTORS);
+      const fp = morganFingerprint(rdkit, smiles, 2, 2048);
+      const { inDomain, distance } = x && fp ? assessDomain(domain, standardize(x), fp) : { inDomain: false, distance: Infinity };
+      if (confidence >= CONFIDENCE_THRESHOLD) {
+        predictions.push({
+          smiles,
+          predictedActivity: ensemblePred,
+          confidence,
+          ...(stacking ? { predictionInterval: predictionInterval(alphas, prediction) } : {}),
+          inDomain,
+          domainDistance: distance,
+          individualPredictions,
+          finalScore: ensemblePred,
+        });
+      }
+    }
+  }
+
+  // Optional docking refinement for top candidates
+  if (USE_DOCKING && performDocking) {
+    const topCandidates = [...predictions].sort((a, b) => b.predictedActivity - a.predictedActivity).slice(0, 1000);
+    for (const candidate of topCandidates) {
+      candidate.dockingScore = await performDocking(candidate.smiles);
+      candidate.finalScore = 0.7 * candidate.predictedActivity + 0.3 * candidate.dockingScore;
+    }
+  }
+
+  const finalHits = predictions.sort((a, b) => b.finalScore - a.finalScore);
+  return {
+    hits: finalHits.slice(0, MAX_HITS),
+    statistics: {
+      totalScreened: compoundLibrary.length,
+      hitsFound: finalHits.length,
+      hitRate: compoundLibrary.length === 0 ? 0 : finalHits.length / compoundLibrary.length,
+      ensembleWeights: ensemble.weights,
+      ...(stacking ? { expectedErrorRate: 1 - CONFIDENCE_THRESHOLD, calibrationSize: alphas.length } : {}),
+    },
+  };
+}
+
+async function selfCheck(): Promise<void> {
+  const rdkit = await initRDKitModule();
+  // Toy endpoint: aryl amides active, aliphatic alcohols inactive
+  const trainingData: TrainingCompound[] = [
+    { smiles: 'CC(=O)Nc1ccc(O)cc1', activity: 7.2 },
+    { smiles: 'CC(=O)Nc1ccc(Cl)cc1', activity: 6.9 },
+    { smiles: 'CC(=O)Nc1ccccc1', activity: 6.5 },
+    { smiles: 'CCC(=O)Nc1ccc(O)cc1', activity: 7.0 },
+    { smiles: 'CCO', activity: 4.0 },
+    { smiles: 'CCCO', activity: 4.1 },
+    { smiles: 'CCCCO', activity: 4.3 },
+    { smiles: 'CC(C)O', activity: 4.0 },
+    { smiles: 'CC(=O)Nc1ccc(C)cc1', activity: 6.8 },
+    { smiles: 'CC(=O)Nc1ccc(Br)cc1', activity: 6.9 },
+    { smiles: 'CCC(=O)Nc1ccccc1', activity: 6.6 },
+    { smiles: 'CC(=O)Nc1cccc(O)c1', activity: 6.7 },
+    { smiles: 'CCC(=O)Nc1ccc(Cl)cc1', activity: 7.1 },
+    { smiles: 'CC(C)CO', activity: 4.2 },
+    { smiles: 'CCC(C)O', activity: 4.1 },
+    { smiles: 'CCCCCCO', activity: 4.4 },
+    { smiles: 'CC(C)(C)O', activity: 4.0 },
+    { smiles: 'OCCCO', activity: 3.9 },
+  ];
+  // The graph network fits the training set and its weights survive a JSON round trip
+  const graphs = trainingData.map((d) => molecularGraph(rdkit, d.smiles)!);
+  const targets = trainingData.map((d) => (d.activity - 3.9) / 3.3);
+  const gin = trainGin(graphs, targets, createRandom(7));
+  const restored = loadGin(saveGin(gin));
+  check(graphs.every((g) => predictGin(restored, g) === predictGin(gin, g)), 'GIN weights should round-trip through JSON');
+  const mean = targets.reduce((s, y) => s + y, 0) / targets.length;
+  const mse = graphs.reduce((s, g, i) => s + (predictGin(gin, g) - targets[i]) ** 2, 0) / graphs.length;
+  const variance = targets.reduce((s, y) => s + (y - mean) ** 2, 0) / targets.length;
+  check(mse < 0.1 * variance, 'GIN should fit the training activities');
+
+  const library = ['CC(=O)Nc1ccc(F)cc1', 'CCCCCO', 'CC(=O)Nc1ccc(OC)cc1', 'OCCO'];
+  const result = await aiVirtualScreening(rdkit, library, trainingData, async (smiles) => (smiles.includes('c') ? 0.8 : 0.2));
+  check(result.statistics.totalScreened === library.length, 'all compounds should be screened');
+  check(result.hits.every((hit) => hit.confidence >= CONFIDENCE_THRESHOLD), 'confidence threshold should be applied');
+  check(result.hits.every((hit, i, all) => i === 0 || all[i - 1].finalScore >= hit.finalScore), 'hits should be ranked');
+  check(result.hits.every((hit) => Number.isFinite(hit.domainDistance)), 'every hit carries a domain distance');
+  check(Object.values(result.statistics.ensembleWeights).every((w) => w >= 0), 'ensemble weights are non-negative');
+  if (ENSEMBLE_MODE === 'stacking') {
+    check(
+      result.hits.every((hit) => hit.predictionInterval![0] <= hit.predictedActivity && hit.predictedActivity <= hit.predictionInterval![1]),
+      'prediction intervals contain the prediction',
+    );
+    check(!result.hits.some((hit) => hit.smiles === 'OCCO'), 'inactive compounds should not reach the hit cut-off');
+  }
+  console.log('Ensemble weights: ' + JSON.stringify(result.statistics.ensembleWeights));
+  for (const hit of result.hits) {
+    console.log(
+      hit.finalScore.toFixed(3) + ' (confidence ' + hit.confidence.toFixed(2) + ', ' +
+        (hit.inDomain ? 'in' : 'outside') + ' domain)  ' + hit.smiles,
+    );
+  }
+}
+
+selfCheck().then(
+  () => console.log('Self-check passed'),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
+`;
+
+const substructureSearch: CodeTemplate = (p) => `${header('SMARTS Substructure Search Algorithm', p)}
+const SMARTS_QUERY = ${literal(p.smartsQuery)};
+const MAX_RESULTS = ${literal(p.maxResults)};
+const MAX_MATCHES_PER_COMPOUND = ${literal(p.maxMatchesPerCompound)};
+const UNIQUE_MATCHES: boolean = ${literal(p.uniqueMatches)};
+
+type RDKitQuery = NonNullable<ReturnType<RDKitModule['get_qmol']>>;
+
+export interface SubstructureHit {
+  index: number;
+  smiles: string;
+  // Molecule atom index for each query atom, one list per embedding.
+  mappings: number[][];
+}
+
+function matchCompound(rdkit: RDKitModule, query: RDKitQuery, smiles: string): number[][] | null {
+  const mol = rdkit.get_mol(smiles);
+  if (!mol || !mol.is_valid()) {
+    mol?.delete();
+    return null;
+  }
+  try {
+    const details = JSON.stringify({ uniquify: UNIQUE_MATCHES, maxMatches: MAX_MATCHES_PER_COMPOUND });
+    const matches = JSON.parse(mol.get_substruct_matches(query, details));
+    // MinimalLib returns {} rather than [] when nothing matches.
+    return Array.isArray(matches) ? matches.map((match: { atoms: number[] }) => match.atoms) : [];
+  } finally {
+    mol.delete();
+  }
+}
+
+export function substructureSearch(rdkit: RDKitModule, smartsQuery: string, database: string[]): SubstructureHit[] {
+  const query = rdkit.get_qmol(smartsQuery);
+  if (!query) {
+    throw new Error('Invalid SMARTS query: ' + smartsQuery);
+  }
+  try {
+    const hits: SubstructureHit[] = [];
+    for (const [index, smiles] of database.entries()) {
+      if (hits.length >= MAX_RESULTS) break;
+      const mappings = matchCompound(rdkit, query, smiles);
+      if (!mappings) {
+        console.warn('Skipping invalid SMILES: ' + smiles);
+        continue;
+      }
+      if (mappings.length > 0) {
+        hits.push({ index, smiles, mappings });
+      }
+    }
+    return hits;
+  } finally {
+    query.delete();
+  }
+}
+
+async function selfCheck(): Promise<void> {
+  const rdkit = await initRDKitModule();
+  const library = [
+    'CC(=O)Nc1ccc(O)cc1', // paracetamol
+    'NC(=O)c1ccccc1', // benzamide
+    'c1ccc2ccccc2c1', // naphthalene
+    'CCO',
+    'not a smiles',
+  ];
+
+  const amides = substructureSearch(rdkit, 'C(=O)[NX3]', library);
+  check(amides.map((hit) => hit.index).join() === '0,1', 'amides should be found in paracetamol and benzamide');
+  check(amides.every((hit) => hit.mappings[0].length === 3), 'each mapping should cover every query atom');
+  const rings = substructureSearch(rdkit, 'c1ccccc1', [library[2]]);
+  check(
+    !UNIQUE_MATCHES || rings[0].mappings.length === Math.min(2, MAX_MATCHES_PER_COMPOUND),
+    'naphthalene should hold two distinct benzene rings',
+  );
+  const recursive = substructureSearch(rdkit, '[c;$(c[OH])]', library);
+  check(recursive.length === 1 && recursive[0].index === 0, 'recursive SMARTS should find the phenol carbon');
+
+  for (const hit of substructureSearch(rdkit, SMARTS_QUERY, library)) {
+    console.log(hit.smiles + '  ' + JSON.stringify(hit.mappings));
+  }
+}
+
+selfCheck().then(
+  () => console.log('Self-check passed'),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
+`;
+
+const clusteringDiversity: CodeTemplate = (p) => `${header('Clustering and Diversity Selection Algorithm', p)}${fingerprintHelpers}
+const FINGERPRINT_TYPE: string = ${literal(p.fingerprintType)};
+const RADIUS = ${literal(p.radius ?? 2)};
+const BIT_LENGTH = ${literal(p.bitLength)};
+const USE_COUNTS: boolean = ${literal(p.useCounts ?? false)};
+const MAX_PATH_LENGTH = ${literal(p.maxPathLength ?? 7)};
+const CLUSTERING_METHOD: string = ${literal(p.clusteringMethod)};
+const DISTANCE_CUTOFF = ${literal(p.distanceCutoff)};
+const LINKAGE: string = ${literal(p.linkage ?? 'average')};
+const PICKING_METHOD: string = ${literal(p.pickingMethod)};
+const MAX_PICKS = ${literal(p.maxPicks)};
+${fingerprintTypeHelpers}
+export interface Cluster {
+  // Butina centre or hierarchical medoid; indices are library positions.
+  centroid: number;
+  members: number[];
+}
+
+export interface ClusteringResult {
+  clusters: Cluster[];
+  // Cluster position for each library compound, -1 for invalid SMILES.
+  assignments: number[];
+  singletons: number[];
+  picks: number[];
+}
+
+function distanceMatrix(fingerprints: Fingerprint[]): number[][] {
+  const d = fingerprints.map(() => new Array<number>(fingerprints.length).fill(0));
+  for (let i = 0; i < fingerprints.length; i++) {
+    for (let j = i + 1; j < fingerprints.length; j++) {
+      d[i][j] = d[j][i] = 1 - calculateSimilarity(fingerprints[i], fingerprints[j], 'tanimoto');
+    }
+  }
+  return d;
+}
+
+// Taylor-Butina: compounds with the most neighbours within the cutoff
+// become centres and claim their unassigned neighbours.
+export function butinaClusters(d: number[][], cutoff: number): Cluster[] {
+  const n = d.length;
+  const neighbours = d.map((row, i) => row.flatMap((value, j) => (j !== i && value <= cutoff ? [j] : [])));
+  const order = [...Array(n).keys()].sort((a, b) => neighbours[b].length - neighbours[a].length || a - b);
+  const assigned = new Array<boolean>(n).fill(false);
+  const clusters: Cluster[] = [];
+  for (const centre of order) {
+    if (assigned[centre]) continue;
+    const members = [centre, ...neighbours[centre].filter((j) => !assigned[j])];
+    members.forEach((i) => (assigned[i] = true));
+    clusters.push({ centroid: centre, members });
+  }
+  return clusters;
+}
+
+function medoid(d: number[][], members: number[]): number {
+  const total = (i: number) => members.reduce((sum, j) => sum + d[i][j], 0);
+  return members.reduce((best, i) => (total(i) < total(best) ? i : best), members[0]);
+}
+
+// Agglomerative clustering by the nearest-neighbour chain with
+// Lance-Williams updates, cut where merges exceed the cutoff.
+export function hierarchicalClusters(distances: number[][], cutoff: number): Cluster[] {
+  const n = distances.length;
+  const d = distances.map((row) => [...row]);
+  const active = new Array<boolean>(n).fill(true);
+  const groups: number[][] = distances.map((_, i) => [i]);
+  const merges: { a: number; b: number; distance: number }[] = [];
+  const chain: number[] = [];
+  while (merges.length < n - 1) {
+    if (chain.length === 0) chain.push(active.indexOf(true));
+    const a = chain[chain.length - 1];
+    const previous = chain.length > 1 ? chain[chain.length - 2] : -1;
+    let nearest = previous;
+    for (let k = 0; k < n; k++) {
+      if (k !== a && active[k] && (nearest < 0 || d[a][k] < d[a][nearest])) nearest = k;
+    }
+    if (nearest !== previous) {
+      chain.push(nearest);
+      continue;
+    }
+    chain.splice(-2);
+    const b = previous;
+    merges.push({ a, b, distance: d[a][b] });
+    const [sa, sb] = [groups[a].length, groups[b].length];
+    for (let k = 0; k < n; k++) {
+      if (!active[k] || k === a || k === b) continue;
+      d[k][a] = d[a][k] =
+        LINKAGE === 'single'
+          ? Math.min(d[k][a], d[k][b])
+          : LINKAGE === 'complete'
+            ? Math.max(d[k][a], d[k][b])
+            : (sa * d[k][a] + sb * d[k][b]) / (sa + sb);
+    }
+    groups[a] = [...groups[a], ...groups[b]];
+    active[b] = false;
+  }
+
+  // Linkages here are monotone, so merges at or below the cutoff form
+  // whole subtrees and can be joined in any order
+  const parent = [...Array(n).keys()];
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  for (const { a, b, distance } of merges) {
+    if (distance <= cutoff) parent[find(b)] = find(a);
+  }
+  const clusters = new Map<number, number[]>();
+  for (let i = 0; i < n; i++) {
+    clusters.set(find(i), [...(clusters.get(find(i)) ?? []), i]);
+  }
+  return [...clusters.values()].map((members) => {
+    const centroid = medoid(distances, members);
+    return { centroid, members: [centroid, ...members.filter((i) => i !== centroid)] };
+  });
+}
+
+// MaxMin: each pick is the compound furthest from all earlier picks,
+// starting from the one furthest from the whole library.
+export function maxMinPick(d: number[][], count: number): number[] {
+  const n = d.length;
+  if (n === 0) return [];
+  const total = (i: number) => d[i].reduce((sum, v) => sum + v, 0);
+  const picks = [[...Array(n).keys()].reduce((best, i) => (total(i) > total(best) ? i : best), 0)];
+  const nearest = new Array<number>(n).fill(Infinity);
+  while (picks.length < Math.min(count, n)) {
+    const last = picks[picks.length - 1];
+    let next = -1;
+    for (let i = 0; i < n; i++) {
+      if (picks.includes(i)) continue;
+      nearest[i] = Math.min(nearest[i], d[i][last]);
+      if (next < 0 || nearest[i] > nearest[next]) next = i;
+    }
+    picks.push(next);
+  }
+  return picks;
+}
+
+// Sphere exclusion in library order: a compound is picked when it lies
+// beyond the cutoff from every earlier pick.
+export function sphereExclusionPick(d: number[][], cutoff: number, count: number): number[] {
+  const picks: number[] = [];
+  for (let i = 0; i < d.length && picks.length < count; i++) {
+    if (picks.every((j) => d[i][j] > cutoff)) picks.push(i);
+  }
+  return picks;
+}
+
+export function clusterAndPick(rdkit: RDKitModule, library: string[]): ClusteringResult {
+  const valid: number[] = [];
+  const fingerprints: Fingerprint[] = [];
+  library.forEach((smiles, index) => {
+    const fingerprint = generateFingerprint(rdkit, smiles);
+    if (!fingerprint) {
+      console.warn('Skipping invalid SMILES: ' + smiles);
+      return;
+    }
+    valid.push(index);
+    fingerprints.push(fingerprint);
+  });
+
+  const d = distanceMatrix(fingerprints);
+  const clusters = (
+    CLUSTERING_METHOD === 'hierarchical' ? hierarchicalClusters(d, DISTANCE_CUTOFF) : butinaClusters(d, DISTANCE_CUTOFF)
+  )
+    .map(({ centroid, members }) => ({ centroid: valid[centroid], members: members.map((i) => valid[i]) }))
+    .sort((a, b) => b.members.length - a.members.length || a.centroid - b.centroid);
+  const picks =
+    PICKING_METHOD === 'maxmin' ? maxMinPick(d, MAX_PICKS) : sphereExclusionPick(d, DISTANCE_CUTOFF, MAX_PICKS);
+
+  const assignments = new Array<number>(library.length).fill(-1);
+  clusters.forEach((cluster, k) => cluster.members.forEach((i) => (assignments[i] = k)));
+  return {
+    clusters,
+    assignments,
+    singletons: clusters.filter((c) => c.members.length === 1).map((c) => c.centroid).sort((a, b) => a - b),
+    picks: picks.map((i) => valid[i]),
+  };
+}
+
+async function selfCheck(): Promise<void> {
+  const rdkit = await initRDKitModule();
+  const library = [
+    'CC(=O)Oc1ccccc1C(=O)O', // aspirin
+    'CC(=O)Oc1ccccc1C(=O)O', // duplicate
+    'OC(=O)c1ccccc1O', // salicylic acid
+    'CC(=O)Nc1ccc(O)cc1', // paracetamol
+    'CC(=O)Nc1ccc(OC)cc1', // methacetin
+    'Cn1cnc2c1c(=O)n(C)c(=O)n2C', // caffeine
+    'Cn1cnc2c1c(=O)[nH]c(=O)n2C', // theobromine
+    'CCCCCCCC',
+    'not a smiles',
+  ];
+
+  const result = clusterAndPick(rdkit, library);
+  const members = result.clusters.flatMap((c) => c.members).sort((a, b) => a - b);
+  check(members.join() === '0,1,2,3,4,5,6,7', 'every valid compound should be in exactly one cluster');
+  check(result.assignments[8] === -1, 'invalid SMILES should be skipped');
+  check(result.assignments[0] === result.assignments[1], 'duplicates should share a cluster');
+  check(result.clusters.every((c) => c.members[0] === c.centroid), 'centroids should lead their clusters');
+  check(
+    result.singletons.length === result.clusters.filter((c) => c.members.length === 1).length,
+    'singletons should be the one-member clusters',
+  );
+
+  const fingerprints = library.slice(0, 8).map((smiles) => generateFingerprint(rdkit, smiles)!);
+  const d = distanceMatrix(fingerprints);
+  if (CLUSTERING_METHOD === 'butina') {
+    check(
+      butinaClusters(d, DISTANCE_CUTOFF).every((c) => c.members.every((i) => d[c.centroid][i] <= DISTANCE_CUTOFF)),
+      'Butina members should lie within the cutoff of their centre',
+    );
+  }
+  check(new Set(result.picks).size === result.picks.length, 'picks should be distinct');
+  if (PICKING_METHOD === 'maxmin') {
+    check(result.picks.length === Math.min(MAX_PICKS, 8), 'MaxMin should pick up to MAX_PICKS compounds');
+    check(result.picks.slice(0, 2).join() !== '0,1', 'MaxMin should not pick both duplicates first');
+  } else {
+    check(
+      result.picks.every((i, k) => result.picks.slice(0, k).every((j) => d[i][j] > DISTANCE_CUTOFF)),
+      'sphere-exclusion picks should lie beyond the cutoff from each other',
+    );
+  }
+
+  result.clusters.forEach((cluster, k) => {
+    console.log('cluster ' + (k + 1) + ': ' + cluster.members.map((i) => library[i]).join(', '));
+  });
+  console.log('picks: ' + result.picks.map((i) => library[i]).join(', '));
+}
+
+selfCheck().then(
+  () => console.log('Self-check passed'),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
+`;
+
+const scaffoldAnalysis: CodeTemplate = (p) => `${header('Scaffold Analysis Algorithm', p)}
+const MIN_COUNT = ${literal(p.minCount)};
+const MAX_SCAFFOLDS = ${literal(p.maxScaffolds)};
+
+// Molecules are edited as RDKit JSON: Kekulé bond orders, with aromaticity
+// and SSSR rings read from the rdkitRepresentation extension.
+const RDKIT_JSON = {
+  rdkitjson: { version: 11 },
+  defaults: {
+    atom: { z: 6, impHs: 0, chg: 0, nRad: 0, isotope: 0, stereo: 'unspecified' },
+    bond: { bo: 1, stereo: 'unspecified' },
+  },
+};
+
+interface JsonAtom {
+  z: number;
+  impHs: number;
+  chg: number;
+  [key: string]: unknown;
+}
+
+interface JsonBond {
+  atoms: [number, number];
+  bo: number;
+}
+
+interface Graph {
+  atoms: JsonAtom[];
+  bonds: JsonBond[];
+  aromaticAtoms: Set<number>;
+  aromaticBonds: Set<number>;
+  rings: number[][];
+  neighbors: number[][];
+}
+
+export interface ActivitySummary {
+  count: number;
+  mean: number;
+  std: number;
+  min: number;
+  max: number;
+}
+
+export interface ScaffoldGroup {
+  smiles: string;
+  members: number[];
+  activity: ActivitySummary | null;
+}
+
+export interface ScaffoldTreeNode {
+  smiles: string;
+  rings: number;
+  // One ring smaller; null at a single ring.
+  parent: string | null;
+  // Compounds with this Murcko scaffold, and those anywhere below it.
+  count: number;
+  total: number;
+}
+
+export interface ScaffoldAnalysis {
+  // Null for invalid SMILES; scaffolds are null for acyclic compounds.
+  assignments: ({ scaffold: string | null; generic: string | null } | null)[];
+  scaffolds: ScaffoldGroup[];
+  genericScaffolds: ScaffoldGroup[];
+  tree: ScaffoldTreeNode[];
+}
+
+function readGraph(rdkit: RDKitModule, smiles: string): Graph | null {
+  const mol = rdkit.get_mol(smiles);
+  if (!mol || !mol.is_valid()) {
+    mol?.delete();
+    return null;
+  }
+  try {
+    const json = JSON.parse(mol.get_json());
+    const { atoms, bonds = [], extensions = [] } = json.molecules[0];
+    const graph: Graph = {
+      atoms: atoms.map((atom: Partial<JsonAtom>) => ({ ...json.defaults.atom, ...atom })),
+      bonds: bonds.map((bond: { atoms: [number, number]; bo?: number }) => ({ atoms: bond.atoms, bo: bond.bo ?? 1 })),
+      aromaticAtoms: new Set(extensions[0]?.aromaticAtoms ?? []),
+      aromaticBonds: new Set(extensions[0]?.aromaticBonds ?? []),
+      rings: extensions[0]?.atomRings ?? [],
+      neighbors: atoms.map(() => []),
+    };
+    for (const { atoms: [a, b] } of graph.bonds) {
+      graph.neighbors[a].push(b);
+      graph.neighbors[b].push(a);
+    }
+    return graph;
+  } finally {
+    mol.delete();
+  }
+}
+
+// Canonical SMILES of a JSON molecule, or null when RDKit cannot sanitize it.
+function jsonSmiles(
+  rdkit: RDKitModule,
+  atoms: Partial<JsonAtom>[],
+  bonds: Partial<JsonBond>[],
+  aromaticAtoms: number[],
+  aromaticBonds: number[],
+): string | null {
+  const extensions = [{ name: 'rdkitRepresentation', formatVersion: 2, aromaticAtoms, aromaticBonds }];
+  const mol = rdkit.get_mol(JSON.stringify({ ...RDKIT_JSON, molecules: [{ atoms, bonds, extensions }] }));
+  try {
+    return mol && mol.is_valid() ? mol.get_smiles() : null;
+  } finally {
+    mol?.delete();
+  }
+}
+
+// The kept atoms as canonical SMILES, without stereo. Each kept atom takes a
+// hydrogen per unit of bond order it loses; null when what is left of an
+// aromatic system no longer kekulizes.
+function subgraphSmiles(rdkit: RDKitModule, graph: Graph, keep: boolean[]): string | null {
+  let next = 0;
+  const index = keep.map((kept) => (kept ? next++ : -1));
+  const atoms = graph.atoms.flatMap((atom, i) => (keep[i] ? [{ ...atom, isotope: 0, stereo: 'unspecified' }] : []));
+  const bonds: JsonBond[] = [];
+  const aromaticBonds: number[] = [];
+  graph.bonds.forEach((bond, b) => {
+    const [i, j] = bond.atoms.map((atom) => index[atom]);
+    if (i >= 0 && j >= 0) {
+      if (graph.aromaticBonds.has(b)) aromaticBonds.push(bonds.length);
+      bonds.push({ atoms: [i, j], bo: bond.bo });
+    } else if (i >= 0 || j >= 0) {
+      atoms[Math.max(i, j)].impHs += graph.aromaticBonds.has(b) ? 1 : bond.bo;
+    }
+  });
+  const aromaticAtoms = [...graph.aromaticAtoms].filter((atom) => keep[atom]).map((atom) => index[atom]);
+  return jsonSmiles(rdkit, atoms, bonds, aromaticAtoms, aromaticBonds);
+}
+
+// Bemis-Murcko framework: ring atoms and the linkers joining them. Acyclic
+// atoms with at most one remaining neighbour are peeled away, then terminal
+// atoms double-bonded to the framework are put back, as RDKit's
+// MurckoScaffold does. Null for acyclic molecules.
+export function murckoScaffold(rdkit: RDKitModule, graph: Graph): string | null {
+  const inRing = new Set(graph.rings.flat());
+  if (inRing.size === 0) return null;
+  const keep = graph.atoms.map((atom) => atom.z !== 1);
+  const degree = graph.neighbors.map((list) => list.filter((n) => keep[n]).length);
+  const queue = keep.flatMap((kept, i) => (kept && degree[i] <= 1 && !inRing.has(i) ? [i] : []));
+  while (queue.length > 0) {
+    const atom = queue.pop()!;
+    if (!keep[atom]) continue;
+    keep[atom] = false;
+    for (const n of graph.neighbors[atom]) {
+      if (keep[n] && --degree[n] <= 1 && !inRing.has(n)) queue.push(n);
+    }
+  }
+  const framework = keep.slice();
+  graph.bonds.forEach((bond, b) => {
+    if (bond.bo !== 2 || graph.aromaticBonds.has(b)) return;
+    for (const [inside, outside] of [bond.atoms, [bond.atoms[1], bond.atoms[0]]]) {
+      if (framework[inside] && !framework[outside] && graph.neighbors[outside].length === 1) keep[outside] = true;
+    }
+  });
+  return subgraphSmiles(rdkit, graph, keep);
+}
+
+// Every atom carbon and every bond single.
+export function genericScaffold(rdkit: RDKitModule, scaffold: string): string {
+  const graph = readGraph(rdkit, scaffold)!;
+  const atoms = graph.neighbors.map((list) => ({ impHs: 4 - list.length }));
+  const bonds = graph.bonds.map((bond) => ({ atoms: bond.atoms }));
+  return jsonSmiles(rdkit, atoms, bonds, [], [])!;
+}
+
+const compareKeys = (a: (number | string)[], b: (number | string)[]) => {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return a[i] < b[i] ? -1 : 1;
+  }
+  return 0;
+};
+
+// Acyclic bonds between two non-terminal atoms.
+function linkerBonds(graph: Graph): number {
+  const pair = (a: number, b: number) => Math.min(a, b) + '-' + Math.max(a, b);
+  const ringBonds = new Set(graph.rings.flatMap((ring) => ring.map((a, k) => pair(a, ring[(k + 1) % ring.length]))));
+  return graph.bonds.filter(
+    ({ atoms: [a, b] }) => !ringBonds.has(pair(a, b)) && graph.neighbors[a].length > 1 && graph.neighbors[b].length > 1,
+  ).length;
+}
+
+// One step down the scaffold tree (Schuffenhauer et al. 2007): removes the
+// terminal ring ranked first by three-membered heterocycles, macrocycles
+// last, fewest linker bonds left, ring size 3, 5 or 6, fewest heteroatoms
+// (keeping N over O over S), smaller rings, aromatic rings and finally the
+// parent SMILES. Null at a single ring.
+export function scaffoldParent(rdkit: RDKitModule, scaffold: string): string | null {
+  const graph = readGraph(rdkit, scaffold)!;
+  if (graph.rings.length <= 1) return null;
+  const ringsOf = graph.atoms.map((_, i) => graph.rings.filter((ring) => ring.includes(i)).length);
+  const smallest = Math.min(...graph.rings.map((ring) => ring.length));
+  let best: { parent: string; key: (number | string)[] } | null = null;
+  for (const ring of graph.rings) {
+    const removed = new Set(ring.filter((atom) => ringsOf[atom] === 1));
+    if (removed.size === 0) continue;
+    const rest = subgraphSmiles(rdkit, graph, graph.atoms.map((_, i) => !removed.has(i)));
+    const restGraph = rest === null ? null : readGraph(rdkit, rest);
+    const parent = restGraph && murckoScaffold(rdkit, restGraph);
+    // Removing an inner ring would split the scaffold
+    if (!parent || parent.split('.').length > scaffold.split('.').length) continue;
+    const elements = ring.map((atom) => graph.atoms[atom].z);
+    const count = (z: number) => elements.filter((e) => e === z).length;
+    const heteroatoms = elements.filter((z) => z !== 6).length;
+    const key = [
+      ring.length === 3 && heteroatoms > 0 ? 0 : 1,
+      ring.length >= 12 && smallest < 12 ? 1 : 0,
+      linkerBonds(readGraph(rdkit, parent)!),
+      [3, 5, 6].includes(ring.length) ? 0 : 1,
+      heteroatoms,
+      count(7),
+      count(8),
+      count(16),
+      ring.length,
+      ring.every((atom) => graph.aromaticAtoms.has(atom)) ? 0 : 1,
+      parent,
+    ];
+    if (!best || compareKeys(key, best.key) < 0) best = { parent, key };
+  }
+  return best?.parent ?? null;
+}
+
+function summarize(members: number[], activities: (number | null)[] | null): ActivitySummary | null {
+  const values = activities ? members.flatMap((i) => (activities[i] === null ? [] : [activities[i] as number])) : [];
+  if (values.length === 0) return null;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance =
+    values.length > 1 ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1) : 0;
+  return { count: values.length, mean, std: Math.sqrt(variance), min: Math.min(...values), max: Math.max(...values) };
+}
+
+// Groups the library by Murcko and generic scaffold and walks every Murcko
+// scaffold down the scaffold tree. Activities are aligned with the library;
+// null marks an unmeasured compound.
+export function analyzeScaffolds(
+  rdkit: RDKitModule,
+  library: string[],
+  activities: (number | null)[] | null = null,
+): ScaffoldAnalysis {
+  const assignments: ScaffoldAnalysis['assignments'] = library.map((smiles) => {
+    const graph = readGraph(rdkit, smiles);
+    if (!graph) {
+      console.warn('Skipping invalid SMILES: ' + smiles);
+      return null;
+    }
+    const scaffold = murckoScaffold(rdkit, graph);
+    return { scaffold, generic: scaffold === null ? null : genericScaffold(rdkit, scaffold) };
+  });
+
+  const group = (key: 'scaffold' | 'generic'): ScaffoldGroup[] => {
+    const groups = new Map<string, number[]>();
+    assignments.forEach((assignment, i) => {
+      const smiles = assignment?.[key];
+      if (!smiles) return;
+      groups.set(smiles, [...(groups.get(smiles) ?? []), i]);
+    });
+    return [...groups]
+      .map(([smiles, members]) => ({ smiles, members, activity: summarize(members, activities) }))
+      .filter((g) => g.members.length >= MIN_COUNT)
+      .sort((a, b) => b.members.length - a.members.length || (a.smiles < b.smiles ? -1 : 1))
+      .slice(0, MAX_SCAFFOLDS);
+  };
+
+  const nodes = new Map<string, ScaffoldTreeNode>();
+  const visit = (smiles: string): ScaffoldTreeNode => {
+    let node = nodes.get(smiles);
+    if (!node) {
+      node = { smiles, rings: readGraph(rdkit, smiles)!.rings.length, parent: null, count: 0, total: 0 };
+      nodes.set(smiles, node);
+      node.parent = scaffoldParent(rdkit, smiles);
+      if (node.parent !== null) visit(node.parent);
+    }
+    return node;
+  };
+  for (const assignment of assignments) {
+    if (!assignment?.scaffold) continue;
+    let node: ScaffoldTreeNode | undefined = visit(assignment.scaffold);
+    node.count++;
+    for (; node; node = node.parent === null ? undefined : nodes.get(node.parent)) node.total++;
+  }
+
+  return {
+    assignments,
+    scaffolds: group('scaffold'),
+    genericScaffolds: group('generic'),
+    tree: [...nodes.values()]
+      .filter((node) => node.total >= MIN_COUNT)
+      .sort((a, b) => a.rings - b.rings || b.total - a.total || (a.smiles < b.smiles ? -1 : 1)),
+  };
+}
+
+async function selfCheck(): Promise<void> {
+  const rdkit = await initRDKitModule();
+  const library = [
+    'CC(=O)Nc1ccc(O)cc1', // paracetamol
+    'CC(C)Cc1ccc(cc1)C(C)C(=O)O', // ibuprofen
+    'Oc1ccncc1',
+    'CC1CCCCC1=O',
+    'O=C(Nc1ccccc1)c1ccc2[nH]ccc2c1',
+    'Cn1ccc2ccccc21',
+    'CCO',
+    'not a smiles',
+  ];
+  const activities = [5.0, 6.0, 4.5, null, 7.0, 6.5, 3.0, null];
+
+  const result = analyzeScaffolds(rdkit, library, activities);
+  const scaffold = (i: number) => result.assignments[i]?.scaffold;
+  check(scaffold(0) === 'c1ccccc1' && scaffold(1) === 'c1ccccc1', 'side chains should be stripped to the ring');
+  check(scaffold(3) === 'O=C1CCCCC1', 'ring carbonyls should stay in the scaffold');
+  check(scaffold(5) === 'c1ccc2[nH]ccc2c1', 'a stripped ring nitrogen should keep its hydrogen');
+  check(
+    result.assignments[2]?.generic === 'C1CCCCC1' && result.assignments[0]?.generic === 'C1CCCCC1',
+    'pyridine and benzene should share a generic scaffold',
+  );
+  check(result.assignments[6]?.scaffold === null, 'acyclic compounds should have no scaffold');
+  check(result.assignments[7] === null, 'invalid SMILES should be skipped');
+
+  const benzene = result.scaffolds.find((g) => g.smiles === 'c1ccccc1')!;
+  check(benzene.members.join() === '0,1' && benzene.activity?.mean === 5.5, 'benzene compounds should be summarized');
+  const indole = result.tree.find((node) => node.smiles === 'c1ccc2[nH]ccc2c1')!;
+  check(indole.parent === 'c1cc[nH]c1', 'the benzene ring of indole should be removed first');
+  check(indole.count === 1 && indole.total === 2, 'tree totals should include descendant scaffolds');
+  check(
+    result.tree.every((node) => (node.parent === null) === (node.rings === 1)),
+    'every branch should end at a single ring',
+  );
+
+  for (const group of result.scaffolds) {
+    console.log(group.smiles + ': ' + group.members.length + ' compound(s), mean activity ' + group.activity?.mean);
+  }
+  for (const node of result.tree) {
+    console.log(node.smiles + ' -> ' + (node.parent ?? 'root') + ' (' + node.total + ' in subtree)');
+  }
+}
+
+selfCheck().then(
+  () => console.log('Self-check passed'),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
+`;
+
+const matchedMolecularPairs: CodeTemplate = (p) => `${header('Matched Molecular Pair Analysis', p)}
+const MAX_VARIABLE_ATOMS = ${literal(p.maxVariableAtoms)};
+const INCLUDE_HYDROGEN = ${literal(p.includeHydrogen)};
+const MIN_PAIRS = ${literal(p.minPairs)};
+const MAX_TRANSFORMS = ${literal(p.maxTransforms)};
+// Molecules with more cuttable bonds than this are left unfragmented by RDKit.
+const MAX_CUT_BONDS = 100;
+const HYDROGEN_FRAGMENT = '[*:1][H]';
+
+export interface Fragmentation {
+  constant: string;
+  variable: string;
+}
+
+export interface PropertyChange {
+  count: number;
+  mean: number;
+  std: number;
+  min: number;
+  max: number;
+}
+
+export interface Transform {
+  transform: string;
+  from: string;
+  to: string;
+  // Library indices of each pair, in the transform's direction.
+  pairs: { from: number; to: number; constant: string }[];
+  changes: Record<string, PropertyChange | null>;
+}
+
+export interface Suggestion {
+  smiles: string;
+  transform: string;
+  pairCount: number;
+  changes: Record<string, PropertyChange | null>;
+}
+
+// Canonical SMILES without stereo, so stereoisomers index together.
+function canonical(rdkit: RDKitModule, smiles: string): string | null {
+  const mol = rdkit.get_mol(smiles);
+  try {
+    return mol && mol.is_valid() ? mol.get_smiles(JSON.stringify({ doIsomericSmiles: false })) : null;
+  } finally {
+    mol?.delete();
+  }
+}
+
+function heavyAtoms(rdkit: RDKitModule, smiles: string): number {
+  const mol = rdkit.get_mol(smiles)!;
+  try {
+    const json = JSON.parse(mol.get_json());
+    return json.molecules[0].atoms.filter((atom: { z?: number }) => (atom.z ?? json.defaults.atom.z) > 1).length;
+  } finally {
+    mol.delete();
+  }
+}
+
+// Each hydrogen-bearing atom with one hydrogen replaced by [*:1], built on
+// the RDKit JSON of the molecule (Kekulé bonds plus aromaticity flags).
+function hydrogenConstants(rdkit: RDKitModule, mol: NonNullable<ReturnType<RDKitModule['get_mol']>>): string[] {
+  const json = JSON.parse(mol.get_json());
+  const { atoms, bonds = [], extensions = [] } = json.molecules[0];
+  const extension = {
+    name: 'rdkitRepresentation',
+    formatVersion: 2,
+    aromaticAtoms: extensions[0]?.aromaticAtoms ?? [],
+    aromaticBonds: extensions[0]?.aromaticBonds ?? [],
+  };
+  const constants: string[] = [];
+  atoms.forEach((atom: { z?: number; impHs?: number }, i: number) => {
+    const hydrogens = atom.impHs ?? json.defaults.atom.impHs;
+    if (hydrogens === 0 || (atom.z ?? json.defaults.atom.z) <= 1) return;
+    const edited = atoms.map((other: object, k: number) => (k === i ? { ...other, impHs: hydrogens - 1 } : other));
+    const molecule = {
+      atoms: [...edited, { z: 0, impHs: 0 }],
+      bonds: [...bonds, { atoms: [i, atoms.length] }],
+      extensions: [extension],
+    };
+    const smiles = canonical(rdkit, JSON.stringify({ ...json, molecules: [molecule] }));
+    // RDKit writes the unlabelled attachment point as a bare *
+    const constant = smiles && canonical(rdkit, smiles.replace('*', '[*:1]'));
+    if (constant) constants.push(constant);
+  });
+  return constants;
+}
+
+// Hussain-Rea single cuts from RDKit's MMPA fragmenter (acyclic single bonds
+// with a non-carbonyl carbon at one end), in both orientations when both
+// sides are small enough, plus hydrogen replacements. Null for invalid SMILES.
+export function fragment(rdkit: RDKitModule, smiles: string): Fragmentation[] | null {
+  const mol = rdkit.get_mol(smiles);
+  if (!mol || !mol.is_valid()) {
+    mol?.delete();
+    return null;
+  }
+  const cuts = new Map<string, Fragmentation>();
+  const add = (constant: string | null, variable: string | null) => {
+    if (constant && variable) cuts.set(constant + ' ' + variable, { constant, variable });
+  };
+  try {
+    const { sidechains } = mol.get_mmpa_frags(1, 1, MAX_CUT_BONDS);
+    for (let i = 0; i < sidechains.size(); i++) {
+      const pieces = sidechains.at(i);
+      const [left, right] = pieces.get_smiles().split('.');
+      pieces.delete();
+      for (const [constant, variable] of [[left, right], [right, left]]) {
+        if (heavyAtoms(rdkit, variable) <= MAX_VARIABLE_ATOMS) {
+          add(canonical(rdkit, constant), canonical(rdkit, variable));
+        }
+      }
+    }
+    sidechains.delete();
+    if (INCLUDE_HYDROGEN) {
+      for (const constant of hydrogenConstants(rdkit, mol)) add(constant, HYDROGEN_FRAGMENT);
+    }
+  } finally {
+    mol.delete();
+  }
+  return [...cuts.values()];
+}
+
+// Bonds the atoms on either side of the two [*:1] attachment points.
+export function join(rdkit: RDKitModule, constant: string, variable: string): string | null {
+  if (variable === HYDROGEN_FRAGMENT) return canonical(rdkit, constant.replace('[*:1]', '[H]'));
+  const left = rdkit.get_mol(constant)!;
+  const right = rdkit.get_mol(variable)!;
+  const product = rdkit.molzip(left, right);
+  try {
+    return product && product.is_valid() ? canonical(rdkit, product.get_smiles()) : null;
+  } finally {
+    product?.delete();
+    left.delete();
+    right.delete();
+  }
+}
+
+function summarizeChanges(differences: number[]): PropertyChange | null {
+  if (differences.length === 0) return null;
+  const mean = differences.reduce((sum, d) => sum + d, 0) / differences.length;
+  const variance =
+    differences.length > 1
+      ? differences.reduce((sum, d) => sum + (d - mean) ** 2, 0) / (differences.length - 1)
+      : 0;
+  return {
+    count: differences.length,
+    mean,
+    std: Math.sqrt(variance),
+    min: Math.min(...differences),
+    max: Math.max(...differences),
+  };
+}
+
+// Indexes fragmentations by constant part; compounds sharing a constant with
+// different variable parts form a matched pair in each direction, counted
+// once per transform. Properties are aligned with the library; null marks
+// an unmeasured value. Returns every transform with at least MIN_PAIRS
+// pairs, most pairs first.
+export function matchedPairs(
+  rdkit: RDKitModule,
+  library: string[],
+  properties: Record<string, (number | null)[]> = {},
+): Transform[] {
+  const index = new Map<string, Map<string, number[]>>();
+  library.forEach((smiles, i) => {
+    const cuts = fragment(rdkit, smiles);
+    if (!cuts) {
+      console.warn('Skipping invalid SMILES: ' + smiles);
+      return;
+    }
+    for (const { constant, variable } of cuts) {
+      if (!index.has(constant)) index.set(constant, new Map());
+      const variables = index.get(constant)!;
+      const members = variables.get(variable) ?? [];
+      if (members[members.length - 1] !== i) variables.set(variable, [...members, i]);
+    }
+  });
+
+  const transforms = new Map<string, Transform>();
+  const seen = new Set<string>();
+  for (const [constant, variables] of index) {
+    for (const [from, fromMembers] of variables) {
+      for (const [to, toMembers] of variables) {
+        if (from === to) continue;
+        const key = from + '>>' + to;
+        if (!transforms.has(key)) transforms.set(key, { transform: key, from, to, pairs: [], changes: {} });
+        for (const a of fromMembers) {
+          for (const b of toMembers) {
+            if (a === b || seen.has(key + ' ' + a + ' ' + b)) continue;
+            seen.add(key + ' ' + a + ' ' + b);
+            transforms.get(key)!.pairs.push({ from: a, to: b, constant });
+          }
+        }
+      }
+    }
+  }
+
+  const result = [...transforms.values()].filter((t) => t.pairs.length >= MIN_PAIRS);
+  for (const transform of result) {
+    for (const [name, values] of Object.entries(properties)) {
+      const differences = transform.pairs.flatMap(({ from, to }) => {
+        const [a, b] = [values[from], values[to]];
+        return a === null || b === null ? [] : [b - a];
+      });
+      transform.changes[name] = summarizeChanges(differences);
+    }
+  }
+  return result.sort((a, b) => b.pairs.length - a.pairs.length || (a.transform < b.transform ? -1 : 1));
+}
+
+// Products of applying each transform to the query, keeping the transform
+// with the most pairs per product; the query itself is not suggested.
+export function suggest(rdkit: RDKitModule, query: string, transforms: Transform[]): Suggestion[] {
+  const self = canonical(rdkit, query);
+  const best = new Map<string, Suggestion>();
+  for (const { constant, variable } of fragment(rdkit, query) ?? []) {
+    for (const transform of transforms) {
+      if (transform.from !== variable) continue;
+      const smiles = join(rdkit, constant, transform.to);
+      if (!smiles || smiles === self || (best.get(smiles)?.pairCount ?? 0) >= transform.pairs.length) continue;
+      best.set(smiles, { smiles, transform: transform.transform, pairCount: transform.pairs.length, changes: transform.changes });
+    }
+  }
+  return [...best.values()]
+    .sort((a, b) => b.pairCount - a.pairCount || (a.smiles < b.smiles ? -1 : 1))
+    .slice(0, MAX_TRANSFORMS);
+}
+
+async function selfCheck(): Promise<void> {
+  const rdkit = await initRDKitModule();
+  const library = [
+    'NC(=O)Cc1ccc(Cl)cc1',
+    'NC(=O)Cc1ccc(cc1)C(F)(F)F',
+    'NC(=O)Cc1ccccc1',
+    'CNC(=O)Cc1ccc(Cl)cc1',
+    'CNC(=O)Cc1ccc(cc1)C(F)(F)F',
+    'CNC(=O)Cc1ccccc1',
+    'not a smiles',
+  ];
+  const pIC50 = [6.0, 7.0, 5.0, 6.5, 7.7, null, null];
+
+  const cuts = fragment(rdkit, library[0])!;
+  check(
+    cuts.some((cut) => cut.constant === 'NC(=O)Cc1ccc([*:1])cc1' && cut.variable === 'Cl[*:1]'),
+    'the aryl chloride bond should be cut',
+  );
+  check(fragment(rdkit, library[6]) === null, 'invalid SMILES should be skipped');
+
+  const transforms = matchedPairs(rdkit, library, { pIC50 });
+  const byKey = (key: string) => transforms.find((t) => t.transform === key);
+  const chlorine = byKey('Cl[*:1]>>FC(F)(F)[*:1]');
+  if (MIN_PAIRS <= 2) {
+    check(chlorine?.pairs.length === 2, 'Cl -> CF3 should be seen in both amide series');
+    const change = chlorine!.changes.pIC50!;
+    check(Math.abs(change.mean - 1.1) < 1e-9 && change.count === 2, 'the mean pIC50 change should be 1.1');
+    check(byKey('FC(F)(F)[*:1]>>Cl[*:1]')?.changes.pIC50?.mean === -change.mean, 'reverse transforms should negate');
+    if (INCLUDE_HYDROGEN) {
+      const methylation = byKey('[*:1][H]>>C[*:1]');
+      check(methylation?.pairs.length === 3, 'N-methylation should pair all three amides');
+      check(methylation?.changes.pIC50?.count === 2, 'unmeasured compounds should be left out of the statistics');
+    }
+
+    const suggestions = suggest(rdkit, 'CCOC(=O)Cc1ccc(Cl)cc1', transforms);
+    check(
+      suggestions.some((s) => s.smiles === 'CCOC(=O)Cc1ccc(C(F)(F)F)cc1'),
+      'the query should be offered the CF3 analogue',
+    );
+  }
+
+  for (const transform of transforms.slice(0, MAX_TRANSFORMS)) {
+    const change = transform.changes.pIC50;
+    console.log(
+      transform.transform + ': ' + transform.pairs.length + ' pair(s)' +
+        (change ? ', mean change ' + change.mean.toFixed(2) + ' +/- ' + change.std.toFixed(2) : ''),
+    );
+  }
+}
+
+selfCheck().then(
+  () => console.log('Self-check passed'),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
+`;
+
+const activityCliffs: CodeTemplate = (p) => `${header('Activity Cliff Detection Algorithm', p)}${fingerprintHelpers}
+const FINGERPRINT_TYPE: string = ${literal(p.fingerprintType)};
+const RADIUS = ${literal(p.radius ?? 2)};
+const BIT_LENGTH = ${literal(p.bitLength)};
+const USE_COUNTS: boolean = ${literal(p.useCounts ?? false)};
+const MAX_PATH_LENGTH = ${literal(p.maxPathLength ?? 7)};
+const MIN_SIMILARITY = ${literal(p.minSimilarity)};
+const MIN_ACTIVITY_DIFFERENCE = ${literal(p.minActivityDifference)};
+const MIN_SALI = ${literal(p.minSali)};
+const MAX_CLIFFS = ${literal(p.maxCliffs)};
+// Identical fingerprints would give an infinite SALI, so 1 - similarity is
+// floored at this value.
+const SALI_DISTANCE_FLOOR = 0.01;
+${fingerprintTypeHelpers}
+export interface ActivityCliff {
+  // Library indices, the less active compound first.
+  from: number;
+  to: number;
+  similarity: number;
+  activityDifference: number;
+  sali: number;
+}
+
+export interface CliffResult {
+  cliffCount: number;
+  // Highest SALI first, at most MAX_CLIFFS.
+  cliffs: ActivityCliff[];
+  // SALI network: compounds in the reported cliffs, joined by them.
+  network: { nodes: number[]; edges: { source: number; target: number; sali: number }[] };
+  // Measured compounds by increasing activity; sali rows and columns follow.
+  heatmap: { order: number[]; sali: number[][] };
+}
+
+// Structure-Activity Landscape Index (Guha and Van Drie, 2008).
+export function sali(activityDifference: number, similarity: number): number {
+  return Math.abs(activityDifference) / Math.max(1 - similarity, SALI_DISTANCE_FLOOR);
+}
+
+// activities are aligned with library; null marks an unmeasured compound.
+export function findActivityCliffs(rdkit: RDKitModule, library: string[], activities: (number | null)[]): CliffResult {
+  const measured: number[] = [];
+  const fingerprints: Fingerprint[] = [];
+  library.forEach((smiles, index) => {
+    if (activities[index] === null) return;
+    const fingerprint = generateFingerprint(rdkit, smiles);
+    if (!fingerprint) {
+      console.warn('Skipping invalid SMILES: ' + smiles);
+      return;
+    }
+    measured.push(index);
+    fingerprints.push(fingerprint);
+  });
+
+  const n = measured.length;
+  const similarity = fingerprints.map(() => new Array<number>(n).fill(1));
+  const cliffs: ActivityCliff[] = [];
+  for (let a = 0; a < n; a++) {
+    for (let b = a + 1; b < n; b++) {
+      const s = calculateSimilarity(fingerprints[a], fingerprints[b], 'tanimoto');
+      similarity[a][b] = similarity[b][a] = s;
+      const [i, j] = [measured[a], measured[b]];
+      const difference = (activities[j] as number) - (activities[i] as number);
+      const value = sali(difference, s);
+      if (s < MIN_SIMILARITY || Math.abs(difference) < MIN_ACTIVITY_DIFFERENCE || value < MIN_SALI) continue;
+      cliffs.push({
+        from: difference >= 0 ? i : j,
+        to: difference >= 0 ? j : i,
+        similarity: s,
+        activityDifference: Math.abs(difference),
+        sali: value,
+      });
+    }
+  }
+  cliffs.sort((x, y) => y.sali - x.sali || x.from - y.from || x.to - y.to);
+  const reported = cliffs.slice(0, MAX_CLIFFS);
+
+  const order = [...Array(n).keys()].sort(
+    (a, b) => (activities[measured[a]] as number) - (activities[measured[b]] as number) || a - b,
+  );
+  return {
+    cliffCount: cliffs.length,
+    cliffs: reported,
+    network: {
+      nodes: [...new Set(reported.flatMap((c) => [c.from, c.to]))].sort((a, b) => a - b),
+      edges: reported.map((c) => ({ source: c.from, target: c.to, sali: c.sali })),
+    },
+    heatmap: {
+      order: order.map((k) => measured[k]),
+      sali: order.map((a) =>
+        order.map((b) =>
+          a === b ? 0 : sali((activities[measured[a]] as number) - (activities[measured[b]] as number), similarity[a][b]),
+        ),
+      ),
+    },
+  };
+}
+
+async function selfCheck(): Promise<void> {
+  const rdkit = await initRDKitModule();
+  const library = [
+    'CC(=O)Nc1ccc(O)cc1', // paracetamol
+    'CC(=O)Nc1ccc(O)cc1', // duplicate, measured again
+    'CC(=O)Nc1ccc(OC)cc1', // methacetin
+    'CC(=O)Nc1ccc(OCC)cc1', // phenacetin
+    'CC(=O)Oc1ccccc1C(=O)O', // aspirin
+    'Cn1cnc2c1c(=O)n(C)c(=O)n2C', // caffeine
+    'CCCCCCCC', // unmeasured
+    'not a smiles',
+  ];
+  // The duplicate pair differs by more than MIN_ACTIVITY_DIFFERENCE
+  const activities = [5, 6.5 + MIN_ACTIVITY_DIFFERENCE, 5.5, 6, 4, 3, null, 7];
+
+  const result = findActivityCliffs(rdkit, library, activities);
+  check(result.heatmap.order.join() === '5,4,0,2,3,1', 'the heatmap should cover measured compounds by activity');
+  check(
+    result.heatmap.sali.every((row, a) => row[a] === 0 && row.every((v, b) => v === result.heatmap.sali[b][a])),
+    'the SALI heatmap should be symmetric with a zero diagonal',
+  );
+  check(
+    result.cliffs.every(
+      (c) =>
+        c.similarity >= MIN_SIMILARITY &&
+        c.activityDifference >= MIN_ACTIVITY_DIFFERENCE &&
+        c.sali >= MIN_SALI &&
+        activities[c.to]! - activities[c.from]! === c.activityDifference,
+    ),
+    'cliffs should meet every threshold and point to the more active compound',
+  );
+  check(
+    result.cliffs.every((c, k) => k === 0 || result.cliffs[k - 1].sali >= c.sali),
+    'cliffs should be sorted by SALI',
+  );
+  check(result.cliffs.length === Math.min(result.cliffCount, MAX_CLIFFS), 'at most MAX_CLIFFS cliffs should be reported');
+  check(
+    result.cliffs.every((c) => c.from !== 6 && c.to !== 6 && c.from !== 7 && c.to !== 7),
+    'unmeasured and invalid compounds should be skipped',
+  );
+  if (sali(1.5 + MIN_ACTIVITY_DIFFERENCE, 1) >= MIN_SALI) {
+    const [steepest] = result.cliffs;
+    check(
+      steepest.from === 0 && steepest.to === 1 && Math.abs(steepest.sali - (1.5 + MIN_ACTIVITY_DIFFERENCE) / SALI_DISTANCE_FLOOR) < 1e-6,
+      'identical structures with different activities should be the steepest cliff',
+    );
+  }
+
+  for (const c of result.cliffs) {
+    console.log(
+      library[c.from] + ' -> ' + library[c.to] + ': similarity ' + c.similarity.toFixed(2) + ', SALI ' + c.sali.toFixed(1),
+    );
+  }
+}
+
+selfCheck().then(
+  () => console.log('Self-check passed'),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
+`;
+
+const rGroupAnalysis: CodeTemplate = (p) => `${header('R-Group Decomposition and Free-Wilson Analysis', p)}
+const CORE_SMARTS = ${literal(p.coreSmarts)};
+// Decomposition columns, one per labelled attachment point ([*:1] is R1).
+const LABELS: string[] = ${literal(p.labels)};
+const RIDGE_ALPHA = ${literal(p.ridgeAlpha)};
+const MAX_PREDICTIONS = ${literal(p.maxPredictions)};
+
+type Mol = NonNullable<ReturnType<RDKitModule['get_mol']>>;
+
+const hydrogenGroup = (label: string) => '[H][*:' + label.slice(1) + ']';
+
+export interface Decomposition {
+  // Library index.
+  index: number;
+  core: string;
+  // One R group per label, such as 'Cl[*:1]'; hydrogen is '[H][*:1]'.
+  rgroups: string[];
+}
+
+// RDKit's R-group decomposition, with substituents allowed only at the
+// labelled attachment points. It settles symmetric cores by choosing the
+// most consistent labelling across the series.
+// labels name the attachment points in order, such as ['R1', 'R2'].
+export function decomposeRGroups(
+  rdkit: RDKitModule,
+  coreSmarts: string,
+  labels: string[],
+  library: string[],
+): { decompositions: Decomposition[]; unmatched: number[] } {
+  const core = rdkit.get_qmol(coreSmarts);
+  const rgd = core && rdkit.get_rgd(core, JSON.stringify({ onlyMatchAtRGroups: true }));
+  core?.delete();
+  if (!rgd) {
+    throw new Error('Invalid core SMARTS: ' + coreSmarts);
+  }
+  try {
+    const added: number[] = [];
+    const unmatched: number[] = [];
+    library.forEach((smiles, index) => {
+      const mol = rdkit.get_mol(smiles);
+      if (!mol || !mol.is_valid()) {
+        mol?.delete();
+        console.warn('Skipping invalid SMILES: ' + smiles);
+        return;
+      }
+      try {
+        (rgd.add(mol) >= 0 ? added : unmatched).push(index);
+      } finally {
+        mol.delete();
+      }
+    });
+    rgd.process();
+
+    const rows: Record<string, Mol>[] = rgd.get_rgroups_as_rows();
+    const decompositions = rows.map((row, k) => {
+      const decomposition = {
+        index: added[k],
+        core: row.Core.get_smiles(),
+        // RDKit drops a label that is hydrogen in every compound
+        rgroups: labels.map((label) => (row[label] ? row[label].get_smiles() : hydrogenGroup(label))),
+      };
+      Object.values(row).forEach((mol) => mol.delete());
+      return decomposition;
+    });
+    return { decompositions, unmatched };
+  } finally {
+    rgd.delete();
+  }
+}
+
+// Gauss-Jordan elimination with partial pivoting.
+function solve(A: number[][], b: number[]): number[] {
+  const n = b.length;
+  const M = A.map((row, i) => [...row, b[i]]);
+  for (let c = 0; c < n; c++) {
+    const pivot = M.reduce((best, row, r) => (r > c && Math.abs(row[c]) > Math.abs(M[best][c]) ? r : best), c);
+    [M[c], M[pivot]] = [M[pivot], M[c]];
+    for (let r = 0; r < n; r++) {
+      if (r === c) continue;
+      const factor = M[r][c] / M[c][c];
+      for (let k = c; k <= n; k++) M[r][k] -= factor * M[c][k];
+    }
+  }
+  return M.map((row, i) => row[n] / row[i]);
+}
+
+export interface FreeWilsonModel {
+  // Activity with the reference R group, the most common one, at every label.
+  intercept: number;
+  // Per attachment point, R group to its activity change against the
+  // reference.
+  contributions: Map<string, number>[];
+  fitted: number[];
+  r2: number;
+}
+
+// activity = intercept + one contribution per attachment point, fitted by
+// ridge regression on R-group indicator columns. The reference R groups get
+// no column, so the intercept and indicators are not redundant.
+export function fitFreeWilson(rgroups: string[][], activities: number[]): FreeWilsonModel {
+  const positions = [...rgroups[0].keys()];
+  const references = positions.map((k) => {
+    const tally = new Map<string, number>();
+    rgroups.forEach((row) => tally.set(row[k], (tally.get(row[k]) ?? 0) + 1));
+    return [...tally].sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1))[0][0];
+  });
+  const columns: string[] = [];
+  positions.forEach((k) => {
+    new Set(rgroups.map((row) => row[k])).forEach((rgroup) => {
+      if (rgroup !== references[k]) columns.push(k + '\\t' + rgroup);
+    });
+  });
+  const X = rgroups.map((row) => [1, ...columns.map((column) => (row.some((g, k) => column === k + '\\t' + g) ? 1 : 0))]);
+
+  // (X'X + alpha D) beta = X'y, with the intercept unpenalized; the tiny
+  // ridge keeps collinear columns solvable.
+  const p = columns.length + 1;
+  const A = Array.from({ length: p }, (_, i) =>
+    Array.from({ length: p }, (_, j) =>
+      X.reduce((sum, x) => sum + x[i] * x[j], i === j ? (i > 0 ? RIDGE_ALPHA : 0) + 1e-8 : 0),
+    ),
+  );
+  const beta = solve(
+    A,
+    Array.from({ length: p }, (_, j) => X.reduce((sum, x, i) => sum + x[j] * activities[i], 0)),
+  );
+
+  const fitted = X.map((x) => x.reduce((sum, v, j) => sum + v * beta[j], 0));
+  const mean = activities.reduce((sum, y) => sum + y, 0) / activities.length;
+  const ssTotal = activities.reduce((sum, y) => sum + (y - mean) ** 2, 0);
+  const ssResidual = activities.reduce((sum, y, i) => sum + (y - fitted[i]) ** 2, 0);
+  return {
+    intercept: beta[0],
+    contributions: positions.map(
+      (k) =>
+        new Map([
+          [references[k], 0],
+          ...columns.flatMap((column, j): [string, number][] =>
+            column.startsWith(k + '\\t') ? [[column.slice(column.indexOf('\\t') + 1), beta[j + 1]]] : [],
+          ),
+        ]),
+    ),
+    fitted,
+    r2: ssTotal === 0 ? 0 : 1 - ssResidual / ssTotal,
+  };
+}
+
+// Joins R groups onto a decomposed core at their matching attachment points.
+export function assembleCompound(rdkit: RDKitModule, core: string, rgroups: string[]): string | null {
+  const coreMol = rdkit.get_mol(core);
+  const groups = rdkit.get_mol(rgroups.join('.'));
+  const zipped = coreMol && groups ? rdkit.molzip(coreMol, groups, '{}') : null;
+  // Parsing again drops the hydrogen groups' explicit hydrogens
+  const mol = zipped && rdkit.get_mol(zipped.get_smiles());
+  const smiles = mol ? mol.get_smiles() : null;
+  [coreMol, groups, zipped, mol].forEach((m) => m?.delete());
+  return smiles;
+}
+
+export interface Prediction {
+  smiles: string | null;
+  rgroups: string[];
+  predicted: number;
+}
+
+// Best unmade combinations of the fitted R groups, found best-first: each
+// popped combination queues its neighbours with one attachment point moved
+// to the next-best R group there.
+export function predictUnmade(
+  rdkit: RDKitModule,
+  model: FreeWilsonModel,
+  core: string,
+  made: string[][],
+): Prediction[] {
+  const options = model.contributions.map((contributions) => [...contributions].sort((a, b) => b[1] - a[1]));
+  const madeKeys = new Set(made.map((rgroups) => rgroups.join('.')));
+  const score = (picks: number[]) => picks.reduce((sum, r, k) => sum + options[k][r][1], model.intercept);
+  const start = options.map(() => 0);
+  const frontier = [{ picks: start, predicted: score(start) }];
+  const queued = new Set([start.join()]);
+  const predictions: Prediction[] = [];
+  while (frontier.length > 0 && predictions.length < MAX_PREDICTIONS) {
+    const best = frontier.reduce((top, item, i) => (item.predicted > frontier[top].predicted ? i : top), 0);
+    const [{ picks, predicted }] = frontier.splice(best, 1);
+    const rgroups = picks.map((r, k) => options[k][r][0]);
+    if (!madeKeys.has(rgroups.join('.'))) {
+      predictions.push({ smiles: assembleCompound(rdkit, core, rgroups), rgroups, predicted });
+    }
+    picks.forEach((r, k) => {
+      const next = picks.map((value, j) => (j === k ? value + 1 : value));
+      if (next[k] >= options[k].length || queued.has(next.join())) return;
+      queued.add(next.join());
+      frontier.push({ picks: next, predicted: score(next) });
+    });
+  }
+  return predictions;
+}
+
+async function selfCheck(): Promise<void> {
+  const rdkit = await initRDKitModule();
+  // Additive toy series on a benzamide core: R1 = H, F or Cl; R2 = H, methyl
+  // or ethyl. The Cl / ethyl combination, the best one, is left unmade.
+  const library = [
+    'NC(=O)c1ccccc1',
+    'CNC(=O)c1ccccc1',
+    'CCNC(=O)c1ccccc1',
+    'NC(=O)c1ccc(F)cc1',
+    'CNC(=O)c1ccc(F)cc1',
+    'CCNC(=O)c1ccc(F)cc1',
+    'NC(=O)c1ccc(Cl)cc1',
+    'CNC(=O)c1ccc(Cl)cc1',
+    'CN(C)C(=O)c1ccc(Cl)cc1', // two substituents on one attachment point
+    'CCO', // no core
+    'not a smiles',
+  ];
+  const activities = [5, 5.3, 5.6, 5.5, 5.8, 6.1, 6, 6.3, 7, 4, 4];
+
+  const { decompositions, unmatched } = decomposeRGroups(rdkit, '[*:1]c1ccc(cc1)C(=O)N[*:2]', ['R1', 'R2'], library);
+  check(decompositions.length === 8, 'the eight amides with one substituent per label should decompose');
+  check(unmatched.join() === '8,9', 'the dimethylamide and the compound without the core should be unmatched');
+  check(
+    decompositions[7].rgroups.join() === 'Cl[*:1],C[*:2]' && decompositions[0].rgroups.join() === '[H][*:1],[H][*:2]',
+    'R groups should be written with their attachment points, hydrogen included',
+  );
+
+  const model = fitFreeWilson(
+    decompositions.map((d) => d.rgroups),
+    decompositions.map((d) => activities[d.index]),
+  );
+  check(model.r2 > 0.9, 'an additive series should fit well');
+  const r1 = model.contributions[0];
+  check(r1.get('Cl[*:1]')! > r1.get('F[*:1]')! && r1.get('F[*:1]')! > r1.get('[H][*:1]')!, 'contributions should rank Cl > F > H');
+
+  const predictions = predictUnmade(rdkit, model, decompositions[0].core, decompositions.map((d) => d.rgroups));
+  check(predictions.length === 1, 'only one combination should be unmade');
+  check(predictions[0].smiles === 'CCNC(=O)c1ccc(Cl)cc1', 'the unmade combination should be assembled on the core');
+  check(predictions[0].predicted > Math.max(...model.fitted), 'the best combination should be predicted above every made one');
+
+  const configured = decomposeRGroups(rdkit, CORE_SMARTS, LABELS, library);
+  console.log(CORE_SMARTS + ': ' + configured.decompositions.length + ' of ' + library.length + ' compounds decomposed');
+  for (const d of configured.decompositions) {
+    console.log(library[d.index] + ': ' + d.rgroups.map((rgroup, k) => LABELS[k] + ' ' + rgroup).join(', '));
+  }
+}
+
+selfCheck().then(
+  () => console.log('Self-check passed'),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
+`;
+
+// USR / USRCAT variant of molecular-similarity, selected by its method.
+const shapeSimilarity: CodeTemplate = (p) => `${header('Shape Similarity Search Algorithm', p)}${fingerprintHelpers}
+const SIMILARITY_THRESHOLD = ${literal(p.similarityThreshold)};
+const METHOD: string = ${literal(p.method)};
+const MAX_RESULTS = ${literal(p.maxResults)};
+const SHAPE_WEIGHT = ${literal(p.shapeWeight)};
+const FINGERPRINT_WEIGHT = ${literal(p.fingerprintWeight)};
+const FINGERPRINT_TYPE: string = ${literal(p.fingerprintType)};
+const RADIUS = ${literal(p.radius ?? 2)};
+const BIT_LENGTH = ${literal(p.bitLength)};
+// RDKit MinimalLib has no 3D embedder, so inputs are MOL blocks that already
+// carry 3D conformers (for example exported from a conformer generator).
+
+if (FINGERPRINT_WEIGHT > 0 && !/^ECFP/i.test(FINGERPRINT_TYPE)) {
+  console.warn('The 2D term uses ECFP bit vectors in this MinimalLib version');
+}
+
+type Vec3 = [number, number, number];
+
+// USRCAT atom types (Schreyer & Blundell 2012): hydrophobic, aromatic,
+// acceptor and donor, weighted against the all-atom moments.
+const USRCAT_SMARTS = [
+  '[#6+0!$(*~[#7,#8,F]),SH0+0v2,s+0,S^3,Cl+0,Br+0,I+0]',
+  '[a]',
+  '[$([O,S;H1;v2]-[!$(*=[O,N,P,S])]),$([O,S;H0;v2]),$([O,S;-]),$([N;v3;!$(N-*=!@[O,N,P,S])]),$([nH0,o,s;+0]),$([F;!$(F-*~[!#6])])]',
+  '[$([N;!H0;v3]),$([N;!H0;+1;v4]),$([O,S;H1;+0]),$([n;H1;+0])]',
+];
+const USRCAT_WEIGHTS = [1, 0.25, 0.25, 0.25, 0.25];
+
+const distance = (a: Vec3, b: Vec3) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+function atomsOf(molblock: string): { element: string; position: Vec3 }[] {
+  const lines = molblock.split('\\n');
+  const atomCount = Number(lines[3].slice(0, 3));
+  return lines.slice(4, 4 + atomCount).map((line) => ({
+    element: line.slice(31, 34).trim(),
+    position: [Number(line.slice(0, 10)), Number(line.slice(10, 20)), Number(line.slice(20, 30))],
+  }));
+}
+
+// Mean, standard deviation and cube root of the third central moment.
+function moments(distances: number[]): number[] {
+  if (distances.length === 0) return [0, 0, 0];
+  const mean = distances.reduce((sum, d) => sum + d, 0) / distances.length;
+  const variance = distances.reduce((sum, d) => sum + (d - mean) ** 2, 0) / distances.length;
+  const skew = distances.reduce((sum, d) => sum + (d - mean) ** 3, 0) / distances.length;
+  return [mean, Math.sqrt(variance), Math.cbrt(skew)];
+}
+
+// 12 moments per atom set: distances to the centroid, the atom closest to
+// it, the atom farthest from it and the atom farthest from that one.
+export function shapeDescriptor(rdkit: RDKitModule, molblock: string): number[] {
+  const atoms = atomsOf(molblock);
+  const heavy = atoms.map((_, i) => i).filter((i) => atoms[i].element !== 'H');
+  if (heavy.length === 0) throw new Error('MOL block has no heavy atoms');
+  const points = heavy.map((i) => atoms[i].position);
+  const ctd = [0, 1, 2].map((k) => points.reduce((sum, point) => sum + point[k], 0) / points.length) as Vec3;
+  const closest = (from: Vec3) => points.reduce((best, p) => (distance(p, from) < distance(best, from) ? p : best));
+  const farthest = (from: Vec3) => points.reduce((best, p) => (distance(p, from) > distance(best, from) ? p : best));
+  const fct = farthest(ctd);
+  const references = [ctd, closest(ctd), fct, farthest(fct)];
+
+  const sets = [heavy];
+  if (METHOD === 'usrcat') {
+    const mol = rdkit.get_mol(molblock, JSON.stringify({ removeHs: false }));
+    if (!mol || !mol.is_valid()) {
+      mol?.delete();
+      throw new Error('Invalid MOL block');
+    }
+    try {
+      for (const smarts of USRCAT_SMARTS) {
+        const query = rdkit.get_qmol(smarts);
+        if (!query) throw new Error('Invalid USRCAT SMARTS: ' + smarts);
+        // MinimalLib returns "{}" rather than an empty list when nothing matches
+        const parsed = JSON.parse(mol.get_substruct_matches(query)) as { atoms: number[] }[] | object;
+        query.delete();
+        const matched = new Set((Array.isArray(parsed) ? parsed : []).map((match) => match.atoms[0]));
+        sets.push(heavy.filter((i) => matched.has(i)));
+      }
+    } finally {
+      mol.delete();
+    }
+  }
+  return sets.flatMap((set) =>
+    references.flatMap((reference) => moments(set.map((i) => distance(atoms[i].position, reference)))),
+  );
+}
+
+export function shapeScore(d1: number[], d2: number[]): number {
+  const weights = METHOD === 'usrcat' ? USRCAT_WEIGHTS : [1];
+  let score = 0;
+  weights.forEach((weight, k) => {
+    let manhattan = 0;
+    for (let i = 12 * k; i < 12 * (k + 1); i++) manhattan += Math.abs(d1[i] - d2[i]);
+    score += (weight * manhattan) / 12;
+  });
+  return 1 / (1 + score);
+}
+
+function smilesOf(rdkit: RDKitModule, molblock: string): string {
+  const mol = rdkit.get_mol(molblock);
+  if (!mol || !mol.is_valid()) {
+    mol?.delete();
+    throw new Error('Invalid MOL block');
+  }
+  try {
+    return mol.get_smiles();
+  } finally {
+    mol.delete();
+  }
+}
+
+export interface ShapeHit {
+  name: string;
+  conformer: number;
+  similarity: number;
+  shapeSimilarity: number;
+  fingerprintSimilarity: number | null;
+}
+
+// Scores each compound by its best conformer pair with the query, blended
+// with the 2D fingerprint Tanimoto by SHAPE_WEIGHT and FINGERPRINT_WEIGHT.
+export function shapeSimilaritySearch(
+  rdkit: RDKitModule,
+  queryConformers: string[],
+  database: { name: string; conformers: string[] }[],
+  threshold = SIMILARITY_THRESHOLD,
+): ShapeHit[] {
+  const queryDescriptors = queryConformers.map((molblock) => shapeDescriptor(rdkit, molblock));
+  const queryFingerprint =
+    FINGERPRINT_WEIGHT > 0 ? morganFingerprint(rdkit, smilesOf(rdkit, queryConformers[0]), RADIUS, BIT_LENGTH) : null;
+
+  const results: ShapeHit[] = [];
+  for (const compound of database) {
+    let best = { conformer: 0, shapeSimilarity: -1 };
+    compound.conformers.forEach((molblock, conformer) => {
+      const descriptor = shapeDescriptor(rdkit, molblock);
+      for (const queryDescriptor of queryDescriptors) {
+        const score = shapeScore(queryDescriptor, descriptor);
+        if (score > best.shapeSimilarity) best = { conformer, shapeSimilarity: score };
+      }
+    });
+    let fingerprintSimilarity: number | null = null;
+    if (queryFingerprint) {
+      const fingerprint = morganFingerprint(rdkit, smilesOf(rdkit, compound.conformers[0]), RADIUS, BIT_LENGTH);
+      fingerprintSimilarity = fingerprint ? calculateSimilarity(queryFingerprint, fingerprint, 'tanimoto') : 0;
+    }
+    const similarity =
+      (SHAPE_WEIGHT * best.shapeSimilarity + FINGERPRINT_WEIGHT * (fingerprintSimilarity ?? 0)) /
+      (SHAPE_WEIGHT + FINGERPRINT_WEIGHT);
+    if (similarity >= threshold) {
+      results.push({ name: compound.name, ...best, similarity, fingerprintSimilarity });
+    }
+  }
+
+  results.sort((a, b) => b.similarity - a.similarity);
+  return results.slice(0, MAX_RESULTS);
+}
+
+async function selfCheck(): Promise<void> {
+  const rdkit = await initRDKitModule();
+  // 2D depictions stand in for 3D conformers in this check.
+  const depict = (smiles: string) => {
+    const mol = rdkit.get_mol(smiles)!;
+    try {
+      mol.set_new_coords();
+      return mol.get_molblock();
+    } finally {
+      mol.delete();
+    }
+  };
+  const aspirin = depict('CC(=O)Oc1ccccc1C(=O)O');
+  const database = [
+    { name: 'aspirin', conformers: [aspirin] },
+    { name: 'salicylic acid', conformers: [depict('OC(=O)c1ccccc1O')] },
+    { name: 'caffeine', conformers: [depict('Cn1cnc2c1c(=O)n(C)c(=O)n2C')] },
+    { name: 'hexadecane', conformers: [depict('CCCCCCCCCCCCCCCC')] },
+  ];
+
+  check(shapeDescriptor(rdkit, aspirin).length === (METHOD === 'usrcat' ? 60 : 12), 'descriptor length');
+  const hits = shapeSimilaritySearch(rdkit, [aspirin], database, 0);
+  check(hits.length === database.length, 'every compound should be scored');
+  check(hits[0].name === 'aspirin' && Math.abs(hits[0].similarity - 1) < 1e-9, 'query should match itself with similarity 1');
+  check(hits.every((hit) => hit.similarity > 0 && hit.similarity <= 1), 'similarities should be in (0, 1]');
+  check(hits.every((hit, i) => i === 0 || hits[i - 1].similarity >= hit.similarity), 'hits should be sorted');
+  check(hits[hits.length - 1].name === 'hexadecane', 'the linear chain should be the worst shape match');
+
+  for (const hit of hits) {
+    console.log(hit.similarity.toFixed(3) + '  ' + hit.name);
+  }
+}
+
+selfCheck().then(
+  () => console.log('Self-check passed'),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  },
+);
+`;
+
+export const typescriptTemplates: Record<AlgorithmType, CodeTemplate> = {
+  'molecular-similarity': (p) => (isShapeMethod(String(p.method)) ? shapeSimilarity(p) : molecularSimilarity(p)),
+  'qsar-model': qsarModel,
+  'compound-screening': compoundScreening,
+  'structure-optimization': structureOptimization,
+  'pharmacophore': pharmacophore,
+  'virtual-screening': virtualScreening,
+  'substructure-search': substructureSearch,
+  'clustering-diversity': clusteringDiversity,
+  'scaffold-analysis': scaffoldAnalysis,
+  'matched-molecular-pairs': matchedMolecularPairs,
+  'activity-cliffs': activityCliffs,
+  'r-group-analysis': rGroupAnalysis,
+};
@@ -0,0 +1,203 @@
+import { morganFingerprint } from '@/lib/chem/fingerprints';
+import type { Molecule } from '@/lib/chem/molecule';
+
+export const domainMethods = ['bounding-box', 'leverage', 'knn-tanimoto', 'density'] as const;
+
+export type DomainMethod = (typeof domainMethods)[number];
+
+export class DomainOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DomainOptionsError';
+  }
+}
+
+// Fitted domain of a training set. Descriptor-based methods work on the
+// model's normalized descriptor rows; knn-tanimoto on ECFP4 on-bits.
+export type ApplicabilityDomain =
+  | { method: 'bounding-box'; min: number[]; max: number[] }
+  // Inverse of X'X for the design matrix with an intercept column.
+  | { method: 'leverage'; inverse: number[][]; threshold: number }
+  | { method: 'knn-tanimoto'; k: number; fingerprints: number[][]; threshold: number }
+  | { method: 'density'; bandwidth: number; points: number[][]; threshold: number };
+
+export interface DomainSample {
+  x: number[];
+  fingerprint: number[];
+}
+
+export interface DomainAssessment {
+  inDomain: boolean;
+  // Method-specific, larger is further from the training set: standardized
+  // excursion outside the box, leverage h, mean Tanimoto distance to the k
+  // nearest neighbours, or negative log kernel density.
+  distance: number;
+}
+
+const KNN_NEIGHBOURS = 5;
+// Tropsha's D = mean + Z * std cut-off for kNN distances.
+const KNN_Z = 0.5;
+// Share of training compounds the density cut-off keeps in domain.
+const DENSITY_COVERAGE = 0.95;
+
+export function isDomainMethod(method: string): method is DomainMethod {
+  return (domainMethods as readonly string[]).includes(method);
+}
+
+export function resolveDomainMethod(method: unknown = 'leverage'): DomainMethod {
+  if (typeof method !== 'string' || !isDomainMethod(method)) {
+    throw new DomainOptionsError(`Invalid applicabilityDomain. Expected one of: ${domainMethods.join(', ')}`);
+  }
+  return method;
+}
+
+// ECFP4 (2048 bits) as sorted on-bit indices, which keeps stored training
+// sets small.
+export function domainFingerprint(mol: Molecule): number[] {
+  const bits: number[] = [];
+  morganFingerprint(mol, { radius: 2, bitLength: 2048 }).forEach((v, i) => {
+    if (v) bits.push(i);
+  });
+  return bits;
+}
+
+function tanimotoDistance(a: number[], b: number[]): number {
+  let common = 0;
+  for (let i = 0, j = 0; i < a.length && j < b.length; ) {
+    if (a[i] === b[j]) {
+      common++;
+      i++;
+      j++;
+    } else if (a[i] < b[j]) i++;
+    else j++;
+  }
+  const union = a.length + b.length - common;
+  return union === 0 ? 0 : 1 - common / union;
+}
+
+function meanNearestDistance(fingerprint: number[], training: number[][], k: number, skip = -1): number {
+  const distances = training
+    .filter((_, i) => i !== skip)
+    .map((other) => tanimotoDistance(fingerprint, other))
+    .sort((a, b) => a - b)
+    .slice(0, k);
+  return distances.reduce((sum, d) => sum + d, 0) / Math.max(distances.length, 1);
+}
+
+// Gauss-Jordan inverse with partial pivoting.
+export function invert(matrix: number[][]): number[][] {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const p = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= p;
+    for (let r = 0; r < n; r++) {
+      if (r === col || a[r][col] === 0) continue;
+      const f = a[r][col];
+      for (let j = 0; j < 2 * n; j++) a[r][j] -= f * a[col][j];
+    }
+  }
+  return a.map((row) => row.slice(n));
+}
+
+function leverage(inverse: number[][], x: number[]): number {
+  const z = [1, ...x];
+  return z.reduce((sum, zi, i) => sum + zi * z.reduce((inner, zj, j) => inner + inverse[i][j] * zj, 0), 0);
+}
+
+// Negative log of an (unnormalized) Gaussian kernel density, via log-sum-exp.
+function negativeLogDensity(x: number[], points: number[][], bandwidth: number, skip = -1): number {
+  const exponents = points
+    .filter((_, i) => i !== skip)
+    .map((point) => -point.reduce((sum, v, j) => sum + (v - x[j]) ** 2, 0) / (2 * bandwidth * bandwidth));
+  const top = Math.max(...exponents);
+  const sum = exponents.reduce((acc, e) => acc + Math.exp(e - top), 0);
+  return -(top + Math.log(sum / exponents.length));
+}
+
+export function fitDomain(method: DomainMethod, samples: DomainSample[]): ApplicabilityDomain {
+  const n = samples.length;
+  const X = samples.map((s) => s.x);
+  const p = X[0]?.length ?? 0;
+  switch (method) {
+    case 'bounding-box':
+      return {
+        method,
+        min: X[0].map((_, j) => Math.min(...X.map((row) => row[j]))),
+        max: X[0].map((_, j) => Math.max(...X.map((row) => row[j]))),
+      };
+    case 'leverage': {
+      // A tiny ridge keeps X'X invertible when descriptors are collinear.
+      const xtx = Array.from({ length: p + 1 }, (_, i) =>
+        Array.from({ length: p + 1 }, (_, j) =>
+          X.reduce((sum, row) => sum + (i ? row[i - 1] : 1) * (j ? row[j - 1] : 1), i === j ? 1e-8 : 0),
+        ),
+      );
+      return { method, inverse: invert(xtx), threshold: (3 * (p + 1)) / n };
+    }
+    case 'knn-tanimoto': {
+      const fingerprints = samples.map((s) => s.fingerprint);
+      const k = Math.max(1, Math.min(KNN_NEIGHBOURS, n - 1));
+      const distances = fingerprints.map((fp, i) => meanNearestDistance(fp, fingerprints, k, i));
+      const mean = distances.reduce((sum, d) => sum + d, 0) / n;
+      const std = Math.sqrt(distances.reduce((sum, d) => sum + (d - mean) ** 2, 0) / n);
+      return { method, k, fingerprints, threshold: mean + KNN_Z * std };
+    }
+    case 'density': {
+      // Scott's rule on unit-variance descriptors.
+      const bandwidth = n ** (-1 / (p + 4));
+      const distances = X.map((x, i) => negativeLogDensity(x, X, bandwidth, i)).sort((a, b) => a - b);
+      const threshold = distances[Math.min(n - 1, Math.ceil(DENSITY_COVERAGE * n) - 1)];
+      return { method, bandwidth, points: X, threshold };
+    }
+  }
+}
+
+export function assessDomain(domain: ApplicabilityDomain, sample: DomainSample): DomainAssessment {
+  switch (domain.method) {
+    case 'bounding-box': {
+      const distance = Math.max(
+        0,
+        ...sample.x.map((v, j) => Math.max(domain.min[j] - v, v - domain.max[j])),
+      );
+      return { inDomain: distance === 0, distance };
+    }
+    case 'leverage': {
+      const distance = leverage(domain.inverse, sample.x);
+      return { inDomain: distance <= domain.threshold, distance };
+    }
+    case 'knn-tanimoto': {
+      const distance = meanNearestDistance(sample.fingerprint, domain.fingerprints, domain.k);
+      return { inDomain: distance <= domain.threshold, distance };
+    }
+    case 'density': {
+      const distance = negativeLogDensity(sample.x, domain.points, domain.bandwidth);
+      return { inDomain: distance <= domain.threshold, distance };
+    }
+  }
+}
+
+export interface WilliamsPoint {
+  leverage: number;
+  standardizedResidual: number;
+}
+
+// Williams plot coordinates: leverage against residual in units of the
+// residual standard deviation. Points beyond the leverage threshold are
+// structural outliers; beyond +/-3 residual units, response outliers.
+export function williamsPlot(
+  domain: Extract<ApplicabilityDomain, { method: 'leverage' }>,
+  samples: DomainSample[],
+  residuals: number[],
+): WilliamsPoint[] {
+  const sd = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / Math.max(residuals.length, 1)) || 1;
+  return samples.map((sample, i) => ({
+    leverage: leverage(domain.inverse, sample.x),
+    standardizedResidual: residuals[i] / sd,
+  }));
+}
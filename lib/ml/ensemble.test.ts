@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EnsembleOptionsError,
+  resolveBatchSize,
+  resolveConfidenceLevel,
+  resolveEnsembleMode,
+  resolveModelEnsemble,
+} from './ensemble';
+
+describe('ensemble options', () => {
+  it('defaults to fixed weights and accepts stacking', () => {
+    expect(resolveEnsembleMode()).toBe('fixed');
+    expect(resolveEnsembleMode('stacking')).toBe('stacking');
+    expect(() => resolveEnsembleMode('boosting')).toThrow(EnsembleOptionsError);
+  });
+
+  it('accepts confidence levels strictly between 0 and 1', () => {
+    expect(resolveConfidenceLevel(0.95)).toBe(0.95);
+    for (const level of [0, 1, -0.1, '0.9', null]) {
+      expect(() => resolveConfidenceLevel(level)).toThrow(EnsembleOptionsError);
+    }
+  });
+
+  it('keeps the ensemble members in order without duplicates', () => {
+    expect(resolveModelEnsemble()).toEqual(['CNN', 'GraphNN', 'QSAR']);
+    expect(resolveModelEnsemble(['QSAR', 'GraphNN', 'QSAR'])).toEqual(['QSAR', 'GraphNN']);
+    for (const models of [[], ['GCN'], 'GraphNN']) {
+      expect(() => resolveModelEnsemble(models)).toThrow(EnsembleOptionsError);
+    }
+  });
+
+  it('accepts positive integer batch sizes', () => {
+    expect(resolveBatchSize()).toBe(1000);
+    expect(resolveBatchSize(32)).toBe(32);
+    for (const batchSize of [0, 2.5, 100001, '32']) {
+      expect(() => resolveBatchSize(batchSize)).toThrow(EnsembleOptionsError);
+    }
+  });
+});
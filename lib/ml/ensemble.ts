@@ -0,0 +1,77 @@
+export const ensembleModes = ['fixed', 'stacking'] as const;
+
+export type EnsembleMode = (typeof ensembleModes)[number];
+
+// Members available to the virtual-screening ensemble.
+export const ensembleModels = ['GraphNN', 'CNN', 'QSAR'] as const;
+
+export type EnsembleModel = (typeof ensembleModels)[number];
+
+export class EnsembleOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EnsembleOptionsError';
+  }
+}
+
+// Stacking-mode defaults: folds for the out-of-fold predictions the
+// meta-model learns from, and the share of training compounds held back to
+// calibrate the conformal predictor. Hits must reach HIT_CUTOFF on the
+// activity scale where 0 and 1 are the weakest and strongest training
+// compounds.
+export const STACKING_FOLDS = 5;
+export const CALIBRATION_FRACTION = 0.2;
+export const HIT_CUTOFF = 0.5;
+
+// GraphNN architecture: GIN layers, hidden width and training epochs.
+export const GNN_LAYERS = 3;
+export const GNN_HIDDEN_SIZE = 32;
+export const GNN_EPOCHS = 200;
+
+const MAX_BATCH_SIZE = 100000;
+
+export function isEnsembleMode(mode: string): mode is EnsembleMode {
+  return (ensembleModes as readonly string[]).includes(mode);
+}
+
+export function resolveEnsembleMode(mode: unknown = 'fixed'): EnsembleMode {
+  if (typeof mode !== 'string' || !isEnsembleMode(mode)) {
+    throw new EnsembleOptionsError(`Invalid ensembleMode. Expected one of: ${ensembleModes.join(', ')}`);
+  }
+  return mode;
+}
+
+export function isEnsembleModel(model: string): model is EnsembleModel {
+  return (ensembleModels as readonly string[]).includes(model);
+}
+
+// A non-empty list of distinct members, in the order given.
+export function resolveModelEnsemble(models: unknown = ['CNN', 'GraphNN', 'QSAR']): EnsembleModel[] {
+  if (
+    !Array.isArray(models) ||
+    models.length === 0 ||
+    !models.every((model) => typeof model === 'string' && isEnsembleModel(model))
+  ) {
+    throw new EnsembleOptionsError(`Invalid modelEnsemble. Expected a non-empty subset of: ${ensembleModels.join(', ')}`);
+  }
+  return [...new Set(models as EnsembleModel[])];
+}
+
+// Compounds per screening batch, and per mini-batch when training the
+// graph network.
+export function resolveBatchSize(batchSize: unknown = 1000): number {
+  if (typeof batchSize !== 'number' || !Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_BATCH_SIZE) {
+    throw new EnsembleOptionsError(`batchSize must be an integer between 1 and ${MAX_BATCH_SIZE}`);
+  }
+  return batchSize;
+}
+
+// With conformal prediction the confidence threshold is a confidence level:
+// accepted hits are wrong at a rate of at most 1 - level, so only levels
+// strictly between 0 and 1 are meaningful.
+export function resolveConfidenceLevel(level: unknown): number {
+  if (typeof level !== 'number' || !(level > 0 && level < 1)) {
+    throw new EnsembleOptionsError('threshold must be a confidence level between 0 and 1 (exclusive) in stacking mode');
+  }
+  return level;
+}
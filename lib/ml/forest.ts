@@ -0,0 +1,230 @@
+import { createRandom, shuffle } from './random';
+
+export type Task = 'regression' | 'classification';
+
+// A fitted tree as parallel arrays indexed by node, which keeps the JSON
+// form compact. Node 0 is the root; feature -1 marks a leaf.
+export interface DecisionTree {
+  feature: number[];
+  threshold: number[];
+  left: number[];
+  right: number[];
+  // Leaf output: [mean target] for regression, class probabilities otherwise.
+  value: number[][];
+}
+
+export interface RandomForest {
+  task: Task;
+  // Number of classes (classification) or 1 (regression).
+  outputs: number;
+  trees: DecisionTree[];
+  // Mean decrease in impurity per feature, summing to 1.
+  importances: number[];
+}
+
+export interface ForestOptions {
+  nEstimators?: number;
+  maxDepth?: number;
+  minSamplesSplit?: number;
+  // Features tried per split; defaults to all for regression and sqrt(m)
+  // for classification.
+  maxFeatures?: number;
+  // Classification only; defaults to the largest class index plus one.
+  classCount?: number;
+  seed?: number;
+}
+
+interface Split {
+  gain: number;
+  feature: number;
+  threshold: number;
+}
+
+// Node impurity times node size: squared error for regression, Gini for
+// classification. Both are additive over children, so gain is parent minus
+// the two child terms.
+function weightedImpurity(task: Task, y: number[], rows: number[], outputs: number): number {
+  if (rows.length === 0) return 0;
+  if (task === 'regression') {
+    let sum = 0;
+    let sumSq = 0;
+    for (const r of rows) {
+      sum += y[r];
+      sumSq += y[r] * y[r];
+    }
+    return sumSq - (sum * sum) / rows.length;
+  }
+  const counts = new Array<number>(outputs).fill(0);
+  for (const r of rows) counts[y[r]]++;
+  return rows.length - counts.reduce((acc, c) => acc + c * c, 0) / rows.length;
+}
+
+function leafValue(task: Task, y: number[], rows: number[], outputs: number): number[] {
+  if (task === 'regression') {
+    return [rows.reduce((sum, r) => sum + y[r], 0) / rows.length];
+  }
+  const counts = new Array<number>(outputs).fill(0);
+  for (const r of rows) counts[y[r]]++;
+  return counts.map((c) => c / rows.length);
+}
+
+// Best threshold on one feature from a single sorted sweep with running sums.
+function bestSplitOn(
+  task: Task,
+  X: number[][],
+  y: number[],
+  rows: number[],
+  feature: number,
+  outputs: number,
+  parent: number,
+): Split | null {
+  const sorted = [...rows].sort((a, b) => X[a][feature] - X[b][feature]);
+  const n = sorted.length;
+  let best: Split | null = null;
+
+  if (task === 'regression') {
+    let totalSum = 0;
+    let totalSq = 0;
+    for (const r of sorted) {
+      totalSum += y[r];
+      totalSq += y[r] * y[r];
+    }
+    let leftSum = 0;
+    let leftSq = 0;
+    for (let i = 1; i < n; i++) {
+      const v = y[sorted[i - 1]];
+      leftSum += v;
+      leftSq += v * v;
+      const lo = X[sorted[i - 1]][feature];
+      const hi = X[sorted[i]][feature];
+      if (lo === hi) continue;
+      const rightSum = totalSum - leftSum;
+      const impurity = leftSq - (leftSum * leftSum) / i + (totalSq - leftSq) - (rightSum * rightSum) / (n - i);
+      const gain = parent - impurity;
+      if (!best || gain > best.gain) best = { gain, feature, threshold: (lo + hi) / 2 };
+    }
+    return best;
+  }
+
+  const total = new Array<number>(outputs).fill(0);
+  for (const r of sorted) total[y[r]]++;
+  const left = new Array<number>(outputs).fill(0);
+  for (let i = 1; i < n; i++) {
+    left[y[sorted[i - 1]]]++;
+    const lo = X[sorted[i - 1]][feature];
+    const hi = X[sorted[i]][feature];
+    if (lo === hi) continue;
+    let leftSq = 0;
+    let rightSq = 0;
+    for (let c = 0; c < outputs; c++) {
+      leftSq += left[c] * left[c];
+      rightSq += (total[c] - left[c]) ** 2;
+    }
+    const impurity = i - leftSq / i + (n - i) - rightSq / (n - i);
+    const gain = parent - impurity;
+    if (!best || gain > best.gain) best = { gain, feature, threshold: (lo + hi) / 2 };
+  }
+  return best;
+}
+
+function fitTree(
+  task: Task,
+  X: number[][],
+  y: number[],
+  rows: number[],
+  outputs: number,
+  options: Required<ForestOptions>,
+  random: () => number,
+  importances: number[],
+): DecisionTree {
+  const tree: DecisionTree = { feature: [], threshold: [], left: [], right: [], value: [] };
+  const features = X[0].map((_, j) => j);
+
+  const grow = (nodeRows: number[], depth: number): number => {
+    const node = tree.feature.length;
+    tree.feature.push(-1);
+    tree.threshold.push(0);
+    tree.left.push(-1);
+    tree.right.push(-1);
+    tree.value.push(leafValue(task, y, nodeRows, outputs));
+
+    const parent = weightedImpurity(task, y, nodeRows, outputs);
+    if (depth >= options.maxDepth || nodeRows.length < options.minSamplesSplit || parent <= 1e-12) {
+      return node;
+    }
+
+    let best: Split | null = null;
+    for (const feature of shuffle(features, random).slice(0, options.maxFeatures)) {
+      const split = bestSplitOn(task, X, y, nodeRows, feature, outputs, parent);
+      if (split && split.gain > 1e-12 && (!best || split.gain > best.gain)) best = split;
+    }
+    if (!best) return node;
+
+    importances[best.feature] += best.gain;
+    tree.feature[node] = best.feature;
+    tree.threshold[node] = best.threshold;
+    const split = best;
+    tree.left[node] = grow(nodeRows.filter((r) => X[r][split.feature] <= split.threshold), depth + 1);
+    tree.right[node] = grow(nodeRows.filter((r) => X[r][split.feature] > split.threshold), depth + 1);
+    return node;
+  };
+
+  grow(rows, 0);
+  return tree;
+}
+
+// Bootstrap-aggregated CART trees. Classification targets are class
+// indices 0..outputs-1.
+export function fitForest(task: Task, X: number[][], y: number[], options: ForestOptions = {}): RandomForest {
+  const m = X[0]?.length ?? 0;
+  const outputs = task === 'classification' ? (options.classCount ?? Math.max(...y) + 1) : 1;
+  const resolved: Required<ForestOptions> = {
+    nEstimators: options.nEstimators ?? 100,
+    maxDepth: options.maxDepth ?? 10,
+    minSamplesSplit: options.minSamplesSplit ?? 5,
+    maxFeatures: options.maxFeatures ?? (task === 'classification' ? Math.max(1, Math.round(Math.sqrt(m))) : m),
+    classCount: outputs,
+    seed: options.seed ?? 42,
+  };
+  const random = createRandom(resolved.seed);
+  const importances = new Array<number>(m).fill(0);
+  const trees: DecisionTree[] = [];
+  for (let t = 0; t < resolved.nEstimators; t++) {
+    const bootstrap = X.map(() => Math.floor(random() * X.length));
+    trees.push(fitTree(task, X, y, bootstrap, outputs, resolved, random, importances));
+  }
+  const total = importances.reduce((sum, v) => sum + v, 0) || 1;
+  return { task, outputs, trees, importances: importances.map((v) => v / total) };
+}
+
+export function predictTree(tree: DecisionTree, x: number[]): number[] {
+  let node = 0;
+  while (tree.feature[node] >= 0) {
+    node = x[tree.feature[node]] <= tree.threshold[node] ? tree.left[node] : tree.right[node];
+  }
+  return tree.value[node];
+}
+
+export interface ForestPrediction {
+  // Mean prediction (regression) or index of the most probable class.
+  value: number;
+  // Averaged class probabilities; empty for regression.
+  probabilities: number[];
+  // Standard deviation of the tree predictions (regression) or one minus
+  // the winning class probability (classification).
+  spread: number;
+}
+
+export function predictForest(forest: RandomForest, x: number[]): ForestPrediction {
+  const votes = forest.trees.map((tree) => predictTree(tree, x));
+  if (forest.task === 'regression') {
+    const values = votes.map((v) => v[0]);
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    return { value: mean, probabilities: [], spread: Math.sqrt(variance) };
+  }
+  const probabilities = new Array<number>(forest.outputs).fill(0);
+  for (const vote of votes) vote.forEach((p, c) => (probabilities[c] += p / votes.length));
+  const value = probabilities.indexOf(Math.max(...probabilities));
+  return { value, probabilities, spread: 1 - probabilities[value] };
+}
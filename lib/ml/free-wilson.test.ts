@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { fitFreeWilson, FreeWilsonOptionsError, predictCombinations, resolveFreeWilsonParameters } from './free-wilson';
+
+// Exactly additive: Cl/O is 5, F costs 0.5, H costs 1 and N adds 1. H/N is
+// not made.
+const made = [
+  ['Cl', 'O'],
+  ['F', 'O'],
+  ['Cl', 'N'],
+  ['F', 'N'],
+  ['H', 'O'],
+];
+const activities = [5, 4.5, 6, 5.5, 4];
+
+const leastSquares = resolveFreeWilsonParameters({ ridgeAlpha: 0 });
+
+describe('fitFreeWilson', () => {
+  it('recovers additive contributions against the most common substituent', () => {
+    const model = fitFreeWilson(made, activities, leastSquares);
+    expect(model.intercept).toBeCloseTo(5, 6);
+    const contributions = model.contributions.map((list) => list.map(({ rgroup, count, contribution, reference }) => [rgroup, count, Math.round(contribution * 1e6) / 1e6, reference]));
+    expect(contributions).toEqual([
+      [
+        ['Cl', 2, 0, true],
+        ['F', 2, -0.5, false],
+        ['H', 1, -1, false],
+      ],
+      [
+        ['N', 2, 1, false],
+        ['O', 3, 0, true],
+      ],
+    ]);
+    expect(model.training.r2).toBeCloseTo(1, 6);
+  });
+
+  it('leaves out leave-one-out metrics when a substituent is seen once', () => {
+    expect(fitFreeWilson(made, activities, leastSquares).leaveOneOut).toBeNull();
+    const repeated = fitFreeWilson([...made.slice(0, 4), ['Cl', 'O'], ['F', 'N']], [5, 4.5, 6, 5.5, 5.2, 5.3], leastSquares);
+    expect(repeated.leaveOneOut).not.toBeNull();
+  });
+
+  it('shrinks contributions toward the reference with a ridge penalty', () => {
+    const ridge = fitFreeWilson(made, activities, resolveFreeWilsonParameters({ ridgeAlpha: 1 }));
+    const h = ridge.contributions[0].find((c) => c.rgroup === 'H')!;
+    expect(h.contribution).toBeLessThan(0);
+    expect(h.contribution).toBeGreaterThan(-1);
+  });
+});
+
+describe('predictCombinations', () => {
+  it('predicts unmade combinations, best first', () => {
+    const model = fitFreeWilson(made, activities, leastSquares);
+    const search = predictCombinations(model, made, 10);
+    expect(search.combinationCount).toBe(6);
+    expect(search.unmadeCount).toBe(1);
+    expect(search.predictions).toHaveLength(1);
+    expect(search.predictions[0].rgroups).toEqual(['H', 'N']);
+    expect(search.predictions[0].predicted).toBeCloseTo(5, 6);
+  });
+
+  it('stops at maxPredictions', () => {
+    const model = fitFreeWilson(made, activities, leastSquares);
+    const search = predictCombinations(model, [], 2);
+    expect(search.unmadeCount).toBe(6);
+    expect(search.predictions.map((p) => p.rgroups)).toEqual([
+      ['Cl', 'N'],
+      ['F', 'N'],
+    ]);
+  });
+});
+
+describe('resolveFreeWilsonParameters', () => {
+  it('rejects a negative ridge penalty and out-of-range prediction caps', () => {
+    expect(resolveFreeWilsonParameters({})).toEqual({ ridgeAlpha: 0.1, maxPredictions: 100 });
+    expect(() => resolveFreeWilsonParameters({ ridgeAlpha: -1 })).toThrow(FreeWilsonOptionsError);
+    expect(() => resolveFreeWilsonParameters({ maxPredictions: 1001 })).toThrow(FreeWilsonOptionsError);
+  });
+});
@@ -0,0 +1,182 @@
+import { invert } from './domain';
+import { regressionMetrics, type RegressionMetrics } from './validation';
+
+export class FreeWilsonOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FreeWilsonOptionsError';
+  }
+}
+
+// Mirrors the Free-Wilson part of the `parameters` block returned for
+// r-group-analysis.
+export interface FreeWilsonParameters {
+  ridgeAlpha?: number;
+  maxPredictions?: number;
+}
+
+export interface ResolvedFreeWilsonParameters {
+  // L2 penalty on the substituent contributions (not the intercept); 0 is
+  // the classic least-squares fit.
+  ridgeAlpha: number;
+  // Cap on the reported predictions for unmade combinations.
+  maxPredictions: number;
+}
+
+export const MAX_PREDICTIONS = 1000;
+
+export interface SubstituentContribution {
+  rgroup: string;
+  // Measured compounds carrying it.
+  count: number;
+  // Activity change against the reference substituent at the same position.
+  contribution: number;
+  reference: boolean;
+}
+
+export interface FreeWilsonModel {
+  // Predicted activity with the reference substituent, the most common one,
+  // at every position (Fujita-Ban form).
+  intercept: number;
+  // Per position, largest contribution first.
+  contributions: SubstituentContribution[][];
+  fitted: number[];
+  training: RegressionMetrics;
+  // From exact leave-one-out predictions via the hat matrix; null for
+  // fewer than three compounds or when one has leverage 1 (a substituent
+  // seen once, without a penalty).
+  leaveOneOut: RegressionMetrics | null;
+}
+
+export interface CombinationPrediction {
+  rgroups: string[];
+  predicted: number;
+}
+
+export interface CombinationSearch {
+  // Combinations of substituents with a contribution, made or not.
+  combinationCount: number;
+  unmadeCount: number;
+  // Unmade combinations, highest prediction first.
+  predictions: CombinationPrediction[];
+}
+
+export function resolveFreeWilsonParameters(params: FreeWilsonParameters): ResolvedFreeWilsonParameters {
+  const { ridgeAlpha = 0.1, maxPredictions = 100 } = params;
+  if (typeof ridgeAlpha !== 'number' || !(ridgeAlpha >= 0) || !Number.isFinite(ridgeAlpha)) {
+    throw new FreeWilsonOptionsError('ridgeAlpha must be a non-negative number');
+  }
+  if (
+    typeof maxPredictions !== 'number' ||
+    !Number.isInteger(maxPredictions) ||
+    maxPredictions < 1 ||
+    maxPredictions > MAX_PREDICTIONS
+  ) {
+    throw new FreeWilsonOptionsError(`maxPredictions must be an integer between 1 and ${MAX_PREDICTIONS}`);
+  }
+  return { ridgeAlpha, maxPredictions };
+}
+
+// Additive model activity = intercept + sum of one contribution per
+// position, fitted by ridge regression on substituent indicator columns.
+// The most common substituent at each position (ties by SMILES) is the
+// reference and has no column, which removes the redundancy between the
+// intercept and a full set of indicators.
+export function fitFreeWilson(
+  rgroups: string[][],
+  activities: number[],
+  params: ResolvedFreeWilsonParameters
+): FreeWilsonModel {
+  const n = rgroups.length;
+  const positions = rgroups[0].length;
+  const counts = Array.from({ length: positions }, (_, k) => {
+    const tally = new Map<string, number>();
+    rgroups.forEach((row) => tally.set(row[k], (tally.get(row[k]) ?? 0) + 1));
+    return [...tally].sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0));
+  });
+
+  // Indicator column of every non-reference substituent
+  const columns = counts.flatMap((tally, k) => tally.slice(1).map(([rgroup]) => ({ position: k, rgroup })));
+  const column = new Map(columns.map((c, j) => [`${c.position}\t${c.rgroup}`, j + 1]));
+  const Z = rgroups.map((row) => {
+    const z = new Array<number>(columns.length + 1).fill(0);
+    z[0] = 1;
+    row.forEach((rgroup, k) => {
+      const j = column.get(`${k}\t${rgroup}`);
+      if (j !== undefined) z[j] = 1;
+    });
+    return z;
+  });
+
+  // (Z'Z + alpha D) beta = Z'y, with the intercept unpenalized. A tiny
+  // ridge keeps the system solvable when columns are collinear.
+  const p = columns.length + 1;
+  const A = Array.from({ length: p }, (_, i) =>
+    Array.from({ length: p }, (_, j) =>
+      Z.reduce((sum, z) => sum + z[i] * z[j], i === j ? (i > 0 ? params.ridgeAlpha : 0) + 1e-8 : 0)
+    )
+  );
+  const inverse = invert(A);
+  const zty = Array.from({ length: p }, (_, j) => Z.reduce((sum, z, i) => sum + z[j] * activities[i], 0));
+  const beta = inverse.map((row) => row.reduce((sum, v, j) => sum + v * zty[j], 0));
+
+  const dot = (a: number[], b: number[]) => a.reduce((sum, v, j) => sum + v * b[j], 0);
+  const fitted = Z.map((z) => dot(z, beta));
+  const leverages = Z.map((z) => dot(z, inverse.map((row) => dot(row, z))));
+  const leaveOneOut =
+    n > 2 && leverages.every((h) => 1 - h > 1e-6)
+      ? regressionMetrics(
+          activities,
+          activities.map((y, i) => y - (y - fitted[i]) / (1 - leverages[i]))
+        )
+      : null;
+
+  return {
+    intercept: beta[0],
+    contributions: counts.map((tally, k) =>
+      tally
+        .map(([rgroup, count], r) => ({
+          rgroup,
+          count,
+          contribution: r === 0 ? 0 : beta[column.get(`${k}\t${rgroup}`)!],
+          reference: r === 0,
+        }))
+        .sort((a, b) => b.contribution - a.contribution)
+    ),
+    fitted,
+    training: regressionMetrics(activities, fitted),
+    leaveOneOut,
+  };
+}
+
+// Best-scoring combinations of the fitted substituents that are not in
+// `made`, found best-first: each popped combination queues its neighbours
+// with one position moved to the next-best substituent there.
+export function predictCombinations(model: FreeWilsonModel, made: string[][], maxPredictions: number): CombinationSearch {
+  const options = model.contributions;
+  const madeKeys = new Set(made.map((rgroups) => rgroups.join('\n')));
+  const combinationCount = options.reduce((product, list) => product * list.length, 1);
+  const madeCount = [...madeKeys].filter((key) =>
+    key.split('\n').every((rgroup, k) => options[k].some((c) => c.rgroup === rgroup))
+  ).length;
+
+  const score = (picks: number[]) => picks.reduce((sum, r, k) => sum + options[k][r].contribution, model.intercept);
+  const frontier = [{ picks: options.map(() => 0), predicted: score(options.map(() => 0)) }];
+  const queued = new Set([frontier[0].picks.join()]);
+  const predictions: CombinationPrediction[] = [];
+  while (frontier.length > 0 && predictions.length < maxPredictions) {
+    const best = frontier.reduce((top, item, i) => (item.predicted > frontier[top].predicted ? i : top), 0);
+    const [{ picks, predicted }] = frontier.splice(best, 1);
+    const rgroups = picks.map((r, k) => options[k][r].rgroup);
+    if (!madeKeys.has(rgroups.join('\n'))) predictions.push({ rgroups, predicted });
+    picks.forEach((r, k) => {
+      if (r + 1 >= options[k].length) return;
+      const next = picks.map((value, j) => (j === k ? value + 1 : value));
+      if (queued.has(next.join())) return;
+      queued.add(next.join());
+      frontier.push({ picks: next, predicted: score(next) });
+    });
+  }
+
+  return { combinationCount, unmadeCount: combinationCount - madeCount, predictions };
+}
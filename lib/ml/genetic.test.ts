@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { parseSmiles } from '@/lib/chem/smiles';
+import {
+  OptimizationOptionsError,
+  optimizationObjectives,
+  optimizeStructure,
+  resolveObjectiveSpecs,
+  resolveOptimizationParameters,
+} from './genetic';
+
+const seed = parseSmiles('OC(=O)c1ccccc1OC');
+
+describe('resolveOptimizationParameters', () => {
+  it('reads iterations as generations and validates the rates and sizes', () => {
+    expect(resolveOptimizationParameters({ iterations: 7 }).generations).toBe(7);
+    expect(resolveOptimizationParameters({ iterations: 7, generations: 3 }).generations).toBe(3);
+    for (const parameters of [{ populationSize: 1 }, { generations: 0 }, { mutationRate: 1.5 }, { objectives: ['potency'] }]) {
+      expect(() => resolveOptimizationParameters(parameters)).toThrow(OptimizationOptionsError);
+    }
+  });
+});
+
+describe('optimizeStructure', () => {
+  const parameters = resolveOptimizationParameters({ populationSize: 12, generations: 4, seed: 3 });
+
+  it('evolves the seed and reports the best molecules per generation', () => {
+    const result = optimizeStructure(seed, parameters);
+    expect(result.seed).toMatchObject({ smiles: 'COc1ccccc1C(=O)O', score: 1 });
+    expect(result.generations.map((summary) => summary.generation)).toEqual([0, 1, 2, 3, 4]);
+    for (const summary of result.generations) {
+      expect(summary.best.length).toBeGreaterThan(0);
+      expect(summary.best.map((molecule) => molecule.score)).toEqual(
+        [...summary.best.map((molecule) => molecule.score)].sort((a, b) => b - a),
+      );
+      expect(summary.bestScore).toBeGreaterThanOrEqual(summary.meanScore);
+    }
+    expect(new Set(result.best.map((molecule) => molecule.smiles)).size).toBe(result.best.length);
+  });
+
+  it('accounts for every offspring as valid, repaired or discarded', () => {
+    const { offspring, operators } = optimizeStructure(seed, parameters);
+    expect(offspring.generated).toBe(offspring.valid + offspring.repaired + offspring.discarded);
+    expect(Object.values(operators).reduce((sum, counts) => sum + counts.generated, 0)).toBe(offspring.generated);
+    expect(operators.crossover.generated).toBeGreaterThan(0);
+  });
+
+  it('is reproducible for a seed', () => {
+    const runs = [optimizeStructure(seed, parameters), optimizeStructure(seed, parameters)];
+    expect(runs[0].best).toEqual(runs[1].best);
+  });
+});
+
+describe('optimizeStructure in pareto mode', () => {
+  const parameters = resolveOptimizationParameters({
+    populationSize: 12,
+    generations: 4,
+    seed: 3,
+    optimizationMode: 'pareto',
+    objectives: ['qed', { name: 'similarity', min: 0.3 }, { name: 'synthetic-accessibility', direction: 'minimize' }],
+  });
+
+  it('resolves objective directions and bounds', () => {
+    expect(parameters.objectives).toEqual([
+      { name: 'qed', direction: 'maximize' },
+      { name: 'similarity', direction: 'maximize', min: 0.3 },
+      { name: 'synthetic-accessibility', direction: 'minimize' },
+    ]);
+    const invalid = [
+      [{ name: 'qed', direction: 'up' }],
+      [{ name: 'qed', min: 0.8, max: 0.2 }],
+      ['qed', 'qed'],
+    ];
+    for (const objectives of invalid) {
+      expect(() => resolveObjectiveSpecs(objectives, optimizationObjectives)).toThrow(OptimizationOptionsError);
+    }
+  });
+
+  it('returns a feasible, mutually non-dominated front and a non-decreasing hypervolume', () => {
+    const result = optimizeStructure(seed, parameters);
+    const front = result.paretoFront!;
+    expect(front.length).toBeGreaterThan(0);
+    expect(front.every((molecule) => molecule.feasible && molecule.objectives.similarity >= 0.3)).toBe(true);
+    // Oriented for maximization: synthetic accessibility is minimized.
+    const oriented = front.map(({ objectives }) => [objectives.qed, objectives.similarity, -objectives['synthetic-accessibility']]);
+    for (const a of oriented) {
+      expect(oriented.some((b) => b.every((v, j) => v >= a[j]) && b.some((v, j) => v > a[j]))).toBe(false);
+    }
+    const volumes = result.generations.map((summary) => summary.hypervolume!);
+    expect(volumes.every((volume, i) => i === 0 || volume >= volumes[i - 1] - 1e-12)).toBe(true);
+    expect(result.generations.every((summary) => summary.frontSize! > 0)).toBe(true);
+  });
+});
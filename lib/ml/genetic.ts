@@ -0,0 +1,513 @@
+import { calculateDescriptors, type DescriptorName } from '@/lib/chem/descriptors';
+import { morganFingerprint, type Fingerprint } from '@/lib/chem/fingerprints';
+import type { Molecule } from '@/lib/chem/molecule';
+import {
+  crossover,
+  mutate,
+  mutationOperators,
+  sanitizeGraph,
+  type MutationOperator,
+} from '@/lib/chem/mutations';
+import { qed } from '@/lib/chem/qed';
+import { saScore } from '@/lib/chem/sascore';
+import { fingerprintSimilarity } from '@/lib/chem/similarity';
+import { writeSmiles } from '@/lib/chem/smiles';
+import { crowdingDistances, hypervolume, nonDominatedSort } from './pareto';
+import { createRandom, shuffle } from './random';
+
+export const optimizationObjectives = ['drug-likeness', 'similarity', 'qed', 'synthetic-accessibility'] as const;
+
+export type OptimizationObjective = (typeof optimizationObjectives)[number];
+
+// weighted-sum ranks molecules by their mean objective score; pareto runs
+// NSGA-II on the objective vectors.
+export const optimizationModes = ['weighted-sum', 'pareto'] as const;
+
+export type OptimizationMode = (typeof optimizationModes)[number];
+
+export const objectiveDirections = ['maximize', 'minimize'] as const;
+
+export type ObjectiveDirection = (typeof objectiveDirections)[number];
+
+// An objective with its direction and optional bounds on its value.
+// Molecules outside the bounds are infeasible and rank behind every
+// feasible one.
+export interface ObjectiveSpec<N extends string = string> {
+  name: N;
+  direction: ObjectiveDirection;
+  min?: number;
+  max?: number;
+}
+
+export class OptimizationOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OptimizationOptionsError';
+  }
+}
+
+// Mirrors the `parameters` block returned for structure-optimization;
+// `iterations` is accepted as an alias of `generations`. Objectives are
+// names (maximized, unconstrained) or { name, direction?, min?, max? }.
+export interface OptimizationParameters {
+  populationSize?: number;
+  generations?: number;
+  iterations?: number;
+  mutationRate?: number;
+  crossoverRate?: number;
+  optimizationMode?: string;
+  objectives?: (string | Partial<ObjectiveSpec>)[];
+  seed?: number;
+}
+
+export interface ResolvedOptimizationParameters {
+  populationSize: number;
+  generations: number;
+  mutationRate: number;
+  crossoverRate: number;
+  optimizationMode: OptimizationMode;
+  objectives: ObjectiveSpec<OptimizationObjective>[];
+  seed: number;
+}
+
+export const MAX_POPULATION_SIZE = 500;
+export const MAX_GENERATIONS = 1000;
+
+// Weighted-sum tournaments; NSGA-II uses binary tournaments.
+const TOURNAMENT_SIZE = 3;
+const PARETO_TOURNAMENT_SIZE = 2;
+// Share of each weighted-sum generation carried over unchanged, at least
+// one molecule. NSGA-II is elitist through its survivor selection.
+const ELITE_FRACTION = 0.05;
+// Offspring beyond this size are discarded rather than scored.
+const MAX_HEAVY_ATOMS = 60;
+// Mutations applied to the seed for each initial population member.
+const MAX_SEED_MUTATIONS = 3;
+// Stop once the best score (hypervolume in pareto mode) has improved by
+// less than the tolerance over the window (the pseudocode's convergence
+// check).
+const CONVERGENCE_WINDOW = 50;
+const CONVERGENCE_TOLERANCE = 0.001;
+const TOP_PER_GENERATION = 5;
+
+// Lipinski and Veber ranges as [descriptor, min, max, scale]. Values inside
+// the range score 1 and decay exponentially with the distance outside it,
+// in units of scale.
+const drugLikenessRanges: [DescriptorName, number, number, number][] = [
+  ['MW', 150, 500, 100],
+  ['LogP', -1, 5, 1],
+  ['HBD', 0, 5, 1],
+  ['HBA', 0, 10, 2],
+  ['TPSA', 20, 140, 20],
+  ['RotatableBonds', 0, 10, 2],
+];
+
+interface ObjectiveContext {
+  seedFingerprint: Fingerprint;
+}
+
+// Every objective scores in [0, 1], higher is better.
+const objectiveFunctions: Record<OptimizationObjective, (mol: Molecule, context: ObjectiveContext) => number> = {
+  'drug-likeness': (mol) => {
+    const values = calculateDescriptors(
+      mol,
+      drugLikenessRanges.map(([name]) => name),
+    );
+    const scores = drugLikenessRanges.map(([name, min, max, scale]) =>
+      Math.exp(-Math.max(0, min - values[name], values[name] - max) / scale),
+    );
+    return scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  },
+  similarity: (mol, context) =>
+    fingerprintSimilarity(context.seedFingerprint, objectiveFingerprint(mol), 'tanimoto'),
+  qed: (mol) => qed(mol),
+  // SA runs from 1 (easy) to 10 (hard)
+  'synthetic-accessibility': (mol) => (10 - saScore(mol)) / 9,
+};
+
+function objectiveFingerprint(mol: Molecule): Fingerprint {
+  return morganFingerprint(mol, { radius: 2, bitLength: 2048 });
+}
+
+export interface ScoredMolecule {
+  smiles: string;
+  // Mean of the objective scores, each flipped to 1 - value when minimized.
+  score: number;
+  feasible: boolean;
+  objectives: Record<OptimizationObjective, number>;
+}
+
+interface Candidate extends ScoredMolecule {
+  mol: Molecule;
+  // Objective scores oriented for maximization, in objective order.
+  values: number[];
+  // Summed distance outside the objective bounds.
+  violation: number;
+}
+
+export interface OffspringCounts {
+  // Molecules produced by an operator, before validation.
+  generated: number;
+  // Valid as produced, repaired into valid molecules, or discarded.
+  valid: number;
+  repaired: number;
+  discarded: number;
+}
+
+export interface GenerationSummary {
+  generation: number;
+  bestScore: number;
+  meanScore: number;
+  uniqueMolecules: number;
+  best: ScoredMolecule[];
+  offspring: OffspringCounts;
+  // Pareto mode: distinct feasible molecules on the first front and the
+  // hypervolume they dominate in oriented objective space.
+  frontSize?: number;
+  hypervolume?: number;
+}
+
+export interface OptimizationResult {
+  seed: ScoredMolecule;
+  // Generation 0 is the initial population.
+  generations: GenerationSummary[];
+  best: ScoredMolecule[];
+  // Pareto mode: the final first front, by score.
+  paretoFront?: ScoredMolecule[];
+  converged: boolean;
+  operators: Record<MutationOperator | 'crossover', OffspringCounts>;
+  offspring: OffspringCounts;
+}
+
+const emptyCounts = (): OffspringCounts => ({ generated: 0, valid: 0, repaired: 0, discarded: 0 });
+
+const inRange = (value: unknown, min: number, max: number) => typeof value === 'number' && value >= min && value <= max;
+
+const isPositiveInteger = (value: unknown, max: number) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= max;
+
+export function isOptimizationObjective(objective: string): objective is OptimizationObjective {
+  return (optimizationObjectives as readonly string[]).includes(objective);
+}
+
+export function isOptimizationMode(mode: string): mode is OptimizationMode {
+  return (optimizationModes as readonly string[]).includes(mode);
+}
+
+export function resolveOptimizationMode(mode: unknown = 'weighted-sum'): OptimizationMode {
+  if (typeof mode !== 'string' || !isOptimizationMode(mode)) {
+    throw new OptimizationOptionsError(`Invalid optimizationMode. Expected one of: ${optimizationModes.join(', ')}`);
+  }
+  return mode;
+}
+
+// Normalizes objective names and specs against the objectives a caller
+// supports; each objective may appear once.
+export function resolveObjectiveSpecs<N extends string>(objectives: unknown, names: readonly N[]): ObjectiveSpec<N>[] {
+  const invalid = () =>
+    new OptimizationOptionsError(
+      `Invalid objectives. Expected a non-empty list of names or { name, direction?, min?, max? } with names from: ${names.join(', ')}`,
+    );
+  if (!Array.isArray(objectives) || objectives.length === 0) throw invalid();
+  const specs = objectives.map((objective): ObjectiveSpec<N> => {
+    const entry = typeof objective === 'string' ? { name: objective } : objective;
+    if (typeof entry !== 'object' || entry === null || !(names as readonly unknown[]).includes(entry.name)) {
+      throw invalid();
+    }
+    const { name, direction = 'maximize', min, max } = entry as Partial<ObjectiveSpec>;
+    if (!(objectiveDirections as readonly unknown[]).includes(direction)) {
+      throw new OptimizationOptionsError(`Invalid direction for ${name}. Expected one of: ${objectiveDirections.join(', ')}`);
+    }
+    if (
+      (min !== undefined && typeof min !== 'number') ||
+      (max !== undefined && typeof max !== 'number') ||
+      (min !== undefined && max !== undefined && min > max)
+    ) {
+      throw new OptimizationOptionsError(`Bounds for ${name} must be numbers with min <= max`);
+    }
+    return {
+      name: name as N,
+      direction,
+      ...(min !== undefined ? { min } : {}),
+      ...(max !== undefined ? { max } : {}),
+    };
+  });
+  if (new Set(specs.map((spec) => spec.name)).size !== specs.length) {
+    throw new OptimizationOptionsError('Each objective may be listed only once');
+  }
+  return specs;
+}
+
+export function resolveOptimizationParameters(parameters: OptimizationParameters = {}): ResolvedOptimizationParameters {
+  const {
+    populationSize = 100,
+    iterations = 100,
+    generations = iterations,
+    mutationRate = 0.1,
+    crossoverRate = 0.7,
+    optimizationMode,
+    objectives = ['drug-likeness', 'similarity'],
+    seed = 42,
+  } = parameters;
+  if (!isPositiveInteger(populationSize, MAX_POPULATION_SIZE) || populationSize < 2) {
+    throw new OptimizationOptionsError(`populationSize must be an integer between 2 and ${MAX_POPULATION_SIZE}`);
+  }
+  if (!isPositiveInteger(generations, MAX_GENERATIONS)) {
+    throw new OptimizationOptionsError(`generations must be an integer between 1 and ${MAX_GENERATIONS}`);
+  }
+  if (!inRange(mutationRate, 0, 1) || !inRange(crossoverRate, 0, 1)) {
+    throw new OptimizationOptionsError('mutationRate and crossoverRate must be between 0 and 1');
+  }
+  if (!Number.isInteger(seed)) {
+    throw new OptimizationOptionsError('seed must be an integer');
+  }
+  return {
+    populationSize,
+    generations,
+    mutationRate,
+    crossoverRate,
+    optimizationMode: resolveOptimizationMode(optimizationMode),
+    objectives: resolveObjectiveSpecs(objectives, optimizationObjectives),
+    seed,
+  };
+}
+
+// Weighted-sum order: feasible first, then smaller violations, then score.
+const byScore = (a: Candidate, b: Candidate) =>
+  a.violation - b.violation || b.score - a.score || a.smiles.localeCompare(b.smiles);
+
+function topUnique(candidates: Candidate[], count: number): ScoredMolecule[] {
+  const seen = new Set<string>();
+  const top: ScoredMolecule[] = [];
+  for (const { smiles, score, feasible, objectives } of [...candidates].sort(byScore)) {
+    if (seen.has(smiles)) continue;
+    seen.add(smiles);
+    top.push({ smiles, score, feasible, objectives });
+    if (top.length === count) break;
+  }
+  return top;
+}
+
+// Genetic algorithm over molecular graphs with graph crossover and
+// mutation. Weighted-sum mode uses tournament selection on the mean score
+// with elitism; pareto mode is NSGA-II: crowded binary tournaments and
+// survivor selection over parents plus offspring by non-dominated front and
+// crowding distance. Offspring are sanitized, repaired where possible and
+// otherwise discarded; scores are cached per canonical SMILES.
+// Stereochemistry of the seed is not carried into offspring.
+export function optimizeStructure(seed: Molecule, parameters: ResolvedOptimizationParameters): OptimizationResult {
+  const { populationSize, generations, mutationRate, crossoverRate, optimizationMode, objectives } = parameters;
+  const pareto = optimizationMode === 'pareto';
+  const random = createRandom(parameters.seed);
+  const context: ObjectiveContext = { seedFingerprint: objectiveFingerprint(seed) };
+  const cache = new Map<string, Candidate>();
+  const operatorCounts = Object.fromEntries(
+    [...mutationOperators, 'crossover'].map((operator) => [operator, emptyCounts()]),
+  ) as Record<MutationOperator | 'crossover', OffspringCounts>;
+  let counts = emptyCounts();
+
+  const score = (mol: Molecule, smiles: string): Candidate => {
+    let candidate = cache.get(smiles);
+    if (!candidate) {
+      const raw = Object.fromEntries(
+        objectives.map(({ name }) => [name, objectiveFunctions[name](mol, context)]),
+      ) as Record<OptimizationObjective, number>;
+      const values = objectives.map(({ name, direction }) => (direction === 'maximize' ? raw[name] : 1 - raw[name]));
+      const violation = objectives.reduce(
+        (sum, { name, min = -Infinity, max = Infinity }) => sum + Math.max(0, min - raw[name], raw[name] - max),
+        0,
+      );
+      candidate = {
+        smiles,
+        mol,
+        score: values.reduce((sum, v) => sum + v, 0) / values.length,
+        feasible: violation === 0,
+        objectives: raw,
+        values,
+        violation,
+      };
+      cache.set(smiles, candidate);
+    }
+    return candidate;
+  };
+
+  // Validates an operator's output, updating the counts.
+  const offspring = (graph: Molecule, operator: MutationOperator | 'crossover'): Candidate | null => {
+    const tallies = [counts, operatorCounts[operator]];
+    tallies.forEach((t) => t.generated++);
+    const result = sanitizeGraph(graph);
+    if (!result || result.mol.atoms.filter((atom) => atom.element !== 'H').length > MAX_HEAVY_ATOMS) {
+      tallies.forEach((t) => t.discarded++);
+      return null;
+    }
+    tallies.forEach((t) => (result.repaired ? t.repaired++ : t.valid++));
+    return score(result.mol, result.smiles);
+  };
+
+  // One mutation with a randomly chosen operator that has a site to act on.
+  const mutateCandidate = (candidate: Candidate): Candidate | null => {
+    for (const operator of shuffle([...mutationOperators], random)) {
+      const graph = mutate(candidate.mol, operator, random);
+      if (graph) return offspring(graph, operator);
+    }
+    return null;
+  };
+
+  // Children from tournament-selected parents: crossover with
+  // crossoverRate, then mutation with mutationRate.
+  const breed = (
+    population: Candidate[],
+    count: number,
+    better: (a: Candidate, b: Candidate) => boolean,
+    tournamentSize: number,
+  ): Candidate[] => {
+    const tournament = (): Candidate => {
+      let best = population[Math.floor(random() * population.length)];
+      for (let k = 1; k < tournamentSize; k++) {
+        const challenger = population[Math.floor(random() * population.length)];
+        if (better(challenger, best)) best = challenger;
+      }
+      return best;
+    };
+    const children: Candidate[] = [];
+    while (children.length < count) {
+      const parents = [tournament(), tournament()];
+      let pair = parents;
+      if (random() < crossoverRate) {
+        const valid = crossover(parents[0].mol, parents[1].mol, random)
+          .map((graph) => offspring(graph, 'crossover'))
+          .filter((child): child is Candidate => child !== null);
+        if (valid.length > 0) pair = valid;
+      }
+      for (const child of pair) {
+        if (children.length === count) break;
+        children.push(random() < mutationRate ? (mutateCandidate(child) ?? child) : child);
+      }
+    }
+    return children;
+  };
+
+  // Front rank and crowding distance of every distinct molecule.
+  const rankFronts = (pool: Candidate[]) => {
+    const points = pool.map((c) => c.values);
+    const fronts = nonDominatedSort(
+      points,
+      pool.map((c) => c.violation),
+    );
+    const ranking = new Map<Candidate, { rank: number; crowding: number }>();
+    fronts.forEach((front, rank) => {
+      const distances = crowdingDistances(points, front);
+      front.forEach((i, k) => ranking.set(pool[i], { rank, crowding: distances[k] }));
+    });
+    return { fronts, ranking };
+  };
+
+  // NSGA-II survivor selection: whole fronts while they fit, then the most
+  // isolated members of the next. Repeated molecules only fill places left
+  // once every distinct molecule is in.
+  const selectSurvivors = (pool: Candidate[]): Candidate[] => {
+    const distinct = [...new Set(pool)];
+    const { fronts, ranking } = rankFronts(distinct);
+    const survivors: Candidate[] = [];
+    for (const front of fronts) {
+      const members = front
+        .map((i) => distinct[i])
+        .sort((a, b) => ranking.get(b)!.crowding - ranking.get(a)!.crowding);
+      survivors.push(...members.slice(0, populationSize - survivors.length));
+      if (survivors.length === populationSize) return survivors;
+    }
+    const repeats = [...pool];
+    for (const survivor of survivors) repeats.splice(repeats.indexOf(survivor), 1);
+    return [...survivors, ...repeats.slice(0, populationSize - survivors.length)];
+  };
+
+  const firstFront = (population: Candidate[]): Candidate[] => {
+    const distinct = [...new Set(population)];
+    const { fronts } = rankFronts(distinct);
+    return fronts[0].map((i) => distinct[i]).filter((c) => c.feasible);
+  };
+
+  const summaries: GenerationSummary[] = [];
+  const summarize = (generation: number, population: Candidate[]) => {
+    const top = topUnique(population, TOP_PER_GENERATION);
+    const front = pareto ? firstFront(population) : [];
+    summaries.push({
+      generation,
+      bestScore: top[0].score,
+      meanScore: population.reduce((sum, c) => sum + c.score, 0) / population.length,
+      uniqueMolecules: new Set(population.map((c) => c.smiles)).size,
+      best: top,
+      offspring: counts,
+      ...(pareto
+        ? {
+            frontSize: front.length,
+            hypervolume: hypervolume(
+              front.map((c) => c.values),
+              objectives.map(() => 0),
+            ),
+          }
+        : {}),
+    });
+    counts = emptyCounts();
+  };
+  const progress = (generation: number) =>
+    pareto ? summaries[generation].hypervolume! : summaries[generation].bestScore;
+
+  // Initial population: the seed and variants of it, each one to a few
+  // mutations away. Falls back to copies of the seed if variants run out.
+  const seedCandidate = score(seed, writeSmiles(seed));
+  let population: Candidate[] = [seedCandidate];
+  for (let attempt = 0; population.length < populationSize && attempt < populationSize * 10; attempt++) {
+    let variant: Candidate | null = seedCandidate;
+    const steps = 1 + Math.floor(random() * MAX_SEED_MUTATIONS);
+    for (let step = 0; step < steps && variant; step++) {
+      variant = mutateCandidate(variant);
+    }
+    if (variant) population.push(variant);
+  }
+  while (population.length < populationSize) population.push(seedCandidate);
+  if (pareto) population = selectSurvivors(population);
+  summarize(0, population);
+
+  const eliteCount = Math.max(1, Math.round(ELITE_FRACTION * populationSize));
+  let converged = false;
+  for (let generation = 1; generation <= generations && !converged; generation++) {
+    if (pareto) {
+      const { ranking } = rankFronts([...new Set(population)]);
+      // Crowded comparison: lower front first, then the less crowded.
+      const crowded = (a: Candidate, b: Candidate) => {
+        const ra = ranking.get(a)!;
+        const rb = ranking.get(b)!;
+        return ra.rank < rb.rank || (ra.rank === rb.rank && ra.crowding > rb.crowding);
+      };
+      population = selectSurvivors([...population, ...breed(population, populationSize, crowded, PARETO_TOURNAMENT_SIZE)]);
+    } else {
+      const elites = [...population].sort(byScore).slice(0, eliteCount);
+      const better = (a: Candidate, b: Candidate) => byScore(a, b) < 0;
+      population = [...elites, ...breed(population, populationSize - eliteCount, better, TOURNAMENT_SIZE)];
+    }
+    summarize(generation, population);
+
+    if (generation > CONVERGENCE_WINDOW) {
+      converged = progress(generation) - progress(generation - CONVERGENCE_WINDOW) < CONVERGENCE_TOLERANCE;
+    }
+  }
+
+  const total = emptyCounts();
+  for (const summary of summaries) {
+    total.generated += summary.offspring.generated;
+    total.valid += summary.offspring.valid;
+    total.repaired += summary.offspring.repaired;
+    total.discarded += summary.offspring.discarded;
+  }
+
+  return {
+    seed: topUnique([seedCandidate], 1)[0],
+    generations: summaries,
+    best: topUnique([...cache.values()], TOP_PER_GENERATION * 2),
+    ...(pareto ? { paretoFront: topUnique(firstFront(population), populationSize) } : {}),
+    converged,
+    operators: operatorCounts,
+    offspring: total,
+  };
+}
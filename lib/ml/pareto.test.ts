@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { crowdingDistances, dominates, hypervolume, nonDominatedSort } from './pareto';
+
+describe('dominates', () => {
+  it('needs at least as good everywhere and better somewhere', () => {
+    expect(dominates([2, 2], [1, 2])).toBe(true);
+    expect(dominates([2, 2], [2, 2])).toBe(false);
+    expect(dominates([3, 1], [1, 3])).toBe(false);
+  });
+});
+
+describe('nonDominatedSort', () => {
+  const points = [[1, 4], [2, 3], [4, 1], [1, 1], [2, 2], [0, 0]];
+
+  it('splits points into successive fronts', () => {
+    expect(nonDominatedSort(points)).toEqual([[0, 1, 2], [4], [3], [5]]);
+  });
+
+  it('puts feasible points ahead of infeasible ones, by smaller violation', () => {
+    // Without [2, 3], nothing feasible dominates [2, 2].
+    expect(nonDominatedSort(points, [0, 0.5, 0, 0, 0, 0.1])).toEqual([[0, 2, 4], [3], [5], [1]]);
+  });
+});
+
+describe('crowdingDistances', () => {
+  it('keeps the extremes and spaces interior points by normalized gaps', () => {
+    const points = [[0, 4], [1, 3], [3, 1], [4, 0]];
+    expect(crowdingDistances(points, [0, 1, 2, 3])).toEqual([Infinity, 3 / 4 + 3 / 4, 3 / 4 + 3 / 4, Infinity]);
+    expect(crowdingDistances([[0, 2], [1, 1], [2, 0], [1.9, 0.1]], [0, 1, 3, 2])[1]).toBeCloseTo(1.9 / 2 + 1.9 / 2);
+  });
+});
+
+describe('hypervolume', () => {
+  it('measures the region dominated above the reference point', () => {
+    expect(hypervolume([[1, 1]], [0, 0])).toBe(1);
+    // Two overlapping boxes, 2x1 and 1x2, share a unit square.
+    expect(hypervolume([[2, 1], [1, 2]], [0, 0])).toBe(3);
+    // Dominated and duplicate points add nothing; points below the reference are dropped.
+    expect(hypervolume([[2, 1], [1, 2], [1, 1], [2, 1], [-1, 5]], [0, 0])).toBe(3);
+    expect(hypervolume([[1, 1, 1], [2, 0.5, 0.5]], [0, 0, 0])).toBeCloseTo(1 + 0.25);
+  });
+});
@@ -0,0 +1,98 @@
+// Multi-objective building blocks for NSGA-II (Deb et al., IEEE Trans. Evol.
+// Comput. 2002, 6, 182). Objective vectors are maximized; violations are
+// summed constraint excesses, 0 for feasible points.
+
+export function dominates(a: number[], b: number[]): boolean {
+  let better = false;
+  for (let j = 0; j < a.length; j++) {
+    if (a[j] < b[j]) return false;
+    if (a[j] > b[j]) better = true;
+  }
+  return better;
+}
+
+// Constrained domination: feasible beats infeasible, a smaller violation
+// beats a larger one, and feasible points compare by Pareto domination.
+function constrainedDominates(a: number[], violationA: number, b: number[], violationB: number): boolean {
+  if (violationA === 0 && violationB === 0) return dominates(a, b);
+  return violationA < violationB;
+}
+
+// Fast non-dominated sort: fronts of point indices, best front first.
+export function nonDominatedSort(points: number[][], violations: number[] = points.map(() => 0)): number[][] {
+  const dominated: number[][] = points.map(() => []);
+  const dominationCount = new Array<number>(points.length).fill(0);
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      if (constrainedDominates(points[i], violations[i], points[j], violations[j])) {
+        dominated[i].push(j);
+        dominationCount[j]++;
+      } else if (constrainedDominates(points[j], violations[j], points[i], violations[i])) {
+        dominated[j].push(i);
+        dominationCount[i]++;
+      }
+    }
+  }
+  const fronts: number[][] = [];
+  let front = points.map((_, i) => i).filter((i) => dominationCount[i] === 0);
+  while (front.length > 0) {
+    fronts.push(front);
+    const next: number[] = [];
+    for (const i of front) {
+      for (const j of dominated[i]) {
+        if (--dominationCount[j] === 0) next.push(j);
+      }
+    }
+    front = next;
+  }
+  return fronts;
+}
+
+// Crowding distance of each front member, in front order: the summed
+// normalized gap between its neighbours along every objective. Boundary
+// points get Infinity so the extremes of the front are kept.
+export function crowdingDistances(points: number[][], front: number[]): number[] {
+  const distance = new Array<number>(front.length).fill(0);
+  const objectives = points[front[0]]?.length ?? 0;
+  for (let j = 0; j < objectives; j++) {
+    const order = front.map((_, k) => k).sort((a, b) => points[front[a]][j] - points[front[b]][j]);
+    const low = points[front[order[0]]][j];
+    const high = points[front[order[order.length - 1]]][j];
+    distance[order[0]] = distance[order[order.length - 1]] = Infinity;
+    if (high === low) continue;
+    for (let k = 1; k < order.length - 1; k++) {
+      distance[order[k]] += (points[front[order[k + 1]]][j] - points[front[order[k - 1]]][j]) / (high - low);
+    }
+  }
+  return distance;
+}
+
+function nonDominated(points: number[][]): number[][] {
+  return points.filter((p, i) => !points.some((q, k) => k !== i && (dominates(q, p) || (k < i && q.every((v, j) => v === p[j])))));
+}
+
+// Volume dominated by points already shifted so the reference is the origin,
+// by slicing along the last objective (HSO, While et al. 2006).
+function slicedVolume(points: number[][]): number {
+  if (points.length === 0) return 0;
+  const last = points[0].length - 1;
+  if (last === 0) return Math.max(...points.map((p) => p[0]));
+  const sorted = [...points].sort((a, b) => b[last] - a[last]);
+  let volume = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    const height = sorted[i][last] - (i + 1 < sorted.length ? sorted[i + 1][last] : 0);
+    if (height > 0) {
+      volume += height * slicedVolume(nonDominated(sorted.slice(0, i + 1).map((p) => p.slice(0, last))));
+    }
+  }
+  return volume;
+}
+
+// Hypervolume of the region dominated by the points and bounded below by
+// the reference point; points not strictly above it contribute nothing.
+export function hypervolume(points: number[][], reference: number[]): number {
+  const shifted = points
+    .filter((p) => p.every((v, j) => v > reference[j]))
+    .map((p) => p.map((v, j) => v - reference[j]));
+  return slicedVolume(nonDominated(shifted));
+}
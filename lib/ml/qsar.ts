@@ -0,0 +1,278 @@
+import { calculateDescriptors, descriptorNames, isDescriptorName, type DescriptorName } from '@/lib/chem/descriptors';
+import type { Molecule } from '@/lib/chem/molecule';
+import {
+  assessDomain,
+  domainMethods,
+  fitDomain,
+  isDomainMethod,
+  type ApplicabilityDomain,
+  type DomainAssessment,
+  type DomainMethod,
+  type DomainSample,
+} from './domain';
+import { fitForest, predictForest, type ForestPrediction, type RandomForest, type Task } from './forest';
+import {
+  classificationMetrics,
+  kFoldAssignments,
+  regressionMetrics,
+  type ClassificationMetrics,
+  type RegressionMetrics,
+} from './validation';
+
+export const qsarTasks: Task[] = ['regression', 'classification'];
+
+export class QsarTrainingError extends Error {}
+
+// Mirrors the `parameters` block returned for qsar-model.
+export interface QsarParameters {
+  descriptors?: string[];
+  kFolds?: number;
+  maxIterations?: number;
+  seed?: number;
+  applicabilityDomain?: string;
+}
+
+export interface ResolvedQsarParameters {
+  descriptors: DescriptorName[];
+  kFolds: number;
+  nEstimators: number;
+  maxDepth: number;
+  minSamplesSplit: number;
+  seed: number;
+  applicabilityDomain: DomainMethod;
+}
+
+export interface Normalization {
+  mean: number[];
+  std: number[];
+}
+
+export type QsarMetrics = RegressionMetrics | ClassificationMetrics;
+
+export interface CrossValidation {
+  kFolds: number;
+  metrics: QsarMetrics;
+  foldMetrics: QsarMetrics[];
+  // Fold, out-of-fold prediction and domain assessment against the fold's
+  // training compounds, for every training sample.
+  folds: number[];
+  predictions: ForestPrediction[];
+  domain: DomainAssessment[];
+}
+
+export interface QsarTrainingResult {
+  task: Task;
+  parameters: ResolvedQsarParameters;
+  // Class labels in index order (classification); null for regression.
+  classes: (string | number)[] | null;
+  normalization: Normalization;
+  forest: RandomForest;
+  domain: ApplicabilityDomain;
+  crossValidation: CrossValidation;
+}
+
+export function isQsarTask(task: string): task is Task {
+  return (qsarTasks as string[]).includes(task);
+}
+
+export function resolveQsarParameters(parameters: QsarParameters = {}): ResolvedQsarParameters {
+  const {
+    descriptors = ['MW', 'LogP', 'TPSA', 'HBD', 'HBA', 'RotatableBonds'],
+    kFolds = 5,
+    maxIterations = 1000,
+    seed = 42,
+    applicabilityDomain = 'leverage',
+  } = parameters;
+  if (!Array.isArray(descriptors) || descriptors.length === 0 || !descriptors.every(isDescriptorName)) {
+    throw new QsarTrainingError(`Invalid descriptors. Expected a non-empty subset of: ${descriptorNames.join(', ')}`);
+  }
+  if (!Number.isInteger(kFolds) || kFolds < 2 || kFolds > 20) {
+    throw new QsarTrainingError('kFolds must be an integer between 2 and 20');
+  }
+  if (!Number.isInteger(maxIterations) || maxIterations < 1) {
+    throw new QsarTrainingError('maxIterations must be a positive integer');
+  }
+  if (!Number.isInteger(seed)) {
+    throw new QsarTrainingError('seed must be an integer');
+  }
+  if (typeof applicabilityDomain !== 'string' || !isDomainMethod(applicabilityDomain)) {
+    throw new QsarTrainingError(`Invalid applicabilityDomain. Expected one of: ${domainMethods.join(', ')}`);
+  }
+  // One tree per iteration, capped at the forest size used in the pseudocode.
+  return {
+    descriptors: [...new Set(descriptors)],
+    kFolds,
+    nEstimators: Math.min(100, maxIterations),
+    maxDepth: 10,
+    minSamplesSplit: 5,
+    seed,
+    applicabilityDomain,
+  };
+}
+
+export function descriptorRow(mol: Molecule, descriptors: DescriptorName[]): number[] {
+  const values = calculateDescriptors(mol, descriptors);
+  return descriptors.map((name) => values[name]);
+}
+
+// z-score statistics per column; constant columns keep a unit scale.
+export function fitNormalization(X: number[][]): Normalization {
+  const n = X.length;
+  const mean = X[0].map((_, j) => X.reduce((sum, row) => sum + row[j], 0) / n);
+  const std = mean.map((m, j) => Math.sqrt(X.reduce((sum, row) => sum + (row[j] - m) ** 2, 0) / n) || 1);
+  return { mean, std };
+}
+
+export function normalizeRow(normalization: Normalization, row: number[]): number[] {
+  return row.map((v, j) => (v - normalization.mean[j]) / normalization.std[j]);
+}
+
+// Targets as numbers for regression or class indices for classification.
+function encodeTargets(task: Task, activities: unknown[]): { y: number[]; classes: (string | number)[] | null } {
+  if (task === 'regression') {
+    if (!activities.every((a) => typeof a === 'number' && Number.isFinite(a))) {
+      throw new QsarTrainingError('Regression activities must be finite numbers');
+    }
+    return { y: activities as number[], classes: null };
+  }
+  const numeric = activities.every((a) => typeof a === 'number' && Number.isFinite(a));
+  if (!numeric && !activities.every((a) => typeof a === 'string')) {
+    throw new QsarTrainingError('Classification labels must be all numbers or all strings');
+  }
+  const classes = [...new Set(activities as (string | number)[])].sort((a, b) =>
+    numeric ? (a as number) - (b as number) : String(a).localeCompare(String(b)),
+  );
+  if (classes.length < 2) {
+    throw new QsarTrainingError('Classification needs at least two classes');
+  }
+  return { y: activities.map((a) => classes.indexOf(a as string | number)), classes };
+}
+
+export function domainSample(normalization: Normalization, row: number[], fingerprint: number[]): DomainSample {
+  return { x: normalizeRow(normalization, row), fingerprint };
+}
+
+function scoreFold(task: Task, y: number[], predictions: ForestPrediction[], classCount: number): QsarMetrics {
+  const predicted = predictions.map((p) => p.value);
+  return task === 'regression'
+    ? regressionMetrics(y, predicted)
+    : classificationMetrics(
+        y,
+        predicted,
+        predictions.map((p) => p.probabilities),
+        classCount,
+      );
+}
+
+// Cross-validates a random forest on the descriptor matrix, then fits the
+// final model on all samples. Normalization and the applicability domain
+// are refitted inside each fold so held-out samples never inform them.
+export function trainQsar(
+  task: Task,
+  X: number[][],
+  fingerprints: number[][],
+  activities: unknown[],
+  parameters: ResolvedQsarParameters,
+): QsarTrainingResult {
+  const { kFolds, nEstimators, maxDepth, minSamplesSplit, seed, applicabilityDomain } = parameters;
+  if (X.length < kFolds) {
+    throw new QsarTrainingError(`At least ${kFolds} valid compounds are needed for ${kFolds}-fold cross-validation`);
+  }
+  const { y, classes } = encodeTargets(task, activities);
+  const classCount = classes?.length ?? 1;
+  const forestOptions = { nEstimators, maxDepth, minSamplesSplit, seed, classCount };
+
+  const folds = kFoldAssignments(X.length, kFolds, seed, task === 'classification' ? y : undefined);
+  const predictions = new Array<ForestPrediction>(X.length);
+  const domain = new Array<DomainAssessment>(X.length);
+  const foldMetrics: QsarMetrics[] = [];
+  for (let fold = 0; fold < kFolds; fold++) {
+    const train = folds.map((_, i) => i).filter((i) => folds[i] !== fold);
+    const test = folds.map((_, i) => i).filter((i) => folds[i] === fold);
+    const normalization = fitNormalization(train.map((i) => X[i]));
+    const forest = fitForest(
+      task,
+      train.map((i) => normalizeRow(normalization, X[i])),
+      train.map((i) => y[i]),
+      forestOptions,
+    );
+    const foldDomain = fitDomain(
+      applicabilityDomain,
+      train.map((i) => domainSample(normalization, X[i], fingerprints[i])),
+    );
+    for (const i of test) {
+      const sample = domainSample(normalization, X[i], fingerprints[i]);
+      predictions[i] = predictForest(forest, sample.x);
+      domain[i] = assessDomain(foldDomain, sample);
+    }
+    foldMetrics.push(
+      scoreFold(
+        task,
+        test.map((i) => y[i]),
+        test.map((i) => predictions[i]),
+        classCount,
+      ),
+    );
+  }
+
+  const normalization = fitNormalization(X);
+  const forest = fitForest(
+    task,
+    X.map((row) => normalizeRow(normalization, row)),
+    y,
+    forestOptions,
+  );
+
+  return {
+    task,
+    parameters,
+    classes,
+    normalization,
+    forest,
+    domain: fitDomain(
+      applicabilityDomain,
+      X.map((row, i) => domainSample(normalization, row, fingerprints[i])),
+    ),
+    crossValidation: {
+      kFolds,
+      metrics: scoreFold(task, y, predictions, classCount),
+      foldMetrics,
+      folds,
+      predictions,
+      domain,
+    },
+  };
+}
+
+// The parts of a trained model needed at prediction time; both a training
+// result and a stored model provide them.
+export interface QsarPredictor {
+  task: Task;
+  classes: (string | number)[] | null;
+  normalization: Normalization;
+  forest: RandomForest;
+  // null skips the applicability-domain check.
+  domain: ApplicabilityDomain | null;
+  metrics: QsarMetrics;
+}
+
+export interface ActivityPrediction {
+  prediction: number | string;
+  // 0..1. Classification: probability of the predicted class. Regression:
+  // tree spread relative to the cross-validated RMSE, so a spread equal to
+  // the typical error scores 0.5.
+  confidence: number;
+  domain: DomainAssessment | null;
+}
+
+export function predictActivity(model: QsarPredictor, row: number[], fingerprint: number[]): ActivityPrediction {
+  const sample = domainSample(model.normalization, row, fingerprint);
+  const result = predictForest(model.forest, sample.x);
+  const domain = model.domain && assessDomain(model.domain, sample);
+  if (model.classes) {
+    return { prediction: model.classes[result.value], confidence: result.probabilities[result.value], domain };
+  }
+  const { rmse } = model.metrics as RegressionMetrics;
+  const confidence = rmse > 0 ? 1 / (1 + result.spread / rmse) : result.spread === 0 ? 1 : 0;
+  return { prediction: result.value, confidence, domain };
+}
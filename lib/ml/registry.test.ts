@@ -0,0 +1,74 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { parseSmiles, writeSmiles } from '@/lib/chem/smiles';
+import { domainFingerprint } from './domain';
+import { descriptorRow, predictActivity, resolveQsarParameters, trainQsar } from './qsar';
+import { listModels, loadModel, MODEL_FORMAT_VERSION, saveModel, serializeModel, type SerializedModel } from './registry';
+
+const trainingSet: [string, number][] = [
+  ['CCO', -0.31], ['CCCO', 0.25], ['CCCCO', 0.88], ['CCCCCO', 1.51], ['c1ccccc1', 2.13],
+  ['Cc1ccccc1', 2.73], ['Clc1ccccc1', 2.84], ['Oc1ccccc1', 1.46], ['CC(=O)O', -0.17], ['CCOCC', 0.89],
+];
+
+function trainedModel(): SerializedModel {
+  const mols = trainingSet.map(([smiles]) => parseSmiles(smiles));
+  const parameters = resolveQsarParameters({ kFolds: 2, maxIterations: 10 });
+  const result = trainQsar(
+    'regression',
+    mols.map((mol) => descriptorRow(mol, parameters.descriptors)),
+    mols.map(domainFingerprint),
+    trainingSet.map(([, activity]) => activity),
+    parameters,
+  );
+  const entries = mols.map((mol, i) => ({ canonicalSmiles: writeSmiles(mol), activity: trainingSet[i][1] }));
+  return serializeModel(result, 'logP', entries);
+}
+
+describe('model registry', () => {
+  let dir: string;
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'models-'));
+    process.env.MODEL_STORE_DIR = dir;
+  });
+  afterEach(async () => {
+    delete process.env.MODEL_STORE_DIR;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips the current format with its domain', async () => {
+    const model = trainedModel();
+    await saveModel(model);
+    const loaded = await loadModel(model.id);
+    expect(loaded?.version).toBe(MODEL_FORMAT_VERSION);
+    expect(loaded?.domain).toEqual(model.domain);
+  });
+
+  it('loads version 1 files without a domain and predicts without the domain check', async () => {
+    const model: Partial<SerializedModel> = { ...trainedModel(), version: 1 };
+    delete model.domain;
+    await saveModel(model as SerializedModel);
+    const loaded = await loadModel(model.id!);
+    expect(loaded?.domain).toBeNull();
+    const mol = parseSmiles('CCCCCCO');
+    const result = predictActivity(loaded!, descriptorRow(mol, loaded!.descriptors), domainFingerprint(mol));
+    expect(Number.isFinite(result.prediction)).toBe(true);
+    expect(result.domain).toBeNull();
+  });
+
+  it('ignores files from a newer format version', async () => {
+    const model = trainedModel();
+    await saveModel({ ...model, version: MODEL_FORMAT_VERSION + 1 });
+    expect(await loadModel(model.id)).toBeNull();
+  });
+
+  it('lists the remaining models when one file is corrupt or not a model', async () => {
+    const model = trainedModel();
+    await saveModel(model);
+    await writeFile(join(dir, '00000000-0000-4000-8000-000000000000.json'), '{"format": "crowe-qsar-mo');
+    await writeFile(join(dir, '11111111-1111-4111-8111-111111111111.json'), 'null');
+    const models = await listModels();
+    expect(models.map((summary) => summary.id)).toEqual([model.id]);
+  });
+});
@@ -0,0 +1,135 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { DescriptorName } from '@/lib/chem/descriptors';
+import type { ApplicabilityDomain } from './domain';
+import type { RandomForest, Task } from './forest';
+import type { Normalization, QsarMetrics, QsarTrainingResult, ResolvedQsarParameters } from './qsar';
+
+export const MODEL_FORMAT = 'crowe-qsar-model';
+export const MODEL_FORMAT_VERSION = 2;
+
+// On-disk form of a trained model, one JSON file per model. Descriptor
+// rows are built in `descriptors` order, z-scored with `normalization` and
+// fed to `forest`; classification outputs index into `classes`. `domain`
+// holds what the chosen applicability-domain method needs at prediction time;
+// it is null for version 1 models, which were saved before domains existed.
+export interface SerializedModel {
+  format: typeof MODEL_FORMAT;
+  version: number;
+  id: string;
+  name: string;
+  createdAt: string;
+  task: Task;
+  descriptors: DescriptorName[];
+  classes: (string | number)[] | null;
+  normalization: Normalization;
+  // Pooled out-of-fold metrics from cross-validation.
+  metrics: QsarMetrics;
+  parameters: ResolvedQsarParameters;
+  trainingSet: {
+    size: number;
+    // SHA-256 over the sorted canonical SMILES and activity pairs.
+    hash: string;
+  };
+  forest: RandomForest;
+  domain: ApplicabilityDomain | null;
+}
+
+export type ModelSummary = Omit<SerializedModel, 'normalization' | 'forest' | 'domain'>;
+
+export interface TrainingEntry {
+  canonicalSmiles: string;
+  activity: number | string;
+}
+
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// MODEL_STORE_DIR overrides the default `.models` directory, e.g. to point
+// at a mounted volume.
+export function modelStoreDir(): string {
+  return process.env.MODEL_STORE_DIR || join(process.cwd(), '.models');
+}
+
+export function isModelId(id: string): boolean {
+  return ID_PATTERN.test(id);
+}
+
+// Order-independent, so the same compounds and activities always hash the
+// same however the request listed them.
+export function trainingSetHash(entries: TrainingEntry[]): string {
+  const lines = entries.map((entry) => `${entry.canonicalSmiles}\t${JSON.stringify(entry.activity)}`).sort();
+  return createHash('sha256').update(lines.join('\n')).digest('hex');
+}
+
+export function serializeModel(
+  result: QsarTrainingResult,
+  name: string,
+  trainingSet: TrainingEntry[],
+): SerializedModel {
+  return {
+    format: MODEL_FORMAT,
+    version: MODEL_FORMAT_VERSION,
+    id: randomUUID(),
+    name,
+    createdAt: new Date().toISOString(),
+    task: result.task,
+    descriptors: result.parameters.descriptors,
+    classes: result.classes,
+    normalization: result.normalization,
+    metrics: result.crossValidation.metrics,
+    parameters: result.parameters,
+    trainingSet: { size: trainingSet.length, hash: trainingSetHash(trainingSet) },
+    forest: result.forest,
+    domain: result.domain,
+  };
+}
+
+export function summarizeModel(model: SerializedModel): ModelSummary {
+  const { format, version, id, name, createdAt, task, descriptors, classes, metrics, parameters, trainingSet } = model;
+  return { format, version, id, name, createdAt, task, descriptors, classes, metrics, parameters, trainingSet };
+}
+
+export async function saveModel(model: SerializedModel): Promise<void> {
+  const dir = modelStoreDir();
+  await mkdir(dir, { recursive: true });
+  await writeFile(join(dir, `${model.id}.json`), JSON.stringify(model));
+}
+
+export async function loadModel(id: string): Promise<SerializedModel | null> {
+  if (!isModelId(id)) return null;
+  try {
+    const model = JSON.parse(await readFile(join(modelStoreDir(), `${id}.json`), 'utf8'));
+    if (model?.format !== MODEL_FORMAT || !(model.version <= MODEL_FORMAT_VERSION)) return null;
+    return model.version < 2 ? { ...model, domain: null } : model;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+// Newest first. Files that are not models in this format are skipped.
+export async function listModels(): Promise<ModelSummary[]> {
+  let files: string[];
+  try {
+    files = await readdir(modelStoreDir());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+  const models: ModelSummary[] = [];
+  for (const file of files) {
+    const id = file.replace(/\.json$/, '');
+    if (!file.endsWith('.json') || !isModelId(id)) continue;
+    let model: SerializedModel | null;
+    try {
+      model = await loadModel(id);
+    } catch (error) {
+      // A truncated or hand-edited file should not hide the other models.
+      if (error instanceof SyntaxError) continue;
+      throw error;
+    }
+    if (model) models.push(summarizeModel(model));
+  }
+  return models.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { classificationMetrics, kFoldAssignments, regressionMetrics } from './validation';
+
+describe('kFoldAssignments', () => {
+  it('deals samples into k folds of near-equal size, reproducibly', () => {
+    const folds = kFoldAssignments(11, 3, 7);
+    const sizes = [0, 1, 2].map((fold) => folds.filter((f) => f === fold).length);
+    expect(sizes.sort()).toEqual([3, 4, 4]);
+    expect(kFoldAssignments(11, 3, 7)).toEqual(folds);
+  });
+
+  it('keeps the class balance in every fold when given labels', () => {
+    const labels = [0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 1, 1];
+    const folds = kFoldAssignments(labels.length, 3, 1, labels);
+    for (let fold = 0; fold < 3; fold++) {
+      const members = labels.filter((_, i) => folds[i] === fold);
+      expect(members.filter((label) => label === 1)).toHaveLength(2);
+    }
+  });
+});
+
+describe('regressionMetrics', () => {
+  it('computes R², RMSE and MAE', () => {
+    const metrics = regressionMetrics([1, 2, 3, 4], [1, 2, 4, 4]);
+    expect(metrics.r2).toBeCloseTo(1 - 1 / 5);
+    expect(metrics.rmse).toBeCloseTo(0.5);
+    expect(metrics.mae).toBeCloseTo(0.25);
+  });
+});
+
+describe('classificationMetrics', () => {
+  it('computes accuracy, balanced accuracy, ROC AUC and MCC for two classes', () => {
+    const observed = [0, 0, 0, 1];
+    const predicted = [0, 0, 1, 1];
+    const probabilities = [[0.9, 0.1], [0.8, 0.2], [0.4, 0.6], [0.3, 0.7]];
+    const metrics = classificationMetrics(observed, predicted, probabilities, 2);
+    expect(metrics.accuracy).toBeCloseTo(0.75);
+    expect(metrics.balancedAccuracy).toBeCloseTo((2 / 3 + 1) / 2);
+    expect(metrics.rocAuc).toBeCloseTo(1);
+    expect(metrics.mcc).toBeCloseTo(1 / Math.sqrt(3));
+  });
+
+  it('leaves ROC AUC and MCC out for more than two classes', () => {
+    const metrics = classificationMetrics([0, 1, 2], [0, 1, 1], [[1, 0, 0], [0, 1, 0], [0, 1, 0]], 3);
+    expect(metrics).toMatchObject({ rocAuc: null, mcc: null });
+    expect(metrics.balancedAccuracy).toBeCloseTo(2 / 3);
+  });
+});
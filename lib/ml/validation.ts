@@ -0,0 +1,104 @@
+import { createRandom, shuffle } from './random';
+
+// Fold index for every sample. With labels, samples are dealt out class by
+// class so each fold keeps roughly the overall class balance.
+export function kFoldAssignments(n: number, k: number, seed: number, labels?: number[]): number[] {
+  const random = createRandom(seed);
+  const order = shuffle(
+    Array.from({ length: n }, (_, i) => i),
+    random,
+  );
+  if (labels) order.sort((a, b) => labels[a] - labels[b]);
+  const folds = new Array<number>(n);
+  order.forEach((sample, position) => (folds[sample] = position % k));
+  return folds;
+}
+
+export interface RegressionMetrics {
+  r2: number;
+  rmse: number;
+  mae: number;
+}
+
+export function regressionMetrics(observed: number[], predicted: number[]): RegressionMetrics {
+  const n = observed.length;
+  const mean = observed.reduce((sum, v) => sum + v, 0) / n;
+  let ssRes = 0;
+  let ssTot = 0;
+  let absError = 0;
+  observed.forEach((v, i) => {
+    ssRes += (v - predicted[i]) ** 2;
+    ssTot += (v - mean) ** 2;
+    absError += Math.abs(v - predicted[i]);
+  });
+  return { r2: ssTot === 0 ? 0 : 1 - ssRes / ssTot, rmse: Math.sqrt(ssRes / n), mae: absError / n };
+}
+
+export interface ClassificationMetrics {
+  accuracy: number;
+  balancedAccuracy: number;
+  // Binary tasks only: ROC AUC of the second class's probability and the
+  // Matthews correlation coefficient.
+  rocAuc: number | null;
+  mcc: number | null;
+}
+
+// Area under the ROC curve via the rank-sum statistic, with ties averaged.
+function rocAuc(positive: boolean[], scores: number[]): number | null {
+  const order = scores.map((_, i) => i).sort((a, b) => scores[a] - scores[b]);
+  const ranks = new Array<number>(scores.length);
+  for (let i = 0; i < order.length; ) {
+    let j = i;
+    while (j + 1 < order.length && scores[order[j + 1]] === scores[order[i]]) j++;
+    for (let t = i; t <= j; t++) ranks[order[t]] = (i + j) / 2 + 1;
+    i = j + 1;
+  }
+  const nPos = positive.filter(Boolean).length;
+  const nNeg = positive.length - nPos;
+  if (nPos === 0 || nNeg === 0) return null;
+  const rankSum = ranks.reduce((sum, r, i) => (positive[i] ? sum + r : sum), 0);
+  return (rankSum - (nPos * (nPos + 1)) / 2) / (nPos * nNeg);
+}
+
+export function classificationMetrics(
+  observed: number[],
+  predicted: number[],
+  probabilities: number[][],
+  classCount: number,
+): ClassificationMetrics {
+  const n = observed.length;
+  const correct = observed.filter((c, i) => c === predicted[i]).length;
+  const recalls: number[] = [];
+  for (let c = 0; c < classCount; c++) {
+    const members = observed.map((o, i) => i).filter((i) => observed[i] === c);
+    if (members.length > 0) recalls.push(members.filter((i) => predicted[i] === c).length / members.length);
+  }
+
+  let auc: number | null = null;
+  let mcc: number | null = null;
+  if (classCount === 2) {
+    auc = rocAuc(
+      observed.map((c) => c === 1),
+      probabilities.map((p) => p[1]),
+    );
+    let tp = 0;
+    let tn = 0;
+    let fp = 0;
+    let fn = 0;
+    observed.forEach((c, i) => {
+      if (c === 1 && predicted[i] === 1) tp++;
+      else if (c === 1) fn++;
+      else if (predicted[i] === 1) fp++;
+      else tn++;
+    });
+    const denominator = Math.sqrt((tp + fp) * (tp + fn) * (tn + fp) * (tn + fn));
+    mcc = denominator === 0 ? 0 : (tp * tn - fp * fn) / denominator;
+  }
+
+  return {
+    accuracy: correct / n,
+    balancedAccuracy: recalls.reduce((sum, r) => sum + r, 0) / recalls.length,
+    rocAuc: auc,
+    mcc,
+  };
+}
@@ -0,0 +1,55 @@
+// Builds lib/chem/pains.json from the PAINS filter sources in RDKit's
+// FilterCatalog (Baell & Holloway, J. Med. Chem. 2010, 53, 2719, as SMARTS
+// by Saubern et al.):
+//
+//   node scripts/build-pains.mjs <rdkit>/Code/GraphMol/FilterCatalog [label]
+//
+// pains_a.in, pains_b.in and pains_c.in each hold a C array of FilterData_t
+// entries, {"<regId=name(count)>", "SMARTS", ...}; the label (for example the
+// RDKit release) is stored as the catalogue's source.
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+export const painsFiles = { 'pains-a': 'pains_a.in', 'pains-b': 'pains_b.in', 'pains-c': 'pains_c.in' };
+
+// Adjacent C string literals, which long SMARTS are split into.
+const literals = String.raw`((?:"(?:[^"\\]|\\.)*"\s*)+)`;
+
+function unquote(text) {
+  return [...text.matchAll(/"((?:[^"\\]|\\.)*)"/g)].map(([, body]) => body.replace(/\\(.)/g, '$1')).join('');
+}
+
+// [name, SMARTS] pairs from the FilterData_t arrays of one .in file.
+export function parseFilterData(source) {
+  const entries = [];
+  for (const [, body] of source.matchAll(/FilterData_t\s+\w+\s*\[\s*\]\s*=\s*\{([^]*?)\n\s*\};/g)) {
+    for (const [, name, smarts] of body.matchAll(new RegExp(String.raw`\{\s*${literals},\s*${literals}[^}]*\}`, 'g'))) {
+      entries.push([unquote(name).replace(/^<regId=(.*)>$/, '$1'), unquote(smarts)]);
+    }
+  }
+  return entries;
+}
+
+export async function buildPainsCatalog(directory, source) {
+  const catalog = { source };
+  for (const [family, file] of Object.entries(painsFiles)) {
+    const entries = parseFilterData(await readFile(join(directory, file), 'utf8'));
+    if (entries.length === 0) throw new Error(`No FilterData_t entries in ${file}`);
+    catalog[family] = entries;
+  }
+  return catalog;
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const [directory, label] = process.argv.slice(2);
+  if (!directory) {
+    console.error('Usage: node scripts/build-pains.mjs <rdkit>/Code/GraphMol/FilterCatalog [label]');
+    process.exit(1);
+  }
+  const catalog = await buildPainsCatalog(directory, label ?? `RDKit FilterCatalog (${directory})`);
+  const output = fileURLToPath(new URL('../lib/chem/pains.json', import.meta.url));
+  await writeFile(output, JSON.stringify(catalog, null, 1) + '\n');
+  const counts = Object.keys(painsFiles).map((family) => `${family} ${catalog[family].length}`);
+  console.log(`Wrote ${output}: ${counts.join(', ')}`);
+}
@@ -0,0 +1,49 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { buildPainsCatalog, parseFilterData, painsFiles } from './build-pains.mjs';
+
+// Laid out like RDKit's FilterCatalog sources; the patterns are placeholders.
+const source = String.raw`
+const FilterProperty_t PAINS_A_PROPS[] = {
+    {"FilterSet", "PAINS_A"},
+};
+const FilterData_t PAINS_A[] = {
+    {"<regId=first_A(12)>",
+     "[#6]-1-[#6]=[#6]-[#6]"
+     "=[#6]-1", 0, 0},
+    {"<regId=second_A(3)>", "c:c\\[#7]", 0, 0},
+};
+`;
+
+describe('build-pains', () => {
+  it('reads name and SMARTS pairs from FilterData_t arrays only', () => {
+    expect(parseFilterData(source)).toEqual([
+      ['first_A(12)', '[#6]-1-[#6]=[#6]-[#6]=[#6]-1'],
+      ['second_A(3)', 'c:c\\[#7]'],
+    ]);
+  });
+
+  it('builds one family per source file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'pains-'));
+    try {
+      for (const file of Object.values(painsFiles)) await writeFile(join(dir, file), source);
+      const catalog = await buildPainsCatalog(dir, 'fixture');
+      expect(Object.keys(catalog)).toEqual(['source', 'pains-a', 'pains-b', 'pains-c']);
+      expect(catalog).toMatchObject({ source: 'fixture', 'pains-c': parseFilterData(source) });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects a file without entries', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'pains-'));
+    try {
+      for (const file of Object.values(painsFiles)) await writeFile(join(dir, file), '// empty\n');
+      await expect(buildPainsCatalog(dir, 'fixture')).rejects.toThrow('No FilterData_t entries in pains_a.in');
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,40 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { morganFeatureIds } from '../lib/chem/fingerprints';
+import { syntheticAccessibility } from '../lib/chem/sascore';
+import { parseSmiles } from '../lib/chem/smiles';
+import fragmentTable from '../lib/chem/sa-fragments.json';
+import { buildFragmentTable } from './build-sa-fragments';
+
+const score = (smiles: string) => syntheticAccessibility(parseSmiles(smiles)).score;
+
+describe('build-sa-fragments', () => {
+  it('rebuilds the committed table from the reference set', () => {
+    const reference = readFileSync(new URL('../lib/chem/sa-reference.smi', import.meta.url), 'utf8');
+    expect(buildFragmentTable(reference)).toEqual(fragmentTable);
+  });
+
+  it('counts repeated environments and drops identifiers seen once', () => {
+    const table = buildFragmentTable('CCO ethanol\nCCO ethanol_again\nc1ccccc1 benzene\nO=C=S carbonyl_sulfide\n');
+    const ids = (smiles: string) => morganFeatureIds(parseSmiles(smiles), 2);
+    const [benzeneAtom] = ids('c1ccccc1');
+    for (const id of ids('CCO')) {
+      expect(table.contributions[id]).toBeLessThan(table.contributions[benzeneAtom]);
+    }
+    for (const id of ids('O=C=S')) expect(table.contributions).not.toHaveProperty(String(id));
+    expect(table.description).toContain('in 4 reference molecules');
+    expect(table.unknown).toBe(-2);
+  });
+
+  it('keeps the calibration the offsets were chosen for', () => {
+    for (const smiles of ['CC(=O)Oc1ccccc1C(=O)O', 'CC(=O)Nc1ccc(O)cc1', 'Cn1cnc2c1c(=O)n(C)c(=O)n2C']) {
+      expect(score(smiles)).toBeLessThan(2.5);
+    }
+    for (const smiles of [
+      'CN1CC[C@]23c4c5ccc(O)c4O[C@H]2[C@@H](O)C=C[C@H]3[C@H]1C5',
+      'O=C1C[C@H]2OCC=C3CN4CC[C@@]56[C@@H]4C[C@H]3[C@H]2[C@H]6N1c1ccccc15',
+    ]) {
+      expect(score(smiles)).toBeGreaterThan(4.5);
+    }
+  });
+});
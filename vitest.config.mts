@@ -0,0 +1,8 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // Same import alias as tsconfig.json
+    alias: { '@': import.meta.dirname },
+  },
+});